@@ -25,9 +25,18 @@ export {
   updateAccount,
   deleteAccount,
   getAccountsStats,
-  bulkUpdateAccounts
+  bulkUpdateAccounts,
+  getAccountDeleteImpact,
+  resolveAccountDependents
 } from './modules/accounts/accounts.functions';
 
+// Export account brief functions
+export {
+  getAccountBrief,
+  generateAccountBrief,
+  generateAccountBriefsNightly
+} from './modules/accounts/account-brief.functions';
+
 // Export contact functions
 export {
   getContacts,
@@ -68,6 +77,50 @@ export {
   testFirebaseConnection
 } from './modules/opportunities/ai-summary.functions';
 
+// Export AI summary version and rating functions
+export {
+  getAISummaryVersions,
+  rateAISummary,
+  getAISummaryRatingStats
+} from './modules/opportunities/ai-summary-versions.functions';
+
+// Export AI action extraction functions
+export { extractOpportunityActions } from './modules/opportunities/ai-extraction.functions';
+
+// Export stage history and pipeline velocity functions
+export {
+  getOpportunityStageHistory,
+  getPipelineVelocity
+} from './modules/opportunities/stage-history.functions';
+
+// Export win/loss analysis functions
+export { getWinLossAnalysis } from './modules/opportunities/win-loss.functions';
+
+// Export stage gate functions
+export {
+  getStageGates,
+  saveStageGates
+} from './modules/opportunities/stage-gates.functions';
+
+// Export forecast functions
+export {
+  getForecast,
+  getForecastSettings,
+  saveForecastSettings,
+  getForecastSnapshots,
+  getForecastComparison,
+  snapshotForecast
+} from './modules/forecast/forecast.functions';
+
+// Export target functions
+export {
+  getTargets,
+  saveTarget,
+  deleteTarget,
+  getTargetAttainment,
+  getTargetTrend
+} from './modules/targets/targets.functions';
+
 // Export task functions
 export {
   // Standalone tasks
@@ -94,7 +147,9 @@ export {
   getUser,
   updateUser,
   getUsersStats,
-  testGetUser
+  testGetUser,
+  getMyPermissions,
+  updateUserRole
 } from './modules/users/users.functions';
 
 // Export assignment functions
@@ -123,3 +178,91 @@ export {
   batchLoadDashboardData,
   getRecentItems
 } from './modules/dashboard/dashboard.functions';
+
+// Export trash functions
+export {
+  getTrashItems,
+  restoreTrashItem,
+  purgeTrashItem,
+  purgeExpiredTrash
+} from './modules/trash/trash.functions';
+
+// Export duplicate detection and merge functions
+export {
+  findDuplicateAccounts,
+  findDuplicateContacts,
+  mergeAccounts,
+  mergeContacts,
+  getRecordRedirect
+} from './modules/duplicates/duplicates.functions';
+
+// Export import functions
+export {
+  importRecords
+} from './modules/import/import.functions';
+
+// Export team and territory functions
+export {
+  getTeams,
+  saveTeam,
+  deleteTeam,
+  saveTerritory,
+  deleteTerritory
+} from './modules/teams/teams.functions';
+
+// Export record history functions
+export {
+  getRecordHistory,
+  revertRecordHistory
+} from './modules/history/history.functions';
+
+// Export audit log functions
+export {
+  getAuditLogs,
+  pruneAuditViewLogs
+} from './modules/audit/audit.functions';
+
+// Export weekly report functions
+export {
+  getWeeklyReport,
+  sendWeeklyDigests,
+  getWeeklyNarrative,
+  generateWeeklyNarrative,
+  saveWeeklyNarrative
+} from './modules/reports/reports.functions';
+
+// Export AI usage and budget functions
+export {
+  getAIUsage,
+  saveAIBudget
+} from './modules/ai-usage/ai-usage.functions';
+
+// Export notification functions
+export {
+  getNotifications,
+  markNotificationsRead,
+  createDueNotifications,
+  sendNotificationDigests,
+  sendNotificationEmail
+} from './modules/notifications/notifications.functions';
+
+// Export workflow automation functions
+export {
+  getWorkflowRules,
+  saveWorkflowRule,
+  deleteWorkflowRule,
+  testWorkflowRule,
+  getWorkflowExecutions,
+  runWorkflowDateTriggers,
+  runQueuedWorkflowRules
+} from './modules/workflows/workflows.functions';
+
+// Export approval functions
+export {
+  getApprovalPolicies,
+  saveApprovalPolicy,
+  deleteApprovalPolicy,
+  getApprovalRequests,
+  getOpportunityApprovals,
+  decideApproval
+} from './modules/approvals/approvals.functions';
@@ -0,0 +1,126 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getFirestore } from 'firebase-admin/firestore';
+import { authenticateUser, requirePermission, AuthenticatedUser } from '../../shared/auth.middleware';
+import { validateData, commonSchemas } from '../../shared/validation.middleware';
+import { withErrorHandling } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { isDeleted } from '../../shared/soft-delete';
+import { AI_SECRETS } from '../../shared/ai/config';
+import { AIUsageService } from '../../shared/ai/usage.service';
+import { AccountBriefService } from './account-brief.service';
+import type { Account } from './accounts.service';
+import { TeamsService } from '../teams/teams.service';
+import { z } from 'zod';
+
+const accountBriefSchema = z.object({
+  accountId: commonSchemas.id
+});
+
+const getBriefService = () => new AccountBriefService(getFirestore());
+
+const getVisibleAccount = async (user: AuthenticatedUser, accountId: string): Promise<Account> => {
+  const account = await getBriefService().getAccount(accountId);
+  await new TeamsService(getFirestore()).assertCanView(user, 'accounts', account);
+  return account;
+};
+
+/**
+ * The account's current relationship brief, or null if none was generated
+ */
+export const getAccountBrief = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'accounts:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getAccountBrief');
+
+    const { accountId } = validateData(accountBriefSchema, request.data);
+    await getVisibleAccount(user, accountId);
+
+    const brief = await getBriefService().getBrief(accountId);
+
+    return { brief };
+  }, { functionName: 'getAccountBrief', action: 'ACCOUNT_BRIEF_GET' })
+);
+
+/**
+ * Regenerate the account's relationship brief on demand
+ */
+export const generateAccountBrief = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10,
+    secrets: AI_SECRETS
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'accounts:read');
+    requirePermission(user, 'opportunities:generateSummary');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.heavy.maxRequests, RateLimitPresets.heavy.windowMs, 'generateAccountBrief');
+
+    const { accountId } = validateData(accountBriefSchema, request.data);
+    const account = await getVisibleAccount(user, accountId);
+
+    const brief = await getBriefService().generateBrief(account, 'manual', user.uid);
+
+    return { brief };
+  }, { functionName: 'generateAccountBrief', action: 'ACCOUNT_BRIEF_GENERATE' })
+);
+
+/**
+ * Refresh account briefs every night. Runs two hours after generateAISummariesNightly
+ * so the briefs pick up the opportunity summaries it just wrote. Briefs are not
+ * priority work, so the run stops once an AI budget is used up.
+ */
+export const generateAccountBriefsNightly = onSchedule({
+  schedule: '0 2 * * *', // Every day at 02:00 UTC
+  timeZone: 'UTC',
+  region: 'us-central1',
+  memory: '512MiB',
+  secrets: AI_SECRETS,
+}, async () => {
+  const startTime = Date.now();
+  const service = getBriefService();
+  const usageService = new AIUsageService(getFirestore());
+
+  const snapshot = await getFirestore().collection('accounts').get();
+  const accounts = snapshot.docs
+    .filter(doc => !isDeleted(doc.data()))
+    .map(doc => ({ id: doc.id, ...doc.data() } as Account));
+
+  let generated = 0;
+  let skipped = 0;
+  const errors: string[] = [];
+
+  for (const account of accounts) {
+    const budgetStatus = await usageService.getBudgetStatus();
+    if (budgetStatus.exceeded) {
+      console.log(`Account briefs: ${budgetStatus.exceeded} AI budget exceeded, stopping after ${generated} briefs`);
+      break;
+    }
+
+    try {
+      const brief = await service.refreshBrief(account);
+      if (brief) {
+        generated++;
+        // Same pacing as the opportunity summaries, to stay clear of provider rate limits
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      } else {
+        skipped++;
+      }
+    } catch (error) {
+      errors.push(`Account ${account.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  console.log(`Account briefs: ${generated} generated, ${skipped} unchanged, ${errors.length} failed of ${accounts.length} accounts in ${Date.now() - startTime}ms`);
+  errors.forEach(error => console.error(error));
+});
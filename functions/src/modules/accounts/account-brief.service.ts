@@ -0,0 +1,294 @@
+import { createHash } from 'crypto';
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { AIService } from '../../shared/ai/ai.service';
+import { AIUsage } from '../../shared/ai/types';
+import { NotFoundError } from '../../shared/errors';
+import { isDeleted } from '../../shared/soft-delete';
+import { Contact, Opportunity, Product } from '../../types';
+import type { Account } from './accounts.service';
+import { DAY_MS, isoDay, readDate } from '../../shared/dates';
+
+/**
+ * Bump whenever the brief prompt changes
+ */
+export const BRIEF_PROMPT_VERSION = 'account-brief-v1';
+
+export const BRIEF_SECTIONS = ['Relationship health', 'Commercial exposure', 'Recommended next steps'] as const;
+
+// How far back activities count towards the relationship picture
+const ACTIVITY_WINDOW_DAYS = 90;
+const MAX_PROMPT_ACTIVITIES = 15;
+
+const CLOSED_STAGES = ['Closed-Won', 'Closed-Lost'];
+
+export type BriefTrigger = 'manual' | 'nightly';
+
+/**
+ * Figures computed from the records, so the page can show them without trusting the model's arithmetic
+ */
+export interface AccountBriefMetrics {
+  openOpportunities: number;
+  openPipelineValue: number; // Sum of estimatedDealValue on open opportunities
+  wonValue: number; // Sum of estimatedDealValue on Closed-Won opportunities
+  lostOpportunities: number;
+  contacts: number;
+  decisionMakers: number;
+  products: number;
+  openBlockers: number;
+  recentActivities: number; // Activities in the last 90 days
+  daysSinceLastActivity: number | null; // null when nothing has been completed yet
+}
+
+/**
+ * One current brief per account, replaced on every generation. It rolls up every
+ * opportunity on the account, so anyone who can see the account sees the whole picture.
+ */
+export interface AccountBrief {
+  id: string; // Same as accountId
+  accountId: string;
+  text: string;
+  metrics: AccountBriefMetrics;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  inputHash: string; // sha256 of the full prompt
+  usage?: AIUsage;
+  trigger: BriefTrigger;
+  generatedBy: string; // User ID, or 'system' for the nightly run
+  generatedAt: Timestamp;
+}
+
+interface AccountRecords {
+  opportunities: Opportunity[];
+  contacts: Contact[];
+  products: Product[];
+}
+
+// Stored activities carry activityType/subject/notes, which the shared Activity type predates
+interface StoredActivity {
+  activityType?: string;
+  type?: string;
+  subject?: string;
+  description?: string;
+  notes?: string;
+  status?: string;
+  dateTime?: Timestamp;
+}
+
+interface RecentActivity {
+  date: Date;
+  opportunityTitle: string;
+  activity: StoredActivity;
+}
+
+const formatValue = (value: number) => `$${value.toLocaleString('en-US')}`;
+
+export class AccountBriefService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  async getAccount(accountId: string): Promise<Account> {
+    const doc = await this.db.collection('accounts').doc(accountId).get();
+    if (!doc.exists || isDeleted(doc.data())) {
+      throw new NotFoundError('Account', accountId);
+    }
+    return { id: doc.id, ...doc.data() } as Account;
+  }
+
+  async getBrief(accountId: string): Promise<AccountBrief | null> {
+    const doc = await this.db.collection('account_briefs').doc(accountId).get();
+    return doc.exists ? ({ id: doc.id, ...doc.data() } as AccountBrief) : null;
+  }
+
+  /**
+   * Roll the account's opportunities, contacts, products, activities and blockers up into a new brief
+   */
+  async generateBrief(account: Account, trigger: BriefTrigger, generatedBy: string): Promise<AccountBrief> {
+    return this.writeBrief(account, await this.getRecords(account.id), trigger, generatedBy);
+  }
+
+  /**
+   * Nightly path: only regenerate when the account or one of its records changed since the last brief.
+   * Returns null when the brief was still current or there is nothing to brief on.
+   */
+  async refreshBrief(account: Account): Promise<AccountBrief | null> {
+    const records = await this.getRecords(account.id);
+    if (records.opportunities.length === 0 && records.contacts.length === 0) {
+      return null;
+    }
+
+    const existing = await this.getBrief(account.id);
+    if (existing) {
+      const briefTime = existing.generatedAt.toMillis();
+      const changed = [account, ...records.opportunities, ...records.contacts, ...records.products]
+        .some(record => (record.updatedAt?.toMillis() || 0) > briefTime);
+      if (!changed && existing.promptVersion === BRIEF_PROMPT_VERSION) {
+        return null;
+      }
+    }
+
+    return this.writeBrief(account, records, 'nightly', 'system');
+  }
+
+  private async writeBrief(account: Account, records: AccountRecords, trigger: BriefTrigger, generatedBy: string): Promise<AccountBrief> {
+    const now = new Date();
+    const recentActivities = this.getRecentActivities(records.opportunities, now);
+    const metrics = this.computeMetrics(records, recentActivities, now);
+    const prompt = this.buildPrompt(account, records, recentActivities, metrics);
+
+    const { text, provider, model, usage } = await AIService.generate({
+      task: 'account-brief',
+      prompt,
+      context: { trigger, userId: generatedBy }
+    });
+
+    if (!text || text.trim().length < 20) {
+      throw new Error(`${provider} generated an empty or invalid account brief`);
+    }
+
+    const brief: Omit<AccountBrief, 'id'> = {
+      accountId: account.id,
+      text: text.trim(),
+      metrics,
+      provider,
+      model,
+      promptVersion: BRIEF_PROMPT_VERSION,
+      inputHash: createHash('sha256').update(prompt).digest('hex'),
+      ...(usage && { usage }),
+      trigger,
+      generatedBy,
+      generatedAt: Timestamp.now()
+    };
+
+    await this.db.collection('account_briefs').doc(account.id).set(brief);
+
+    return { id: account.id, ...brief };
+  }
+
+  private async getRecords(accountId: string): Promise<AccountRecords> {
+    const [opportunities, contacts, products] = await Promise.all(
+      ['opportunities', 'contacts', 'products'].map(async collection => {
+        const snapshot = await this.db.collection(collection).where('accountId', '==', accountId).get();
+        return snapshot.docs
+          .filter(doc => !isDeleted(doc.data()))
+          .map(doc => ({ id: doc.id, ...doc.data() }));
+      })
+    );
+
+    return {
+      opportunities: opportunities as Opportunity[],
+      contacts: contacts as Contact[],
+      products: products as Product[]
+    };
+  }
+
+  private getRecentActivities(opportunities: Opportunity[], now: Date): RecentActivity[] {
+    const since = now.getTime() - ACTIVITY_WINDOW_DAYS * DAY_MS;
+
+    return opportunities
+      .flatMap(opportunity => ((opportunity.activities || []) as StoredActivity[]).map(activity => ({
+        date: readDate(activity.dateTime),
+        opportunityTitle: opportunity.title,
+        activity
+      })))
+      .filter((item): item is RecentActivity => !!item.date && item.date.getTime() >= since && item.date <= now)
+      .sort((a, b) => b.date.getTime() - a.date.getTime());
+  }
+
+  private computeMetrics(records: AccountRecords, recentActivities: RecentActivity[], now: Date): AccountBriefMetrics {
+    const open = records.opportunities.filter(opportunity => !CLOSED_STAGES.includes(opportunity.stage));
+    const sumValue = (opportunities: Opportunity[]) =>
+      opportunities.reduce((sum, opportunity) => sum + (opportunity.estimatedDealValue || 0), 0);
+
+    // Looks at every activity, not only the recent window, so a long silence still shows
+    const lastCompleted = records.opportunities
+      .flatMap(opportunity => (opportunity.activities || []) as StoredActivity[])
+      .filter(activity => activity.status === 'Completed')
+      .map(activity => readDate(activity.dateTime))
+      .filter((date): date is Date => !!date && date <= now)
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+
+    return {
+      openOpportunities: open.length,
+      openPipelineValue: sumValue(open),
+      wonValue: sumValue(records.opportunities.filter(opportunity => opportunity.stage === 'Closed-Won')),
+      lostOpportunities: records.opportunities.filter(opportunity => opportunity.stage === 'Closed-Lost').length,
+      contacts: records.contacts.length,
+      decisionMakers: records.contacts.filter(contact => contact.isDecisionMaker).length,
+      products: records.products.length,
+      openBlockers: open.reduce((sum, opportunity) =>
+        sum + (opportunity.blockers || []).filter(blocker => !blocker.completed).length, 0),
+      recentActivities: recentActivities.length,
+      daysSinceLastActivity: lastCompleted ? Math.floor((now.getTime() - lastCompleted.getTime()) / DAY_MS) : null
+    };
+  }
+
+  private buildPrompt(account: Account, records: AccountRecords, recentActivities: RecentActivity[], metrics: AccountBriefMetrics): string {
+    const section = (title: string, lines: string[]) => `${title}:\n${lines.length > 0 ? lines.join('\n') : '- none'}`;
+
+    const opportunityLines = records.opportunities.map(opportunity => {
+      const closeDate = readDate(opportunity.expectedCloseDate);
+      return [
+        `- ${opportunity.title} | ${opportunity.stage}`,
+        opportunity.priority ? `${opportunity.priority} priority` : null,
+        opportunity.estimatedDealValue ? formatValue(opportunity.estimatedDealValue) : 'no value',
+        closeDate ? `expected close ${isoDay(closeDate)}` : null,
+        opportunity.aiSummary ? `status: ${opportunity.aiSummary}` : null
+      ].filter(Boolean).join(' | ');
+    });
+
+    const contactLines = records.contacts.map(contact => [
+      `- ${contact.name}`,
+      contact.position || null,
+      contact.isDecisionMaker ? 'decision maker' : null
+    ].filter(Boolean).join(' | '));
+
+    const productLines = records.products.map(product =>
+      `- ${product.name} | ${product.category}${product.status ? ` | ${product.status}` : ''}`
+    );
+
+    const activityLines = recentActivities.slice(0, MAX_PROMPT_ACTIVITIES).map(({ date, opportunityTitle, activity }) => {
+      const type = activity.activityType || activity.type || 'Activity';
+      const subject = activity.subject || activity.description || 'No subject';
+      const notes = activity.notes?.trim() ? ` - ${activity.notes.trim().slice(0, 300)}` : '';
+      return `- ${isoDay(date)} | ${opportunityTitle} | ${type}: ${subject}${notes} (${activity.status || 'Unknown'})`;
+    });
+
+    const blockerLines = records.opportunities
+      .filter(opportunity => !CLOSED_STAGES.includes(opportunity.stage))
+      .flatMap(opportunity => (opportunity.blockers || [])
+        .filter(blocker => !blocker.completed)
+        .map(blocker => `- ${opportunity.title} | ${blocker.text}`));
+
+    return `Write a relationship brief on this account for an iOL quarterly business review. Use a clear, factual tone with no sales language and do not explain iOL's business. Only state what the data shows; call agreements discussions unless an opportunity is Closed-Won.
+
+Use plain text with exactly these three headings, each on its own line followed by short "- " bullets: ${BRIEF_SECTIONS.join(', ')}. Under "Relationship health" judge engagement from recent activity, decision-maker coverage and blockers. Under "Commercial exposure" use the figures given; do not recalculate them. Keep it under 300 words.
+
+Account: ${account.name}
+Region: ${account.region}${account.headquarters ? `\nHeadquarters: ${account.headquarters}` : ''}${account.description ? `\nDescription: ${account.description}` : ''}
+
+${section('EXPOSURE', [
+    `- Open opportunities: ${metrics.openOpportunities}`,
+    `- Open pipeline value: ${formatValue(metrics.openPipelineValue)}`,
+    `- Closed won value: ${formatValue(metrics.wonValue)}`,
+    `- Closed lost opportunities: ${metrics.lostOpportunities}`,
+    `- Unresolved blockers: ${metrics.openBlockers}`,
+    `- Activities in the last ${ACTIVITY_WINDOW_DAYS} days: ${metrics.recentActivities}`,
+    `- Days since last completed activity: ${metrics.daysSinceLastActivity ?? 'never'}`,
+    `- Decision makers on record: ${metrics.decisionMakers} of ${metrics.contacts} contacts`
+  ])}
+
+${section('OPPORTUNITIES', opportunityLines)}
+
+${section('CONTACTS', contactLines)}
+
+${section('PRODUCTS', productLines)}
+
+${section('RECENT ACTIVITIES', activityLines)}
+
+${section('OPEN BLOCKERS', blockerLines)}`;
+  }
+}
@@ -1,10 +1,12 @@
 import { onCall } from 'firebase-functions/v2/https';
 import { setGlobalOptions } from 'firebase-functions';
-import { authenticateUser } from '../../shared/auth.middleware';
+import { getFirestore } from 'firebase-admin/firestore';
+import { authenticateUser, requirePermission } from '../../shared/auth.middleware';
 import { validateData, accountSchemas, commonSchemas } from '../../shared/validation.middleware';
 import { withErrorHandling } from '../../shared/errors';
 import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
 import { AccountsService } from './accounts.service';
+import { TeamsService } from '../teams/teams.service';
 import { z } from 'zod';
 
 // Set global options for all functions
@@ -25,17 +27,20 @@ export const getAccounts = onCall(
   withErrorHandling(async (request) => {
     // Authenticate user
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'accounts:read');
     
     // Apply rate limiting
     await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getAccounts');
     
     // Validate query parameters
-    const queryParams = validateData(accountSchemas.query, request.data || {});
+    const { scope, ...queryParams } = validateData(accountSchemas.query, request.data || {});
+    const visibility = await new TeamsService(getFirestore()).resolveVisibility(user, scope);
     
     // Call service
     return await AccountsService.getAccounts({
       userId: user.uid,
-      ...queryParams
+      ...queryParams,
+      visibility
     });
   }, { functionName: 'getAccounts', action: 'ACCOUNT_LIST' })
 );
@@ -47,13 +52,17 @@ export const getAccount = onCall(
   { region: 'us-central1' },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'accounts:read');
     
     const { accountId } = validateData(
       z.object({ accountId: commonSchemas.id }),
       request.data
     );
     
-    return await AccountsService.getAccount(accountId, user.uid);
+    const account = await AccountsService.getAccount(accountId, user.uid);
+    await new TeamsService(getFirestore()).assertCanView(user, 'accounts', account);
+    
+    return account;
   }, { functionName: 'getAccount', action: 'ACCOUNT_VIEW' })
 );
 
@@ -64,6 +73,7 @@ export const createAccount = onCall(
   { region: 'us-central1' },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'accounts:create');
     
     // Validate account data
     const accountData = validateData(accountSchemas.create, request.data);
@@ -85,16 +95,19 @@ export const updateAccount = onCall(
   { region: 'us-central1' },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'accounts:update');
     
     // Validate update data
     const updateData = validateData(accountSchemas.update, request.data);
-    const { accountId, ...dataToUpdate } = updateData;
+    const { accountId, expectedRevision, ...dataToUpdate } = updateData;
+    await new TeamsService(getFirestore()).assertCanViewById(user, 'accounts', accountId);
     
     return await AccountsService.updateAccount(
       accountId, 
       dataToUpdate, 
       user.uid, 
-      user.email
+      user.email,
+      expectedRevision
     );
   }, { functionName: 'updateAccount', action: 'ACCOUNT_UPDATE' })
 );
@@ -106,12 +119,14 @@ export const deleteAccount = onCall(
   { region: 'us-central1' },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'accounts:delete');
     
     const { accountId } = validateData(
       z.object({ accountId: commonSchemas.id }),
       request.data
     );
     
+    await new TeamsService(getFirestore()).assertCanViewById(user, 'accounts', accountId);
     await AccountsService.deleteAccount(accountId, user.uid, user.email);
     
     return { success: true, message: 'Account deleted successfully' };
@@ -125,8 +140,10 @@ export const getAccountsStats = onCall(
   { region: 'us-central1' },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'accounts:read');
     
-    return await AccountsService.getAccountsStats(user.uid);
+    const visibility = await new TeamsService(getFirestore()).resolveVisibility(user);
+    return await AccountsService.getAccountsStats(user.uid, visibility);
   }, { functionName: 'getAccountsStats', action: 'ACCOUNT_STATS' })
 );
 
@@ -137,6 +154,7 @@ export const bulkUpdateAccounts = onCall(
   { region: 'us-central1' },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'accounts:bulkUpdate');
     
     const { accountIds, updateData } = validateData(
       z.object({
@@ -166,11 +184,74 @@ export const bulkUpdateAccounts = onCall(
       request.data
     );
     
+    // Accounts outside the caller's visibility are dropped
+    const visibleIds = await new TeamsService(getFirestore()).filterVisibleIds(user, 'accounts', accountIds);
+    
     return await AccountsService.bulkUpdateAccounts(
-      accountIds, 
+      visibleIds, 
       updateData, 
       user.uid, 
       user.email
     );
   }, { functionName: 'bulkUpdateAccounts', action: 'ACCOUNT_BULK_UPDATE' })
-); 
\ No newline at end of file
+);
+
+/**
+ * Preview everything that depends on an account before it is deleted
+ */
+export const getAccountDeleteImpact = onCall(
+  { region: 'us-central1' },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'accounts:read');
+    
+    const { accountId } = validateData(
+      z.object({ accountId: commonSchemas.id }),
+      request.data
+    );
+    
+    await new TeamsService(getFirestore()).assertCanViewById(user, 'accounts', accountId);
+    return await AccountsService.getDeleteImpact(accountId);
+  }, { functionName: 'getAccountDeleteImpact', action: 'ACCOUNT_DELETE_IMPACT' })
+);
+
+/**
+ * Reassign or cascade-delete an account's dependents, then delete the account
+ */
+export const resolveAccountDependents = onCall(
+  { region: 'us-central1' },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.heavy.maxRequests, RateLimitPresets.heavy.windowMs, 'resolveAccountDependents');
+    
+    const { accountId, ...params } = validateData(
+      z.object({
+        accountId: commonSchemas.id,
+        mode: z.enum(['reassign', 'cascade']),
+        targetAccountId: commonSchemas.id.optional()
+      }).refine(data => data.mode !== 'reassign' || !!data.targetAccountId, {
+        message: 'targetAccountId is required when reassigning dependents',
+        path: ['targetAccountId']
+      }),
+      request.data
+    );
+    
+    // Dependents are either moved to another account or deleted along with it
+    requirePermission(
+      user,
+      'accounts:delete',
+      ...(params.mode === 'reassign'
+        ? ['contacts:update', 'products:update', 'opportunities:update'] as const
+        : ['contacts:delete', 'products:delete', 'opportunities:delete', 'tasks:delete'] as const)
+    );
+    
+    const teamsService = new TeamsService(getFirestore());
+    await teamsService.assertCanViewById(user, 'accounts', accountId);
+    if (params.targetAccountId) {
+      await teamsService.assertCanViewById(user, 'accounts', params.targetAccountId);
+    }
+    
+    return await AccountsService.resolveDependentsAndDelete(accountId, params, user.uid, user.email);
+  }, { functionName: 'resolveAccountDependents', action: 'ACCOUNT_RESOLVE_DEPENDENTS' })
+);
@@ -1,6 +1,12 @@
 import { getFirestore, Timestamp } from 'firebase-admin/firestore';
 import { AuditService } from '../../shared/audit.service';
-import { ConflictError, validateResourceExists, retryOperation } from '../../shared/errors';
+import { ConflictError, BusinessLogicError, NotFoundError, validateResourceExists, retryOperation } from '../../shared/errors';
+import { isDeleted, excludeDeleted, softDeleteFields } from '../../shared/soft-delete';
+import { updateWithRevision, bumpRevision, getRevision } from '../../shared/concurrency';
+import { recordHistory } from '../../shared/record-history';
+import { getFilteredPage } from '../../shared/queries';
+import { WorkflowEngineService } from '../workflows/workflow-engine.service';
+import type { RecordVisibility } from '../teams/teams.service';
 
 const db = getFirestore();
 
@@ -21,6 +27,11 @@ export interface Account {
   updatedBy: string;
   createdAt: Timestamp;
   updatedAt: Timestamp;
+  revision?: number; // Incremented on every write, used to reject stale updates
+  // Soft delete fields - set when the account is moved to the trash
+  deletedAt?: Timestamp;
+  deletedBy?: string;
+  mergedInto?: string; // Set when merged away into another account
 }
 
 export interface AccountQueryParams {
@@ -31,6 +42,7 @@ export interface AccountQueryParams {
   region?: string;
   status?: 'Active' | 'Inactive' | 'Prospect';
   industry?: string;
+  visibility?: RecordVisibility; // Applied while the page is fetched, so pages stay full
 }
 
 export interface AccountsResponse {
@@ -40,6 +52,32 @@ export interface AccountsResponse {
   total?: number;
 }
 
+export interface AccountDeleteImpact {
+  account: { id: string; name: string };
+  contacts: Array<{ id: string; name: string; email?: string }>;
+  products: Array<{ id: string; name: string }>;
+  opportunities: Array<{ id: string; title: string; stage: string; estimatedDealValue?: number }>;
+  tasks: Array<{ id: string; title: string; opportunityId: string; status: string }>;
+  totalDependents: number;
+}
+
+export interface ResolveDependentsParams {
+  mode: 'reassign' | 'cascade';
+  targetAccountId?: string; // required when mode is 'reassign'
+}
+
+export interface ResolveDependentsResult {
+  mode: 'reassign' | 'cascade';
+  targetAccountId?: string;
+  contacts: number;
+  products: number;
+  opportunities: number;
+  tasks: number;
+}
+
+// Firestore batches are atomic up to 500 writes
+const MAX_BATCH_WRITES = 500;
+
 export class AccountsService {
   /**
    * Get accounts with filtering, pagination, and search
@@ -63,30 +101,26 @@ export class AccountsService {
         query = query.where('industry', '==', params.industry);
       }
 
-      // Set limit
       const limit = params.limit || 50;
-      query = query.limit(limit + 1); // Fetch one extra to check if there are more
 
       // Handle pagination
-      if (params.lastDoc) {
-        const lastDocSnap = await db.collection('accounts').doc(params.lastDoc).get();
-        if (lastDocSnap.exists) {
-          query = query.startAfter(lastDocSnap);
-        }
-      }
-
-      const snapshot = await query.get();
-      let accounts = snapshot.docs.map(doc => ({
+      const lastDocSnap = params.lastDoc ? await db.collection('accounts').doc(params.lastDoc).get() : undefined;
+
+      // Trashed accounts and accounts outside the requested scope and the caller's visibility
+      // don't count towards the page
+      const { visibility } = params;
+      const page = await getFilteredPage(
+        query,
+        doc => !isDeleted(doc.data()) && (!visibility || visibility.canView('accounts', { id: doc.id, ...doc.data() })),
+        { limit, startAfter: lastDocSnap?.exists ? lastDocSnap : undefined }
+      );
+      const hasMore = page.hasMore;
+      const pageLastDoc = page.docs.length > 0 ? page.docs[page.docs.length - 1].id : undefined;
+      let accounts = page.docs.map(doc => ({
         id: doc.id,
         ...doc.data()
       } as Account));
 
-      // Check if there are more results
-      const hasMore = accounts.length > limit;
-      if (hasMore) {
-        accounts = accounts.slice(0, limit); // Remove the extra document
-      }
-
       // Apply client-side search filtering if provided
       // Note: In production, consider using full-text search solutions like Algolia
       if (params.searchTerm) {
@@ -112,7 +146,7 @@ export class AccountsService {
       return {
         accounts,
         hasMore,
-        lastDoc: accounts.length > 0 ? accounts[accounts.length - 1].id : undefined
+        lastDoc: pageLastDoc
       };
     } catch (error) {
       throw error;
@@ -128,8 +162,6 @@ export class AccountsService {
     const doc = await db.collection('accounts').doc(accountId).get();
     const account = { id: doc.id, ...doc.data() } as Account;
 
-    // Removed ownership check - allow access to all accounts
-
     // Log the view action
     await AuditService.logAccountAction('VIEW', userId, accountId, { name: account.name });
 
@@ -150,7 +182,7 @@ export class AccountsService {
         .where('name', '==', data.name)
         .get();
 
-      if (!existingQuery.empty) {
+      if (existingQuery.docs.some(doc => !isDeleted(doc.data()))) {
         throw new ConflictError(`Account with name "${data.name}" already exists`);
       }
 
@@ -177,6 +209,8 @@ export class AccountsService {
         userEmail
       );
 
+      await new WorkflowEngineService(db).onRecordWritten('account', docRef.id, null, accountData, data.createdBy);
+
       return newAccount;
     } catch (error) {
       throw error;
@@ -190,7 +224,8 @@ export class AccountsService {
     accountId: string, 
     data: Partial<Account>, 
     userId: string, 
-    userEmail?: string
+    userEmail?: string,
+    expectedRevision?: number
   ): Promise<Account> {
     try {
       await validateResourceExists('accounts', accountId, 'Account');
@@ -199,8 +234,6 @@ export class AccountsService {
       const currentDoc = await db.collection('accounts').doc(accountId).get();
       const currentAccount = currentDoc.data() as Account;
 
-      // Removed ownership check - allow updates to all accounts
-
       // Check for name conflicts if name is being updated
       if (data.name && data.name !== currentAccount.name) {
         const existingQuery = await db.collection('accounts')
@@ -208,7 +241,7 @@ export class AccountsService {
           .get();
         // Removed ownerId filter from conflict check - check all accounts
 
-        const conflictingDocs = existingQuery.docs.filter(doc => doc.id !== accountId);
+        const conflictingDocs = existingQuery.docs.filter(doc => doc.id !== accountId && !isDeleted(doc.data()));
         if (conflictingDocs.length > 0) {
           throw new ConflictError(`Account with name "${data.name}" already exists`);
         }
@@ -226,11 +259,13 @@ export class AccountsService {
       delete (updateData as any).createdBy;
       delete (updateData as any).ownerId;
 
-      await retryOperation(async () => {
-        await db.collection('accounts').doc(accountId).update(updateData);
-      });
+      // Not retried: a retry after a committed write would be rejected as stale
+      const { revision } = await updateWithRevision(db, db.collection('accounts').doc(accountId), 'Account', expectedRevision, userId, () => ({
+        updates: updateData,
+        result: null
+      }));
 
-      const updatedAccount = { ...currentAccount, ...updateData, id: accountId };
+      const updatedAccount = { ...currentAccount, ...updateData, id: accountId, revision };
 
       // Log the update
       await AuditService.logAccountAction(
@@ -241,6 +276,8 @@ export class AccountsService {
         userEmail
       );
 
+      await new WorkflowEngineService(db).onRecordWritten('account', accountId, currentAccount, updatedAccount, userId);
+
       return updatedAccount;
     } catch (error) {
       throw error;
@@ -248,7 +285,7 @@ export class AccountsService {
   }
 
   /**
-   * Delete an account and handle related data cleanup
+   * Move an account to the trash - it can be restored or purged from the Trash page
    */
   static async deleteAccount(accountId: string, userId: string, userEmail?: string): Promise<void> {
     try {
@@ -258,26 +295,26 @@ export class AccountsService {
       const currentDoc = await db.collection('accounts').doc(accountId).get();
       const currentAccount = currentDoc.data() as Account;
 
-      // Removed ownership check - allow deletion of all accounts
-
-      // Check for related data that would prevent deletion
+      // Check for related data that would prevent deletion - trashed records don't count
       const [contactsSnap, opportunitiesSnap] = await Promise.all([
-        db.collection('contacts').where('accountId', '==', accountId).limit(1).get(),
-        db.collection('opportunities').where('accountId', '==', accountId).limit(1).get()
+        db.collection('contacts').where('accountId', '==', accountId).get(),
+        db.collection('opportunities').where('accountId', '==', accountId).get()
       ]);
+      const hasContacts = contactsSnap.docs.some(doc => !isDeleted(doc.data()));
+      const hasOpportunities = opportunitiesSnap.docs.some(doc => !isDeleted(doc.data()));
 
-      if (!contactsSnap.empty || !opportunitiesSnap.empty) {
+      if (hasContacts || hasOpportunities) {
         throw new ConflictError(
           'Cannot delete account with associated contacts or opportunities', 
           { 
-            hasContacts: !contactsSnap.empty, 
-            hasOpportunities: !opportunitiesSnap.empty 
+            hasContacts, 
+            hasOpportunities 
           }
         );
       }
 
       await retryOperation(async () => {
-        await db.collection('accounts').doc(accountId).delete();
+        await db.collection('accounts').doc(accountId).update(softDeleteFields(userId));
       });
 
       // Log the deletion
@@ -293,10 +330,180 @@ export class AccountsService {
     }
   }
 
+  /**
+   * List everything that references an account so the user can decide what to do before deleting it.
+   * Tasks are linked through the account's opportunities.
+   */
+  static async getDeleteImpact(accountId: string): Promise<AccountDeleteImpact> {
+    const { impact } = await this.loadDeleteImpact(accountId);
+    return impact;
+  }
+
+  /**
+   * Read the account and its live dependents, through the transaction when one is given
+   * so a delete writes exactly the dependents it read
+   */
+  private static async loadDeleteImpact(
+    accountId: string,
+    transaction?: FirebaseFirestore.Transaction
+  ): Promise<{ impact: AccountDeleteImpact; docs: Record<'contacts' | 'products' | 'opportunities' | 'tasks', FirebaseFirestore.QueryDocumentSnapshot[]> }> {
+    const read = (query: FirebaseFirestore.Query) => transaction ? transaction.get(query) : query.get();
+
+    const accountRef = db.collection('accounts').doc(accountId);
+    const accountDoc = transaction ? await transaction.get(accountRef) : await accountRef.get();
+    if (!accountDoc.exists || isDeleted(accountDoc.data())) {
+      throw new NotFoundError('Account', accountId);
+    }
+    const account = accountDoc.data() as Account;
+
+    const [contactsSnap, productsSnap, opportunitiesSnap] = await Promise.all([
+      read(db.collection('contacts').where('accountId', '==', accountId)),
+      read(db.collection('products').where('accountId', '==', accountId)),
+      read(db.collection('opportunities').where('accountId', '==', accountId))
+    ]);
+
+    const liveDocs = (snapshot: FirebaseFirestore.QuerySnapshot) =>
+      snapshot.docs.filter(doc => !isDeleted(doc.data()));
+
+    const contactDocs = liveDocs(contactsSnap);
+    const productDocs = liveDocs(productsSnap);
+    const opportunityDocs = liveDocs(opportunitiesSnap);
+
+    // 'in' queries accept at most 30 values
+    const taskDocs: FirebaseFirestore.QueryDocumentSnapshot[] = [];
+    const opportunityIds = opportunityDocs.map(doc => doc.id);
+    for (let i = 0; i < opportunityIds.length; i += 30) {
+      const tasksSnap = await read(db.collection('tasks').where('opportunityId', 'in', opportunityIds.slice(i, i + 30)));
+      taskDocs.push(...liveDocs(tasksSnap));
+    }
+
+    const contacts = contactDocs.map(doc => ({
+      id: doc.id,
+      name: doc.data().name,
+      email: doc.data().email
+    }));
+
+    const products = productDocs.map(doc => ({
+      id: doc.id,
+      name: doc.data().name
+    }));
+
+    const opportunities = opportunityDocs.map(doc => ({
+      id: doc.id,
+      title: doc.data().title,
+      stage: doc.data().stage,
+      estimatedDealValue: doc.data().estimatedDealValue
+    }));
+
+    const tasks = taskDocs.map(doc => ({
+      id: doc.id,
+      title: doc.data().title,
+      opportunityId: doc.data().opportunityId,
+      status: doc.data().status
+    }));
+
+    return {
+      impact: {
+        account: { id: accountId, name: account.name },
+        contacts,
+        products,
+        opportunities,
+        tasks,
+        totalDependents: contacts.length + products.length + opportunities.length + tasks.length
+      },
+      docs: { contacts: contactDocs, products: productDocs, opportunities: opportunityDocs, tasks: taskDocs }
+    };
+  }
+
+  /**
+   * Move an account's dependents to another account, or move them to the trash along with it,
+   * then trash the account. Everything is read and written in one transaction so nothing is
+   * left half-done and no dependent added meanwhile is missed.
+   */
+  static async resolveDependentsAndDelete(
+    accountId: string,
+    params: ResolveDependentsParams,
+    userId: string,
+    userEmail?: string
+  ): Promise<ResolveDependentsResult> {
+    if (params.mode === 'reassign') {
+      if (!params.targetAccountId) {
+        throw new BusinessLogicError('A target account is required to reassign dependents');
+      }
+      if (params.targetAccountId === accountId) {
+        throw new BusinessLogicError('Dependents cannot be reassigned to the account being deleted');
+      }
+    }
+
+    const impact = await db.runTransaction(async (transaction) => {
+      if (params.mode === 'reassign') {
+        const targetDoc = await transaction.get(db.collection('accounts').doc(params.targetAccountId!));
+        if (!targetDoc.exists || isDeleted(targetDoc.data())) {
+          throw new NotFoundError('Target account', params.targetAccountId);
+        }
+      }
+
+      const { impact: current, docs } = await this.loadDeleteImpact(accountId, transaction);
+      const reassigned = [...docs.contacts, ...docs.products, ...docs.opportunities];
+
+      // Reassigned records also get a history entry; tasks follow their opportunity, so they only need a write when cascading
+      const writeCount = 1 + (params.mode === 'reassign' ? reassigned.length * 2 : reassigned.length + docs.tasks.length);
+
+      if (writeCount > MAX_BATCH_WRITES) {
+        throw new BusinessLogicError(
+          `Account has too many dependents to process in one operation (${writeCount} writes, max ${MAX_BATCH_WRITES})`,
+          { writeCount }
+        );
+      }
+
+      if (params.mode === 'reassign') {
+        const now = Timestamp.now();
+        reassigned.forEach(doc => {
+          const dependentUpdate = { accountId: params.targetAccountId, updatedBy: userId, updatedAt: now };
+          const revision = getRevision(doc.data()) + 1;
+          transaction.update(doc.ref, { ...dependentUpdate, revision });
+          recordHistory(transaction, doc.ref, doc.data(), dependentUpdate, revision, userId);
+        });
+      } else {
+        [...reassigned, ...docs.tasks].forEach(doc => transaction.update(doc.ref, softDeleteFields(userId)));
+      }
+
+      transaction.update(db.collection('accounts').doc(accountId), softDeleteFields(userId));
+
+      return current;
+    });
+
+    const result: ResolveDependentsResult = {
+      mode: params.mode,
+      targetAccountId: params.targetAccountId,
+      contacts: impact.contacts.length,
+      products: impact.products.length,
+      opportunities: impact.opportunities.length,
+      tasks: impact.tasks.length
+    };
+
+    await AuditService.logAccountAction(
+      'DELETE',
+      userId,
+      accountId,
+      {
+        name: impact.account.name,
+        ...result,
+        contactIds: impact.contacts.map(contact => contact.id),
+        productIds: impact.products.map(product => product.id),
+        opportunityIds: impact.opportunities.map(opp => opp.id),
+        taskIds: impact.tasks.map(task => task.id)
+      },
+      userEmail
+    );
+
+    return result;
+  }
+
   /**
    * Get accounts summary/statistics for dashboard
    */
-  static async getAccountsStats(userId: string): Promise<{
+  static async getAccountsStats(userId: string, visibility?: RecordVisibility): Promise<{
     total: number;
     byStatus: Record<string, number>;
     byRegion: Record<string, number>;
@@ -307,10 +514,11 @@ export class AccountsService {
       // Removed ownerId filter - calculate stats for all accounts
 
       const snapshot = await accountsQuery.get();
-      const accounts = snapshot.docs.map(doc => ({ 
+      const live = excludeDeleted(snapshot.docs.map(doc => ({ 
         id: doc.id, 
         ...doc.data() 
-      } as Account));
+      } as Account)));
+      const accounts = visibility ? visibility.filter('accounts', live) : live;
 
       // Calculate statistics
       const byStatus = accounts.reduce((acc, account) => {
@@ -350,6 +558,7 @@ export class AccountsService {
   ): Promise<{ updated: number; errors: string[] }> {
     const batch = db.batch();
     const errors: string[] = [];
+    const written: Array<{ id: string; before: Account; after: Account }> = [];
     let updated = 0;
 
     try {
@@ -364,18 +573,19 @@ export class AccountsService {
         const doc = accountDocs[i];
         const accountId = accountIds[i];
 
-        if (!doc.exists) {
+        if (!doc.exists || isDeleted(doc.data())) {
           errors.push(`Account ${accountId} not found`);
           continue;
         }
 
-        // Removed ownership check - allow bulk updates to all accounts
-
-        batch.update(doc.ref, {
+        const accountUpdate = {
           ...updateData,
           updatedBy: userId,
           updatedAt: Timestamp.now()
-        });
+        };
+        batch.update(doc.ref, { ...accountUpdate, ...bumpRevision() });
+        recordHistory(batch, doc.ref, doc.data()!, accountUpdate, getRevision(doc.data()) + 1, userId, { action: 'bulk_update' });
+        written.push({ id: accountId, before: doc.data() as Account, after: { ...doc.data(), ...accountUpdate } as Account });
         updated++;
       }
 
@@ -390,6 +600,11 @@ export class AccountsService {
           { accountIds, updateData, updated, errors },
           userEmail
         );
+
+        const workflows = new WorkflowEngineService(db);
+        for (const { id, before, after } of written) {
+          await workflows.onRecordWritten('account', id, before, after, userId);
+        }
       }
 
       return { updated, errors };
@@ -0,0 +1,67 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { authenticateUser, requirePermission } from '../../shared/auth.middleware';
+import { validateData } from '../../shared/validation.middleware';
+import { withErrorHandling } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { AIUsageService } from '../../shared/ai/usage.service';
+import { z } from 'zod';
+
+const getUsageSchema = z.object({
+  days: z.number().int().min(1).max(90).default(30),
+  months: z.number().int().min(1).max(24).default(12),
+  recentLimit: z.number().int().min(1).max(200).default(50)
+});
+
+// null removes a limit
+const budgetLimitSchema = z.number().min(0).max(1_000_000).nullable();
+
+const saveBudgetSchema = z.object({
+  dailyLimitUsd: budgetLimitSchema,
+  monthlyLimitUsd: budgetLimitSchema
+});
+
+const getUsageService = () => new AIUsageService(getFirestore());
+
+/**
+ * Daily and monthly AI spend, budget status and the latest calls. Admins only.
+ */
+export const getAIUsage = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'aiUsage:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getAIUsage');
+
+    const { days, months, recentLimit } = validateData(getUsageSchema, request.data || {});
+
+    return await getUsageService().getUsageReport(days, months, recentLimit);
+  }, { functionName: 'getAIUsage', action: 'AI_USAGE_GET' })
+);
+
+/**
+ * Set the daily and monthly AI spend limits. Once one is reached manual generation is
+ * refused and the nightly jobs skip low-priority work.
+ */
+export const saveAIBudget = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'aiUsage:manageBudgets');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'saveAIBudget');
+
+    const budget = validateData(saveBudgetSchema, request.data);
+
+    return await getUsageService().saveBudget(budget, user.uid, user.email);
+  }, { functionName: 'saveAIBudget', action: 'AI_BUDGET_SAVE' })
+);
@@ -0,0 +1,168 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { authenticateUser, requirePermission } from '../../shared/auth.middleware';
+import { validateData, commonSchemas } from '../../shared/validation.middleware';
+import { withErrorHandling } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { ApprovalsService } from './approvals.service';
+import { TeamsService } from '../teams/teams.service';
+import { z } from 'zod';
+
+const stageSchema = z.enum(['Lead', 'Qualified', 'Proposal', 'Negotiation', 'Closed-Won', 'Closed-Lost']);
+
+const savePolicySchema = z.object({
+  id: commonSchemas.id.optional(),
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  stages: z.array(stageSchema).min(1),
+  minDealValue: z.number().min(0).nullable().default(null),
+  commercialModelKeywords: z.array(z.string().trim().min(1).max(100)).max(20).default([]),
+  enabled: z.boolean().default(true)
+});
+
+const getRequestsSchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected', 'applied']).optional(),
+  limit: z.number().int().min(1).max(200).default(50)
+});
+
+const decideSchema = z.object({
+  requestId: commonSchemas.id,
+  decision: z.enum(['approved', 'rejected']),
+  comment: z.string().trim().max(1000).optional()
+}).refine(data => data.decision === 'approved' || !!data.comment, {
+  message: 'A comment is required when rejecting',
+  path: ['comment']
+});
+
+const getService = () => new ApprovalsService(getFirestore());
+
+/**
+ * List approval policies
+ */
+export const getApprovalPolicies = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'approvals:manage');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getApprovalPolicies');
+
+    return { policies: await getService().getPolicies() };
+  }, { functionName: 'getApprovalPolicies', action: 'APPROVAL_POLICIES_LIST' })
+);
+
+/**
+ * Create a policy, or replace it when an id is given
+ */
+export const saveApprovalPolicy = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'approvals:manage');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'saveApprovalPolicy');
+
+    const { id, ...data } = validateData(savePolicySchema, request.data);
+
+    return await getService().savePolicy(id, data, user.uid, user.email);
+  }, { functionName: 'saveApprovalPolicy', action: 'APPROVAL_POLICY_SAVE' })
+);
+
+export const deleteApprovalPolicy = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'approvals:manage');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'deleteApprovalPolicy');
+
+    const { id } = validateData(z.object({ id: commonSchemas.id }), request.data);
+
+    await getService().deletePolicy(id, user.uid, user.email);
+
+    return { success: true, message: 'Approval policy deleted successfully' };
+  }, { functionName: 'deleteApprovalPolicy', action: 'APPROVAL_POLICY_DELETE' })
+);
+
+/**
+ * Approval queue, newest first; pending requests unless another status is asked for
+ */
+export const getApprovalRequests = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'approvals:decide');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getApprovalRequests');
+
+    const { status, limit } = validateData(getRequestsSchema, request.data || {});
+
+    const visibility = await new TeamsService(getFirestore()).resolveVisibility(user);
+
+    return { requests: await getService().getRequests(status, limit, visibility) };
+  }, { functionName: 'getApprovalRequests', action: 'APPROVAL_REQUESTS_LIST' })
+);
+
+/**
+ * Approval history of one opportunity, newest first
+ */
+export const getOpportunityApprovals = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getOpportunityApprovals');
+
+    const { opportunityId } = validateData(z.object({ opportunityId: commonSchemas.id }), request.data);
+
+    await new TeamsService(getFirestore()).assertCanViewById(user, 'opportunities', opportunityId);
+
+    return { requests: await getService().getOpportunityRequests(opportunityId) };
+  }, { functionName: 'getOpportunityApprovals', action: 'OPPORTUNITY_APPROVALS_LIST' })
+);
+
+/**
+ * Approve or reject a pending request; rejections need a comment
+ */
+export const decideApproval = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'approvals:decide');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'decideApproval');
+
+    const { requestId, decision, comment } = validateData(decideSchema, request.data);
+
+    // Approvers only decide on deals within their visibility
+    const approval = await getService().getRequest(requestId);
+    await new TeamsService(getFirestore()).assertCanViewById(user, 'opportunities', approval.opportunityId);
+
+    return await getService().decide(requestId, decision, comment, user.uid, user.email);
+  }, { functionName: 'decideApproval', action: 'APPROVAL_DECIDE' })
+);
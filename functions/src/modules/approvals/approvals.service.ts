@@ -0,0 +1,402 @@
+import { Firestore, Query, Timestamp } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { Opportunity, OpportunityStage } from '../../types';
+import { AuditService } from '../../shared/audit.service';
+import { ApprovalRequiredError, BusinessLogicError, NotFoundError } from '../../shared/errors';
+import { NotificationsService } from '../notifications/notifications.service';
+import type { RecordVisibility } from '../teams/teams.service';
+import { getFilteredPage } from '../../shared/queries';
+
+/**
+ * Stage changes matching an enabled policy need a manager's approval before they go through
+ */
+export interface ApprovalPolicy {
+  id: string;
+  name: string;
+  description?: string;
+  stages: OpportunityStage[]; // Target stages the policy guards
+  minDealValue: number | null; // Deals worth at least this much need approval
+  commercialModelKeywords: string[]; // Commercial models containing any of these need approval, case-insensitive
+  enabled: boolean;
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedBy: string;
+  updatedAt: Timestamp;
+}
+
+export type ApprovalPolicyInput = Pick<ApprovalPolicy, 'name' | 'description' | 'stages' | 'minDealValue' | 'commercialModelKeywords' | 'enabled'>;
+
+// applied: the approved stage change has been made
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'applied';
+
+export interface ApprovalRequest {
+  id: string;
+  opportunityId: string;
+  opportunityTitle: string;
+  accountId: string;
+  ownerId: string;
+  fromStage: OpportunityStage;
+  toStage: OpportunityStage;
+  // The deal as it was when approval was requested; an approval doesn't cover a bigger deal or another model
+  dealValue: number | null;
+  commercialModel: string;
+  policyIds: string[];
+  reasons: string[];
+  status: ApprovalStatus;
+  requestedBy: string;
+  requestedAt: Timestamp;
+  decidedBy?: string;
+  decidedAt?: Timestamp;
+  comment?: string;
+  appliedAt?: Timestamp;
+}
+
+export type TransitionCheck =
+  | { status: 'not_required' }
+  | { status: 'approved'; requestId: string }
+  | { status: 'pending'; request: ApprovalRequest };
+
+const normalizeModel = (model: string | undefined) => (model || '').trim().toLowerCase();
+
+/**
+ * Why the policies require approval for moving this opportunity to toStage; empty when none apply
+ */
+export const matchPolicies = (
+  policies: ApprovalPolicy[],
+  opportunity: Pick<Opportunity, 'estimatedDealValue' | 'commercialModel'>,
+  toStage: OpportunityStage
+): { policy: ApprovalPolicy; reason: string }[] => {
+  const model = normalizeModel(opportunity.commercialModel);
+  const value = opportunity.estimatedDealValue;
+
+  return policies.flatMap(policy => {
+    if (!policy.enabled || !policy.stages.includes(toStage)) {
+      return [];
+    }
+
+    const keywords = policy.commercialModelKeywords.map(keyword => keyword.trim().toLowerCase()).filter(Boolean);
+    if (policy.minDealValue === null && keywords.length === 0) {
+      return [{ policy, reason: `${policy.name}: every move to ${toStage} needs approval` }];
+    }
+
+    const reasons: string[] = [];
+    if (policy.minDealValue !== null && typeof value === 'number' && value >= policy.minDealValue) {
+      reasons.push(`deal value ${value.toLocaleString('en-US')} is at least ${policy.minDealValue.toLocaleString('en-US')}`);
+    }
+    const keyword = keywords.find(candidate => model.includes(candidate));
+    if (keyword) {
+      reasons.push(`commercial model "${opportunity.commercialModel!.trim()}" matches "${keyword}"`);
+    }
+    return reasons.length > 0 ? [{ policy, reason: `${policy.name}: ${reasons.join(' and ')}` }] : [];
+  });
+};
+
+/**
+ * Why a new opportunity can't start in stage, or null when no policy guards it. Approval is
+ * given for moving an existing deal, so a guarded deal is created earlier in the pipeline.
+ */
+export const creationBlockedReason = (
+  policies: ApprovalPolicy[],
+  opportunity: Pick<Opportunity, 'estimatedDealValue' | 'commercialModel'>,
+  stage: OpportunityStage
+): string | null => {
+  const matches = matchPolicies(policies, opportunity, stage);
+  if (matches.length === 0) {
+    return null;
+  }
+  return `Starting at ${stage} needs approval (${matches.map(match => match.reason).join('; ')}). Create it at an earlier stage and move it once approved.`;
+};
+
+/**
+ * The error that holds back stage changes still waiting for approval
+ */
+export const approvalRequiredError = (requests: ApprovalRequest[]): ApprovalRequiredError => {
+  const message = requests.length === 1
+    ? `Moving "${requests[0].opportunityTitle}" to ${requests[0].toStage} needs approval (${requests[0].reasons.join('; ')}). A manager has been asked to approve it.`
+    : `${requests.length} opportunities need approval before their stage can change. Managers have been asked to approve them; nothing was updated.`;
+
+  return new ApprovalRequiredError(message, requests.map(request => ({
+    id: request.id,
+    opportunityId: request.opportunityId,
+    toStage: request.toStage,
+    reasons: request.reasons
+  })));
+};
+
+export class ApprovalsService {
+  private db: Firestore;
+  private notifications: NotificationsService;
+
+  constructor(db: Firestore) {
+    this.db = db;
+    this.notifications = new NotificationsService(db);
+  }
+
+  async getPolicies(): Promise<ApprovalPolicy[]> {
+    const snapshot = await this.db.collection('approval_policies').orderBy('name').get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ApprovalPolicy));
+  }
+
+  async getPolicy(policyId: string): Promise<ApprovalPolicy> {
+    const doc = await this.db.collection('approval_policies').doc(policyId).get();
+    if (!doc.exists) {
+      throw new NotFoundError('Approval policy', policyId);
+    }
+    return { id: doc.id, ...doc.data() } as ApprovalPolicy;
+  }
+
+  /**
+   * Create a policy, or replace it when an id is given. Requests already made keep their reasons.
+   */
+  async savePolicy(policyId: string | undefined, data: ApprovalPolicyInput, userId: string, userEmail: string): Promise<ApprovalPolicy> {
+    const now = Timestamp.now();
+    const fields = {
+      ...data,
+      description: data.description || '',
+      updatedBy: userId,
+      updatedAt: now
+    };
+
+    const docRef = policyId ? this.db.collection('approval_policies').doc(policyId) : this.db.collection('approval_policies').doc();
+    if (policyId) {
+      await this.getPolicy(policyId);
+      await docRef.update(fields);
+    } else {
+      await docRef.set({ ...fields, createdBy: userId, createdAt: now });
+    }
+
+    await AuditService.log({
+      action: policyId ? 'update' : 'create',
+      userId,
+      userEmail,
+      resourceType: 'approval_policy',
+      resourceId: docRef.id,
+      data: { name: data.name, stages: data.stages, minDealValue: data.minDealValue, commercialModelKeywords: data.commercialModelKeywords, enabled: data.enabled }
+    });
+
+    return this.getPolicy(docRef.id);
+  }
+
+  /**
+   * Delete a policy. Pending requests it raised stay in the queue.
+   */
+  async deletePolicy(policyId: string, userId: string, userEmail: string): Promise<void> {
+    const policy = await this.getPolicy(policyId);
+    await this.db.collection('approval_policies').doc(policyId).delete();
+
+    await AuditService.log({
+      action: 'delete',
+      userId,
+      userEmail,
+      resourceType: 'approval_policy',
+      resourceId: policyId,
+      data: { name: policy.name }
+    });
+  }
+
+  /**
+   * Requests newest first, optionally only those with one status
+   */
+  /**
+   * Requests newest first, limited to deals the caller may see
+   */
+  async getRequests(status: ApprovalStatus | undefined, limit: number, visibility?: RecordVisibility): Promise<ApprovalRequest[]> {
+    const requests = this.db.collection('approval_requests');
+    const query: Query = (status ? requests.where('status', '==', status) : requests).orderBy('requestedAt', 'desc');
+
+    const { docs } = await getFilteredPage(
+      query,
+      doc => !visibility || visibility.canView('opportunities', { ...doc.data(), id: doc.data().opportunityId }),
+      { limit }
+    );
+    return docs.map(doc => ({ id: doc.id, ...doc.data() } as ApprovalRequest));
+  }
+
+  async getRequest(requestId: string): Promise<ApprovalRequest> {
+    const doc = await this.db.collection('approval_requests').doc(requestId).get();
+    if (!doc.exists) {
+      throw new NotFoundError('Approval request', requestId);
+    }
+    return { id: doc.id, ...doc.data() } as ApprovalRequest;
+  }
+
+  async getOpportunityRequests(opportunityId: string): Promise<ApprovalRequest[]> {
+    const snapshot = await this.db.collection('approval_requests').where('opportunityId', '==', opportunityId).get();
+    return snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as ApprovalRequest))
+      .sort((a, b) => b.requestedAt.toMillis() - a.requestedAt.toMillis());
+  }
+
+  /**
+   * Decide whether a stage change may go ahead. A matching approval lets it through; otherwise a
+   * pending request is raised (or the open one refreshed) and approvers are notified.
+   */
+  async checkTransition(opportunityId: string, existing: Opportunity, updated: Opportunity, userId: string): Promise<TransitionCheck> {
+    if (updated.stage === existing.stage) {
+      return { status: 'not_required' };
+    }
+
+    const matches = matchPolicies(await this.getPolicies(), updated, updated.stage);
+    if (matches.length === 0) {
+      return { status: 'not_required' };
+    }
+
+    const requests = (await this.getOpportunityRequests(opportunityId)).filter(request => request.toStage === updated.stage);
+    const dealValue = typeof updated.estimatedDealValue === 'number' ? updated.estimatedDealValue : null;
+    const commercialModel = (updated.commercialModel || '').trim();
+
+    const approved = requests.find(request => request.status === 'approved'
+      && (dealValue === null || (request.dealValue !== null && dealValue <= request.dealValue))
+      && normalizeModel(request.commercialModel) === normalizeModel(commercialModel));
+    if (approved) {
+      return { status: 'approved', requestId: approved.id };
+    }
+
+    const now = Timestamp.now();
+    const fields = {
+      opportunityTitle: updated.title,
+      accountId: updated.accountId,
+      ownerId: updated.ownerId,
+      fromStage: existing.stage,
+      dealValue,
+      commercialModel,
+      policyIds: matches.map(match => match.policy.id),
+      reasons: matches.map(match => match.reason),
+      requestedBy: userId,
+      requestedAt: now
+    };
+
+    const open = requests.find(request => request.status === 'pending');
+    if (open) {
+      await this.db.collection('approval_requests').doc(open.id).update(fields);
+      return { status: 'pending', request: { ...open, ...fields } };
+    }
+
+    const docRef = this.db.collection('approval_requests').doc();
+    const data: Omit<ApprovalRequest, 'id'> = {
+      opportunityId,
+      toStage: updated.stage,
+      status: 'pending',
+      ...fields
+    };
+    await docRef.set(data);
+    const request = { id: docRef.id, ...data };
+
+    await AuditService.log({
+      action: 'approval_requested',
+      userId,
+      resourceType: 'approval_request',
+      resourceId: docRef.id,
+      data: { opportunityId, fromStage: existing.stage, toStage: updated.stage, dealValue, commercialModel, reasons: request.reasons }
+    });
+
+    await this.notifyApprovers(request);
+
+    return { status: 'pending', request };
+  }
+
+  /**
+   * Mark an approval used once the stage change it covered has been written
+   */
+  async markApplied(requestId: string): Promise<void> {
+    await this.db.collection('approval_requests').doc(requestId).update({ status: 'applied', appliedAt: Timestamp.now() });
+  }
+
+  /**
+   * Approve or reject a pending request. Nobody can decide on a request they raised.
+   */
+  async decide(
+    requestId: string,
+    decision: 'approved' | 'rejected',
+    comment: string | undefined,
+    userId: string,
+    userEmail: string
+  ): Promise<ApprovalRequest> {
+    const ref = this.db.collection('approval_requests').doc(requestId);
+
+    const decided = await this.db.runTransaction(async transaction => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists) {
+        throw new NotFoundError('Approval request', requestId);
+      }
+
+      const request = { id: doc.id, ...doc.data() } as ApprovalRequest;
+      if (request.status !== 'pending') {
+        throw new BusinessLogicError(`This request was already ${request.status}`);
+      }
+      if (request.requestedBy === userId) {
+        throw new BusinessLogicError('You cannot decide on your own approval request');
+      }
+
+      const changes = {
+        status: decision,
+        decidedBy: userId,
+        decidedAt: Timestamp.now(),
+        ...(comment ? { comment } : {})
+      };
+      transaction.update(ref, changes);
+      return { ...request, ...changes };
+    });
+
+    await AuditService.log({
+      action: decision === 'approved' ? 'approve' : 'reject',
+      userId,
+      userEmail,
+      resourceType: 'approval_request',
+      resourceId: requestId,
+      data: {
+        opportunityId: decided.opportunityId,
+        fromStage: decided.fromStage,
+        toStage: decided.toStage,
+        dealValue: decided.dealValue,
+        commercialModel: decided.commercialModel,
+        comment: comment || null
+      }
+    });
+
+    await this.notifications.notifyAll([{
+      userId: decided.requestedBy,
+      event: 'approval_decided',
+      title: decision === 'approved'
+        ? `Approved: move ${decided.opportunityTitle} to ${decided.toStage}`
+        : `Rejected: move ${decided.opportunityTitle} to ${decided.toStage}`,
+      body: decision === 'approved'
+        ? `You can now move it to ${decided.toStage}.${comment ? ` Comment: ${comment}` : ''}`
+        : comment || 'No comment given',
+      link: `/opportunities/${decided.opportunityId}`,
+      resourceType: 'opportunity',
+      resourceId: decided.opportunityId,
+      actorId: userId
+    }]);
+
+    return decided;
+  }
+
+  /**
+   * Managers of the requester's teams; admins when the requester has no team manager
+   */
+  private async notifyApprovers(request: ApprovalRequest): Promise<void> {
+    try {
+      const teams = await this.db.collection('teams').where('memberIds', 'array-contains', request.requestedBy).get();
+      let approverIds = new Set(teams.docs.flatMap(doc => (doc.data().managerIds || []) as string[]));
+      if (approverIds.size === 0) {
+        const admins = await this.db.collection('users').where('role', '==', 'admin').get();
+        approverIds = new Set(admins.docs.map(doc => doc.id));
+      }
+      approverIds.delete(request.requestedBy);
+
+      await this.notifications.notifyAll(Array.from(approverIds).map(approverId => ({
+        userId: approverId,
+        event: 'approval_requested' as const,
+        title: `Approval needed: ${request.opportunityTitle} to ${request.toStage}`,
+        body: request.reasons.join('; '),
+        link: '/approvals',
+        resourceType: 'opportunity' as const,
+        resourceId: request.opportunityId,
+        actorId: request.requestedBy
+      })));
+    } catch (error) {
+      logger.error('Failed to notify approvers', { requestId: request.id, error: error instanceof Error ? error.message : error });
+    }
+  }
+}
@@ -1,13 +1,14 @@
 import { onCall } from 'firebase-functions/v2/https';
 import { setGlobalOptions } from 'firebase-functions';
-import { authenticateUser } from '../../shared/auth.middleware';
-import { validateData } from '../../shared/validation.middleware';
+import { authenticateUser, requirePermission } from '../../shared/auth.middleware';
+import { validateData, commonSchemas } from '../../shared/validation.middleware';
 import { withErrorHandling } from '../../shared/errors';
 import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
 import { AssignmentService } from './assignments.service';
+import { TeamsService } from '../teams/teams.service';
 import { z } from 'zod';
 import { HttpsError } from 'firebase-functions/v2/https';
-import { Timestamp } from 'firebase-admin/firestore';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
 
 setGlobalOptions({
   maxInstances: 10,
@@ -15,6 +16,7 @@ setGlobalOptions({
 });
 
 const assignmentService = new AssignmentService();
+const teamsService = new TeamsService(getFirestore());
 
 // Validation Schemas
 export const CreateAssignmentSchema = z.object({
@@ -64,15 +66,16 @@ export const UpdateAssignmentSchema = z.object({
     z.undefined()
   ]).optional(),
   oneDriveTitle: z.string().nullish(),
+  expectedRevision: commonSchemas.expectedRevision,
 }).transform((data) => {
-  const { taskId, ...updateData } = data;
+  const { taskId, expectedRevision, ...updateData } = data;
   const cleanData = Object.entries(updateData).reduce((acc, [key, value]) => {
     if (value !== null && value !== undefined && value !== '') {
       acc[key] = value;
     }
     return acc;
   }, {} as any);
-  return { taskId, updateData: cleanData };
+  return { taskId, expectedRevision, updateData: cleanData };
 });
 
 export const DeleteAssignmentSchema = z.object({
@@ -84,6 +87,7 @@ export const ChecklistItemSchema = z.object({
   text: z.string().min(1, 'Text is required'), // Changed from 'label' to 'text'
   completed: z.boolean().optional(),
   dueDate: z.string().nullish().transform(val => val ? new Date(val) : undefined),
+  expectedRevision: commonSchemas.expectedRevision,
 });
 
 export const UpdateChecklistItemSchema = z.object({
@@ -92,22 +96,26 @@ export const UpdateChecklistItemSchema = z.object({
   text: z.string().nullish(), // Changed from 'label' to 'text'
   completed: z.boolean().nullish(),
   dueDate: z.string().nullish().transform(val => val ? new Date(val) : undefined),
+  expectedRevision: commonSchemas.expectedRevision,
 });
 
 export const ProgressLogEntrySchema = z.object({
   taskId: z.string().min(1, 'Task ID is required'),
   message: z.string().min(1, 'Message is required'),
+  expectedRevision: commonSchemas.expectedRevision,
 });
 
 export const UpdateProgressLogEntrySchema = z.object({
   taskId: z.string().min(1, 'Task ID is required'),
   entryId: z.string().min(1, 'Entry ID is required'),
   message: z.string().min(1, 'Message is required'),
+  expectedRevision: commonSchemas.expectedRevision,
 });
 
 export const RemoveProgressLogEntrySchema = z.object({
   taskId: z.string().min(1, 'Task ID is required'),
   entryId: z.string().min(1, 'Entry ID is required'),
+  expectedRevision: commonSchemas.expectedRevision,
 });
 
 // Activity validation schemas
@@ -126,6 +134,7 @@ export const AssignmentActivitySchema = z.object({
   followUpDate: z.string().optional().transform(val => val ? new Date(val) : undefined),
   followUpSubject: z.string().optional(),
   priority: z.enum(['High', 'Medium', 'Low']).optional(),
+  expectedRevision: commonSchemas.expectedRevision,
 });
 
 export const UpdateAssignmentActivitySchema = z.object({
@@ -145,11 +154,13 @@ export const UpdateAssignmentActivitySchema = z.object({
   followUpDate: z.string().optional().transform(val => val ? new Date(val) : undefined),
   followUpSubject: z.string().optional(),
   priority: z.enum(['High', 'Medium', 'Low']).optional(),
+  expectedRevision: commonSchemas.expectedRevision,
 });
 
 export const RemoveAssignmentActivitySchema = z.object({
   taskId: z.string().min(1, 'Task ID is required'),
   activityId: z.string().min(1, 'Activity ID is required'),
+  expectedRevision: commonSchemas.expectedRevision,
 });
 
 // Create Assignment
@@ -160,6 +171,7 @@ export const createAssignment = onCall(
   },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'assignments:create');
     
     await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'createAssignment');
     
@@ -185,6 +197,7 @@ export const getAssignments = onCall(
   },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'assignments:read');
     
     await RateLimiter.checkLimit(
       user.uid, 
@@ -193,8 +206,8 @@ export const getAssignments = onCall(
       'getAssignments'
     );
     
-    // Get all assignments - any authenticated user can view any assignment
-    const result = await assignmentService.getAllAssignments();
+    const visibility = await teamsService.resolveVisibility(user);
+    const result = visibility.filter('assignments', await assignmentService.getAllAssignments());
     
     console.log(`📋 Retrieved ${result.length} assignments for user ${user.uid}`);
     return result;
@@ -209,6 +222,7 @@ export const getAssignmentsByOwner = onCall(
   },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'assignments:read');
     
     await RateLimiter.checkLimit(
       user.uid, 
@@ -218,7 +232,8 @@ export const getAssignmentsByOwner = onCall(
     );
     
     const ownerId = request.data?.ownerId || user.uid;
-    const result = await assignmentService.getAssignmentsByOwner(ownerId);
+    const visibility = await teamsService.resolveVisibility(user);
+    const result = visibility.filter('assignments', await assignmentService.getAssignmentsByOwner(ownerId));
     
     console.log(`📋 Retrieved ${result.length} assignments for owner ${ownerId}`);
     return result;
@@ -233,6 +248,7 @@ export const getAssignment = onCall(
   },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'assignments:read');
     
     await RateLimiter.checkLimit(
       user.uid, 
@@ -251,7 +267,8 @@ export const getAssignment = onCall(
       throw new HttpsError('not-found', 'Assignment not found');
     }
 
-    // Any authenticated user can view any assignment
+    await teamsService.assertCanView(user, 'assignments', result);
+
     return result;
   }, { functionName: 'getAssignment', action: 'ASSIGNMENT_GET' })
 );
@@ -264,6 +281,7 @@ export const updateAssignment = onCall(
   },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'assignments:update');
     
     await RateLimiter.checkLimit(
       user.uid, 
@@ -272,15 +290,16 @@ export const updateAssignment = onCall(
       'updateAssignment'
     );
     
-    const { taskId, updateData } = validateData(UpdateAssignmentSchema, request.data);
+    const { taskId, expectedRevision, updateData } = validateData(UpdateAssignmentSchema, request.data);
     
-    // Verify assignment exists - any authenticated user can edit any assignment
     const existing = await assignmentService.getAssignment(taskId);
     if (!existing) {
       throw new HttpsError('not-found', 'Assignment not found');
     }
+
+    await teamsService.assertCanView(user, 'assignments', existing);
     
-    const result = await assignmentService.updateAssignment(taskId, updateData, user.uid);
+    const result = await assignmentService.updateAssignment(taskId, updateData, user.uid, expectedRevision);
     
     console.log(`✅ Assignment updated successfully: ${taskId}`);
     return result;
@@ -295,6 +314,7 @@ export const deleteAssignment = onCall(
   },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'assignments:delete');
     
     await RateLimiter.checkLimit(
       user.uid, 
@@ -305,11 +325,12 @@ export const deleteAssignment = onCall(
     
     const { taskId } = validateData(DeleteAssignmentSchema, request.data);
     
-    // Verify assignment exists - any authenticated user can delete any assignment
     const existing = await assignmentService.getAssignment(taskId);
     if (!existing) {
       throw new HttpsError('not-found', 'Assignment not found');
     }
+
+    await teamsService.assertCanView(user, 'assignments', existing);
     
     await assignmentService.deleteAssignment(taskId, user.uid);
     
@@ -326,6 +347,7 @@ export const addChecklistItem = onCall(
   },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'assignments:update');
     
     await RateLimiter.checkLimit(
       user.uid, 
@@ -335,7 +357,7 @@ export const addChecklistItem = onCall(
     );
     
     const validatedData = validateData(ChecklistItemSchema, request.data);
-    const { taskId, ...checklistItem } = validatedData;
+    const { taskId, expectedRevision, ...checklistItem } = validatedData;
     
     // Ensure completed has a default value
     const safeChecklistItem = {
@@ -343,7 +365,9 @@ export const addChecklistItem = onCall(
       completed: checklistItem.completed ?? false
     };
     
-    const result = await assignmentService.addChecklistItem(taskId, safeChecklistItem, user.uid);
+    await teamsService.assertCanViewById(user, 'assignments', taskId);
+
+    const result = await assignmentService.addChecklistItem(taskId, safeChecklistItem, user.uid, expectedRevision);
     
     console.log(`✅ Checklist item added to assignment: ${taskId}`);
     return result;
@@ -358,6 +382,7 @@ export const updateChecklistItem = onCall(
   },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'assignments:update');
     
     await RateLimiter.checkLimit(
       user.uid, 
@@ -367,7 +392,7 @@ export const updateChecklistItem = onCall(
     );
     
     const validatedData = validateData(UpdateChecklistItemSchema, request.data);
-    const { taskId, itemId, ...updateData } = validatedData;
+    const { taskId, itemId, expectedRevision, ...updateData } = validatedData;
     
     const cleanUpdateData = Object.entries(updateData).reduce((acc, [key, value]) => {
       if (value !== null && value !== undefined && value !== '') {
@@ -376,7 +401,9 @@ export const updateChecklistItem = onCall(
       return acc;
     }, {} as any);
     
-    const result = await assignmentService.updateChecklistItem(taskId, itemId, cleanUpdateData, user.uid);
+    await teamsService.assertCanViewById(user, 'assignments', taskId);
+
+    const result = await assignmentService.updateChecklistItem(taskId, itemId, cleanUpdateData, user.uid, expectedRevision);
     
     console.log(`✅ Checklist item updated in assignment: ${taskId}`);
     return result;
@@ -391,6 +418,7 @@ export const removeChecklistItem = onCall(
   },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'assignments:update');
     
     await RateLimiter.checkLimit(
       user.uid, 
@@ -403,7 +431,10 @@ export const removeChecklistItem = onCall(
       throw new HttpsError('invalid-argument', 'Task ID and Item ID are required');
     }
     
-    const result = await assignmentService.removeChecklistItem(request.data.taskId, request.data.itemId, user.uid);
+    const expectedRevision = validateData(commonSchemas.expectedRevision, request.data.expectedRevision);
+    await teamsService.assertCanViewById(user, 'assignments', request.data.taskId);
+
+    const result = await assignmentService.removeChecklistItem(request.data.taskId, request.data.itemId, user.uid, expectedRevision);
     
     console.log(`✅ Checklist item removed from assignment: ${request.data.taskId}`);
     return result;
@@ -418,6 +449,7 @@ export const addProgressLogEntry = onCall(
   },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'assignments:update');
     
     await RateLimiter.checkLimit(
       user.uid, 
@@ -426,9 +458,11 @@ export const addProgressLogEntry = onCall(
       'addProgressLogEntry'
     );
     
-    const { taskId, message } = validateData(ProgressLogEntrySchema, request.data);
+    const { taskId, message, expectedRevision } = validateData(ProgressLogEntrySchema, request.data);
     
-    const result = await assignmentService.addProgressLogEntry(taskId, message, user.uid);
+    await teamsService.assertCanViewById(user, 'assignments', taskId);
+
+    const result = await assignmentService.addProgressLogEntry(taskId, message, user.uid, expectedRevision);
     
     console.log(`✅ Progress log entry added to assignment: ${taskId}`);
     return result;
@@ -443,6 +477,7 @@ export const updateProgressLogEntry = onCall(
   },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'assignments:update');
     
     await RateLimiter.checkLimit(
       user.uid, 
@@ -451,9 +486,11 @@ export const updateProgressLogEntry = onCall(
       'updateProgressLogEntry'
     );
     
-    const { taskId, entryId, message } = validateData(UpdateProgressLogEntrySchema, request.data);
+    const { taskId, entryId, message, expectedRevision } = validateData(UpdateProgressLogEntrySchema, request.data);
     
-    const result = await assignmentService.updateProgressLogEntry(taskId, entryId, message, user.uid);
+    await teamsService.assertCanViewById(user, 'assignments', taskId);
+
+    const result = await assignmentService.updateProgressLogEntry(taskId, entryId, message, user.uid, expectedRevision);
     
     console.log(`✅ Progress log entry updated in assignment: ${taskId}`);
     return result;
@@ -468,6 +505,7 @@ export const removeProgressLogEntry = onCall(
   },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'assignments:update');
     
     await RateLimiter.checkLimit(
       user.uid, 
@@ -476,9 +514,11 @@ export const removeProgressLogEntry = onCall(
       'removeProgressLogEntry'
     );
     
-    const { taskId, entryId } = validateData(RemoveProgressLogEntrySchema, request.data);
+    const { taskId, entryId, expectedRevision } = validateData(RemoveProgressLogEntrySchema, request.data);
     
-    const result = await assignmentService.removeProgressLogEntry(taskId, entryId, user.uid);
+    await teamsService.assertCanViewById(user, 'assignments', taskId);
+
+    const result = await assignmentService.removeProgressLogEntry(taskId, entryId, user.uid, expectedRevision);
     
     console.log(`✅ Progress log entry removed from assignment: ${taskId}`);
     return result;
@@ -497,6 +537,7 @@ export const addActivityToAssignment = onCall(
   },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'assignments:update');
     
     await RateLimiter.checkLimit(
       user.uid, 
@@ -505,7 +546,7 @@ export const addActivityToAssignment = onCall(
       'addActivityToAssignment'
     );
     
-    const { taskId, ...activityData } = validateData(AssignmentActivitySchema, request.data);
+    const { taskId, expectedRevision, ...activityData } = validateData(AssignmentActivitySchema, request.data);
     
     // Convert Date objects to Timestamps
     const processedActivityData = {
@@ -514,10 +555,12 @@ export const addActivityToAssignment = onCall(
       followUpDate: activityData.followUpDate ? Timestamp.fromDate(activityData.followUpDate) : undefined
     };
     
-    const result = await assignmentService.addActivityToAssignment(taskId, processedActivityData, user.uid);
+    await teamsService.assertCanViewById(user, 'assignments', taskId);
+
+    const { item, revision } = await assignmentService.addActivityToAssignment(taskId, processedActivityData, user.uid, expectedRevision);
     
     console.log(`✅ Activity added to assignment: ${taskId}`);
-    return { success: true, activity: result };
+    return { success: true, activity: item, revision };
   }, { functionName: 'addActivityToAssignment', action: 'ACTIVITY_ADD' })
 );
 
@@ -529,6 +572,7 @@ export const updateActivityInAssignment = onCall(
   },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'assignments:update');
     
     await RateLimiter.checkLimit(
       user.uid, 
@@ -537,7 +581,7 @@ export const updateActivityInAssignment = onCall(
       'updateActivityInAssignment'
     );
     
-    const { taskId, activityId, ...updateData } = validateData(UpdateAssignmentActivitySchema, request.data);
+    const { taskId, activityId, expectedRevision, ...updateData } = validateData(UpdateAssignmentActivitySchema, request.data);
     
     // Convert Date objects to Timestamps
     const processedUpdateData = {
@@ -547,10 +591,12 @@ export const updateActivityInAssignment = onCall(
       followUpDate: updateData.followUpDate ? Timestamp.fromDate(updateData.followUpDate) : undefined
     };
     
-    const result = await assignmentService.updateActivityInAssignment(taskId, activityId, processedUpdateData, user.uid);
+    await teamsService.assertCanViewById(user, 'assignments', taskId);
+
+    const { item, revision } = await assignmentService.updateActivityInAssignment(taskId, activityId, processedUpdateData, user.uid, expectedRevision);
     
     console.log(`✅ Activity updated in assignment: ${taskId}`);
-    return { success: true, activity: result };
+    return { success: true, activity: item, revision };
   }, { functionName: 'updateActivityInAssignment', action: 'ACTIVITY_UPDATE' })
 );
 
@@ -562,6 +608,7 @@ export const removeActivityFromAssignment = onCall(
   },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'assignments:update');
     
     await RateLimiter.checkLimit(
       user.uid, 
@@ -570,12 +617,14 @@ export const removeActivityFromAssignment = onCall(
       'removeActivityFromAssignment'
     );
     
-    const { taskId, activityId } = validateData(RemoveAssignmentActivitySchema, request.data);
+    const { taskId, activityId, expectedRevision } = validateData(RemoveAssignmentActivitySchema, request.data);
     
-    await assignmentService.deleteActivityFromAssignment(taskId, activityId, user.uid);
+    await teamsService.assertCanViewById(user, 'assignments', taskId);
+
+    const revision = await assignmentService.deleteActivityFromAssignment(taskId, activityId, user.uid, expectedRevision);
     
     console.log(`✅ Activity removed from assignment: ${taskId}`);
-    return { success: true };
+    return { success: true, revision };
   }, { functionName: 'removeActivityFromAssignment', action: 'ACTIVITY_REMOVE' })
 );
 
@@ -587,6 +636,7 @@ export const getActivitiesByAssignment = onCall(
   },
   withErrorHandling(async (request) => {
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'assignments:read');
     
     await RateLimiter.checkLimit(
       user.uid, 
@@ -601,6 +651,8 @@ export const getActivitiesByAssignment = onCall(
       throw new HttpsError('invalid-argument', 'Task ID is required');
     }
     
+    await teamsService.assertCanViewById(user, 'assignments', taskId);
+
     const result = await assignmentService.getActivitiesByAssignment(taskId);
     
     console.log(`✅ Activities retrieved for assignment: ${taskId}`);
@@ -1,5 +1,10 @@
 import { getFirestore, Timestamp } from 'firebase-admin/firestore';
 import { AuditService } from '../../shared/audit.service';
+import { isDeleted, softDeleteFields } from '../../shared/soft-delete';
+import { updateWithRevision, bumpRevision, RevisionedChange, RevisionedResult } from '../../shared/concurrency';
+import { scheduleFollowUps } from '../../shared/follow-ups';
+import { WorkflowEngineService } from '../workflows/workflow-engine.service';
+import { NotificationsService } from '../notifications/notifications.service';
 
 export interface ChecklistItem {
   id: string;
@@ -35,6 +40,8 @@ export interface AssignmentActivity {
   completedAt?: Timestamp;
   followUpDate?: Timestamp;
   followUpSubject?: string;
+  followUpOf?: string; // Set on a follow-up: the completed activity it continues
+  followUpActivityId?: string; // Set on a completed activity once its follow-up exists
   priority?: 'High' | 'Medium' | 'Low';
   createdAt: Timestamp;
   createdBy: string;
@@ -57,11 +64,17 @@ export interface Assignment {
   lastActivityDate?: Timestamp; // Track when last activity was added
   createdAt: Timestamp;
   updatedAt: Timestamp;
+  revision?: number; // Incremented on every write, used to reject stale updates
+  // Soft delete fields - set when the assignment is moved to the trash
+  deletedAt?: Timestamp;
+  deletedBy?: string;
 }
 
 export class AssignmentService {
   private db = getFirestore();
   private collection = this.db.collection('assignments');
+  private workflows = new WorkflowEngineService(this.db);
+  private notifications = new NotificationsService(this.db);
 
   async createAssignment(data: any, userId: string): Promise<Assignment> {
     // Auto-generate taskId using Firestore document ID
@@ -109,12 +122,14 @@ export class AssignmentService {
       }
     });
 
+    await this.workflows.onRecordWritten('assignment', generatedTaskId, null, assignmentData, userId);
+
     return assignmentData;
   }
 
   async getAssignment(taskId: string): Promise<Assignment | null> {
     const doc = await this.collection.doc(taskId).get();
-    if (!doc.exists) return null;
+    if (!doc.exists || isDeleted(doc.data())) return null;
     
     const assignment = doc.data() as Assignment;
     
@@ -126,14 +141,16 @@ export class AssignmentService {
     return assignment;
   }
 
-  async updateAssignment(taskId: string, updateData: any, userId: string): Promise<Assignment> {
+  async updateAssignment(taskId: string, updateData: any, userId: string, expectedRevision?: number): Promise<Assignment> {
     const docRef = this.collection.doc(taskId);
-    const updatedData = {
-      ...updateData,
-      updatedAt: Timestamp.now(),
-    };
 
-    await docRef.update(updatedData);
+    await this.updateInTransaction(taskId, expectedRevision, userId, assignment => ({
+      updates: {
+        ...updateData,
+        updatedAt: Timestamp.now(),
+      },
+      result: assignment
+    }));
 
     await AuditService.log({
       userId,
@@ -150,7 +167,8 @@ export class AssignmentService {
   }
 
   async deleteAssignment(taskId: string, userId: string): Promise<void> {
-    await this.collection.doc(taskId).delete();
+    // Soft delete - the assignment stays in the trash until restored or purged
+    await this.collection.doc(taskId).update(softDeleteFields(userId));
 
     await AuditService.log({
       userId,
@@ -166,7 +184,7 @@ export class AssignmentService {
       .orderBy('createdAt', 'desc')
       .get();
 
-    return snapshot.docs.map(doc => {
+    return snapshot.docs.filter(doc => !isDeleted(doc.data())).map(doc => {
       const assignment = doc.data() as Assignment;
       // Initialize activities array if it doesn't exist (backward compatibility)
       if (!assignment.activities) {
@@ -182,7 +200,7 @@ export class AssignmentService {
       .orderBy('createdAt', 'desc')
       .get();
 
-    return snapshot.docs.map(doc => {
+    return snapshot.docs.filter(doc => !isDeleted(doc.data())).map(doc => {
       const assignment = doc.data() as Assignment;
       // Initialize activities array if it doesn't exist (backward compatibility)
       if (!assignment.activities) {
@@ -198,7 +216,7 @@ export class AssignmentService {
       .orderBy('createdAt', 'desc')
       .get();
 
-    return snapshot.docs.map(doc => {
+    return snapshot.docs.filter(doc => !isDeleted(doc.data())).map(doc => {
       const assignment = doc.data() as Assignment;
       // Initialize activities array if it doesn't exist (backward compatibility)
       if (!assignment.activities) {
@@ -208,13 +226,8 @@ export class AssignmentService {
     });
   }
 
-  async addChecklistItem(taskId: string, checklistItem: Omit<ChecklistItem, 'id'>, userId: string): Promise<Assignment> {
+  async addChecklistItem(taskId: string, checklistItem: Omit<ChecklistItem, 'id'>, userId: string, expectedRevision?: number): Promise<Assignment> {
     const docRef = this.collection.doc(taskId);
-    const assignment = await this.getAssignment(taskId);
-    
-    if (!assignment) {
-      throw new Error('Assignment not found');
-    }
 
     const newItem: any = {
       id: this.db.collection('temp').doc().id, // Generate unique ID
@@ -227,12 +240,10 @@ export class AssignmentService {
       newItem.dueDate = checklistItem.dueDate;
     }
 
-    const updatedChecklist = [...assignment.checklist, newItem];
-
-    await docRef.update({
-      checklist: updatedChecklist,
-      updatedAt: Timestamp.now(),
-    });
+    await this.updateInTransaction(taskId, expectedRevision, userId, assignment => ({
+      updates: { checklist: [...(assignment.checklist || []), newItem] },
+      result: null
+    }));
 
     await AuditService.log({
       userId,
@@ -249,49 +260,43 @@ export class AssignmentService {
     return updated.data() as Assignment;
   }
 
-  async updateChecklistItem(taskId: string, itemId: string, updateData: Partial<ChecklistItem>, userId: string): Promise<Assignment> {
+  async updateChecklistItem(taskId: string, itemId: string, updateData: Partial<ChecklistItem>, userId: string, expectedRevision?: number): Promise<Assignment> {
     const docRef = this.collection.doc(taskId);
-    const assignment = await this.getAssignment(taskId);
-    
-    if (!assignment) {
-      throw new Error('Assignment not found');
-    }
 
-    const updatedChecklist = assignment.checklist.map(item => {
-      if (item.id === itemId) {
-        const updatedItem = { ...item };
-        
-        // Update fields only if they are defined (allow null to clear values)
-        if (updateData.text !== undefined) {
-          updatedItem.text = updateData.text;
-        }
-        if (updateData.completed !== undefined) {
-          updatedItem.completed = updateData.completed;
-        }
-        if (updateData.dueDate !== undefined) {
-          // If dueDate is null, remove it
-          if (updateData.dueDate === null) {
-            delete updatedItem.dueDate;
-          } else {
-            updatedItem.dueDate = updateData.dueDate;
+    await this.updateInTransaction(taskId, expectedRevision, userId, assignment => {
+      const updatedChecklist = (assignment.checklist || []).map(item => {
+        if (item.id === itemId) {
+          const updatedItem = { ...item };
+          
+          // Update fields only if they are defined (allow null to clear values)
+          if (updateData.text !== undefined) {
+            updatedItem.text = updateData.text;
           }
+          if (updateData.completed !== undefined) {
+            updatedItem.completed = updateData.completed;
+          }
+          if (updateData.dueDate !== undefined) {
+            // If dueDate is null, remove it
+            if (updateData.dueDate === null) {
+              delete updatedItem.dueDate;
+            } else {
+              updatedItem.dueDate = updateData.dueDate;
+            }
+          }
+          
+          // Set completedAt timestamp when marking as completed
+          if (updateData.completed === true && !item.completed) {
+            updatedItem.completedAt = Timestamp.now();
+          } else if (updateData.completed === false && updatedItem.completedAt) {
+            // Remove completedAt field when unchecking
+            delete updatedItem.completedAt;
+          }
+          return updatedItem;
         }
-        
-        // Set completedAt timestamp when marking as completed
-        if (updateData.completed === true && !item.completed) {
-          updatedItem.completedAt = Timestamp.now();
-        } else if (updateData.completed === false && updatedItem.completedAt) {
-          // Remove completedAt field when unchecking
-          delete updatedItem.completedAt;
-        }
-        return updatedItem;
-      }
-      return item;
-    });
+        return item;
+      });
 
-    await docRef.update({
-      checklist: updatedChecklist,
-      updatedAt: Timestamp.now(),
+      return { updates: { checklist: updatedChecklist }, result: null };
     });
 
     await AuditService.log({
@@ -310,20 +315,13 @@ export class AssignmentService {
     return updated.data() as Assignment;
   }
 
-  async removeChecklistItem(taskId: string, itemId: string, userId: string): Promise<Assignment> {
+  async removeChecklistItem(taskId: string, itemId: string, userId: string, expectedRevision?: number): Promise<Assignment> {
     const docRef = this.collection.doc(taskId);
-    const assignment = await this.getAssignment(taskId);
-    
-    if (!assignment) {
-      throw new Error('Assignment not found');
-    }
-
-    const updatedChecklist = assignment.checklist.filter(item => item.id !== itemId);
 
-    await docRef.update({
-      checklist: updatedChecklist,
-      updatedAt: Timestamp.now(),
-    });
+    await this.updateInTransaction(taskId, expectedRevision, userId, assignment => ({
+      updates: { checklist: (assignment.checklist || []).filter(item => item.id !== itemId) },
+      result: null
+    }));
 
     await AuditService.log({
       userId,
@@ -340,13 +338,8 @@ export class AssignmentService {
     return updated.data() as Assignment;
   }
 
-  async addProgressLogEntry(taskId: string, message: string, userId: string): Promise<Assignment> {
+  async addProgressLogEntry(taskId: string, message: string, userId: string, expectedRevision?: number): Promise<Assignment> {
     const docRef = this.collection.doc(taskId);
-    const assignment = await this.getAssignment(taskId);
-    
-    if (!assignment) {
-      throw new Error('Assignment not found');
-    }
 
     const newEntry: ProgressLogEntry = {
       id: this.db.collection('temp').doc().id, // Generate unique ID
@@ -355,12 +348,10 @@ export class AssignmentService {
       message,
     };
 
-    const updatedProgressLog = [...assignment.progressLog, newEntry];
-
-    await docRef.update({
-      progressLog: updatedProgressLog,
-      updatedAt: Timestamp.now(),
-    });
+    await this.updateInTransaction(taskId, expectedRevision, userId, assignment => ({
+      updates: { progressLog: [...(assignment.progressLog || []), newEntry] },
+      result: null
+    }));
 
     await AuditService.log({
       userId,
@@ -377,28 +368,22 @@ export class AssignmentService {
     return updated.data() as Assignment;
   }
 
-  async updateProgressLogEntry(taskId: string, entryId: string, message: string, userId: string): Promise<Assignment> {
+  async updateProgressLogEntry(taskId: string, entryId: string, message: string, userId: string, expectedRevision?: number): Promise<Assignment> {
     const docRef = this.collection.doc(taskId);
-    const assignment = await this.getAssignment(taskId);
-    
-    if (!assignment) {
-      throw new Error('Assignment not found');
-    }
 
-    const updatedProgressLog = assignment.progressLog.map(entry => {
-      if (entry.id === entryId) {
-        return {
-          ...entry,
-          message,
-          timestamp: Timestamp.now(), // Update timestamp when editing
-        };
-      }
-      return entry;
-    });
+    await this.updateInTransaction(taskId, expectedRevision, userId, assignment => {
+      const updatedProgressLog = (assignment.progressLog || []).map(entry => {
+        if (entry.id === entryId) {
+          return {
+            ...entry,
+            message,
+            timestamp: Timestamp.now(), // Update timestamp when editing
+          };
+        }
+        return entry;
+      });
 
-    await docRef.update({
-      progressLog: updatedProgressLog,
-      updatedAt: Timestamp.now(),
+      return { updates: { progressLog: updatedProgressLog }, result: null };
     });
 
     await AuditService.log({
@@ -417,20 +402,13 @@ export class AssignmentService {
     return updated.data() as Assignment;
   }
 
-  async removeProgressLogEntry(taskId: string, entryId: string, userId: string): Promise<Assignment> {
+  async removeProgressLogEntry(taskId: string, entryId: string, userId: string, expectedRevision?: number): Promise<Assignment> {
     const docRef = this.collection.doc(taskId);
-    const assignment = await this.getAssignment(taskId);
-    
-    if (!assignment) {
-      throw new Error('Assignment not found');
-    }
-
-    const updatedProgressLog = assignment.progressLog.filter(entry => entry.id !== entryId);
 
-    await docRef.update({
-      progressLog: updatedProgressLog,
-      updatedAt: Timestamp.now(),
-    });
+    await this.updateInTransaction(taskId, expectedRevision, userId, assignment => ({
+      updates: { progressLog: (assignment.progressLog || []).filter(entry => entry.id !== entryId) },
+      result: null
+    }));
 
     await AuditService.log({
       userId,
@@ -460,7 +438,7 @@ export class AssignmentService {
         updatedAt: Timestamp.now(),
       };
 
-      batch.update(docRef, updatedData);
+      batch.update(docRef, { ...updatedData, ...bumpRevision() });
       results.push({ taskId, ...updatedData } as Assignment);
     }
 
@@ -484,14 +462,7 @@ export class AssignmentService {
   // ACTIVITY MANAGEMENT METHODS (similar to Opportunities)
   // ============================================================================
 
-  async addActivityToAssignment(taskId: string, activityData: Omit<AssignmentActivity, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>, userId: string): Promise<AssignmentActivity> {
-    const docRef = this.collection.doc(taskId);
-    const assignmentDoc = await docRef.get();
-
-    if (!assignmentDoc.exists) {
-      throw new Error('Assignment not found');
-    }
-
+  async addActivityToAssignment(taskId: string, activityData: Omit<AssignmentActivity, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>, userId: string, expectedRevision?: number): Promise<RevisionedResult<AssignmentActivity>> {
     const now = Timestamp.now();
     
     // Filter out null/undefined values from activityData
@@ -511,14 +482,17 @@ export class AssignmentService {
       updatedBy: userId
     } as AssignmentActivity;
 
-    const assignmentData = assignmentDoc.data();
-    const activities = (assignmentData?.activities || []) as AssignmentActivity[];
-    activities.push(newActivity);
-
-    await docRef.update({
-      activities,
-      lastActivityDate: now,
-      updatedAt: now
+    const { result: savedActivity, revision } = await this.updateInTransaction(taskId, expectedRevision, userId, assignment => {
+      // Logging an already completed activity schedules its follow-up straight away
+      const activities = scheduleFollowUps(assignment.activities, [...(assignment.activities || []), newActivity], userId, now);
+      return {
+        updates: {
+          activities,
+          lastActivityDate: now,
+          updatedAt: now
+        },
+        result: activities.find(activity => activity.id === newActivity.id)!
+      };
     });
 
     // Audit log
@@ -535,37 +509,35 @@ export class AssignmentService {
       }
     });
 
-    return newActivity;
+    return { item: savedActivity, revision };
   }
 
-  async updateActivityInAssignment(taskId: string, activityId: string, updateData: Partial<Omit<AssignmentActivity, 'id' | 'createdAt' | 'createdBy'>>, userId: string): Promise<AssignmentActivity> {
-    const docRef = this.collection.doc(taskId);
-    const assignmentDoc = await docRef.get();
-
-    if (!assignmentDoc.exists) {
-      throw new Error('Assignment not found');
-    }
-
-    const assignmentData = assignmentDoc.data();
-    const activities = (assignmentData?.activities || []) as AssignmentActivity[];
-    
-    const activityIndex = activities.findIndex(activity => activity.id === activityId);
-    if (activityIndex === -1) {
-      throw new Error('Activity not found');
-    }
+  async updateActivityInAssignment(taskId: string, activityId: string, updateData: Partial<Omit<AssignmentActivity, 'id' | 'createdAt' | 'createdBy'>>, userId: string, expectedRevision?: number): Promise<RevisionedResult<AssignmentActivity>> {
+    const { result: updatedActivity, revision } = await this.updateInTransaction(taskId, expectedRevision, userId, assignment => {
+      const activities = assignment.activities || [];
+      
+      const activityIndex = activities.findIndex(activity => activity.id === activityId);
+      if (activityIndex === -1) {
+        throw new Error('Activity not found');
+      }
 
-    const updatedActivity = {
-      ...activities[activityIndex],
-      ...updateData,
-      updatedAt: Timestamp.now(),
-      updatedBy: userId
-    };
+      const updated = {
+        ...activities[activityIndex],
+        ...updateData,
+        updatedAt: Timestamp.now(),
+        updatedBy: userId
+      };
 
-    activities[activityIndex] = updatedActivity;
+      const updatedActivities = scheduleFollowUps(
+        activities,
+        activities.map((activity, index) => index === activityIndex ? updated : activity),
+        userId
+      );
 
-    await docRef.update({
-      activities,
-      updatedAt: Timestamp.now()
+      return {
+        updates: { activities: updatedActivities },
+        result: updatedActivities[activityIndex]
+      };
     });
 
     // Audit log
@@ -577,30 +549,22 @@ export class AssignmentService {
       data: { taskId, ...updateData }
     });
 
-    return updatedActivity;
+    return { item: updatedActivity, revision };
   }
 
-  async deleteActivityFromAssignment(taskId: string, activityId: string, userId: string): Promise<void> {
-    const docRef = this.collection.doc(taskId);
-    const assignmentDoc = await docRef.get();
-
-    if (!assignmentDoc.exists) {
-      throw new Error('Assignment not found');
-    }
-
-    const assignmentData = assignmentDoc.data();
-    const activities = (assignmentData?.activities || []) as AssignmentActivity[];
-
-    const activityToDelete = activities.find(activity => activity.id === activityId);
-    if (!activityToDelete) {
-      throw new Error('Activity not found');
-    }
+  async deleteActivityFromAssignment(taskId: string, activityId: string, userId: string, expectedRevision?: number): Promise<number> {
+    const { result: activityToDelete, revision } = await this.updateInTransaction(taskId, expectedRevision, userId, assignment => {
+      const activities = assignment.activities || [];
 
-    const updatedActivities = activities.filter(activity => activity.id !== activityId);
+      const deleted = activities.find(activity => activity.id === activityId);
+      if (!deleted) {
+        throw new Error('Activity not found');
+      }
 
-    await docRef.update({
-      activities: updatedActivities,
-      updatedAt: Timestamp.now()
+      return {
+        updates: { activities: activities.filter(activity => activity.id !== activityId) },
+        result: deleted
+      };
     });
 
     // Audit log
@@ -615,6 +579,8 @@ export class AssignmentService {
         activityType: activityToDelete.activityType
       }
     });
+
+    return revision;
   }
 
   async getActivitiesByAssignment(taskId: string): Promise<AssignmentActivity[]> {
@@ -626,4 +592,26 @@ export class AssignmentService {
 
     return assignment.activities || [];
   }
+
+  /**
+   * Read-modify-write an assignment in a transaction so concurrent edits to its
+   * checklist, progress log and activities can't drop each other's changes, then
+   * notify whoever was newly assigned an activity and run the assignment's rules
+   */
+  private async updateInTransaction<R>(
+    taskId: string,
+    expectedRevision: number | undefined,
+    userId: string,
+    mutate: (assignment: Assignment) => RevisionedChange<R>
+  ): Promise<{ result: R; revision: number }> {
+    const { result: change, revision } = await updateWithRevision(this.db, this.collection.doc(taskId), 'Assignment', expectedRevision, userId, data => {
+      const { updates, result } = mutate(data as Assignment);
+      return { updates, result: { result, before: data as Assignment, after: { ...data, ...updates } as Assignment } };
+    });
+
+    await this.notifications.notifyAssignmentChanges(change.before, change.after, userId);
+    await this.workflows.onRecordWritten('assignment', taskId, change.before, { ...change.after, revision }, userId);
+
+    return { result: change.result, revision };
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { defineInt } from 'firebase-functions/params';
+import { getFirestore } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { authenticateUser, requirePermission } from '../../shared/auth.middleware';
+import { validateData, commonSchemas } from '../../shared/validation.middleware';
+import { withErrorHandling } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { AuditLogService } from './audit.service';
+import { z } from 'zod';
+
+// Days VIEW entries are kept before the scheduled prune removes them
+const auditViewRetentionDays = defineInt('AUDIT_VIEW_RETENTION_DAYS', { default: 30 });
+
+const getAuditLogsSchema = z.object({
+  userId: commonSchemas.id.optional(),
+  action: z.string().trim().min(1).max(100).optional(),
+  resourceType: z.string().trim().min(1).max(50).optional(),
+  resourceId: z.string().trim().min(1).max(200).optional(),
+  result: z.enum(['SUCCESS', 'FAILURE']).optional(),
+  from: z.string().datetime().transform(value => new Date(value)).optional(),
+  to: z.string().datetime().transform(value => new Date(value)).optional(),
+  limit: z.number().int().min(1).max(500).default(50),
+  cursor: commonSchemas.id.optional()
+});
+
+const getAuditLogService = () => new AuditLogService(getFirestore());
+
+/**
+ * Search the audit log, newest first, with cursor pagination. Admins only.
+ */
+export const getAuditLogs = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'audit:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getAuditLogs');
+
+    const { limit, cursor, ...filters } = validateData(getAuditLogsSchema, request.data || {});
+
+    return await getAuditLogService().getAuditLogs(filters, limit, cursor);
+  }, { functionName: 'getAuditLogs', action: 'AUDIT_LIST' })
+);
+
+/**
+ * Scheduled function to prune VIEW audit entries older than the retention window
+ * Runs every day at 03:00 UTC
+ */
+export const pruneAuditViewLogs = onSchedule({
+  schedule: '0 3 * * *', // Every day at 03:00 UTC
+  timeZone: 'UTC',
+  region: 'us-central1'
+}, async () => {
+  const retentionDays = auditViewRetentionDays.value();
+
+  try {
+    const pruned = await getAuditLogService().pruneViewLogs(retentionDays);
+    logger.info('Audit VIEW entries pruned', { retentionDays, pruned });
+  } catch (error) {
+    logger.error('Failed to prune audit VIEW entries', {
+      retentionDays,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
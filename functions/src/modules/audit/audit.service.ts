@@ -0,0 +1,110 @@
+import {
+  Firestore,
+  Query,
+  Timestamp
+} from 'firebase-admin/firestore';
+import { AuditLog, AuditService } from '../../shared/audit.service';
+import { ValidationError } from '../../shared/validation.middleware';
+import { DAY_MS } from '../../shared/dates';
+
+// Written on every read and list call; they make up most of the collection and lose their value quickly
+export const VIEW_ACTIONS = ['ACCOUNT_VIEW', 'CONTACT_VIEW', 'OPPORTUNITY_VIEW', 'PRODUCT_VIEW', 'TASK_VIEW'];
+
+// Firestore batches are limited to 500 writes
+const PRUNE_BATCH_SIZE = 400;
+
+export interface AuditLogFilters {
+  userId?: string;
+  action?: string;
+  resourceType?: string;
+  resourceId?: string;
+  result?: 'SUCCESS' | 'FAILURE';
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditLogEntry extends AuditLog {
+  id: string;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  nextCursor: string | null; // Id of the last entry, passed back to get the next page
+}
+
+export class AuditLogService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  /**
+   * Audit entries matching the filters, newest first. Each equality filter has its own
+   * index with metadata.timestamp, which Firestore merges when several are combined.
+   */
+  async getAuditLogs(filters: AuditLogFilters, limit: number, cursor?: string): Promise<AuditLogPage> {
+    let query: Query = this.db.collection('audit_logs');
+
+    if (filters.userId) query = query.where('userId', '==', filters.userId);
+    if (filters.action) query = query.where('action', '==', filters.action);
+    if (filters.resourceType) query = query.where('resourceType', '==', filters.resourceType);
+    if (filters.resourceId) query = query.where('resourceId', '==', filters.resourceId);
+    if (filters.result) query = query.where('result', '==', filters.result);
+    if (filters.from) query = query.where('metadata.timestamp', '>=', Timestamp.fromDate(filters.from));
+    if (filters.to) query = query.where('metadata.timestamp', '<=', Timestamp.fromDate(filters.to));
+
+    query = query.orderBy('metadata.timestamp', 'desc');
+
+    if (cursor) {
+      const cursorDoc = await this.db.collection('audit_logs').doc(cursor).get();
+      if (!cursorDoc.exists) {
+        throw new ValidationError('Invalid pagination cursor', [{ field: 'cursor', message: 'Entry not found' }]);
+      }
+      query = query.startAfter(cursorDoc);
+    }
+
+    // One extra entry tells whether there is another page
+    const snapshot = await query.limit(limit + 1).get();
+    const docs = snapshot.docs.slice(0, limit);
+
+    return {
+      entries: docs.map(doc => ({ id: doc.id, ...doc.data() } as AuditLogEntry)),
+      nextCursor: snapshot.size > limit ? docs[docs.length - 1].id : null
+    };
+  }
+
+  /**
+   * Delete VIEW entries older than the retention window; everything else is kept
+   */
+  async pruneViewLogs(retentionDays: number): Promise<number> {
+    const cutoff = Timestamp.fromMillis(Date.now() - retentionDays * DAY_MS);
+    let pruned = 0;
+    let batchSize: number;
+
+    do {
+      const snapshot = await this.db.collection('audit_logs')
+        .where('action', 'in', VIEW_ACTIONS)
+        .where('metadata.timestamp', '<', cutoff)
+        .limit(PRUNE_BATCH_SIZE)
+        .get();
+
+      const batch = this.db.batch();
+      snapshot.docs.forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+
+      batchSize = snapshot.size;
+      pruned += batchSize;
+    } while (batchSize === PRUNE_BATCH_SIZE);
+
+    await AuditService.log({
+      userId: 'system',
+      action: 'prune_view_logs',
+      resourceType: 'audit_logs',
+      resourceId: 'scheduled',
+      data: { retentionDays, pruned }
+    });
+
+    return pruned;
+  }
+}
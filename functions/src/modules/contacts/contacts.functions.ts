@@ -1,13 +1,16 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
-import { validateData, ValidationError } from '../../shared/validation.middleware';
-import { authenticateUser } from '../../shared/auth.middleware';
+import { validateData, ValidationError, commonSchemas } from '../../shared/validation.middleware';
+import { authenticateUser, requirePermission, AuthError, toHttpsAuthError } from '../../shared/auth.middleware';
 import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { StaleWriteError, toHttpsStaleWriteError } from '../../shared/errors';
+import { TeamsService } from '../teams/teams.service';
 import { ContactsService, ContactFilters, ContactsQueryOptions } from './contacts.service';
 import { z } from 'zod';
 
 const db = getFirestore();
 const contactsService = new ContactsService(db);
+const teamsService = new TeamsService(db);
 
 // Validation schemas
 const ContactFiltersSchema = z.object({
@@ -24,7 +27,8 @@ const ContactsQuerySchema = z.object({
   sortBy: z.enum(['name', 'email', 'position', 'contactType', 'lastContactDate', 'createdAt', 'updatedAt']).optional(),
   sortOrder: z.enum(['asc', 'desc']).optional(),
   limit: z.number().int().min(1).max(100).optional(),
-  offset: z.number().int().min(0).optional()
+  offset: z.number().int().min(0).optional(),
+  scope: commonSchemas.recordScope
 });
 
 const CreateContactSchema = z.object({
@@ -93,18 +97,21 @@ export const getContacts = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'contacts:read');
       
       // Apply rate limiting for read operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getContacts');
       
       const validatedData = validateData(ContactsQuerySchema, request.data);
 
+      const { scope, ...queryOptions } = validatedData;
+
       const options: ContactsQueryOptions = {
-        ...validatedData,
+        ...queryOptions,
         filters: {
-          ...validatedData.filters
-          // Removed ownerId filter - allow access to all contacts
-        }
+          ...queryOptions.filters
+        },
+        visibility: await teamsService.resolveVisibility(user, scope)
       };
 
       const result = await contactsService.getContacts(options);
@@ -119,6 +126,9 @@ export const getContacts = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       throw new HttpsError('internal', 'Failed to get contacts');
     }
   }
@@ -130,6 +140,7 @@ export const getContact = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'contacts:read');
       
       // Apply rate limiting for read operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getContact');
@@ -144,7 +155,7 @@ export const getContact = onCall(
         throw new HttpsError('not-found', 'Contact not found');
       }
 
-      // Removed ownership check - allow access to all contacts
+      await teamsService.assertCanView(user, 'contacts', contact);
 
       return {
         success: true,
@@ -155,6 +166,9 @@ export const getContact = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       throw new HttpsError('internal', 'Failed to get contact');
     }
   }
@@ -166,6 +180,7 @@ export const createContact = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'contacts:create');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'createContact');
@@ -182,6 +197,9 @@ export const createContact = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       if (error instanceof ValidationError) {
         console.error('Validation errors:', error.errors);
         throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
@@ -200,6 +218,7 @@ export const updateContact = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'contacts:update');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'updateContact');
@@ -215,12 +234,13 @@ export const updateContact = onCall(
       if (!existingContact) {
         throw new HttpsError('not-found', 'Contact not found');
       }
-      // Removed ownership check - allow updates to all contacts
-
+      await teamsService.assertCanView(user, 'contacts', existingContact);
+      const expectedRevision = validateData(commonSchemas.expectedRevision, request.data.expectedRevision);
       const updatedContact = await contactsService.updateContact(
         request.data.contactId,
         validatedData,
-        user.uid
+        user.uid,
+        expectedRevision
       );
 
       return {
@@ -232,6 +252,12 @@ export const updateContact = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
+      if (error instanceof StaleWriteError) {
+        throw toHttpsStaleWriteError(error);
+      }
       if (error instanceof ValidationError) {
         console.error('Validation errors:', error.errors);
         throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
@@ -250,6 +276,7 @@ export const deleteContact = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'contacts:delete');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'deleteContact');
@@ -263,8 +290,7 @@ export const deleteContact = onCall(
       if (!existingContact) {
         throw new HttpsError('not-found', 'Contact not found');
       }
-      // Removed ownership check - allow deletion of all contacts
-
+      await teamsService.assertCanView(user, 'contacts', existingContact);
       await contactsService.deleteContact(request.data.contactId, user.uid);
 
       return {
@@ -276,6 +302,9 @@ export const deleteContact = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       if (error instanceof ValidationError) {
         console.error('Validation errors:', error.errors);
         throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
@@ -294,6 +323,7 @@ export const getContactsStats = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'contacts:read');
       
       // Apply rate limiting for stats operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.stats.maxRequests, RateLimitPresets.stats.windowMs, 'getContactsStats');
@@ -304,7 +334,7 @@ export const getContactsStats = onCall(
         // Removed ownerId filter - allow stats for all contacts
       };
 
-      const stats = await contactsService.getContactsStats(filters);
+      const stats = await contactsService.getContactsStats(filters, await teamsService.resolveVisibility(user));
 
       return {
         success: true,
@@ -315,6 +345,9 @@ export const getContactsStats = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       throw new HttpsError('internal', 'Failed to get contacts statistics');
     }
   }
@@ -326,23 +359,27 @@ export const bulkUpdateContacts = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'contacts:bulkUpdate');
       
       // Apply rate limiting for heavy operations (bulk updates)
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.heavy.maxRequests, RateLimitPresets.heavy.windowMs, 'bulkUpdateContacts');
       
       const validatedData = validateData(BulkUpdateContactsSchema, request.data);
 
-      // Verify all contacts exist - removed ownership verification
+      // Verify all contacts exist; those outside the caller's visibility are dropped
+      const visibility = await teamsService.resolveVisibility(user);
+      const visibleUpdates: typeof validatedData.updates = [];
       for (const update of validatedData.updates) {
         const contact = await contactsService.getContact(update.id);
         if (!contact) {
           throw new HttpsError('not-found', `Contact not found: ${update.id}`);
         }
+        if (visibility.canView('contacts', contact)) {
+          visibleUpdates.push(update);
+        }
       }
-      // Removed ownership checks - allow bulk updates to all contacts
-
       const updatedContacts = await contactsService.bulkUpdateContacts(
-        validatedData.updates,
+        visibleUpdates,
         user.uid
       );
 
@@ -355,6 +392,9 @@ export const bulkUpdateContacts = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       if (error instanceof ValidationError) {
         console.error('Validation errors:', error.errors);
         throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
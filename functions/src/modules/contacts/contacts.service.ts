@@ -5,6 +5,12 @@ import {
 } from 'firebase-admin/firestore';
 import { Contact, ContactType } from '../../types';
 import { AuditService } from '../../shared/audit.service';
+import { isDeleted, excludeDeleted, softDeleteFields } from '../../shared/soft-delete';
+import { updateWithRevision, bumpRevision, getRevision } from '../../shared/concurrency';
+import { recordHistory } from '../../shared/record-history';
+import { getFilteredPage } from '../../shared/queries';
+import { WorkflowEngineService } from '../workflows/workflow-engine.service';
+import type { RecordVisibility } from '../teams/teams.service';
 
 export interface ContactFilters {
   ownerId?: string;
@@ -21,6 +27,7 @@ export interface ContactsQueryOptions {
   sortOrder?: 'asc' | 'desc';
   limit?: number;
   offset?: number;
+  visibility?: RecordVisibility;
 }
 
 export interface ContactsResponse {
@@ -39,9 +46,11 @@ export interface ContactStats {
 
 export class ContactsService {
   private db: Firestore;
+  private workflows: WorkflowEngineService;
 
   constructor(db: Firestore) {
     this.db = db;
+    this.workflows = new WorkflowEngineService(db);
   }
 
   async getContacts(options: ContactsQueryOptions = {}): Promise<ContactsResponse> {
@@ -50,7 +59,8 @@ export class ContactsService {
       sortBy = 'updatedAt',
       sortOrder = 'desc',
       limit = 50,
-      offset = 0
+      offset = 0,
+      visibility
     } = options;
 
     let query: Query = this.db.collection('contacts');
@@ -79,19 +89,13 @@ export class ContactsService {
     // Apply sorting
     query = query.orderBy(sortBy, sortOrder);
 
-    // Apply pagination
-    if (offset > 0) {
-      const offsetSnapshot = await query.limit(offset).get();
-      if (!offsetSnapshot.empty) {
-        const lastDoc = offsetSnapshot.docs[offsetSnapshot.docs.length - 1];
-        query = query.startAfter(lastDoc);
-      }
-    }
-
-    query = query.limit(limit + 1); // Get one extra to check if there are more
-
-    const snapshot = await query.get();
-    const contacts = snapshot.docs.slice(0, limit).map(doc => ({
+    // Trashed records and records outside the caller's visibility don't count towards the page
+    const page = await getFilteredPage(
+      query,
+      doc => !isDeleted(doc.data()) && (!visibility || visibility.canView('contacts', { id: doc.id, ...doc.data() })),
+      { limit, offset }
+    );
+    const contacts = page.docs.map(doc => ({
       id: doc.id,
       ...doc.data()
     })) as Contact[];
@@ -100,7 +104,7 @@ export class ContactsService {
     let filteredContacts = contacts;
     if (filters.search) {
       const searchLower = filters.search.toLowerCase();
-      filteredContacts = contacts.filter(contact =>
+      filteredContacts = filteredContacts.filter(contact =>
         contact.name?.toLowerCase().includes(searchLower) ||
         contact.email?.toLowerCase().includes(searchLower) ||
         contact.position?.toLowerCase().includes(searchLower) ||
@@ -110,20 +114,23 @@ export class ContactsService {
 
     // Get total count for pagination
     const totalQuery = this.buildFilterQuery(filters);
-    const totalSnapshot = await totalQuery.count().get();
-    const total = totalSnapshot.data().count;
+    const totalSnapshot = await totalQuery.select('deletedAt', 'ownerId', 'accountId').get();
+    const totalDocs = totalSnapshot.docs
+      .filter(doc => !isDeleted(doc.data()))
+      .map(doc => ({ id: doc.id, ...doc.data() }));
+    const total = visibility ? visibility.filter('contacts', totalDocs).length : totalDocs.length;
 
     return {
       contacts: filteredContacts,
       total,
-      hasMore: snapshot.docs.length > limit
+      hasMore: page.hasMore
     };
   }
 
   async getContact(contactId: string): Promise<Contact | null> {
     const doc = await this.db.collection('contacts').doc(contactId).get();
     
-    if (!doc.exists) {
+    if (!doc.exists || isDeleted(doc.data())) {
       return null;
     }
 
@@ -152,7 +159,7 @@ export class ContactsService {
       .where('email', '==', contactData.email)
       .get();
 
-    if (!existingContacts.empty) {
+    if (existingContacts.docs.some(doc => !isDeleted(doc.data()))) {
       throw new Error('A contact with this email already exists');
     }
 
@@ -179,14 +186,16 @@ export class ContactsService {
       data: { contactName: contact.name, accountId: contact.accountId }
     });
 
+    await this.workflows.onRecordWritten('contact', docRef.id, null, contact, userId);
+
     return newContact;
   }
 
-  async updateContact(contactId: string, updates: Partial<Contact>, userId: string): Promise<Contact> {
+  async updateContact(contactId: string, updates: Partial<Contact>, userId: string, expectedRevision?: number): Promise<Contact> {
     const contactRef = this.db.collection('contacts').doc(contactId);
     const doc = await contactRef.get();
 
-    if (!doc.exists) {
+    if (!doc.exists || isDeleted(doc.data())) {
       throw new Error('Contact not found');
     }
 
@@ -198,7 +207,7 @@ export class ContactsService {
         .where('email', '==', updates.email)
         .get();
 
-      if (!emailCheck.empty && emailCheck.docs[0].id !== contactId) {
+      if (emailCheck.docs.some(doc => doc.id !== contactId && !isDeleted(doc.data()))) {
         throw new Error('A contact with this email already exists');
       }
     }
@@ -215,12 +224,16 @@ export class ContactsService {
       }
     });
 
-    await contactRef.update(updateData);
+    const { revision } = await updateWithRevision(this.db, contactRef, 'Contact', expectedRevision, userId, () => ({
+      updates: updateData,
+      result: null
+    }));
 
     const updatedContact = {
       ...existingContact,
       ...updateData,
-      id: contactId
+      id: contactId,
+      revision
     } as Contact;
 
     // Audit log
@@ -235,6 +248,8 @@ export class ContactsService {
       }
     });
 
+    await this.workflows.onRecordWritten('contact', contactId, existingContact, updatedContact, userId);
+
     return updatedContact;
   }
 
@@ -242,7 +257,7 @@ export class ContactsService {
     const contactRef = this.db.collection('contacts').doc(contactId);
     const doc = await contactRef.get();
 
-    if (!doc.exists) {
+    if (!doc.exists || isDeleted(doc.data())) {
       throw new Error('Contact not found');
     }
 
@@ -253,11 +268,12 @@ export class ContactsService {
       .where('contactIds', 'array-contains', contactId)
       .get();
 
-    if (!opportunitiesQuery.empty) {
+    if (opportunitiesQuery.docs.some(opportunityDoc => !isDeleted(opportunityDoc.data()))) {
       throw new Error('Cannot delete contact: contact is referenced by opportunities');
     }
 
-    await contactRef.delete();
+    // Soft delete - the contact stays in the trash until restored or purged
+    await contactRef.update(softDeleteFields(userId));
 
     // Audit log
     await AuditService.log({
@@ -269,10 +285,11 @@ export class ContactsService {
     });
   }
 
-  async getContactsStats(filters: ContactFilters = {}): Promise<ContactStats> {
+  async getContactsStats(filters: ContactFilters = {}, visibility?: RecordVisibility): Promise<ContactStats> {
     const query = this.buildFilterQuery(filters);
     const snapshot = await query.get();
-    const contacts = snapshot.docs.map(doc => doc.data()) as Contact[];
+    const live = excludeDeleted(snapshot.docs.map(doc => doc.data()) as Contact[]);
+    const contacts = visibility ? visibility.filter('contacts', live) : live;
 
     const stats: ContactStats = {
       total: contacts.length,
@@ -321,22 +338,25 @@ export class ContactsService {
   async bulkUpdateContacts(updates: Array<{ id: string; data: Partial<Contact> }>, userId: string): Promise<Contact[]> {
     const batch = this.db.batch();
     const updatedContacts: Contact[] = [];
+    const previousContacts = new Map<string, Contact>();
 
     for (const update of updates) {
       const contactRef = this.db.collection('contacts').doc(update.id);
       const doc = await contactRef.get();
 
-      if (!doc.exists) {
+      if (!doc.exists || isDeleted(doc.data())) {
         continue;
       }
 
       const existingContact = doc.data() as Contact;
+      previousContacts.set(update.id, existingContact);
       const updateData = {
         ...update.data,
         updatedAt: Timestamp.now()
       };
 
-      batch.update(contactRef, updateData);
+      batch.update(contactRef, { ...updateData, ...bumpRevision() });
+      recordHistory(batch, contactRef, existingContact, updateData, getRevision(existingContact) + 1, userId, { action: 'bulk_update' });
 
       updatedContacts.push({
         ...existingContact,
@@ -356,6 +376,11 @@ export class ContactsService {
       data: { count: updates.length }
     });
 
+    for (const updatedContact of updatedContacts) {
+      const id = updatedContact.id!;
+      await this.workflows.onRecordWritten('contact', id, previousContacts.get(id)!, updatedContact, userId);
+    }
+
     return updatedContacts;
   }
 
@@ -1,13 +1,14 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { logger } from 'firebase-functions';
 import { getFirestore } from 'firebase-admin/firestore';
-import { authenticateUser } from '../../shared/auth.middleware';
+import { authenticateUser, requirePermission, AuthError, toHttpsAuthError } from '../../shared/auth.middleware';
 import { AccountsService } from '../accounts/accounts.service';
 import { ContactsService } from '../contacts/contacts.service';
 import { OpportunitiesService } from '../opportunities/opportunities.service';
 import { ProductsService } from '../products/products.service';
 import { TasksService } from '../tasks/tasks.service';
 import { UsersService } from '../users/users.service';
+import { TeamsService } from '../teams/teams.service';
 import { z } from 'zod';
 
 // Input validation schema
@@ -18,7 +19,8 @@ const batchLoadDataSchema = z.object({
   includeProducts: z.boolean().optional().default(true),
   includeTasks: z.boolean().optional().default(true),
   includeUsers: z.boolean().optional().default(true),
-  limit: z.number().min(1).max(1000).optional().default(100)
+  limit: z.number().min(1).max(1000).optional().default(100),
+  scope: z.enum(['all', 'territory', 'team', 'mine']).optional().default('all')
 });
 
 // Simple validation function
@@ -62,6 +64,7 @@ export const batchLoadDashboardData = onCall(
     try {
       // Authenticate user
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'dashboard:read');
       logger.info('Batch loading dashboard data', { 
         userId: user.uid,
         userEmail: user.email,
@@ -78,6 +81,7 @@ export const batchLoadDashboardData = onCall(
       const productsService = new ProductsService(db);
       const tasksService = new TasksService(db);
       const usersService = new UsersService(db);
+      const visibility = await new TeamsService(db).resolveVisibility(user, validatedData.scope);
 
       // Prepare parallel data loading promises
       const dataPromises: Promise<any>[] = [];
@@ -86,21 +90,24 @@ export const batchLoadDashboardData = onCall(
       if (validatedData.includeAccounts) {
         dataPromises.push(AccountsService.getAccounts({ 
           userId: user.uid,
-          limit: validatedData.limit 
+          limit: validatedData.limit,
+          visibility
         }));
         dataKeys.push('accounts');
       }
 
       if (validatedData.includeContacts) {
         dataPromises.push(contactsService.getContacts({ 
-          limit: validatedData.limit 
+          limit: validatedData.limit,
+          visibility
         }));
         dataKeys.push('contacts');
       }
 
       if (validatedData.includeOpportunities) {
         dataPromises.push(opportunitiesService.getOpportunities({ 
-          limit: validatedData.limit 
+          limit: validatedData.limit,
+          visibility
         }));
         dataKeys.push('opportunities');
       }
@@ -115,7 +122,7 @@ export const batchLoadDashboardData = onCall(
       if (validatedData.includeTasks) {
         dataPromises.push(tasksService.getTasks({ 
           limit: validatedData.limit 
-        }));
+        }).then(result => ({ ...result, tasks: visibility.filter('tasks', result.tasks) })));
         dataKeys.push('tasks');
       }
 
@@ -194,6 +201,9 @@ export const batchLoadDashboardData = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
 
       throw new HttpsError(
         'internal',
@@ -221,6 +231,7 @@ export const getRecentItems = onCall(
     try {
       // Authenticate user
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'dashboard:read');
       logger.info('Getting recent items', { 
         userId: user.uid,
         userEmail: user.email,
@@ -235,6 +246,7 @@ export const getRecentItems = onCall(
       const contactsService = new ContactsService(db);
       const opportunitiesService = new OpportunitiesService(db);
       const productsService = new ProductsService(db);
+      const visibility = await new TeamsService(db).resolveVisibility(user);
 
       const allItems: any[] = [];
 
@@ -242,7 +254,8 @@ export const getRecentItems = onCall(
         // Get recent accounts (static method)
         const accountsResponse = await AccountsService.getAccounts({ 
           userId: user.uid,
-          limit 
+          limit,
+          visibility
         });
         const accountItems = accountsResponse.accounts.map((item: any) => ({
           id: item.id,
@@ -260,7 +273,8 @@ export const getRecentItems = onCall(
       try {
         // Get recent contacts
         const contactsResponse = await contactsService.getContacts({ 
-          limit 
+          limit,
+          visibility
         });
         const contactItems = contactsResponse.contacts.map((item: any) => ({
           id: item.id,
@@ -278,7 +292,8 @@ export const getRecentItems = onCall(
       try {
         // Get recent opportunities
         const opportunitiesResponse = await opportunitiesService.getOpportunities({ 
-          limit 
+          limit,
+          visibility
         });
         const opportunityItems = opportunitiesResponse.opportunities.map((item: any) => ({
           id: item.id,
@@ -333,6 +348,9 @@ export const getRecentItems = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
 
       throw new HttpsError(
         'internal',
@@ -0,0 +1,140 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { authenticateUser, requirePermission } from '../../shared/auth.middleware';
+import { validateData, commonSchemas } from '../../shared/validation.middleware';
+import { withErrorHandling } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { DuplicatesService } from './duplicates.service';
+import { TeamsService } from '../teams/teams.service';
+import { z } from 'zod';
+
+const mergeSchema = z.object({
+  winnerId: commonSchemas.id,
+  loserIds: z.array(commonSchemas.id).min(1).max(20)
+});
+
+const getDuplicatesService = () => new DuplicatesService(getFirestore());
+
+/**
+ * Find accounts that are likely duplicates of each other
+ */
+export const findDuplicateAccounts = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'accounts:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.heavy.maxRequests, RateLimitPresets.heavy.windowMs, 'findDuplicateAccounts');
+
+    const visibility = await new TeamsService(getFirestore()).resolveVisibility(user);
+    const groups = await getDuplicatesService().findDuplicateAccounts(visibility);
+
+    return { groups };
+  }, { functionName: 'findDuplicateAccounts', action: 'ACCOUNT_FIND_DUPLICATES' })
+);
+
+/**
+ * Find contacts that are likely duplicates of each other
+ */
+export const findDuplicateContacts = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'contacts:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.heavy.maxRequests, RateLimitPresets.heavy.windowMs, 'findDuplicateContacts');
+
+    const visibility = await new TeamsService(getFirestore()).resolveVisibility(user);
+    const groups = await getDuplicatesService().findDuplicateContacts(visibility);
+
+    return { groups };
+  }, { functionName: 'findDuplicateContacts', action: 'CONTACT_FIND_DUPLICATES' })
+);
+
+/**
+ * Merge duplicate accounts into a surviving account
+ */
+export const mergeAccounts = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'accounts:merge');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'mergeAccounts');
+
+    const { winnerId, loserIds } = validateData(mergeSchema, request.data);
+
+    const teamsService = new TeamsService(getFirestore());
+    for (const id of [winnerId, ...loserIds]) {
+      await teamsService.assertCanViewById(user, 'accounts', id);
+    }
+
+    return await getDuplicatesService().mergeAccounts(winnerId, loserIds, user.uid, user.email);
+  }, { functionName: 'mergeAccounts', action: 'ACCOUNT_MERGE' })
+);
+
+/**
+ * Merge duplicate contacts into a surviving contact
+ */
+export const mergeContacts = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'contacts:merge');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'mergeContacts');
+
+    const { winnerId, loserIds } = validateData(mergeSchema, request.data);
+
+    const teamsService = new TeamsService(getFirestore());
+    for (const id of [winnerId, ...loserIds]) {
+      await teamsService.assertCanViewById(user, 'contacts', id);
+    }
+
+    return await getDuplicatesService().mergeContacts(winnerId, loserIds, user.uid, user.email);
+  }, { functionName: 'mergeContacts', action: 'CONTACT_MERGE' })
+);
+
+/**
+ * Resolve the surviving record for an ID that was merged away
+ */
+export const getRecordRedirect = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+
+    const { collection, id } = validateData(
+      z.object({
+        collection: z.enum(['accounts', 'contacts']),
+        id: commonSchemas.id
+      }),
+      request.data
+    );
+
+    requirePermission(user, `${collection}:read`);
+
+    const redirect = await getDuplicatesService().getRedirect(collection, id);
+
+    return { redirect };
+  }, { functionName: 'getRecordRedirect', action: 'RECORD_REDIRECT' })
+);
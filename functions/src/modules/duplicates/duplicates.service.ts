@@ -0,0 +1,456 @@
+import {
+  Firestore,
+  Timestamp,
+  FieldValue,
+  DocumentReference
+} from 'firebase-admin/firestore';
+import { AuditService } from '../../shared/audit.service';
+import { NotFoundError, BusinessLogicError } from '../../shared/errors';
+import { isDeleted, softDeleteFields } from '../../shared/soft-delete';
+import { bumpRevision, getRevision } from '../../shared/concurrency';
+import { recordHistory } from '../../shared/record-history';
+import type { RecordVisibility } from '../teams/teams.service';
+import {
+  NAME_SIMILARITY_THRESHOLD,
+  normalizeCompanyName,
+  normalizePersonName,
+  normalizeEmail,
+  extractDomain,
+  stringSimilarity,
+  candidatePairs,
+  companyNameBlockKeys
+} from '../../shared/duplicate-matching';
+
+export type MergeableCollection = 'accounts' | 'contacts';
+
+export type DuplicateReason = 'same_name' | 'similar_name' | 'same_website' | 'same_email' | 'same_name_and_account';
+
+export interface AccountDuplicateRecord {
+  id: string;
+  name: string;
+  website?: string;
+  region?: string;
+  ownerId?: string;
+  tags: string[];
+  contactCount: number;
+  productCount: number;
+  opportunityCount: number;
+  createdAt?: Timestamp;
+}
+
+export interface ContactDuplicateRecord {
+  id: string;
+  name: string;
+  email: string;
+  accountId: string;
+  position?: string;
+  ownerId?: string;
+  productIds: string[];
+  opportunityCount: number;
+  createdAt?: Timestamp;
+}
+
+export interface DuplicateGroup<T> {
+  records: T[];
+  reasons: DuplicateReason[];
+  score: number; // Highest pairwise match score within the group, 0-1
+}
+
+export interface RecordRedirect {
+  collection: MergeableCollection;
+  fromId: string;
+  toId: string;
+  mergedAt: Timestamp;
+  mergedBy: string;
+}
+
+export interface MergeResult {
+  winnerId: string;
+  mergedIds: string[];
+  updatedReferences: number;
+}
+
+// Firestore batches are atomic up to 500 writes
+const MAX_BATCH_WRITES = 500;
+
+type UpdateFields = FirebaseFirestore.UpdateData<FirebaseFirestore.DocumentData>;
+
+interface PairMatch {
+  a: number;
+  b: number;
+  reason: DuplicateReason;
+  score: number;
+}
+
+export class DuplicatesService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  /**
+   * Find groups of accounts that are likely the same company, by normalized name and website domain,
+   * among the accounts the caller may see
+   */
+  async findDuplicateAccounts(visibility?: RecordVisibility): Promise<DuplicateGroup<AccountDuplicateRecord>[]> {
+    const [accountsSnap, contactsSnap, productsSnap, opportunitiesSnap] = await Promise.all([
+      this.db.collection('accounts').get(),
+      this.db.collection('contacts').select('accountId', 'deletedAt').get(),
+      this.db.collection('products').select('accountId', 'deletedAt').get(),
+      this.db.collection('opportunities').select('accountId', 'deletedAt').get()
+    ]);
+
+    const countByAccount = (snapshot: FirebaseFirestore.QuerySnapshot) => {
+      const counts = new Map<string, number>();
+      snapshot.docs.forEach(doc => {
+        const data = doc.data();
+        if (isDeleted(data) || !data.accountId) return;
+        counts.set(data.accountId, (counts.get(data.accountId) || 0) + 1);
+      });
+      return counts;
+    };
+    const contactCounts = countByAccount(contactsSnap);
+    const productCounts = countByAccount(productsSnap);
+    const opportunityCounts = countByAccount(opportunitiesSnap);
+
+    const allRecords: AccountDuplicateRecord[] = accountsSnap.docs
+      .filter(doc => !isDeleted(doc.data()))
+      .map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          name: data.name,
+          website: data.website,
+          region: data.region,
+          ownerId: data.ownerId,
+          tags: data.tags || [],
+          contactCount: contactCounts.get(doc.id) || 0,
+          productCount: productCounts.get(doc.id) || 0,
+          opportunityCount: opportunityCounts.get(doc.id) || 0,
+          createdAt: data.createdAt
+        };
+      });
+    const records = visibility ? visibility.filter('accounts', allRecords) : allRecords;
+
+    const names = records.map(record => normalizeCompanyName(record.name));
+    const domains = records.map(record => extractDomain(record.website));
+
+    // Only accounts sharing a domain or a name block are compared
+    const pairs = candidatePairs(records.map((_, index) => [
+      domains[index] ? `domain:${domains[index]}` : '',
+      ...companyNameBlockKeys(names[index])
+    ]));
+
+    const matches: PairMatch[] = [];
+    pairs.forEach(([a, b]) => {
+      if (domains[a] && domains[a] === domains[b]) {
+        matches.push({ a, b, reason: 'same_website', score: 1 });
+      }
+      if (names[a] && names[a] === names[b]) {
+        matches.push({ a, b, reason: 'same_name', score: 1 });
+      } else {
+        const similarity = stringSimilarity(names[a], names[b]);
+        if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+          matches.push({ a, b, reason: 'similar_name', score: similarity });
+        }
+      }
+    });
+
+    return this.groupMatches(records, matches);
+  }
+
+  /**
+   * Find groups of contacts that are likely the same person, by email or by name within the same account,
+   * among the contacts the caller may see
+   */
+  async findDuplicateContacts(visibility?: RecordVisibility): Promise<DuplicateGroup<ContactDuplicateRecord>[]> {
+    const [contactsSnap, opportunitiesSnap] = await Promise.all([
+      this.db.collection('contacts').get(),
+      this.db.collection('opportunities').select('contactIds', 'deletedAt').get()
+    ]);
+
+    const opportunityCounts = new Map<string, number>();
+    opportunitiesSnap.docs.forEach(doc => {
+      const data = doc.data();
+      if (isDeleted(data)) return;
+      (data.contactIds || []).forEach((contactId: string) => {
+        opportunityCounts.set(contactId, (opportunityCounts.get(contactId) || 0) + 1);
+      });
+    });
+
+    const allRecords: ContactDuplicateRecord[] = contactsSnap.docs
+      .filter(doc => !isDeleted(doc.data()))
+      .map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          name: data.name,
+          email: data.email,
+          accountId: data.accountId,
+          position: data.position,
+          ownerId: data.ownerId,
+          productIds: data.productIds || [],
+          opportunityCount: opportunityCounts.get(doc.id) || 0,
+          createdAt: data.createdAt
+        };
+      });
+    const records = visibility ? visibility.filter('contacts', allRecords) : allRecords;
+
+    const emails = records.map(record => normalizeEmail(record.email));
+    const names = records.map(record => normalizePersonName(record.name));
+
+    // Both rules are exact matches, so the keys themselves are the blocks
+    const pairs = candidatePairs(records.map((record, index) => [
+      emails[index] ? `email:${emails[index]}` : '',
+      names[index] ? `name:${record.accountId}:${names[index]}` : ''
+    ]));
+
+    const matches: PairMatch[] = [];
+    pairs.forEach(([a, b]) => {
+      if (emails[a] && emails[a] === emails[b]) {
+        matches.push({ a, b, reason: 'same_email', score: 1 });
+      }
+      if (names[a] && names[a] === names[b] && records[a].accountId === records[b].accountId) {
+        matches.push({ a, b, reason: 'same_name_and_account', score: 0.9 });
+      }
+    });
+
+    return this.groupMatches(records, matches);
+  }
+
+  /**
+   * Merge accounts into a surviving account: dependents are re-pointed, tags are unioned,
+   * and each merged account is trashed with a redirect to the survivor.
+   */
+  async mergeAccounts(winnerId: string, loserIds: string[], userId: string, userEmail?: string): Promise<MergeResult> {
+    const { winner, losers } = await this.loadMergeRecords('accounts', winnerId, loserIds);
+
+    const writes = new Map<string, { ref: DocumentReference; data: UpdateFields }>();
+    const now = Timestamp.now();
+
+    // Re-point everything that hangs off the merged accounts, including trashed records so they restore correctly.
+    // Tasks and assignments carrying an accountId follow too, so none is left on the merged-away account.
+    for (const collection of ['contacts', 'products', 'opportunities', 'assignments', 'tasks']) {
+      for (const loser of losers) {
+        const snapshot = await this.db.collection(collection).where('accountId', '==', loser.id).get();
+        snapshot.docs.forEach(doc => {
+          writes.set(doc.ref.path, { ref: doc.ref, data: { accountId: winnerId, updatedAt: now } });
+        });
+      }
+    }
+
+    // Child accounts move under the survivor; the survivor itself must not end up as its own parent
+    for (const loser of losers) {
+      const snapshot = await this.db.collection('accounts').where('parentAccountId', '==', loser.id).get();
+      snapshot.docs
+        .filter(doc => doc.id !== winnerId && !loserIds.includes(doc.id))
+        .forEach(doc => {
+          writes.set(doc.ref.path, { ref: doc.ref, data: { parentAccountId: winnerId, updatedAt: now } });
+        });
+    }
+
+    const tags = Array.from(new Set([
+      ...(winner.data.tags || []),
+      ...losers.flatMap(loser => loser.data.tags || [])
+    ]));
+    const winnerUpdate: UpdateFields = { tags, updatedAt: now, updatedBy: userId };
+    if (loserIds.includes(winner.data.parentAccountId)) {
+      winnerUpdate.parentAccountId = FieldValue.delete();
+    }
+
+    const updatedReferences = writes.size;
+    await this.commitMerge('accounts', winner, winnerUpdate, losers, writes, userId);
+
+    await AuditService.log({
+      userId,
+      userEmail,
+      action: 'merge',
+      resourceType: 'account',
+      resourceId: winnerId,
+      data: {
+        name: winner.data.name,
+        mergedIds: loserIds,
+        mergedNames: losers.map(loser => loser.data.name),
+        updatedReferences
+      }
+    });
+
+    return { winnerId, mergedIds: loserIds, updatedReferences };
+  }
+
+  /**
+   * Merge contacts into a surviving contact: opportunity and product links are re-pointed,
+   * productIds are unioned, and each merged contact is trashed with a redirect to the survivor.
+   */
+  async mergeContacts(winnerId: string, loserIds: string[], userId: string, userEmail?: string): Promise<MergeResult> {
+    const { winner, losers } = await this.loadMergeRecords('contacts', winnerId, loserIds);
+
+    const writes = new Map<string, { ref: DocumentReference; data: UpdateFields }>();
+    const now = Timestamp.now();
+
+    // Opportunities and products reference contacts through a contactIds array
+    for (const collection of ['opportunities', 'products']) {
+      const docs = new Map<string, FirebaseFirestore.QueryDocumentSnapshot>();
+      for (const loser of losers) {
+        const snapshot = await this.db.collection(collection).where('contactIds', 'array-contains', loser.id).get();
+        snapshot.docs.forEach(doc => docs.set(doc.id, doc));
+      }
+
+      docs.forEach(doc => {
+        const contactIds: string[] = doc.data().contactIds || [];
+        const repointed = Array.from(new Set(contactIds.map(id => (loserIds.includes(id) ? winnerId : id))));
+        writes.set(doc.ref.path, { ref: doc.ref, data: { contactIds: repointed, updatedAt: now } });
+      });
+    }
+
+    const productIds = Array.from(new Set([
+      ...(winner.data.productIds || []),
+      ...losers.flatMap(loser => loser.data.productIds || [])
+    ]));
+
+    const updatedReferences = writes.size;
+    await this.commitMerge('contacts', winner, { productIds, updatedAt: now }, losers, writes, userId);
+
+    await AuditService.log({
+      userId,
+      userEmail,
+      action: 'merge',
+      resourceType: 'contact',
+      resourceId: winnerId,
+      data: {
+        contactName: winner.data.name,
+        mergedIds: loserIds,
+        mergedEmails: losers.map(loser => loser.data.email),
+        updatedReferences
+      }
+    });
+
+    return { winnerId, mergedIds: loserIds, updatedReferences };
+  }
+
+  /**
+   * Look up where a merged record now lives
+   */
+  async getRedirect(collection: MergeableCollection, id: string): Promise<RecordRedirect | null> {
+    const doc = await this.db.collection('record_redirects').doc(this.redirectId(collection, id)).get();
+    return doc.exists ? (doc.data() as RecordRedirect) : null;
+  }
+
+  private async loadMergeRecords(collection: MergeableCollection, winnerId: string, loserIds: string[]) {
+    if (new Set(loserIds).size !== loserIds.length) {
+      throw new BusinessLogicError('Each record can only be merged once');
+    }
+    if (loserIds.length === 0) {
+      throw new BusinessLogicError('Select at least one record to merge');
+    }
+    if (loserIds.includes(winnerId)) {
+      throw new BusinessLogicError('A record cannot be merged into itself');
+    }
+
+    const resourceType = collection === 'accounts' ? 'account' : 'contact';
+    const ids = [winnerId, ...loserIds];
+    const docs = await Promise.all(ids.map(id => this.db.collection(collection).doc(id).get()));
+
+    const records = docs.map((doc, index) => {
+      if (!doc.exists || isDeleted(doc.data())) {
+        throw new NotFoundError(resourceType, ids[index]);
+      }
+      return { id: doc.id, ref: doc.ref, data: doc.data()! };
+    });
+
+    return { winner: records[0], losers: records.slice(1) };
+  }
+
+  private async commitMerge(
+    collection: MergeableCollection,
+    winner: { ref: DocumentReference; data: FirebaseFirestore.DocumentData },
+    winnerUpdate: UpdateFields,
+    losers: Array<{ id: string; ref: DocumentReference }>,
+    writes: Map<string, { ref: DocumentReference; data: UpdateFields }>,
+    userId: string
+  ): Promise<void> {
+    const now = Timestamp.now();
+    const loserIds = losers.map(loser => loser.id);
+
+    // Redirects that pointed at a record being merged now point at the survivor
+    const chainedRedirects: FirebaseFirestore.QueryDocumentSnapshot[] = [];
+    for (let i = 0; i < loserIds.length; i += 30) {
+      const snapshot = await this.db.collection('record_redirects')
+        .where('collection', '==', collection)
+        .where('toId', 'in', loserIds.slice(i, i + 30))
+        .get();
+      chainedRedirects.push(...snapshot.docs);
+    }
+
+    const writeCount = writes.size + chainedRedirects.length + 2 + losers.length * 2;
+    if (writeCount > MAX_BATCH_WRITES) {
+      throw new BusinessLogicError(
+        `Merge touches too many records to process in one operation (${writeCount} writes, max ${MAX_BATCH_WRITES})`,
+        { writeCount }
+      );
+    }
+
+    const batch = this.db.batch();
+    const winnerId = winner.ref.id;
+
+    writes.forEach(({ ref, data }) => batch.update(ref, { ...data, ...bumpRevision() }));
+    chainedRedirects.forEach(doc => batch.update(doc.ref, { toId: winnerId }));
+    batch.update(winner.ref, { ...winnerUpdate, ...bumpRevision() });
+    recordHistory(batch, winner.ref, winner.data, winnerUpdate, getRevision(winner.data) + 1, userId, { action: 'merge' });
+
+    losers.forEach(loser => {
+      batch.update(loser.ref, { ...softDeleteFields(userId), mergedInto: winnerId });
+      batch.set(this.db.collection('record_redirects').doc(this.redirectId(collection, loser.id)), {
+        collection,
+        fromId: loser.id,
+        toId: winnerId,
+        mergedAt: now,
+        mergedBy: userId
+      } as RecordRedirect);
+    });
+
+    await batch.commit();
+  }
+
+  private redirectId(collection: MergeableCollection, id: string): string {
+    return `${collection}_${id}`;
+  }
+
+  /**
+   * Collapse pairwise matches into connected groups
+   */
+  private groupMatches<T>(records: T[], matches: PairMatch[]): DuplicateGroup<T>[] {
+    const parent = records.map((_, index) => index);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+
+    matches.forEach(({ a, b }) => {
+      parent[find(a)] = find(b);
+    });
+
+    const groups = new Map<number, { members: Set<number>; reasons: Set<DuplicateReason>; score: number }>();
+    matches.forEach(({ a, b, reason, score }) => {
+      const root = find(a);
+      const group = groups.get(root) || { members: new Set<number>(), reasons: new Set<DuplicateReason>(), score: 0 };
+      group.members.add(a);
+      group.members.add(b);
+      group.reasons.add(reason);
+      group.score = Math.max(group.score, score);
+      groups.set(root, group);
+    });
+
+    return Array.from(groups.values())
+      .map(group => ({
+        records: Array.from(group.members).sort((x, y) => x - y).map(index => records[index]),
+        reasons: Array.from(group.reasons),
+        score: Math.round(group.score * 100) / 100
+      }))
+      .sort((x, y) => y.score - x.score || y.records.length - x.records.length);
+  }
+}
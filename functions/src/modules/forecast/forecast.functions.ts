@@ -0,0 +1,158 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getFirestore } from 'firebase-admin/firestore';
+import { authenticateUser, requirePermission } from '../../shared/auth.middleware';
+import { validateData, commonSchemas } from '../../shared/validation.middleware';
+import { withErrorHandling } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { TeamsService } from '../teams/teams.service';
+import { ForecastService } from './forecast.service';
+import { z } from 'zod';
+
+const weightSchema = z.number().min(0).max(100);
+
+const forecastOptionsSchema = z.object({
+  periodType: z.enum(['month', 'quarter']).default('month'),
+  periods: z.number().int().min(1).max(12).default(6),
+  ownerId: z.string().optional()
+});
+
+const saveSettingsSchema = z.object({
+  stageWeights: z.object({
+    'Lead': weightSchema,
+    'Qualified': weightSchema,
+    'Proposal': weightSchema,
+    'Negotiation': weightSchema,
+    'Closed-Won': weightSchema,
+    'Closed-Lost': weightSchema
+  })
+});
+
+const getSnapshotsSchema = z.object({
+  limit: z.number().int().min(1).max(104).default(26)
+});
+
+const compareSchema = forecastOptionsSchema.extend({
+  snapshotId: commonSchemas.id
+});
+
+const getService = () => new ForecastService(getFirestore());
+
+/**
+ * Closed-won, commit, best-case, pipeline and weighted value per month or quarter,
+ * by expected close date
+ */
+export const getForecast = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.stats.maxRequests, RateLimitPresets.stats.windowMs, 'getForecast');
+
+    const options = validateData(forecastOptionsSchema, request.data || {});
+    const visibility = await new TeamsService(getFirestore()).resolveVisibility(user);
+
+    return await getService().getForecast({ ...options, visibility });
+  }, { functionName: 'getForecast', action: 'FORECAST_GET' })
+);
+
+/**
+ * Probability weight per stage used for the weighted forecast
+ */
+export const getForecastSettings = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getForecastSettings');
+
+    return await getService().getSettings();
+  }, { functionName: 'getForecastSettings', action: 'FORECAST_SETTINGS_GET' })
+);
+
+/**
+ * Replace the stage weights; snapshots keep the weights they were taken with
+ */
+export const saveForecastSettings = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'forecast:manage');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'saveForecastSettings');
+
+    const { stageWeights } = validateData(saveSettingsSchema, request.data);
+
+    return await getService().saveSettings(stageWeights, user.uid, user.email);
+  }, { functionName: 'saveForecastSettings', action: 'FORECAST_SETTINGS_SAVE' })
+);
+
+/**
+ * Dates the forecast was snapshotted, newest first
+ */
+export const getForecastSnapshots = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getForecastSnapshots');
+
+    const { limit } = validateData(getSnapshotsSchema, request.data || {});
+
+    return { snapshots: await getService().getSnapshots(limit) };
+  }, { functionName: 'getForecastSnapshots', action: 'FORECAST_SNAPSHOTS_LIST' })
+);
+
+/**
+ * The forecast as of a snapshot next to today's, and the deals whose close date has slipped since
+ */
+export const getForecastComparison = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.stats.maxRequests, RateLimitPresets.stats.windowMs, 'getForecastComparison');
+
+    const { snapshotId, ...options } = validateData(compareSchema, request.data);
+    const visibility = await new TeamsService(getFirestore()).resolveVisibility(user);
+
+    return await getService().compareWithSnapshot(snapshotId, { ...options, visibility });
+  }, { functionName: 'getForecastComparison', action: 'FORECAST_COMPARE' })
+);
+
+export const snapshotForecast = onSchedule({
+  schedule: '0 5 * * 1', // Every Monday at 05:00 UTC
+  timeZone: 'UTC',
+  region: 'us-central1',
+  memory: '512MiB',
+  timeoutSeconds: 540,
+}, async () => {
+  const startTime = Date.now();
+  const { id, deals } = await getService().takeSnapshot();
+
+  console.log(`Forecast snapshot ${id}: ${deals} deals in ${Date.now() - startTime}ms`);
+});
@@ -0,0 +1,374 @@
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { Opportunity, OpportunityStage } from '../../types';
+import { AuditService } from '../../shared/audit.service';
+import { NotFoundError } from '../../shared/errors';
+import { excludeDeleted } from '../../shared/soft-delete';
+import { isoDay, readDate } from '../../shared/dates';
+import type { RecordVisibility } from '../teams/teams.service';
+
+export const FORECAST_CATEGORIES = ['commit', 'best_case', 'pipeline'] as const;
+export type ForecastCategory = typeof FORECAST_CATEGORIES[number];
+
+export type ForecastPeriodType = 'month' | 'quarter';
+
+const OPEN_STAGES: OpportunityStage[] = ['Lead', 'Qualified', 'Proposal', 'Negotiation'];
+
+export const DEFAULT_STAGE_WEIGHTS: Record<OpportunityStage, number> = {
+  'Lead': 10,
+  'Qualified': 25,
+  'Proposal': 50,
+  'Negotiation': 75,
+  'Closed-Won': 100,
+  'Closed-Lost': 0
+};
+
+/**
+ * Probability (0-100) that a deal in each stage closes, applied to its value for the weighted forecast
+ */
+export interface ForecastSettings {
+  stageWeights: Record<OpportunityStage, number>;
+  updatedBy?: string;
+  updatedAt?: Timestamp;
+}
+
+/**
+ * The part of an opportunity the forecast needs. Snapshots store these so a past forecast can be
+ * rebuilt for any owner or period.
+ */
+export interface ForecastDeal {
+  id: string;
+  title: string;
+  ownerId: string;
+  accountId?: string; // Missing from snapshots taken before visibility applied to the forecast
+  stage: OpportunityStage;
+  category: ForecastCategory;
+  value: number;
+  closeDate: string | null; // yyyy-MM-dd; the expected close date, or when a won deal closed
+}
+
+export interface ForecastTotals {
+  opportunities: number; // Open deals
+  closedWon: number;
+  commit: number;
+  bestCase: number; // Commit plus best case
+  pipeline: number; // Every open deal
+  weighted: number;
+}
+
+export interface ForecastPeriod extends ForecastTotals {
+  key: string; // 2026-10 or 2026-Q4
+  label: string;
+  start: string;
+  end: string; // Exclusive
+}
+
+export interface ForecastReport {
+  periodType: ForecastPeriodType;
+  periods: ForecastPeriod[];
+  overdue: ForecastTotals; // Open deals whose close date is before the first period
+  undated: ForecastTotals; // Open deals without a close date
+  stageWeights: Record<OpportunityStage, number>;
+  generatedAt: string;
+}
+
+export interface ForecastSnapshot {
+  id: string;
+  takenAt: Timestamp;
+  stageWeights: Record<OpportunityStage, number>;
+  deals: ForecastDeal[];
+}
+
+export interface ForecastOptions {
+  periodType: ForecastPeriodType;
+  periods: number;
+  ownerId?: string;
+  visibility?: RecordVisibility;
+}
+
+export interface SlippedDeal {
+  id: string;
+  title: string;
+  ownerId: string;
+  accountId?: string; // Missing from snapshots taken before visibility applied to the forecast
+  stage: OpportunityStage;
+  category: ForecastCategory;
+  value: number;
+  fromDate: string;
+  toDate: string | null; // null when the close date was cleared
+  fromPeriod: string;
+  toPeriod: string | null;
+}
+
+export interface ForecastComparison {
+  asOf: Timestamp;
+  periods: Array<{ key: string; label: string; then: ForecastTotals; now: ForecastTotals }>;
+  slipped: SlippedDeal[];
+  generatedAt: string;
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// First day of the month or quarter containing the date, in UTC
+const periodStart = (date: Date, periodType: ForecastPeriodType): Date => {
+  const month = periodType === 'quarter' ? Math.floor(date.getUTCMonth() / 3) * 3 : date.getUTCMonth();
+  return new Date(Date.UTC(date.getUTCFullYear(), month, 1));
+};
+
+const addPeriods = (start: Date, periodType: ForecastPeriodType, count: number): Date =>
+  new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + count * (periodType === 'quarter' ? 3 : 1), 1));
+
+const periodKey = (start: Date, periodType: ForecastPeriodType): string => periodType === 'quarter'
+  ? `${start.getUTCFullYear()}-Q${Math.floor(start.getUTCMonth() / 3) + 1}`
+  : start.toISOString().slice(0, 7);
+
+const periodLabel = (start: Date, periodType: ForecastPeriodType): string => periodType === 'quarter'
+  ? `Q${Math.floor(start.getUTCMonth() / 3) + 1} ${start.getUTCFullYear()}`
+  : `${MONTH_NAMES[start.getUTCMonth()]} ${start.getUTCFullYear()}`;
+
+// The deals of the requested owner that the caller may see
+const scopeDeals = (deals: ForecastDeal[], options: ForecastOptions): ForecastDeal[] => {
+  const owned = options.ownerId ? deals.filter(deal => deal.ownerId === options.ownerId) : deals;
+  return options.visibility ? options.visibility.filter('opportunities', owned) : owned;
+};
+
+const emptyTotals = (): ForecastTotals => ({ opportunities: 0, closedWon: 0, commit: 0, bestCase: 0, pipeline: 0, weighted: 0 });
+
+const totalsOf = (period: ForecastPeriod): ForecastTotals => ({
+  opportunities: period.opportunities,
+  closedWon: period.closedWon,
+  commit: period.commit,
+  bestCase: period.bestCase,
+  pipeline: period.pipeline,
+  weighted: period.weighted
+});
+
+const addDeal = (totals: ForecastTotals, deal: ForecastDeal, weights: Record<OpportunityStage, number>) => {
+  if (deal.stage === 'Closed-Won') {
+    totals.closedWon += deal.value;
+    return;
+  }
+  totals.opportunities += 1;
+  totals.pipeline += deal.value;
+  totals.weighted += deal.value * (weights[deal.stage] ?? 0) / 100;
+  if (deal.category === 'commit') {
+    totals.commit += deal.value;
+  }
+  if (deal.category === 'commit' || deal.category === 'best_case') {
+    totals.bestCase += deal.value;
+  }
+};
+
+/**
+ * The forecast input of an opportunity, or null when it can't contribute (lost deals)
+ */
+export const toForecastDeal = (opportunity: Opportunity & { id: string }): ForecastDeal | null => {
+  if (opportunity.stage !== 'Closed-Won' && !OPEN_STAGES.includes(opportunity.stage)) {
+    return null;
+  }
+
+  const won = opportunity.stage === 'Closed-Won';
+  const closeDate = readDate(won ? opportunity.closeOut?.closedAt || opportunity.expectedCloseDate : opportunity.expectedCloseDate);
+
+  return {
+    id: opportunity.id,
+    title: opportunity.title || '',
+    ownerId: opportunity.ownerId || '',
+    accountId: opportunity.accountId || '',
+    stage: opportunity.stage,
+    category: opportunity.forecastCategory || 'pipeline',
+    value: (won ? opportunity.closeOut?.finalDealValue : undefined) ?? opportunity.estimatedDealValue ?? 0,
+    closeDate: closeDate ? isoDay(closeDate) : null
+  };
+};
+
+/**
+ * Bucket deals into consecutive months or quarters starting at the period containing `from`
+ */
+export const buildForecast = (
+  deals: ForecastDeal[],
+  stageWeights: Record<OpportunityStage, number>,
+  periodType: ForecastPeriodType,
+  from: Date,
+  count: number
+): Omit<ForecastReport, 'generatedAt'> => {
+  const first = periodStart(from, periodType);
+  const periods: ForecastPeriod[] = Array.from({ length: count }, (_, index) => {
+    const start = addPeriods(first, periodType, index);
+    return {
+      key: periodKey(start, periodType),
+      label: periodLabel(start, periodType),
+      start: isoDay(start),
+      end: isoDay(addPeriods(start, periodType, 1)),
+      ...emptyTotals()
+    };
+  });
+
+  const overdue = emptyTotals();
+  const undated = emptyTotals();
+
+  deals.forEach(deal => {
+    if (!deal.closeDate) {
+      if (deal.stage !== 'Closed-Won') addDeal(undated, deal, stageWeights);
+      return;
+    }
+    const period = periods.find(candidate => deal.closeDate! >= candidate.start && deal.closeDate! < candidate.end);
+    if (period) {
+      addDeal(period, deal, stageWeights);
+    } else if (deal.closeDate < periods[0].start && deal.stage !== 'Closed-Won') {
+      addDeal(overdue, deal, stageWeights);
+    }
+  });
+
+  return { periodType, periods, overdue, undated, stageWeights };
+};
+
+export class ForecastService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  async getSettings(): Promise<ForecastSettings> {
+    const doc = await this.settingsRef().get();
+    const data = doc.exists ? doc.data() as ForecastSettings : null;
+    // Stages missing from the stored weights fall back to the defaults
+    return { ...data, stageWeights: { ...DEFAULT_STAGE_WEIGHTS, ...data?.stageWeights } };
+  }
+
+  async saveSettings(stageWeights: Record<OpportunityStage, number>, userId: string, userEmail?: string): Promise<ForecastSettings> {
+    const previous = await this.getSettings();
+    const updated: ForecastSettings = { stageWeights, updatedBy: userId, updatedAt: Timestamp.now() };
+    await this.settingsRef().set(updated);
+
+    await AuditService.log({
+      action: 'update_forecast_settings',
+      userId,
+      userEmail,
+      resourceType: 'forecast_settings',
+      resourceId: 'stage_weights',
+      data: {
+        previous: previous.stageWeights,
+        updated: stageWeights
+      }
+    });
+
+    return updated;
+  }
+
+  async getForecast(options: ForecastOptions, now: Date = new Date()): Promise<ForecastReport> {
+    const [deals, settings] = await Promise.all([this.getDeals(), this.getSettings()]);
+    return {
+      ...buildForecast(scopeDeals(deals, options), settings.stageWeights, options.periodType, now, options.periods),
+      generatedAt: now.toISOString()
+    };
+  }
+
+  /**
+   * Store the current forecast inputs; one snapshot per day, a rerun replaces it
+   */
+  async takeSnapshot(now: Date = new Date()): Promise<{ id: string; deals: number }> {
+    const [deals, settings] = await Promise.all([this.getDeals(), this.getSettings()]);
+    // Won deals only matter for periods a comparison can still show
+    const since = isoDay(addPeriods(periodStart(now, 'quarter'), 'quarter', -1));
+    const kept = deals.filter(deal => deal.stage !== 'Closed-Won' || (deal.closeDate !== null && deal.closeDate >= since));
+
+    const id = isoDay(now);
+    await this.db.collection('forecast_snapshots').doc(id).set({
+      takenAt: Timestamp.fromDate(now),
+      stageWeights: settings.stageWeights,
+      deals: kept
+    });
+
+    return { id, deals: kept.length };
+  }
+
+  /**
+   * Snapshots newest first, without their deals
+   */
+  async getSnapshots(limit: number): Promise<Array<{ id: string; takenAt: Timestamp }>> {
+    const snapshot = await this.db.collection('forecast_snapshots')
+      .orderBy('takenAt', 'desc')
+      .limit(limit)
+      .select('takenAt')
+      .get();
+
+    return snapshot.docs.map(doc => ({ id: doc.id, takenAt: doc.data().takenAt as Timestamp }));
+  }
+
+  /**
+   * The forecast as it stood when the snapshot was taken next to today's, for the same periods,
+   * and the deals whose close date has since moved to a later period
+   */
+  async compareWithSnapshot(snapshotId: string, options: ForecastOptions, now: Date = new Date()): Promise<ForecastComparison> {
+    const doc = await this.db.collection('forecast_snapshots').doc(snapshotId).get();
+    if (!doc.exists) {
+      throw new NotFoundError('Forecast snapshot', snapshotId);
+    }
+    const snapshot = { id: doc.id, ...doc.data() } as ForecastSnapshot;
+
+    const [currentDeals, settings] = await Promise.all([this.getDeals(), this.getSettings()]);
+    const scope = (deals: ForecastDeal[]) => scopeDeals(deals, options);
+    const from = snapshot.takenAt.toDate();
+
+    const then = buildForecast(scope(snapshot.deals), snapshot.stageWeights, options.periodType, from, options.periods);
+    const current = buildForecast(scope(currentDeals), settings.stageWeights, options.periodType, from, options.periods);
+
+    const periodOf = (date: string | null) => {
+      if (!date) return null;
+      const start = new Date(`${date}T00:00:00Z`);
+      return periodKey(periodStart(start, options.periodType), options.periodType);
+    };
+
+    const currentById = new Map(currentDeals.map(deal => [deal.id, deal]));
+    const slipped: SlippedDeal[] = scope(snapshot.deals)
+      .filter(deal => deal.stage !== 'Closed-Won' && deal.closeDate)
+      .flatMap(deal => {
+        const latest = currentById.get(deal.id);
+        // Deals lost, won or deleted since then didn't slip
+        if (!latest || latest.stage === 'Closed-Won') return [];
+        const fromPeriod = periodOf(deal.closeDate)!;
+        const toPeriod = periodOf(latest.closeDate);
+        if (toPeriod !== null && toPeriod <= fromPeriod) return [];
+        return [{
+          id: deal.id,
+          title: latest.title,
+          ownerId: latest.ownerId,
+          stage: latest.stage,
+          category: latest.category,
+          value: latest.value,
+          fromDate: deal.closeDate!,
+          toDate: latest.closeDate,
+          fromPeriod,
+          toPeriod
+        }];
+      })
+      .sort((a, b) => b.value - a.value);
+
+    return {
+      asOf: snapshot.takenAt,
+      periods: then.periods.map((period, index) => ({
+        key: period.key,
+        label: period.label,
+        then: totalsOf(period),
+        now: totalsOf(current.periods[index])
+      })),
+      slipped,
+      generatedAt: now.toISOString()
+    };
+  }
+
+  private async getDeals(): Promise<ForecastDeal[]> {
+    const snapshot = await this.db.collection('opportunities')
+      .where('stage', 'in', [...OPEN_STAGES, 'Closed-Won'])
+      .get();
+
+    return excludeDeleted(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Array<Opportunity & { id: string }>)
+      .map(toForecastDeal)
+      .filter((deal): deal is ForecastDeal => deal !== null);
+  }
+
+  private settingsRef() {
+    return this.db.collection('forecast_settings').doc('stage_weights');
+  }
+}
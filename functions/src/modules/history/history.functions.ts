@@ -0,0 +1,90 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { authenticateUser, requirePermission, AuthenticatedUser } from '../../shared/auth.middleware';
+import { validateData, commonSchemas } from '../../shared/validation.middleware';
+import { withErrorHandling } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { Permission } from '../../shared/permissions';
+import { HistoryService, HISTORY_COLLECTIONS, HistoryCollection } from './history.service';
+import { TeamsService, ScopedRecord } from '../teams/teams.service';
+import { z } from 'zod';
+
+const historyCollectionSchema = z.enum(Object.keys(HISTORY_COLLECTIONS) as [HistoryCollection, ...HistoryCollection[]]);
+
+const getHistorySchema = z.object({
+  collection: historyCollectionSchema,
+  recordId: commonSchemas.id,
+  limit: z.number().int().min(1).max(200).default(50)
+});
+
+const revertSchema = z.object({
+  collection: historyCollectionSchema,
+  recordId: commonSchemas.id,
+  entryId: commonSchemas.id,
+  expectedRevision: commonSchemas.expectedRevision
+});
+
+const getHistoryService = () => new HistoryService(getFirestore());
+
+/**
+ * History follows the record: only users who can see the record can see or revert its changes
+ */
+const assertRecordAccess = async (
+  user: AuthenticatedUser,
+  service: HistoryService,
+  collection: HistoryCollection,
+  recordId: string
+): Promise<void> => {
+  const record = await service.getRecord(collection, recordId);
+  if (collection !== 'products') {
+    await new TeamsService(getFirestore()).assertCanView(user, collection, record as ScopedRecord);
+  }
+};
+
+/**
+ * Field-level change history of a record, newest first
+ */
+export const getRecordHistory = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    const { collection, recordId, limit } = validateData(getHistorySchema, request.data);
+    requirePermission(user, `${collection}:read` as Permission);
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getRecordHistory');
+
+    const service = getHistoryService();
+    await assertRecordAccess(user, service, collection, recordId);
+
+    const entries = await service.getHistory(collection, recordId, limit);
+
+    return { entries };
+  }, { functionName: 'getRecordHistory', action: 'HISTORY_LIST' })
+);
+
+/**
+ * Restore a record to how it looked before one of its recorded changes
+ */
+export const revertRecordHistory = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    const { collection, recordId, entryId, expectedRevision } = validateData(revertSchema, request.data);
+    requirePermission(user, `${collection}:update` as Permission);
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'revertRecordHistory');
+
+    const service = getHistoryService();
+    await assertRecordAccess(user, service, collection, recordId);
+
+    return await service.revertToEntry(collection, recordId, entryId, user.uid, user.email, expectedRevision);
+  }, { functionName: 'revertRecordHistory', action: 'HISTORY_REVERT' })
+);
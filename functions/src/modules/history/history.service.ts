@@ -0,0 +1,201 @@
+import {
+  DocumentData,
+  FieldValue,
+  Firestore
+} from 'firebase-admin/firestore';
+import { AuditService } from '../../shared/audit.service';
+import { NotFoundError, BusinessLogicError } from '../../shared/errors';
+import { isDeleted } from '../../shared/soft-delete';
+import { assertRevision, getRevision, updateWithRevision } from '../../shared/concurrency';
+import { RecordHistoryEntry, SYSTEM_FIELDS, isSameValue } from '../../shared/record-history';
+import { StageHistoryService } from '../opportunities/stage-history.service';
+import { StageGatesService } from '../opportunities/stage-gates.service';
+import { CloseOutInput, isClosedStage, resolveCloseOut } from '../opportunities/win-loss.service';
+import { ApprovalsService, approvalRequiredError } from '../approvals/approvals.service';
+import { WorkflowEngineService } from '../workflows/workflow-engine.service';
+import { WORKFLOW_COLLECTIONS, WORKFLOW_ENTITIES } from '../workflows/workflow-rules.service';
+import { Opportunity, OpportunityCloseOut } from '../../types';
+
+export type HistoryCollection = 'accounts' | 'contacts' | 'products' | 'opportunities';
+
+export const HISTORY_COLLECTIONS: Record<HistoryCollection, { resource: string; resourceType: string }> = {
+  accounts: { resource: 'Account', resourceType: 'account' },
+  contacts: { resource: 'Contact', resourceType: 'contact' },
+  products: { resource: 'Product', resourceType: 'product' },
+  opportunities: { resource: 'Opportunity', resourceType: 'opportunity' }
+};
+
+export interface RevertResult {
+  record: DocumentData;
+  revision: number;
+  fields: string[];
+}
+
+/**
+ * The writes that bring a record's fields back to a history snapshot, and the record they give
+ */
+const restoreSnapshot = (data: DocumentData, snapshot: DocumentData, recordId: string) => {
+  const updates: DocumentData = {};
+  const fields: string[] = [];
+
+  Array.from(new Set([...Object.keys(data), ...Object.keys(snapshot)]))
+    .filter(field => !SYSTEM_FIELDS.includes(field))
+    .forEach(field => {
+      if (isSameValue(data[field], snapshot[field])) return;
+      updates[field] = field in snapshot ? snapshot[field] : FieldValue.delete();
+      fields.push(field);
+    });
+
+  const record: DocumentData = { ...data, ...updates, id: recordId };
+  fields.filter(field => !(field in snapshot)).forEach(field => delete record[field]);
+
+  return { updates, fields, record };
+};
+
+export class HistoryService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  async getRecord(collection: HistoryCollection, recordId: string): Promise<DocumentData & { id: string }> {
+    const doc = await this.db.collection(collection).doc(recordId).get();
+    const data = doc.data();
+
+    if (!doc.exists || !data || isDeleted(data)) {
+      throw new NotFoundError(HISTORY_COLLECTIONS[collection].resource, recordId);
+    }
+
+    return { id: doc.id, ...data };
+  }
+
+  /**
+   * Changes to a record, newest first
+   */
+  async getHistory(collection: HistoryCollection, recordId: string, limit: number): Promise<RecordHistoryEntry[]> {
+    const snapshot = await this.db.collection('record_history')
+      .where('collection', '==', collection)
+      .where('recordId', '==', recordId)
+      .orderBy('changedAt', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as RecordHistoryEntry));
+  }
+
+  /**
+   * Restore a record to how it looked before the given change. The revert is itself a
+   * change: it bumps the revision, lands in the record's history and is audited.
+   */
+  async revertToEntry(
+    collection: HistoryCollection,
+    recordId: string,
+    entryId: string,
+    userId: string,
+    userEmail?: string,
+    expectedRevision?: number
+  ): Promise<RevertResult> {
+    const { resource, resourceType } = HISTORY_COLLECTIONS[collection];
+
+    const entryDoc = await this.db.collection('record_history').doc(entryId).get();
+    const entry = entryDoc.data() as RecordHistoryEntry | undefined;
+    if (!entryDoc.exists || !entry || entry.collection !== collection || entry.recordId !== recordId) {
+      throw new NotFoundError('History entry', entryId);
+    }
+
+    const recordRef = this.db.collection(collection).doc(recordId);
+    const stageHistory = new StageHistoryService(this.db);
+    const approvals = new ApprovalsService(this.db);
+
+    // Reverting an opportunity's stage is a stage change like any other: closing needs the
+    // close-out the version had, reopening clears it, the stage's entry criteria must be met
+    // and the move may need approval. The write is pinned to the revision these checks read.
+    let approvalId: string | null = null;
+    let closeOut: OpportunityCloseOut | null | undefined;
+    let writeRevision = expectedRevision;
+    if (collection === 'opportunities') {
+      const current = (await recordRef.get()).data();
+      if (current && !isDeleted(current) && entry.snapshot.stage && entry.snapshot.stage !== current.stage) {
+        assertRevision(resource, recordId, current, expectedRevision);
+        writeRevision = getRevision(current);
+        // A closed version's close-out is recorded again as of now
+        const recorded = isClosedStage(entry.snapshot.stage) ? entry.snapshot.closeOut as CloseOutInput | undefined : undefined;
+        closeOut = resolveCloseOut(current.stage, entry.snapshot.stage, recorded, userId);
+        const { record } = restoreSnapshot(current, entry.snapshot, recordId);
+        await new StageGatesService(this.db).assertCanEnter([{ id: recordId, opportunity: record as Opportunity }]);
+        const check = await approvals.checkTransition(recordId, current as Opportunity, record as Opportunity, userId);
+        if (check.status === 'pending') {
+          throw approvalRequiredError([check.request]);
+        }
+        approvalId = check.status === 'approved' ? check.requestId : null;
+      }
+    }
+
+    const { result, revision } = await updateWithRevision(this.db, recordRef, resource, writeRevision, userId, (data, transaction) => {
+      const snapshot = entry.snapshot;
+      const { updates, fields, record } = restoreSnapshot(data, snapshot, recordId);
+
+      if (fields.length === 0) {
+        throw new BusinessLogicError(`${resource} already matches this version`, { entryId });
+      }
+
+      // The close-out follows the reverted stage rather than the version
+      if (closeOut !== undefined) {
+        delete updates.closeOut;
+        delete record.closeOut;
+        const restored = fields.filter(field => field !== 'closeOut');
+        if (closeOut) {
+          updates.closeOut = record.closeOut = closeOut;
+        } else if (data.closeOut) {
+          updates.closeOut = FieldValue.delete();
+        }
+        fields.splice(0, fields.length, ...restored, ...('closeOut' in updates ? ['closeOut'] : []));
+      }
+
+      // Moving an opportunity back to an earlier stage is a stage transition like any other
+      const fromStage = data.stage;
+      const stageChanged = collection === 'opportunities' && fields.includes('stage');
+      if (stageChanged) {
+        stageHistory.queueTransition(transaction, recordId, record as Opportunity, fromStage, snapshot.stage, userId);
+      }
+
+      return {
+        updates: { ...updates, updatedBy: userId },
+        result: { before: data, record, fields, stageChange: stageChanged ? { fromStage, toStage: snapshot.stage } : null }
+      };
+    }, { action: 'revert', revertedEntryId: entryId });
+
+    if (result.stageChange) {
+      await AuditService.logOpportunityAction('STAGE_CHANGE', userId, recordId, {
+        ...result.stageChange,
+        value: result.record.estimatedDealValue,
+        ...(approvalId ? { approvalId } : {})
+      });
+      if (approvalId) {
+        await approvals.markApplied(approvalId);
+      }
+    }
+
+    await AuditService.log({
+      action: 'revert',
+      userId,
+      userEmail,
+      resourceType,
+      resourceId: recordId,
+      data: {
+        historyEntryId: entryId,
+        revertedToRevision: entry.revision - 1,
+        fields: result.fields
+      }
+    });
+
+    // Reverted fields fire rules like any other edit
+    const workflowEntity = WORKFLOW_ENTITIES.find(candidate => WORKFLOW_COLLECTIONS[candidate] === collection);
+    if (workflowEntity) {
+      await new WorkflowEngineService(this.db).onRecordWritten(workflowEntity, recordId, result.before, { ...result.record, revision }, userId);
+    }
+
+    return { record: { ...result.record, revision }, revision, fields: result.fields };
+  }
+}
@@ -0,0 +1,44 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { authenticateUser, requirePermission } from '../../shared/auth.middleware';
+import { validateData } from '../../shared/validation.middleware';
+import { withErrorHandling } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { ImportService, IMPORT_ENTITIES, ImportEntity, MAX_IMPORT_ROWS } from './import.service';
+import { TeamsService } from '../teams/teams.service';
+import { z } from 'zod';
+
+/**
+ * Validate or import spreadsheet rows that have already been mapped to record fields.
+ * With dryRun set nothing is written and the per-row report shows what would happen.
+ */
+export const importRecords = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10,
+    timeoutSeconds: 300,
+    memory: '512MiB'
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.heavy.maxRequests, RateLimitPresets.heavy.windowMs, 'importRecords');
+
+    const { entity, rows, dryRun, duplicateStrategy } = validateData(
+      z.object({
+        entity: z.enum(Object.keys(IMPORT_ENTITIES) as [ImportEntity, ...ImportEntity[]]),
+        rows: z.array(z.record(z.string(), z.unknown())).min(1).max(MAX_IMPORT_ROWS),
+        dryRun: z.boolean().default(true),
+        duplicateStrategy: z.enum(['skip', 'create']).default('skip')
+      }),
+      request.data
+    );
+
+    requirePermission(user, 'records:import', `${entity}:create`);
+
+    const visibility = await new TeamsService(getFirestore()).resolveVisibility(user);
+
+    return await new ImportService(getFirestore()).importRows(entity, rows, { dryRun, duplicateStrategy, visibility }, user);
+  }, { functionName: 'importRecords', action: 'IMPORT_RECORDS' })
+);
@@ -0,0 +1,499 @@
+import {
+  Firestore,
+  Timestamp,
+  DocumentReference,
+  DocumentData,
+  WriteBatch
+} from 'firebase-admin/firestore';
+import { z } from 'zod';
+import { AuditService } from '../../shared/audit.service';
+import { AuthenticatedUser } from '../../shared/auth.middleware';
+import { isDeleted } from '../../shared/soft-delete';
+import {
+  validateData,
+  ValidationError,
+  accountSchemas,
+  contactSchemas,
+  productSchemas,
+  opportunitySchemas
+} from '../../shared/validation.middleware';
+import { normalizeCompanyName, normalizeEmail, extractDomain } from '../../shared/duplicate-matching';
+import { StageHistoryService } from '../opportunities/stage-history.service';
+import { StageGatesService } from '../opportunities/stage-gates.service';
+import { isClosedStage } from '../opportunities/win-loss.service';
+import { ApprovalsService, creationBlockedReason } from '../approvals/approvals.service';
+import type { RecordVisibility } from '../teams/teams.service';
+import { WorkflowEngineService } from '../workflows/workflow-engine.service';
+import { WORKFLOW_COLLECTIONS, WORKFLOW_ENTITIES } from '../workflows/workflow-rules.service';
+import { Opportunity, OpportunityStage } from '../../types';
+
+export type ImportEntity = 'accounts' | 'contacts' | 'products' | 'opportunities';
+
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate' | 'created' | 'skipped' | 'failed';
+
+export type DuplicateStrategy = 'skip' | 'create';
+
+export interface ImportRowResult {
+  row: number; // Spreadsheet row number - the header is row 1
+  status: ImportRowStatus;
+  errors?: Array<{ field: string; message: string }>;
+  duplicateOf?: string; // ID of the existing record, or "row N" for an earlier row in the same file
+  resolvedAccountId?: string;
+  id?: string; // ID of the created record
+}
+
+export interface ImportReport {
+  entity: ImportEntity;
+  dryRun: boolean;
+  total: number;
+  summary: Partial<Record<ImportRowStatus, number>>;
+  results: ImportRowResult[];
+}
+
+export const IMPORT_ENTITIES: Record<ImportEntity, { resourceType: string; schema: z.ZodType }> = {
+  accounts: { resourceType: 'account', schema: accountSchemas.create },
+  contacts: { resourceType: 'contact', schema: contactSchemas.create },
+  products: { resourceType: 'product', schema: productSchemas.create },
+  opportunities: { resourceType: 'opportunity', schema: opportunitySchemas.create }
+};
+
+export const MAX_IMPORT_ROWS = 2000;
+
+// Opportunities write a stage history entry too, so keep chunks well under the 500-write batch limit
+const IMPORT_CHUNK_SIZE = 200;
+
+// Spreadsheet cells are untyped - these fields are coerced before the zod schemas run
+const ARRAY_FIELDS = ['tags', 'iolProducts'];
+const NUMBER_FIELDS = ['potentialVolume', 'estimatedDealValue'];
+const BOOLEAN_FIELDS = ['isDecisionMaker'];
+const DATE_FIELDS = ['expectedCloseDate', 'lastActivityDate', 'lastContactDate'];
+
+interface AccountLookup {
+  byName: Map<string, string[]>;
+  byDomain: Map<string, string>;
+  // Accounts the importing user may see; rows can only be linked to these
+  visibleIds: Set<string>;
+}
+
+interface PreparedRow {
+  result: ImportRowResult;
+  data?: Record<string, unknown>;
+}
+
+export class ImportService {
+  private db: Firestore;
+  private stageHistory: StageHistoryService;
+  private stageGates: StageGatesService;
+  private approvals: ApprovalsService;
+  private workflows: WorkflowEngineService;
+
+  constructor(db: Firestore) {
+    this.db = db;
+    this.stageHistory = new StageHistoryService(db);
+    this.stageGates = new StageGatesService(db);
+    this.approvals = new ApprovalsService(db);
+    this.workflows = new WorkflowEngineService(db);
+  }
+
+  /**
+   * Validate mapped spreadsheet rows and, unless this is a dry run, create the valid ones in chunks
+   */
+  async importRows(
+    entity: ImportEntity,
+    rows: Array<Record<string, unknown>>,
+    options: { dryRun: boolean; duplicateStrategy: DuplicateStrategy; visibility?: RecordVisibility },
+    user: AuthenticatedUser
+  ): Promise<ImportReport> {
+    const prepared = await this.prepareRows(entity, rows, options.visibility);
+
+    if (!options.dryRun) {
+      const toCreate = prepared.filter(row =>
+        row.result.status === 'valid' ||
+        (row.result.status === 'duplicate' && options.duplicateStrategy === 'create')
+      );
+
+      prepared
+        .filter(row => row.result.status === 'duplicate' && options.duplicateStrategy === 'skip')
+        .forEach(row => { row.result.status = 'skipped'; });
+
+      for (let i = 0; i < toCreate.length; i += IMPORT_CHUNK_SIZE) {
+        await this.commitChunk(entity, toCreate.slice(i, i + IMPORT_CHUNK_SIZE), user.uid);
+      }
+    }
+
+    const results = prepared.map(row => row.result);
+    const summary: Partial<Record<ImportRowStatus, number>> = {};
+    results.forEach(result => {
+      summary[result.status] = (summary[result.status] || 0) + 1;
+    });
+
+    if (!options.dryRun) {
+      await AuditService.log({
+        userId: user.uid,
+        userEmail: user.email,
+        action: 'import',
+        resourceType: IMPORT_ENTITIES[entity].resourceType,
+        resourceId: 'bulk',
+        data: { total: rows.length, duplicateStrategy: options.duplicateStrategy, summary }
+      });
+    }
+
+    return { entity, dryRun: options.dryRun, total: rows.length, summary, results };
+  }
+
+  private async prepareRows(
+    entity: ImportEntity,
+    rows: Array<Record<string, unknown>>,
+    visibility?: RecordVisibility
+  ): Promise<PreparedRow[]> {
+    const accounts = await this.loadAccountLookup(visibility);
+    const contactIdsByEmail = entity === 'opportunities'
+      ? await this.loadContactIdsByEmail(visibility)
+      : new Map<string, string>();
+    const existingKeys = await this.loadExistingKeys(entity, accounts);
+    const seenKeys = new Map<string, number>();
+
+    const prepared = rows.map((raw, index): PreparedRow => {
+      const rowNumber = index + 2;
+      const errors: Array<{ field: string; message: string }> = [];
+      const coerced = this.coerceRow(raw, errors);
+
+      // Resolve the owning account by name when no ID was mapped
+      if (entity !== 'accounts') {
+        const accountId = this.resolveAccountId(coerced, accounts, errors);
+        if (accountId) coerced.accountId = accountId;
+        delete coerced.accountName;
+      }
+
+      if (entity === 'opportunities') {
+        coerced.contactIds = this.resolveContactIds(coerced.contactEmails, contactIdsByEmail, errors);
+        delete coerced.contactEmails;
+      }
+
+      let data: Record<string, unknown> | undefined;
+      try {
+        data = validateData(IMPORT_ENTITIES[entity].schema, coerced) as Record<string, unknown>;
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          errors.push(...error.errors.map(issue => ({ field: issue.field, message: issue.message })));
+        } else {
+          throw error;
+        }
+      }
+
+      const result: ImportRowResult = {
+        row: rowNumber,
+        status: 'valid',
+        resolvedAccountId: typeof coerced.accountId === 'string' ? coerced.accountId : undefined
+      };
+
+      if (errors.length > 0 || !data) {
+        return { result: { ...result, status: 'invalid', errors } };
+      }
+
+      const keys = this.duplicateKeys(entity, data);
+      const existingId = keys.map(key => existingKeys.get(key)).find(Boolean);
+      const earlierRow = keys.map(key => seenKeys.get(key)).find(Boolean);
+      keys.forEach(key => {
+        if (!seenKeys.has(key)) seenKeys.set(key, rowNumber);
+      });
+
+      if (existingId || earlierRow) {
+        return {
+          result: { ...result, status: 'duplicate', duplicateOf: existingId || `row ${earlierRow}` },
+          data
+        };
+      }
+
+      return { result, data };
+    });
+
+    if (entity === 'opportunities') {
+      await this.checkStageEntry(prepared);
+    }
+    return prepared;
+  }
+
+  /**
+   * Mark opportunity rows invalid when the app wouldn't let them start in their stage either.
+   * Closing a deal needs a close-out, which a spreadsheet row can't carry.
+   */
+  private async checkStageEntry(rows: PreparedRow[]): Promise<void> {
+    const gates = await this.stageGates.getGates();
+    const policies = await this.approvals.getPolicies();
+
+    for (const row of rows) {
+      if (!row.data) continue;
+      const opportunity = row.data as Partial<Opportunity> & { stage: OpportunityStage };
+      const errors: Array<{ field: string; message: string }> = [];
+
+      if (isClosedStage(opportunity.stage)) {
+        errors.push({ field: 'stage', message: `Can't start at ${opportunity.stage}: closing needs a close-out, so import the deal open and close it in the app` });
+      }
+
+      const unmet = await this.stageGates.checkEntry(opportunity, opportunity.stage, gates);
+      if (unmet.length > 0) {
+        errors.push({ field: 'stage', message: `Can't start at ${opportunity.stage} yet: ${unmet.map(item => item.label.toLowerCase()).join('; ')}` });
+      }
+      const blocked = creationBlockedReason(policies, opportunity, opportunity.stage);
+      if (blocked) {
+        errors.push({ field: 'stage', message: blocked });
+      }
+
+      if (errors.length > 0) {
+        row.result = { ...row.result, status: 'invalid', errors };
+        delete row.data;
+      }
+    }
+  }
+
+  private coerceRow(raw: Record<string, unknown>, errors: Array<{ field: string; message: string }>): Record<string, unknown> {
+    const coerced: Record<string, unknown> = {};
+
+    Object.entries(raw).forEach(([field, value]) => {
+      const text = typeof value === 'string' ? value.trim() : value;
+      if (text === undefined || text === null || text === '') return;
+
+      if (ARRAY_FIELDS.includes(field)) {
+        coerced[field] = String(text).split(/[,;]/).map(item => item.trim()).filter(Boolean);
+      } else if (NUMBER_FIELDS.includes(field)) {
+        const parsed = typeof text === 'number' ? text : Number(String(text).replace(/[^0-9.-]/g, ''));
+        // Leave unparseable values as-is so the schema reports them
+        coerced[field] = Number.isFinite(parsed) ? parsed : text;
+      } else if (BOOLEAN_FIELDS.includes(field)) {
+        coerced[field] = typeof text === 'boolean' ? text : ['true', 'yes', 'y', '1'].includes(String(text).toLowerCase());
+      } else if (DATE_FIELDS.includes(field)) {
+        const date = new Date(text as string | number);
+        if (isNaN(date.getTime())) {
+          errors.push({ field, message: `Invalid date "${text}"` });
+        } else {
+          coerced[field] = Timestamp.fromDate(date);
+        }
+      } else {
+        coerced[field] = typeof text === 'string' ? text : String(text);
+      }
+    });
+
+    return coerced;
+  }
+
+  private resolveAccountId(
+    row: Record<string, unknown>,
+    accounts: AccountLookup,
+    errors: Array<{ field: string; message: string }>
+  ): string | undefined {
+    if (typeof row.accountId === 'string') {
+      if (!accounts.visibleIds.has(row.accountId)) {
+        errors.push({ field: 'accountId', message: `Account "${row.accountId}" not found` });
+      }
+      return row.accountId;
+    }
+
+    if (typeof row.accountName !== 'string') {
+      return undefined;
+    }
+
+    const matches = (accounts.byName.get(normalizeCompanyName(row.accountName)) || []).filter(id => accounts.visibleIds.has(id));
+    if (matches.length === 0) {
+      errors.push({ field: 'accountName', message: `No account named "${row.accountName}"` });
+      return undefined;
+    }
+    if (matches.length > 1) {
+      errors.push({ field: 'accountName', message: `"${row.accountName}" matches ${matches.length} accounts - use the account ID instead` });
+      return undefined;
+    }
+    return matches[0];
+  }
+
+  private resolveContactIds(
+    value: unknown,
+    contactIdsByEmail: Map<string, string>,
+    errors: Array<{ field: string; message: string }>
+  ): string[] {
+    if (typeof value !== 'string') return [];
+
+    const contactIds: string[] = [];
+    value.split(/[,;]/).map(normalizeEmail).filter(Boolean).forEach(email => {
+      const contactId = contactIdsByEmail.get(email);
+      if (contactId) {
+        contactIds.push(contactId);
+      } else {
+        errors.push({ field: 'contactEmails', message: `No contact with email "${email}"` });
+      }
+    });
+    return contactIds;
+  }
+
+  /**
+   * Keys that identify a record for duplicate detection - any shared key is a match
+   */
+  private duplicateKeys(entity: ImportEntity, data: Record<string, unknown>): string[] {
+    const text = (value: unknown) => (typeof value === 'string' ? value.trim().toLowerCase() : '');
+
+    switch (entity) {
+      case 'accounts': {
+        const domain = extractDomain(data.website as string | undefined);
+        return [`name:${normalizeCompanyName(data.name as string)}`, ...(domain ? [`domain:${domain}`] : [])];
+      }
+      case 'contacts':
+        return [`email:${normalizeEmail(data.email as string)}`];
+      case 'products':
+        return [`${data.accountId}:${text(data.name)}`];
+      case 'opportunities':
+        return [`${data.accountId}:${text(data.title)}`];
+    }
+  }
+
+  private async loadExistingKeys(entity: ImportEntity, accounts: AccountLookup): Promise<Map<string, string>> {
+    const keys = new Map<string, string>();
+
+    if (entity === 'accounts') {
+      accounts.byName.forEach((ids, name) => keys.set(`name:${name}`, ids[0]));
+      accounts.byDomain.forEach((id, domain) => keys.set(`domain:${domain}`, id));
+      return keys;
+    }
+
+    const fields: Record<Exclude<ImportEntity, 'accounts'>, string[]> = {
+      contacts: ['email'],
+      products: ['accountId', 'name'],
+      opportunities: ['accountId', 'title']
+    };
+    const snapshot = await this.db.collection(entity).select(...fields[entity], 'deletedAt').get();
+    snapshot.docs
+      .filter(doc => !isDeleted(doc.data()))
+      .forEach(doc => {
+        this.duplicateKeys(entity, doc.data()).forEach(key => {
+          if (!keys.has(key)) keys.set(key, doc.id);
+        });
+      });
+    return keys;
+  }
+
+  /**
+   * Every live account for duplicate checks; only the visible ones can be linked to
+   */
+  private async loadAccountLookup(visibility?: RecordVisibility): Promise<AccountLookup> {
+    const snapshot = await this.db.collection('accounts').select('name', 'website', 'ownerId', 'deletedAt').get();
+    const lookup: AccountLookup = { byName: new Map(), byDomain: new Map(), visibleIds: new Set() };
+
+    snapshot.docs
+      .filter(doc => !isDeleted(doc.data()))
+      .forEach(doc => {
+        const data = doc.data();
+        const name = normalizeCompanyName(data.name);
+        const domain = extractDomain(data.website);
+
+        if (!visibility || visibility.canView('accounts', { id: doc.id, ownerId: data.ownerId })) {
+          lookup.visibleIds.add(doc.id);
+        }
+        lookup.byName.set(name, [...(lookup.byName.get(name) || []), doc.id]);
+        if (domain && !lookup.byDomain.has(domain)) {
+          lookup.byDomain.set(domain, doc.id);
+        }
+      });
+
+    return lookup;
+  }
+
+  private async loadContactIdsByEmail(visibility?: RecordVisibility): Promise<Map<string, string>> {
+    const snapshot = await this.db.collection('contacts').select('email', 'accountId', 'ownerId', 'deletedAt').get();
+    const byEmail = new Map<string, string>();
+    snapshot.docs
+      .filter(doc => !isDeleted(doc.data()))
+      .filter(doc => !visibility || visibility.canView('contacts', { id: doc.id, ...doc.data() }))
+      .forEach(doc => byEmail.set(normalizeEmail(doc.data().email), doc.id));
+    return byEmail;
+  }
+
+  private async commitChunk(entity: ImportEntity, rows: PreparedRow[], userId: string): Promise<void> {
+    const batch = this.db.batch();
+    const now = Timestamp.now();
+    const created: Array<{ row: PreparedRow; ref: DocumentReference; record: DocumentData }> = [];
+
+    rows.forEach(row => {
+      const ref = this.db.collection(entity).doc();
+      const record = this.queueCreate(batch, entity, ref, row.data!, userId, now);
+      created.push({ row, ref, record });
+    });
+
+    try {
+      await batch.commit();
+      created.forEach(({ row, ref }) => {
+        row.result.status = 'created';
+        row.result.id = ref.id;
+      });
+    } catch (error) {
+      // A failed batch writes nothing, so every row in the chunk is reported as failed
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      created.forEach(({ row }) => {
+        row.result.status = 'failed';
+        row.result.errors = [{ field: '', message }];
+      });
+      return;
+    }
+
+    // Imported records fire "created" rules like records made in the app
+    const workflowEntity = WORKFLOW_ENTITIES.find(candidate => WORKFLOW_COLLECTIONS[candidate] === entity);
+    if (workflowEntity) {
+      for (const { ref, record } of created) {
+        await this.workflows.onRecordWritten(workflowEntity, ref.id, null, record, userId);
+      }
+    }
+  }
+
+  /**
+   * Queue a new record with the same defaults the single-record create endpoints apply, and return it
+   */
+  private queueCreate(
+    batch: WriteBatch,
+    entity: ImportEntity,
+    ref: DocumentReference,
+    data: Record<string, unknown>,
+    userId: string,
+    now: Timestamp
+  ): DocumentData {
+    const base = { ...data, ownerId: userId, createdAt: now, updatedAt: now };
+
+    switch (entity) {
+      case 'accounts': {
+        const account = { ...base, createdBy: userId, updatedBy: userId };
+        batch.set(ref, account);
+        return account;
+      }
+      case 'contacts': {
+        const contact = { ...base, lastContactDate: data.lastContactDate || null, productIds: data.productIds || [] };
+        batch.set(ref, contact);
+        return contact;
+      }
+      case 'products': {
+        const product = { ...base, status: data.status || 'Development', tags: data.tags || [] };
+        batch.set(ref, product);
+        return product;
+      }
+      case 'opportunities': {
+        const opportunity = {
+          ...base,
+          priority: data.priority || 'Medium',
+          contactIds: data.contactIds || [],
+          notes: data.notes || '',
+          activities: [],
+          tags: data.tags || []
+        };
+        batch.set(ref, opportunity);
+        this.stageHistory.queueTransition(
+          batch,
+          ref.id,
+          {
+            estimatedDealValue: data.estimatedDealValue as number | undefined,
+            iolProducts: data.iolProducts as string[] | undefined,
+            ownerId: userId
+          },
+          null,
+          data.stage as OpportunityStage,
+          userId
+        );
+        return opportunity;
+      }
+    }
+  }
+}
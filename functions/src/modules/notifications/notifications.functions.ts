@@ -0,0 +1,105 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { onDocumentCreated } from 'firebase-functions/v2/firestore';
+import { getFirestore } from 'firebase-admin/firestore';
+import { authenticateUser } from '../../shared/auth.middleware';
+import { validateData } from '../../shared/validation.middleware';
+import { withErrorHandling } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { MAIL_SECRETS } from '../../shared/mail/config';
+import { NotificationsService } from './notifications.service';
+import { z } from 'zod';
+
+const getNotificationsSchema = z.object({
+  limit: z.number().int().min(1).max(100).default(20),
+  unreadOnly: z.boolean().default(false)
+});
+
+const markReadSchema = z.object({
+  ids: z.array(z.string().min(1)).max(500).optional() // Omit to mark everything read
+});
+
+/**
+ * The caller's in-app notifications, newest first, with their unread count
+ */
+export const getNotifications = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getNotifications');
+
+    const { limit, unreadOnly } = validateData(getNotificationsSchema, request.data || {});
+
+    return new NotificationsService(getFirestore()).getNotifications(user.uid, limit, unreadOnly);
+  }, { functionName: 'getNotifications', action: 'NOTIFICATIONS_GET' })
+);
+
+export const markNotificationsRead = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'markNotificationsRead');
+
+    const { ids } = validateData(markReadSchema, request.data || {});
+    const updated = await new NotificationsService(getFirestore()).markRead(user.uid, ids);
+
+    return { success: true, updated };
+  }, { functionName: 'markNotificationsRead', action: 'NOTIFICATIONS_MARK_READ' })
+);
+
+/**
+ * Follow-ups due today and overdue assignments, before the digest run picks them up
+ */
+export const createDueNotifications = onSchedule({
+  schedule: '0 6 * * *', // Every day at 06:00 UTC
+  timeZone: 'UTC',
+  region: 'us-central1',
+  memory: '512MiB',
+  timeoutSeconds: 540,
+}, async () => {
+  const startTime = Date.now();
+  const { followUps, overdueAssignments } = await new NotificationsService(getFirestore()).createDueNotifications();
+
+  console.log(`Due notifications: ${followUps} follow-ups due, ${overdueAssignments} overdue assignments in ${Date.now() - startTime}ms`);
+});
+
+export const sendNotificationDigests = onSchedule({
+  schedule: '0 7 * * *', // Every day at 07:00 UTC
+  timeZone: 'UTC',
+  region: 'us-central1',
+  memory: '512MiB',
+  timeoutSeconds: 540,
+  secrets: MAIL_SECRETS,
+}, async () => {
+  const startTime = Date.now();
+  const { users, notifications, failed } = await new NotificationsService(getFirestore()).sendDigests();
+
+  console.log(`Notification digests: ${notifications} notifications sent to ${users} users, ${failed} failed in ${Date.now() - startTime}ms`);
+});
+
+/**
+ * Deliver immediate notification emails after the notification is stored, outside the
+ * request that caused it
+ */
+export const sendNotificationEmail = onDocumentCreated({
+  document: 'users/{userId}/notifications/{notificationId}',
+  region: 'us-central1',
+  secrets: MAIL_SECRETS,
+}, async (event) => {
+  const notification = event.data?.data();
+  if (notification?.email !== 'immediate') {
+    return;
+  }
+
+  await new NotificationsService(getFirestore()).sendQueuedEmail(event.params.userId, event.params.notificationId);
+});
@@ -0,0 +1,464 @@
+import * as logger from 'firebase-functions/logger';
+import { Firestore, QueryDocumentSnapshot, Timestamp } from 'firebase-admin/firestore';
+import { appUrl } from '../../shared/mail/config';
+import { MailService } from '../../shared/mail/mail.service';
+import { isDeleted } from '../../shared/soft-delete';
+import { ChecklistItem, Opportunity } from '../../types';
+import type { User } from '../users/users.service';
+import type { Assignment } from '../assignments/assignments.service';
+import { DAY_MS, isoDay, readDate } from '../../shared/dates';
+import { escapeHtml } from '../../shared/mail/html';
+
+export const NOTIFICATION_EVENTS = [
+  'activity_assigned',
+  'follow_up_due',
+  'blocker_added',
+  'stage_changed',
+  'assignment_overdue',
+  'workflow_rule',
+  'approval_requested',
+  'approval_decided'
+] as const;
+
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number];
+
+export type NotificationEmailDelivery = 'off' | 'immediate' | 'digest';
+
+export interface NotificationEventPreference {
+  inApp: boolean;
+  email: NotificationEmailDelivery;
+}
+
+/**
+ * Used for any event the user hasn't set a preference for
+ */
+export const DEFAULT_EVENT_PREFERENCES: Record<NotificationEvent, NotificationEventPreference> = {
+  activity_assigned: { inApp: true, email: 'immediate' },
+  follow_up_due: { inApp: true, email: 'digest' },
+  blocker_added: { inApp: true, email: 'immediate' },
+  stage_changed: { inApp: true, email: 'digest' },
+  assignment_overdue: { inApp: true, email: 'digest' },
+  workflow_rule: { inApp: true, email: 'immediate' },
+  approval_requested: { inApp: true, email: 'immediate' },
+  approval_decided: { inApp: true, email: 'immediate' }
+};
+
+/**
+ * One notification for one user, stored under users/{userId}/notifications
+ */
+export interface Notification {
+  id: string;
+  userId: string;
+  event: NotificationEvent;
+  title: string;
+  body: string;
+  link: string; // App path, e.g. /opportunities/abc
+  resourceType: 'opportunity' | 'assignment' | 'contact' | 'account';
+  resourceId: string;
+  actorId: string | null; // Who caused it; null for scheduled checks
+  inApp: boolean; // Shown in the bell menu
+  email: 'immediate' | 'digest' | null;
+  emailStatus: 'pending' | 'sent' | 'failed' | null; // Digest emails stay pending until the daily run
+  read: boolean;
+  readAt?: Timestamp;
+  createdAt: Timestamp;
+}
+
+export type NotificationInput = Pick<Notification, 'userId' | 'event' | 'title' | 'body' | 'link' | 'resourceType' | 'resourceId' | 'actorId'> & {
+  dedupeKey?: string; // Stored as the document id, so the same reminder is only created once
+};
+
+export interface NotificationsPage {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+// Stored activities carry activityType/subject/followUp fields, which the shared Activity type predates
+interface StoredActivity {
+  id?: string;
+  activityType?: string;
+  subject?: string;
+  assignedTo?: string;
+  status?: string;
+  dateTime?: unknown;
+  followUpNeeded?: boolean;
+  followUpDate?: unknown;
+  followUpSubject?: string;
+}
+
+/**
+ * Activities newly assigned to someone other than the actor, for the record titled `context`
+ */
+const activityAssignments = (
+  before: unknown[] | undefined,
+  after: unknown[] | undefined,
+  context: string,
+  base: Pick<NotificationInput, 'resourceType' | 'resourceId' | 'actorId' | 'link'>
+): NotificationInput[] => {
+  const previous = new Map(((before || []) as StoredActivity[]).map(activity => [activity.id, activity]));
+
+  return ((after || []) as StoredActivity[])
+    .filter(activity =>
+      !!activity.assignedTo &&
+      activity.assignedTo !== base.actorId &&
+      activity.status !== 'Completed' &&
+      previous.get(activity.id)?.assignedTo !== activity.assignedTo)
+    .map(activity => {
+      const date = readDate(activity.dateTime);
+      const when = date ? ` on ${isoDay(date)}` : '';
+      return {
+        ...base,
+        userId: activity.assignedTo!,
+        event: 'activity_assigned' as const,
+        title: `${activity.activityType || 'Activity'} assigned to you`,
+        body: `${activity.subject || 'Untitled activity'}${when} - ${context}`
+      };
+    });
+};
+
+// Firestore's ALREADY_EXISTS status code
+const ALREADY_EXISTS = 6;
+
+/**
+ * Which channels an event reaches for this user. The profile's email and push switches
+ * turn a channel off for every event.
+ */
+export const resolveChannels = (user: User | undefined, event: NotificationEvent): Pick<Notification, 'inApp' | 'email'> => {
+  const settings = user?.notifications;
+  const preference = { ...DEFAULT_EVENT_PREFERENCES[event], ...settings?.events?.[event] };
+
+  const emailEnabled = (settings?.email ?? true) && !!user?.email && preference.email !== 'off';
+  return {
+    inApp: (settings?.push ?? true) && preference.inApp,
+    email: emailEnabled ? preference.email as 'immediate' | 'digest' : null
+  };
+};
+
+export class NotificationsService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  /**
+   * Store a notification on the channels the user wants. Immediate emails are queued as
+   * pending and sent by sendQueuedEmail once the notification is stored, so the change that
+   * caused it never waits on the mail transport. Returns null when every channel is off or
+   * it already exists.
+   */
+  async notify(input: NotificationInput): Promise<Notification | null> {
+    const userDoc = await this.db.collection('users').doc(input.userId).get();
+    if (!userDoc.exists) {
+      return null;
+    }
+
+    const user = { id: userDoc.id, ...userDoc.data() } as User;
+    const channels = resolveChannels(user, input.event);
+    if (!channels.inApp && !channels.email) {
+      return null;
+    }
+
+    const { dedupeKey, ...fields } = input;
+    const ref = dedupeKey ? this.notificationsRef(input.userId).doc(dedupeKey) : this.notificationsRef(input.userId).doc();
+    const notification: Omit<Notification, 'id'> = {
+      ...fields,
+      ...channels,
+      emailStatus: channels.email ? 'pending' : null,
+      read: false,
+      createdAt: Timestamp.now()
+    };
+
+    try {
+      await ref.create(notification);
+    } catch (error) {
+      if ((error as { code?: number }).code === ALREADY_EXISTS) {
+        return null;
+      }
+      throw error;
+    }
+
+    return { id: ref.id, ...notification };
+  }
+
+  /**
+   * Send a stored notification's immediate email if it is still waiting for one
+   */
+  async sendQueuedEmail(userId: string, notificationId: string): Promise<Notification['emailStatus']> {
+    const ref = this.notificationsRef(userId).doc(notificationId);
+    const doc = await ref.get();
+    const notification = doc.exists ? { id: doc.id, ...doc.data() } as Notification : null;
+    if (!notification || notification.email !== 'immediate' || notification.emailStatus !== 'pending') {
+      return notification?.emailStatus ?? null;
+    }
+
+    const userDoc = await this.db.collection('users').doc(userId).get();
+    const user = userDoc.exists ? { id: userDoc.id, ...userDoc.data() } as User : undefined;
+    const emailStatus = user?.email ? await this.sendImmediate(user, notification) : null;
+
+    await ref.update({ emailStatus });
+    return emailStatus;
+  }
+
+  /**
+   * Notify several users, logging failures instead of throwing: a notification problem
+   * must never fail the change that caused it
+   */
+  async notifyAll(inputs: NotificationInput[]): Promise<number> {
+    let created = 0;
+    for (const input of inputs) {
+      try {
+        if (await this.notify(input)) {
+          created++;
+        }
+      } catch (error) {
+        logger.error('Failed to create notification', {
+          event: input.event,
+          userId: input.userId,
+          resourceId: input.resourceId,
+          error: error instanceof Error ? error.message : error
+        });
+      }
+    }
+    return created;
+  }
+
+  /**
+   * Activity assignments, new blockers and stage changes between two versions of an
+   * opportunity. Nobody is notified about their own changes.
+   */
+  async notifyOpportunityChanges(
+    before: Opportunity | null,
+    after: Opportunity & { id: string },
+    actorId: string
+  ): Promise<number> {
+    const link = `/opportunities/${after.id}`;
+    const base = { resourceType: 'opportunity' as const, resourceId: after.id, actorId, link };
+    const inputs = activityAssignments(before?.activities, after.activities, after.title, base);
+
+    if (after.ownerId && after.ownerId !== actorId) {
+      const previousBlockers = new Set((before?.blockers || []).map(blocker => blocker.id));
+      (after.blockers || [])
+        .filter((blocker: ChecklistItem) => !previousBlockers.has(blocker.id) && !blocker.completed)
+        .forEach(blocker => inputs.push({
+          ...base,
+          userId: after.ownerId,
+          event: 'blocker_added',
+          title: `Blocker added on ${after.title}`,
+          body: blocker.text
+        }));
+
+      if (before && before.stage !== after.stage) {
+        inputs.push({
+          ...base,
+          userId: after.ownerId,
+          event: 'stage_changed',
+          title: `${after.title} moved to ${after.stage}`,
+          body: `Stage changed from ${before.stage} to ${after.stage}`
+        });
+      }
+    }
+
+    return this.notifyAll(inputs);
+  }
+
+  /**
+   * Activity assignments between two versions of an assignment. Nobody is notified about
+   * their own changes.
+   */
+  async notifyAssignmentChanges(before: Assignment | null, after: Assignment, actorId: string): Promise<number> {
+    const base = { resourceType: 'assignment' as const, resourceId: after.taskId, actorId, link: '/assignments' };
+    return this.notifyAll(activityAssignments(before?.activities, after.activities, after.title, base));
+  }
+
+  /**
+   * Daily reminders: activity follow-ups due today and assignments past their due date.
+   * Days are UTC; each reminder is created once per follow-up or due date.
+   */
+  async createDueNotifications(now: Date = new Date()): Promise<{ followUps: number; overdueAssignments: number }> {
+    const today = isoDay(now);
+    const startOfToday = new Date(`${today}T00:00:00.000Z`);
+    const inputs: NotificationInput[] = [];
+
+    const opportunities = await this.db.collection('opportunities').get();
+    opportunities.docs.filter(doc => !isDeleted(doc.data())).forEach(doc => {
+      const opportunity = { id: doc.id, ...doc.data() } as Opportunity & { id: string };
+
+      ((opportunity.activities || []) as StoredActivity[])
+        .filter(activity => {
+          const followUpDate = readDate(activity.followUpDate);
+          return activity.followUpNeeded && followUpDate && isoDay(followUpDate) === today;
+        })
+        .forEach(activity => {
+          const userId = activity.assignedTo || opportunity.ownerId;
+          if (!userId) return;
+          inputs.push({
+            userId,
+            event: 'follow_up_due',
+            title: 'Follow-up due today',
+            body: `${activity.followUpSubject || activity.subject || 'Follow-up'} - ${opportunity.title}`,
+            link: `/opportunities/${opportunity.id}`,
+            resourceType: 'opportunity',
+            resourceId: opportunity.id,
+            actorId: null,
+            dedupeKey: `follow_up_due_${opportunity.id}_${activity.id}_${today}`
+          });
+        });
+    });
+    const followUpCount = inputs.length;
+
+    const assignments = await this.db.collection('assignments').where('status', 'in', ['todo', 'in_progress']).get();
+    assignments.docs.filter(doc => !isDeleted(doc.data())).forEach(doc => {
+      const assignment = doc.data() as { title: string; ownerId?: string; dueDate?: unknown };
+      const dueDate = readDate(assignment.dueDate);
+      if (!assignment.ownerId || !dueDate || dueDate >= startOfToday) return;
+
+      const daysOverdue = Math.floor((startOfToday.getTime() - dueDate.getTime()) / DAY_MS) + 1;
+      inputs.push({
+        userId: assignment.ownerId,
+        event: 'assignment_overdue',
+        title: `Assignment overdue: ${assignment.title}`,
+        body: `Was due ${isoDay(dueDate)} (${daysOverdue} ${daysOverdue === 1 ? 'day' : 'days'} ago)`,
+        link: '/assignments',
+        resourceType: 'assignment',
+        resourceId: doc.id,
+        actorId: null,
+        dedupeKey: `assignment_overdue_${doc.id}_${isoDay(dueDate)}`
+      });
+    });
+
+    await this.notifyAll(inputs);
+
+    return { followUps: followUpCount, overdueAssignments: inputs.length - followUpCount };
+  }
+
+  /**
+   * Email each user one message with all their notifications waiting for the digest
+   */
+  async sendDigests(): Promise<{ users: number; notifications: number; failed: number }> {
+    const snapshot = await this.db.collectionGroup('notifications').where('emailStatus', '==', 'pending').get();
+
+    // Immediate emails still pending are sendQueuedEmail's to deliver
+    const byUser = new Map<string, QueryDocumentSnapshot[]>();
+    snapshot.docs.filter(doc => (doc.data() as Notification).email === 'digest').forEach(doc => {
+      const userId = (doc.data() as Notification).userId;
+      byUser.set(userId, [...(byUser.get(userId) || []), doc]);
+    });
+
+    let users = 0;
+    let sent = 0;
+    let failed = 0;
+    for (const [userId, docs] of byUser) {
+      try {
+        const userDoc = await this.db.collection('users').doc(userId).get();
+        const user = userDoc.exists ? { id: userDoc.id, ...userDoc.data() } as User : undefined;
+
+        // Preferences may have changed since the notifications were queued
+        if (!user?.email || user.notifications?.email === false) {
+          await Promise.all(docs.map(doc => doc.ref.update({ emailStatus: null })));
+          continue;
+        }
+
+        const notifications = docs
+          .map(doc => ({ id: doc.id, ...doc.data() } as Notification))
+          .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+        await MailService.send({ to: user.email, ...this.renderDigest(notifications) });
+
+        const batch = this.db.batch();
+        docs.forEach(doc => batch.update(doc.ref, { emailStatus: 'sent' }));
+        await batch.commit();
+        users++;
+        sent += docs.length;
+      } catch (error) {
+        // Left pending, so tomorrow's run tries again
+        failed++;
+        logger.error('Failed to send notification digest', { userId, error: error instanceof Error ? error.message : error });
+      }
+    }
+
+    return { users, notifications: sent, failed };
+  }
+
+  /**
+   * The user's in-app notifications, newest first
+   */
+  async getNotifications(userId: string, limit: number, unreadOnly: boolean): Promise<NotificationsPage> {
+    let query = this.notificationsRef(userId).where('inApp', '==', true);
+    if (unreadOnly) {
+      query = query.where('read', '==', false);
+    }
+
+    const [snapshot, unread] = await Promise.all([
+      query.orderBy('createdAt', 'desc').limit(limit).get(),
+      this.notificationsRef(userId).where('inApp', '==', true).where('read', '==', false).count().get()
+    ]);
+
+    return {
+      notifications: snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Notification)),
+      unreadCount: unread.data().count
+    };
+  }
+
+  /**
+   * Mark the given notifications read, or all unread ones when no ids are given
+   */
+  async markRead(userId: string, notificationIds?: string[]): Promise<number> {
+    const refs = notificationIds
+      ? notificationIds.map(id => this.notificationsRef(userId).doc(id))
+      : (await this.notificationsRef(userId).where('read', '==', false).get()).docs.map(doc => doc.ref);
+
+    const readAt = Timestamp.now();
+    for (let i = 0; i < refs.length; i += 500) {
+      const batch = this.db.batch();
+      refs.slice(i, i + 500).forEach(ref => batch.update(ref, { read: true, readAt }));
+      await batch.commit();
+    }
+
+    return refs.length;
+  }
+
+  private async sendImmediate(user: User, notification: Notification): Promise<Notification['emailStatus']> {
+    const baseUrl = appUrl.value();
+    try {
+      await MailService.send({
+        to: user.email,
+        subject: notification.title,
+        html: `<div style="font-family:Arial,Helvetica,sans-serif;color:#374151;font-size:14px;">
+<p style="font-size:16px;color:#111827;margin:0 0 8px;"><strong>${escapeHtml(notification.title)}</strong></p>
+<p style="margin:0 0 16px;">${escapeHtml(notification.body)}</p>
+<p style="margin:0 0 16px;"><a href="${escapeHtml(baseUrl + notification.link)}" style="color:#2563eb;">Open in Partner Solutions</a></p>
+<p style="font-size:11px;color:#9ca3af;">Choose which notifications you get by email in your profile settings.</p>
+</div>`,
+        text: `${notification.title}\n\n${notification.body}\n\n${baseUrl}${notification.link}`
+      });
+      return 'sent';
+    } catch (error) {
+      logger.error('Failed to email notification', { userId: user.id, event: notification.event, error: error instanceof Error ? error.message : error });
+      return 'failed';
+    }
+  }
+
+  private renderDigest(notifications: Notification[]) {
+    const baseUrl = appUrl.value();
+    const items = notifications.map(notification =>
+      `<li style="margin:0 0 12px;"><a href="${escapeHtml(baseUrl + notification.link)}" style="color:#111827;"><strong>${escapeHtml(notification.title)}</strong></a><br>${escapeHtml(notification.body)}</li>`);
+
+    return {
+      subject: `${notifications.length} ${notifications.length === 1 ? 'notification' : 'notifications'} from Partner Solutions`,
+      html: `<div style="font-family:Arial,Helvetica,sans-serif;color:#374151;font-size:14px;">
+<p style="font-size:16px;color:#111827;margin:0 0 16px;"><strong>Your daily notification digest</strong></p>
+<ul style="padding-left:20px;">${items.join('')}</ul>
+<p style="font-size:11px;color:#9ca3af;">Choose which notifications you get by email in your profile settings.</p>
+</div>`,
+      text: [
+        'Your daily notification digest',
+        '',
+        ...notifications.map(notification => `• ${notification.title}\n  ${notification.body}\n  ${baseUrl}${notification.link}`)
+      ].join('\n')
+    };
+  }
+
+  private notificationsRef(userId: string) {
+    return this.db.collection('users').doc(userId).collection('notifications');
+  }
+}
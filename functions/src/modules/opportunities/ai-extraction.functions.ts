@@ -0,0 +1,61 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { authenticateUser, requirePermission } from '../../shared/auth.middleware';
+import { validateData, commonSchemas } from '../../shared/validation.middleware';
+import { withErrorHandling, NotFoundError } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { AI_SECRETS } from '../../shared/ai/config';
+import { isoDay } from '../../shared/dates';
+import { Contact } from '../../types';
+import { AISummaryService } from './ai-summary.service';
+import { OpportunitiesService } from './opportunities.service';
+import { ContactsService } from '../contacts/contacts.service';
+import { TeamsService } from '../teams/teams.service';
+import { z } from 'zod';
+
+const extractActionsSchema = z.object({
+  opportunityId: commonSchemas.id,
+  notes: z.string().trim().min(1).max(20000),
+  // The caller's local day, so "tomorrow" means the same thing to the rep and the model
+  referenceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional()
+});
+
+/**
+ * Propose activities, checklist items and blockers from pasted meeting notes.
+ * Nothing is saved; the user reviews the proposals and accepts them through updateOpportunity.
+ */
+export const extractOpportunityActions = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10,
+    secrets: AI_SECRETS
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:generateSummary');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.heavy.maxRequests, RateLimitPresets.heavy.windowMs, 'extractOpportunityActions');
+
+    const { opportunityId, notes, referenceDate } = validateData(extractActionsSchema, request.data);
+
+    const db = getFirestore();
+    const opportunity = await new OpportunitiesService(db).getOpportunity(opportunityId);
+    if (!opportunity) {
+      throw new NotFoundError('Opportunity', opportunityId);
+    }
+    await new TeamsService(db).assertCanView(user, 'opportunities', opportunity);
+
+    const contactsService = new ContactsService(db);
+    const contacts = (await Promise.all((opportunity.contactIds || []).map(id => contactsService.getContact(id))))
+      .filter((contact): contact is Contact => !!contact);
+
+    return await new AISummaryService().extractActions(
+      opportunity,
+      notes,
+      contacts,
+      referenceDate || isoDay(new Date()),
+      { trigger: 'manual', userId: user.uid }
+    );
+  }, { functionName: 'extractOpportunityActions', action: 'AI_EXTRACT_ACTIONS' })
+);
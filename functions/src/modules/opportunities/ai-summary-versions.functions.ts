@@ -0,0 +1,110 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { authenticateUser, requirePermission, AuthenticatedUser } from '../../shared/auth.middleware';
+import { validateData, commonSchemas } from '../../shared/validation.middleware';
+import { withErrorHandling, NotFoundError } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { AISummaryVersionsService } from './ai-summary-versions.service';
+import { OpportunitiesService } from './opportunities.service';
+import { TeamsService } from '../teams/teams.service';
+import { z } from 'zod';
+
+const getVersionsSchema = z.object({
+  opportunityId: commonSchemas.id,
+  limit: z.number().int().min(1).max(100).default(20)
+});
+
+const rateSummarySchema = z.object({
+  summaryId: commonSchemas.id,
+  rating: z.enum(['up', 'down']),
+  comment: z.string().trim().max(1000).optional()
+});
+
+const getRatingStatsSchema = z.object({
+  promptVersion: z.string().trim().min(1).max(100).optional(),
+  from: z.string().datetime().transform(value => new Date(value)).optional(),
+  to: z.string().datetime().transform(value => new Date(value)).optional()
+});
+
+const getVersionsService = () => new AISummaryVersionsService(getFirestore());
+
+/**
+ * Summaries follow their opportunity: only users who can see it can browse or rate them
+ */
+const assertOpportunityAccess = async (user: AuthenticatedUser, opportunityId: string): Promise<void> => {
+  const opportunity = await new OpportunitiesService(getFirestore()).getOpportunity(opportunityId);
+  if (!opportunity) {
+    throw new NotFoundError('Opportunity', opportunityId);
+  }
+  await new TeamsService(getFirestore()).assertCanView(user, 'opportunities', opportunity);
+};
+
+/**
+ * Executive summaries generated for an opportunity, newest first
+ */
+export const getAISummaryVersions = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getAISummaryVersions');
+
+    const { opportunityId, limit } = validateData(getVersionsSchema, request.data);
+    await assertOpportunityAccess(user, opportunityId);
+
+    const versions = await getVersionsService().getVersions(opportunityId, user.uid, limit);
+
+    return { versions };
+  }, { functionName: 'getAISummaryVersions', action: 'AI_SUMMARY_LIST' })
+);
+
+/**
+ * Thumbs up or down on a generated summary, with an optional comment
+ */
+export const rateAISummary = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'rateAISummary');
+
+    const { summaryId, rating, comment } = validateData(rateSummarySchema, request.data);
+
+    const service = getVersionsService();
+    const summary = await service.getVersion(summaryId);
+    await assertOpportunityAccess(user, summary.opportunityId);
+
+    return await service.rateSummary(summaryId, rating, comment, user.uid, user.email);
+  }, { functionName: 'rateAISummary', action: 'AI_SUMMARY_RATE' })
+);
+
+/**
+ * Summary ratings grouped by prompt version and model
+ */
+export const getAISummaryRatingStats = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'aiSummaries:stats');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getAISummaryRatingStats');
+
+    const filters = validateData(getRatingStatsSchema, request.data || {});
+
+    return await getVersionsService().getRatingStats(filters);
+  }, { functionName: 'getAISummaryRatingStats', action: 'AI_SUMMARY_STATS' })
+);
@@ -0,0 +1,274 @@
+import {
+  FieldValue,
+  Firestore,
+  Query,
+  Timestamp
+} from 'firebase-admin/firestore';
+import { AuditService } from '../../shared/audit.service';
+import { NotFoundError } from '../../shared/errors';
+import { AIUsage } from '../../shared/ai/types';
+import { GeneratedSummary } from './ai-summary.service';
+
+export type SummaryTrigger = 'manual' | 'nightly';
+
+export type SummaryRatingValue = 'up' | 'down';
+
+/**
+ * One generated executive summary; the opportunity only keeps the latest text
+ */
+export interface AISummaryVersion {
+  id: string;
+  opportunityId: string;
+  text: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  inputHash: string;
+  usage?: AIUsage;
+  trigger: SummaryTrigger;
+  generatedBy: string;
+  generatedAt: Timestamp;
+  ratingCounts: { up: number; down: number };
+}
+
+/**
+ * A user's verdict on a summary, keyed by summary and user so re-rating replaces it.
+ * Prompt and model are copied from the summary so ratings can be queried on their own.
+ */
+export interface AISummaryRating {
+  id: string;
+  summaryId: string;
+  opportunityId: string;
+  userId: string;
+  rating: SummaryRatingValue;
+  comment: string | null;
+  promptVersion: string;
+  provider: string;
+  model: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface RatingStatsFilters {
+  promptVersion?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface PromptRatingStats {
+  promptVersion: string;
+  provider: string;
+  model: string;
+  up: number;
+  down: number;
+  total: number;
+  approvalRate: number;
+  firstRatedAt: Timestamp;
+  lastRatedAt: Timestamp;
+}
+
+// Upper bound on ratings read for one stats request
+const MAX_STATS_RATINGS = 5000;
+const RECENT_COMMENTS = 20;
+
+export class AISummaryVersionsService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  /**
+   * Store a generated summary as a new version and return its id
+   */
+  async recordVersion(
+    opportunityId: string,
+    summary: GeneratedSummary,
+    trigger: SummaryTrigger,
+    generatedBy: string,
+    generatedAt: Timestamp
+  ): Promise<string> {
+    const ref = this.db.collection('ai_summaries').doc();
+    const version: Omit<AISummaryVersion, 'id'> = {
+      opportunityId,
+      text: summary.text,
+      provider: summary.provider,
+      model: summary.model,
+      promptVersion: summary.promptVersion,
+      inputHash: summary.inputHash,
+      ...(summary.usage && { usage: summary.usage }),
+      trigger,
+      generatedBy,
+      generatedAt,
+      ratingCounts: { up: 0, down: 0 }
+    };
+
+    await ref.set(version);
+    return ref.id;
+  }
+
+  /**
+   * Past summaries of an opportunity, newest first, with the caller's own rating on each
+   */
+  async getVersions(
+    opportunityId: string,
+    userId: string,
+    limit: number
+  ): Promise<Array<AISummaryVersion & { myRating: AISummaryRating | null }>> {
+    const snapshot = await this.db.collection('ai_summaries')
+      .where('opportunityId', '==', opportunityId)
+      .orderBy('generatedAt', 'desc')
+      .limit(limit)
+      .get();
+
+    if (snapshot.empty) {
+      return [];
+    }
+
+    const ratingDocs = await this.db.getAll(
+      ...snapshot.docs.map(doc => this.ratingRef(doc.id, userId))
+    );
+
+    return snapshot.docs.map((doc, index) => {
+      const rating = ratingDocs[index];
+      return {
+        id: doc.id,
+        ...doc.data(),
+        myRating: rating.exists ? ({ id: rating.id, ...rating.data() } as AISummaryRating) : null
+      } as AISummaryVersion & { myRating: AISummaryRating | null };
+    });
+  }
+
+  async getVersion(summaryId: string): Promise<AISummaryVersion> {
+    const doc = await this.db.collection('ai_summaries').doc(summaryId).get();
+    if (!doc.exists) {
+      throw new NotFoundError('AI summary', summaryId);
+    }
+    return { id: doc.id, ...doc.data() } as AISummaryVersion;
+  }
+
+  /**
+   * Rate a summary up or down; a second rating by the same user replaces the first
+   */
+  async rateSummary(
+    summaryId: string,
+    rating: SummaryRatingValue,
+    comment: string | undefined,
+    userId: string,
+    userEmail?: string
+  ): Promise<AISummaryRating> {
+    const summaryRef = this.db.collection('ai_summaries').doc(summaryId);
+    const ratingRef = this.ratingRef(summaryId, userId);
+
+    const saved = await this.db.runTransaction(async (transaction) => {
+      const [summaryDoc, ratingDoc] = await Promise.all([
+        transaction.get(summaryRef),
+        transaction.get(ratingRef)
+      ]);
+
+      if (!summaryDoc.exists) {
+        throw new NotFoundError('AI summary', summaryId);
+      }
+
+      const summary = summaryDoc.data() as Omit<AISummaryVersion, 'id'>;
+      const previous = ratingDoc.exists ? (ratingDoc.data() as Omit<AISummaryRating, 'id'>) : null;
+      const now = Timestamp.now();
+
+      const saved: Omit<AISummaryRating, 'id'> = {
+        summaryId,
+        opportunityId: summary.opportunityId,
+        userId,
+        rating,
+        comment: comment || null,
+        promptVersion: summary.promptVersion,
+        provider: summary.provider,
+        model: summary.model,
+        createdAt: previous?.createdAt || now,
+        updatedAt: now
+      };
+
+      transaction.set(ratingRef, saved);
+
+      // Keep the counters on the summary in step with the ratings
+      if (previous?.rating !== rating) {
+        transaction.update(summaryRef, {
+          [`ratingCounts.${rating}`]: FieldValue.increment(1),
+          ...(previous && { [`ratingCounts.${previous.rating}`]: FieldValue.increment(-1) })
+        });
+      }
+
+      return saved;
+    });
+
+    await AuditService.log({
+      userId,
+      userEmail,
+      action: 'rate_ai_summary',
+      resourceType: 'ai_summary',
+      resourceId: summaryId,
+      data: { opportunityId: saved.opportunityId, rating, promptVersion: saved.promptVersion }
+    });
+
+    return { id: ratingRef.id, ...saved };
+  }
+
+  /**
+   * Ratings grouped by prompt version and model, to tell whether a prompt change helped
+   */
+  async getRatingStats(filters: RatingStatsFilters): Promise<{
+    stats: PromptRatingStats[];
+    recentComments: AISummaryRating[];
+    truncated: boolean;
+  }> {
+    let query: Query = this.db.collection('ai_summary_ratings');
+
+    if (filters.promptVersion) {
+      query = query.where('promptVersion', '==', filters.promptVersion);
+    }
+    if (filters.from) {
+      query = query.where('createdAt', '>=', Timestamp.fromDate(filters.from));
+    }
+    if (filters.to) {
+      query = query.where('createdAt', '<=', Timestamp.fromDate(filters.to));
+    }
+
+    const snapshot = await query.orderBy('createdAt', 'desc').limit(MAX_STATS_RATINGS).get();
+    const ratings = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as AISummaryRating));
+
+    const groups = new Map<string, PromptRatingStats>();
+    ratings.forEach(rating => {
+      const key = `${rating.promptVersion}|${rating.provider}|${rating.model}`;
+      const group = groups.get(key) || {
+        promptVersion: rating.promptVersion,
+        provider: rating.provider,
+        model: rating.model,
+        up: 0,
+        down: 0,
+        total: 0,
+        approvalRate: 0,
+        firstRatedAt: rating.createdAt,
+        lastRatedAt: rating.createdAt
+      };
+
+      group[rating.rating]++;
+      group.total++;
+      // Ratings arrive newest first
+      group.firstRatedAt = rating.createdAt;
+      groups.set(key, group);
+    });
+
+    const stats = Array.from(groups.values())
+      .map(group => ({ ...group, approvalRate: group.up / group.total }))
+      .sort((a, b) => b.lastRatedAt.toMillis() - a.lastRatedAt.toMillis());
+
+    return {
+      stats,
+      recentComments: ratings.filter(rating => rating.comment).slice(0, RECENT_COMMENTS),
+      truncated: snapshot.size === MAX_STATS_RATINGS
+    };
+  }
+
+  private ratingRef(summaryId: string, userId: string) {
+    return this.db.collection('ai_summary_ratings').doc(`${summaryId}_${userId}`);
+  }
+}
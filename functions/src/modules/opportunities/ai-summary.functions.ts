@@ -1,19 +1,24 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { onSchedule } from 'firebase-functions/v2/scheduler';
 import { Timestamp } from 'firebase-admin/firestore';
-import { authenticateUser } from '../../shared/auth.middleware';
+import { authenticateUser, requirePermission, AuthError, toHttpsAuthError } from '../../shared/auth.middleware';
 import { AISummaryService } from './ai-summary.service';
 import { OpportunitiesService } from './opportunities.service';
+import { TeamsService } from '../teams/teams.service';
+import { AISummaryVersionsService } from './ai-summary-versions.service';
 import { getFirestore } from 'firebase-admin/firestore';
-import { defineSecret } from 'firebase-functions/params';
+import { AI_SECRETS } from '../../shared/ai/config';
+import { AIUsageService } from '../../shared/ai/usage.service';
+import { BusinessLogicError } from '../../shared/errors';
+import { OpportunityPriority } from '../../types';
 
-// Define the AI API keys as secrets
-const googleAiApiKey = defineSecret('GOOGLE_AI_API_KEY');
-const openaiApiKey = defineSecret('OPENAI_API_KEY');
+// Once a budget is used up the nightly run keeps summarising these and skips the rest
+const OVER_BUDGET_PRIORITIES: OpportunityPriority[] = ['Critical', 'High'];
 
 // Lazy initialization variables
 let opportunitiesService: OpportunitiesService | null = null;
 let aiSummaryService: AISummaryService | null = null;
+let aiSummaryVersionsService: AISummaryVersionsService | null = null;
 
 function getOpportunitiesService(): OpportunitiesService {
   if (!opportunitiesService) {
@@ -30,6 +35,13 @@ function getAISummaryService(): AISummaryService {
   return aiSummaryService;
 }
 
+function getAISummaryVersionsService(): AISummaryVersionsService {
+  if (!aiSummaryVersionsService) {
+    aiSummaryVersionsService = new AISummaryVersionsService(getFirestore());
+  }
+  return aiSummaryVersionsService;
+}
+
 /**
  * Manual trigger for generating AI summary for a specific opportunity
  */
@@ -38,7 +50,7 @@ export const generateOpportunitySummaryManualV2 = onCall({
   cors: ['http://localhost:5173', 'https://localhost:5173', 'http://127.0.0.1:5173', 'https://iol-partner-solutions.web.app', 'https://iol-partner-solutions.firebaseapp.com'],
   maxInstances: 10,
   memory: '256MiB',
-  secrets: [googleAiApiKey, openaiApiKey],
+  secrets: AI_SECRETS,
 }, async (request) => {
   const startTime = Date.now();
   console.log('🚀 AI Summary Function V2 Started');
@@ -51,6 +63,7 @@ export const generateOpportunitySummaryManualV2 = onCall({
     // Step 1: Authentication
     console.log('🔍 Step 1: Authenticating user...');
     const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:generateSummary');
     console.log('✅ User authenticated:', user.uid);
     
     // Step 2: Input validation
@@ -91,9 +104,10 @@ export const generateOpportunitySummaryManualV2 = onCall({
     console.log('  - Owner:', opportunity.ownerId);
     console.log('  - Last updated:', opportunity.updatedAt?.toDate().toISOString());
 
-    // Step 5: Check permissions (user owns opportunity)
+    // Step 5: Check permissions (opportunity is within the user's visibility)
     console.log('🔍 Step 5: Checking permissions...');
-    if (opportunity.ownerId !== user.uid) {
+    const visibility = await new TeamsService(getFirestore()).resolveVisibility(user);
+    if (!visibility.canView('opportunities', opportunity)) {
       console.error('❌ Permission denied - User:', user.uid, 'Opportunity owner:', opportunity.ownerId);
       throw new HttpsError('permission-denied', 'You do not have permission to generate summary for this opportunity');
     }
@@ -102,7 +116,8 @@ export const generateOpportunitySummaryManualV2 = onCall({
     // Step 6: Generate AI summary
     console.log('🔍 Step 6: Generating AI summary...');
     const summaryStartTime = Date.now();
-    const summary = await aiSummaryServiceInstance.generateExecutiveSummary(opportunity);
+    const generated = await aiSummaryServiceInstance.generateExecutiveSummary(opportunity, { trigger: 'manual', userId: user.uid });
+    const summary = generated.text;
     const summaryDuration = Date.now() - summaryStartTime;
     
     console.log('✅ AI summary generated successfully:');
@@ -110,17 +125,18 @@ export const generateOpportunitySummaryManualV2 = onCall({
     console.log('  - Generation time:', summaryDuration, 'ms');
     console.log('  - Summary preview:', summary.substring(0, 100) + (summary.length > 100 ? '...' : ''));
 
-    // Step 7: Update opportunity in database (without audit logging to avoid errors)
+    // Step 7: Keep this summary as a version, then make it the opportunity's current one
     console.log('🔍 Step 7: Updating opportunity with new summary...');
     const updateStartTime = Date.now();
     const generatedAt = Timestamp.now();
+    const summaryId = await getAISummaryVersionsService().recordVersion(opportunityId, generated, 'manual', user.uid, generatedAt);
     
-    await opportunitiesServiceInstance.updateOpportunity(opportunityId, {
+    await opportunitiesServiceInstance.saveAISummary(opportunityId, {
       aiSummary: summary,
+      aiSummaryId: summaryId,
       aiSummaryGeneratedAt: generatedAt,
-      aiSummaryManuallyRequested: true,
-      updatedAt: generatedAt
-    }, user.uid);
+      aiSummaryManuallyRequested: true
+    });
     
     const updateDuration = Date.now() - updateStartTime;
     console.log('✅ Opportunity updated successfully');
@@ -131,6 +147,7 @@ export const generateOpportunitySummaryManualV2 = onCall({
     const response = { 
       success: true, 
       summary: summary,
+      summaryId,
       generatedAt: generatedAt.toDate().toISOString(),
       metadata: {
         opportunityId,
@@ -168,6 +185,12 @@ export const generateOpportunitySummaryManualV2 = onCall({
       console.error('🚨 Re-throwing HttpsError:', error.code, error.message);
       throw error;
     }
+    if (error instanceof AuthError) {
+      throw toHttpsAuthError(error);
+    }
+    if (error instanceof BusinessLogicError) {
+      throw new HttpsError('failed-precondition', error.message, { code: error.code, details: error.details });
+    }
     
     const errorMessage = error instanceof Error ? error.message : 'Failed to generate AI summary';
     console.error('🚨 Throwing new internal error:', errorMessage);
@@ -212,7 +235,7 @@ export const generateAISummariesNightly = onSchedule({
   timeZone: 'UTC',
   region: 'us-central1',
   memory: '512MiB',
-  secrets: [googleAiApiKey, openaiApiKey],
+  secrets: AI_SECRETS,
 }, async (event) => {
   const startTime = Date.now();
   console.log('🌙 Nightly AI Summary Generation Started');
@@ -228,7 +251,9 @@ export const generateAISummariesNightly = onSchedule({
     
     // Get all opportunities from Firestore
     const opportunitiesSnapshot = await db.collection('opportunities').get();
-    const totalOpportunities = opportunitiesSnapshot.docs.length;
+    // Skip opportunities that have been moved to the trash
+    const opportunityDocs = opportunitiesSnapshot.docs.filter(doc => !doc.data().deletedAt);
+    const totalOpportunities = opportunityDocs.length;
     
     console.log(`📋 Found ${totalOpportunities} opportunities to process`);
 
@@ -240,10 +265,12 @@ export const generateAISummariesNightly = onSchedule({
     let processedCount = 0;
     let successCount = 0;
     let errorCount = 0;
+    let budgetSkippedCount = 0;
     const errors: string[] = [];
+    const usageService = new AIUsageService(db);
 
     // Process each opportunity
-    for (const doc of opportunitiesSnapshot.docs) {
+    for (const doc of opportunityDocs) {
       const opportunityId = doc.id;
       const opportunityData = doc.data();
       
@@ -270,20 +297,31 @@ export const generateAISummariesNightly = onSchedule({
           continue;
         }
 
+        // Checked per opportunity: the run's own spend can push it over budget part way through
+        if (!OVER_BUDGET_PRIORITIES.includes(opportunity.priority || 'Medium')) {
+          const budgetStatus = await usageService.getBudgetStatus();
+          if (budgetStatus.exceeded) {
+            console.log(`💸 ${budgetStatus.exceeded} AI budget exceeded, skipping ${opportunity.priority || 'Medium'} priority opportunity ${opportunityId}`);
+            budgetSkippedCount++;
+            processedCount++;
+            continue;
+          }
+        }
+
         console.log(`🤖 Generating AI summary for opportunity: ${opportunityId}`);
         
         // Generate AI summary
-        const aiSummary = await aiSummaryService.generateExecutiveSummary(opportunity);
+        const generated = await aiSummaryService.generateExecutiveSummary(opportunity, { trigger: 'nightly', userId: 'system' });
+        const generatedAt = Timestamp.now();
+        const summaryId = await getAISummaryVersionsService().recordVersion(opportunityId, generated, 'nightly', 'system', generatedAt);
         
-        // Update the opportunity with the new AI summary
-        const updateData = {
-          aiSummary: aiSummary,
-          aiSummaryGeneratedAt: Timestamp.now(),
-          aiSummaryManuallyRequested: false, // Reset manual request flag
-          updatedAt: Timestamp.now()
-        };
-
-        await opportunitiesService.updateOpportunity(opportunityId, updateData, 'system');
+        // Store the new AI summary on the opportunity
+        await opportunitiesService.saveAISummary(opportunityId, {
+          aiSummary: generated.text,
+          aiSummaryId: summaryId,
+          aiSummaryGeneratedAt: generatedAt,
+          aiSummaryManuallyRequested: false // Reset manual request flag
+        });
         
         console.log(`✅ Successfully updated AI summary for opportunity: ${opportunityId}`);
         successCount++;
@@ -310,6 +348,7 @@ export const generateAISummariesNightly = onSchedule({
     console.log(`   Total Opportunities: ${totalOpportunities}`);
     console.log(`   Processed: ${processedCount}`);
     console.log(`   Successful: ${successCount}`);
+    console.log(`   Skipped over budget: ${budgetSkippedCount}`);
     console.log(`   Errors: ${errorCount}`);
     console.log(`   Execution Time: ${executionTime}ms`);
     
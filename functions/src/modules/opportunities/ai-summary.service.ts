@@ -1,22 +1,120 @@
-import { Opportunity } from '../../types';
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { Contact, Opportunity } from '../../types';
 import { Timestamp } from 'firebase-admin/firestore';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import OpenAI from 'openai';
-import { defineSecret } from 'firebase-functions/params';
-
-// Define the AI API keys as secrets
-const googleAiApiKey = defineSecret('GOOGLE_AI_API_KEY');
-const openaiApiKey = defineSecret('OPENAI_API_KEY');
-
-// AI Provider Configuration - Uncomment the one you want to use
-const AI_PROVIDER = 'openai'; // 'google' or 'openai'
-// const AI_PROVIDER = 'google'; // 'google' or 'openai'
+import { AIService } from '../../shared/ai/ai.service';
+import { AICallContext, AIUsage } from '../../shared/ai/types';
+import { AppError, BusinessLogicError } from '../../shared/errors';
+
+/**
+ * Bump whenever the executive summary prompt changes, so ratings can be compared per prompt
+ */
+export const SUMMARY_PROMPT_VERSION = 'executive-v1';
+
+export interface GeneratedSummary {
+  text: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  inputHash: string; // sha256 of the full prompt, equal hashes mean the model saw the same input
+  usage?: AIUsage;
+}
+
+export const EXTRACTION_PROMPT_VERSION = 'extract-actions-v1';
+
+const ACTIVITY_TYPES = ['Meeting', 'Email', 'Call', 'WhatsApp', 'Demo', 'Workshop'] as const;
+const ACTIVITY_METHODS = ['In-person', 'Zoom', 'Phone', 'Teams', 'Email'] as const;
+
+export type ProposedActivityType = typeof ACTIVITY_TYPES[number];
+export type ProposedActivityMethod = typeof ACTIVITY_METHODS[number];
+
+export interface ProposedActivity {
+  subject: string;
+  activityType: ProposedActivityType;
+  method: ProposedActivityMethod;
+  date: string | null; // yyyy-MM-dd
+  notes: string;
+  relatedContactIds: string[];
+}
+
+export interface ProposedChecklistItem {
+  text: string;
+  dueDate: string | null; // yyyy-MM-dd
+}
+
+export interface MentionedContact {
+  mention: string;
+  contactId: string | null; // null when no contact on the opportunity matches
+}
+
+/**
+ * Proposed items only: nothing is written until the user accepts them
+ */
+export interface ExtractedActions {
+  activities: ProposedActivity[];
+  checklist: ProposedChecklistItem[];
+  blockers: ProposedChecklistItem[];
+  mentionedContacts: MentionedContact[];
+  provider: string;
+  model: string;
+  promptVersion: string;
+}
+
+// Models drift from the requested shape, so everything but the item text is optional
+const extractedItemSchema = z.object({
+  text: z.string().trim().min(1),
+  dueDate: z.string().nullish()
+});
+
+const extractionResponseSchema = z.object({
+  activities: z.array(z.object({
+    subject: z.string().trim().min(1),
+    activityType: z.string().nullish(),
+    method: z.string().nullish(),
+    date: z.string().nullish(),
+    notes: z.string().nullish(),
+    contacts: z.array(z.string()).nullish()
+  })).nullish(),
+  checklist: z.array(extractedItemSchema).nullish(),
+  blockers: z.array(extractedItemSchema).nullish(),
+  contacts: z.array(z.string()).nullish()
+});
+
+const toIsoDay = (value: string | null | undefined): string | null => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  return isNaN(new Date(`${value}T00:00:00Z`).getTime()) ? null : value;
+};
+
+const defaultMethod = (activityType: ProposedActivityType): ProposedActivityMethod => {
+  if (activityType === 'Email') return 'Email';
+  if (activityType === 'Call') return 'Phone';
+  return 'In-person';
+};
+
+/**
+ * Match a name or email the notes mention to one of the opportunity's contacts.
+ * Full names and emails win; a single first or last name only matches when it is unambiguous.
+ */
+const matchContact = (mention: string, contacts: Contact[]): Contact | null => {
+  const needle = mention.trim().toLowerCase();
+  if (!needle) return null;
+
+  const exact = contacts.find(contact =>
+    contact.name.trim().toLowerCase() === needle || contact.email?.trim().toLowerCase() === needle
+  );
+  if (exact) return exact;
+
+  const partial = contacts.filter(contact => {
+    const name = contact.name.trim().toLowerCase();
+    return name.split(/\s+/).includes(needle) || (needle.includes(' ') && name.includes(needle));
+  });
+  return partial.length === 1 ? partial[0] : null;
+};
 
 export class AISummaryService {
   
-  async generateExecutiveSummary(opportunity: Opportunity): Promise<string> {
+  async generateExecutiveSummary(opportunity: Opportunity, context: AICallContext): Promise<GeneratedSummary> {
     console.log('🧠 AISummaryService: Starting AI executive summary generation');
-    console.log('🤖 Using AI Provider:', AI_PROVIDER.toUpperCase());
     console.log('📋 Opportunity details:', {
       id: opportunity.id,
       title: opportunity.title,
@@ -26,19 +124,20 @@ export class AISummaryService {
     });
 
     try {
-      console.log(`🤖 Generating AI summary with ${AI_PROVIDER.toUpperCase()}...`);
-      const summary = await this.generateAISummary(opportunity);
+      const summary = await this.generateAISummary(opportunity, context);
       console.log('✅ AI summary generated successfully');
       return summary;
     } catch (error) {
       console.error('❌ Error generating AI summary:', error);
+      // Budget and other business errors already carry a message meant for the user
+      if (error instanceof AppError) {
+        throw error;
+      }
       throw new Error(`Failed to generate AI summary: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private async generateAISummary(opportunity: Opportunity): Promise<string> {
-    console.log('🔍 Analyzing opportunity data for AI generation...');
-    
+  private async generateAISummary(opportunity: Opportunity, context: AICallContext): Promise<GeneratedSummary> {
     // Format opportunity data for AI prompt
     const opportunityContext = this.buildOpportunityContext(opportunity);
     
@@ -48,110 +147,26 @@ export class AISummaryService {
 OPPORTUNITY DATA:
 ${opportunityContext}`;
 
-    console.log('🤖 AI Prompt prepared:', {
-      promptLength: aiPrompt.length,
-      contextLines: opportunityContext.split('\n').length
-    });
-    
-    console.log('📋 FULL AI PROMPT - START');
-    console.log('='.repeat(50));
-    
-    // Break prompt into chunks to avoid log truncation
-    const promptChunks = aiPrompt.match(/.{1,800}/g) || [aiPrompt];
-    promptChunks.forEach((chunk, index) => {
-      console.log(`📋 PROMPT CHUNK ${index + 1}/${promptChunks.length}:`);
-      console.log(chunk);
-      console.log('---');
-    });
-    
-    console.log('📋 FULL AI PROMPT - END');
-    console.log('='.repeat(50));
-
-    // Route to the appropriate AI provider
-    if (AI_PROVIDER === 'openai') {
-      return await this.generateOpenAISummary(aiPrompt);
-    } else {
-      return await this.generateGoogleAISummary(aiPrompt);
-    }
-  }
-
-  private async generateOpenAISummary(prompt: string): Promise<string> {
-    console.log('🚀 Calling OpenAI ChatGPT-4o...');
-    
-    // Check if API key is available
-    const apiKey = openaiApiKey.value();
-    if (!apiKey) {
-      throw new Error('OpenAI API key not configured. Please set the OPENAI_API_KEY environment variable.');
-    }
+    const { text, provider, model, usage } = await AIService.generate({ task: 'opportunity-summary', prompt: aiPrompt, context });
 
-    // Initialize OpenAI
-    const openai = new OpenAI({
-      apiKey: apiKey,
+    console.log('✅ AI response received:', {
+      provider,
+      length: text.length,
+      sentences: text.split('.').filter(s => s.trim()).length
     });
 
-    try {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o", // ChatGPT-4o model
-        messages: [
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        max_tokens: 1000,
-        temperature: 0.7,
-      });
-
-      const aiSummary = completion.choices[0]?.message?.content?.trim();
-      
-      console.log('✅ OpenAI response received:', {
-        length: aiSummary?.length || 0,
-        sentences: aiSummary?.split('.').filter(s => s.trim()).length || 0
-      });
-
-      if (!aiSummary || aiSummary.length < 10) {
-        throw new Error('OpenAI generated empty or invalid summary');
-      }
-
-      return aiSummary;
-    } catch (error) {
-      console.error('❌ OpenAI API error:', error);
-      throw new Error(`OpenAI API failed: ${error instanceof Error ? error.message : 'Unknown API error'}`);
-    }
-  }
-
-  private async generateGoogleAISummary(prompt: string): Promise<string> {
-    console.log('🚀 Calling Google Gemini AI...');
-    
-    // Check if API key is available
-    const apiKey = googleAiApiKey.value();
-    if (!apiKey) {
-      throw new Error('Google AI API key not configured. Please set the GOOGLE_AI_API_KEY environment variable.');
+    if (!text || text.length < 10) {
+      throw new Error(`${provider} generated empty or invalid summary`);
     }
 
-    // Initialize Google AI
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-
-    try {
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const aiSummary = response.text().trim();
-      
-      console.log('✅ Google AI response received:', {
-        length: aiSummary.length,
-        sentences: aiSummary.split('.').filter(s => s.trim()).length
-      });
-
-      if (!aiSummary || aiSummary.length < 10) {
-        throw new Error('Google AI generated empty or invalid summary');
-      }
-
-      return aiSummary;
-    } catch (error) {
-      console.error('❌ Google AI API error:', error);
-      throw new Error(`Google AI API failed: ${error instanceof Error ? error.message : 'Unknown API error'}`);
-    }
+    return {
+      text,
+      provider,
+      model,
+      promptVersion: SUMMARY_PROMPT_VERSION,
+      inputHash: createHash('sha256').update(aiPrompt).digest('hex'),
+      usage
+    };
   }
 
   private buildOpportunityContext(opportunity: Opportunity): string {
@@ -258,6 +273,106 @@ ${opportunityContext}`;
 
 
 
+  /**
+   * Propose follow-up activities, checklist items and blockers from free-form meeting notes.
+   * Relative dates in the notes are resolved against referenceDate (yyyy-MM-dd).
+   */
+  async extractActions(
+    opportunity: Opportunity,
+    notes: string,
+    contacts: Contact[],
+    referenceDate: string,
+    context: AICallContext
+  ): Promise<ExtractedActions> {
+    const contactLines = contacts.length > 0
+      ? contacts.map(contact => `- ${contact.name}${contact.position ? ` (${contact.position})` : ''} <${contact.email}>`).join('\n')
+      : 'No contacts recorded.';
+
+    const aiPrompt = `Extract the concrete next steps from the meeting notes below for an iOL CRM opportunity. Only include items the notes actually state or clearly imply; do not invent work. Resolve relative dates ("next Tuesday", "end of month") against today's date and write every date as YYYY-MM-DD, or null when no date is given.
+
+Reply with JSON only, no prose and no code fences, in exactly this shape:
+{"activities":[{"subject":"","activityType":"Meeting|Email|Call|WhatsApp|Demo|Workshop","method":"In-person|Zoom|Phone|Teams|Email","date":"YYYY-MM-DD","notes":"","contacts":["name"]}],"checklist":[{"text":"","dueDate":"YYYY-MM-DD"}],"blockers":[{"text":"","dueDate":null}],"contacts":["name"]}
+
+- activities: scheduled follow-ups such as calls, meetings, demos or emails to send
+- checklist: tasks someone has to complete, with a due date when one is mentioned
+- blockers: anything preventing progress, such as open objections, missing approvals or dependencies
+- contacts: every person from the contact list mentioned in the notes, using the name as listed
+
+Today's date: ${referenceDate}
+Title: ${opportunity.title}
+
+CONTACTS:
+${contactLines}
+
+MEETING NOTES:
+${notes}`;
+
+    const { text, provider, model } = await AIService.generate({ task: 'action-extraction', prompt: aiPrompt, context });
+
+    const parsed = this.parseExtraction(text);
+    const contactIdsFor = (mentions: string[] | null | undefined) => Array.from(new Set(
+      (mentions || [])
+        .map(mention => matchContact(mention, contacts)?.id)
+        .filter((id): id is string => !!id)
+    ));
+
+    const activities = (parsed.activities || []).map(activity => {
+      const activityType = ACTIVITY_TYPES.find(type => type.toLowerCase() === activity.activityType?.toLowerCase()) || 'Meeting';
+      const method = ACTIVITY_METHODS.find(value => value.toLowerCase() === activity.method?.toLowerCase()) || defaultMethod(activityType);
+      return {
+        subject: activity.subject,
+        activityType,
+        method,
+        date: toIsoDay(activity.date),
+        notes: activity.notes?.trim() || '',
+        relatedContactIds: contactIdsFor(activity.contacts)
+      };
+    });
+
+    const toChecklistItem = (item: z.infer<typeof extractedItemSchema>): ProposedChecklistItem => ({
+      text: item.text,
+      dueDate: toIsoDay(item.dueDate)
+    });
+
+    const mentions = Array.from(new Set([
+      ...(parsed.contacts || []),
+      ...(parsed.activities || []).flatMap(activity => activity.contacts || [])
+    ].map(mention => mention.trim()).filter(Boolean)));
+
+    return {
+      activities,
+      checklist: (parsed.checklist || []).map(toChecklistItem),
+      blockers: (parsed.blockers || []).map(toChecklistItem),
+      mentionedContacts: mentions.map(mention => ({
+        mention,
+        contactId: matchContact(mention, contacts)?.id || null
+      })),
+      provider,
+      model,
+      promptVersion: EXTRACTION_PROMPT_VERSION
+    };
+  }
+
+  private parseExtraction(text: string): z.infer<typeof extractionResponseSchema> {
+    // Tolerate code fences or a sentence around the JSON object
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+
+    try {
+      if (start === -1 || end < start) {
+        throw new Error('No JSON object in response');
+      }
+      const result = extractionResponseSchema.safeParse(JSON.parse(text.slice(start, end + 1)));
+      if (!result.success) {
+        throw new Error(result.error.message);
+      }
+      return result.data;
+    } catch (error) {
+      console.error('❌ Could not parse action extraction response:', error instanceof Error ? error.message : error);
+      throw new BusinessLogicError('The AI response could not be read as actions. Please try again.');
+    }
+  }
+
   /**
    * Check if opportunity needs AI summary update
    */
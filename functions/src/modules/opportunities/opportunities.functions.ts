@@ -1,13 +1,18 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
-import { validateData, ValidationError } from '../../shared/validation.middleware';
-import { authenticateUser } from '../../shared/auth.middleware';
+import { validateData, ValidationError, commonSchemas } from '../../shared/validation.middleware';
+import { authenticateUser, requirePermission, AuthError, toHttpsAuthError } from '../../shared/auth.middleware';
 import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { StaleWriteError, toHttpsStaleWriteError, ApprovalRequiredError, toHttpsApprovalRequiredError, StageGateError, toHttpsStageGateError } from '../../shared/errors';
+import { TeamsService } from '../teams/teams.service';
 import { OpportunitiesService, OpportunityFilters, OpportunitiesQueryOptions } from './opportunities.service';
+import { WIN_REASON_CODES, LOSS_REASON_CODES } from './win-loss.service';
+import { FORECAST_CATEGORIES } from '../forecast/forecast.service';
 import { z } from 'zod';
 
 const db = getFirestore();
 const opportunitiesService = new OpportunitiesService(db);
+const teamsService = new TeamsService(db);
 
 // Validation schemas
 const OpportunityFiltersSchema = z.object({
@@ -29,7 +34,21 @@ const OpportunitiesQuerySchema = z.object({
   sortBy: z.enum(['title', 'stage', 'priority', 'estimatedDealValue', 'expectedCloseDate', 'lastActivityDate', 'createdAt', 'updatedAt']).optional(),
   sortOrder: z.enum(['asc', 'desc']).optional(),
   limit: z.number().int().min(1).max(100).optional(),
-  offset: z.number().int().min(0).optional()
+  offset: z.number().int().min(0).optional(),
+  scope: commonSchemas.recordScope
+});
+
+// Close-out captured when moving to Closed-Won or Closed-Lost; a loss to a competitor names it
+const CloseOutSchema = z.discriminatedUnion('outcome', [
+  z.object({ outcome: z.literal('won'), reasonCode: z.enum(WIN_REASON_CODES) }),
+  z.object({ outcome: z.literal('lost'), reasonCode: z.enum(LOSS_REASON_CODES) })
+]).and(z.object({
+  competitor: z.string().trim().max(200).optional(),
+  notes: z.string().trim().min(1, 'Notes are required').max(5000),
+  finalDealValue: z.number().min(0)
+})).refine(data => data.reasonCode !== 'lost_to_competitor' || !!data.competitor, {
+  message: 'Name the competitor the deal was lost to',
+  path: ['competitor']
 });
 
 const CreateOpportunitySchema = z.object({
@@ -40,6 +59,9 @@ const CreateOpportunitySchema = z.object({
   summary: z.string().nullish(),
   description: z.string().nullish(),
   estimatedDealValue: z.number().nullish(),
+  commercialModel: z.string().nullish(),
+  potentialVolume: z.number().nullish(),
+  useCase: z.string().nullish(),
   probability: z.number().min(0).max(100).optional(),
   expectedCloseDate: z.any().optional(), // Timestamp
   lastActivityDate: z.any().optional(), // Timestamp
@@ -52,6 +74,8 @@ const CreateOpportunitySchema = z.object({
   tags: z.array(z.string()).optional(),
   checklist: z.array(z.any()).optional(),
   blockers: z.array(z.any()).optional(),
+  closeOut: CloseOutSchema.optional(),
+  forecastCategory: z.enum(FORECAST_CATEGORIES).optional(),
   oneDriveLink: z.string().nullish(), // Added OneDrive file management support
   oneDriveTitle: z.string().nullish(), // Added OneDrive file title support
   ownerId: z.string().min(1)
@@ -73,6 +97,9 @@ const UpdateOpportunitySchema = z.object({
   summary: z.string().nullish(),
   description: z.string().nullish(),
   estimatedDealValue: z.number().nullish(),
+  commercialModel: z.string().nullish(),
+  potentialVolume: z.number().nullish(),
+  useCase: z.string().nullish(),
   probability: z.number().min(0).max(100).optional(),
   expectedCloseDate: z.any().optional(), // Timestamp
   lastActivityDate: z.any().optional(), // Timestamp
@@ -85,6 +112,8 @@ const UpdateOpportunitySchema = z.object({
   tags: z.array(z.string()).optional(),
   checklist: z.array(z.any()).optional(),
   blockers: z.array(z.any()).optional(),
+  closeOut: CloseOutSchema.optional(),
+  forecastCategory: z.enum(FORECAST_CATEGORIES).optional(),
   oneDriveLink: z.string().nullish(), // Added OneDrive file management support
   oneDriveTitle: z.string().nullish(), // Added OneDrive file title support
   ownerId: z.string().optional()
@@ -112,17 +141,20 @@ export const getOpportunities = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:read');
       
       // Apply rate limiting for read operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getOpportunities');
       const validatedData = validateData(OpportunitiesQuerySchema, request.data);
 
+      const { scope, ...queryOptions } = validatedData;
+
       const options: OpportunitiesQueryOptions = {
-        ...validatedData,
+        ...queryOptions,
         filters: {
-          ...validatedData.filters
-          // Removed ownerId filter - allow access to all opportunities
-        }
+          ...queryOptions.filters
+        },
+        visibility: await teamsService.resolveVisibility(user, scope)
       };
 
       const result = await opportunitiesService.getOpportunities(options);
@@ -137,6 +169,9 @@ export const getOpportunities = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       throw new HttpsError('internal', 'Failed to get opportunities');
     }
   }
@@ -148,6 +183,7 @@ export const getOpportunity = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:read');
       
       // Apply rate limiting for read operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getOpportunity');
@@ -162,7 +198,7 @@ export const getOpportunity = onCall(
         throw new HttpsError('not-found', 'Opportunity not found');
       }
 
-      // Removed ownership check - allow access to all opportunities
+      await teamsService.assertCanView(user, 'opportunities', opportunity);
 
       return {
         success: true,
@@ -173,6 +209,9 @@ export const getOpportunity = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       throw new HttpsError('internal', 'Failed to get opportunity');
     }
   }
@@ -184,6 +223,7 @@ export const createOpportunity = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:create');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'createOpportunity');
@@ -200,6 +240,12 @@ export const createOpportunity = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
+      if (error instanceof StageGateError) {
+        throw toHttpsStageGateError(error);
+      }
       if (error instanceof ValidationError) {
         console.error('Validation errors:', error.errors);
         throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
@@ -218,6 +264,7 @@ export const updateOpportunity = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:update');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'updateOpportunity');
@@ -229,18 +276,19 @@ export const updateOpportunity = onCall(
       console.log('UpdateOpportunity - received data:', JSON.stringify(request.data.updates, null, 2));
 
       const validatedData = validateData(UpdateOpportunitySchema, request.data.updates);
+      const expectedRevision = validateData(commonSchemas.expectedRevision, request.data.expectedRevision);
 
       // Check if opportunity exists - removed ownership check
       const existingOpportunity = await opportunitiesService.getOpportunity(request.data.opportunityId);
       if (!existingOpportunity) {
         throw new HttpsError('not-found', 'Opportunity not found');
       }
-      // Removed ownership check - allow updates to all opportunities
-
+      await teamsService.assertCanView(user, 'opportunities', existingOpportunity);
       const updatedOpportunity = await opportunitiesService.updateOpportunity(
         request.data.opportunityId,
         validatedData,
-        user.uid
+        user.uid,
+        expectedRevision
       );
 
       return {
@@ -252,6 +300,18 @@ export const updateOpportunity = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
+      if (error instanceof StaleWriteError) {
+        throw toHttpsStaleWriteError(error);
+      }
+      if (error instanceof ApprovalRequiredError) {
+        throw toHttpsApprovalRequiredError(error);
+      }
+      if (error instanceof StageGateError) {
+        throw toHttpsStageGateError(error);
+      }
       if (error instanceof ValidationError) {
         console.error('Validation errors:', error.errors);
         throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
@@ -270,6 +330,7 @@ export const deleteOpportunity = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:delete');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'deleteOpportunity');
@@ -283,8 +344,7 @@ export const deleteOpportunity = onCall(
       if (!existingOpportunity) {
         throw new HttpsError('not-found', 'Opportunity not found');
       }
-      // Removed ownership check - allow deletion of all opportunities
-
+      await teamsService.assertCanView(user, 'opportunities', existingOpportunity);
       await opportunitiesService.deleteOpportunity(request.data.opportunityId, user.uid);
 
       return {
@@ -296,6 +356,9 @@ export const deleteOpportunity = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       if (error instanceof Error) {
         throw new HttpsError('invalid-argument', error.message);
       }
@@ -310,6 +373,7 @@ export const getOpportunitiesStats = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:read');
       
       // Apply rate limiting for stats operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.stats.maxRequests, RateLimitPresets.stats.windowMs, 'getOpportunitiesStats');
@@ -320,7 +384,7 @@ export const getOpportunitiesStats = onCall(
         // Removed ownerId filter - allow stats for all opportunities
       };
 
-      const stats = await opportunitiesService.getOpportunitiesStats(filters);
+      const stats = await opportunitiesService.getOpportunitiesStats(filters, await teamsService.resolveVisibility(user));
 
       return {
         success: true,
@@ -331,6 +395,9 @@ export const getOpportunitiesStats = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       throw new HttpsError('internal', 'Failed to get opportunities statistics');
     }
   }
@@ -342,22 +409,26 @@ export const bulkUpdateOpportunities = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:bulkUpdate');
       
       // Apply rate limiting for heavy operations (bulk updates)
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.heavy.maxRequests, RateLimitPresets.heavy.windowMs, 'bulkUpdateOpportunities');
       const validatedData = validateData(BulkUpdateOpportunitiesSchema, request.data);
 
-      // Verify all opportunities exist - removed ownership verification
+      // Verify all opportunities exist; those outside the caller's visibility are dropped
+      const visibility = await teamsService.resolveVisibility(user);
+      const visibleUpdates: typeof validatedData.updates = [];
       for (const update of validatedData.updates) {
         const opportunity = await opportunitiesService.getOpportunity(update.id);
         if (!opportunity) {
           throw new HttpsError('not-found', `Opportunity not found: ${update.id}`);
         }
+        if (visibility.canView('opportunities', opportunity)) {
+          visibleUpdates.push(update);
+        }
       }
-      // Removed ownership checks - allow bulk updates to all opportunities
-
       const updatedOpportunities = await opportunitiesService.bulkUpdateOpportunities(
-        validatedData.updates,
+        visibleUpdates,
         user.uid
       );
 
@@ -370,6 +441,15 @@ export const bulkUpdateOpportunities = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
+      if (error instanceof ApprovalRequiredError) {
+        throw toHttpsApprovalRequiredError(error);
+      }
+      if (error instanceof StageGateError) {
+        throw toHttpsStageGateError(error);
+      }
       if (error instanceof Error) {
         throw new HttpsError('invalid-argument', error.message);
       }
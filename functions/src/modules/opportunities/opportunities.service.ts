@@ -1,10 +1,24 @@
 import { 
+  FieldValue,
   Firestore, 
   Query,
   Timestamp 
 } from 'firebase-admin/firestore';
 import { Opportunity, OpportunityStage, OpportunityPriority } from '../../types';
 import { AuditService } from '../../shared/audit.service';
+import { isDeleted, excludeDeleted, softDeleteFields } from '../../shared/soft-delete';
+import { BusinessLogicError } from '../../shared/errors';
+import { updateWithRevision, bumpRevision, getRevision, assertRevision } from '../../shared/concurrency';
+import { recordHistory } from '../../shared/record-history';
+import { getFilteredPage } from '../../shared/queries';
+import { scheduleFollowUps } from '../../shared/follow-ups';
+import { StageHistoryService } from './stage-history.service';
+import { StageGatesService } from './stage-gates.service';
+import { CloseOutInput, resolveCloseOut } from './win-loss.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { WorkflowEngineService } from '../workflows/workflow-engine.service';
+import { ApprovalRequest, ApprovalsService, approvalRequiredError, creationBlockedReason } from '../approvals/approvals.service';
+import type { RecordVisibility } from '../teams/teams.service';
 
 export interface OpportunityFilters {
   ownerId?: string;
@@ -26,6 +40,7 @@ export interface OpportunitiesQueryOptions {
   sortOrder?: 'asc' | 'desc';
   limit?: number;
   offset?: number;
+  visibility?: RecordVisibility;
 }
 
 export interface OpportunitiesResponse {
@@ -48,9 +63,19 @@ export interface OpportunityStats {
 
 export class OpportunitiesService {
   private db: Firestore;
+  private stageHistory: StageHistoryService;
+  private notifications: NotificationsService;
+  private workflows: WorkflowEngineService;
+  private approvals: ApprovalsService;
+  private stageGates: StageGatesService;
 
   constructor(db: Firestore) {
     this.db = db;
+    this.stageHistory = new StageHistoryService(db);
+    this.notifications = new NotificationsService(db);
+    this.workflows = new WorkflowEngineService(db);
+    this.approvals = new ApprovalsService(db);
+    this.stageGates = new StageGatesService(db);
   }
 
   async getOpportunities(options: OpportunitiesQueryOptions = {}): Promise<OpportunitiesResponse> {
@@ -59,7 +84,8 @@ export class OpportunitiesService {
       sortBy = 'updatedAt',
       sortOrder = 'desc',
       limit = 50,
-      offset = 0
+      offset = 0,
+      visibility
     } = options;
 
     let query: Query = this.db.collection('opportunities');
@@ -92,19 +118,13 @@ export class OpportunitiesService {
     // Apply sorting
     query = query.orderBy(sortBy, sortOrder);
 
-    // Apply pagination
-    if (offset > 0) {
-      const offsetSnapshot = await query.limit(offset).get();
-      if (!offsetSnapshot.empty) {
-        const lastDoc = offsetSnapshot.docs[offsetSnapshot.docs.length - 1];
-        query = query.startAfter(lastDoc);
-      }
-    }
-
-    query = query.limit(limit + 1); // Get one extra to check if there are more
-
-    const snapshot = await query.get();
-    const opportunities = snapshot.docs.slice(0, limit).map(doc => ({
+    // Trashed records and records outside the caller's visibility don't count towards the page
+    const page = await getFilteredPage(
+      query,
+      doc => !isDeleted(doc.data()) && (!visibility || visibility.canView('opportunities', { id: doc.id, ...doc.data() })),
+      { limit, offset }
+    );
+    const opportunities = page.docs.map(doc => ({
       id: doc.id,
       ...doc.data()
     })) as Opportunity[];
@@ -147,20 +167,23 @@ export class OpportunitiesService {
 
     // Get total count for pagination
     const totalQuery = this.buildFilterQuery(filters);
-    const totalSnapshot = await totalQuery.count().get();
-    const total = totalSnapshot.data().count;
+    const totalSnapshot = await totalQuery.select('deletedAt', 'ownerId', 'accountId').get();
+    const totalDocs = totalSnapshot.docs
+      .filter(doc => !isDeleted(doc.data()))
+      .map(doc => ({ id: doc.id, ...doc.data() }));
+    const total = visibility ? visibility.filter('opportunities', totalDocs).length : totalDocs.length;
 
     return {
       opportunities: filteredOpportunities,
       total,
-      hasMore: snapshot.docs.length > limit
+      hasMore: page.hasMore
     };
   }
 
   async getOpportunity(opportunityId: string): Promise<Opportunity | null> {
     const doc = await this.db.collection('opportunities').doc(opportunityId).get();
     
-    if (!doc.exists) {
+    if (!doc.exists || isDeleted(doc.data())) {
       return null;
     }
 
@@ -184,6 +207,8 @@ export class OpportunitiesService {
       throw new Error('Opportunity stage is required');
     }
 
+    const closeOut = resolveCloseOut(null, opportunityData.stage, opportunityData.closeOut as CloseOutInput | undefined, userId);
+
     const now = Timestamp.now();
     const opportunity: Omit<Opportunity, 'id'> = {
       ...opportunityData,
@@ -195,12 +220,25 @@ export class OpportunitiesService {
       // probability field removed
       contactIds: opportunityData.contactIds || [],
       notes: opportunityData.notes || '',
-      activities: opportunityData.activities || [],
+      activities: scheduleFollowUps(undefined, opportunityData.activities || [], userId),
       // documents field removed
-      tags: opportunityData.tags || []
+      tags: opportunityData.tags || [],
+      ...(closeOut ? { closeOut } : {})
     };
 
-    const docRef = await this.db.collection('opportunities').add(opportunity);
+    await this.stageGates.assertCanEnter([{ id: null, opportunity }]);
+    const blocked = creationBlockedReason(await this.approvals.getPolicies(), opportunity, opportunity.stage);
+    if (blocked) {
+      throw new BusinessLogicError(blocked);
+    }
+
+    // Write the opportunity and its initial stage entry together
+    const docRef = this.db.collection('opportunities').doc();
+    const batch = this.db.batch();
+    batch.set(docRef, opportunity);
+    this.stageHistory.queueTransition(batch, docRef.id, opportunity, null, opportunity.stage, userId);
+    await batch.commit();
+
     const newOpportunity = { id: docRef.id, ...opportunity } as Opportunity;
 
     // Audit log
@@ -217,25 +255,20 @@ export class OpportunitiesService {
       }
     });
 
+    await this.notifications.notifyOpportunityChanges(null, { ...opportunity, id: docRef.id }, userId);
+    await this.workflows.onRecordWritten('opportunity', docRef.id, null, opportunity, userId);
+
     return newOpportunity;
   }
 
-  async updateOpportunity(opportunityId: string, updates: Partial<Opportunity>, userId: string): Promise<Opportunity> {
+  /**
+   * Update an opportunity in a transaction. When expectedRevision is given, the update is
+   * rejected if someone else has written the opportunity since the caller loaded it.
+   */
+  async updateOpportunity(opportunityId: string, updates: Partial<Opportunity>, userId: string, expectedRevision?: number): Promise<Opportunity> {
     const opportunityRef = this.db.collection('opportunities').doc(opportunityId);
-    const doc = await opportunityRef.get();
 
-    if (!doc.exists) {
-      throw new Error('Opportunity not found');
-    }
-
-    const existingOpportunity = doc.data() as Opportunity;
-
-    // Update probability based on stage if stage is being updated
     const updateData = { ...updates };
-    if (updates.stage && updates.stage !== existingOpportunity.stage) {
-      // probability field removed
-    }
-
     updateData.updatedAt = Timestamp.now();
 
     // Remove undefined values
@@ -245,13 +278,74 @@ export class OpportunitiesService {
       }
     });
 
-    await opportunityRef.update(updateData);
+    // Closing needs a close-out, a stage change must meet the entry criteria of its stage, and
+    // one covered by an approval policy waits for a manager; nothing is written until all pass.
+    // Reopening a closed deal clears its close-out. The checks run on a read outside the
+    // transaction, so the write is pinned to that read's revision and fails if the deal moved on.
+    let approvalId: string | null = null;
+    let clearCloseOut = false;
+    let writeRevision = expectedRevision;
+    if (updateData.stage || updateData.closeOut) {
+      const current = await opportunityRef.get();
+      if (current.exists && !isDeleted(current.data())) {
+        const existing = current.data() as Opportunity;
+        assertRevision('Opportunity', opportunityId, existing, expectedRevision);
+        writeRevision = getRevision(existing);
+        const closeOut = resolveCloseOut(existing.stage, updateData.stage, updateData.closeOut as CloseOutInput | undefined, userId);
+        if (closeOut) {
+          updateData.closeOut = closeOut;
+        }
+        clearCloseOut = closeOut === null;
+        if (updateData.stage && updateData.stage !== existing.stage) {
+          await this.stageGates.assertCanEnter([{ id: opportunityId, opportunity: { ...existing, ...updateData, stage: updateData.stage } }]);
+        }
+        const check = await this.approvals.checkTransition(opportunityId, existing, { ...existing, ...updateData }, userId);
+        if (check.status === 'pending') {
+          throw approvalRequiredError([check.request]);
+        }
+        approvalId = check.status === 'approved' ? check.requestId : null;
+      }
+    }
 
-    const updatedOpportunity = {
-      ...existingOpportunity,
-      ...updateData,
-      id: opportunityId
-    } as Opportunity;
+    const { result, revision } = await updateWithRevision(this.db, opportunityRef, 'Opportunity', writeRevision, userId, (data, transaction) => {
+      const existing = data as Opportunity;
+      const writes = updateData.activities
+        ? { ...updateData, activities: scheduleFollowUps(existing.activities, updateData.activities, userId) }
+        : updateData;
+      const updated = {
+        ...existing,
+        ...writes,
+        id: opportunityId
+      } as Opportunity;
+      if (clearCloseOut) {
+        delete updated.closeOut;
+      }
+
+      const changed = !!updateData.stage && updateData.stage !== existing.stage;
+      if (changed) {
+        this.stageHistory.queueTransition(transaction, opportunityId, updated, existing.stage, updateData.stage!, userId);
+      }
+
+      return { updates: clearCloseOut ? { ...writes, closeOut: FieldValue.delete() } : writes, result: { existing, updated, changed } };
+    });
+
+    const { existing: existingOpportunity, changed: stageChanged } = result;
+    const updatedOpportunity = { ...result.updated, revision };
+
+    if (stageChanged) {
+      await AuditService.logOpportunityAction('STAGE_CHANGE', userId, opportunityId, {
+        fromStage: existingOpportunity.stage,
+        toStage: updateData.stage,
+        value: updatedOpportunity.estimatedDealValue,
+        ...(approvalId ? { approvalId } : {})
+      });
+      if (approvalId) {
+        await this.approvals.markApplied(approvalId);
+      }
+    }
+
+    await this.notifications.notifyOpportunityChanges(existingOpportunity, { ...updatedOpportunity, id: opportunityId }, userId);
+    await this.workflows.onRecordWritten('opportunity', opportunityId, existingOpportunity, updatedOpportunity, userId);
 
     // Audit log - temporarily disabled due to logging issues
     // await AuditService.log({
@@ -269,17 +363,29 @@ export class OpportunitiesService {
     return updatedOpportunity;
   }
 
+  /**
+   * Store a generated AI summary. Summaries aren't edits: they don't bump the revision,
+   * enter the change history or fire notifications and workflows.
+   */
+  async saveAISummary(
+    opportunityId: string,
+    summary: Required<Pick<Opportunity, 'aiSummary' | 'aiSummaryId' | 'aiSummaryGeneratedAt' | 'aiSummaryManuallyRequested'>>
+  ): Promise<void> {
+    await this.db.collection('opportunities').doc(opportunityId).update(summary);
+  }
+
   async deleteOpportunity(opportunityId: string, userId: string): Promise<void> {
     const opportunityRef = this.db.collection('opportunities').doc(opportunityId);
     const doc = await opportunityRef.get();
 
-    if (!doc.exists) {
+    if (!doc.exists || isDeleted(doc.data())) {
       throw new Error('Opportunity not found');
     }
 
     const opportunity = doc.data() as Opportunity;
 
-    await opportunityRef.delete();
+    // Soft delete - activities, checklist and blockers stay embedded until the opportunity is purged
+    await opportunityRef.update(softDeleteFields(userId));
 
     // Audit log
     await AuditService.log({
@@ -296,10 +402,11 @@ export class OpportunitiesService {
     });
   }
 
-  async getOpportunitiesStats(filters: OpportunityFilters = {}): Promise<OpportunityStats> {
+  async getOpportunitiesStats(filters: OpportunityFilters = {}, visibility?: RecordVisibility): Promise<OpportunityStats> {
     const query = this.buildFilterQuery(filters);
     const snapshot = await query.get();
-    const opportunities = snapshot.docs.map(doc => doc.data()) as Opportunity[];
+    const live = excludeDeleted(snapshot.docs.map(doc => doc.data()) as Opportunity[]);
+    const opportunities = visibility ? visibility.filter('opportunities', live) : live;
 
     const stats: OpportunityStats = {
       total: opportunities.length,
@@ -377,18 +484,25 @@ export class OpportunitiesService {
   async bulkUpdateOpportunities(updates: Array<{ id: string; data: Partial<Opportunity> }>, userId: string): Promise<Opportunity[]> {
     const batch = this.db.batch();
     const updatedOpportunities: Opportunity[] = [];
+    const previousOpportunities = new Map<string, Opportunity>();
+    const stageChanges: Array<{ id: string; fromStage: OpportunityStage; toStage: OpportunityStage; approvalId?: string }> = [];
+    const stageMoves: Array<{ id: string; existing: Opportunity; updated: Opportunity; toStage: OpportunityStage }> = [];
+    const awaitingApproval: ApprovalRequest[] = [];
 
     for (const update of updates) {
       const opportunityRef = this.db.collection('opportunities').doc(update.id);
       const doc = await opportunityRef.get();
 
-      if (!doc.exists) {
+      if (!doc.exists || isDeleted(doc.data())) {
         continue;
       }
 
       const existingOpportunity = doc.data() as Opportunity;
+      const closeOut = resolveCloseOut(existingOpportunity.stage, update.data.stage, update.data.closeOut as CloseOutInput | undefined, userId);
       const updateData = {
         ...update.data,
+        ...(update.data.activities ? { activities: scheduleFollowUps(existingOpportunity.activities, update.data.activities, userId) } : {}),
+        ...(closeOut ? { closeOut } : {}),
         updatedAt: Timestamp.now()
       };
 
@@ -397,17 +511,66 @@ export class OpportunitiesService {
         // probability field removed
       }
 
-      batch.update(opportunityRef, updateData);
+      // Reopening a closed deal clears its close-out
+      const writes = closeOut === null ? { ...updateData, closeOut: FieldValue.delete() } : updateData;
+      batch.update(opportunityRef, { ...writes, ...bumpRevision() });
+      recordHistory(batch, opportunityRef, existingOpportunity, writes, getRevision(existingOpportunity) + 1, userId, { action: 'bulk_update' });
 
-      updatedOpportunities.push({
+      const updatedOpportunity = {
         ...existingOpportunity,
         ...updateData,
+        revision: getRevision(existingOpportunity) + 1,
         id: update.id
-      } as Opportunity);
+      } as Opportunity;
+      if (closeOut === null) {
+        delete updatedOpportunity.closeOut;
+      }
+
+      if (update.data.stage && update.data.stage !== existingOpportunity.stage) {
+        stageMoves.push({ id: update.id, existing: existingOpportunity, updated: updatedOpportunity, toStage: update.data.stage });
+      }
+
+      previousOpportunities.set(update.id, existingOpportunity);
+      updatedOpportunities.push(updatedOpportunity);
+    }
+
+    // Every stage change has to meet its entry criteria before any of them asks for approval
+    await this.stageGates.assertCanEnter(stageMoves.map(move => ({ id: move.id, opportunity: { ...move.updated, stage: move.toStage } })));
+
+    for (const { id, existing, updated, toStage } of stageMoves) {
+      const check = await this.approvals.checkTransition(id, existing, updated, userId);
+      if (check.status === 'pending') {
+        awaitingApproval.push(check.request);
+        continue;
+      }
+      this.stageHistory.queueTransition(batch, id, updated, existing.stage, toStage, userId);
+      stageChanges.push({
+        id,
+        fromStage: existing.stage,
+        toStage,
+        ...(check.status === 'approved' ? { approvalId: check.requestId } : {})
+      });
+    }
+
+    // One held-back stage change stops the whole bulk update, so none of it is half applied
+    if (awaitingApproval.length > 0) {
+      throw approvalRequiredError(awaitingApproval);
     }
 
     await batch.commit();
 
+    for (const change of stageChanges) {
+      await AuditService.logOpportunityAction('STAGE_CHANGE', userId, change.id, {
+        fromStage: change.fromStage,
+        toStage: change.toStage,
+        bulk: true,
+        ...(change.approvalId ? { approvalId: change.approvalId } : {})
+      });
+      if (change.approvalId) {
+        await this.approvals.markApplied(change.approvalId);
+      }
+    }
+
     // Audit log
     await AuditService.log({
       userId,
@@ -417,6 +580,12 @@ export class OpportunitiesService {
       data: { count: updates.length }
     });
 
+    for (const updatedOpportunity of updatedOpportunities) {
+      const id = updatedOpportunity.id!;
+      await this.notifications.notifyOpportunityChanges(previousOpportunities.get(id)!, { ...updatedOpportunity, id }, userId);
+      await this.workflows.onRecordWritten('opportunity', id, previousOpportunities.get(id)!, updatedOpportunity, userId);
+    }
+
     return updatedOpportunities;
   }
 
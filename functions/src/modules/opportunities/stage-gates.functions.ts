@@ -0,0 +1,57 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { authenticateUser, requirePermission } from '../../shared/auth.middleware';
+import { validateData } from '../../shared/validation.middleware';
+import { withErrorHandling } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { STAGE_GATE_CRITERIA, StageGatesService } from './stage-gates.service';
+import { z } from 'zod';
+
+const stageSchema = z.enum(['Lead', 'Qualified', 'Proposal', 'Negotiation', 'Closed-Won', 'Closed-Lost']);
+
+const saveGatesSchema = z.object({
+  stages: z.partialRecord(stageSchema, z.array(z.enum(STAGE_GATE_CRITERIA)).max(STAGE_GATE_CRITERIA.length))
+});
+
+const getService = () => new StageGatesService(getFirestore());
+
+/**
+ * Entry criteria per stage; readable by anyone who works opportunities so the UI can show them
+ */
+export const getStageGates = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getStageGates');
+
+    return await getService().getGates();
+  }, { functionName: 'getStageGates', action: 'STAGE_GATES_GET' })
+);
+
+/**
+ * Replace the entry criteria of every stage
+ */
+export const saveStageGates = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'stageGates:manage');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'saveStageGates');
+
+    const { stages } = validateData(saveGatesSchema, request.data);
+    const unique = Object.fromEntries(Object.entries(stages).map(([stage, criteria]) => [stage, [...new Set(criteria)]]));
+
+    return await getService().saveGates(unique, user.uid, user.email);
+  }, { functionName: 'saveStageGates', action: 'STAGE_GATES_SAVE' })
+);
@@ -0,0 +1,181 @@
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { Contact, Opportunity, OpportunityStage } from '../../types';
+import { AuditService } from '../../shared/audit.service';
+import { StageGateError } from '../../shared/errors';
+import { isDeleted } from '../../shared/soft-delete';
+
+// Entering a pipeline stage also needs the criteria of every stage before it, so skipping stages
+// doesn't skip their checks. Closed-Lost only has its own.
+const PIPELINE_STAGES: OpportunityStage[] = ['Lead', 'Qualified', 'Proposal', 'Negotiation', 'Closed-Won'];
+
+export const STAGE_GATE_CRITERIA = [
+  'contact',
+  'decision_maker',
+  'commercial_model',
+  'deal_value',
+  'expected_close_date',
+  'products',
+  'no_open_blockers',
+  'checklist_complete'
+] as const;
+
+export type StageGateCriterion = typeof STAGE_GATE_CRITERIA[number];
+
+export const STAGE_GATE_LABELS: Record<StageGateCriterion, string> = {
+  contact: 'At least one contact is linked',
+  decision_maker: 'A linked contact is a decision maker',
+  commercial_model: 'Commercial model is set',
+  deal_value: 'Estimated deal value is set',
+  expected_close_date: 'Expected close date is set',
+  products: 'At least one iOL product is selected',
+  no_open_blockers: 'No unresolved blockers',
+  checklist_complete: 'Every checklist item is done'
+};
+
+/**
+ * Entry criteria per stage, configured by admins
+ */
+export interface StageGates {
+  stages: Partial<Record<OpportunityStage, StageGateCriterion[]>>;
+  updatedBy?: string;
+  updatedAt?: Timestamp;
+}
+
+export interface UnmetCriterion {
+  criterion: StageGateCriterion;
+  label: string;
+  detail?: string;
+}
+
+const NO_GATES: StageGates = { stages: {} };
+
+/**
+ * Every criterion an opportunity must meet to enter the stage, in catalogue order
+ */
+export const criteriaForStage = (gates: StageGates, stage: OpportunityStage): StageGateCriterion[] => {
+  const stages = stage === 'Closed-Lost' ? [stage] : PIPELINE_STAGES.slice(0, PIPELINE_STAGES.indexOf(stage) + 1);
+  const required = new Set(stages.flatMap(gateStage => gates.stages[gateStage] || []));
+  return STAGE_GATE_CRITERIA.filter(criterion => required.has(criterion));
+};
+
+/**
+ * The criteria the opportunity doesn't meet. decisionMakerCount is the number of linked,
+ * non-deleted contacts flagged as decision makers.
+ */
+export const evaluateCriteria = (
+  criteria: StageGateCriterion[],
+  opportunity: Partial<Opportunity>,
+  decisionMakerCount: number
+): UnmetCriterion[] => {
+  const openBlockers = (opportunity.blockers || []).filter(blocker => !blocker.completed);
+  const openItems = (opportunity.checklist || []).filter(item => !item.completed);
+
+  const unmet = (criterion: StageGateCriterion, detail?: string): UnmetCriterion =>
+    ({ criterion, label: STAGE_GATE_LABELS[criterion], ...(detail ? { detail } : {}) });
+
+  return criteria.flatMap(criterion => {
+    switch (criterion) {
+      case 'contact':
+        return (opportunity.contactIds || []).length > 0 ? [] : [unmet(criterion)];
+      case 'decision_maker':
+        return decisionMakerCount > 0 ? [] : [unmet(criterion, 'Link a contact marked as decision maker')];
+      case 'commercial_model':
+        return opportunity.commercialModel?.trim() ? [] : [unmet(criterion)];
+      case 'deal_value':
+        return typeof opportunity.estimatedDealValue === 'number' && opportunity.estimatedDealValue > 0 ? [] : [unmet(criterion)];
+      case 'expected_close_date':
+        return opportunity.expectedCloseDate ? [] : [unmet(criterion)];
+      case 'products':
+        return (opportunity.iolProducts || []).length > 0 ? [] : [unmet(criterion)];
+      case 'no_open_blockers':
+        return openBlockers.length === 0 ? [] : [unmet(criterion, `Open: ${openBlockers.map(blocker => blocker.text).join(', ')}`)];
+      case 'checklist_complete':
+        return openItems.length === 0 ? [] : [unmet(criterion, `Not done: ${openItems.map(item => item.text).join(', ')}`)];
+    }
+  });
+};
+
+export class StageGatesService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  async getGates(): Promise<StageGates> {
+    const doc = await this.gatesRef().get();
+    return doc.exists ? { ...NO_GATES, ...doc.data() } as StageGates : NO_GATES;
+  }
+
+  async saveGates(stages: StageGates['stages'], userId: string, userEmail: string): Promise<StageGates> {
+    const previous = await this.getGates();
+    const updated: StageGates = { stages, updatedBy: userId, updatedAt: Timestamp.now() };
+    await this.gatesRef().set(updated);
+
+    await AuditService.log({
+      action: 'update_stage_gates',
+      userId,
+      userEmail,
+      resourceType: 'stage_gates',
+      resourceId: 'stage_gates',
+      data: {
+        previous: previous.stages,
+        updated: stages
+      }
+    });
+
+    return updated;
+  }
+
+  /**
+   * What the opportunity is missing to enter the stage; empty when it may
+   */
+  async checkEntry(opportunity: Partial<Opportunity>, stage: OpportunityStage, gates?: StageGates): Promise<UnmetCriterion[]> {
+    const criteria = criteriaForStage(gates || await this.getGates(), stage);
+    if (criteria.length === 0) {
+      return [];
+    }
+
+    let decisionMakerCount = 0;
+    const contactIds = opportunity.contactIds || [];
+    if (criteria.includes('decision_maker') && contactIds.length > 0) {
+      const contacts = await this.db.getAll(...contactIds.map(id => this.db.collection('contacts').doc(id)));
+      decisionMakerCount = contacts.filter(doc => doc.exists && !isDeleted(doc.data()) && (doc.data() as Contact).isDecisionMaker).length;
+    }
+
+    return evaluateCriteria(criteria, opportunity, decisionMakerCount);
+  }
+
+  /**
+   * Reject opportunities that don't meet the entry criteria of their new stage, listing
+   * what each one is missing
+   */
+  async assertCanEnter(opportunities: Array<{ id: string | null; opportunity: Partial<Opportunity> & { stage: OpportunityStage } }>): Promise<void> {
+    if (opportunities.length === 0) {
+      return;
+    }
+
+    const gates = await this.getGates();
+    const failures = [];
+    for (const { id, opportunity } of opportunities) {
+      const unmet = await this.checkEntry(opportunity, opportunity.stage, gates);
+      if (unmet.length > 0) {
+        failures.push({ opportunityId: id, title: opportunity.title || 'Opportunity', stage: opportunity.stage, unmet });
+      }
+    }
+
+    if (failures.length === 1) {
+      throw new StageGateError(
+        `"${failures[0].title}" can't move to ${failures[0].stage} yet: ${failures[0].unmet.map(item => item.label.toLowerCase()).join('; ')}`,
+        failures
+      );
+    }
+    if (failures.length > 1) {
+      throw new StageGateError(`${failures.length} opportunities don't meet the criteria of their new stage; nothing was updated`, failures);
+    }
+  }
+
+  private gatesRef() {
+    return this.db.collection('pipeline_settings').doc('stage_gates');
+  }
+}
@@ -0,0 +1,95 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { validateData, ValidationError } from '../../shared/validation.middleware';
+import { authenticateUser, requirePermission, AuthError, toHttpsAuthError } from '../../shared/auth.middleware';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { StageHistoryService } from './stage-history.service';
+import { TeamsService } from '../teams/teams.service';
+import { z } from 'zod';
+
+const db = getFirestore();
+const stageHistoryService = new StageHistoryService(db);
+const teamsService = new TeamsService(db);
+
+// Validation schemas
+const PipelineVelocitySchema = z.object({
+  ownerId: z.string().optional(),
+  iolProduct: z.string().optional(),
+  createdAfter: z.string().optional(), // ISO date string
+  createdBefore: z.string().optional() // ISO date string
+});
+
+// Get the stage transition history of a single opportunity
+export const getOpportunityStageHistory = onCall(
+  { cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'], maxInstances: 10 },
+  async (request) => {
+    try {
+      const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:read');
+
+      // Apply rate limiting for read operations
+      await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getOpportunityStageHistory');
+
+      if (!request.data?.opportunityId) {
+        throw new HttpsError('invalid-argument', 'Opportunity ID is required');
+      }
+
+      await teamsService.assertCanViewById(user, 'opportunities', request.data.opportunityId);
+
+      const history = await stageHistoryService.getStageHistory(request.data.opportunityId);
+
+      return {
+        success: true,
+        data: history
+      };
+    } catch (error) {
+      console.error('Error in getOpportunityStageHistory:', error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
+      throw new HttpsError('internal', 'Failed to get opportunity stage history');
+    }
+  }
+);
+
+// Get time-in-stage, conversion rates and cycle time, overall and per owner / iOL product
+export const getPipelineVelocity = onCall(
+  { cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'], maxInstances: 10 },
+  async (request) => {
+    try {
+      const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:read');
+
+      // Apply rate limiting for stats operations
+      await RateLimiter.checkLimit(user.uid, RateLimitPresets.stats.maxRequests, RateLimitPresets.stats.windowMs, 'getPipelineVelocity');
+      const validatedData = validateData(PipelineVelocitySchema, request.data || {});
+
+      const report = await stageHistoryService.getPipelineVelocity({
+        ownerId: validatedData.ownerId,
+        iolProduct: validatedData.iolProduct,
+        createdAfter: validatedData.createdAfter ? new Date(validatedData.createdAfter) : undefined,
+        createdBefore: validatedData.createdBefore ? new Date(validatedData.createdBefore) : undefined
+      }, await teamsService.resolveVisibility(user));
+
+      return {
+        success: true,
+        data: report
+      };
+    } catch (error) {
+      console.error('Error in getPipelineVelocity:', error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
+      if (error instanceof ValidationError) {
+        throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map(e => `${e.field}: ${e.message}`).join(', ')}`);
+      }
+      throw new HttpsError('internal', 'Failed to get pipeline velocity');
+    }
+  }
+);
@@ -0,0 +1,327 @@
+import {
+  Firestore,
+  DocumentData,
+  DocumentReference,
+  Timestamp
+} from 'firebase-admin/firestore';
+import { Opportunity, OpportunityStage, OpportunityStageTransition } from '../../types';
+import { excludeDeleted } from '../../shared/soft-delete';
+import { getWhereIn } from '../../shared/queries';
+import { DAY_MS } from '../../shared/dates';
+import type { RecordVisibility } from '../teams/teams.service';
+
+// Pipeline order used for conversion rates - Closed-Lost is terminal and never "converts"
+const PIPELINE_STAGES: OpportunityStage[] = ['Lead', 'Qualified', 'Proposal', 'Negotiation', 'Closed-Won'];
+const CLOSED_STAGES: OpportunityStage[] = ['Closed-Won', 'Closed-Lost'];
+const ALL_STAGES: OpportunityStage[] = ['Lead', 'Qualified', 'Proposal', 'Negotiation', 'Closed-Won', 'Closed-Lost'];
+
+// A WriteBatch or a Transaction - transitions commit with whichever wrote the stage change
+type TransitionWriter = { set(documentRef: DocumentReference, data: DocumentData): unknown };
+
+export interface PipelineVelocityFilters {
+  ownerId?: string;
+  iolProduct?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+}
+
+export interface StageVelocity {
+  stage: OpportunityStage;
+  entered: number;
+  completedStays: number;
+  averageDaysInStage: number;
+  medianDaysInStage: number;
+  currentlyInStage: number;
+  averageDaysCurrentlyInStage: number;
+}
+
+export interface StageConversion {
+  fromStage: OpportunityStage;
+  toStage: OpportunityStage;
+  entered: number;
+  converted: number;
+  conversionRate: number;
+}
+
+export interface VelocityMetrics {
+  opportunities: number;
+  closed: number;
+  won: number;
+  winRate: number;
+  averageCycleDays: number;
+  stages: StageVelocity[];
+  conversions: StageConversion[];
+}
+
+export interface PipelineVelocityReport {
+  overall: VelocityMetrics;
+  byOwner: Array<VelocityMetrics & { ownerId: string }>;
+  byProduct: Array<VelocityMetrics & { product: string }>;
+  generatedAt: string;
+}
+
+interface StageStay {
+  stage: OpportunityStage;
+  enteredAt: number;
+  exitedAt?: number;
+}
+
+interface OpportunityTimeline {
+  opportunity: Opportunity;
+  stays: StageStay[];
+  reachedStages: Set<OpportunityStage>;
+  createdAt: number;
+  closedAt?: number;
+}
+
+export class StageHistoryService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  /**
+   * Queue a stage transition write on an existing batch or transaction so it commits
+   * atomically with the opportunity update that caused it
+   */
+  queueTransition(
+    batch: TransitionWriter,
+    opportunityId: string,
+    opportunity: Pick<Opportunity, 'estimatedDealValue' | 'ownerId' | 'iolProducts'>,
+    fromStage: OpportunityStage | null,
+    toStage: OpportunityStage,
+    userId: string
+  ): OpportunityStageTransition {
+    const transitionRef = this.db.collection('opportunity_stage_history').doc();
+    const transition: Omit<OpportunityStageTransition, 'id'> = {
+      opportunityId,
+      fromStage,
+      toStage,
+      changedBy: userId,
+      changedAt: Timestamp.now(),
+      dealValue: opportunity.estimatedDealValue || 0,
+      ownerId: opportunity.ownerId,
+      iolProducts: opportunity.iolProducts || []
+    };
+
+    batch.set(transitionRef, transition);
+
+    return { id: transitionRef.id, ...transition };
+  }
+
+  async getStageHistory(opportunityId: string): Promise<OpportunityStageTransition[]> {
+    const snapshot = await this.db.collection('opportunity_stage_history')
+      .where('opportunityId', '==', opportunityId)
+      .orderBy('changedAt', 'asc')
+      .get();
+
+    return snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    })) as OpportunityStageTransition[];
+  }
+
+  async getPipelineVelocity(filters: PipelineVelocityFilters = {}, visibility?: RecordVisibility): Promise<PipelineVelocityReport> {
+    let opportunitiesQuery = this.db.collection('opportunities') as FirebaseFirestore.Query;
+
+    if (filters.ownerId) {
+      opportunitiesQuery = opportunitiesQuery.where('ownerId', '==', filters.ownerId);
+    }
+
+    if (filters.iolProduct) {
+      opportunitiesQuery = opportunitiesQuery.where('iolProducts', 'array-contains', filters.iolProduct);
+    }
+
+    const opportunitiesSnapshot = await opportunitiesQuery.get();
+
+    let opportunities = excludeDeleted(opportunitiesSnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    })) as Opportunity[]);
+
+    if (visibility) {
+      opportunities = visibility.filter('opportunities', opportunities);
+    }
+
+    if (filters.createdAfter) {
+      opportunities = opportunities.filter(opp =>
+        opp.createdAt && opp.createdAt.toDate() >= filters.createdAfter!
+      );
+    }
+
+    if (filters.createdBefore) {
+      opportunities = opportunities.filter(opp =>
+        opp.createdAt && opp.createdAt.toDate() <= filters.createdBefore!
+      );
+    }
+
+    // Only the history of the opportunities in the report; unfiltered, one read of the collection is cheaper
+    const filtered = Object.values(filters).some(value => value !== undefined) || (!!visibility && !visibility.isUnrestricted);
+    const historyDocs = filtered
+      ? await getWhereIn(this.db.collection('opportunity_stage_history'), 'opportunityId', opportunities.map(opp => opp.id!))
+      : (await this.db.collection('opportunity_stage_history').get()).docs;
+
+    // Group transitions by opportunity
+    const transitionsByOpportunity = new Map<string, OpportunityStageTransition[]>();
+    historyDocs.forEach(doc => {
+      const transition = doc.data() as OpportunityStageTransition;
+      const list = transitionsByOpportunity.get(transition.opportunityId) || [];
+      list.push(transition);
+      transitionsByOpportunity.set(transition.opportunityId, list);
+    });
+
+    const now = Date.now();
+    const timelines = opportunities.map(opp =>
+      this.buildTimeline(opp, transitionsByOpportunity.get(opp.id!) || [], now)
+    );
+
+    // Per-owner breakdown
+    const byOwnerGroups = new Map<string, OpportunityTimeline[]>();
+    timelines.forEach(timeline => {
+      const ownerId = timeline.opportunity.ownerId || 'unassigned';
+      byOwnerGroups.set(ownerId, [...(byOwnerGroups.get(ownerId) || []), timeline]);
+    });
+
+    // Per-product breakdown - an opportunity counts once for each iOL product it carries
+    const byProductGroups = new Map<string, OpportunityTimeline[]>();
+    timelines.forEach(timeline => {
+      (timeline.opportunity.iolProducts || []).forEach(product => {
+        byProductGroups.set(product, [...(byProductGroups.get(product) || []), timeline]);
+      });
+    });
+
+    return {
+      overall: this.computeMetrics(timelines, now),
+      byOwner: Array.from(byOwnerGroups.entries())
+        .map(([ownerId, group]) => ({ ownerId, ...this.computeMetrics(group, now) }))
+        .sort((a, b) => b.opportunities - a.opportunities),
+      byProduct: Array.from(byProductGroups.entries())
+        .map(([product, group]) => ({ product, ...this.computeMetrics(group, now) }))
+        .sort((a, b) => b.opportunities - a.opportunities),
+      generatedAt: new Date(now).toISOString()
+    };
+  }
+
+  /**
+   * Build the ordered list of stage stays for an opportunity.
+   * Opportunities created before stage history was recorded are treated as having
+   * entered their first known stage when they were created.
+   */
+  private buildTimeline(opportunity: Opportunity, transitions: OpportunityStageTransition[], now: number): OpportunityTimeline {
+    const createdAt = opportunity.createdAt ? opportunity.createdAt.toMillis() : now;
+    const sorted = [...transitions].sort((a, b) => a.changedAt.toMillis() - b.changedAt.toMillis());
+
+    const entries: Array<{ stage: OpportunityStage; at: number }> = [];
+
+    if (sorted.length === 0) {
+      entries.push({ stage: opportunity.stage, at: createdAt });
+    } else {
+      if (sorted[0].fromStage) {
+        entries.push({ stage: sorted[0].fromStage, at: Math.min(createdAt, sorted[0].changedAt.toMillis()) });
+      }
+      sorted.forEach(transition => {
+        entries.push({ stage: transition.toStage, at: transition.changedAt.toMillis() });
+      });
+    }
+
+    const stays: StageStay[] = entries.map((entry, index) => ({
+      stage: entry.stage,
+      enteredAt: entry.at,
+      exitedAt: entries[index + 1]?.at
+    }));
+
+    const lastStay = stays[stays.length - 1];
+    const closedAt = lastStay && CLOSED_STAGES.includes(lastStay.stage) ? lastStay.enteredAt : undefined;
+
+    return {
+      opportunity,
+      stays,
+      reachedStages: new Set(stays.map(stay => stay.stage)),
+      createdAt: stays.length > 0 ? stays[0].enteredAt : createdAt,
+      closedAt
+    };
+  }
+
+  private computeMetrics(timelines: OpportunityTimeline[], now: number): VelocityMetrics {
+    const stages: StageVelocity[] = ALL_STAGES.map(stage => {
+      const completedDurations: number[] = [];
+      const currentDurations: number[] = [];
+      let entered = 0;
+
+      timelines.forEach(timeline => {
+        const staysInStage = timeline.stays.filter(stay => stay.stage === stage);
+        if (staysInStage.length > 0) {
+          entered++;
+        }
+
+        staysInStage.forEach(stay => {
+          if (stay.exitedAt !== undefined) {
+            completedDurations.push((stay.exitedAt - stay.enteredAt) / DAY_MS);
+          } else if (!CLOSED_STAGES.includes(stay.stage)) {
+            currentDurations.push((now - stay.enteredAt) / DAY_MS);
+          }
+        });
+      });
+
+      return {
+        stage,
+        entered,
+        completedStays: completedDurations.length,
+        averageDaysInStage: this.round(this.average(completedDurations)),
+        medianDaysInStage: this.round(this.median(completedDurations)),
+        currentlyInStage: currentDurations.length,
+        averageDaysCurrentlyInStage: this.round(this.average(currentDurations))
+      };
+    });
+
+    const conversions: StageConversion[] = [];
+    for (let i = 0; i < PIPELINE_STAGES.length - 1; i++) {
+      const fromStage = PIPELINE_STAGES[i];
+      const laterStages = PIPELINE_STAGES.slice(i + 1);
+      const enteredTimelines = timelines.filter(timeline => timeline.reachedStages.has(fromStage));
+      const converted = enteredTimelines.filter(timeline =>
+        laterStages.some(stage => timeline.reachedStages.has(stage))
+      ).length;
+
+      conversions.push({
+        fromStage,
+        toStage: PIPELINE_STAGES[i + 1],
+        entered: enteredTimelines.length,
+        converted,
+        conversionRate: enteredTimelines.length > 0 ? this.round((converted / enteredTimelines.length) * 100) : 0
+      });
+    }
+
+    const closedTimelines = timelines.filter(timeline => timeline.closedAt !== undefined);
+    const wonCount = closedTimelines.filter(timeline =>
+      timeline.stays[timeline.stays.length - 1].stage === 'Closed-Won'
+    ).length;
+    const cycleDays = closedTimelines.map(timeline => (timeline.closedAt! - timeline.createdAt) / DAY_MS);
+
+    return {
+      opportunities: timelines.length,
+      closed: closedTimelines.length,
+      won: wonCount,
+      winRate: closedTimelines.length > 0 ? this.round((wonCount / closedTimelines.length) * 100) : 0,
+      averageCycleDays: this.round(this.average(cycleDays)),
+      stages,
+      conversions
+    };
+  }
+
+  private average(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
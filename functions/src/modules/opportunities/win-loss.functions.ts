@@ -0,0 +1,59 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { validateData, ValidationError } from '../../shared/validation.middleware';
+import { authenticateUser, requirePermission, AuthError, toHttpsAuthError } from '../../shared/auth.middleware';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { TeamsService } from '../teams/teams.service';
+import { WinLossService } from './win-loss.service';
+import { z } from 'zod';
+
+const db = getFirestore();
+const winLossService = new WinLossService(db);
+const teamsService = new TeamsService(db);
+
+// Validation schemas
+const WinLossAnalysisSchema = z.object({
+  ownerId: z.string().optional(),
+  iolProduct: z.string().optional(),
+  closedAfter: z.string().optional(), // ISO date string
+  closedBefore: z.string().optional() // ISO date string
+});
+
+// Get close-out reasons of won and lost deals, overall and per iOL product / region / owner / deal size
+export const getWinLossAnalysis = onCall(
+  { cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'], maxInstances: 10 },
+  async (request) => {
+    try {
+      const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:read');
+
+      // Apply rate limiting for stats operations
+      await RateLimiter.checkLimit(user.uid, RateLimitPresets.stats.maxRequests, RateLimitPresets.stats.windowMs, 'getWinLossAnalysis');
+      const validatedData = validateData(WinLossAnalysisSchema, request.data || {});
+
+      const report = await winLossService.getWinLossAnalysis({
+        ownerId: validatedData.ownerId,
+        iolProduct: validatedData.iolProduct,
+        closedAfter: validatedData.closedAfter ? new Date(validatedData.closedAfter) : undefined,
+        closedBefore: validatedData.closedBefore ? new Date(validatedData.closedBefore) : undefined
+      }, await teamsService.resolveVisibility(user));
+
+      return {
+        success: true,
+        data: report
+      };
+    } catch (error) {
+      console.error('Error in getWinLossAnalysis:', error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
+      if (error instanceof ValidationError) {
+        throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map(e => `${e.field}: ${e.message}`).join(', ')}`);
+      }
+      throw new HttpsError('internal', 'Failed to get win/loss analysis');
+    }
+  }
+);
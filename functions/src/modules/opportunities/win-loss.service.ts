@@ -0,0 +1,241 @@
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { CloseOutOutcome, Opportunity, OpportunityCloseOut, OpportunityStage } from '../../types';
+import { excludeDeleted } from '../../shared/soft-delete';
+import { BusinessLogicError } from '../../shared/errors';
+import type { RecordVisibility } from '../teams/teams.service';
+
+export const WIN_REASON_CODES = [
+  'product_fit',
+  'price',
+  'relationship',
+  'integration',
+  'time_to_market',
+  'other'
+] as const;
+
+export const LOSS_REASON_CODES = [
+  'price',
+  'lost_to_competitor',
+  'product_gap',
+  'no_budget',
+  'no_decision',
+  'timing',
+  'other'
+] as const;
+
+// Deal size bands on the final deal value, upper bound exclusive
+const DEAL_SIZE_BANDS: Array<{ band: string; label: string; max: number }> = [
+  { band: 'small', label: 'Under $10k', max: 10000 },
+  { band: 'medium', label: '$10k – $50k', max: 50000 },
+  { band: 'large', label: '$50k – $250k', max: 250000 },
+  { band: 'enterprise', label: '$250k and above', max: Infinity }
+];
+
+// Closed opportunities from before close-outs were captured
+const UNRECORDED_REASON = 'not_recorded';
+
+const OUTCOME_BY_STAGE: Partial<Record<OpportunityStage, CloseOutOutcome>> = {
+  'Closed-Won': 'won',
+  'Closed-Lost': 'lost'
+};
+
+export type CloseOutInput = Omit<OpportunityCloseOut, 'closedAt' | 'closedBy'>;
+
+export const isClosedStage = (stage: OpportunityStage | null | undefined): boolean => !!stage && !!OUTCOME_BY_STAGE[stage];
+
+export interface WinLossFilters {
+  ownerId?: string;
+  iolProduct?: string;
+  closedAfter?: Date;
+  closedBefore?: Date;
+}
+
+export interface ReasonCount {
+  outcome: CloseOutOutcome;
+  reasonCode: string;
+  count: number;
+  value: number;
+}
+
+export interface WinLossMetrics {
+  closed: number;
+  won: number;
+  lost: number;
+  winRate: number;
+  wonValue: number;
+  lostValue: number;
+  reasons: ReasonCount[];
+}
+
+export interface WinLossReport {
+  overall: WinLossMetrics;
+  byProduct: Array<WinLossMetrics & { product: string }>;
+  byRegion: Array<WinLossMetrics & { region: string }>;
+  byOwner: Array<WinLossMetrics & { ownerId: string }>;
+  byDealSize: Array<WinLossMetrics & { band: string; label: string }>;
+  competitors: Array<{ competitor: string; won: number; lost: number }>;
+  generatedAt: string;
+}
+
+interface ClosedDeal {
+  opportunity: Opportunity;
+  outcome: CloseOutOutcome;
+  reasonCode: string;
+  value: number;
+  region: string;
+}
+
+/**
+ * The close-out to store with a write that moves an opportunity from fromStage to toStage
+ * (null on create). Entering Closed-Won or Closed-Lost needs one matching the outcome; it
+ * isn't accepted with any other write. Returns null when the move reopens a closed deal, whose
+ * close-out no longer applies and has to be cleared.
+ */
+export const resolveCloseOut = (
+  fromStage: OpportunityStage | null,
+  toStage: OpportunityStage | undefined,
+  closeOut: CloseOutInput | undefined,
+  userId: string
+): OpportunityCloseOut | null | undefined => {
+  const moving = !!toStage && toStage !== fromStage;
+  const outcome = moving ? OUTCOME_BY_STAGE[toStage!] : undefined;
+
+  if (!outcome) {
+    if (closeOut) {
+      throw new BusinessLogicError('A close-out can only be recorded when moving the opportunity to Closed-Won or Closed-Lost');
+    }
+    return moving && isClosedStage(fromStage) ? null : undefined;
+  }
+
+  if (!closeOut) {
+    throw new BusinessLogicError(`Moving to ${toStage} needs a close-out: reason, final deal value and notes`);
+  }
+  if (closeOut.outcome !== outcome) {
+    throw new BusinessLogicError(`The close-out is for a ${closeOut.outcome} deal but the opportunity is moving to ${toStage}`);
+  }
+
+  const { competitor, ...rest } = closeOut;
+  return {
+    ...rest,
+    ...(competitor ? { competitor } : {}),
+    closedAt: Timestamp.now(),
+    closedBy: userId
+  };
+};
+
+export class WinLossService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  /**
+   * Close-out reasons of won and lost opportunities, overall and broken down by iOL product,
+   * account region, owner and deal size
+   */
+  async getWinLossAnalysis(filters: WinLossFilters = {}, visibility?: RecordVisibility): Promise<WinLossReport> {
+    // Owner and product are filtered here rather than in the query so no composite index is needed
+    const snapshot = await this.db.collection('opportunities')
+      .where('stage', 'in', Object.keys(OUTCOME_BY_STAGE))
+      .get();
+
+    const live = excludeDeleted(snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    })) as Opportunity[]);
+    const opportunities = (visibility ? visibility.filter('opportunities', live) : live).filter(opp => {
+      if (filters.ownerId && opp.ownerId !== filters.ownerId) return false;
+      if (filters.iolProduct && !(opp.iolProducts || []).includes(filters.iolProduct)) return false;
+      const closedAt = (opp.closeOut?.closedAt || opp.updatedAt)?.toDate();
+      if (filters.closedAfter && (!closedAt || closedAt < filters.closedAfter)) return false;
+      if (filters.closedBefore && (!closedAt || closedAt > filters.closedBefore)) return false;
+      return true;
+    });
+
+    const regions = await this.getAccountRegions(opportunities.map(opp => opp.accountId));
+
+    const deals: ClosedDeal[] = opportunities.map(opp => ({
+      opportunity: opp,
+      outcome: OUTCOME_BY_STAGE[opp.stage]!,
+      reasonCode: opp.closeOut?.reasonCode || UNRECORDED_REASON,
+      value: opp.closeOut?.finalDealValue ?? opp.estimatedDealValue ?? 0,
+      region: regions.get(opp.accountId) || 'Unknown'
+    }));
+
+    const groupBy = (keysOf: (deal: ClosedDeal) => string[]) => {
+      const groups = new Map<string, ClosedDeal[]>();
+      deals.forEach(deal => keysOf(deal).forEach(key => groups.set(key, [...(groups.get(key) || []), deal])));
+      return Array.from(groups.entries())
+        .map(([key, group]) => ({ key, metrics: this.computeMetrics(group) }))
+        .sort((a, b) => b.metrics.closed - a.metrics.closed);
+    };
+
+    // An opportunity counts once for each iOL product it carries
+    const byProduct = groupBy(deal => deal.opportunity.iolProducts?.length ? deal.opportunity.iolProducts : ['No product']);
+    const byRegion = groupBy(deal => [deal.region]);
+    const byOwner = groupBy(deal => [deal.opportunity.ownerId || 'unassigned']);
+    const byBand = groupBy(deal => [DEAL_SIZE_BANDS.find(band => deal.value < band.max)!.band]);
+
+    // Competitor names are free text; spellings differing only in case count together
+    const competitors = new Map<string, { competitor: string; won: number; lost: number }>();
+    deals.forEach(deal => {
+      const competitor = deal.opportunity.closeOut?.competitor?.trim();
+      if (!competitor) return;
+      const counts = competitors.get(competitor.toLowerCase()) || { competitor, won: 0, lost: 0 };
+      counts[deal.outcome] += 1;
+      competitors.set(competitor.toLowerCase(), counts);
+    });
+
+    return {
+      overall: this.computeMetrics(deals),
+      byProduct: byProduct.map(({ key, metrics }) => ({ product: key, ...metrics })),
+      byRegion: byRegion.map(({ key, metrics }) => ({ region: key, ...metrics })),
+      byOwner: byOwner.map(({ key, metrics }) => ({ ownerId: key, ...metrics })),
+      byDealSize: DEAL_SIZE_BANDS.map(band => ({
+        band: band.band,
+        label: band.label,
+        ...(byBand.find(group => group.key === band.band)?.metrics || this.computeMetrics([]))
+      })),
+      competitors: Array.from(competitors.values())
+        .sort((a, b) => (b.won + b.lost) - (a.won + a.lost)),
+      generatedAt: new Date().toISOString()
+    };
+  }
+
+  private computeMetrics(deals: ClosedDeal[]): WinLossMetrics {
+    const won = deals.filter(deal => deal.outcome === 'won');
+    const lost = deals.filter(deal => deal.outcome === 'lost');
+
+    const reasons = new Map<string, ReasonCount>();
+    deals.forEach(deal => {
+      const key = `${deal.outcome}|${deal.reasonCode}`;
+      const entry = reasons.get(key) || { outcome: deal.outcome, reasonCode: deal.reasonCode, count: 0, value: 0 };
+      entry.count += 1;
+      entry.value += deal.value;
+      reasons.set(key, entry);
+    });
+
+    return {
+      closed: deals.length,
+      won: won.length,
+      lost: lost.length,
+      winRate: deals.length > 0 ? Math.round((won.length / deals.length) * 1000) / 10 : 0,
+      wonValue: won.reduce((sum, deal) => sum + deal.value, 0),
+      lostValue: lost.reduce((sum, deal) => sum + deal.value, 0),
+      reasons: Array.from(reasons.values()).sort((a, b) => b.count - a.count)
+    };
+  }
+
+  private async getAccountRegions(accountIds: string[]): Promise<Map<string, string>> {
+    const uniqueIds = Array.from(new Set(accountIds.filter(Boolean)));
+    if (uniqueIds.length === 0) {
+      return new Map();
+    }
+
+    const docs = await this.db.getAll(...uniqueIds.map(id => this.db.collection('accounts').doc(id)));
+    return new Map(docs
+      .filter(doc => doc.exists && doc.data()?.region)
+      .map(doc => [doc.id, doc.data()!.region as string]));
+  }
+}
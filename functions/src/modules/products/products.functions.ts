@@ -1,8 +1,9 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
-import { validateData, ValidationError } from '../../shared/validation.middleware';
-import { authenticateUser } from '../../shared/auth.middleware';
+import { validateData, ValidationError, commonSchemas } from '../../shared/validation.middleware';
+import { authenticateUser, requirePermission, AuthError, toHttpsAuthError } from '../../shared/auth.middleware';
 import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { StaleWriteError, toHttpsStaleWriteError } from '../../shared/errors';
 import { ProductsService, ProductFilters, ProductsQueryOptions } from './products.service';
 import { z } from 'zod';
 
@@ -93,6 +94,7 @@ export const getProducts = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'products:read');
       
       // Apply rate limiting for read operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getProducts');
@@ -119,6 +121,9 @@ export const getProducts = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       throw new HttpsError('internal', 'Failed to get products');
     }
   }
@@ -130,6 +135,7 @@ export const getProduct = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'products:read');
       
       // Apply rate limiting for read operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getProduct');
@@ -144,8 +150,6 @@ export const getProduct = onCall(
         throw new HttpsError('not-found', 'Product not found');
       }
 
-      // Removed ownership check - allow access to all products
-
       return {
         success: true,
         data: product
@@ -155,6 +159,9 @@ export const getProduct = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       throw new HttpsError('internal', 'Failed to get product');
     }
   }
@@ -166,6 +173,7 @@ export const createProduct = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'products:create');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'createProduct');
@@ -182,6 +190,9 @@ export const createProduct = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       if (error instanceof ValidationError) {
         console.error('Validation errors:', error.errors);
         throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
@@ -200,6 +211,7 @@ export const updateProduct = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'products:update');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'updateProduct');
@@ -215,12 +227,12 @@ export const updateProduct = onCall(
       if (!existingProduct) {
         throw new HttpsError('not-found', 'Product not found');
       }
-      // Removed ownership check - allow updates to all products
-
+      const expectedRevision = validateData(commonSchemas.expectedRevision, request.data.expectedRevision);
       const updatedProduct = await productsService.updateProduct(
         request.data.productId,
         validatedData,
-        user.uid
+        user.uid,
+        expectedRevision
       );
 
       return {
@@ -232,6 +244,12 @@ export const updateProduct = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
+      if (error instanceof StaleWriteError) {
+        throw toHttpsStaleWriteError(error);
+      }
       if (error instanceof ValidationError) {
         console.error('Validation errors:', error.errors);
         throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
@@ -250,6 +268,7 @@ export const deleteProduct = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'products:delete');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'deleteProduct');
@@ -263,8 +282,6 @@ export const deleteProduct = onCall(
       if (!existingProduct) {
         throw new HttpsError('not-found', 'Product not found');
       }
-      // Removed ownership check - allow deletion of all products
-
       await productsService.deleteProduct(request.data.productId, user.uid);
 
       return {
@@ -276,6 +293,9 @@ export const deleteProduct = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       if (error instanceof ValidationError) {
         console.error('Validation errors:', error.errors);
         throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
@@ -294,6 +314,7 @@ export const getProductsStats = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'products:read');
       
       // Apply rate limiting for stats operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.stats.maxRequests, RateLimitPresets.stats.windowMs, 'getProductsStats');
@@ -315,6 +336,9 @@ export const getProductsStats = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       throw new HttpsError('internal', 'Failed to get products statistics');
     }
   }
@@ -326,6 +350,7 @@ export const bulkUpdateProducts = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'products:bulkUpdate');
       
       // Apply rate limiting for heavy operations (bulk updates)
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.heavy.maxRequests, RateLimitPresets.heavy.windowMs, 'bulkUpdateProducts');
@@ -338,8 +363,6 @@ export const bulkUpdateProducts = onCall(
           throw new HttpsError('not-found', `Product not found: ${update.id}`);
         }
       }
-      // Removed ownership checks - allow bulk updates to all products
-
       const updatedProducts = await productsService.bulkUpdateProducts(
         validatedData.updates,
         user.uid
@@ -354,6 +377,9 @@ export const bulkUpdateProducts = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       if (error instanceof ValidationError) {
         console.error('Validation errors:', error.errors);
         throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
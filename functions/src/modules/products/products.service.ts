@@ -5,6 +5,9 @@ import {
 } from 'firebase-admin/firestore';
 import { Product, ProductCategory, ProductSubcategory } from '../../types';
 import { AuditService } from '../../shared/audit.service';
+import { isDeleted, excludeDeleted, softDeleteFields } from '../../shared/soft-delete';
+import { updateWithRevision, bumpRevision, getRevision } from '../../shared/concurrency';
+import { recordHistory } from '../../shared/record-history';
 
 export interface ProductFilters {
   ownerId?: string;
@@ -102,10 +105,11 @@ export class ProductsService {
     query = query.limit(limit + 1); // Get one extra to check if there are more
 
     const snapshot = await query.get();
-    const products = snapshot.docs.slice(0, limit).map(doc => ({
+    // Trashed records are excluded from results
+    const products = excludeDeleted(snapshot.docs.slice(0, limit).map(doc => ({
       id: doc.id,
       ...doc.data()
-    })) as Product[];
+    })) as Product[]);
 
     // Apply client-side search filter if needed
     let filteredProducts = products;
@@ -119,8 +123,8 @@ export class ProductsService {
 
     // Get total count for pagination
     const totalQuery = this.buildFilterQuery(filters);
-    const totalSnapshot = await totalQuery.count().get();
-    const total = totalSnapshot.data().count;
+    const totalSnapshot = await totalQuery.select('deletedAt').get();
+    const total = totalSnapshot.docs.filter(doc => !isDeleted(doc.data())).length;
 
     return {
       products: filteredProducts,
@@ -132,7 +136,7 @@ export class ProductsService {
   async getProduct(productId: string): Promise<Product | null> {
     const doc = await this.db.collection('products').doc(productId).get();
     
-    if (!doc.exists) {
+    if (!doc.exists || isDeleted(doc.data())) {
       return null;
     }
 
@@ -162,7 +166,7 @@ export class ProductsService {
       .where('name', '==', productData.name)
       .get();
 
-    if (!existingProducts.empty) {
+    if (existingProducts.docs.some(doc => !isDeleted(doc.data()))) {
       throw new Error('A product with this name already exists for this account');
     }
 
@@ -193,11 +197,11 @@ export class ProductsService {
     return newProduct;
   }
 
-  async updateProduct(productId: string, updates: Partial<Product>, userId: string): Promise<Product> {
+  async updateProduct(productId: string, updates: Partial<Product>, userId: string, expectedRevision?: number): Promise<Product> {
     const productRef = this.db.collection('products').doc(productId);
     const doc = await productRef.get();
 
-    if (!doc.exists) {
+    if (!doc.exists || isDeleted(doc.data())) {
       throw new Error('Product not found');
     }
 
@@ -210,7 +214,7 @@ export class ProductsService {
         .where('name', '==', updates.name)
         .get();
 
-      if (!nameCheck.empty && nameCheck.docs[0].id !== productId) {
+      if (nameCheck.docs.some(doc => doc.id !== productId && !isDeleted(doc.data()))) {
         throw new Error('A product with this name already exists for this account');
       }
     }
@@ -227,12 +231,16 @@ export class ProductsService {
       }
     });
 
-    await productRef.update(updateData);
+    const { revision } = await updateWithRevision(this.db, productRef, 'Product', expectedRevision, userId, () => ({
+      updates: updateData,
+      result: null
+    }));
 
     const updatedProduct = {
       ...existingProduct,
       ...updateData,
-      id: productId
+      id: productId,
+      revision
     } as Product;
 
     // Audit log
@@ -254,7 +262,7 @@ export class ProductsService {
     const productRef = this.db.collection('products').doc(productId);
     const doc = await productRef.get();
 
-    if (!doc.exists) {
+    if (!doc.exists || isDeleted(doc.data())) {
       throw new Error('Product not found');
     }
 
@@ -265,7 +273,7 @@ export class ProductsService {
       .where('productId', '==', productId)
       .get();
 
-    if (!opportunitiesQuery.empty) {
+    if (opportunitiesQuery.docs.some(opportunityDoc => !isDeleted(opportunityDoc.data()))) {
       throw new Error('Cannot delete product: product is referenced by opportunities');
     }
 
@@ -273,11 +281,12 @@ export class ProductsService {
       .where('productIds', 'array-contains', productId)
       .get();
 
-    if (!contactsQuery.empty) {
+    if (contactsQuery.docs.some(contactDoc => !isDeleted(contactDoc.data()))) {
       throw new Error('Cannot delete product: product is referenced by contacts');
     }
 
-    await productRef.delete();
+    // Soft delete - the product stays in the trash until restored or purged
+    await productRef.update(softDeleteFields(userId));
 
     // Audit log
     await AuditService.log({
@@ -292,7 +301,7 @@ export class ProductsService {
   async getProductsStats(filters: ProductFilters = {}): Promise<ProductStats> {
     const query = this.buildFilterQuery(filters);
     const snapshot = await query.get();
-    const products = snapshot.docs.map(doc => doc.data()) as Product[];
+    const products = excludeDeleted(snapshot.docs.map(doc => doc.data()) as Product[]);
 
     const stats: ProductStats = {
       total: products.length,
@@ -352,7 +361,7 @@ export class ProductsService {
       const productRef = this.db.collection('products').doc(update.id);
       const doc = await productRef.get();
 
-      if (!doc.exists) {
+      if (!doc.exists || isDeleted(doc.data())) {
         continue;
       }
 
@@ -362,7 +371,8 @@ export class ProductsService {
         updatedAt: Timestamp.now()
       };
 
-      batch.update(productRef, updateData);
+      batch.update(productRef, { ...updateData, ...bumpRevision() });
+      recordHistory(batch, productRef, existingProduct, updateData, getRevision(existingProduct) + 1, userId, { action: 'bulk_update' });
 
       updatedProducts.push({
         ...existingProduct,
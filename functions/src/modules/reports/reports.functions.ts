@@ -0,0 +1,211 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getFirestore } from 'firebase-admin/firestore';
+import { authenticateUser, requirePermission } from '../../shared/auth.middleware';
+import { validateData, commonSchemas } from '../../shared/validation.middleware';
+import { withErrorHandling } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { AI_SECRETS } from '../../shared/ai/config';
+import { MAIL_SECRETS, appUrl } from '../../shared/mail/config';
+import { TeamsService } from '../teams/teams.service';
+import { WeeklyNarrativeService } from './weekly-narrative.service';
+import { WeeklyReportService, isValidTimeZone } from './weekly-report.service';
+import { DigestOutcome, WeeklyDigestService } from './weekly-digest.service';
+import { z } from 'zod';
+
+const isoWeekSchema = z.string().regex(/^\d{4}-W\d{2}$/, 'Expected an ISO week such as 2026-W42');
+const isoDaySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const weeklyActivitySchema = z.object({
+  date: isoDaySchema,
+  accountName: z.string().max(200),
+  opportunityTitle: z.string().max(300),
+  activityType: z.string().max(50),
+  subject: z.string().max(500),
+  status: z.string().max(50)
+});
+
+const weeklyReportSchema = z.object({
+  weekStart: isoDaySchema,
+  weekEnd: isoDaySchema,
+  summary: z.object({
+    totalDealValue: z.number(),
+    totalOpportunities: z.number().int().min(0),
+    activeOpportunities: z.number().int().min(0),
+    closedWonOpportunities: z.number().int().min(0),
+    closedLostOpportunities: z.number().int().min(0),
+    activitiesThisWeek: z.number().int().min(0),
+    activitiesNextWeek: z.number().int().min(0),
+    overdueActivities: z.number().int().min(0),
+    totalBlockers: z.number().int().min(0)
+  }),
+  opportunities: z.array(z.object({
+    id: commonSchemas.id,
+    title: z.string().max(300),
+    accountName: z.string().max(200),
+    stage: z.string().max(50),
+    priority: z.string().max(50).nullish().transform(value => value ?? undefined),
+    estimatedDealValue: z.number().nullish().transform(value => value ?? undefined),
+    daysSinceLastActivity: z.number().int().min(0).nullable(),
+    overdueActivities: z.number().int().min(0),
+    unresolvedBlockers: z.array(z.string().max(500)).max(50),
+    weeklyChanges: z.array(z.string().max(500)).max(50),
+    nextActivity: z.object({ subject: z.string().max(500), date: isoDaySchema }).nullish()
+  })).max(300),
+  thisWeekActivities: z.array(weeklyActivitySchema).max(500),
+  nextWeekActivities: z.array(weeklyActivitySchema).max(500)
+});
+
+const getReportSchema = z.object({
+  weekOf: isoDaySchema,
+  timeZone: z.string().max(100).refine(isValidTimeZone, 'Unknown time zone').optional().default('UTC'),
+  ownerId: commonSchemas.id.optional(),
+  scope: z.enum(['all', 'territory', 'team', 'mine']).optional().default('all')
+});
+
+const getNarrativeSchema = z.object({
+  isoWeek: isoWeekSchema
+});
+
+const generateNarrativeSchema = z.object({
+  isoWeek: isoWeekSchema,
+  report: weeklyReportSchema
+});
+
+const saveNarrativeSchema = z.object({
+  isoWeek: isoWeekSchema,
+  narrative: z.string().trim().min(1).max(20000)
+});
+
+const getNarrativeService = () => new WeeklyNarrativeService(getFirestore());
+
+/**
+ * Summary, opportunity progress and activities for the week containing weekOf
+ */
+export const getWeeklyReport = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10,
+    memory: '512MiB'
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getWeeklyReport');
+
+    const { weekOf, timeZone, ownerId, scope } = validateData(getReportSchema, request.data);
+    const db = getFirestore();
+
+    const report = await new WeeklyReportService(db).buildReport({
+      weekOf,
+      timeZone,
+      ownerId,
+      visibility: await new TeamsService(db).resolveVisibility(user, scope)
+    });
+
+    return { report };
+  }, { functionName: 'getWeeklyReport', action: 'WEEKLY_REPORT_GET' })
+);
+
+/**
+ * The caller's stored narrative for an ISO week, or null if none was generated
+ */
+export const getWeeklyNarrative = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getWeeklyNarrative');
+
+    const { isoWeek } = validateData(getNarrativeSchema, request.data);
+
+    const narrative = await getNarrativeService().getNarrative(isoWeek, user.uid);
+
+    return { narrative };
+  }, { functionName: 'getWeeklyNarrative', action: 'WEEKLY_NARRATIVE_GET' })
+);
+
+/**
+ * Write a management narrative from the week's report data and store it for the ISO week
+ */
+export const generateWeeklyNarrative = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10,
+    secrets: AI_SECRETS
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:generateSummary');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.heavy.maxRequests, RateLimitPresets.heavy.windowMs, 'generateWeeklyNarrative');
+
+    const { isoWeek, report } = validateData(generateNarrativeSchema, request.data);
+
+    const narrative = await getNarrativeService().generateNarrative(isoWeek, report, user.uid);
+
+    return { narrative };
+  }, { functionName: 'generateWeeklyNarrative', action: 'WEEKLY_NARRATIVE_GENERATE' })
+);
+
+/**
+ * Store the author's edits to the week's narrative
+ */
+export const saveWeeklyNarrative = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'saveWeeklyNarrative');
+
+    const { isoWeek, narrative } = validateData(saveNarrativeSchema, request.data);
+
+    const saved = await getNarrativeService().saveNarrative(isoWeek, narrative, user.uid);
+
+    return { narrative: saved };
+  }, { functionName: 'saveWeeklyNarrative', action: 'WEEKLY_NARRATIVE_SAVE' })
+);
+
+/**
+ * Email last week's report every Monday to users with weekly reports switched on.
+ * Each user gets the report as the page would show it to them, in their own timezone.
+ */
+export const sendWeeklyDigests = onSchedule({
+  schedule: '0 6 * * 1', // Every Monday at 06:00 UTC
+  timeZone: 'UTC',
+  region: 'us-central1',
+  memory: '512MiB',
+  timeoutSeconds: 540,
+  secrets: MAIL_SECRETS,
+}, async () => {
+  const startTime = Date.now();
+  const service = new WeeklyDigestService(getFirestore());
+  const recipients = await service.getRecipients();
+
+  const outcomes: Record<DigestOutcome, number> = { 'sent': 0, 'already-sent': 0, 'no-access': 0, 'no-opportunities': 0 };
+  const errors: string[] = [];
+
+  for (const recipient of recipients) {
+    try {
+      outcomes[await service.sendDigest(recipient, appUrl.value())]++;
+    } catch (error) {
+      errors.push(`User ${recipient.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  console.log(`Weekly digests: ${outcomes.sent} sent, ${outcomes['already-sent']} already sent, ${outcomes['no-opportunities']} with no opportunities, ${outcomes['no-access']} without access, ${errors.length} failed of ${recipients.length} recipients in ${Date.now() - startTime}ms`);
+  errors.forEach(error => console.error(error));
+});
@@ -0,0 +1,203 @@
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { AuthenticatedUser } from '../../shared/auth.middleware';
+import { hasPermission, normalizeRole, normalizeVisibility } from '../../shared/permissions';
+import { MailService } from '../../shared/mail/mail.service';
+import { MailMessage } from '../../shared/mail/types';
+import { TeamsService } from '../teams/teams.service';
+import type { User } from '../users/users.service';
+import { WeeklyNarrativeService } from './weekly-narrative.service';
+import {
+  WeeklyReport,
+  WeeklyReportActivity,
+  WeeklyReportService,
+  getWeekBounds,
+  isValidTimeZone,
+  safeDateConversion,
+  zonedDay
+} from './weekly-report.service';
+import { DAY_MS } from '../../shared/dates';
+import { escapeHtml } from '../../shared/mail/html';
+
+const MAX_DIGEST_OPPORTUNITIES = 10;
+
+/**
+ * One record per user and ISO week, so a retried run never mails anyone twice
+ */
+export interface WeeklyDigestRecord {
+  id: string; // `${isoWeek}_${userId}`
+  isoWeek: string;
+  userId: string;
+  email: string;
+  transport: string;
+  messageId?: string;
+  sentAt: Timestamp;
+}
+
+export type DigestOutcome = 'sent' | 'already-sent' | 'no-access' | 'no-opportunities';
+
+const formatValue = (value?: number) => `$${(value || 0).toLocaleString('en-US')}`;
+
+const formatActivityDay = (activity: WeeklyReportActivity, timeZone: string) =>
+  safeDateConversion(activity.dateTime).toLocaleDateString('en-US', { timeZone, weekday: 'short', month: 'short', day: 'numeric' });
+
+const formatWeek = (report: WeeklyReport) => {
+  const format = (day: string) => new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', { timeZone: 'UTC', month: 'short', day: 'numeric', year: 'numeric' });
+  return `${format(report.weekStart)} - ${format(report.weekEnd)}`;
+};
+
+/**
+ * HTML digest of a weekly report, with a plain-text copy. Inline styles only, since
+ * most mail clients drop <style> blocks.
+ */
+export const renderWeeklyDigest = (report: WeeklyReport, narrative: string | null, reportUrl: string): Omit<MailMessage, 'to'> => {
+  const { summary } = report;
+  const week = formatWeek(report);
+  const opportunities = report.opportunityProgress.slice(0, MAX_DIGEST_OPPORTUNITIES);
+
+  const metrics: [string, string][] = [
+    ['Active opportunities', String(summary.activeOpportunities)],
+    ['Pipeline value', formatValue(summary.totalDealValue)],
+    ['Closed won', String(summary.closedWonOpportunities)],
+    ['Closed lost', String(summary.closedLostOpportunities)],
+    ['Activities this week', String(summary.activitiesThisWeek)],
+    ['Planned next week', String(summary.activitiesNextWeek)],
+    ['Overdue activities', String(summary.overdueActivities)],
+    ['Active blockers', String(summary.totalBlockers)]
+  ];
+
+  const cell = 'padding:6px 8px;border-bottom:1px solid #e5e7eb;font-size:13px;vertical-align:top;';
+  const heading = (text: string) => `<h2 style="font-size:16px;color:#111827;margin:24px 0 8px;">${escapeHtml(text)}</h2>`;
+
+  const html = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#374151;">
+<div style="max-width:640px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+<h1 style="font-size:20px;color:#111827;margin:0;">Weekly Sales Report</h1>
+<p style="margin:4px 0 0;color:#6b7280;font-size:13px;">Week of ${escapeHtml(week)} (${escapeHtml(report.isoWeek)})</p>
+${heading('Summary')}
+<table style="width:100%;border-collapse:collapse;">
+${metrics.map(([label, value]) => `<tr><td style="${cell}">${label}</td><td style="${cell}text-align:right;font-weight:bold;">${value}</td></tr>`).join('\n')}
+</table>
+${narrative ? `${heading('Management narrative')}<div style="font-size:13px;line-height:1.5;white-space:pre-line;">${escapeHtml(narrative)}</div>` : ''}
+${report.wonThisWeek.length > 0 ? `${heading('Won this week')}<ul style="font-size:13px;padding-left:20px;">${report.wonThisWeek.map(({ opportunity, account }) =>
+    `<li>${escapeHtml(opportunity.title)} (${escapeHtml(account?.name || 'Unknown Account')}) - ${formatValue(opportunity.estimatedDealValue)}</li>`).join('')}</ul>` : ''}
+${heading('Key opportunities')}
+${opportunities.length === 0 ? '<p style="font-size:13px;">No open opportunities.</p>' : `<table style="width:100%;border-collapse:collapse;">
+<tr><th style="${cell}text-align:left;">Opportunity</th><th style="${cell}text-align:left;">Stage</th><th style="${cell}text-align:right;">Value</th></tr>
+${opportunities.map(progress => `<tr>
+<td style="${cell}"><strong>${escapeHtml(progress.opportunity.title)}</strong><br><span style="color:#6b7280;">${escapeHtml(progress.account?.name || 'Unknown Account')}${progress.opportunity.priority ? ` · ${escapeHtml(progress.opportunity.priority)}` : ''}</span>${progress.weeklyChanges.length > 0 ? `<br>${escapeHtml(progress.weeklyChanges.join(', '))}` : ''}${progress.riskFactors.length > 0 ? `<br><span style="color:#b91c1c;">${escapeHtml(progress.riskFactors.join(' · '))}</span>` : ''}</td>
+<td style="${cell}">${escapeHtml(progress.opportunity.stage)}</td>
+<td style="${cell}text-align:right;">${formatValue(progress.opportunity.estimatedDealValue)}</td>
+</tr>`).join('\n')}
+</table>`}
+${heading('Coming up next week')}
+${report.nextWeekActivities.length === 0 ? '<p style="font-size:13px;">Nothing scheduled.</p>' : `<ul style="font-size:13px;padding-left:20px;">${report.nextWeekActivities.map(activity =>
+    `<li>${escapeHtml(formatActivityDay(activity, report.timeZone))}: ${escapeHtml(activity.subject || activity.activityType || 'Activity')} - ${escapeHtml(activity.opportunity.title)} (${escapeHtml(activity.account.name)})</li>`).join('')}</ul>`}
+<p style="margin:24px 0 0;font-size:13px;"><a href="${escapeHtml(reportUrl)}" style="color:#2563eb;">Open the full report</a></p>
+<p style="margin:16px 0 0;font-size:11px;color:#9ca3af;">You receive this because weekly reports are switched on in your profile.</p>
+</div>
+</body>
+</html>`;
+
+  const text = [
+    'WEEKLY SALES REPORT',
+    `Week of ${week} (${report.isoWeek})`,
+    '',
+    'SUMMARY',
+    ...metrics.map(([label, value]) => `${label}: ${value}`),
+    ...(narrative ? ['', 'MANAGEMENT NARRATIVE', narrative] : []),
+    ...(report.wonThisWeek.length > 0 ? ['', 'WON THIS WEEK', ...report.wonThisWeek.map(({ opportunity, account }) =>
+      `• ${opportunity.title} (${account?.name || 'Unknown Account'}) - ${formatValue(opportunity.estimatedDealValue)}`)] : []),
+    '',
+    'KEY OPPORTUNITIES',
+    ...opportunities.flatMap(progress => [
+      `• ${progress.opportunity.title} (${progress.account?.name || 'Unknown Account'})`,
+      `  Stage: ${progress.opportunity.stage} | Value: ${formatValue(progress.opportunity.estimatedDealValue)}`,
+      ...(progress.weeklyChanges.length > 0 ? [`  Updates: ${progress.weeklyChanges.join(', ')}`] : []),
+      ...(progress.riskFactors.length > 0 ? [`  Risks: ${progress.riskFactors.join(', ')}`] : [])
+    ]),
+    '',
+    'COMING UP NEXT WEEK',
+    ...(report.nextWeekActivities.length > 0
+      ? report.nextWeekActivities.map(activity =>
+        `• ${formatActivityDay(activity, report.timeZone)}: ${activity.subject || activity.activityType || 'Activity'} - ${activity.opportunity.title} (${activity.account.name})`)
+      : ['Nothing scheduled.']),
+    '',
+    `Open the full report: ${reportUrl}`
+  ].join('\n');
+
+  return {
+    subject: `Weekly Sales Report - ${week}`,
+    html,
+    text
+  };
+};
+
+export class WeeklyDigestService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  /**
+   * Users who switched on the weekly report in their notification settings
+   */
+  async getRecipients(): Promise<User[]> {
+    const snapshot = await this.db.collection('users').where('notifications.weekly', '==', true).get();
+    return snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as User))
+      .filter(user => !!user.email);
+  }
+
+  /**
+   * Mail one user the report for the week that just ended, as it looks with their
+   * permissions, visibility and timezone
+   */
+  async sendDigest(user: User, appUrl: string, now: Date = new Date()): Promise<DigestOutcome> {
+    const authUser: AuthenticatedUser = {
+      uid: user.id,
+      email: user.email,
+      role: normalizeRole(user.role),
+      permissions: user.permissions || [],
+      visibility: normalizeVisibility(user.visibility)
+    };
+    if (!hasPermission(authUser, 'opportunities:read')) {
+      return 'no-access';
+    }
+
+    // Runs early on Monday; three days back lands in the finished week in every timezone
+    const timeZone = user.timezone && isValidTimeZone(user.timezone) ? user.timezone : 'UTC';
+    const weekOf = zonedDay(new Date(now.getTime() - 3 * DAY_MS), timeZone);
+
+    const recordRef = this.db.collection('weekly_digests').doc(`${getWeekBounds(weekOf, timeZone).isoWeek}_${user.id}`);
+    if ((await recordRef.get()).exists) {
+      return 'already-sent';
+    }
+
+    const report = await new WeeklyReportService(this.db).buildReport({
+      weekOf,
+      timeZone,
+      visibility: await new TeamsService(this.db).resolveVisibility(authUser)
+    });
+    if (report.summary.totalOpportunities === 0) {
+      return 'no-opportunities';
+    }
+
+    const narrative = await new WeeklyNarrativeService(this.db).getNarrative(report.isoWeek, user.id);
+    const message = renderWeeklyDigest(report, narrative?.narrative || null, `${appUrl}/weekly-report`);
+    const result = await MailService.send({ to: user.email, ...message });
+
+    const record: Omit<WeeklyDigestRecord, 'id'> = {
+      isoWeek: report.isoWeek,
+      userId: user.id,
+      email: user.email,
+      transport: result.transport,
+      ...(result.messageId ? { messageId: result.messageId } : {}),
+      sentAt: Timestamp.now()
+    };
+    await recordRef.set(record);
+
+    return 'sent';
+  }
+}
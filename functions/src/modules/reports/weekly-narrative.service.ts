@@ -0,0 +1,218 @@
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { AIService } from '../../shared/ai/ai.service';
+import { NotFoundError } from '../../shared/errors';
+
+export const NARRATIVE_PROMPT_VERSION = 'weekly-narrative-v1';
+
+// Same threshold the weekly report page uses to flag a deal as gone quiet
+export const STALE_ACTIVITY_DAYS = 14;
+
+export const NARRATIVE_SECTIONS = ['Key wins', 'Deals at risk', 'Next week focus', 'Account highlights'] as const;
+
+export interface WeeklySummaryInput {
+  totalDealValue: number;
+  totalOpportunities: number;
+  activeOpportunities: number;
+  closedWonOpportunities: number;
+  closedLostOpportunities: number;
+  activitiesThisWeek: number;
+  activitiesNextWeek: number;
+  overdueActivities: number;
+  totalBlockers: number;
+}
+
+export interface WeeklyOpportunityInput {
+  id: string;
+  title: string;
+  accountName: string;
+  stage: string;
+  priority?: string;
+  estimatedDealValue?: number;
+  daysSinceLastActivity: number | null; // null when nothing has been completed yet
+  overdueActivities: number;
+  unresolvedBlockers: string[];
+  weeklyChanges: string[];
+  nextActivity?: { subject: string; date: string } | null;
+}
+
+export interface WeeklyActivityInput {
+  date: string; // yyyy-MM-dd
+  accountName: string;
+  opportunityTitle: string;
+  activityType: string;
+  subject: string;
+  status: string;
+}
+
+/**
+ * What the weekly report page computed for the week; the narrative is written from this alone
+ */
+export interface WeeklyReportInput {
+  weekStart: string; // yyyy-MM-dd, Monday
+  weekEnd: string; // yyyy-MM-dd, Sunday
+  summary: WeeklySummaryInput;
+  opportunities: WeeklyOpportunityInput[];
+  thisWeekActivities: WeeklyActivityInput[];
+  nextWeekActivities: WeeklyActivityInput[];
+}
+
+/**
+ * One narrative per ISO week and author: each user's report only covers the records they can see
+ */
+export interface WeeklyNarrative {
+  id: string;
+  isoWeek: string; // e.g. 2026-W42
+  userId: string;
+  narrative: string; // Current text, including the author's edits
+  generatedNarrative: string; // Text as the model wrote it
+  provider: string;
+  model: string;
+  promptVersion: string;
+  generatedAt: Timestamp;
+  updatedAt: Timestamp;
+  edited: boolean;
+}
+
+const formatValue = (value?: number) => value ? `$${value.toLocaleString('en-US')}` : 'no value';
+
+const riskReasons = (opportunity: WeeklyOpportunityInput): string[] => {
+  const reasons: string[] = [];
+  if (opportunity.daysSinceLastActivity === null) {
+    reasons.push('no completed activity on record');
+  } else if (opportunity.daysSinceLastActivity > STALE_ACTIVITY_DAYS) {
+    reasons.push(`${opportunity.daysSinceLastActivity} days since last activity`);
+  }
+  if (opportunity.overdueActivities > 0) {
+    reasons.push(`${opportunity.overdueActivities} overdue activities`);
+  }
+  opportunity.unresolvedBlockers.forEach(blocker => reasons.push(`blocker: ${blocker}`));
+  return reasons;
+};
+
+export class WeeklyNarrativeService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  async getNarrative(isoWeek: string, userId: string): Promise<WeeklyNarrative | null> {
+    const doc = await this.narrativeRef(isoWeek, userId).get();
+    return doc.exists ? ({ id: doc.id, ...doc.data() } as WeeklyNarrative) : null;
+  }
+
+  /**
+   * Write the week's narrative and store it as the author's draft for that ISO week
+   */
+  async generateNarrative(isoWeek: string, input: WeeklyReportInput, userId: string): Promise<WeeklyNarrative> {
+    const prompt = this.buildPrompt(isoWeek, input);
+    const { text, provider, model } = await AIService.generate({
+      task: 'weekly-narrative',
+      prompt,
+      context: { trigger: 'manual', userId }
+    });
+
+    if (!text || text.trim().length < 20) {
+      throw new Error(`${provider} generated an empty or invalid narrative`);
+    }
+
+    const now = Timestamp.now();
+    const narrative: Omit<WeeklyNarrative, 'id'> = {
+      isoWeek,
+      userId,
+      narrative: text.trim(),
+      generatedNarrative: text.trim(),
+      provider,
+      model,
+      promptVersion: NARRATIVE_PROMPT_VERSION,
+      generatedAt: now,
+      updatedAt: now,
+      edited: false
+    };
+
+    const ref = this.narrativeRef(isoWeek, userId);
+    await ref.set(narrative);
+
+    return { id: ref.id, ...narrative };
+  }
+
+  /**
+   * Keep the author's edits to a generated narrative
+   */
+  async saveNarrative(isoWeek: string, narrative: string, userId: string): Promise<WeeklyNarrative> {
+    const ref = this.narrativeRef(isoWeek, userId);
+    const doc = await ref.get();
+    if (!doc.exists) {
+      throw new NotFoundError('Weekly narrative', isoWeek);
+    }
+
+    const existing = doc.data() as Omit<WeeklyNarrative, 'id'>;
+    const updates = {
+      narrative,
+      edited: narrative !== existing.generatedNarrative,
+      updatedAt: Timestamp.now()
+    };
+    await ref.update(updates);
+
+    return { id: ref.id, ...existing, ...updates };
+  }
+
+  /**
+   * Risk is decided here from the page's numbers, not by the model, so every week uses the same rules
+   */
+  private buildPrompt(isoWeek: string, input: WeeklyReportInput): string {
+    const { summary } = input;
+    const wins = input.opportunities.filter(opportunity => opportunity.stage === 'Closed-Won');
+    const completed = input.thisWeekActivities.filter(activity => activity.status === 'Completed');
+    const atRisk = input.opportunities
+      .filter(opportunity => !['Closed-Won', 'Closed-Lost'].includes(opportunity.stage))
+      .map(opportunity => ({ opportunity, reasons: riskReasons(opportunity) }))
+      .filter(({ reasons }) => reasons.length > 0);
+
+    const activityLine = (activity: WeeklyActivityInput) =>
+      `- ${activity.date} | ${activity.accountName} | ${activity.opportunityTitle} | ${activity.activityType}: ${activity.subject} (${activity.status})`;
+    const section = (title: string, lines: string[]) => `${title}:\n${lines.length > 0 ? lines.join('\n') : '- none'}`;
+
+    return `Write the weekly sales update for iOL management from the CRM data below. Use a clear, factual tone with no sales language and do not explain iOL's business. Only state what the data shows; call agreements discussions unless an opportunity is Closed-Won.
+
+Use plain text with exactly these four headings, each on its own line followed by short "- " bullets: ${NARRATIVE_SECTIONS.join(', ')}. Under "Deals at risk" cover every deal listed as at risk and say why. Under "Account highlights" give one bullet per account with notable activity. Keep it under 350 words.
+
+WEEK: ${isoWeek} (${input.weekStart} to ${input.weekEnd})
+
+${section('METRICS', [
+    `- Active opportunities: ${summary.activeOpportunities}`,
+    `- Pipeline value: ${formatValue(summary.totalDealValue)}`,
+    `- Closed won: ${summary.closedWonOpportunities}`,
+    `- Closed lost: ${summary.closedLostOpportunities}`,
+    `- Activities this week: ${summary.activitiesThisWeek}`,
+    `- Activities planned next week: ${summary.activitiesNextWeek}`,
+    `- Overdue activities: ${summary.overdueActivities}`,
+    `- Unresolved blockers: ${summary.totalBlockers}`
+  ])}
+
+${section('WINS', [
+    ...wins.map(opportunity => `- ${opportunity.title} | ${opportunity.accountName} | Closed-Won | ${formatValue(opportunity.estimatedDealValue)}`),
+    ...completed.map(activityLine)
+  ])}
+
+${section('AT RISK', atRisk.map(({ opportunity, reasons }) =>
+    `- ${opportunity.title} | ${opportunity.accountName} | ${opportunity.stage} | ${formatValue(opportunity.estimatedDealValue)} | ${reasons.join('; ')}`
+  ))}
+
+${section('OPPORTUNITIES', input.opportunities.map(opportunity => [
+    `- ${opportunity.title} | ${opportunity.accountName} | ${opportunity.stage}`,
+    opportunity.priority ? `${opportunity.priority} priority` : null,
+    formatValue(opportunity.estimatedDealValue),
+    opportunity.weeklyChanges.length > 0 ? opportunity.weeklyChanges.join(', ') : null,
+    opportunity.nextActivity ? `next: ${opportunity.nextActivity.subject} on ${opportunity.nextActivity.date}` : null
+  ].filter(Boolean).join(' | ')))}
+
+${section('THIS WEEK', input.thisWeekActivities.map(activityLine))}
+
+${section('NEXT WEEK', input.nextWeekActivities.map(activityLine))}`;
+  }
+
+  private narrativeRef(isoWeek: string, userId: string) {
+    return this.db.collection('weekly_narratives').doc(`${isoWeek}_${userId}`);
+  }
+}
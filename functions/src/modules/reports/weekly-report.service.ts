@@ -0,0 +1,322 @@
+import { Firestore, Query, Timestamp } from 'firebase-admin/firestore';
+import { isDeleted } from '../../shared/soft-delete';
+import { DAY_MS, isoDay, readDate } from '../../shared/dates';
+import { Contact, Opportunity, OpportunityPriority } from '../../types';
+import type { Account } from '../accounts/accounts.service';
+import type { RecordVisibility } from '../teams/teams.service';
+import { STALE_ACTIVITY_DAYS, WeeklySummaryInput } from './weekly-narrative.service';
+
+// The narrative is written from the same figures
+export type WeeklySummary = WeeklySummaryInput;
+
+// Stored activities carry activityType/subject/notes, which the shared Activity type predates
+export interface StoredActivity {
+  id?: string;
+  activityType?: string;
+  subject?: string;
+  method?: string;
+  notes?: string;
+  status?: string;
+  dateTime?: Timestamp;
+}
+
+export interface WeeklyReportActivity extends StoredActivity {
+  opportunity: { id: string; title: string };
+  account: { id: string; name: string };
+}
+
+export interface OpportunityProgress {
+  opportunity: Opportunity & { id: string };
+  account?: Account;
+  contacts: { id: string; name: string }[];
+  lastActivity?: StoredActivity;
+  nextActivity?: StoredActivity;
+  weeklyChanges: string[];
+  riskFactors: string[];
+  daysSinceLastActivity: number | null; // null when nothing has been completed yet
+  overdueActivityCount: number;
+  unresolvedBlockers: string[];
+}
+
+/**
+ * Everything the weekly report page and the Monday digest show for one week
+ */
+export interface WeeklyReport {
+  isoWeek: string; // e.g. 2026-W42
+  weekStart: string; // yyyy-MM-dd, Monday
+  weekEnd: string; // yyyy-MM-dd, Sunday
+  timeZone: string; // Week boundaries are midnight in this zone
+  ownerId: string | null; // Only this owner's opportunities when set
+  summary: WeeklySummary;
+  opportunityProgress: OpportunityProgress[]; // Open opportunities, by priority then number of risks
+  thisWeekActivities: WeeklyReportActivity[]; // Newest first
+  nextWeekActivities: WeeklyReportActivity[]; // Oldest first
+  wonThisWeek: { opportunity: Opportunity & { id: string }; account?: Account }[];
+  generatedAt: Timestamp;
+}
+
+export interface WeeklyReportOptions {
+  weekOf: string; // yyyy-MM-dd, any day in the week
+  timeZone: string; // IANA zone, e.g. Europe/Lisbon
+  ownerId?: string;
+  visibility: RecordVisibility;
+}
+
+interface WeekBounds {
+  isoWeek: string;
+  weekStart: string;
+  weekEnd: string;
+  start: Date;
+  end: Date;
+  nextStart: Date;
+  nextEnd: Date;
+}
+
+const CLOSED_STAGES = ['Closed-Won', 'Closed-Lost'];
+
+const PRIORITY_ORDER: Record<OpportunityPriority, number> = { 'Critical': 0, 'High': 1, 'Medium': 2, 'Low': 3 };
+
+/**
+ * Convert the date formats records arrive in to a Date; anything unreadable becomes now
+ */
+export const safeDateConversion = (value: unknown): Date =>
+  readDate(typeof value === 'number' ? new Date(value) : value) || new Date();
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Milliseconds the zone is ahead of UTC at the given instant
+const zoneOffsetMs = (instant: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+// Calendar days are carried as UTC midnights; this is the instant that day starts in the zone
+const startOfZonedDay = (day: Date, timeZone: string): Date => new Date(day.getTime() - zoneOffsetMs(day, timeZone));
+
+/**
+ * The calendar day an instant falls on in the zone, as yyyy-MM-dd
+ */
+export const zonedDay = (instant: Date, timeZone: string): string =>
+  isoDay(new Date(instant.getTime() + zoneOffsetMs(instant, timeZone)));
+
+/**
+ * Monday-to-Sunday week containing `weekOf`, and the week after it, in the given zone
+ */
+export const getWeekBounds = (weekOf: string, timeZone: string): WeekBounds => {
+  const [year, month, day] = weekOf.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const monday = new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+  const dayAfter = (days: number) => new Date(monday.getTime() + days * DAY_MS);
+
+  // ISO weeks belong to the year their Thursday falls in
+  const thursday = dayAfter(3);
+  const isoYear = thursday.getUTCFullYear();
+  const isoWeekNumber = 1 + Math.floor((thursday.getTime() - Date.UTC(isoYear, 0, 1)) / DAY_MS / 7);
+
+  return {
+    isoWeek: `${isoYear}-W${String(isoWeekNumber).padStart(2, '0')}`,
+    weekStart: isoDay(monday),
+    weekEnd: isoDay(dayAfter(6)),
+    start: startOfZonedDay(monday, timeZone),
+    end: new Date(startOfZonedDay(dayAfter(7), timeZone).getTime() - 1),
+    nextStart: startOfZonedDay(dayAfter(7), timeZone),
+    nextEnd: new Date(startOfZonedDay(dayAfter(14), timeZone).getTime() - 1)
+  };
+};
+
+const isWithin = (date: Date, start: Date, end: Date) => date >= start && date <= end;
+
+const activityTime = (activity: StoredActivity) => safeDateConversion(activity.dateTime).getTime();
+
+export class WeeklyReportService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  /**
+   * Build the weekly report from the opportunities the visibility allows, optionally
+   * narrowed to one owner
+   */
+  async buildReport(options: WeeklyReportOptions): Promise<WeeklyReport> {
+    const bounds = getWeekBounds(options.weekOf, options.timeZone);
+    const now = new Date();
+
+    let query = this.db.collection('opportunities') as Query;
+    if (options.ownerId) {
+      query = query.where('ownerId', '==', options.ownerId);
+    }
+    const snapshot = await query.get();
+    const opportunities = options.visibility.filter('opportunities', snapshot.docs
+      .filter(doc => !isDeleted(doc.data()))
+      .map(doc => ({ id: doc.id, ...doc.data() } as Opportunity & { id: string })));
+
+    const [accounts, contacts] = await Promise.all([
+      this.getByIds<Account>('accounts', opportunities.map(opp => opp.accountId)),
+      this.getByIds<Contact>('contacts', opportunities.flatMap(opp => opp.contactIds || []))
+    ]);
+
+    const activeOpps = opportunities.filter(opp => !CLOSED_STAGES.includes(opp.stage));
+
+    const thisWeekActivities: WeeklyReportActivity[] = [];
+    const nextWeekActivities: WeeklyReportActivity[] = [];
+    let overdueCount = 0;
+    let totalBlockersCount = 0;
+
+    opportunities.forEach(opp => {
+      const account = accounts.get(opp.accountId);
+      if (!account) return;
+
+      totalBlockersCount += (opp.blockers || []).filter(blocker => !blocker.completed).length;
+
+      ((opp.activities || []) as StoredActivity[]).forEach(activity => {
+        const activityDate = safeDateConversion(activity.dateTime);
+        const reportActivity: WeeklyReportActivity = {
+          ...activity,
+          opportunity: { id: opp.id, title: opp.title },
+          account: { id: account.id, name: account.name }
+        };
+
+        if (isWithin(activityDate, bounds.start, bounds.end)) {
+          thisWeekActivities.push(reportActivity);
+        }
+        if (isWithin(activityDate, bounds.nextStart, bounds.nextEnd)) {
+          nextWeekActivities.push(reportActivity);
+        }
+        if (activity.status === 'Scheduled' && activityDate < now) {
+          overdueCount++;
+        }
+      });
+    });
+
+    thisWeekActivities.sort((a, b) => activityTime(b) - activityTime(a));
+    nextWeekActivities.sort((a, b) => activityTime(a) - activityTime(b));
+
+    const progress = activeOpps.map(opp => this.analyzeOpportunity(opp, accounts.get(opp.accountId), contacts, bounds, now));
+
+    // Highest priority first, then the deals with the most to worry about
+    progress.sort((a, b) => {
+      const aPriority = PRIORITY_ORDER[a.opportunity.priority || 'Medium'];
+      const bPriority = PRIORITY_ORDER[b.opportunity.priority || 'Medium'];
+
+      if (aPriority !== bPriority) return aPriority - bPriority;
+      return b.riskFactors.length - a.riskFactors.length;
+    });
+
+    const wonThisWeek = opportunities
+      .filter(opp => opp.stage === 'Closed-Won' && opp.updatedAt && isWithin(safeDateConversion(opp.updatedAt), bounds.start, bounds.end))
+      .map(opp => ({ opportunity: opp, account: accounts.get(opp.accountId) }));
+
+    return {
+      isoWeek: bounds.isoWeek,
+      weekStart: bounds.weekStart,
+      weekEnd: bounds.weekEnd,
+      timeZone: options.timeZone,
+      ownerId: options.ownerId || null,
+      summary: {
+        totalDealValue: activeOpps.reduce((sum, opp) => sum + (opp.estimatedDealValue || 0), 0),
+        totalOpportunities: opportunities.length,
+        activeOpportunities: activeOpps.length,
+        closedWonOpportunities: opportunities.filter(opp => opp.stage === 'Closed-Won').length,
+        closedLostOpportunities: opportunities.filter(opp => opp.stage === 'Closed-Lost').length,
+        activitiesThisWeek: thisWeekActivities.length,
+        activitiesNextWeek: nextWeekActivities.length,
+        overdueActivities: overdueCount,
+        totalBlockers: totalBlockersCount
+      },
+      opportunityProgress: progress,
+      thisWeekActivities,
+      nextWeekActivities,
+      wonThisWeek,
+      generatedAt: Timestamp.fromDate(now)
+    };
+  }
+
+  private analyzeOpportunity(
+    opp: Opportunity & { id: string },
+    account: Account | undefined,
+    contacts: Map<string, Contact>,
+    bounds: WeekBounds,
+    now: Date
+  ): OpportunityProgress {
+    const activities = [...((opp.activities || []) as StoredActivity[])].sort((a, b) => activityTime(b) - activityTime(a));
+    const lastActivity = activities.find(a => a.status === 'Completed');
+    const nextActivity = activities.find(a => a.status === 'Scheduled');
+
+    // Activity counts stand in for change tracking
+    const weeklyChanges: string[] = [];
+    const thisWeekActivityCount = activities.filter(a => isWithin(safeDateConversion(a.dateTime), bounds.start, bounds.end)).length;
+    if (thisWeekActivityCount > 0) {
+      weeklyChanges.push(`${thisWeekActivityCount} activities this week`);
+    }
+
+    const riskFactors: string[] = [];
+    const daysSinceLastActivity = lastActivity
+      ? Math.floor((now.getTime() - safeDateConversion(lastActivity.dateTime).getTime()) / DAY_MS)
+      : null;
+
+    if (daysSinceLastActivity === null || daysSinceLastActivity > STALE_ACTIVITY_DAYS) {
+      riskFactors.push(`${daysSinceLastActivity ?? 999} days since last activity`);
+    }
+
+    const overdueActivities = activities.filter(a => a.status === 'Scheduled' && safeDateConversion(a.dateTime) < now);
+    if (overdueActivities.length > 0) {
+      riskFactors.push(`${overdueActivities.length} overdue activities`);
+    }
+
+    const unresolvedBlockers = (opp.blockers || []).filter(blocker => !blocker.completed);
+    unresolvedBlockers.forEach(blocker => riskFactors.push(`🚫 ${blocker.text}`));
+
+    if (opp.expectedCloseDate && opp.stage === 'Lead' &&
+        safeDateConversion(opp.expectedCloseDate).getTime() < now.getTime() + 14 * DAY_MS) {
+      riskFactors.push('Close date approaching but still in Lead stage');
+    }
+
+    return {
+      opportunity: opp,
+      account,
+      contacts: (opp.contactIds || [])
+        .map(id => contacts.get(id))
+        .filter((contact): contact is Contact => !!contact)
+        .map(contact => ({ id: contact.id!, name: contact.name })),
+      lastActivity,
+      nextActivity,
+      weeklyChanges,
+      riskFactors,
+      daysSinceLastActivity,
+      overdueActivityCount: overdueActivities.length,
+      unresolvedBlockers: unresolvedBlockers.map(blocker => blocker.text)
+    };
+  }
+
+  private async getByIds<T>(collection: string, ids: string[]): Promise<Map<string, T>> {
+    const uniqueIds = Array.from(new Set(ids.filter(Boolean)));
+    if (uniqueIds.length === 0) {
+      return new Map();
+    }
+
+    const docs = await this.db.getAll(...uniqueIds.map(id => this.db.collection(collection).doc(id)));
+    return new Map(docs
+      .filter(doc => doc.exists && !isDeleted(doc.data()))
+      .map(doc => [doc.id, { id: doc.id, ...doc.data() } as T]));
+  }
+}
@@ -0,0 +1,145 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { authenticateUser, requirePermission } from '../../shared/auth.middleware';
+import { validateData, commonSchemas } from '../../shared/validation.middleware';
+import { withErrorHandling } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { TeamsService } from '../teams/teams.service';
+import { PERIOD_KEY_PATTERN, TARGET_METRICS, TARGET_PERIOD_TYPES, TargetsService } from './targets.service';
+import { z } from 'zod';
+
+const periodSchema = z.string().regex(PERIOD_KEY_PATTERN, 'Expected a period such as 2026-10, 2026-Q4 or 2026');
+const subjectTypeSchema = z.enum(['user', 'team']);
+
+const periodRequestSchema = z.object({
+  period: periodSchema
+});
+
+const saveTargetSchema = z.object({
+  subjectType: subjectTypeSchema,
+  subjectId: commonSchemas.id,
+  period: periodSchema,
+  metric: z.enum(TARGET_METRICS),
+  value: z.number().positive().max(1_000_000_000)
+});
+
+const deleteTargetSchema = z.object({
+  id: commonSchemas.id
+});
+
+const trendSchema = z.object({
+  subjectType: subjectTypeSchema.default('user'),
+  subjectId: commonSchemas.id,
+  metric: z.enum(TARGET_METRICS),
+  periodType: z.enum(TARGET_PERIOD_TYPES).default('quarter'),
+  periods: z.number().int().min(2).max(12).default(4)
+});
+
+const getService = () => new TargetsService(getFirestore());
+
+/**
+ * Targets set for a period
+ */
+export const getTargets = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getTargets');
+
+    const { period } = validateData(periodRequestSchema, request.data);
+
+    return { targets: await getService().getTargets(period) };
+  }, { functionName: 'getTargets', action: 'TARGETS_LIST' })
+);
+
+/**
+ * Set the target of a user or team for a period and metric, replacing any existing one
+ */
+export const saveTarget = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'targets:manage');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'saveTarget');
+
+    const input = validateData(saveTargetSchema, request.data);
+
+    return await getService().saveTarget(input, user.uid, user.email);
+  }, { functionName: 'saveTarget', action: 'TARGET_SAVE' })
+);
+
+export const deleteTarget = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'targets:manage');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'deleteTarget');
+
+    const { id } = validateData(deleteTargetSchema, request.data);
+    await getService().deleteTarget(id, user.uid, user.email);
+
+    return { deleted: true };
+  }, { functionName: 'deleteTarget', action: 'TARGET_DELETE' })
+);
+
+/**
+ * Attainment of every target in a period and the leaderboard of results per user
+ */
+export const getTargetAttainment = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.stats.maxRequests, RateLimitPresets.stats.windowMs, 'getTargetAttainment');
+
+    const { period } = validateData(periodRequestSchema, request.data);
+
+    const visibility = await new TeamsService(getFirestore()).resolveVisibility(user);
+
+    return await getService().getAttainment(period, visibility);
+  }, { functionName: 'getTargetAttainment', action: 'TARGET_ATTAINMENT_GET' })
+);
+
+/**
+ * Target against actual of a user or team over recent periods
+ */
+export const getTargetTrend = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'opportunities:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.stats.maxRequests, RateLimitPresets.stats.windowMs, 'getTargetTrend');
+
+    const { subjectType, subjectId, metric, periodType, periods } = validateData(trendSchema, request.data);
+
+    const visibility = await new TeamsService(getFirestore()).resolveVisibility(user);
+
+    return { points: await getService().getTrend(subjectType, subjectId, metric, periodType, periods, visibility) };
+  }, { functionName: 'getTargetTrend', action: 'TARGET_TREND_GET' })
+);
@@ -0,0 +1,385 @@
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { Opportunity } from '../../types';
+import type { Account } from '../accounts/accounts.service';
+import type { Assignment } from '../assignments/assignments.service';
+import type { RecordVisibility } from '../teams/teams.service';
+import { AuditService } from '../../shared/audit.service';
+import { BusinessLogicError, NotFoundError } from '../../shared/errors';
+import { excludeDeleted } from '../../shared/soft-delete';
+import { isoDay, readDate } from '../../shared/dates';
+
+export const TARGET_METRICS = ['won_value', 'won_count', 'activities_completed', 'new_accounts'] as const;
+export type TargetMetric = typeof TARGET_METRICS[number];
+
+export const TARGET_PERIOD_TYPES = ['month', 'quarter', 'year'] as const;
+export type TargetPeriodType = typeof TARGET_PERIOD_TYPES[number];
+
+export type TargetSubjectType = 'user' | 'team';
+
+export interface Target {
+  id: string;
+  subjectType: TargetSubjectType;
+  subjectId: string;
+  period: string; // 2026-10, 2026-Q4 or 2026
+  periodType: TargetPeriodType;
+  metric: TargetMetric;
+  value: number;
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedBy: string;
+  updatedAt: Timestamp;
+}
+
+export type TargetInput = Pick<Target, 'subjectType' | 'subjectId' | 'period' | 'metric' | 'value'>;
+
+export type MetricTotals = Record<TargetMetric, number>;
+
+export interface TargetAttainment extends Target {
+  memberIds?: string[]; // Team targets: who the actual is summed over
+  actual: number;
+  attainment: number; // Percentage of the target reached
+}
+
+export interface LeaderboardEntry {
+  userId: string;
+  totals: MetricTotals;
+  attainment: Partial<Record<TargetMetric, number>>; // Only for metrics the user has a target on
+}
+
+export interface AttainmentReport {
+  period: string;
+  label: string;
+  start: string;
+  end: string; // Exclusive
+  targets: TargetAttainment[];
+  leaderboard: LeaderboardEntry[];
+  generatedAt: string;
+}
+
+export interface AttainmentTrendPoint {
+  period: string;
+  label: string;
+  target: number | null;
+  actual: number;
+}
+
+interface PeriodRange {
+  key: string;
+  type: TargetPeriodType;
+  label: string;
+  start: Date;
+  end: Date;
+}
+
+// One contribution of a user towards a metric
+export interface MetricEvent {
+  userId: string;
+  metric: TargetMetric;
+  amount: number;
+  at: Date;
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const MONTHS_IN: Record<TargetPeriodType, number> = { month: 1, quarter: 3, year: 12 };
+
+const PERIOD_PATTERNS: Array<{ type: TargetPeriodType; pattern: RegExp }> = [
+  { type: 'month', pattern: /^(\d{4})-(0[1-9]|1[0-2])$/ },
+  { type: 'quarter', pattern: /^(\d{4})-Q([1-4])$/ },
+  { type: 'year', pattern: /^(\d{4})$/ }
+];
+
+export const PERIOD_KEY_PATTERN = /^\d{4}(-(0[1-9]|1[0-2])|-Q[1-4])?$/;
+
+const emptyTotals = (): MetricTotals => ({ won_value: 0, won_count: 0, activities_completed: 0, new_accounts: 0 });
+
+const rangeFor = (type: TargetPeriodType, year: number, month: number): PeriodRange => {
+  const start = new Date(Date.UTC(year, month, 1));
+  const end = new Date(Date.UTC(year, month + MONTHS_IN[type], 1));
+  const quarter = Math.floor(month / 3) + 1;
+  return {
+    key: type === 'year' ? `${year}` : type === 'quarter' ? `${year}-Q${quarter}` : start.toISOString().slice(0, 7),
+    type,
+    label: type === 'year' ? `${year}` : type === 'quarter' ? `Q${quarter} ${year}` : `${MONTH_NAMES[month]} ${year}`,
+    start,
+    end
+  };
+};
+
+/**
+ * The UTC date range of a period key: 2026-10, 2026-Q4 or 2026
+ */
+export const parsePeriod = (key: string): PeriodRange => {
+  for (const { type, pattern } of PERIOD_PATTERNS) {
+    const match = key.match(pattern);
+    if (!match) continue;
+    const year = Number(match[1]);
+    const month = type === 'month' ? Number(match[2]) - 1 : type === 'quarter' ? (Number(match[2]) - 1) * 3 : 0;
+    return rangeFor(type, year, month);
+  }
+  throw new BusinessLogicError(`Invalid period ${key}; expected e.g. 2026-10, 2026-Q4 or 2026`);
+};
+
+/**
+ * The period of the given type containing the date, `offset` periods later (negative for earlier)
+ */
+export const periodContaining = (date: Date, type: TargetPeriodType, offset = 0): PeriodRange => {
+  const month = type === 'year' ? 0 : type === 'quarter' ? Math.floor(date.getUTCMonth() / 3) * 3 : date.getUTCMonth();
+  const shifted = new Date(Date.UTC(date.getUTCFullYear(), month + offset * MONTHS_IN[type], 1));
+  return rangeFor(type, shifted.getUTCFullYear(), shifted.getUTCMonth());
+};
+
+const percentOf = (actual: number, target: number) => target > 0 ? Math.round((actual / target) * 1000) / 10 : 0;
+
+type CompletableActivity = { status: string; assignedTo?: string; completedAt?: unknown; dateTime?: unknown };
+
+/**
+ * Results between start and end: won deals credited to the owner on their close date,
+ * completed opportunity and assignment activities to the assignee and new accounts to the owner
+ */
+export const metricEvents = (
+  records: {
+    opportunities: Opportunity[];
+    assignments: Array<Pick<Assignment, 'activities'>>;
+    accounts: Array<Pick<Account, 'ownerId' | 'createdAt'>>;
+  },
+  start: Date,
+  end: Date
+): MetricEvent[] => {
+  const inRange = (date: Date | null): date is Date => !!date && date >= start && date < end;
+  const events: MetricEvent[] = [];
+
+  const addActivities = (activities: CompletableActivity[]) => {
+    activities.forEach(activity => {
+      const doneAt = readDate(activity.completedAt) || readDate(activity.dateTime);
+      if (activity.status === 'Completed' && activity.assignedTo && inRange(doneAt)) {
+        events.push({ userId: activity.assignedTo, metric: 'activities_completed', amount: 1, at: doneAt });
+      }
+    });
+  };
+
+  records.opportunities.forEach(opp => {
+    if (opp.stage === 'Closed-Won' && opp.ownerId) {
+      const closedAt = readDate(opp.closeOut?.closedAt) || readDate(opp.updatedAt);
+      if (inRange(closedAt)) {
+        const value = opp.closeOut?.finalDealValue ?? opp.estimatedDealValue ?? 0;
+        events.push({ userId: opp.ownerId, metric: 'won_value', amount: value, at: closedAt });
+        events.push({ userId: opp.ownerId, metric: 'won_count', amount: 1, at: closedAt });
+      }
+    }
+    addActivities(opp.activities || []);
+  });
+
+  records.assignments.forEach(assignment => addActivities(assignment.activities || []));
+
+  records.accounts.forEach(account => {
+    const createdAt = readDate(account.createdAt);
+    if (account.ownerId && inRange(createdAt)) {
+      events.push({ userId: account.ownerId, metric: 'new_accounts', amount: 1, at: createdAt });
+    }
+  });
+
+  return events;
+};
+
+// Targets are unique per subject, period and metric; saving again replaces the value
+const targetId = (input: Pick<TargetInput, 'subjectType' | 'subjectId' | 'period' | 'metric'>) =>
+  `${input.subjectType}_${input.subjectId}_${input.period}_${input.metric}`;
+
+export class TargetsService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  async getTargets(period: string): Promise<Target[]> {
+    parsePeriod(period);
+    const snapshot = await this.db.collection('targets').where('period', '==', period).get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Target));
+  }
+
+  async saveTarget(input: TargetInput, userId: string, userEmail?: string): Promise<Target> {
+    const { type } = parsePeriod(input.period);
+    await this.assertSubjectExists(input.subjectType, input.subjectId);
+
+    const docRef = this.db.collection('targets').doc(targetId(input));
+    const existing = await docRef.get();
+    const now = Timestamp.now();
+    const fields = {
+      ...input,
+      periodType: type,
+      updatedBy: userId,
+      updatedAt: now,
+      ...(existing.exists ? {} : { createdBy: userId, createdAt: now })
+    };
+
+    await docRef.set(fields, { merge: true });
+
+    await AuditService.log({
+      action: existing.exists ? 'update_target' : 'create_target',
+      userId,
+      userEmail,
+      resourceType: 'target',
+      resourceId: docRef.id,
+      data: { previous: existing.exists ? existing.data()?.value : null, updated: input.value }
+    });
+
+    const saved = await docRef.get();
+    return { id: saved.id, ...saved.data() } as Target;
+  }
+
+  async deleteTarget(id: string, userId: string, userEmail?: string): Promise<void> {
+    const docRef = this.db.collection('targets').doc(id);
+    const existing = await docRef.get();
+    if (!existing.exists) {
+      throw new NotFoundError('Target', id);
+    }
+
+    await docRef.delete();
+
+    await AuditService.log({
+      action: 'delete_target',
+      userId,
+      userEmail,
+      resourceType: 'target',
+      resourceId: id,
+      data: existing.data()
+    });
+  }
+
+  /**
+   * Every target of the period with its actual, and each user's totals for the leaderboard.
+   * Team actuals sum the team's current members. Only records the caller may see count.
+   */
+  async getAttainment(period: string, visibility?: RecordVisibility, now: Date = new Date()): Promise<AttainmentReport> {
+    const range = parsePeriod(period);
+    const [targets, events, teamMembers] = await Promise.all([
+      this.getTargets(period),
+      this.collectEvents(range.start, range.end, visibility),
+      this.getTeamMembers()
+    ]);
+
+    const totalsByUser = new Map<string, MetricTotals>();
+    events.forEach(event => {
+      const totals = totalsByUser.get(event.userId) || emptyTotals();
+      totals[event.metric] += event.amount;
+      totalsByUser.set(event.userId, totals);
+    });
+
+    const actualFor = (target: Target) => {
+      const userIds = target.subjectType === 'team' ? teamMembers.get(target.subjectId) || [] : [target.subjectId];
+      return userIds.reduce((sum, id) => sum + (totalsByUser.get(id)?.[target.metric] || 0), 0);
+    };
+
+    const attainments: TargetAttainment[] = targets.map(target => {
+      const actual = actualFor(target);
+      return {
+        ...target,
+        ...(target.subjectType === 'team' ? { memberIds: teamMembers.get(target.subjectId) || [] } : {}),
+        actual,
+        attainment: percentOf(actual, target.value)
+      };
+    });
+
+    // Users with a target appear even before they have any results
+    const userIds = new Set([
+      ...totalsByUser.keys(),
+      ...targets.filter(target => target.subjectType === 'user').map(target => target.subjectId)
+    ]);
+    const leaderboard: LeaderboardEntry[] = Array.from(userIds).map(userId => ({
+      userId,
+      totals: totalsByUser.get(userId) || emptyTotals(),
+      attainment: Object.fromEntries(attainments
+        .filter(target => target.subjectType === 'user' && target.subjectId === userId)
+        .map(target => [target.metric, target.attainment]))
+    }));
+
+    return {
+      period: range.key,
+      label: range.label,
+      start: isoDay(range.start),
+      end: isoDay(range.end),
+      targets: attainments,
+      leaderboard: leaderboard.sort((a, b) => b.totals.won_value - a.totals.won_value),
+      generatedAt: now.toISOString()
+    };
+  }
+
+  /**
+   * Target and actual of one subject and metric over the last `periods` periods, oldest first.
+   * Only records the caller may see count.
+   */
+  async getTrend(
+    subjectType: TargetSubjectType,
+    subjectId: string,
+    metric: TargetMetric,
+    periodType: TargetPeriodType,
+    periods: number,
+    visibility?: RecordVisibility,
+    now: Date = new Date()
+  ): Promise<AttainmentTrendPoint[]> {
+    const ranges = Array.from({ length: periods }, (_, index) => periodContaining(now, periodType, index - periods + 1));
+
+    const [targetsSnapshot, events, teamMembers] = await Promise.all([
+      this.db.collection('targets').where('subjectId', '==', subjectId).get(),
+      this.collectEvents(ranges[0].start, ranges[ranges.length - 1].end, visibility),
+      subjectType === 'team' ? this.getTeamMembers() : Promise.resolve(new Map<string, string[]>())
+    ]);
+
+    const userIds = new Set(subjectType === 'team' ? teamMembers.get(subjectId) || [] : [subjectId]);
+    const targets = new Map(targetsSnapshot.docs
+      .map(doc => doc.data() as Target)
+      .filter(target => target.subjectType === subjectType && target.metric === metric)
+      .map(target => [target.period, target.value]));
+
+    return ranges.map(range => ({
+      period: range.key,
+      label: range.label,
+      target: targets.get(range.key) ?? null,
+      actual: events
+        .filter(event => event.metric === metric && userIds.has(event.userId) && event.at >= range.start && event.at < range.end)
+        .reduce((sum, event) => sum + event.amount, 0)
+    }));
+  }
+
+  /**
+   * Metric events between start and end from the records the caller may see
+   */
+  private async collectEvents(start: Date, end: Date, visibility?: RecordVisibility): Promise<MetricEvent[]> {
+    const [opportunitiesSnapshot, assignmentsSnapshot, accountsSnapshot] = await Promise.all([
+      this.db.collection('opportunities')
+        .select('stage', 'ownerId', 'accountId', 'closeOut', 'updatedAt', 'estimatedDealValue', 'activities', 'deletedAt')
+        .get(),
+      this.db.collection('assignments')
+        .select('ownerId', 'activities', 'deletedAt')
+        .get(),
+      this.db.collection('accounts')
+        .where('createdAt', '>=', Timestamp.fromDate(start))
+        .where('createdAt', '<', Timestamp.fromDate(end))
+        .get()
+    ]);
+
+    const opportunities = excludeDeleted(opportunitiesSnapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as Opportunity & { id: string }));
+    const assignments = excludeDeleted(assignmentsSnapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as Assignment & { id: string }));
+    const accounts = excludeDeleted(accountsSnapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as Account));
+
+    return metricEvents({
+      opportunities: visibility ? visibility.filter('opportunities', opportunities) : opportunities,
+      assignments: visibility ? visibility.filter('assignments', assignments) : assignments,
+      accounts: visibility ? visibility.filter('accounts', accounts) : accounts
+    }, start, end);
+  }
+
+  private async getTeamMembers(): Promise<Map<string, string[]>> {
+    const snapshot = await this.db.collection('teams').get();
+    return new Map(snapshot.docs.map(doc => [doc.id, (doc.data().memberIds || []) as string[]]));
+  }
+
+  private async assertSubjectExists(subjectType: TargetSubjectType, subjectId: string): Promise<void> {
+    const collection = subjectType === 'team' ? 'teams' : 'users';
+    const doc = await this.db.collection(collection).doc(subjectId).get();
+    if (!doc.exists) {
+      throw new NotFoundError(subjectType === 'team' ? 'Team' : 'User', subjectId);
+    }
+  }
+}
@@ -1,13 +1,16 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
-import { validateData, ValidationError } from '../../shared/validation.middleware';
-import { authenticateUser } from '../../shared/auth.middleware';
+import { validateData, ValidationError, commonSchemas } from '../../shared/validation.middleware';
+import { authenticateUser, requirePermission, AuthError, toHttpsAuthError } from '../../shared/auth.middleware';
 import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { StaleWriteError, toHttpsStaleWriteError } from '../../shared/errors';
 import { TasksService, TasksQueryOptions, ActivitiesQueryOptions } from './tasks.service';
+import { TeamsService } from '../teams/teams.service';
 import { z } from 'zod';
 
 const db = getFirestore();
 const tasksService = new TasksService(db);
+const teamsService = new TeamsService(db);
 
 // Validation schemas
 const TaskFiltersSchema = z.object({
@@ -131,6 +134,7 @@ export const getTasks = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'tasks:read');
       
       // Apply rate limiting for read operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getTasks');
@@ -144,6 +148,9 @@ export const getTasks = onCall(
     if (error instanceof HttpsError) {
       throw error;
     }
+    if (error instanceof AuthError) {
+      throw toHttpsAuthError(error);
+    }
     if (error instanceof ValidationError) {
       console.error('Validation errors:', error.errors);
       throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
@@ -157,6 +164,7 @@ export const getTask = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'tasks:read');
       
       // Apply rate limiting for read operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getTask');
@@ -177,6 +185,9 @@ export const getTask = onCall(
     if (error instanceof HttpsError) {
       throw error;
     }
+    if (error instanceof AuthError) {
+      throw toHttpsAuthError(error);
+    }
     if (error instanceof ValidationError) {
       console.error('Validation errors:', error.errors);
       throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
@@ -190,6 +201,7 @@ export const createTask = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'tasks:create');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'createTask');
@@ -202,6 +214,9 @@ export const createTask = onCall(
     if (error instanceof HttpsError) {
       throw error;
     }
+    if (error instanceof AuthError) {
+      throw toHttpsAuthError(error);
+    }
     if (error instanceof ValidationError) {
       console.error('Validation errors:', error.errors);
       throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
@@ -215,17 +230,19 @@ export const updateTask = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'tasks:update');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'updateTask');
-    const { taskId, ...updateData } = request.data;
+    const { taskId, expectedRevision, ...updateData } = request.data;
     
     if (!taskId) {
       throw new HttpsError('invalid-argument', 'Task ID is required');
     }
     
     const validatedData = validateData(UpdateTaskSchema, updateData);
-    const task = await tasksService.updateTask(taskId, validatedData, user.uid);
+    const revision = validateData(commonSchemas.expectedRevision, expectedRevision);
+    const task = await tasksService.updateTask(taskId, validatedData, user.uid, revision);
     
     return { success: true, task };
   } catch (error) {
@@ -233,6 +250,12 @@ export const updateTask = onCall(
     if (error instanceof HttpsError) {
       throw error;
     }
+    if (error instanceof AuthError) {
+      throw toHttpsAuthError(error);
+    }
+    if (error instanceof StaleWriteError) {
+      throw toHttpsStaleWriteError(error);
+    }
     if (error instanceof ValidationError) {
       console.error('Validation errors:', error.errors);
       throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
@@ -246,6 +269,7 @@ export const deleteTask = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'tasks:delete');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'deleteTask');
@@ -259,6 +283,9 @@ export const deleteTask = onCall(
     return { success: true };
   } catch (error) {
     console.error('Error deleting task:', error);
+    if (error instanceof AuthError) {
+      throw toHttpsAuthError(error);
+    }
     throw new HttpsError('internal', error instanceof Error ? error.message : 'Failed to delete task');
   }
 });
@@ -272,6 +299,7 @@ export const getActivitiesByOpportunity = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:read');
       
       // Apply rate limiting for read operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getActivitiesByOpportunity');
@@ -280,6 +308,8 @@ export const getActivitiesByOpportunity = onCall(
     if (!opportunityId) {
       throw new HttpsError('invalid-argument', 'Opportunity ID is required');
     }
+
+    await teamsService.assertCanViewById(user, 'opportunities', opportunityId);
     
     const validatedOptions = validateData(ActivitiesQuerySchema, queryOptions || {}) as ActivitiesQueryOptions;
     const activities = await tasksService.getActivitiesByOpportunity(opportunityId, validatedOptions);
@@ -287,6 +317,9 @@ export const getActivitiesByOpportunity = onCall(
     return { success: true, activities };
   } catch (error) {
     console.error('Error getting activities:', error);
+    if (error instanceof AuthError) {
+      throw toHttpsAuthError(error);
+    }
     throw new HttpsError('internal', error instanceof Error ? error.message : 'Failed to get activities');
   }
 });
@@ -296,21 +329,35 @@ export const addActivityToOpportunity = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:update');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'addActivityToOpportunity');
-    const { opportunityId, ...activityData } = request.data;
+    const { opportunityId, expectedRevision, ...activityData } = request.data;
     
     if (!opportunityId) {
       throw new HttpsError('invalid-argument', 'Opportunity ID is required');
     }
+
+    await teamsService.assertCanViewById(user, 'opportunities', opportunityId);
     
     const validatedData = validateData(CreateActivitySchema, activityData);
-    const activity = await tasksService.addActivityToOpportunity(opportunityId, validatedData, user.uid);
+    const { item: activity, revision } = await tasksService.addActivityToOpportunity(
+      opportunityId,
+      validatedData,
+      user.uid,
+      validateData(commonSchemas.expectedRevision, expectedRevision)
+    );
     
-    return { success: true, activity };
+    return { success: true, activity, revision };
   } catch (error) {
     console.error('Error adding activity:', error);
+    if (error instanceof AuthError) {
+      throw toHttpsAuthError(error);
+    }
+    if (error instanceof StaleWriteError) {
+      throw toHttpsStaleWriteError(error);
+    }
     throw new HttpsError('internal', error instanceof Error ? error.message : 'Failed to add activity');
   }
 });
@@ -320,21 +367,36 @@ export const updateActivityInOpportunity = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:update');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'updateActivityInOpportunity');
-    const { opportunityId, activityId, ...updateData } = request.data;
+    const { opportunityId, activityId, expectedRevision, ...updateData } = request.data;
     
     if (!opportunityId || !activityId) {
       throw new HttpsError('invalid-argument', 'Opportunity ID and Activity ID are required');
     }
+
+    await teamsService.assertCanViewById(user, 'opportunities', opportunityId);
     
     const validatedData = validateData(UpdateActivitySchema, updateData);
-    const activity = await tasksService.updateActivityInOpportunity(opportunityId, activityId, validatedData, user.uid);
+    const { item: activity, revision } = await tasksService.updateActivityInOpportunity(
+      opportunityId,
+      activityId,
+      validatedData,
+      user.uid,
+      validateData(commonSchemas.expectedRevision, expectedRevision)
+    );
     
-    return { success: true, activity };
+    return { success: true, activity, revision };
   } catch (error) {
     console.error('Error updating activity:', error);
+    if (error instanceof AuthError) {
+      throw toHttpsAuthError(error);
+    }
+    if (error instanceof StaleWriteError) {
+      throw toHttpsStaleWriteError(error);
+    }
     throw new HttpsError('internal', error instanceof Error ? error.message : 'Failed to update activity');
   }
 });
@@ -344,19 +406,33 @@ export const deleteActivityFromOpportunity = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:update');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'deleteActivityFromOpportunity');
-    const { opportunityId, activityId } = request.data;
+    const { opportunityId, activityId, expectedRevision } = request.data;
     
     if (!opportunityId || !activityId) {
       throw new HttpsError('invalid-argument', 'Opportunity ID and Activity ID are required');
     }
+
+    await teamsService.assertCanViewById(user, 'opportunities', opportunityId);
     
-    await tasksService.deleteActivityFromOpportunity(opportunityId, activityId, user.uid);
-    return { success: true };
+    const revision = await tasksService.deleteActivityFromOpportunity(
+      opportunityId,
+      activityId,
+      user.uid,
+      validateData(commonSchemas.expectedRevision, expectedRevision)
+    );
+    return { success: true, revision };
   } catch (error) {
     console.error('Error deleting activity:', error);
+    if (error instanceof AuthError) {
+      throw toHttpsAuthError(error);
+    }
+    if (error instanceof StaleWriteError) {
+      throw toHttpsStaleWriteError(error);
+    }
     throw new HttpsError('internal', error instanceof Error ? error.message : 'Failed to delete activity');
   }
 });
@@ -370,6 +446,7 @@ export const getChecklistByOpportunity = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:read');
       
       // Apply rate limiting for read operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getChecklistByOpportunity');
@@ -378,11 +455,16 @@ export const getChecklistByOpportunity = onCall(
     if (!opportunityId) {
       throw new HttpsError('invalid-argument', 'Opportunity ID is required');
     }
+
+    await teamsService.assertCanViewById(user, 'opportunities', opportunityId);
     
     const checklist = await tasksService.getChecklistByOpportunity(opportunityId);
     return { success: true, checklist };
   } catch (error) {
     console.error('Error getting checklist:', error);
+    if (error instanceof AuthError) {
+      throw toHttpsAuthError(error);
+    }
     throw new HttpsError('internal', error instanceof Error ? error.message : 'Failed to get checklist');
   }
 });
@@ -392,19 +474,33 @@ export const addChecklistItemToOpportunity = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:update');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'addChecklistItemToOpportunity');
-    const { opportunityId, text } = request.data;
+    const { opportunityId, text, expectedRevision } = request.data;
     
     if (!opportunityId || !text) {
       throw new HttpsError('invalid-argument', 'Opportunity ID and text are required');
     }
+
+    await teamsService.assertCanViewById(user, 'opportunities', opportunityId);
     
-    const item = await tasksService.addChecklistItemToOpportunity(opportunityId, text, user.uid);
-    return { success: true, item };
+    const { item, revision } = await tasksService.addChecklistItemToOpportunity(
+      opportunityId,
+      text,
+      user.uid,
+      validateData(commonSchemas.expectedRevision, expectedRevision)
+    );
+    return { success: true, item, revision };
   } catch (error) {
     console.error('Error adding checklist item:', error);
+    if (error instanceof AuthError) {
+      throw toHttpsAuthError(error);
+    }
+    if (error instanceof StaleWriteError) {
+      throw toHttpsStaleWriteError(error);
+    }
     throw new HttpsError('internal', error instanceof Error ? error.message : 'Failed to add checklist item');
   }
 });
@@ -414,21 +510,36 @@ export const updateChecklistItemInOpportunity = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:update');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'updateChecklistItemInOpportunity');
-    const { opportunityId, itemId, ...updateData } = request.data;
+    const { opportunityId, itemId, expectedRevision, ...updateData } = request.data;
     
     if (!opportunityId || !itemId) {
       throw new HttpsError('invalid-argument', 'Opportunity ID and Item ID are required');
     }
+
+    await teamsService.assertCanViewById(user, 'opportunities', opportunityId);
     
     const validatedData = validateData(UpdateChecklistItemSchema, updateData);
-    const item = await tasksService.updateChecklistItemInOpportunity(opportunityId, itemId, validatedData, user.uid);
+    const { item, revision } = await tasksService.updateChecklistItemInOpportunity(
+      opportunityId,
+      itemId,
+      validatedData,
+      user.uid,
+      validateData(commonSchemas.expectedRevision, expectedRevision)
+    );
     
-    return { success: true, item };
+    return { success: true, item, revision };
   } catch (error) {
     console.error('Error updating checklist item:', error);
+    if (error instanceof AuthError) {
+      throw toHttpsAuthError(error);
+    }
+    if (error instanceof StaleWriteError) {
+      throw toHttpsStaleWriteError(error);
+    }
     throw new HttpsError('internal', error instanceof Error ? error.message : 'Failed to update checklist item');
   }
 });
@@ -438,19 +549,33 @@ export const deleteChecklistItemFromOpportunity = onCall(
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'opportunities:update');
       
       // Apply rate limiting for write operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'deleteChecklistItemFromOpportunity');
-    const { opportunityId, itemId } = request.data;
+    const { opportunityId, itemId, expectedRevision } = request.data;
     
     if (!opportunityId || !itemId) {
       throw new HttpsError('invalid-argument', 'Opportunity ID and Item ID are required');
     }
+
+    await teamsService.assertCanViewById(user, 'opportunities', opportunityId);
     
-    await tasksService.deleteChecklistItemFromOpportunity(opportunityId, itemId, user.uid);
-    return { success: true };
+    const revision = await tasksService.deleteChecklistItemFromOpportunity(
+      opportunityId,
+      itemId,
+      user.uid,
+      validateData(commonSchemas.expectedRevision, expectedRevision)
+    );
+    return { success: true, revision };
   } catch (error) {
     console.error('Error deleting checklist item:', error);
+    if (error instanceof AuthError) {
+      throw toHttpsAuthError(error);
+    }
+    if (error instanceof StaleWriteError) {
+      throw toHttpsStaleWriteError(error);
+    }
     throw new HttpsError('internal', error instanceof Error ? error.message : 'Failed to delete checklist item');
   }
 }); 
\ No newline at end of file
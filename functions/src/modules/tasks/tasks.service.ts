@@ -1,5 +1,11 @@
-import { Firestore, Timestamp, Query } from 'firebase-admin/firestore';
+import { Firestore, Timestamp, Query, DocumentData } from 'firebase-admin/firestore';
 import { AuditService } from '../../shared/audit.service';
+import { isDeleted, excludeDeleted, softDeleteFields } from '../../shared/soft-delete';
+import { updateWithRevision, RevisionedChange, RevisionedResult } from '../../shared/concurrency';
+import { scheduleFollowUps } from '../../shared/follow-ups';
+import { NotificationsService } from '../notifications/notifications.service';
+import { WorkflowEngineService } from '../workflows/workflow-engine.service';
+import { Opportunity } from '../../types';
 
 export type TaskStatus = 'To do' | 'In progress' | 'Done';
 export type ActivityStatus = 'Scheduled' | 'Completed' | 'Cancelled';
@@ -16,6 +22,10 @@ export interface Task {
   description?: string;
   createdAt: Timestamp;
   updatedAt?: Timestamp;
+  revision?: number; // Incremented on every write, used to reject stale updates
+  // Soft delete fields - set when the task is moved to the trash
+  deletedAt?: Timestamp;
+  deletedBy?: string;
 }
 
 export interface Activity {
@@ -89,7 +99,13 @@ export interface ActivitiesQueryOptions {
 }
 
 export class TasksService {
-  constructor(private db: Firestore) {}
+  private notifications: NotificationsService;
+  private workflows: WorkflowEngineService;
+
+  constructor(private db: Firestore) {
+    this.notifications = new NotificationsService(db);
+    this.workflows = new WorkflowEngineService(db);
+  }
 
   // ============================================================================
   // STANDALONE TASKS METHODS
@@ -142,10 +158,11 @@ export class TasksService {
     query = query.limit(limit + 1); // Get one extra to check if there are more
 
     const snapshot = await query.get();
-    const tasks = snapshot.docs.slice(0, limit).map(doc => ({
+    // Trashed records are excluded from results
+    const tasks = excludeDeleted(snapshot.docs.slice(0, limit).map(doc => ({
       id: doc.id,
       ...doc.data()
-    })) as Task[];
+    })) as Task[]);
 
     return {
       tasks,
@@ -157,7 +174,7 @@ export class TasksService {
   async getTask(taskId: string): Promise<Task | null> {
     const doc = await this.db.collection('tasks').doc(taskId).get();
     
-    if (!doc.exists) {
+    if (!doc.exists || isDeleted(doc.data())) {
       return null;
     }
 
@@ -210,20 +227,16 @@ export class TasksService {
     return newTask;
   }
 
-  async updateTask(taskId: string, updateData: Partial<Omit<Task, 'id' | 'createdAt'>>, userId: string): Promise<Task> {
+  async updateTask(taskId: string, updateData: Partial<Omit<Task, 'id' | 'createdAt'>>, userId: string, expectedRevision?: number): Promise<Task> {
     const taskRef = this.db.collection('tasks').doc(taskId);
-    const taskDoc = await taskRef.get();
 
-    if (!taskDoc.exists) {
-      throw new Error('Task not found');
-    }
-
-    const updates = {
-      ...updateData,
-      updatedAt: Timestamp.now()
-    };
-
-    await taskRef.update(updates);
+    await updateWithRevision(this.db, taskRef, 'Task', expectedRevision, userId, () => ({
+      updates: {
+        ...updateData,
+        updatedAt: Timestamp.now()
+      },
+      result: null
+    }));
 
     // Audit log
     await AuditService.log({
@@ -242,11 +255,12 @@ export class TasksService {
     const taskRef = this.db.collection('tasks').doc(taskId);
     const taskDoc = await taskRef.get();
 
-    if (!taskDoc.exists) {
+    if (!taskDoc.exists || isDeleted(taskDoc.data())) {
       throw new Error('Task not found');
     }
 
-    await taskRef.delete();
+    // Soft delete - the task stays in the trash until restored or purged
+    await taskRef.update(softDeleteFields(userId));
 
     // Audit log
     await AuditService.log({
@@ -266,7 +280,7 @@ export class TasksService {
     const opportunityRef = this.db.collection('opportunities').doc(opportunityId);
     const opportunityDoc = await opportunityRef.get();
 
-    if (!opportunityDoc.exists) {
+    if (!opportunityDoc.exists || isDeleted(opportunityDoc.data())) {
       throw new Error('Opportunity not found');
     }
 
@@ -316,14 +330,7 @@ export class TasksService {
     return activities;
   }
 
-  async addActivityToOpportunity(opportunityId: string, activityData: Omit<Activity, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>, userId: string): Promise<Activity> {
-    const opportunityRef = this.db.collection('opportunities').doc(opportunityId);
-    const opportunityDoc = await opportunityRef.get();
-
-    if (!opportunityDoc.exists) {
-      throw new Error('Opportunity not found');
-    }
-
+  async addActivityToOpportunity(opportunityId: string, activityData: Omit<Activity, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>, userId: string, expectedRevision?: number): Promise<RevisionedResult<Activity>> {
     const now = Timestamp.now();
     const newActivity: Activity = {
       ...activityData,
@@ -334,14 +341,13 @@ export class TasksService {
       updatedBy: userId
     };
 
-    const opportunityData = opportunityDoc.data();
-    const activities = (opportunityData?.activities || []) as Activity[];
-    activities.push(newActivity);
-
-    await opportunityRef.update({
-      activities,
-      updatedAt: now,
-      lastActivityDate: now
+    const { result: addedActivity, revision } = await this.updateOpportunityArrays(opportunityId, expectedRevision, userId, data => {
+      const activities = (data.activities || []) as Activity[];
+      const updatedActivities = scheduleFollowUps(activities, [...activities, newActivity], userId, now);
+      return {
+        updates: { activities: updatedActivities, updatedAt: now, lastActivityDate: now },
+        result: updatedActivities[activities.length]
+      };
     });
 
     // Audit log
@@ -358,37 +364,29 @@ export class TasksService {
       }
     });
 
-    return newActivity;
+    return { item: addedActivity, revision };
   }
 
-  async updateActivityInOpportunity(opportunityId: string, activityId: string, updateData: Partial<Omit<Activity, 'id' | 'createdAt' | 'createdBy'>>, userId: string): Promise<Activity> {
-    const opportunityRef = this.db.collection('opportunities').doc(opportunityId);
-    const opportunityDoc = await opportunityRef.get();
-
-    if (!opportunityDoc.exists) {
-      throw new Error('Opportunity not found');
-    }
-
-    const opportunityData = opportunityDoc.data();
-    const activities = (opportunityData?.activities || []) as Activity[];
-    
-    const activityIndex = activities.findIndex(activity => activity.id === activityId);
-    if (activityIndex === -1) {
-      throw new Error('Activity not found');
-    }
-
-    const updatedActivity = {
-      ...activities[activityIndex],
-      ...updateData,
-      updatedAt: Timestamp.now(),
-      updatedBy: userId
-    };
-
-    activities[activityIndex] = updatedActivity;
+  async updateActivityInOpportunity(opportunityId: string, activityId: string, updateData: Partial<Omit<Activity, 'id' | 'createdAt' | 'createdBy'>>, userId: string, expectedRevision?: number): Promise<RevisionedResult<Activity>> {
+    const { result: updatedActivity, revision } = await this.updateOpportunityArrays(opportunityId, expectedRevision, userId, data => {
+      const activities = (data.activities || []) as Activity[];
+      const activityIndex = activities.findIndex(activity => activity.id === activityId);
+      if (activityIndex === -1) {
+        throw new Error('Activity not found');
+      }
 
-    await opportunityRef.update({
-      activities,
-      updatedAt: Timestamp.now()
+      const updated = {
+        ...activities[activityIndex],
+        ...updateData,
+        updatedAt: Timestamp.now(),
+        updatedBy: userId
+      };
+
+      const updatedActivities = scheduleFollowUps(activities, activities.map((activity, index) => index === activityIndex ? updated : activity), userId);
+      return {
+        updates: { activities: updatedActivities },
+        result: updatedActivities[activityIndex]
+      };
     });
 
     // Audit log
@@ -400,31 +398,21 @@ export class TasksService {
       data: { opportunityId, ...updateData }
     });
 
-    return updatedActivity;
+    return { item: updatedActivity, revision };
   }
 
-  async deleteActivityFromOpportunity(opportunityId: string, activityId: string, userId: string): Promise<void> {
-    const opportunityRef = this.db.collection('opportunities').doc(opportunityId);
-    const opportunityDoc = await opportunityRef.get();
-
-    if (!opportunityDoc.exists) {
-      throw new Error('Opportunity not found');
-    }
-
-    const opportunityData = opportunityDoc.data();
-    const activities = (opportunityData?.activities || []) as Activity[];
-    
-    const activityIndex = activities.findIndex(activity => activity.id === activityId);
-    if (activityIndex === -1) {
-      throw new Error('Activity not found');
-    }
-
-    const deletedActivity = activities[activityIndex];
-    activities.splice(activityIndex, 1);
+  async deleteActivityFromOpportunity(opportunityId: string, activityId: string, userId: string, expectedRevision?: number): Promise<number> {
+    const { result: deletedActivity, revision } = await this.updateOpportunityArrays(opportunityId, expectedRevision, userId, data => {
+      const activities = (data.activities || []) as Activity[];
+      const deleted = activities.find(activity => activity.id === activityId);
+      if (!deleted) {
+        throw new Error('Activity not found');
+      }
 
-    await opportunityRef.update({
-      activities,
-      updatedAt: Timestamp.now()
+      return {
+        updates: { activities: activities.filter(activity => activity.id !== activityId) },
+        result: deleted
+      };
     });
 
     // Audit log
@@ -435,6 +423,8 @@ export class TasksService {
       resourceId: activityId,
       data: { opportunityId, activity: deletedActivity }
     });
+
+    return revision;
   }
 
   // ============================================================================
@@ -445,7 +435,7 @@ export class TasksService {
     const opportunityRef = this.db.collection('opportunities').doc(opportunityId);
     const opportunityDoc = await opportunityRef.get();
 
-    if (!opportunityDoc.exists) {
+    if (!opportunityDoc.exists || isDeleted(opportunityDoc.data())) {
       throw new Error('Opportunity not found');
     }
 
@@ -453,29 +443,20 @@ export class TasksService {
     return (opportunityData?.checklist || []) as ChecklistItem[];
   }
 
-  async addChecklistItemToOpportunity(opportunityId: string, text: string, userId: string): Promise<ChecklistItem> {
-    const opportunityRef = this.db.collection('opportunities').doc(opportunityId);
-    const opportunityDoc = await opportunityRef.get();
-
-    if (!opportunityDoc.exists) {
-      throw new Error('Opportunity not found');
-    }
-
-    const now = Timestamp.now();
+  async addChecklistItemToOpportunity(opportunityId: string, text: string, userId: string, expectedRevision?: number): Promise<RevisionedResult<ChecklistItem>> {
     const newChecklistItem: ChecklistItem = {
       id: `checklist_${Date.now()}_${Math.random().toString(36).substring(7)}`,
       text: text.trim(),
       completed: false,
-      createdAt: now
+      createdAt: Timestamp.now()
     };
 
-    const opportunityData = opportunityDoc.data();
-    const checklist = (opportunityData?.checklist || []) as ChecklistItem[];
-    checklist.push(newChecklistItem);
-
-    await opportunityRef.update({
-      checklist,
-      updatedAt: now
+    const { revision } = await this.updateOpportunityArrays(opportunityId, expectedRevision, userId, data => {
+      const checklist = (data.checklist || []) as ChecklistItem[];
+      return {
+        updates: { checklist: [...checklist, newChecklistItem] },
+        result: newChecklistItem
+      };
     });
 
     // Audit log
@@ -487,44 +468,35 @@ export class TasksService {
       data: { opportunityId, text: newChecklistItem.text }
     });
 
-    return newChecklistItem;
+    return { item: newChecklistItem, revision };
   }
 
-  async updateChecklistItemInOpportunity(opportunityId: string, itemId: string, updateData: Partial<Omit<ChecklistItem, 'id' | 'createdAt'>>, userId: string): Promise<ChecklistItem> {
-    const opportunityRef = this.db.collection('opportunities').doc(opportunityId);
-    const opportunityDoc = await opportunityRef.get();
-
-    if (!opportunityDoc.exists) {
-      throw new Error('Opportunity not found');
-    }
-
-    const opportunityData = opportunityDoc.data();
-    const checklist = (opportunityData?.checklist || []) as ChecklistItem[];
-    
-    const itemIndex = checklist.findIndex(item => item.id === itemId);
-    if (itemIndex === -1) {
-      throw new Error('Checklist item not found');
-    }
+  async updateChecklistItemInOpportunity(opportunityId: string, itemId: string, updateData: Partial<Omit<ChecklistItem, 'id' | 'createdAt'>>, userId: string, expectedRevision?: number): Promise<RevisionedResult<ChecklistItem>> {
+    const { result: updatedItem, revision } = await this.updateOpportunityArrays(opportunityId, expectedRevision, userId, data => {
+      const checklist = (data.checklist || []) as ChecklistItem[];
+      const itemIndex = checklist.findIndex(item => item.id === itemId);
+      if (itemIndex === -1) {
+        throw new Error('Checklist item not found');
+      }
 
-    const updatedItem = {
-      ...checklist[itemIndex],
-      ...updateData
-    };
+      const updated = {
+        ...checklist[itemIndex],
+        ...updateData
+      };
 
-    // If marking as completed, add completedAt timestamp
-    if (updateData.completed === true && !checklist[itemIndex].completed) {
-      updatedItem.completedAt = Timestamp.now();
-    }
-    // If marking as not completed, remove completedAt timestamp
-    else if (updateData.completed === false && checklist[itemIndex].completed) {
-      delete updatedItem.completedAt;
-    }
-
-    checklist[itemIndex] = updatedItem;
+      // If marking as completed, add completedAt timestamp
+      if (updateData.completed === true && !checklist[itemIndex].completed) {
+        updated.completedAt = Timestamp.now();
+      }
+      // If marking as not completed, remove completedAt timestamp
+      else if (updateData.completed === false && checklist[itemIndex].completed) {
+        delete updated.completedAt;
+      }
 
-    await opportunityRef.update({
-      checklist,
-      updatedAt: Timestamp.now()
+      return {
+        updates: { checklist: checklist.map((item, index) => index === itemIndex ? updated : item) },
+        result: updated
+      };
     });
 
     // Audit log
@@ -536,31 +508,21 @@ export class TasksService {
       data: { opportunityId, ...updateData }
     });
 
-    return updatedItem;
+    return { item: updatedItem, revision };
   }
 
-  async deleteChecklistItemFromOpportunity(opportunityId: string, itemId: string, userId: string): Promise<void> {
-    const opportunityRef = this.db.collection('opportunities').doc(opportunityId);
-    const opportunityDoc = await opportunityRef.get();
-
-    if (!opportunityDoc.exists) {
-      throw new Error('Opportunity not found');
-    }
-
-    const opportunityData = opportunityDoc.data();
-    const checklist = (opportunityData?.checklist || []) as ChecklistItem[];
-    
-    const itemIndex = checklist.findIndex(item => item.id === itemId);
-    if (itemIndex === -1) {
-      throw new Error('Checklist item not found');
-    }
-
-    const deletedItem = checklist[itemIndex];
-    checklist.splice(itemIndex, 1);
+  async deleteChecklistItemFromOpportunity(opportunityId: string, itemId: string, userId: string, expectedRevision?: number): Promise<number> {
+    const { result: deletedItem, revision } = await this.updateOpportunityArrays(opportunityId, expectedRevision, userId, data => {
+      const checklist = (data.checklist || []) as ChecklistItem[];
+      const deleted = checklist.find(item => item.id === itemId);
+      if (!deleted) {
+        throw new Error('Checklist item not found');
+      }
 
-    await opportunityRef.update({
-      checklist,
-      updatedAt: Timestamp.now()
+      return {
+        updates: { checklist: checklist.filter(item => item.id !== itemId) },
+        result: deleted
+      };
     });
 
     // Audit log
@@ -571,5 +533,31 @@ export class TasksService {
       resourceId: itemId,
       data: { opportunityId, item: deletedItem }
     });
+
+    return revision;
+  }
+
+  /**
+   * Read-modify-write an opportunity's embedded arrays (activities, checklist) in a
+   * transaction so concurrent edits to the same opportunity can't drop each other's changes,
+   * then notify and run rules as an edit from the opportunity form does
+   */
+  private async updateOpportunityArrays<R>(
+    opportunityId: string,
+    expectedRevision: number | undefined,
+    userId: string,
+    mutate: (data: DocumentData) => RevisionedChange<R>
+  ): Promise<{ result: R; revision: number }> {
+    const opportunityRef = this.db.collection('opportunities').doc(opportunityId);
+    const { result: change, revision } = await updateWithRevision(this.db, opportunityRef, 'Opportunity', expectedRevision, userId, data => {
+      const { updates, result } = mutate(data);
+      return { updates, result: { result, before: data as Opportunity, after: { ...data, ...updates } as Opportunity } };
+    });
+
+    const after = { ...change.after, id: opportunityId, revision };
+    await this.notifications.notifyOpportunityChanges(change.before, after, userId);
+    await this.workflows.onRecordWritten('opportunity', opportunityId, change.before, after, userId);
+
+    return { result: change.result, revision };
   }
 } 
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import { authenticateUser, requirePermission } from '../../shared/auth.middleware';
+import { validateData, commonSchemas } from '../../shared/validation.middleware';
+import { withErrorHandling } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { TeamsService } from './teams.service';
+import { z } from 'zod';
+
+const teamSchema = z.object({
+  id: commonSchemas.id.optional(),
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  managerIds: z.array(commonSchemas.id).max(20).default([]),
+  memberIds: z.array(commonSchemas.id).max(200).default([]),
+  territoryIds: z.array(commonSchemas.id).max(50).default([])
+});
+
+const territorySchema = z.object({
+  id: commonSchemas.id.optional(),
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  regions: z.array(z.string().trim().min(1)).min(1).max(200)
+});
+
+const getTeamsService = () => new TeamsService(getFirestore());
+
+/**
+ * List teams and territories
+ */
+export const getTeams = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'teams:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getTeams');
+
+    const service = getTeamsService();
+    const [teams, territories] = await Promise.all([service.getTeams(), service.getTerritories()]);
+
+    return { teams, territories };
+  }, { functionName: 'getTeams', action: 'TEAMS_LIST' })
+);
+
+/**
+ * Create a team, or update it when an id is given
+ */
+export const saveTeam = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'teams:manage');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'saveTeam');
+
+    const { id, ...data } = validateData(teamSchema, request.data);
+
+    return await getTeamsService().saveTeam(id, data, user.uid, user.email);
+  }, { functionName: 'saveTeam', action: 'TEAM_SAVE' })
+);
+
+export const deleteTeam = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'teams:manage');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'deleteTeam');
+
+    const { id } = validateData(z.object({ id: commonSchemas.id }), request.data);
+
+    await getTeamsService().deleteTeam(id, user.uid, user.email);
+
+    return { success: true, message: 'Team deleted successfully' };
+  }, { functionName: 'deleteTeam', action: 'TEAM_DELETE' })
+);
+
+/**
+ * Create a territory, or update it when an id is given
+ */
+export const saveTerritory = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'teams:manage');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'saveTerritory');
+
+    const { id, ...data } = validateData(territorySchema, request.data);
+
+    return await getTeamsService().saveTerritory(id, data, user.uid, user.email);
+  }, { functionName: 'saveTerritory', action: 'TERRITORY_SAVE' })
+);
+
+export const deleteTerritory = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'teams:manage');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'deleteTerritory');
+
+    const { id } = validateData(z.object({ id: commonSchemas.id }), request.data);
+
+    await getTeamsService().deleteTerritory(id, user.uid, user.email);
+
+    return { success: true, message: 'Territory deleted successfully' };
+  }, { functionName: 'deleteTerritory', action: 'TERRITORY_DELETE' })
+);
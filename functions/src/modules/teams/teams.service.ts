@@ -0,0 +1,318 @@
+import { Firestore, Timestamp, FieldValue } from 'firebase-admin/firestore';
+import { AuditService } from '../../shared/audit.service';
+import { AuthenticatedUser, AuthError } from '../../shared/auth.middleware';
+import { NotFoundError } from '../../shared/errors';
+import { Visibility } from '../../shared/permissions';
+import { isDeleted } from '../../shared/soft-delete';
+import { IN_QUERY_LIMIT } from '../../shared/queries';
+
+export interface Territory {
+  id: string;
+  name: string;
+  description?: string;
+  regions: string[]; // Matched against Account.region (headoffice country)
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  description?: string;
+  managerIds: string[];
+  memberIds: string[];
+  territoryIds: string[];
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type TeamInput = Pick<Team, 'name' | 'description' | 'managerIds' | 'memberIds' | 'territoryIds'>;
+export type TerritoryInput = Pick<Territory, 'name' | 'description' | 'regions'>;
+
+/**
+ * Slice of records a list is narrowed to; "all" still respects the caller's visibility limit
+ */
+export type RecordScope = Visibility;
+
+export type ScopedCollection = 'accounts' | 'contacts' | 'products' | 'opportunities' | 'assignments' | 'tasks';
+
+export interface ScopedRecord {
+  id?: string;
+  ownerId?: string;
+  accountId?: string;
+}
+
+interface ScopeRule {
+  ownerIds?: Set<string>;
+  accountIds?: Set<string>;
+}
+
+/**
+ * Record filter built from a requested scope and the user's visibility limit.
+ * A record is visible when it passes every rule.
+ */
+export class RecordVisibility {
+  private rules: ScopeRule[];
+
+  constructor(rules: ScopeRule[]) {
+    this.rules = rules;
+  }
+
+  get isUnrestricted(): boolean {
+    return this.rules.length === 0;
+  }
+
+  canView(collection: ScopedCollection, record: ScopedRecord): boolean {
+    // Contacts, products and opportunities belong to a territory through their account; assignments
+    // and tasks have none, so territory rules never let them through
+    const accountId = collection === 'accounts' ? record.id : record.accountId;
+
+    return this.rules.every(rule =>
+      (!rule.ownerIds || (!!record.ownerId && rule.ownerIds.has(record.ownerId))) &&
+      (!rule.accountIds || (!!accountId && rule.accountIds.has(accountId)))
+    );
+  }
+
+  filter<T extends ScopedRecord>(collection: ScopedCollection, records: T[]): T[] {
+    return this.isUnrestricted ? records : records.filter(record => this.canView(collection, record));
+  }
+}
+
+export class TeamsService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  async getTeams(): Promise<Team[]> {
+    const snapshot = await this.db.collection('teams').orderBy('name').get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Team));
+  }
+
+  async getTerritories(): Promise<Territory[]> {
+    const snapshot = await this.db.collection('territories').orderBy('name').get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Territory));
+  }
+
+  async saveTeam(teamId: string | undefined, data: TeamInput, userId: string, userEmail: string): Promise<Team> {
+    await this.assertTerritoriesExist(data.territoryIds);
+
+    const now = Timestamp.now();
+    const fields = {
+      ...data,
+      // A manager is always part of the team they manage
+      memberIds: Array.from(new Set([...data.memberIds, ...data.managerIds])),
+      updatedAt: now
+    };
+
+    const docRef = teamId ? this.db.collection('teams').doc(teamId) : this.db.collection('teams').doc();
+    if (teamId) {
+      await this.assertExists('teams', teamId, 'Team');
+      await docRef.update(fields);
+    } else {
+      await docRef.set({ ...fields, createdBy: userId, createdAt: now });
+    }
+
+    await AuditService.log({
+      action: teamId ? 'update' : 'create',
+      userId,
+      userEmail,
+      resourceType: 'team',
+      resourceId: docRef.id,
+      data: fields
+    });
+
+    const saved = await docRef.get();
+    return { id: saved.id, ...saved.data() } as Team;
+  }
+
+  async deleteTeam(teamId: string, userId: string, userEmail: string): Promise<void> {
+    await this.assertExists('teams', teamId, 'Team');
+    await this.db.collection('teams').doc(teamId).delete();
+
+    await AuditService.log({
+      action: 'delete',
+      userId,
+      userEmail,
+      resourceType: 'team',
+      resourceId: teamId
+    });
+  }
+
+  async saveTerritory(territoryId: string | undefined, data: TerritoryInput, userId: string, userEmail: string): Promise<Territory> {
+    const now = Timestamp.now();
+    const fields = {
+      ...data,
+      regions: Array.from(new Set(data.regions.map(region => region.trim()).filter(Boolean))),
+      updatedAt: now
+    };
+
+    const docRef = territoryId ? this.db.collection('territories').doc(territoryId) : this.db.collection('territories').doc();
+    if (territoryId) {
+      await this.assertExists('territories', territoryId, 'Territory');
+      await docRef.update(fields);
+    } else {
+      await docRef.set({ ...fields, createdBy: userId, createdAt: now });
+    }
+
+    await AuditService.log({
+      action: territoryId ? 'update' : 'create',
+      userId,
+      userEmail,
+      resourceType: 'territory',
+      resourceId: docRef.id,
+      data: fields
+    });
+
+    const saved = await docRef.get();
+    return { id: saved.id, ...saved.data() } as Territory;
+  }
+
+  /**
+   * Delete a territory and detach it from every team that covers it
+   */
+  async deleteTerritory(territoryId: string, userId: string, userEmail: string): Promise<void> {
+    await this.assertExists('territories', territoryId, 'Territory');
+
+    const teamsSnapshot = await this.db.collection('teams').where('territoryIds', 'array-contains', territoryId).get();
+    const batch = this.db.batch();
+    teamsSnapshot.docs.forEach(doc => {
+      batch.update(doc.ref, { territoryIds: FieldValue.arrayRemove(territoryId), updatedAt: Timestamp.now() });
+    });
+    batch.delete(this.db.collection('territories').doc(territoryId));
+    await batch.commit();
+
+    await AuditService.log({
+      action: 'delete',
+      userId,
+      userEmail,
+      resourceType: 'territory',
+      resourceId: territoryId,
+      data: { detachedFromTeams: teamsSnapshot.size }
+    });
+  }
+
+  /**
+   * Build the record filter for a list request. The requested scope can only narrow
+   * what the user's visibility limit already allows.
+   */
+  async resolveVisibility(user: AuthenticatedUser, scope: RecordScope = 'all'): Promise<RecordVisibility> {
+    const scopes = Array.from(new Set([scope, user.visibility])).filter(value => value !== 'all');
+    const rules = await Promise.all(scopes.map(value => this.buildRule(user.uid, value)));
+    return new RecordVisibility(rules);
+  }
+
+  /**
+   * Reject single-record reads outside the user's visibility limit
+   */
+  async assertCanView(user: AuthenticatedUser, collection: ScopedCollection, record: ScopedRecord): Promise<void> {
+    if (user.visibility === 'all') {
+      return;
+    }
+
+    const visibility = await this.resolveVisibility(user);
+    if (!visibility.canView(collection, record)) {
+      throw new AuthError('This record is outside your visibility', 'PERMISSION_DENIED');
+    }
+  }
+
+  /**
+   * Reject writes to a stored record outside the user's visibility limit; missing records are
+   * left for the caller to report
+   */
+  async assertCanViewById(user: AuthenticatedUser, collection: ScopedCollection, id: string): Promise<void> {
+    if (user.visibility === 'all') {
+      return;
+    }
+
+    const doc = await this.db.collection(collection).doc(id).get();
+    if (doc.exists) {
+      await this.assertCanView(user, collection, { id: doc.id, ...doc.data() });
+    }
+  }
+
+  /**
+   * Drop the ids of stored records outside the user's visibility limit, keeping missing ones
+   * so bulk operations still report them
+   */
+  async filterVisibleIds(user: AuthenticatedUser, collection: ScopedCollection, ids: string[]): Promise<string[]> {
+    if (user.visibility === 'all' || ids.length === 0) {
+      return ids;
+    }
+
+    const visibility = await this.resolveVisibility(user);
+    const docs = await this.db.getAll(...ids.map(id => this.db.collection(collection).doc(id)));
+    return ids.filter((id, index) =>
+      !docs[index].exists || visibility.canView(collection, { id, ...docs[index].data() })
+    );
+  }
+
+  private async buildRule(userId: string, scope: Exclude<RecordScope, 'all'>): Promise<ScopeRule> {
+    if (scope === 'mine') {
+      return { ownerIds: new Set([userId]) };
+    }
+
+    const teams = await this.getTeamsForUser(userId);
+
+    if (scope === 'team') {
+      return { ownerIds: new Set(teams.flatMap(team => [...team.memberIds, ...team.managerIds])) };
+    }
+
+    const territoryIds = Array.from(new Set(teams.flatMap(team => team.territoryIds || [])));
+    const territoryDocs = territoryIds.length > 0
+      ? await this.db.getAll(...territoryIds.map(id => this.db.collection('territories').doc(id)))
+      : [];
+    const regions = Array.from(new Set(territoryDocs.flatMap(doc => (doc.data()?.regions as string[]) || [])));
+
+    return { accountIds: await this.getAccountIdsInRegions(regions) };
+  }
+
+  private async getTeamsForUser(userId: string): Promise<Team[]> {
+    const [memberSnapshot, managerSnapshot] = await Promise.all([
+      this.db.collection('teams').where('memberIds', 'array-contains', userId).get(),
+      this.db.collection('teams').where('managerIds', 'array-contains', userId).get()
+    ]);
+
+    const teams = new Map<string, Team>();
+    [...memberSnapshot.docs, ...managerSnapshot.docs].forEach(doc => {
+      teams.set(doc.id, { id: doc.id, ...doc.data() } as Team);
+    });
+    return Array.from(teams.values());
+  }
+
+  private async getAccountIdsInRegions(regions: string[]): Promise<Set<string>> {
+    const accountIds = new Set<string>();
+
+    for (let i = 0; i < regions.length; i += IN_QUERY_LIMIT) {
+      const snapshot = await this.db.collection('accounts')
+        .where('region', 'in', regions.slice(i, i + IN_QUERY_LIMIT))
+        .select('deletedAt')
+        .get();
+      snapshot.docs
+        .filter(doc => !isDeleted(doc.data()))
+        .forEach(doc => accountIds.add(doc.id));
+    }
+
+    return accountIds;
+  }
+
+  private async assertTerritoriesExist(territoryIds: string[]): Promise<void> {
+    if (territoryIds.length === 0) return;
+
+    const docs = await this.db.getAll(...territoryIds.map(id => this.db.collection('territories').doc(id)));
+    const missing = docs.find(doc => !doc.exists);
+    if (missing) {
+      throw new NotFoundError('Territory', missing.id);
+    }
+  }
+
+  private async assertExists(collection: string, id: string, resource: string): Promise<void> {
+    const doc = await this.db.collection(collection).doc(id).get();
+    if (!doc.exists) {
+      throw new NotFoundError(resource, id);
+    }
+  }
+}
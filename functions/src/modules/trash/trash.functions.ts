@@ -0,0 +1,124 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { defineInt } from 'firebase-functions/params';
+import { getFirestore } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { authenticateUser, requirePermission } from '../../shared/auth.middleware';
+import { validateData, commonSchemas } from '../../shared/validation.middleware';
+import { withErrorHandling } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { TrashService, TRASH_COLLECTIONS, TrashCollection } from './trash.service';
+import { TeamsService } from '../teams/teams.service';
+import { z } from 'zod';
+
+// Days a soft-deleted record stays restorable before the scheduled purge removes it
+const trashRetentionDays = defineInt('TRASH_RETENTION_DAYS', { default: 30 });
+
+const trashCollectionSchema = z.enum(Object.keys(TRASH_COLLECTIONS) as [TrashCollection, ...TrashCollection[]]);
+
+const trashItemSchema = z.object({
+  collection: trashCollectionSchema,
+  id: commonSchemas.id
+});
+
+const getTrashService = () => new TrashService(getFirestore());
+
+/**
+ * List soft-deleted records across all business collections
+ */
+export const getTrashItems = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'trash:read');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getTrashItems');
+
+    const { collection } = validateData(
+      z.object({ collection: trashCollectionSchema.optional() }),
+      request.data || {}
+    );
+
+    const retentionDays = trashRetentionDays.value();
+    const visibility = await new TeamsService(getFirestore()).resolveVisibility(user);
+    const items = await getTrashService().getTrashItems(retentionDays, collection, visibility);
+
+    return { items, retentionDays };
+  }, { functionName: 'getTrashItems', action: 'TRASH_LIST' })
+);
+
+/**
+ * Restore a soft-deleted record
+ */
+export const restoreTrashItem = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'trash:restore');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'restoreTrashItem');
+
+    const { collection, id } = validateData(trashItemSchema, request.data);
+
+    await new TeamsService(getFirestore()).assertCanViewById(user, collection, id);
+
+    await getTrashService().restoreItem(collection, id, user.uid);
+
+    return { success: true, message: 'Item restored successfully' };
+  }, { functionName: 'restoreTrashItem', action: 'TRASH_RESTORE' })
+);
+
+/**
+ * Permanently delete a soft-deleted record
+ */
+export const purgeTrashItem = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'trash:purge');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'purgeTrashItem');
+
+    const { collection, id } = validateData(trashItemSchema, request.data);
+
+    await new TeamsService(getFirestore()).assertCanViewById(user, collection, id);
+
+    await getTrashService().purgeItem(collection, id, user);
+
+    return { success: true, message: 'Item permanently deleted' };
+  }, { functionName: 'purgeTrashItem', action: 'TRASH_PURGE' })
+);
+
+/**
+ * Scheduled function to purge trashed records older than the retention window
+ * Runs every day at 02:00 UTC
+ */
+export const purgeExpiredTrash = onSchedule({
+  schedule: '0 2 * * *', // Every day at 02:00 UTC
+  timeZone: 'UTC',
+  region: 'us-central1'
+}, async () => {
+  const retentionDays = trashRetentionDays.value();
+
+  try {
+    const purged = await getTrashService().purgeExpired(retentionDays);
+    logger.info('Expired trash purged', { retentionDays, purged });
+  } catch (error) {
+    logger.error('Failed to purge expired trash', {
+      retentionDays,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
@@ -0,0 +1,218 @@
+import {
+  Firestore,
+  Timestamp,
+  DocumentReference
+} from 'firebase-admin/firestore';
+import { AuditService } from '../../shared/audit.service';
+import { AuthenticatedUser, AuthError } from '../../shared/auth.middleware';
+import { NotFoundError, BusinessLogicError } from '../../shared/errors';
+import { isDeleted, restoreFields } from '../../shared/soft-delete';
+import { getWhereIn } from '../../shared/queries';
+import { DAY_MS } from '../../shared/dates';
+import type { RecordVisibility } from '../teams/teams.service';
+
+export type TrashCollection = 'accounts' | 'contacts' | 'products' | 'opportunities' | 'tasks' | 'assignments';
+
+export const TRASH_COLLECTIONS: Record<TrashCollection, { resourceType: string; titleField: string }> = {
+  accounts: { resourceType: 'account', titleField: 'name' },
+  contacts: { resourceType: 'contact', titleField: 'name' },
+  products: { resourceType: 'product', titleField: 'name' },
+  opportunities: { resourceType: 'opportunity', titleField: 'title' },
+  tasks: { resourceType: 'task', titleField: 'title' },
+  assignments: { resourceType: 'assignment', titleField: 'title' }
+};
+
+// Records that hang off an account can't be restored while the account is gone
+const ACCOUNT_SCOPED_COLLECTIONS: TrashCollection[] = ['contacts', 'products', 'opportunities'];
+
+// Firestore batches are limited to 500 writes
+const PURGE_BATCH_SIZE = 400;
+
+export interface TrashItem {
+  id: string;
+  collection: TrashCollection;
+  resourceType: string;
+  title: string;
+  accountId?: string;
+  ownerId?: string;
+  deletedAt: Timestamp;
+  deletedBy: string;
+  purgeAfter: Timestamp;
+}
+
+export class TrashService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  async getTrashItems(retentionDays: number, collection?: TrashCollection, visibility?: RecordVisibility): Promise<TrashItem[]> {
+    const collections = collection ? [collection] : (Object.keys(TRASH_COLLECTIONS) as TrashCollection[]);
+    const retentionMs = retentionDays * DAY_MS;
+
+    const snapshots = await Promise.all(collections.map(name =>
+      this.db.collection(name).where('deletedAt', '!=', null).get()
+    ));
+
+    const items: TrashItem[] = [];
+    snapshots.forEach((snapshot, index) => {
+      const name = collections[index];
+      const { resourceType, titleField } = TRASH_COLLECTIONS[name];
+
+      snapshot.docs.forEach(doc => {
+        const data = doc.data();
+        items.push({
+          id: doc.id,
+          collection: name,
+          resourceType,
+          title: data[titleField] || 'Untitled',
+          accountId: data.accountId,
+          ownerId: data.ownerId,
+          deletedAt: data.deletedAt,
+          deletedBy: data.deletedBy,
+          purgeAfter: Timestamp.fromMillis(data.deletedAt.toMillis() + retentionMs)
+        });
+      });
+    });
+
+    // Only what the caller could see before it was deleted
+    const visible = visibility ? items.filter(item => visibility.canView(item.collection, item)) : items;
+
+    return visible.sort((a, b) => b.deletedAt.toMillis() - a.deletedAt.toMillis());
+  }
+
+  async restoreItem(collection: TrashCollection, id: string, userId: string): Promise<void> {
+    const docRef = this.db.collection(collection).doc(id);
+    const data = await this.getTrashedData(docRef, collection, id);
+
+    // Merged records have had their dependents moved to the survivor, so bringing them back would leave an empty shell
+    if (data.mergedInto) {
+      throw new BusinessLogicError(
+        'Cannot restore: this record was merged into another record.',
+        { mergedInto: data.mergedInto }
+      );
+    }
+
+    if (ACCOUNT_SCOPED_COLLECTIONS.includes(collection) && data.accountId) {
+      const accountDoc = await this.db.collection('accounts').doc(data.accountId).get();
+      if (!accountDoc.exists || isDeleted(accountDoc.data())) {
+        throw new BusinessLogicError(
+          'Cannot restore: the parent account is deleted. Restore the account first.',
+          { accountId: data.accountId }
+        );
+      }
+    }
+
+    await docRef.update(restoreFields());
+
+    await AuditService.log({
+      userId,
+      action: 'restore',
+      resourceType: TRASH_COLLECTIONS[collection].resourceType,
+      resourceId: id,
+      data: { title: data[TRASH_COLLECTIONS[collection].titleField], deletedBy: data.deletedBy }
+    });
+  }
+
+  async purgeItem(collection: TrashCollection, id: string, user: AuthenticatedUser): Promise<void> {
+    const docRef = this.db.collection(collection).doc(id);
+    const data = await this.getTrashedData(docRef, collection, id);
+
+    // Permanent deletion is limited to admins and whoever moved the record to the trash
+    if (user.role !== 'admin' && data.deletedBy !== user.uid) {
+      throw new AuthError('Only admins or the user who deleted this item can purge it', 'PERMISSION_DENIED');
+    }
+
+    await this.purgeDocuments(collection, [docRef]);
+
+    await AuditService.log({
+      userId: user.uid,
+      action: 'purge',
+      resourceType: TRASH_COLLECTIONS[collection].resourceType,
+      resourceId: id,
+      data: { title: data[TRASH_COLLECTIONS[collection].titleField], deletedBy: data.deletedBy }
+    });
+  }
+
+  /**
+   * Permanently delete everything that has been in the trash longer than the retention window
+   */
+  async purgeExpired(retentionDays: number): Promise<Record<TrashCollection, number>> {
+    const cutoff = Timestamp.fromMillis(Date.now() - retentionDays * DAY_MS);
+    const purged = {} as Record<TrashCollection, number>;
+
+    for (const collection of Object.keys(TRASH_COLLECTIONS) as TrashCollection[]) {
+      const snapshot = await this.db.collection(collection)
+        .where('deletedAt', '<=', cutoff)
+        .get();
+
+      await this.purgeDocuments(collection, snapshot.docs.map(doc => doc.ref));
+      purged[collection] = snapshot.size;
+    }
+
+    await AuditService.log({
+      userId: 'system',
+      action: 'purge_expired',
+      resourceType: 'trash',
+      resourceId: 'scheduled',
+      data: { retentionDays, purged }
+    });
+
+    return purged;
+  }
+
+  private async getTrashedData(docRef: DocumentReference, collection: TrashCollection, id: string) {
+    const doc = await docRef.get();
+
+    if (!doc.exists) {
+      throw new NotFoundError(TRASH_COLLECTIONS[collection].resourceType, id);
+    }
+
+    const data = doc.data()!;
+    if (!isDeleted(data)) {
+      throw new BusinessLogicError('Item is not in the trash', { collection, id });
+    }
+
+    return data;
+  }
+
+  private async purgeDocuments(collection: TrashCollection, refs: DocumentReference[]): Promise<void> {
+    const allRefs = [...refs];
+
+    // Change history keeps full snapshots of the record, so it goes with it
+    for (const ref of refs) {
+      const recordHistorySnapshot = await this.db.collection('record_history')
+        .where('collection', '==', collection)
+        .where('recordId', '==', ref.id)
+        .get();
+      allRefs.push(...recordHistorySnapshot.docs.map(doc => doc.ref));
+    }
+
+    // Stage history and AI summaries, with their ratings, only exist for opportunities and go with them
+    if (collection === 'opportunities') {
+      for (const ref of refs) {
+        const [historySnapshot, summariesSnapshot] = await Promise.all([
+          this.db.collection('opportunity_stage_history').where('opportunityId', '==', ref.id).get(),
+          this.db.collection('ai_summaries').where('opportunityId', '==', ref.id).get()
+        ]);
+        const ratingDocs = await getWhereIn(
+          this.db.collection('ai_summary_ratings'),
+          'summaryId',
+          summariesSnapshot.docs.map(doc => doc.id)
+        );
+        allRefs.push(
+          ...historySnapshot.docs.map(doc => doc.ref),
+          ...summariesSnapshot.docs.map(doc => doc.ref),
+          ...ratingDocs.map(doc => doc.ref)
+        );
+      }
+    }
+
+    for (let i = 0; i < allRefs.length; i += PURGE_BATCH_SIZE) {
+      const batch = this.db.batch();
+      allRefs.slice(i, i + PURGE_BATCH_SIZE).forEach(ref => batch.delete(ref));
+      await batch.commit();
+    }
+  }
+}
@@ -1,9 +1,12 @@
 import { onCall, HttpsError } from 'firebase-functions/v2/https';
 import { getFirestore } from 'firebase-admin/firestore';
 import { validateData, ValidationError } from '../../shared/validation.middleware';
-import { authenticateUser } from '../../shared/auth.middleware';
+import { authenticateUser, requirePermission, AuthError, toHttpsAuthError } from '../../shared/auth.middleware';
 import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { AuditService } from '../../shared/audit.service';
+import { ROLES, PERMISSIONS, VISIBILITIES, Role, Permission, Visibility, getEffectivePermissions } from '../../shared/permissions';
 import { UsersService } from './users.service';
+import { NOTIFICATION_EVENTS } from '../notifications/notifications.service';
 import { z } from 'zod';
 
 const db = getFirestore();
@@ -38,16 +41,28 @@ const UpdateUserSchema = z.object({
   notifications: z.object({
     email: z.boolean(),
     push: z.boolean(),
-    weekly: z.boolean()
+    weekly: z.boolean(),
+    events: z.partialRecord(z.enum(NOTIFICATION_EVENTS), z.object({
+      inApp: z.boolean(),
+      email: z.enum(['off', 'immediate', 'digest'])
+    })).optional()
   }).optional()
 });
 
+const UpdateUserRoleSchema = z.object({
+  userId: z.string().min(1),
+  role: z.enum(ROLES as [Role, ...Role[]]),
+  permissions: z.array(z.enum(PERMISSIONS as unknown as [Permission, ...Permission[]])).default([]),
+  visibility: z.enum(VISIBILITIES as [Visibility, ...Visibility[]]).optional()
+});
+
 // Get users with filtering and pagination
 export const getUsers = onCall(
   { cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'], maxInstances: 10 },
   async (request) => {
     try {
       const user = await authenticateUser(request.auth);
+      requirePermission(user, 'users:read');
       
       // Apply rate limiting
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getUsers');
@@ -65,6 +80,9 @@ export const getUsers = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       if (error instanceof ValidationError) {
         console.error('Validation errors:', error.errors);
         throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
@@ -90,7 +108,10 @@ export const getUser = onCall(
 
       console.log(`🔍 getUser called with userId: ${request.data.userId}`);
 
-      // Removed ownership check - allow access to all user profiles
+      // Everyone can load their own profile; other profiles need users:read
+      if (request.data.userId !== user.uid) {
+        requirePermission(user, 'users:read');
+      }
 
       let userData = await usersService.getUser(request.data.userId);
       console.log(`📋 getUser result for ${request.data.userId}:`, userData ? 'Found in Firestore' : 'NOT FOUND in Firestore');
@@ -116,7 +137,7 @@ export const getUser = onCall(
             location: '',
             bio: '',
             avatar: '',
-            role: 'user',
+            role: 'rep',
             permissions: [],
             timezone: '',
             notifications: {
@@ -174,6 +195,9 @@ export const getUser = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       if (error instanceof ValidationError) {
         console.error('Validation errors:', error.errors);
         throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
@@ -199,7 +223,10 @@ export const updateUser = onCall(
         throw new HttpsError('invalid-argument', 'User ID is required');
       }
 
-      // Removed ownership check - allow updates to all user profiles
+      // Users can edit their own profile; editing others needs users:update
+      if (request.data.userId !== user.uid) {
+        requirePermission(user, 'users:update');
+      }
 
       const updatedUser = await usersService.updateUser(request.data.userId, validatedData);
 
@@ -212,6 +239,9 @@ export const updateUser = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       if (error instanceof ValidationError) {
         console.error('Validation errors:', error.errors);
         throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
@@ -229,7 +259,8 @@ export const testGetUser = onCall(
   { cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'], maxInstances: 10 },
   async (request) => {
     try {
-      await authenticateUser(request.auth); // Just verify authentication
+      const user = await authenticateUser(request.auth);
+      requirePermission(user, 'users:read');
       
       const testUserId = 'Upznbx6fFNbCTujUmGwbQM1YNAp1'; // James Burdett
       console.log(`Testing getUser for specific user: ${testUserId}`);
@@ -262,10 +293,7 @@ export const getUsersStats = onCall(
       // Apply rate limiting for stats operations
       await RateLimiter.checkLimit(user.uid, RateLimitPresets.stats.maxRequests, RateLimitPresets.stats.windowMs, 'getUsersStats');
 
-      // Only admins can access user statistics
-      if (user.role !== 'admin') {
-        throw new HttpsError('permission-denied', 'Admin access required');
-      }
+      requirePermission(user, 'users:stats');
 
       const stats = await usersService.getUsersStats();
 
@@ -278,6 +306,9 @@ export const getUsersStats = onCall(
       if (error instanceof HttpsError) {
         throw error;
       }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
       if (error instanceof ValidationError) {
         console.error('Validation errors:', error.errors);
         throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map((e: any) => `${e.field}: ${e.message}`).join(', ')}`);
@@ -285,4 +316,93 @@ export const getUsersStats = onCall(
       throw new HttpsError('internal', 'Failed to get users statistics');
     }
   }
+);
+
+// Get the caller's role and effective permissions so the UI can hide actions they cannot perform
+export const getMyPermissions = onCall(
+  { cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'], maxInstances: 10 },
+  async (request) => {
+    try {
+      const user = await authenticateUser(request.auth);
+
+      // Apply rate limiting
+      await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getMyPermissions');
+
+      return {
+        success: true,
+        data: {
+          role: user.role,
+          permissions: getEffectivePermissions(user),
+          visibility: user.visibility
+        }
+      };
+    } catch (error) {
+      console.error('Error in getMyPermissions:', error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
+      throw new HttpsError('internal', 'Failed to get permissions');
+    }
+  }
+);
+
+// Assign a role, extra permissions and record visibility to a user (admin only)
+export const updateUserRole = onCall(
+  { cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'], maxInstances: 10 },
+  async (request) => {
+    try {
+      const user = await authenticateUser(request.auth);
+      requirePermission(user, 'users:manageRoles');
+
+      // Apply rate limiting for write operations
+      await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'updateUserRole');
+
+      const { userId, role, permissions, visibility } = validateData(UpdateUserRoleSchema, request.data);
+
+      // Prevent admins from locking themselves out of role management
+      if (userId === user.uid && role !== 'admin') {
+        throw new HttpsError('failed-precondition', 'You cannot remove your own admin role');
+      }
+
+      const existingUser = await usersService.getUser(userId);
+      if (!existingUser) {
+        throw new HttpsError('not-found', 'User not found');
+      }
+
+      const updatedUser = await usersService.updateUserRole(userId, role, permissions, visibility);
+
+      await AuditService.log({
+        action: 'update_role',
+        userId: user.uid,
+        userEmail: user.email,
+        resourceType: 'user',
+        resourceId: userId,
+        data: {
+          previous: { role: existingUser.role, permissions: existingUser.permissions || [], visibility: existingUser.visibility || 'all' },
+          updated: { role, permissions, visibility: visibility || existingUser.visibility || 'all' }
+        }
+      });
+
+      return {
+        success: true,
+        data: updatedUser
+      };
+    } catch (error) {
+      console.error('Error in updateUserRole:', error);
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      if (error instanceof AuthError) {
+        throw toHttpsAuthError(error);
+      }
+      if (error instanceof ValidationError) {
+        console.error('Validation errors:', error.errors);
+        throw new HttpsError('invalid-argument', `Validation failed: ${error.errors.map(e => `${e.field}: ${e.message}`).join(', ')}`);
+      }
+      throw new HttpsError('internal', 'Failed to update user role');
+    }
+  }
 ); 
\ No newline at end of file
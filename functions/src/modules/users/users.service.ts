@@ -1,5 +1,6 @@
 import { getFirestore, Query } from 'firebase-admin/firestore';
 import { Timestamp } from 'firebase-admin/firestore';
+import type { NotificationEvent, NotificationEventPreference } from '../notifications/notifications.service';
 
 // const db = getFirestore(); // Initialized in calling functions
 
@@ -17,11 +18,13 @@ export interface User {
   avatar?: string;
   role: string;
   permissions: string[];
+  visibility?: string;
   timezone?: string;
   notifications?: {
     email: boolean;
     push: boolean;
     weekly: boolean;
+    events?: Partial<Record<NotificationEvent, NotificationEventPreference>>; // Defaults apply to events not listed
   };
   createdAt: Timestamp;
   lastLoginAt: Timestamp;
@@ -177,6 +180,28 @@ export class UsersService {
     } as User;
   }
 
+  async updateUserRole(userId: string, role: string, permissions: string[], visibility?: string): Promise<User> {
+    const userRef = this.db.collection('users').doc(userId);
+    const userDoc = await userRef.get();
+
+    if (!userDoc.exists) {
+      throw new Error('User not found');
+    }
+
+    await userRef.update({
+      role,
+      permissions,
+      ...(visibility && { visibility }),
+      updatedAt: Timestamp.now()
+    });
+
+    const updatedDoc = await userRef.get();
+    return {
+      id: updatedDoc.id,
+      ...updatedDoc.data()
+    } as User;
+  }
+
   async getUsersStats(): Promise<{
     totalUsers: number;
     activeUsers: number;
@@ -0,0 +1,466 @@
+import * as logger from 'firebase-functions/logger';
+import { DocumentData, DocumentSnapshot, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { updateWithRevision } from '../../shared/concurrency';
+import { SYSTEM_FIELDS, isSameValue } from '../../shared/record-history';
+import { isDeleted } from '../../shared/soft-delete';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  WORKFLOW_COLLECTIONS,
+  WORKFLOW_ENTITIES,
+  WorkflowAction,
+  WorkflowActionResult,
+  WorkflowCondition,
+  WorkflowEntity,
+  WorkflowExecution,
+  WorkflowRule,
+  WorkflowRuleInput,
+  WorkflowRulesService,
+  WorkflowTrigger
+} from './workflow-rules.service';
+import { DAY_MS, isoDay, readDate } from '../../shared/dates';
+
+// Recorded as the author of record changes and activities a rule makes
+export const WORKFLOW_USER = 'workflow';
+
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+// Lists an add_checklist_item action can target on each entity
+const ENTITY_LISTS: Record<WorkflowEntity, ('checklist' | 'blockers')[]> = {
+  opportunity: ['checklist', 'blockers'],
+  assignment: ['checklist'],
+  contact: [],
+  account: []
+};
+
+const ENTITY_RESOURCES: Record<WorkflowEntity, string> = {
+  opportunity: 'Opportunity',
+  assignment: 'Assignment',
+  contact: 'Contact',
+  account: 'Account'
+};
+
+const OPPORTUNITY_ACTIVITY_TYPES = ['Meeting', 'Email', 'Call', 'WhatsApp', 'Demo', 'Workshop'];
+
+// Arrays and history-tracked fields a set_field action may not overwrite. Stage moves go
+// through gates, approval and close-out in OpportunitiesService, so rules can't make them,
+// nor change the deal value and commercial model an approval was granted for.
+const PROTECTED_FIELDS = [
+  ...SYSTEM_FIELDS, 'ownerId', 'activities', 'checklist', 'blockers', 'progressLog', 'taskId',
+  'stage', 'closeOut', 'estimatedDealValue', 'commercialModel'
+];
+
+// A write waiting in workflow_queue for its rules to run
+interface QueuedWrite {
+  entity: WorkflowEntity;
+  recordId: string;
+  before: DocumentData | null;
+  after: DocumentData;
+  userId: string;
+  queuedAt: Timestamp;
+}
+
+export interface WorkflowTestResult {
+  recordFound: boolean;
+  trigger: { description: string; firesOn?: string }; // firesOn: UTC day a date trigger fires for this record
+  conditions: (WorkflowCondition & { actual: unknown; matched: boolean })[];
+  matched: boolean; // Every condition holds for the record as stored now
+  actions: string[]; // What each action would do
+}
+
+export const getFieldValue = (record: DocumentData | null | undefined, path: string): unknown =>
+  path.split('.').reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined), record);
+
+// Numbers compare as numbers and dates by time; anything else has no order
+const toOrderable = (value: unknown): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value.trim())) return Number(value);
+  return readDate(value)?.getTime() ?? null;
+};
+
+const valueEquals = (actual: unknown, expected: unknown): boolean => {
+  if (actual === undefined || actual === null || expected === undefined || expected === null) {
+    return (actual ?? null) === (expected ?? null);
+  }
+  if (typeof actual === 'number' || typeof expected === 'number') {
+    return toOrderable(actual) === toOrderable(expected);
+  }
+  return String(actual).toLowerCase() === String(expected).toLowerCase();
+};
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+export const matchesCondition = (condition: WorkflowCondition, record: DocumentData): boolean => {
+  const actual = getFieldValue(record, condition.field);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'equals':
+      return valueEquals(actual, expected);
+    case 'not_equals':
+      return !valueEquals(actual, expected);
+    case 'greater_than':
+    case 'less_than': {
+      const left = toOrderable(actual);
+      const right = toOrderable(expected);
+      if (left === null || right === null) return false;
+      return condition.operator === 'greater_than' ? left > right : left < right;
+    }
+    case 'contains':
+      if (Array.isArray(actual)) return actual.some(item => valueEquals(item, expected));
+      return typeof actual === 'string' && actual.toLowerCase().includes(String(expected ?? '').toLowerCase());
+    case 'in':
+      return Array.isArray(expected) && expected.some(item => valueEquals(actual, item));
+    case 'is_empty':
+      return isEmpty(actual);
+    case 'is_not_empty':
+      return !isEmpty(actual);
+  }
+};
+
+export const matchesConditions = (conditions: WorkflowCondition[], record: DocumentData): boolean =>
+  conditions.every(condition => matchesCondition(condition, record));
+
+/**
+ * Whether a write fires a created or field_changed trigger. Date triggers only fire from
+ * the daily run.
+ */
+export const matchesTrigger = (trigger: WorkflowTrigger, before: DocumentData | null, after: DocumentData): boolean => {
+  switch (trigger.type) {
+    case 'created':
+      return before === null;
+    case 'field_changed': {
+      if (before === null) return false;
+      const value = getFieldValue(after, trigger.field);
+      if (isSameValue(getFieldValue(before, trigger.field), value)) return false;
+      return trigger.to === undefined || valueEquals(value, trigger.to);
+    }
+    case 'date_reached':
+      return false;
+  }
+};
+
+/**
+ * Fill {{field}} placeholders from the record; unknown fields become empty
+ */
+export const interpolate = (template: string, record: DocumentData): string =>
+  template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+    const value = getFieldValue(record, path);
+    const date = typeof value === 'object' ? readDate(value) : null;
+    if (date) return isoDay(date);
+    return value === undefined || value === null ? '' : String(value);
+  });
+
+const describeTrigger = (trigger: WorkflowTrigger): string => {
+  switch (trigger.type) {
+    case 'created':
+      return 'When a record is created';
+    case 'field_changed':
+      return trigger.to === undefined ? `When ${trigger.field} changes` : `When ${trigger.field} changes to ${trigger.to}`;
+    case 'date_reached':
+      if (trigger.offsetDays === 0) return `On the day of ${trigger.field}`;
+      return `${Math.abs(trigger.offsetDays)} days ${trigger.offsetDays < 0 ? 'before' : 'after'} ${trigger.field}`;
+  }
+};
+
+const describeAction = (action: WorkflowAction, record: DocumentData, now: Date): string => {
+  const dueOn = (days: number) => isoDay(new Date(now.getTime() + days * DAY_MS));
+  switch (action.type) {
+    case 'add_checklist_item':
+      return `Add "${interpolate(action.text, record)}" to ${action.list}${action.dueInDays !== undefined ? `, due ${dueOn(action.dueInDays)}` : ''}`;
+    case 'create_activity':
+      return `Schedule ${action.activityType} "${interpolate(action.subject, record)}" on ${dueOn(action.dueInDays)} for ${action.assignTo || record.ownerId || 'the owner'}`;
+    case 'set_field':
+      return `Set ${action.field} to ${JSON.stringify(action.value)}`;
+    case 'notify_user':
+      return `Notify ${action.userId || record.ownerId || 'the owner'}: ${interpolate(action.title, record)}`;
+    case 'call_webhook':
+      return `POST the record to ${action.url}`;
+  }
+};
+
+const newItemId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+const activityMethod = (activityType: string) =>
+  activityType === 'Email' ? 'Email' : ['Call', 'WhatsApp'].includes(activityType) ? 'Phone' : 'In-person';
+
+export class WorkflowEngineService {
+  private db: Firestore;
+  private rules: WorkflowRulesService;
+
+  constructor(db: Firestore) {
+    this.db = db;
+    this.rules = new WorkflowRulesService(db);
+  }
+
+  /**
+   * Queue a write for its created and field_changed rules. Called by the entity services
+   * after their write commits; the rules run from the queue trigger, so slow actions such as
+   * webhooks never hold up the save. Problems are logged, never thrown, so a rule can't fail
+   * the write.
+   */
+  async onRecordWritten(entity: WorkflowEntity, recordId: string, before: DocumentData | null, after: DocumentData, userId: string): Promise<void> {
+    try {
+      const entry: QueuedWrite = { entity, recordId, before, after, userId, queuedAt: Timestamp.now() };
+      await this.db.collection('workflow_queue').add(entry);
+    } catch (error) {
+      logger.error('Queueing workflow rules failed', { entity, recordId, error: error instanceof Error ? error.message : error });
+    }
+  }
+
+  /**
+   * Run the rules of a queued write and take it off the queue. Changes made by rules don't
+   * fire further rules.
+   */
+  async runQueuedWrite(entry: DocumentSnapshot): Promise<void> {
+    const { entity, recordId, before, after, userId } = entry.data() as QueuedWrite;
+    try {
+      const rules = await this.rules.getActiveRules(entity, [before === null ? 'created' : 'field_changed']);
+      for (const rule of rules) {
+        if (matchesTrigger(rule.trigger, before, after) && matchesConditions(rule.conditions, after)) {
+          await this.execute(rule, recordId, { ...after, id: recordId }, userId);
+        }
+      }
+    } catch (error) {
+      logger.error('Workflow rules failed', { entity, recordId, error: error instanceof Error ? error.message : error });
+    }
+    await entry.ref.delete();
+  }
+
+  /**
+   * Daily run of date_reached rules. Days are UTC; each rule runs once per record and day.
+   */
+  async runDateTriggers(now: Date = new Date()): Promise<{ rules: number; executions: number; errors: string[] }> {
+    const today = isoDay(now);
+    let ruleCount = 0;
+    let executions = 0;
+    const errors: string[] = [];
+
+    for (const entity of WORKFLOW_ENTITIES) {
+      const rules = await this.rules.getActiveRules(entity, ['date_reached']);
+      if (rules.length === 0) continue;
+      ruleCount += rules.length;
+
+      const snapshot = await this.db.collection(WORKFLOW_COLLECTIONS[entity]).get();
+      const records = snapshot.docs.filter(doc => !isDeleted(doc.data()));
+
+      for (const rule of rules) {
+        const trigger = rule.trigger as Extract<WorkflowTrigger, { type: 'date_reached' }>;
+        for (const doc of records) {
+          const record = { ...doc.data(), id: doc.id };
+          const date = readDate(getFieldValue(record, trigger.field));
+          if (!date || isoDay(new Date(date.getTime() + trigger.offsetDays * DAY_MS)) !== today) continue;
+          if (!matchesConditions(rule.conditions, record)) continue;
+
+          try {
+            if (await this.execute(rule, doc.id, record, 'system', `${rule.id}_${doc.id}_${today}`)) {
+              executions++;
+            }
+          } catch (error) {
+            errors.push(`Rule ${rule.id} on ${entity} ${doc.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
+        }
+      }
+    }
+
+    return { rules: ruleCount, executions, errors };
+  }
+
+  /**
+   * Check a rule, saved or not, against a stored record without running its actions
+   */
+  async testRule(rule: WorkflowRuleInput, recordId: string, now: Date = new Date()): Promise<WorkflowTestResult> {
+    const doc = await this.db.collection(WORKFLOW_COLLECTIONS[rule.entity]).doc(recordId).get();
+    const trigger: WorkflowTestResult['trigger'] = { description: describeTrigger(rule.trigger) };
+
+    if (!doc.exists || isDeleted(doc.data())) {
+      return { recordFound: false, trigger, conditions: [], matched: false, actions: [] };
+    }
+
+    const record = { ...doc.data(), id: doc.id };
+    if (rule.trigger.type === 'date_reached') {
+      const date = readDate(getFieldValue(record, rule.trigger.field));
+      if (date) {
+        trigger.firesOn = isoDay(new Date(date.getTime() + rule.trigger.offsetDays * DAY_MS));
+      }
+    }
+
+    const conditions = rule.conditions.map(condition => ({
+      ...condition,
+      actual: getFieldValue(record, condition.field) ?? null,
+      matched: matchesCondition(condition, record)
+    }));
+
+    return {
+      recordFound: true,
+      trigger,
+      conditions,
+      matched: conditions.every(condition => condition.matched),
+      actions: rule.actions.map(action => describeAction(action, record, now))
+    };
+  }
+
+  /**
+   * Run a rule's actions and log the execution. With an execution id, a rule that already
+   * ran under that id is skipped and false is returned.
+   */
+  private async execute(rule: WorkflowRule, recordId: string, record: DocumentData, triggeredBy: string, executionId?: string): Promise<boolean> {
+    const executionRef = executionId
+      ? this.db.collection('workflow_executions').doc(executionId)
+      : this.db.collection('workflow_executions').doc();
+    if (executionId && (await executionRef.get()).exists) {
+      return false;
+    }
+
+    const results: WorkflowActionResult[] = [];
+    for (const action of rule.actions) {
+      try {
+        results.push({ type: action.type, status: 'succeeded', ...await this.runAction(action, rule, recordId, record, triggeredBy) });
+      } catch (error) {
+        results.push({ type: action.type, status: 'failed', detail: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    const failed = results.filter(result => result.status === 'failed').length;
+    const execution: Omit<WorkflowExecution, 'id'> = {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      entity: rule.entity,
+      recordId,
+      trigger: rule.trigger.type,
+      status: failed === 0 ? 'succeeded' : failed === results.length ? 'failed' : 'partial',
+      actions: results,
+      triggeredBy,
+      executedAt: Timestamp.now()
+    };
+    await executionRef.set(execution);
+
+    return true;
+  }
+
+  private async runAction(
+    action: WorkflowAction,
+    rule: WorkflowRule,
+    recordId: string,
+    record: DocumentData,
+    triggeredBy: string
+  ): Promise<Partial<WorkflowActionResult>> {
+    const now = Timestamp.now();
+    const entity = rule.entity;
+    const dueDate = (days: number) => new Date(now.toMillis() + days * DAY_MS);
+
+    switch (action.type) {
+      case 'add_checklist_item': {
+        if (!ENTITY_LISTS[entity].includes(action.list)) {
+          throw new Error(`${ENTITY_RESOURCES[entity]} records have no ${action.list}`);
+        }
+        const text = interpolate(action.text, record);
+        await this.updateRecord(entity, recordId, data => ({
+          [action.list]: [...(data[action.list] || []), {
+            id: newItemId('item'),
+            text,
+            completed: false,
+            ...(action.dueInDays !== undefined ? { dueDate: dueDate(action.dueInDays).toISOString() } : {}),
+            createdAt: now
+          }]
+        }));
+        return { detail: `Added "${text}"` };
+      }
+
+      case 'create_activity': {
+        if (entity !== 'opportunity' && entity !== 'assignment') {
+          throw new Error(`${ENTITY_RESOURCES[entity]} records have no activities`);
+        }
+        if (entity === 'opportunity' && !OPPORTUNITY_ACTIVITY_TYPES.includes(action.activityType)) {
+          throw new Error(`${action.activityType} is not an opportunity activity type`);
+        }
+        const assignedTo = action.assignTo || record.ownerId;
+        if (!assignedTo) {
+          throw new Error('The record has no owner to assign the activity to');
+        }
+        const subject = interpolate(action.subject, record);
+        await this.updateRecord(entity, recordId, data => ({
+          activities: [...(data.activities || []), {
+            id: newItemId('activity'),
+            activityType: action.activityType,
+            dateTime: Timestamp.fromDate(dueDate(action.dueInDays)),
+            relatedContactIds: [],
+            method: activityMethod(action.activityType),
+            subject,
+            notes: `Scheduled by workflow rule "${rule.name}"`,
+            assignedTo,
+            attachments: [],
+            followUpNeeded: false,
+            status: 'Scheduled',
+            priority: 'Medium',
+            createdAt: now,
+            createdBy: WORKFLOW_USER,
+            updatedAt: now,
+            updatedBy: WORKFLOW_USER
+          }]
+        }));
+        return { detail: `Scheduled "${subject}"` };
+      }
+
+      case 'set_field': {
+        if (action.field.includes('.') || PROTECTED_FIELDS.includes(action.field) || action.field.startsWith('deleted')) {
+          throw new Error(`${action.field} can't be set by a rule`);
+        }
+        if (isSameValue(record[action.field], action.value)) {
+          return { status: 'skipped', detail: `${action.field} is already ${JSON.stringify(action.value)}` };
+        }
+        await this.updateRecord(entity, recordId, () => ({ [action.field]: action.value }));
+        return { detail: `Set ${action.field} to ${JSON.stringify(action.value)}` };
+      }
+
+      case 'notify_user': {
+        const userId = action.userId || record.ownerId;
+        if (!userId) {
+          throw new Error('The record has no owner to notify');
+        }
+        const notification = await new NotificationsService(this.db).notify({
+          userId,
+          event: 'workflow_rule',
+          title: interpolate(action.title, record),
+          body: interpolate(action.body || `From workflow rule "${rule.name}"`, record),
+          link: entity === 'assignment' ? '/assignments' : `/${WORKFLOW_COLLECTIONS[entity]}/${recordId}`,
+          resourceType: entity,
+          resourceId: recordId,
+          actorId: triggeredBy === 'system' ? null : triggeredBy
+        });
+        return notification
+          ? { detail: `Notified ${userId}` }
+          : { status: 'skipped', detail: `${userId} has this notification switched off` };
+      }
+
+      case 'call_webhook': {
+        const response = await fetch(action.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            rule: { id: rule.id, name: rule.name },
+            entity,
+            recordId,
+            trigger: rule.trigger.type,
+            record,
+            triggeredAt: now.toDate().toISOString()
+          }),
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+        });
+        if (!response.ok) {
+          throw new Error(`Webhook responded ${response.status}`);
+        }
+        return { detail: `Webhook responded ${response.status}` };
+      }
+    }
+  }
+
+  // Rule changes are revisioned and show up in the record's history like any other edit
+  private async updateRecord(entity: WorkflowEntity, recordId: string, change: (data: DocumentData) => DocumentData): Promise<void> {
+    const ref = this.db.collection(WORKFLOW_COLLECTIONS[entity]).doc(recordId);
+    await updateWithRevision(this.db, ref, ENTITY_RESOURCES[entity], undefined, WORKFLOW_USER, data => ({
+      updates: change(data),
+      result: null
+    }), { action: 'workflow' });
+  }
+}
@@ -0,0 +1,184 @@
+import { Firestore, Query, Timestamp } from 'firebase-admin/firestore';
+import { AuditService } from '../../shared/audit.service';
+import { NotFoundError } from '../../shared/errors';
+
+export const WORKFLOW_ENTITIES = ['opportunity', 'assignment', 'contact', 'account'] as const;
+
+export type WorkflowEntity = typeof WORKFLOW_ENTITIES[number];
+
+export const WORKFLOW_COLLECTIONS: Record<WorkflowEntity, string> = {
+  opportunity: 'opportunities',
+  assignment: 'assignments',
+  contact: 'contacts',
+  account: 'accounts'
+};
+
+export type WorkflowValue = string | number | boolean | null;
+
+export type WorkflowTrigger =
+  | { type: 'created' }
+  | { type: 'field_changed'; field: string; to?: WorkflowValue } // Any change when `to` is not set
+  | { type: 'date_reached'; field: string; offsetDays: number }; // Negative offsets fire before the date
+
+export const CONDITION_OPERATORS = [
+  'equals',
+  'not_equals',
+  'greater_than',
+  'less_than',
+  'contains',
+  'in',
+  'is_empty',
+  'is_not_empty'
+] as const;
+
+export type ConditionOperator = typeof CONDITION_OPERATORS[number];
+
+export interface WorkflowCondition {
+  field: string; // Dot path into the record, e.g. stage or address.country
+  operator: ConditionOperator;
+  value?: WorkflowValue | WorkflowValue[]; // A list for `in`; unused by the emptiness checks
+}
+
+/**
+ * Text fields in actions may use {{field}} placeholders, filled from the record
+ */
+export type WorkflowAction =
+  | { type: 'add_checklist_item'; list: 'checklist' | 'blockers'; text: string; dueInDays?: number }
+  | { type: 'create_activity'; activityType: string; subject: string; dueInDays: number; assignTo?: string } // Record owner when assignTo is not set
+  | { type: 'set_field'; field: string; value: WorkflowValue }
+  | { type: 'notify_user'; userId?: string; title: string; body?: string } // Record owner when userId is not set
+  | { type: 'call_webhook'; url: string };
+
+export interface WorkflowRule {
+  id: string;
+  name: string;
+  description?: string;
+  entity: WorkflowEntity;
+  trigger: WorkflowTrigger;
+  conditions: WorkflowCondition[]; // All must match
+  actions: WorkflowAction[]; // Run in order; a failed action doesn't stop the rest
+  enabled: boolean;
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedBy: string;
+  updatedAt: Timestamp;
+}
+
+export type WorkflowRuleInput = Pick<WorkflowRule, 'name' | 'description' | 'entity' | 'trigger' | 'conditions' | 'actions' | 'enabled'>;
+
+export interface WorkflowActionResult {
+  type: WorkflowAction['type'];
+  status: 'succeeded' | 'failed' | 'skipped';
+  detail?: string;
+}
+
+/**
+ * One run of a rule against one record, written whenever the trigger and conditions matched
+ */
+export interface WorkflowExecution {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  entity: WorkflowEntity;
+  recordId: string;
+  trigger: WorkflowTrigger['type'];
+  status: 'succeeded' | 'partial' | 'failed';
+  actions: WorkflowActionResult[];
+  triggeredBy: string; // User whose write fired the rule; 'system' for date triggers
+  executedAt: Timestamp;
+}
+
+export class WorkflowRulesService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  async getRules(): Promise<WorkflowRule[]> {
+    const snapshot = await this.db.collection('workflow_rules').orderBy('name').get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as WorkflowRule));
+  }
+
+  async getRule(ruleId: string): Promise<WorkflowRule> {
+    const doc = await this.db.collection('workflow_rules').doc(ruleId).get();
+    if (!doc.exists) {
+      throw new NotFoundError('Workflow rule', ruleId);
+    }
+    return { id: doc.id, ...doc.data() } as WorkflowRule;
+  }
+
+  /**
+   * Enabled rules for an entity, optionally only those with the given trigger types
+   */
+  async getActiveRules(entity: WorkflowEntity, triggerTypes?: WorkflowTrigger['type'][]): Promise<WorkflowRule[]> {
+    const snapshot = await this.db.collection('workflow_rules')
+      .where('entity', '==', entity)
+      .where('enabled', '==', true)
+      .get();
+
+    return snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as WorkflowRule))
+      .filter(rule => !triggerTypes || triggerTypes.includes(rule.trigger.type));
+  }
+
+  /**
+   * Create a rule, or replace it when an id is given
+   */
+  async saveRule(ruleId: string | undefined, data: WorkflowRuleInput, userId: string, userEmail: string): Promise<WorkflowRule> {
+    const now = Timestamp.now();
+    const fields = {
+      ...data,
+      description: data.description || '',
+      updatedBy: userId,
+      updatedAt: now
+    };
+
+    const docRef = ruleId ? this.db.collection('workflow_rules').doc(ruleId) : this.db.collection('workflow_rules').doc();
+    if (ruleId) {
+      await this.getRule(ruleId);
+      await docRef.update(fields);
+    } else {
+      await docRef.set({ ...fields, createdBy: userId, createdAt: now });
+    }
+
+    await AuditService.log({
+      action: ruleId ? 'update' : 'create',
+      userId,
+      userEmail,
+      resourceType: 'workflow_rule',
+      resourceId: docRef.id,
+      data: { name: data.name, entity: data.entity, trigger: data.trigger.type, enabled: data.enabled }
+    });
+
+    return this.getRule(docRef.id);
+  }
+
+  /**
+   * Delete a rule. Its execution log is kept.
+   */
+  async deleteRule(ruleId: string, userId: string, userEmail: string): Promise<void> {
+    const rule = await this.getRule(ruleId);
+    await this.db.collection('workflow_rules').doc(ruleId).delete();
+
+    await AuditService.log({
+      action: 'delete',
+      userId,
+      userEmail,
+      resourceType: 'workflow_rule',
+      resourceId: ruleId,
+      data: { name: rule.name }
+    });
+  }
+
+  /**
+   * Latest executions, newest first, for one rule or all of them
+   */
+  async getExecutions(ruleId: string | undefined, limit: number): Promise<WorkflowExecution[]> {
+    const executions = this.db.collection('workflow_executions');
+    const query: Query = ruleId ? executions.where('ruleId', '==', ruleId) : executions;
+
+    const snapshot = await query.orderBy('executedAt', 'desc').limit(limit).get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as WorkflowExecution));
+  }
+}
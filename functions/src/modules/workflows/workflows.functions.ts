@@ -0,0 +1,206 @@
+import { onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { onDocumentCreated } from 'firebase-functions/v2/firestore';
+import { getFirestore } from 'firebase-admin/firestore';
+import { authenticateUser, requirePermission } from '../../shared/auth.middleware';
+import { validateData, commonSchemas } from '../../shared/validation.middleware';
+import { withErrorHandling } from '../../shared/errors';
+import { RateLimiter, RateLimitPresets } from '../../shared/rateLimiter';
+import { CONDITION_OPERATORS, WORKFLOW_ENTITIES, WorkflowRulesService } from './workflow-rules.service';
+import { WorkflowEngineService } from './workflow-engine.service';
+import { z } from 'zod';
+
+const fieldPathSchema = z.string().trim().regex(/^[A-Za-z_][\w]*(\.[A-Za-z_][\w]*)*$/, 'Expected a field name such as stage or address.country');
+const valueSchema = z.union([z.string().max(500), z.number(), z.boolean(), z.null()]);
+const templateSchema = z.string().trim().min(1).max(500);
+
+const triggerSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('created') }),
+  z.object({ type: z.literal('field_changed'), field: fieldPathSchema, to: valueSchema.optional() }),
+  z.object({ type: z.literal('date_reached'), field: fieldPathSchema, offsetDays: z.number().int().min(-365).max(365) })
+]);
+
+const conditionSchema = z.object({
+  field: fieldPathSchema,
+  operator: z.enum(CONDITION_OPERATORS),
+  value: z.union([valueSchema, z.array(valueSchema).max(50)]).optional()
+});
+
+const actionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('add_checklist_item'),
+    list: z.enum(['checklist', 'blockers']),
+    text: templateSchema,
+    dueInDays: z.number().int().min(0).max(365).optional()
+  }),
+  z.object({
+    type: z.literal('create_activity'),
+    activityType: z.enum(['Meeting', 'Email', 'Call', 'WhatsApp', 'Demo', 'Workshop', 'Review', 'Update']),
+    subject: templateSchema,
+    dueInDays: z.number().int().min(0).max(365),
+    assignTo: commonSchemas.id.optional()
+  }),
+  z.object({ type: z.literal('set_field'), field: fieldPathSchema, value: valueSchema }),
+  z.object({
+    type: z.literal('notify_user'),
+    userId: commonSchemas.id.optional(),
+    title: templateSchema,
+    body: z.string().trim().max(1000).optional()
+  }),
+  z.object({ type: z.literal('call_webhook'), url: z.string().url().startsWith('https://', 'Webhooks must use https') })
+]);
+
+const ruleSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  entity: z.enum(WORKFLOW_ENTITIES),
+  trigger: triggerSchema,
+  conditions: z.array(conditionSchema).max(20).default([]),
+  actions: z.array(actionSchema).min(1).max(10),
+  enabled: z.boolean().default(true)
+});
+
+const saveRuleSchema = ruleSchema.extend({ id: commonSchemas.id.optional() });
+
+const testRuleSchema = z.object({
+  rule: ruleSchema,
+  recordId: commonSchemas.id
+});
+
+const getExecutionsSchema = z.object({
+  ruleId: commonSchemas.id.optional(),
+  limit: z.number().int().min(1).max(200).default(50)
+});
+
+const getRulesService = () => new WorkflowRulesService(getFirestore());
+
+/**
+ * List workflow rules
+ */
+export const getWorkflowRules = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'workflows:manage');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getWorkflowRules');
+
+    return { rules: await getRulesService().getRules() };
+  }, { functionName: 'getWorkflowRules', action: 'WORKFLOW_RULES_LIST' })
+);
+
+/**
+ * Create a rule, or replace it when an id is given
+ */
+export const saveWorkflowRule = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'workflows:manage');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'saveWorkflowRule');
+
+    const { id, ...data } = validateData(saveRuleSchema, request.data);
+
+    return await getRulesService().saveRule(id, data, user.uid, user.email);
+  }, { functionName: 'saveWorkflowRule', action: 'WORKFLOW_RULE_SAVE' })
+);
+
+export const deleteWorkflowRule = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'workflows:manage');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.write.maxRequests, RateLimitPresets.write.windowMs, 'deleteWorkflowRule');
+
+    const { id } = validateData(z.object({ id: commonSchemas.id }), request.data);
+
+    await getRulesService().deleteRule(id, user.uid, user.email);
+
+    return { success: true, message: 'Workflow rule deleted successfully' };
+  }, { functionName: 'deleteWorkflowRule', action: 'WORKFLOW_RULE_DELETE' })
+);
+
+/**
+ * Dry run: check a rule against a stored record and describe what its actions would do
+ */
+export const testWorkflowRule = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'workflows:manage');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'testWorkflowRule');
+
+    const { rule, recordId } = validateData(testRuleSchema, request.data);
+
+    return await new WorkflowEngineService(getFirestore()).testRule(rule, recordId);
+  }, { functionName: 'testWorkflowRule', action: 'WORKFLOW_RULE_TEST' })
+);
+
+/**
+ * Execution log, newest first
+ */
+export const getWorkflowExecutions = onCall(
+  {
+    region: 'us-central1',
+    cors: ['http://localhost:5173', 'https://localhost:5173', 'https://iol-partner-solutions.web.app'],
+    maxInstances: 10
+  },
+  withErrorHandling(async (request) => {
+    const user = await authenticateUser(request.auth);
+    requirePermission(user, 'workflows:manage');
+
+    await RateLimiter.checkLimit(user.uid, RateLimitPresets.read.maxRequests, RateLimitPresets.read.windowMs, 'getWorkflowExecutions');
+
+    const { ruleId, limit } = validateData(getExecutionsSchema, request.data || {});
+
+    return { executions: await getRulesService().getExecutions(ruleId, limit) };
+  }, { functionName: 'getWorkflowExecutions', action: 'WORKFLOW_EXECUTIONS_LIST' })
+);
+
+export const runWorkflowDateTriggers = onSchedule({
+  schedule: '0 5 * * *', // Every day at 05:00 UTC
+  timeZone: 'UTC',
+  region: 'us-central1',
+  memory: '512MiB',
+  timeoutSeconds: 540,
+}, async () => {
+  const startTime = Date.now();
+  const { rules, executions, errors } = await new WorkflowEngineService(getFirestore()).runDateTriggers();
+
+  console.log(`Workflow date triggers: ${executions} executions from ${rules} rules, ${errors.length} failed in ${Date.now() - startTime}ms`);
+  errors.forEach(error => console.error(error));
+});
+
+/**
+ * Run the created and field_changed rules of a queued write, after the save that queued it
+ */
+export const runQueuedWorkflowRules = onDocumentCreated({
+  document: 'workflow_queue/{entryId}',
+  region: 'us-central1',
+  timeoutSeconds: 120,
+}, async (event) => {
+  if (!event.data) {
+    return;
+  }
+
+  await new WorkflowEngineService(getFirestore()).runQueuedWrite(event.data);
+});
@@ -0,0 +1,85 @@
+import * as logger from 'firebase-functions/logger';
+import { getFirestore } from 'firebase-admin/firestore';
+import { aiLogPrompts, aiProvider, getAIModelSettings } from './config';
+import { AIGenerateRequest, AIGenerateResult, AIProvider } from './types';
+import { OpenAIProvider } from './openai.provider';
+import { GoogleAIProvider } from './google.provider';
+import { StubAIProvider } from './stub.provider';
+import { AIUsageService } from './usage.service';
+
+const providers = new Map<string, () => AIProvider>([
+  ['openai', () => new OpenAIProvider()],
+  ['google', () => new GoogleAIProvider()],
+  ['stub', () => new StubAIProvider()]
+]);
+
+export class AIService {
+  static registerProvider(name: string, factory: () => AIProvider): void {
+    providers.set(name, factory);
+  }
+
+  /**
+   * The provider configured for this environment, or a named one
+   */
+  static getProvider(name: string = aiProvider.value()): AIProvider {
+    const factory = providers.get(name);
+    if (!factory) {
+      throw new Error(`Unknown AI provider "${name}". Registered providers: ${Array.from(providers.keys()).join(', ')}`);
+    }
+    return factory();
+  }
+
+  /**
+   * Generate text and record the call's tokens and cost. Manual calls are refused once a
+   * budget is used up; scheduled jobs check the budget themselves and decide what to skip.
+   */
+  static async generate(request: AIGenerateRequest): Promise<AIGenerateResult> {
+    const usageService = new AIUsageService(getFirestore());
+    if (request.context.trigger === 'manual') {
+      await usageService.assertWithinBudget();
+    }
+
+    const provider = this.getProvider();
+    const settings = getAIModelSettings(provider);
+
+    // Prompts carry customer data: log their shape, and the text only when opted in
+    logger.info('AI generation request', {
+      task: request.task,
+      provider: provider.name,
+      model: settings.model,
+      trigger: request.context.trigger,
+      promptLength: request.prompt.length,
+      promptLines: request.prompt.split('\n').length
+    });
+    if (aiLogPrompts.value()) {
+      logger.debug('AI prompt', { task: request.task, prompt: request.prompt });
+    }
+
+    const result = await provider.generate(request, settings);
+
+    logger.info('AI generation completed', {
+      task: request.task,
+      provider: result.provider,
+      model: result.model,
+      outputLength: result.text.length,
+      usage: result.usage
+    });
+
+    // A failed write must not throw away text that has already been paid for
+    try {
+      await usageService.recordUsage({
+        task: request.task,
+        provider: result.provider,
+        model: result.model,
+        usage: result.usage,
+        prompt: request.prompt,
+        text: result.text,
+        context: request.context
+      });
+    } catch (error) {
+      logger.error('Failed to record AI usage', { task: request.task, error: error instanceof Error ? error.message : error });
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,29 @@
+import { defineBoolean, defineInt, defineSecret, defineString } from 'firebase-functions/params';
+import { AIModelSettings, AIProvider } from './types';
+
+// Provider API keys; functions that generate text must list AI_SECRETS in their options
+export const googleAiApiKey = defineSecret('GOOGLE_AI_API_KEY');
+export const openaiApiKey = defineSecret('OPENAI_API_KEY');
+export const AI_SECRETS = [googleAiApiKey, openaiApiKey];
+
+// Set per environment in functions/.env.<project> - use "stub" in the emulator to work offline
+export const aiProvider = defineString('AI_PROVIDER', { default: 'openai' });
+
+// Empty means the provider's default model
+const aiModel = defineString('AI_MODEL', { default: '' });
+// Params have no float type, so the temperature is read as a string
+const aiTemperature = defineString('AI_TEMPERATURE', { default: '0.7' });
+const aiMaxTokens = defineInt('AI_MAX_TOKENS', { default: 1000 });
+
+// Full prompts contain customer data; they are only logged when this is switched on
+export const aiLogPrompts = defineBoolean('AI_LOG_PROMPTS', { default: false });
+
+export const getAIModelSettings = (provider: AIProvider): AIModelSettings => {
+  const temperature = parseFloat(aiTemperature.value());
+
+  return {
+    model: aiModel.value() || provider.defaultModel,
+    temperature: Number.isFinite(temperature) ? temperature : 0.7,
+    maxTokens: aiMaxTokens.value()
+  };
+};
@@ -0,0 +1,42 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { googleAiApiKey } from './config';
+import { AIGenerateRequest, AIGenerateResult, AIModelSettings, AIProvider } from './types';
+
+export class GoogleAIProvider implements AIProvider {
+  readonly name = 'google';
+  readonly defaultModel = 'gemini-1.5-flash';
+
+  async generate(request: AIGenerateRequest, settings: AIModelSettings): Promise<AIGenerateResult> {
+    const apiKey = googleAiApiKey.value();
+    if (!apiKey) {
+      throw new Error('Google AI API key not configured. Please set the GOOGLE_AI_API_KEY secret.');
+    }
+
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const model = genAI.getGenerativeModel({
+      model: settings.model,
+      generationConfig: {
+        temperature: settings.temperature,
+        maxOutputTokens: settings.maxTokens
+      }
+    });
+
+    try {
+      const result = await model.generateContent(request.prompt);
+      const response = result.response;
+      const usage = response.usageMetadata;
+
+      return {
+        text: response.text().trim(),
+        provider: this.name,
+        model: settings.model,
+        usage: usage && {
+          inputTokens: usage.promptTokenCount,
+          outputTokens: usage.candidatesTokenCount
+        }
+      };
+    } catch (error) {
+      throw new Error(`Google AI API failed: ${error instanceof Error ? error.message : 'Unknown API error'}`);
+    }
+  }
+}
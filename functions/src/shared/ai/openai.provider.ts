@@ -0,0 +1,43 @@
+import OpenAI from 'openai';
+import { openaiApiKey } from './config';
+import { AIGenerateRequest, AIGenerateResult, AIModelSettings, AIProvider } from './types';
+
+export class OpenAIProvider implements AIProvider {
+  readonly name = 'openai';
+  readonly defaultModel = 'gpt-4o';
+
+  async generate(request: AIGenerateRequest, settings: AIModelSettings): Promise<AIGenerateResult> {
+    const apiKey = openaiApiKey.value();
+    if (!apiKey) {
+      throw new Error('OpenAI API key not configured. Please set the OPENAI_API_KEY secret.');
+    }
+
+    const openai = new OpenAI({ apiKey });
+
+    try {
+      const completion = await openai.chat.completions.create({
+        model: settings.model,
+        messages: [
+          {
+            role: 'user',
+            content: request.prompt
+          }
+        ],
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature
+      });
+
+      return {
+        text: completion.choices[0]?.message?.content?.trim() || '',
+        provider: this.name,
+        model: settings.model,
+        usage: completion.usage && {
+          inputTokens: completion.usage.prompt_tokens,
+          outputTokens: completion.usage.completion_tokens
+        }
+      };
+    } catch (error) {
+      throw new Error(`OpenAI API failed: ${error instanceof Error ? error.message : 'Unknown API error'}`);
+    }
+  }
+}
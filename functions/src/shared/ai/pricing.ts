@@ -0,0 +1,37 @@
+import { AIUsage } from './types';
+
+interface ModelPrice {
+  input: number; // USD per million prompt tokens
+  output: number; // USD per million completion tokens
+}
+
+// List prices; update alongside AI_MODEL changes. Longest matching prefix wins, so dated model versions are covered.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'stub': { input: 0, output: 0 }
+};
+
+// Unknown models are charged at the most expensive listed price, so they can't slip past a budget
+const FALLBACK_PRICE: ModelPrice = Object.values(MODEL_PRICES)
+  .reduce((max, price) => price.output > max.output ? price : max);
+
+const priceFor = (model: string): ModelPrice => {
+  const match = Object.keys(MODEL_PRICES)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICES[match] : FALLBACK_PRICE;
+};
+
+/**
+ * Estimated cost of one call in USD
+ */
+export const estimateCost = (model: string, usage: AIUsage): number => {
+  const price = priceFor(model);
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+};
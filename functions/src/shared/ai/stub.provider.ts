@@ -0,0 +1,185 @@
+import { AIGenerateRequest, AIGenerateResult, AIModelSettings, AIProvider } from './types';
+import { isoDay } from '../dates';
+
+type StubResponder = (prompt: string) => string;
+
+// Rough token count so usage and cost tracking have something to work with offline
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const lineValue = (prompt: string, label: string): string | undefined => {
+  const line = prompt.split('\n').find(value => value.startsWith(`${label}:`));
+  return line?.slice(label.length + 1).trim();
+};
+
+const summarizeOpportunity: StubResponder = prompt => {
+  const title = lineValue(prompt, 'Title') || 'This opportunity';
+  // Activity lines are "- <date>: <type> - <description> (<status>)", newest first
+  const activities = prompt.split('\n').filter(line => /^- [^:]+: /.test(line));
+
+  if (activities.length === 0) {
+    return `${title} has no recorded activity in the last 30 days. It remains under discussion with no new milestones.`;
+  }
+
+  const [, date, detail] = activities[0].match(/^- ([^:]+): (.*)$/) || [];
+  const plural = activities.length === 1 ? 'activity' : 'activities';
+  return `${title} has ${activities.length} recorded ${plural} in the last 30 days, most recently ${detail} on ${date}. ` +
+    'Its current standing reflects these discussions; no agreements are recorded.';
+};
+
+const addDays = (day: string, days: number): string => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return isoDay(date);
+};
+
+const ACTIVITY_KEYWORDS: Array<[RegExp, string]> = [
+  [/\bdemo\b/i, 'Demo'],
+  [/\bworkshop\b/i, 'Workshop'],
+  [/\bcall\b/i, 'Call'],
+  [/\be-?mail\b/i, 'Email'],
+  [/\bwhatsapp\b/i, 'WhatsApp']
+];
+
+// Keyword rules: blockers first, then scheduled follow-ups, then anything someone has to do
+const extractActions: StubResponder = prompt => {
+  const today = lineValue(prompt, "Today's date") || isoDay(new Date());
+  const [, contactSection = '', notesSection = ''] = prompt.match(/CONTACTS:\n([\s\S]*?)\n\nMEETING NOTES:\n([\s\S]*)$/) || [];
+  const contactNames = contactSection.split('\n')
+    .map(line => line.match(/^- (.+?)(?: \(| <)/)?.[1])
+    .filter((name): name is string => !!name);
+
+  const dateIn = (text: string): string | null => {
+    const explicit = text.match(/\b\d{4}-\d{2}-\d{2}\b/);
+    if (explicit) return explicit[0];
+    if (/\btomorrow\b/i.test(text)) return addDays(today, 1);
+    if (/\bnext week\b/i.test(text)) return addDays(today, 7);
+    return null;
+  };
+  const contactsIn = (text: string) => {
+    const words = text.toLowerCase().split(/[^a-z0-9']+/);
+    return contactNames.filter(name =>
+      text.toLowerCase().includes(name.toLowerCase()) || words.includes(name.split(' ')[0].toLowerCase())
+    );
+  };
+
+  const result = { activities: [] as object[], checklist: [] as object[], blockers: [] as object[], contacts: [] as string[] };
+  const lines = notesSection.split(/\n|(?<=\.)\s+/).map(line => line.replace(/^[-*•\d.)\s]+/, '').trim()).filter(Boolean);
+
+  lines.forEach(line => {
+    result.contacts.push(...contactsIn(line));
+    if (/\b(block(ed|er|ing)?|waiting (on|for)|concern(ed)?|objection|risk|no budget|pending approval)\b/i.test(line)) {
+      result.blockers.push({ text: line, dueDate: dateIn(line) });
+    } else if (/\b(follow[- ]?up|schedule|set up|book|meet again)\b/i.test(line)) {
+      const activityType = ACTIVITY_KEYWORDS.find(([pattern]) => pattern.test(line))?.[1] || 'Meeting';
+      result.activities.push({ subject: line, activityType, date: dateIn(line), notes: '', contacts: contactsIn(line) });
+    } else if (/\b(todo|to do|action|need(s)? to|will|send|prepare|share|review)\b/i.test(line)) {
+      result.checklist.push({ text: line, dueDate: dateIn(line) });
+    }
+  });
+
+  result.contacts = Array.from(new Set(result.contacts));
+  return JSON.stringify(result);
+};
+
+// Bullets under a prompt heading such as "AT RISK:", split on " | "
+const sectionRows = (prompt: string, heading: string): string[][] => {
+  const [, body = ''] = prompt.match(new RegExp(`\\n${heading}:\\n([\\s\\S]*?)(?:\\n\\n|$)`)) || [];
+  return body.split('\n')
+    .filter(line => line.startsWith('- ') && line !== '- none')
+    .map(line => line.slice(2).split(' | '));
+};
+
+const writeWeeklyNarrative: StubResponder = prompt => {
+  const bullets = (rows: string[]) => rows.length > 0 ? rows.map(row => `- ${row}`).join('\n') : '- Nothing to report';
+
+  const wins = sectionRows(prompt, 'WINS').map(([first, account, , detail]) =>
+    /^\d{4}-\d{2}-\d{2}$/.test(first) ? `${account}: ${detail}` : `${first} (${account}) moved to Closed-Won`
+  );
+  const atRisk = sectionRows(prompt, 'AT RISK').map(([title, account, stage, , reasons]) =>
+    `${title} (${account}, ${stage}): ${reasons}`
+  );
+  const nextWeek = sectionRows(prompt, 'NEXT WEEK').map(([date, account, , detail]) => `${date} ${account}: ${detail}`);
+
+  const accounts = new Map<string, number>();
+  sectionRows(prompt, 'THIS WEEK').forEach(([, account]) => accounts.set(account, (accounts.get(account) || 0) + 1));
+  const highlights = Array.from(accounts.entries()).map(([account, count]) =>
+    `${account}: ${count} ${count === 1 ? 'activity' : 'activities'} this week`
+  );
+
+  return [
+    `Key wins\n${bullets(wins)}`,
+    `Deals at risk\n${bullets(atRisk)}`,
+    `Next week focus\n${bullets(nextWeek)}`,
+    `Account highlights\n${bullets(highlights)}`
+  ].join('\n\n');
+};
+
+const writeAccountBrief: StubResponder = prompt => {
+  const account = lineValue(prompt, 'Account') || 'This account';
+  const exposure = new Map(sectionRows(prompt, 'EXPOSURE').map(([line]) => {
+    const [label, value] = line.split(': ');
+    return [label, value] as [string, string];
+  }));
+  const blockers = sectionRows(prompt, 'OPEN BLOCKERS').map(([title, text]) => `${title}: ${text}`);
+  const decisionMakers = sectionRows(prompt, 'CONTACTS').filter(row => row.includes('decision maker')).map(([name]) => name);
+  const [lastActivity] = sectionRows(prompt, 'RECENT ACTIVITIES');
+  const daysSince = Array.from(exposure.entries()).find(([label]) => label.startsWith('Days since'))?.[1];
+  const recent = Array.from(exposure.entries()).find(([label]) => label.startsWith('Activities in the last'));
+
+  const health = [
+    recent ? `${recent[1]} ${recent[0].toLowerCase()}` : 'No recent activity recorded',
+    daysSince === 'never' ? 'No completed activity on record' : `Last completed activity ${daysSince} days ago`,
+    decisionMakers.length > 0 ? `Decision makers engaged: ${decisionMakers.join(', ')}` : 'No decision maker on record',
+    ...blockers.map(blocker => `Blocker on ${blocker}`)
+  ];
+  const commercial = [
+    `Open pipeline of ${exposure.get('Open pipeline value') || '$0'} across ${exposure.get('Open opportunities') || '0'} opportunities`,
+    `Closed won value ${exposure.get('Closed won value') || '$0'}`
+  ];
+  const nextSteps = [
+    ...(blockers.length > 0 ? [`Resolve the ${blockers.length} open blocker(s)`] : []),
+    ...(decisionMakers.length === 0 ? ['Identify a decision maker'] : []),
+    lastActivity ? `Follow up on ${lastActivity[1]} (last activity ${lastActivity[0]})` : `Schedule a review with ${account}`
+  ];
+
+  const bullets = (rows: string[]) => rows.map(row => `- ${row}`).join('\n');
+  return [
+    `Relationship health\n${bullets(health)}`,
+    `Commercial exposure\n${bullets(commercial)}`,
+    `Recommended next steps\n${bullets(nextSteps)}`
+  ].join('\n\n');
+};
+
+const RESPONDERS: Record<string, StubResponder> = {
+  'opportunity-summary': summarizeOpportunity,
+  'action-extraction': extractActions,
+  'weekly-narrative': writeWeeklyNarrative,
+  'account-brief': writeAccountBrief
+};
+
+/**
+ * Offline, rule-based provider for the emulator and tests: no network, no API key,
+ * and the same prompt always gives the same text
+ */
+export class StubAIProvider implements AIProvider {
+  readonly name = 'stub';
+  readonly defaultModel = 'stub-rules-v1';
+
+  async generate(request: AIGenerateRequest, settings: AIModelSettings): Promise<AIGenerateResult> {
+    const responder = RESPONDERS[request.task];
+    const firstLine = request.prompt.split('\n').find(line => line.trim()) || '';
+    const text = responder
+      ? responder(request.prompt)
+      : `Stub response for ${request.task}: ${firstLine.slice(0, 200)}`;
+
+    return {
+      text,
+      provider: this.name,
+      model: settings.model,
+      usage: {
+        inputTokens: estimateTokens(request.prompt),
+        outputTokens: estimateTokens(text)
+      }
+    };
+  }
+}
@@ -0,0 +1,43 @@
+export type AITrigger = 'manual' | 'nightly';
+
+/**
+ * Who asked for a generation and how; recorded with its token usage and cost
+ */
+export interface AICallContext {
+  trigger: AITrigger;
+  userId: string; // 'system' for scheduled runs
+}
+
+export interface AIGenerateRequest {
+  task: string; // What the text is for, e.g. 'opportunity-summary' - the offline stub answers per task
+  prompt: string;
+  context: AICallContext;
+}
+
+export interface AIModelSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIGenerateResult {
+  text: string;
+  provider: string;
+  model: string;
+  usage?: AIUsage;
+}
+
+/**
+ * A text generation backend. Implementations are registered with AIService by name
+ * and picked per environment through the AI_PROVIDER param.
+ */
+export interface AIProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  generate(request: AIGenerateRequest, settings: AIModelSettings): Promise<AIGenerateResult>;
+}
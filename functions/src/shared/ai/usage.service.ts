@@ -0,0 +1,245 @@
+import { FieldValue, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { AuditService } from '../audit.service';
+import { BusinessLogicError } from '../errors';
+import { estimateCost } from './pricing';
+import { AICallContext, AITrigger, AIUsage } from './types';
+import { isoDay } from '../dates';
+
+/**
+ * One recorded AI call
+ */
+export interface AIUsageEntry {
+  id: string;
+  task: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  usageEstimated: boolean; // The provider reported no usage, so tokens were estimated from text length
+  trigger: AITrigger;
+  userId: string; // 'system' for scheduled runs
+  day: string; // yyyy-MM-dd, UTC
+  createdAt: Timestamp;
+}
+
+/**
+ * Running totals for one UTC day or month, kept next to the entries so budget checks are two reads
+ */
+export interface AIUsageTotals {
+  period: string; // yyyy-MM-dd or yyyy-MM
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  byTrigger: Partial<Record<AITrigger, number>>; // Cost per trigger
+  byTask: Record<string, number>; // Cost per task
+}
+
+/**
+ * Spend limits in USD; null means no limit
+ */
+export interface AIBudget {
+  dailyLimitUsd: number | null;
+  monthlyLimitUsd: number | null;
+  updatedBy?: string;
+  updatedAt?: Timestamp;
+}
+
+export interface AIBudgetStatus {
+  budget: AIBudget;
+  daySpendUsd: number;
+  monthSpendUsd: number;
+  exceeded: 'daily' | 'monthly' | null;
+}
+
+export interface AIUsageReport {
+  status: AIBudgetStatus;
+  days: AIUsageTotals[]; // Oldest first, including days with no calls
+  months: AIUsageTotals[]; // Oldest first, including months with no calls
+  recentCalls: AIUsageEntry[];
+}
+
+const NO_BUDGET: AIBudget = { dailyLimitUsd: null, monthlyLimitUsd: null };
+
+const monthKey = (date: Date) => date.toISOString().slice(0, 7);
+
+const emptyTotals = (period: string): AIUsageTotals => ({
+  period,
+  calls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  costUsd: 0,
+  byTrigger: {},
+  byTask: {}
+});
+
+// Rough token count for providers that don't report usage
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export class AIUsageService {
+  private db: Firestore;
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  /**
+   * Store the call and add it to its day's and month's totals in one batch
+   */
+  async recordUsage(params: {
+    task: string;
+    provider: string;
+    model: string;
+    usage?: AIUsage;
+    prompt: string;
+    text: string;
+    context: AICallContext;
+  }): Promise<AIUsageEntry> {
+    const now = new Date();
+    const usage = params.usage || { inputTokens: estimateTokens(params.prompt), outputTokens: estimateTokens(params.text) };
+    const costUsd = estimateCost(params.model, usage);
+
+    const entry: Omit<AIUsageEntry, 'id'> = {
+      task: params.task,
+      provider: params.provider,
+      model: params.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      costUsd,
+      usageEstimated: !params.usage,
+      trigger: params.context.trigger,
+      userId: params.context.userId,
+      day: isoDay(now),
+      createdAt: Timestamp.fromDate(now)
+    };
+
+    const increments = {
+      calls: FieldValue.increment(1),
+      inputTokens: FieldValue.increment(usage.inputTokens),
+      outputTokens: FieldValue.increment(usage.outputTokens),
+      costUsd: FieldValue.increment(costUsd),
+      byTrigger: { [entry.trigger]: FieldValue.increment(costUsd) },
+      byTask: { [entry.task]: FieldValue.increment(costUsd) }
+    };
+
+    const entryRef = this.db.collection('ai_usage').doc();
+    const batch = this.db.batch();
+    batch.set(entryRef, entry);
+    batch.set(this.totalsRef(entry.day), { period: entry.day, ...increments }, { merge: true });
+    batch.set(this.totalsRef(monthKey(now)), { period: monthKey(now), ...increments }, { merge: true });
+    await batch.commit();
+
+    return { id: entryRef.id, ...entry };
+  }
+
+  async getBudget(): Promise<AIBudget> {
+    const doc = await this.budgetRef().get();
+    return doc.exists ? { ...NO_BUDGET, ...doc.data() } as AIBudget : NO_BUDGET;
+  }
+
+  async saveBudget(
+    budget: { dailyLimitUsd: number | null; monthlyLimitUsd: number | null },
+    userId: string,
+    userEmail?: string
+  ): Promise<AIBudget> {
+    const previous = await this.getBudget();
+    const updated: AIBudget = { ...budget, updatedBy: userId, updatedAt: Timestamp.now() };
+    await this.budgetRef().set(updated);
+
+    await AuditService.log({
+      action: 'update_ai_budget',
+      userId,
+      userEmail,
+      resourceType: 'ai_budget',
+      resourceId: 'budget',
+      data: {
+        previous: { dailyLimitUsd: previous.dailyLimitUsd, monthlyLimitUsd: previous.monthlyLimitUsd },
+        updated: budget
+      }
+    });
+
+    return updated;
+  }
+
+  /**
+   * Today's and this month's spend against the budget, in UTC
+   */
+  async getBudgetStatus(now: Date = new Date()): Promise<AIBudgetStatus> {
+    const [budget, day, month] = await Promise.all([
+      this.getBudget(),
+      this.totalsRef(isoDay(now)).get(),
+      this.totalsRef(monthKey(now)).get()
+    ]);
+
+    const daySpendUsd = day.exists ? (day.data() as AIUsageTotals).costUsd : 0;
+    const monthSpendUsd = month.exists ? (month.data() as AIUsageTotals).costUsd : 0;
+
+    let exceeded: AIBudgetStatus['exceeded'] = null;
+    if (budget.monthlyLimitUsd !== null && monthSpendUsd >= budget.monthlyLimitUsd) {
+      exceeded = 'monthly';
+    } else if (budget.dailyLimitUsd !== null && daySpendUsd >= budget.dailyLimitUsd) {
+      exceeded = 'daily';
+    }
+
+    return { budget, daySpendUsd, monthSpendUsd, exceeded };
+  }
+
+  /**
+   * Block manual generation once a budget is used up
+   */
+  async assertWithinBudget(): Promise<void> {
+    const status = await this.getBudgetStatus();
+    if (!status.exceeded) {
+      return;
+    }
+
+    const limit = status.exceeded === 'daily' ? status.budget.dailyLimitUsd : status.budget.monthlyLimitUsd;
+    const spent = status.exceeded === 'daily' ? status.daySpendUsd : status.monthSpendUsd;
+    const resets = status.exceeded === 'daily' ? 'at midnight UTC' : 'on the 1st of next month (UTC)';
+
+    throw new BusinessLogicError(
+      `The ${status.exceeded} AI budget of $${limit!.toFixed(2)} has been reached ($${spent.toFixed(2)} spent). ` +
+      `AI generation is paused until the budget resets ${resets} or an admin raises it.`,
+      { period: status.exceeded, limitUsd: limit, spentUsd: spent }
+    );
+  }
+
+  /**
+   * Spend for the last `days` days and `months` months, plus the most recent calls
+   */
+  async getUsageReport(days: number, months: number, recentLimit: number): Promise<AIUsageReport> {
+    const now = new Date();
+    const dayKeys = Array.from({ length: days }, (_, i) =>
+      isoDay(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (days - 1 - i))))
+    );
+    const monthKeys = Array.from({ length: months }, (_, i) =>
+      monthKey(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1 - i), 1)))
+    );
+
+    const [status, totals, recent] = await Promise.all([
+      this.getBudgetStatus(now),
+      this.db.getAll(...[...dayKeys, ...monthKeys].map(key => this.totalsRef(key))),
+      this.db.collection('ai_usage').orderBy('createdAt', 'desc').limit(recentLimit).get()
+    ]);
+
+    const byPeriod = new Map(totals
+      .filter(doc => doc.exists)
+      .map(doc => [doc.id, { ...emptyTotals(doc.id), ...doc.data() } as AIUsageTotals]));
+
+    return {
+      status,
+      days: dayKeys.map(key => byPeriod.get(key) || emptyTotals(key)),
+      months: monthKeys.map(key => byPeriod.get(key) || emptyTotals(key)),
+      recentCalls: recent.docs.map(doc => ({ id: doc.id, ...doc.data() } as AIUsageEntry))
+    };
+  }
+
+  private totalsRef(period: string) {
+    return this.db.collection('ai_usage_totals').doc(period);
+  }
+
+  private budgetRef() {
+    return this.db.collection('ai_settings').doc('budget');
+  }
+}
@@ -1,12 +1,14 @@
-import { CallableRequest } from 'firebase-functions/v2/https';
+import { CallableRequest, HttpsError } from 'firebase-functions/v2/https';
 import { getAuth } from 'firebase-admin/auth';
 import { getFirestore } from 'firebase-admin/firestore';
+import { Permission, Visibility, normalizeRole, normalizeVisibility, hasPermission } from './permissions';
 
 export interface AuthenticatedUser {
   uid: string;
   email: string;
   role: string;
   permissions: string[];
+  visibility: Visibility;
 }
 
 export class AuthError extends Error {
@@ -40,8 +42,9 @@ export const authenticateUser = async (auth: CallableRequest['auth']): Promise<A
     return {
       uid: auth.uid,
       email: userRecord.email || auth.token?.email || '',
-      role: userData.role || 'user',
-      permissions: userData.permissions || []
+      role: normalizeRole(userData.role),
+      permissions: userData.permissions || [],
+      visibility: normalizeVisibility(userData.visibility)
     };
   } catch (error) {
     if (error instanceof AuthError) {
@@ -51,14 +54,22 @@ export const authenticateUser = async (auth: CallableRequest['auth']): Promise<A
   }
 };
 
-export const requirePermission = (user: AuthenticatedUser, requiredPermission: string): void => {
-  if (user.role === 'admin') {
-    return; // Admins have all permissions
+export const requirePermission = (user: AuthenticatedUser, ...requiredPermissions: Permission[]): void => {
+  const missing = requiredPermissions.find(permission => !hasPermission(user, permission));
+  if (missing) {
+    throw new AuthError(`Permission denied: ${missing}`, 'PERMISSION_DENIED');
   }
+};
 
-  if (!user.permissions.includes(requiredPermission)) {
-    throw new AuthError(`Permission denied: ${requiredPermission}`, 'PERMISSION_DENIED');
-  }
+/**
+ * Convert an AuthError for handlers that report errors as HttpsError instead of using withErrorHandling
+ */
+export const toHttpsAuthError = (error: AuthError): HttpsError => {
+  return new HttpsError(
+    error.code === 'UNAUTHENTICATED' ? 'unauthenticated' : 'permission-denied',
+    error.message,
+    { code: error.code }
+  );
 };
 
 export const requireOwnership = async (
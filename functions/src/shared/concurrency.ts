@@ -0,0 +1,83 @@
+import { DocumentData, DocumentReference, FieldValue, Firestore, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { NotFoundError, StaleWriteError } from './errors';
+import { isDeleted } from './soft-delete';
+import { HistoryAction, recordHistory } from './record-history';
+
+export interface Revisioned {
+  revision?: number;
+}
+
+/**
+ * Stored revision of a document; documents written before revisions existed count as 0
+ */
+export const getRevision = (data: Revisioned | undefined | null): number => {
+  return typeof data?.revision === 'number' ? data.revision : 0;
+};
+
+/**
+ * Reject a write made against an older revision than the stored one.
+ * Callers that don't send a revision keep last-write-wins behaviour.
+ */
+export const assertRevision = (
+  resource: string,
+  id: string,
+  data: DocumentData | undefined,
+  expectedRevision?: number
+): void => {
+  if (expectedRevision === undefined) return;
+
+  const currentRevision = getRevision(data);
+  if (currentRevision !== expectedRevision) {
+    throw new StaleWriteError(resource, id, expectedRevision, currentRevision, { id, ...data });
+  }
+};
+
+/**
+ * Revision bump for writes that don't read the document in a transaction (bulk updates, merges)
+ */
+export const bumpRevision = () => ({ revision: FieldValue.increment(1) });
+
+export interface RevisionedChange<R> {
+  updates: DocumentData;
+  result: R;
+}
+
+// An item written into a parent document's array, with the parent's new revision
+export interface RevisionedResult<T> {
+  item: T;
+  revision: number;
+}
+
+/**
+ * Read, modify and write a document in one transaction so concurrent edits
+ * (including edits to its arrays) can't overwrite each other. `mutate` receives
+ * the stored data and returns the fields to write; revision and updatedAt are set here,
+ * and the field diff is recorded to the record's history in the same transaction.
+ */
+export const updateWithRevision = async <R>(
+  db: Firestore,
+  ref: DocumentReference,
+  resource: string,
+  expectedRevision: number | undefined,
+  changedBy: string,
+  mutate: (data: DocumentData, transaction: Transaction) => RevisionedChange<R> | Promise<RevisionedChange<R>>,
+  history: { action?: HistoryAction; revertedEntryId?: string } = {}
+): Promise<{ result: R; revision: number }> => {
+  return db.runTransaction(async transaction => {
+    const doc = await transaction.get(ref);
+    const data = doc.data();
+
+    if (!doc.exists || !data || isDeleted(data)) {
+      throw new NotFoundError(resource, ref.id);
+    }
+
+    assertRevision(resource, ref.id, data, expectedRevision);
+
+    const { updates, result } = await mutate(data, transaction);
+    const revision = getRevision(data) + 1;
+    transaction.update(ref, { updatedAt: Timestamp.now(), ...updates, revision });
+    recordHistory(transaction, ref, data, updates, revision, changedBy, history);
+
+    return { result, revision };
+  });
+};
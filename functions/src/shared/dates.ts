@@ -0,0 +1,23 @@
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read a date from any shape records carry one in: a Timestamp, a timestamp the client
+ * serialized ({ seconds, nanoseconds } or { _seconds, _nanoseconds }), a Date or an ISO string.
+ * Anything else, including numbers and booleans, is null.
+ */
+export const readDate = (value: unknown): Date | null => {
+  if (!value || typeof value === 'boolean' || typeof value === 'number') return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+
+  const timestamp = value as { toDate?: () => Date; _seconds?: number; _nanoseconds?: number; seconds?: number; nanoseconds?: number };
+  const date = typeof timestamp.toDate === 'function' ? timestamp.toDate()
+    : typeof timestamp._seconds === 'number' ? new Date(timestamp._seconds * 1000 + Math.floor((timestamp._nanoseconds || 0) / 1000000))
+      : typeof timestamp.seconds === 'number' ? new Date(timestamp.seconds * 1000 + Math.floor((timestamp.nanoseconds || 0) / 1000000))
+        : typeof value === 'string' ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+};
+
+/**
+ * The UTC calendar day of a date, as yyyy-MM-dd
+ */
+export const isoDay = (date: Date) => date.toISOString().slice(0, 10);
@@ -0,0 +1,121 @@
+// Legal-form and filler words that don't distinguish one company from another
+const COMPANY_NAME_NOISE = new Set([
+  'inc', 'incorporated', 'llc', 'ltd', 'limited', 'plc', 'corp', 'corporation', 'co', 'company',
+  'gmbh', 'ag', 'sa', 'sas', 'srl', 'bv', 'nv', 'pty', 'group', 'holdings', 'international', 'intl',
+  'worldwide', 'global', 'the', 'and'
+]);
+
+// Names at or above this similarity are flagged as likely duplicates
+export const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * Normalize a company name for comparison: lowercase, strip punctuation and legal suffixes
+ * e.g. "Marriott International, Inc." and "marriott intl" both become "marriott"
+ */
+export const normalizeCompanyName = (name: string | undefined | null): string => {
+  if (!name) return '';
+  const tokens = name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const meaningful = tokens.filter(token => !COMPANY_NAME_NOISE.has(token));
+  // Fall back to the raw tokens if the name is nothing but noise words
+  return (meaningful.length > 0 ? meaningful : tokens).join(' ');
+};
+
+/**
+ * Normalize a person's name for comparison
+ */
+export const normalizePersonName = (name: string | undefined | null): string => {
+  if (!name) return '';
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .join(' ');
+};
+
+export const normalizeEmail = (email: string | undefined | null): string => {
+  return (email || '').trim().toLowerCase();
+};
+
+/**
+ * Extract the registrable host from a website value, e.g. "https://www.marriott.com/hotels" -> "marriott.com"
+ */
+export const extractDomain = (website: string | undefined | null): string => {
+  if (!website) return '';
+  const host = website
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .split(/[/?#:]/)[0];
+  return host.replace(/^www\d*\./, '');
+};
+
+/**
+ * Similarity between two normalized strings in [0, 1], based on Levenshtein distance
+ */
+export const stringSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+};
+
+/**
+ * Index pairs of records that share at least one blocking key, each pair once with a < b.
+ * Only these candidates are compared, instead of every pair in the collection.
+ */
+export const candidatePairs = (keysPerRecord: string[][]): Array<[number, number]> => {
+  const blocks = new Map<string, number[]>();
+  keysPerRecord.forEach((keys, index) => {
+    new Set(keys.filter(Boolean)).forEach(key => {
+      const block = blocks.get(key) || [];
+      block.push(index);
+      blocks.set(key, block);
+    });
+  });
+
+  const seen = new Set<string>();
+  const pairs: Array<[number, number]> = [];
+  blocks.forEach(block => {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const pairKey = `${block[i]}:${block[j]}`;
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+        pairs.push([block[i], block[j]]);
+      }
+    }
+  });
+
+  return pairs;
+};
+
+/**
+ * Blocking keys for a normalized company name: the name's first and last three characters.
+ * Names similar enough to be flagged almost always share one of them, even with a typo at one end.
+ */
+export const companyNameBlockKeys = (normalizedName: string): string[] => {
+  if (!normalizedName) return [];
+  const compact = normalizedName.replace(/\s+/g, '');
+  return [`start:${compact.slice(0, 3)}`, `end:${compact.slice(-3)}`];
+};
@@ -39,6 +39,30 @@ export class ConflictError extends AppError {
   }
 }
 
+/**
+ * A write based on an older revision of a record than the one stored.
+ * Carries the current record so the client can review and merge.
+ */
+export class StaleWriteError extends ConflictError {
+  constructor(resource: string, id: string, expectedRevision: number, currentRevision: number, current?: unknown) {
+    super(
+      `${resource} ${id} was changed by someone else since you loaded it`,
+      { expectedRevision, currentRevision, current }
+    );
+    this.code = 'STALE_WRITE';
+  }
+}
+
+/**
+ * Stale writes map to 'aborted' so clients can tell them apart from duplicate conflicts
+ */
+export const toHttpsStaleWriteError = (error: StaleWriteError): HttpsError => {
+  return new HttpsError('aborted', error.message, {
+    code: error.code,
+    ...error.details
+  });
+};
+
 export class RateLimitError extends AppError {
   constructor(message: string = 'Rate limit exceeded') {
     super('RATE_LIMIT_EXCEEDED', message, 429);
@@ -51,6 +75,50 @@ export class BusinessLogicError extends AppError {
   }
 }
 
+/**
+ * A stage change held back until a manager approves it. The pending approval requests
+ * have already been created when this is thrown.
+ */
+export class ApprovalRequiredError extends BusinessLogicError {
+  constructor(message: string, approvals: Array<{ id: string; opportunityId: string; toStage: string; reasons: string[] }>) {
+    super(message, { approvals });
+    this.code = 'APPROVAL_REQUIRED';
+  }
+}
+
+/**
+ * Held-back stage changes map to 'failed-precondition' with the pending requests attached
+ */
+export const toHttpsApprovalRequiredError = (error: ApprovalRequiredError): HttpsError => {
+  return new HttpsError('failed-precondition', error.message, {
+    code: error.code,
+    ...error.details
+  });
+};
+
+/**
+ * A stage change or new opportunity that doesn't meet the entry criteria of its stage
+ */
+export class StageGateError extends BusinessLogicError {
+  constructor(
+    message: string,
+    failures: Array<{ opportunityId: string | null; title: string; stage: string; unmet: Array<{ criterion: string; label: string; detail?: string }> }>
+  ) {
+    super(message, { failures });
+    this.code = 'STAGE_GATE_UNMET';
+  }
+}
+
+/**
+ * Unmet stage criteria map to 'failed-precondition' with the list of what is missing
+ */
+export const toHttpsStageGateError = (error: StageGateError): HttpsError => {
+  return new HttpsError('failed-precondition', error.message, {
+    code: error.code,
+    ...error.details
+  });
+};
+
 export const handleFunctionError = async (
   error: any,
   context: {
@@ -101,6 +169,10 @@ export const handleFunctionError = async (
     });
   }
 
+  if (error instanceof StaleWriteError) {
+    throw toHttpsStaleWriteError(error);
+  }
+
   if (error instanceof ConflictError) {
     throw new HttpsError('already-exists', error.message, {
       code: error.code,
@@ -114,6 +186,14 @@ export const handleFunctionError = async (
     });
   }
 
+  if (error instanceof ApprovalRequiredError) {
+    throw toHttpsApprovalRequiredError(error);
+  }
+
+  if (error instanceof StageGateError) {
+    throw toHttpsStageGateError(error);
+  }
+
   if (error instanceof BusinessLogicError) {
     throw new HttpsError('failed-precondition', error.message, {
       code: error.code,
@@ -167,7 +247,8 @@ export const validateResourceExists = async (
   const db = getFirestore();
   
   const doc = await db.collection(collection).doc(id).get();
-  if (!doc.exists) {
+  // Trashed documents are treated as missing until they are restored
+  if (!doc.exists || doc.data()?.deletedAt) {
     throw new NotFoundError(resourceName, id);
   }
 };
@@ -0,0 +1,85 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { DAY_MS, readDate } from './dates';
+
+// Used when an activity asks for a follow-up without saying when
+const DEFAULT_FOLLOW_UP_DAYS = 7;
+
+/**
+ * The activity fields follow-up scheduling reads and writes. Opportunity and assignment
+ * activities both have this shape.
+ */
+export interface FollowUpActivity {
+  id: string;
+  activityType?: string;
+  method?: string;
+  subject?: string;
+  notes?: string;
+  assignedTo?: string;
+  relatedContactIds?: string[];
+  status: string;
+  followUpNeeded?: boolean;
+  followUpDate?: unknown;
+  followUpSubject?: string;
+  followUpOf?: string; // Set on a follow-up: the completed activity it continues
+  followUpActivityId?: string; // Set on a completed activity once its follow-up exists
+  priority?: string;
+}
+
+const newActivityId = () => `activity_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+
+/**
+ * Add the scheduled follow-up for every activity that became Completed in this write with
+ * followUpNeeded set, and link the two. An activity already linked to a follow-up is left
+ * alone, so saving it again never creates a second one.
+ */
+export const scheduleFollowUps = <T extends FollowUpActivity>(
+  previous: T[] | undefined,
+  activities: T[],
+  userId: string,
+  now: Timestamp = Timestamp.now()
+): T[] => {
+  const previousStatus = new Map((previous || []).map(activity => [activity.id, activity.status]));
+  const followUps: T[] = [];
+
+  const linked = activities.map(activity => {
+    if (activity.status !== 'Completed' || !activity.followUpNeeded || activity.followUpActivityId) {
+      return activity;
+    }
+    if (previousStatus.get(activity.id) === 'Completed') {
+      return activity;
+    }
+
+    const dueDate = readDate(activity.followUpDate) || new Date(now.toMillis() + DEFAULT_FOLLOW_UP_DAYS * DAY_MS);
+    const followUp = {
+      id: newActivityId(),
+      activityType: activity.activityType,
+      method: activity.method,
+      subject: activity.followUpSubject?.trim() || `Follow-up: ${activity.subject || activity.activityType || 'activity'}`,
+      notes: '',
+      dateTime: Timestamp.fromDate(dueDate),
+      relatedContactIds: activity.relatedContactIds || [],
+      assignedTo: activity.assignedTo,
+      attachments: [],
+      followUpNeeded: false,
+      followUpOf: activity.id,
+      status: 'Scheduled',
+      priority: activity.priority || 'Medium',
+      createdAt: now,
+      createdBy: userId,
+      updatedAt: now,
+      updatedBy: userId
+    } as unknown as T;
+
+    // Drop fields the origin leaves unset; Firestore rejects undefined values
+    Object.keys(followUp).forEach(key => {
+      if ((followUp as Record<string, unknown>)[key] === undefined) {
+        delete (followUp as Record<string, unknown>)[key];
+      }
+    });
+
+    followUps.push(followUp);
+    return { ...activity, followUpActivityId: followUp.id };
+  });
+
+  return [...linked, ...followUps];
+};
@@ -0,0 +1,16 @@
+import { defineSecret, defineString } from 'firebase-functions/params';
+
+// Transport API keys; functions that send mail must list MAIL_SECRETS in their options
+export const sendgridApiKey = defineSecret('SENDGRID_API_KEY');
+export const MAIL_SECRETS = [sendgridApiKey];
+
+// Set per environment in functions/.env.<project> - use "log" in the emulator to keep mail local
+export const mailTransport = defineString('MAIL_TRANSPORT', { default: 'sendgrid' });
+
+export const mailFrom = defineString('MAIL_FROM', { default: 'iOL Partner Solutions <noreply@iol-partner-solutions.web.app>' });
+
+// The log transport also writes each message here as an .html file when set
+export const mailOutboxDir = defineString('MAIL_OUTBOX_DIR', { default: '' });
+
+// Links in emails point here
+export const appUrl = defineString('APP_URL', { default: 'https://iol-partner-solutions.web.app' });
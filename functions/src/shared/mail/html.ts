@@ -0,0 +1,8 @@
+/**
+ * Escape text for interpolation into an email's HTML body or attributes
+ */
+export const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
@@ -0,0 +1,28 @@
+import * as logger from 'firebase-functions/logger';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { mailOutboxDir } from './config';
+import { MailMessage, MailSendResult, MailTransport } from './types';
+
+/**
+ * Development stand-in: logs each message and, with MAIL_OUTBOX_DIR set, saves it as an
+ * .html file that can be opened in a browser. Nothing leaves the machine.
+ */
+export class LogMailTransport implements MailTransport {
+  readonly name = 'log';
+
+  async send(message: MailMessage, from: string): Promise<MailSendResult> {
+    const messageId = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9.@-]/g, '_')}`;
+
+    logger.info('Mail (log transport)', { from, to: message.to, subject: message.subject, messageId });
+    logger.debug(message.text);
+
+    const outboxDir = mailOutboxDir.value();
+    if (outboxDir) {
+      await mkdir(outboxDir, { recursive: true });
+      await writeFile(join(outboxDir, `${messageId}.html`), message.html, 'utf8');
+    }
+
+    return { transport: this.name, messageId };
+  }
+}
@@ -0,0 +1,37 @@
+import * as logger from 'firebase-functions/logger';
+import { mailFrom, mailTransport } from './config';
+import { MailMessage, MailSendResult, MailTransport } from './types';
+import { LogMailTransport } from './log.transport';
+import { SendGridMailTransport } from './sendgrid.transport';
+
+const transports = new Map<string, () => MailTransport>([
+  ['sendgrid', () => new SendGridMailTransport()],
+  ['log', () => new LogMailTransport()]
+]);
+
+export class MailService {
+  static registerTransport(name: string, factory: () => MailTransport): void {
+    transports.set(name, factory);
+  }
+
+  /**
+   * The transport configured for this environment, or a named one
+   */
+  static getTransport(name: string = mailTransport.value()): MailTransport {
+    const factory = transports.get(name);
+    if (!factory) {
+      throw new Error(`Unknown mail transport "${name}". Registered transports: ${Array.from(transports.keys()).join(', ')}`);
+    }
+    return factory();
+  }
+
+  static async send(message: MailMessage): Promise<MailSendResult> {
+    const transport = this.getTransport();
+    const result = await transport.send(message, mailFrom.value());
+
+    // Recipients and subjects only; bodies carry customer data
+    logger.info('Mail sent', { transport: result.transport, to: message.to, subject: message.subject, messageId: result.messageId });
+
+    return result;
+  }
+}
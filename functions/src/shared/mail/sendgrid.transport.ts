@@ -0,0 +1,42 @@
+import { sendgridApiKey } from './config';
+import { MailMessage, MailSendResult, MailTransport } from './types';
+
+// "Name <address>" or a bare address
+const parseAddress = (value: string) => {
+  const match = value.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  return match ? { name: match[1] || undefined, email: match[2] } : { email: value.trim() };
+};
+
+export class SendGridMailTransport implements MailTransport {
+  readonly name = 'sendgrid';
+
+  async send(message: MailMessage, from: string): Promise<MailSendResult> {
+    const apiKey = sendgridApiKey.value();
+    if (!apiKey) {
+      throw new Error('SendGrid API key not configured. Please set the SENDGRID_API_KEY secret.');
+    }
+
+    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: parseAddress(from),
+        subject: message.subject,
+        content: [
+          { type: 'text/plain', value: message.text },
+          { type: 'text/html', value: message.html }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`SendGrid API failed: ${response.status} ${await response.text()}`);
+    }
+
+    return { transport: this.name, messageId: response.headers.get('x-message-id') || undefined };
+  }
+}
@@ -0,0 +1,19 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string; // Plain-text alternative for clients that don't render HTML
+}
+
+export interface MailSendResult {
+  transport: string;
+  messageId?: string;
+}
+
+/**
+ * A way of delivering email. Register new ones with MailService.registerTransport.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage, from: string): Promise<MailSendResult>;
+}
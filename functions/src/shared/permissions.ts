@@ -0,0 +1,118 @@
+export type Role = 'admin' | 'manager' | 'rep' | 'read-only';
+
+export const ROLES: Role[] = ['admin', 'manager', 'rep', 'read-only'];
+
+// Role given to new users and to profiles created before roles existed
+export const DEFAULT_ROLE: Role = 'rep';
+
+/**
+ * Widest slice of records a user may see: everything, their territories, their teams or only their own
+ */
+export type Visibility = 'all' | 'territory' | 'team' | 'mine';
+
+export const VISIBILITIES: Visibility[] = ['all', 'territory', 'team', 'mine'];
+
+const RECORD_RESOURCES = ['accounts', 'contacts', 'products', 'opportunities', 'tasks', 'assignments'] as const;
+
+/**
+ * Every permission string the functions check, in "resource:action" form
+ */
+export const PERMISSIONS = [
+  ...RECORD_RESOURCES.flatMap(resource => [
+    `${resource}:read`,
+    `${resource}:create`,
+    `${resource}:update`,
+    `${resource}:delete`
+  ]),
+  'accounts:bulkUpdate',
+  'contacts:bulkUpdate',
+  'products:bulkUpdate',
+  'opportunities:bulkUpdate',
+  'accounts:merge',
+  'contacts:merge',
+  'opportunities:generateSummary',
+  'aiSummaries:stats',
+  'dashboard:read',
+  'records:import',
+  'trash:read',
+  'trash:restore',
+  'trash:purge',
+  'users:read',
+  'users:update',
+  'users:stats',
+  'users:manageRoles',
+  'teams:read',
+  'teams:manage',
+  'audit:read',
+  'aiUsage:read',
+  'aiUsage:manageBudgets',
+  'workflows:manage',
+  'approvals:decide',
+  'approvals:manage',
+  'stageGates:manage',
+  'forecast:manage',
+  'targets:manage'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const readPermissions: Permission[] = [
+  ...RECORD_RESOURCES.map(resource => `${resource}:read` as Permission),
+  'dashboard:read',
+  'users:read',
+  'teams:read'
+];
+
+const repPermissions: Permission[] = [
+  ...readPermissions,
+  ...RECORD_RESOURCES.flatMap(resource => [`${resource}:create`, `${resource}:update`] as Permission[]),
+  'tasks:delete',
+  'assignments:delete',
+  'opportunities:generateSummary',
+  'trash:read',
+  'trash:restore'
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [...PERMISSIONS],
+  manager: PERMISSIONS.filter(permission => ![
+    'users:manageRoles',
+    'teams:manage',
+    'audit:read',
+    'aiUsage:read',
+    'aiUsage:manageBudgets',
+    'workflows:manage',
+    'approvals:manage',
+    'stageGates:manage',
+    'forecast:manage'
+  ].includes(permission)),
+  rep: repPermissions,
+  'read-only': readPermissions
+};
+
+/**
+ * Map a stored role to a known role; profiles created before RBAC have role "user"
+ */
+export const normalizeRole = (role: unknown): Role => {
+  return ROLES.includes(role as Role) ? (role as Role) : DEFAULT_ROLE;
+};
+
+// Profiles without a visibility limit keep seeing every record
+export const normalizeVisibility = (visibility: unknown): Visibility => {
+  return VISIBILITIES.includes(visibility as Visibility) ? (visibility as Visibility) : 'all';
+};
+
+/**
+ * Permissions granted by the user's role plus any individually assigned extras
+ */
+export const getEffectivePermissions = (user: { role: string; permissions: string[] }): Permission[] => {
+  const granted = new Set<string>([...ROLE_PERMISSIONS[normalizeRole(user.role)], ...user.permissions]);
+  return PERMISSIONS.filter(permission => granted.has(permission));
+};
+
+export const hasPermission = (user: { role: string; permissions: string[] }, permission: Permission): boolean => {
+  if (user.role === 'admin') {
+    return true;
+  }
+  return getEffectivePermissions(user).includes(permission);
+};
@@ -0,0 +1,49 @@
+import { DocumentSnapshot, Query, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+
+// Firestore 'in' queries accept at most 30 values
+export const IN_QUERY_LIMIT = 30;
+
+/**
+ * Documents of the query whose field equals any of the values, fetched in 'in'-sized chunks
+ */
+export const getWhereIn = async (query: Query, field: string, values: string[]): Promise<QueryDocumentSnapshot[]> => {
+  const unique = Array.from(new Set(values.filter(Boolean)));
+  const chunks: string[][] = [];
+  for (let i = 0; i < unique.length; i += IN_QUERY_LIMIT) {
+    chunks.push(unique.slice(i, i + IN_QUERY_LIMIT));
+  }
+
+  const snapshots = await Promise.all(chunks.map(chunk => query.where(field, 'in', chunk).get()));
+  return snapshots.flatMap(snapshot => snapshot.docs);
+};
+
+export interface FilteredPageOptions {
+  limit: number;
+  offset?: number; // Counted in kept documents
+  startAfter?: DocumentSnapshot;
+}
+
+/**
+ * One page of the query's documents that pass `keep`. Reads ahead in chunks until the page
+ * is full, so records dropped in memory (trashed, outside the caller's visibility) don't
+ * leave short pages while more results exist.
+ */
+export const getFilteredPage = async (
+  query: Query,
+  keep: (doc: QueryDocumentSnapshot) => boolean,
+  { limit, offset = 0, startAfter }: FilteredPageOptions
+): Promise<{ docs: QueryDocumentSnapshot[]; hasMore: boolean }> => {
+  const wanted = offset + limit + 1; // One extra to know whether there are more
+  const chunkSize = Math.max(limit + 1, 50);
+  const kept: QueryDocumentSnapshot[] = [];
+  let cursor = startAfter;
+
+  while (kept.length < wanted) {
+    const chunk = await (cursor ? query.startAfter(cursor) : query).limit(chunkSize).get();
+    kept.push(...chunk.docs.filter(keep));
+    if (chunk.docs.length < chunkSize) break;
+    cursor = chunk.docs[chunk.docs.length - 1];
+  }
+
+  return { docs: kept.slice(offset, offset + limit), hasMore: kept.length > offset + limit };
+};
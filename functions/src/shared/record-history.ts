@@ -0,0 +1,111 @@
+import { DocumentData, DocumentReference, FieldValue, Timestamp } from 'firebase-admin/firestore';
+
+export type HistoryAction = 'update' | 'bulk_update' | 'merge' | 'revert' | 'workflow';
+
+export interface FieldChange {
+  field: string;
+  from: unknown; // null when the field was not set
+  to: unknown; // null when the field was cleared
+}
+
+export interface RecordHistoryEntry {
+  id: string;
+  collection: string;
+  recordId: string;
+  revision: number; // Revision this change produced
+  action: HistoryAction;
+  changes: FieldChange[];
+  snapshot: DocumentData; // The record as it was before this change - what a revert restores
+  changedBy: string;
+  changedAt: Timestamp;
+  revertedEntryId?: string; // Set on reverts: the entry whose snapshot was restored
+}
+
+// Anything that can queue a document write: a batch or a transaction
+interface HistoryWriter {
+  set(documentRef: DocumentReference, data: DocumentData): unknown;
+}
+
+// Stamped on every write - never a user edit, so never part of a diff or a revert
+export const SYSTEM_FIELDS = ['id', 'revision', 'createdAt', 'createdBy', 'updatedAt', 'updatedBy', 'deletedAt', 'deletedBy', 'mergedInto'];
+
+const toComparable = (value: unknown): unknown => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Timestamp) return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  if (Array.isArray(value)) return value.map(toComparable);
+  if (typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce((acc, key) => {
+        acc[key] = toComparable((value as Record<string, unknown>)[key]);
+        return acc;
+      }, {} as Record<string, unknown>);
+  }
+  return value;
+};
+
+export const isSameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(toComparable(a)) === JSON.stringify(toComparable(b));
+
+/**
+ * Field-level diff between a stored record and the fields about to be written.
+ * FieldValue.delete() counts as clearing the field; other sentinels (increments,
+ * server timestamps) have no value yet and are left out.
+ */
+export const diffFields = (before: DocumentData, updates: DocumentData): FieldChange[] => {
+  const changes: FieldChange[] = [];
+
+  Object.keys(updates)
+    .filter(field => !SYSTEM_FIELDS.includes(field))
+    .forEach(field => {
+      let to = updates[field];
+      if (to instanceof FieldValue) {
+        if (!to.isEqual(FieldValue.delete())) return;
+        to = null;
+      }
+
+      const from = before[field] ?? null;
+      if (!isSameValue(from, to)) {
+        changes.push({ field, from, to: to ?? null });
+      }
+    });
+
+  return changes;
+};
+
+/**
+ * Queue a history entry on the batch or transaction that writes the update, so the
+ * record and its history can't drift apart. Updates that change nothing are skipped.
+ */
+export const recordHistory = (
+  writer: HistoryWriter,
+  ref: DocumentReference,
+  before: DocumentData,
+  updates: DocumentData,
+  revision: number,
+  changedBy: string,
+  options: { action?: HistoryAction; revertedEntryId?: string } = {}
+): RecordHistoryEntry | null => {
+  const changes = diffFields(before, updates);
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const entryRef = ref.firestore.collection('record_history').doc();
+  const entry: Omit<RecordHistoryEntry, 'id'> = {
+    collection: ref.parent.id,
+    recordId: ref.id,
+    revision,
+    action: options.action || 'update',
+    changes,
+    snapshot: before,
+    changedBy,
+    changedAt: Timestamp.now(),
+    ...(options.revertedEntryId && { revertedEntryId: options.revertedEntryId })
+  };
+
+  writer.set(entryRef, entry);
+
+  return { id: entryRef.id, ...entry };
+};
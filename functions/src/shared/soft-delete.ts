@@ -0,0 +1,43 @@
+import { Timestamp, FieldValue } from 'firebase-admin/firestore';
+
+export interface SoftDeletable {
+  deletedAt?: Timestamp | null;
+  deletedBy?: string | null;
+}
+
+/**
+ * Whether a document has been moved to the trash
+ */
+export const isDeleted = (data: SoftDeletable | undefined | null): boolean => {
+  return !!data?.deletedAt;
+};
+
+/**
+ * Drop trashed documents from a result list
+ */
+export const excludeDeleted = <T extends SoftDeletable>(items: T[]): T[] => {
+  return items.filter(item => !isDeleted(item));
+};
+
+/**
+ * Fields written when a document is moved to the trash
+ */
+export const softDeleteFields = (userId: string) => {
+  const now = Timestamp.now();
+  return {
+    deletedAt: now,
+    deletedBy: userId,
+    updatedAt: now
+  };
+};
+
+/**
+ * Fields written when a document is restored from the trash
+ */
+export const restoreFields = () => {
+  return {
+    deletedAt: FieldValue.delete(),
+    deletedBy: FieldValue.delete(),
+    updatedAt: Timestamp.now()
+  };
+};
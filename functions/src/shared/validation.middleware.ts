@@ -32,6 +32,11 @@ export const commonSchemas = {
   url: z.string().url('Invalid URL format').optional(),
   timestamp: z.date().optional(),
   tags: z.array(z.string()).optional(),
+  // Narrows list results to the caller's own, team or territory records
+  recordScope: z.enum(['all', 'territory', 'team', 'mine']).default('all'),
+  // Revision of the record the caller edited; stale writes are rejected. Callable
+  // clients encode a missing value as null, which means "no check"
+  expectedRevision: z.number().int().min(0).nullish().transform(value => value ?? undefined),
   pagination: z.object({
     limit: z.number().min(1).max(100).default(50),
     lastDoc: z.string().optional(),
@@ -74,7 +79,8 @@ export const accountSchemas = {
     logo: z.string().nullish(),
     primaryContact: z.string().nullish(),
     tags: z.array(z.string()).default([]),
-    notes: z.string().nullish()
+    notes: z.string().nullish(),
+    expectedRevision: commonSchemas.expectedRevision
   }).transform(data => {
     // Remove null, undefined, and empty string values to prevent Firestore errors
     const cleanData: any = {};
@@ -90,7 +96,8 @@ export const accountSchemas = {
     limit: z.number().min(1).max(100).default(50),
     lastDoc: z.string().nullish(),
     searchTerm: z.string().nullish(),
-    region: z.string().nullish()
+    region: z.string().nullish(),
+    scope: commonSchemas.recordScope
   }).transform(data => {
     // Remove null, undefined, and empty string values to prevent Firestore errors
     const cleanData: any = {};
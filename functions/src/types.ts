@@ -22,6 +22,11 @@ export interface Contact {
   ownerId: string;
   createdAt: Timestamp;
   updatedAt: Timestamp;
+  revision?: number; // Incremented on every write, used to reject stale updates
+  // Soft delete fields - set when the record is moved to the trash
+  deletedAt?: Timestamp;
+  deletedBy?: string;
+  mergedInto?: string; // Set when merged away into another contact
 }
 
 export type ProductCategory = 'Business Intelligence' | 'Revenue Management' | 'Distribution' | 'Guest Experience' | 'Operations' | 'Connectivity' | 'Booking Engine' | 'Channel Management' | 'Other';
@@ -45,6 +50,10 @@ export interface Product {
   ownerId: string;
   createdAt: Timestamp;
   updatedAt: Timestamp;
+  revision?: number; // Incremented on every write, used to reject stale updates
+  // Soft delete fields - set when the record is moved to the trash
+  deletedAt?: Timestamp;
+  deletedBy?: string;
 }
 
 export type OpportunityStage = 'Lead' | 'Qualified' | 'Proposal' | 'Negotiation' | 'Closed-Won' | 'Closed-Lost';
@@ -64,6 +73,14 @@ export interface Activity {
   dateTime: Timestamp;
   status: string;
   assignedTo?: string;
+  completedAt?: Timestamp;
+  activityType?: string;
+  subject?: string;
+  followUpNeeded?: boolean;
+  followUpDate?: Timestamp;
+  followUpSubject?: string;
+  followUpOf?: string; // Set on a follow-up: the completed activity it continues
+  followUpActivityId?: string; // Set on a completed activity once its follow-up exists
 }
 
 export interface Document {
@@ -97,6 +114,10 @@ export interface Task {
   description?: string;
   createdAt: Timestamp;
   updatedAt?: Timestamp;
+  revision?: number; // Incremented on every write, used to reject stale updates
+  // Soft delete fields - set when the record is moved to the trash
+  deletedAt?: Timestamp;
+  deletedBy?: string;
 }
 
 export interface Opportunity {
@@ -120,11 +141,42 @@ export interface Opportunity {
   tags?: string[];
   checklist?: ChecklistItem[];
   blockers?: ChecklistItem[];
+  closeOut?: OpportunityCloseOut; // Captured when the opportunity moves to Closed-Won or Closed-Lost
+  forecastCategory?: 'commit' | 'best_case' | 'pipeline'; // Set by the rep; unset counts as pipeline
   // AI Summary fields
   aiSummary?: string;
+  aiSummaryId?: string; // Version in ai_summaries the current text came from
   aiSummaryGeneratedAt?: Timestamp;
   aiSummaryManuallyRequested?: boolean;
   ownerId: string;
   createdAt: Timestamp;
   updatedAt: Timestamp;
-} 
\ No newline at end of file
+  revision?: number; // Incremented on every write, used to reject stale updates
+  // Soft delete fields - set when the record is moved to the trash
+  deletedAt?: Timestamp;
+  deletedBy?: string;
+}
+
+export type CloseOutOutcome = 'won' | 'lost';
+
+export interface OpportunityCloseOut {
+  outcome: CloseOutOutcome;
+  reasonCode: string; // One of the win or loss reason codes, depending on the outcome
+  competitor?: string;
+  notes: string; // Lessons learned
+  finalDealValue: number;
+  closedAt: Timestamp;
+  closedBy: string;
+}
+
+export interface OpportunityStageTransition {
+  id?: string;
+  opportunityId: string;
+  fromStage: OpportunityStage | null; // null for the initial stage set on creation
+  toStage: OpportunityStage;
+  changedBy: string;
+  changedAt: Timestamp;
+  dealValue: number; // estimatedDealValue at the time of the transition
+  ownerId: string;
+  iolProducts: string[];
+}
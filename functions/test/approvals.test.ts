@@ -0,0 +1,61 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { ApprovalPolicy, creationBlockedReason, matchPolicies } from '../src/modules/approvals/approvals.service';
+
+const policy = (overrides: Partial<ApprovalPolicy>): ApprovalPolicy => ({
+  id: 'p1',
+  name: 'Large deals',
+  stages: ['Closed-Won'],
+  minDealValue: null,
+  commercialModelKeywords: [],
+  enabled: true,
+  createdBy: 'admin',
+  createdAt: Timestamp.now(),
+  updatedBy: 'admin',
+  updatedAt: Timestamp.now(),
+  ...overrides
+});
+
+describe('matchPolicies', () => {
+  it('matches deals at or above the minimum value', () => {
+    const policies = [policy({ minDealValue: 100000 })];
+    expect(matchPolicies(policies, { estimatedDealValue: 100000 }, 'Closed-Won')).toHaveLength(1);
+    expect(matchPolicies(policies, { estimatedDealValue: 99999 }, 'Closed-Won')).toHaveLength(0);
+    expect(matchPolicies(policies, {}, 'Closed-Won')).toHaveLength(0);
+  });
+
+  it('matches commercial model keywords case-insensitively', () => {
+    const policies = [policy({ commercialModelKeywords: [' Revenue Share '] })];
+    const [match] = matchPolicies(policies, { commercialModel: 'Tiered revenue share' }, 'Closed-Won');
+    expect(match.reason).toContain('matches "revenue share"');
+    expect(matchPolicies(policies, { commercialModel: 'Flat fee' }, 'Closed-Won')).toHaveLength(0);
+  });
+
+  it('gives both reasons when value and model match', () => {
+    const policies = [policy({ minDealValue: 1000, commercialModelKeywords: ['share'] })];
+    const [match] = matchPolicies(policies, { estimatedDealValue: 5000, commercialModel: 'Revenue share' }, 'Closed-Won');
+    expect(match.reason).toMatch(/deal value .* and commercial model/);
+  });
+
+  it('guards every move when the policy has no value or keywords', () => {
+    const [match] = matchPolicies([policy({})], {}, 'Closed-Won');
+    expect(match.reason).toBe('Large deals: every move to Closed-Won needs approval');
+  });
+
+  it('ignores disabled policies and other stages', () => {
+    expect(matchPolicies([policy({ enabled: false })], {}, 'Closed-Won')).toHaveLength(0);
+    expect(matchPolicies([policy({})], {}, 'Negotiation')).toHaveLength(0);
+  });
+});
+
+describe('creationBlockedReason', () => {
+  const policies = [policy({ minDealValue: 100000 })];
+
+  it('blocks starting a deal in a stage a policy guards', () => {
+    expect(creationBlockedReason(policies, { estimatedDealValue: 250000 }, 'Closed-Won')).toMatch(/^Starting at Closed-Won needs approval/);
+  });
+
+  it('lets deals start where no policy applies', () => {
+    expect(creationBlockedReason(policies, { estimatedDealValue: 250000 }, 'Proposal')).toBeNull();
+    expect(creationBlockedReason(policies, { estimatedDealValue: 5000 }, 'Closed-Won')).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { Opportunity } from '../src/types';
+import { DEFAULT_STAGE_WEIGHTS, ForecastDeal, buildForecast, toForecastDeal } from '../src/modules/forecast/forecast.service';
+
+const opportunity = (overrides: Partial<Opportunity>): Opportunity & { id: string } => ({
+  id: 'o1',
+  title: 'Deal',
+  accountId: 'a1',
+  ownerId: 'u1',
+  stage: 'Proposal',
+  estimatedDealValue: 1000,
+  ...overrides
+} as Opportunity & { id: string });
+
+const deal = (overrides: Partial<ForecastDeal>): ForecastDeal => ({
+  id: 'd1',
+  title: 'Deal',
+  ownerId: 'u1',
+  stage: 'Proposal',
+  category: 'pipeline',
+  value: 1000,
+  closeDate: null,
+  ...overrides
+});
+
+describe('toForecastDeal', () => {
+  it('reads close dates stored as Timestamps', () => {
+    const result = toForecastDeal(opportunity({ expectedCloseDate: Timestamp.fromDate(new Date('2026-03-15T00:00:00Z')) }));
+    expect(result?.closeDate).toBe('2026-03-15');
+  });
+
+  it('reads close dates the client sent as a seconds map', () => {
+    const seconds = Date.UTC(2026, 4, 20) / 1000;
+    const result = toForecastDeal(opportunity({ expectedCloseDate: { seconds, nanoseconds: 0 } as unknown as Timestamp }));
+    expect(result?.closeDate).toBe('2026-05-20');
+  });
+
+  it('dates and values won deals by their close-out', () => {
+    const result = toForecastDeal(opportunity({
+      stage: 'Closed-Won',
+      expectedCloseDate: Timestamp.fromDate(new Date('2026-01-31T00:00:00Z')),
+      closeOut: {
+        outcome: 'won',
+        reasonCode: 'price',
+        finalDealValue: 900,
+        notes: '',
+        closedAt: Timestamp.fromDate(new Date('2026-02-03T00:00:00Z')),
+        closedBy: 'u1'
+      }
+    }));
+    expect(result).toMatchObject({ closeDate: '2026-02-03', value: 900 });
+  });
+
+  it('leaves lost deals out', () => {
+    expect(toForecastDeal(opportunity({ stage: 'Closed-Lost' }))).toBeNull();
+  });
+});
+
+describe('buildForecast', () => {
+  const from = new Date('2026-02-10T00:00:00Z');
+
+  it('buckets deals into the periods by close date', () => {
+    const report = buildForecast([
+      deal({ id: 'd1', closeDate: '2026-02-01', value: 100 }),
+      deal({ id: 'd2', closeDate: '2026-03-31', value: 200 }),
+      deal({ id: 'd3', closeDate: '2026-04-01', value: 400 })
+    ], DEFAULT_STAGE_WEIGHTS, 'quarter', from, 2);
+
+    expect(report.periods.map(period => [period.key, period.start, period.end, period.pipeline])).toEqual([
+      ['2026-Q1', '2026-01-01', '2026-04-01', 300],
+      ['2026-Q2', '2026-04-01', '2026-07-01', 400]
+    ]);
+  });
+
+  it('keeps open deals past their date as overdue and undated ones apart', () => {
+    const report = buildForecast([
+      deal({ id: 'd1', closeDate: '2025-12-15', value: 100 }),
+      deal({ id: 'd2', closeDate: null, value: 200 }),
+      deal({ id: 'd3', stage: 'Closed-Won', closeDate: '2025-12-15', value: 400 })
+    ], DEFAULT_STAGE_WEIGHTS, 'month', from, 3);
+
+    expect(report.overdue.opportunities).toBe(1);
+    expect(report.overdue.pipeline).toBe(100);
+    expect(report.undated.pipeline).toBe(200);
+    expect(report.periods.every(period => period.opportunities === 0)).toBe(true);
+  });
+
+  it('weights open deals by stage and keeps won deals out of the pipeline', () => {
+    const report = buildForecast([
+      deal({ id: 'd1', stage: 'Proposal', category: 'commit', closeDate: '2026-02-20', value: 1000 }),
+      deal({ id: 'd2', stage: 'Closed-Won', closeDate: '2026-02-05', value: 500 })
+    ], DEFAULT_STAGE_WEIGHTS, 'month', from, 1);
+
+    const [february] = report.periods;
+    expect(february.commit).toBe(1000);
+    expect(february.closedWon).toBe(500);
+    expect(february.weighted).toBe(1000 * DEFAULT_STAGE_WEIGHTS.Proposal / 100);
+    expect(february.opportunities).toBe(1);
+  });
+});
@@ -0,0 +1,4 @@
+import { initializeApp } from 'firebase-admin/app';
+
+// Services open Firestore at import time; unit tests never reach the network
+initializeApp({ projectId: 'demo-test' });
@@ -0,0 +1,57 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { StageGates, criteriaForStage, evaluateCriteria } from '../src/modules/opportunities/stage-gates.service';
+
+const gates: StageGates = {
+  stages: {
+    Qualified: ['contact'],
+    Proposal: ['deal_value', 'products'],
+    Negotiation: ['decision_maker'],
+    'Closed-Won': ['no_open_blockers', 'checklist_complete'],
+    'Closed-Lost': ['commercial_model']
+  }
+};
+
+describe('criteriaForStage', () => {
+  it('adds the criteria of every earlier pipeline stage', () => {
+    expect(criteriaForStage(gates, 'Negotiation')).toEqual(['contact', 'decision_maker', 'deal_value', 'products']);
+  });
+
+  it('keeps Closed-Lost to its own criteria', () => {
+    expect(criteriaForStage(gates, 'Closed-Lost')).toEqual(['commercial_model']);
+  });
+
+  it('has nothing to check without gates', () => {
+    expect(criteriaForStage({ stages: {} }, 'Closed-Won')).toEqual([]);
+  });
+});
+
+describe('evaluateCriteria', () => {
+  it('passes a deal that meets every criterion', () => {
+    const unmet = evaluateCriteria(criteriaForStage(gates, 'Closed-Won'), {
+      contactIds: ['c1'],
+      estimatedDealValue: 50000,
+      iolProducts: ['Payments'],
+      blockers: [{ id: 'b1', text: 'Legal review', completed: true, createdAt: Timestamp.now() }],
+      checklist: []
+    }, 1);
+    expect(unmet).toEqual([]);
+  });
+
+  it('lists what is missing in catalogue order', () => {
+    const unmet = evaluateCriteria(criteriaForStage(gates, 'Negotiation'), { estimatedDealValue: 0 }, 0);
+    expect(unmet.map(item => item.criterion)).toEqual(['contact', 'decision_maker', 'deal_value', 'products']);
+  });
+
+  it('names open blockers and checklist items', () => {
+    const unmet = evaluateCriteria(['no_open_blockers', 'checklist_complete'], {
+      blockers: [{ id: 'b1', text: 'Legal review', completed: false, createdAt: Timestamp.now() }],
+      checklist: [{ id: 'i1', text: 'Send contract', completed: false, createdAt: Timestamp.now() }]
+    }, 0);
+    expect(unmet.map(item => item.detail)).toEqual(['Open: Legal review', 'Not done: Send contract']);
+  });
+
+  it('needs a non-blank commercial model', () => {
+    expect(evaluateCriteria(['commercial_model'], { commercialModel: '  ' }, 0)).toHaveLength(1);
+    expect(evaluateCriteria(['commercial_model'], { commercialModel: 'Revenue share' }, 0)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,78 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { Opportunity } from '../src/types';
+import { metricEvents, parsePeriod, periodContaining } from '../src/modules/targets/targets.service';
+
+const at = (iso: string) => Timestamp.fromDate(new Date(iso));
+
+describe('parsePeriod', () => {
+  it('reads month, quarter and year keys', () => {
+    expect(parsePeriod('2026-10')).toMatchObject({ type: 'month', label: 'Oct 2026', start: new Date('2026-10-01T00:00:00Z'), end: new Date('2026-11-01T00:00:00Z') });
+    expect(parsePeriod('2026-Q4')).toMatchObject({ type: 'quarter', label: 'Q4 2026', end: new Date('2027-01-01T00:00:00Z') });
+    expect(parsePeriod('2026')).toMatchObject({ type: 'year', start: new Date('2026-01-01T00:00:00Z') });
+  });
+
+  it('rejects other keys', () => {
+    expect(() => parsePeriod('2026-13')).toThrow(/Invalid period/);
+  });
+});
+
+describe('periodContaining', () => {
+  it('steps back across year boundaries', () => {
+    expect(periodContaining(new Date('2026-02-10T00:00:00Z'), 'quarter', -1).key).toBe('2025-Q4');
+    expect(periodContaining(new Date('2026-02-10T00:00:00Z'), 'month', -2).key).toBe('2025-12');
+  });
+});
+
+describe('metricEvents', () => {
+  const { start, end } = parsePeriod('2026-10');
+
+  it('credits won deals to the owner on their close date', () => {
+    const events = metricEvents({
+      opportunities: [
+        { ownerId: 'u1', stage: 'Closed-Won', estimatedDealValue: 500, closeOut: { finalDealValue: 400, closedAt: at('2026-10-05T00:00:00Z') } },
+        { ownerId: 'u1', stage: 'Closed-Won', estimatedDealValue: 700, closeOut: { finalDealValue: 700, closedAt: at('2026-09-30T00:00:00Z') } }
+      ] as Opportunity[],
+      assignments: [],
+      accounts: []
+    }, start, end);
+
+    expect(events.map(event => [event.userId, event.metric, event.amount])).toEqual([
+      ['u1', 'won_value', 400],
+      ['u1', 'won_count', 1]
+    ]);
+  });
+
+  it('counts completed opportunity and assignment activities, client-serialized dates too', () => {
+    const seconds = Date.UTC(2026, 9, 12) / 1000;
+    const events = metricEvents({
+      opportunities: [{
+        ownerId: 'u1',
+        stage: 'Proposal',
+        activities: [
+          { status: 'Completed', assignedTo: 'u2', completedAt: { seconds, nanoseconds: 0 } },
+          { status: 'Scheduled', assignedTo: 'u2', dateTime: at('2026-10-12T00:00:00Z') }
+        ]
+      }] as unknown as Opportunity[],
+      assignments: [{
+        activities: [{ status: 'Completed', assignedTo: 'u3', dateTime: at('2026-10-20T00:00:00Z') }]
+      }] as never[],
+      accounts: []
+    }, start, end);
+
+    expect(events.map(event => [event.userId, event.metric])).toEqual([
+      ['u2', 'activities_completed'],
+      ['u3', 'activities_completed']
+    ]);
+  });
+
+  it('credits new accounts to the owner', () => {
+    const events = metricEvents({
+      opportunities: [],
+      assignments: [],
+      accounts: [{ ownerId: 'u1', createdAt: at('2026-10-01T00:00:00Z') }, { ownerId: 'u1', createdAt: at('2026-11-01T00:00:00Z') }]
+    }, start, end);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ userId: 'u1', metric: 'new_accounts' });
+  });
+});
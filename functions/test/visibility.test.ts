@@ -0,0 +1,88 @@
+import { Query, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { RecordVisibility } from '../src/modules/teams/teams.service';
+import { getFilteredPage } from '../src/shared/queries';
+
+interface FakeDoc {
+  id: string;
+  ownerId?: string;
+  deleted?: boolean;
+}
+
+// Minimal ordered query over in-memory documents: supports startAfter, limit and get
+const fakeQuery = (docs: FakeDoc[], from = 0, size = Infinity): Query => ({
+  startAfter: (cursor: QueryDocumentSnapshot) => fakeQuery(docs, docs.findIndex(doc => doc.id === cursor.id) + 1, size),
+  limit: (n: number) => fakeQuery(docs, from, n),
+  get: async () => ({
+    docs: docs.slice(from, from + size).map(doc => ({ id: doc.id, data: () => doc }) as unknown as QueryDocumentSnapshot)
+  })
+}) as unknown as Query;
+
+describe('RecordVisibility', () => {
+  it('lets everything through without rules', () => {
+    const visibility = new RecordVisibility([]);
+    expect(visibility.isUnrestricted).toBe(true);
+    expect(visibility.canView('opportunities', { id: 'o1', ownerId: 'someone-else' })).toBe(true);
+  });
+
+  it('limits records to their owners', () => {
+    const visibility = new RecordVisibility([{ ownerIds: new Set(['u1']) }]);
+    expect(visibility.canView('contacts', { id: 'c1', ownerId: 'u1' })).toBe(true);
+    expect(visibility.canView('contacts', { id: 'c2', ownerId: 'u2' })).toBe(false);
+    expect(visibility.canView('contacts', { id: 'c3' })).toBe(false);
+  });
+
+  it('matches accounts by id and their records by accountId', () => {
+    const visibility = new RecordVisibility([{ accountIds: new Set(['a1']) }]);
+    expect(visibility.canView('accounts', { id: 'a1' })).toBe(true);
+    expect(visibility.canView('accounts', { id: 'a2' })).toBe(false);
+    expect(visibility.canView('opportunities', { id: 'o1', accountId: 'a1' })).toBe(true);
+    expect(visibility.canView('opportunities', { id: 'o2', accountId: 'a2' })).toBe(false);
+  });
+
+  it('keeps assignments and tasks, which have no account, out of territory scopes', () => {
+    const visibility = new RecordVisibility([{ accountIds: new Set(['a1']) }]);
+    expect(visibility.canView('products', { id: 'p1', accountId: 'a1' })).toBe(true);
+    expect(visibility.canView('assignments', { id: 't1', ownerId: 'u1' })).toBe(false);
+    expect(new RecordVisibility([{ ownerIds: new Set(['u1']) }]).canView('tasks', { id: 't2', ownerId: 'u1' })).toBe(true);
+  });
+
+  it('requires every rule to pass', () => {
+    const visibility = new RecordVisibility([{ ownerIds: new Set(['u1']) }, { accountIds: new Set(['a1']) }]);
+    expect(visibility.canView('opportunities', { ownerId: 'u1', accountId: 'a1' })).toBe(true);
+    expect(visibility.canView('opportunities', { ownerId: 'u1', accountId: 'a2' })).toBe(false);
+    expect(visibility.canView('opportunities', { ownerId: 'u2', accountId: 'a1' })).toBe(false);
+  });
+});
+
+describe('getFilteredPage', () => {
+  // 200 records where only every tenth one belongs to u1
+  const docs: FakeDoc[] = Array.from({ length: 200 }, (_, i) => ({ id: `d${i}`, ownerId: i % 10 === 0 ? 'u1' : 'u2' }));
+  const visibility = new RecordVisibility([{ ownerIds: new Set(['u1']) }]);
+  const keep = (doc: QueryDocumentSnapshot) => visibility.canView('opportunities', { id: doc.id, ...doc.data() });
+
+  it('keeps reading until the page is full', async () => {
+    const page = await getFilteredPage(fakeQuery(docs), keep, { limit: 5 });
+    expect(page.docs.map(doc => doc.id)).toEqual(['d0', 'd10', 'd20', 'd30', 'd40']);
+    expect(page.hasMore).toBe(true);
+  });
+
+  it('counts the offset in kept documents', async () => {
+    const page = await getFilteredPage(fakeQuery(docs), keep, { limit: 5, offset: 15 });
+    expect(page.docs.map(doc => doc.id)).toEqual(['d150', 'd160', 'd170', 'd180', 'd190']);
+    expect(page.hasMore).toBe(false);
+  });
+
+  it('continues after a cursor', async () => {
+    const cursor = { id: 'd40' } as QueryDocumentSnapshot;
+    const page = await getFilteredPage(fakeQuery(docs), keep, { limit: 2, startAfter: cursor });
+    expect(page.docs.map(doc => doc.id)).toEqual(['d50', 'd60']);
+    expect(page.hasMore).toBe(true);
+  });
+
+  it('skips trashed records', async () => {
+    const withTrash: FakeDoc[] = [{ id: 'a', deleted: true }, { id: 'b' }, { id: 'c' }];
+    const page = await getFilteredPage(fakeQuery(withTrash), doc => !doc.data().deleted, { limit: 2 });
+    expect(page.docs.map(doc => doc.id)).toEqual(['b', 'c']);
+    expect(page.hasMore).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import { BusinessLogicError } from '../src/shared/errors';
+import { CloseOutInput, isClosedStage, resolveCloseOut } from '../src/modules/opportunities/win-loss.service';
+
+const won: CloseOutInput = { outcome: 'won', reasonCode: 'product_fit', finalDealValue: 120000, notes: 'Signed for three years' };
+const lost: CloseOutInput = { outcome: 'lost', reasonCode: 'lost_to_competitor', finalDealValue: 0, notes: 'Went elsewhere', competitor: 'Acme' };
+
+describe('resolveCloseOut', () => {
+  it('stamps the close-out when a deal closes', () => {
+    const closeOut = resolveCloseOut('Negotiation', 'Closed-Won', won, 'u1');
+    expect(closeOut).toMatchObject({ ...won, closedBy: 'u1' });
+    expect(closeOut?.closedAt).toBeDefined();
+  });
+
+  it('needs a close-out to close, on create too', () => {
+    expect(() => resolveCloseOut('Negotiation', 'Closed-Lost', undefined, 'u1')).toThrow(BusinessLogicError);
+    expect(() => resolveCloseOut(null, 'Closed-Won', undefined, 'u1')).toThrow(/needs a close-out/);
+  });
+
+  it('rejects a close-out for the other outcome', () => {
+    expect(() => resolveCloseOut('Proposal', 'Closed-Won', lost, 'u1')).toThrow(/lost deal/);
+  });
+
+  it('rejects a close-out without a move into a closed stage', () => {
+    expect(() => resolveCloseOut('Proposal', 'Negotiation', won, 'u1')).toThrow(BusinessLogicError);
+    expect(() => resolveCloseOut('Closed-Won', 'Closed-Won', won, 'u1')).toThrow(BusinessLogicError);
+  });
+
+  it('clears the close-out when a closed deal is reopened', () => {
+    expect(resolveCloseOut('Closed-Won', 'Negotiation', undefined, 'u1')).toBeNull();
+  });
+
+  it('replaces the close-out when a deal moves between closed stages', () => {
+    expect(resolveCloseOut('Closed-Won', 'Closed-Lost', lost, 'u1')).toMatchObject({ outcome: 'lost', competitor: 'Acme' });
+  });
+
+  it('leaves other writes alone', () => {
+    expect(resolveCloseOut('Lead', 'Qualified', undefined, 'u1')).toBeUndefined();
+    expect(resolveCloseOut('Closed-Lost', undefined, undefined, 'u1')).toBeUndefined();
+    expect(resolveCloseOut(null, 'Lead', undefined, 'u1')).toBeUndefined();
+  });
+
+  it('drops a blank competitor', () => {
+    expect(resolveCloseOut('Proposal', 'Closed-Lost', { ...lost, competitor: '' }, 'u1')).not.toHaveProperty('competitor');
+  });
+});
+
+describe('isClosedStage', () => {
+  it('is true only for the closed stages', () => {
+    expect(isClosedStage('Closed-Won')).toBe(true);
+    expect(isClosedStage('Closed-Lost')).toBe(true);
+    expect(isClosedStage('Negotiation')).toBe(false);
+    expect(isClosedStage(null)).toBe(false);
+  });
+});
@@ -17,6 +17,20 @@ import { OpportunityDetails } from './pages/OpportunityDetails';
 import { Tasks } from './pages/Tasks';
 import { TaskDetails } from './pages/TaskDetails';
 import { WeeklyReport } from './pages/WeeklyReport';
+import { PipelineVelocity } from './pages/PipelineVelocity';
+import { WinLossAnalysis } from './pages/WinLossAnalysis';
+import { Forecast } from './pages/Forecast';
+import { Trash } from './pages/Trash';
+import { Duplicates } from './pages/Duplicates';
+import { UserRoles } from './pages/UserRoles';
+import { Teams } from './pages/Teams';
+import { AuditLog } from './pages/AuditLog';
+import { AISummaryFeedback } from './pages/AISummaryFeedback';
+import { AIUsage } from './pages/AIUsage';
+import { Workflows } from './pages/Workflows';
+import { Approvals } from './pages/Approvals';
+import { StageGates } from './pages/StageGates';
+import { Targets } from './pages/Targets';
 import Assignments from './pages/Assignments';
 import { Planner } from './pages/Planner';
 
@@ -70,6 +84,21 @@ function AppRoutes() {
           <WeeklyReport />
         </ProtectedRoute>
       } />
+      <Route path="/pipeline-velocity" element={
+        <ProtectedRoute>
+          <PipelineVelocity />
+        </ProtectedRoute>
+      } />
+      <Route path="/win-loss" element={
+        <ProtectedRoute>
+          <WinLossAnalysis />
+        </ProtectedRoute>
+      } />
+      <Route path="/forecast" element={
+        <ProtectedRoute>
+          <Forecast />
+        </ProtectedRoute>
+      } />
 
       <Route path="/accounts" element={
         <ProtectedRoute>
@@ -156,6 +185,61 @@ function AppRoutes() {
           <Planner />
         </ProtectedRoute>
       } />
+      <Route path="/trash" element={
+        <ProtectedRoute>
+          <Trash />
+        </ProtectedRoute>
+      } />
+      <Route path="/duplicates" element={
+        <ProtectedRoute>
+          <Duplicates />
+        </ProtectedRoute>
+      } />
+      <Route path="/users" element={
+        <ProtectedRoute>
+          <UserRoles />
+        </ProtectedRoute>
+      } />
+      <Route path="/teams" element={
+        <ProtectedRoute>
+          <Teams />
+        </ProtectedRoute>
+      } />
+      <Route path="/approvals" element={
+        <ProtectedRoute>
+          <Approvals />
+        </ProtectedRoute>
+      } />
+      <Route path="/stage-gates" element={
+        <ProtectedRoute>
+          <StageGates />
+        </ProtectedRoute>
+      } />
+      <Route path="/targets" element={
+        <ProtectedRoute>
+          <Targets />
+        </ProtectedRoute>
+      } />
+      <Route path="/workflows" element={
+        <ProtectedRoute>
+          <Workflows />
+        </ProtectedRoute>
+      } />
+      <Route path="/audit" element={
+        <ProtectedRoute>
+          <AuditLog />
+        </ProtectedRoute>
+      } />
+      <Route path="/ai-feedback" element={
+        <ProtectedRoute>
+          <AISummaryFeedback />
+        </ProtectedRoute>
+      } />
+      <Route path="/ai-usage" element={
+        <ProtectedRoute>
+          <AIUsage />
+        </ProtectedRoute>
+      } />
 
       
       {/* Catch-all route - redirect to login if not authenticated, otherwise to dashboard */}
@@ -1,19 +1,174 @@
-import React, { useState, useEffect } from 'react';
-import { Sparkles, RefreshCw, Clock, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Sparkles, RefreshCw, Clock, AlertCircle, History, ThumbsUp, ThumbsDown, Columns2, X } from 'lucide-react';
 import { useOpportunitiesApi } from '../hooks/useOpportunitiesApi';
+import { useAISummariesApi } from '../hooks/useAISummariesApi';
 import { format } from 'date-fns';
-import type { Opportunity } from '../types';
+import type { Opportunity, AISummaryVersion, SummaryRatingValue } from '../types';
 
 interface AISummaryProps {
   opportunity: Opportunity;
   onSummaryUpdate?: (summary: string) => void;
 }
 
+// Safely handle timestamp conversion
+const getTimestampAsDate = (timestamp: any): Date | null => {
+  if (!timestamp) return null;
+  
+  // If it's a Firestore Timestamp
+  if (timestamp.toDate && typeof timestamp.toDate === 'function') {
+    return timestamp.toDate();
+  }
+  
+  // If it's already a Date
+  if (timestamp instanceof Date) {
+    return timestamp;
+  }
+  
+  // If it's a string or number, try to parse it
+  if (typeof timestamp === 'string' || typeof timestamp === 'number') {
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  // Timestamps returned by Cloud Functions arrive serialized
+  if (typeof timestamp._seconds === 'number') {
+    return new Date(timestamp._seconds * 1000);
+  }
+  
+  return null;
+};
+
+const formatGeneratedAt = (timestamp: unknown) => {
+  const date = getTimestampAsDate(timestamp);
+  return date ? format(date, 'MMM d, yyyy h:mm a') : 'Unknown date';
+};
+
+interface SummaryFeedbackProps {
+  version: AISummaryVersion;
+  onRate: (version: AISummaryVersion, rating: SummaryRatingValue, comment: string) => Promise<void>;
+}
+
+/**
+ * Thumbs up/down on one summary. Picking a thumb asks for an optional comment before saving.
+ */
+const SummaryFeedback: React.FC<SummaryFeedbackProps> = ({ version, onRate }) => {
+  const [pendingRating, setPendingRating] = useState<SummaryRatingValue | null>(null);
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const current = version.myRating?.rating;
+
+  const startRating = (rating: SummaryRatingValue) => {
+    setPendingRating(rating);
+    setComment(version.myRating?.comment || '');
+  };
+
+  const handleSave = async () => {
+    if (!pendingRating) return;
+    setSaving(true);
+    try {
+      await onRate(version, pendingRating, comment.trim());
+      setPendingRating(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const thumbClass = (rating: SummaryRatingValue) => {
+    const active = (pendingRating || current) === rating;
+    if (rating === 'up') {
+      return active ? 'text-green-700 bg-green-100' : 'text-gray-500 hover:text-green-700 hover:bg-green-50';
+    }
+    return active ? 'text-red-700 bg-red-100' : 'text-gray-500 hover:text-red-700 hover:bg-red-50';
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1 text-xs">
+        <button
+          type="button"
+          onClick={() => startRating('up')}
+          className={`flex items-center gap-1 px-1.5 py-0.5 rounded transition-colors ${thumbClass('up')}`}
+          title="Helpful summary"
+        >
+          <ThumbsUp className="h-3 w-3" />
+          <span>{version.ratingCounts.up}</span>
+        </button>
+        <button
+          type="button"
+          onClick={() => startRating('down')}
+          className={`flex items-center gap-1 px-1.5 py-0.5 rounded transition-colors ${thumbClass('down')}`}
+          title="Unhelpful summary"
+        >
+          <ThumbsDown className="h-3 w-3" />
+          <span>{version.ratingCounts.down}</span>
+        </button>
+        {version.myRating?.comment && !pendingRating && (
+          <span className="ml-1 text-gray-500 italic truncate" title={version.myRating.comment}>
+            “{version.myRating.comment}”
+          </span>
+        )}
+      </div>
+
+      {pendingRating && (
+        <div className="space-y-1">
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            maxLength={1000}
+            placeholder={pendingRating === 'up' ? 'What made this summary useful? (optional)' : 'What was wrong or missing? (optional)'}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-purple-500"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="px-2 py-0.5 text-xs text-white bg-purple-600 hover:bg-purple-700 rounded-md disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save rating'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setPendingRating(null)}
+              className="px-2 py-0.5 text-xs text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
 export const AISummary: React.FC<AISummaryProps> = ({ opportunity, onSummaryUpdate }) => {
   const { generateAISummaryManual } = useOpportunitiesApi();
+  const { fetchSummaryVersions, rateSummary } = useAISummariesApi();
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showFullSummary, setShowFullSummary] = useState(false);
+  const [versions, setVersions] = useState<AISummaryVersion[]>([]);
+  const [currentSummaryId, setCurrentSummaryId] = useState<string | undefined>(opportunity.aiSummaryId);
+  const [showHistory, setShowHistory] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setVersions(await fetchSummaryVersions(opportunity.id));
+    } catch (err) {
+      console.error('Error loading AI summary versions:', err);
+    }
+  }, [fetchSummaryVersions, opportunity.id]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  useEffect(() => {
+    setCurrentSummaryId(opportunity.aiSummaryId);
+  }, [opportunity.aiSummaryId]);
 
   const handleGenerateSummary = async () => {
     setIsGenerating(true);
@@ -21,7 +176,9 @@ export const AISummary: React.FC<AISummaryProps> = ({ opportunity, onSummaryUpda
     
     try {
       const result = await generateAISummaryManual(opportunity.id);
+      setCurrentSummaryId(result.summaryId);
       onSummaryUpdate?.(result.summary);
+      await loadVersions();
     } catch (err) {
       setError('Failed to generate summary. Please try again.');
       console.error('Error generating AI summary:', err);
@@ -30,31 +187,41 @@ export const AISummary: React.FC<AISummaryProps> = ({ opportunity, onSummaryUpda
     }
   };
 
-  const hasSummary = Boolean(opportunity.aiSummary);
-  
-  // Safely handle timestamp conversion
-  const getTimestampAsDate = (timestamp: any): Date | null => {
-    if (!timestamp) return null;
-    
-    // If it's a Firestore Timestamp
-    if (timestamp.toDate && typeof timestamp.toDate === 'function') {
-      return timestamp.toDate();
-    }
-    
-    // If it's already a Date
-    if (timestamp instanceof Date) {
-      return timestamp;
-    }
-    
-    // If it's a string or number, try to parse it
-    if (typeof timestamp === 'string' || typeof timestamp === 'number') {
-      const date = new Date(timestamp);
-      return isNaN(date.getTime()) ? null : date;
+  const handleRate = async (version: AISummaryVersion, rating: SummaryRatingValue, comment: string) => {
+    setError(null);
+    try {
+      const saved = await rateSummary(version.id, rating, comment);
+      const previous = version.myRating?.rating;
+      setVersions(prev => prev.map(v => {
+        if (v.id !== version.id) return v;
+        const ratingCounts = { ...v.ratingCounts };
+        if (previous !== rating) {
+          ratingCounts[rating]++;
+          if (previous) ratingCounts[previous]--;
+        }
+        return { ...v, ratingCounts, myRating: saved };
+      }));
+    } catch (err) {
+      setError('Failed to save rating. Please try again.');
+      console.error('Error rating AI summary:', err);
     }
-    
-    return null;
   };
 
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(id)) return prev.filter(existing => existing !== id);
+      // Keep the most recent pick when a third summary is chosen
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const hasSummary = Boolean(opportunity.aiSummary);
+  const currentVersion = versions.find(v => v.id === currentSummaryId);
+  // Oldest first, so the comparison reads left to right in time
+  const compared = versions
+    .filter(v => compareIds.includes(v.id))
+    .sort((a, b) => (getTimestampAsDate(a.generatedAt)?.getTime() || 0) - (getTimestampAsDate(b.generatedAt)?.getTime() || 0));
+
   const summaryDate = getTimestampAsDate(opportunity.aiSummaryGeneratedAt);
   const summaryAge = summaryDate ? Date.now() - summaryDate.getTime() : null;
   const isStale = summaryAge ? summaryAge > 24 * 60 * 60 * 1000 : false; // 24 hours
@@ -80,14 +247,27 @@ export const AISummary: React.FC<AISummaryProps> = ({ opportunity, onSummaryUpda
           )}
         </div>
         
-        <button
-          onClick={handleGenerateSummary}
-          disabled={isGenerating}
-          className="flex items-center gap-1 px-2 py-1 text-xs text-purple-700 hover:text-purple-900 hover:bg-purple-100 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          <RefreshCw className={`h-3 w-3 ${isGenerating ? 'animate-spin' : ''}`} />
-          {isGenerating ? 'Generating...' : hasSummary ? 'Refresh' : 'Generate'}
-        </button>
+        <div className="flex items-center gap-1">
+          {versions.length > 0 && (
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className={`flex items-center gap-1 px-2 py-1 text-xs rounded-md transition-colors ${
+                showHistory ? 'text-purple-900 bg-purple-100' : 'text-purple-700 hover:text-purple-900 hover:bg-purple-100'
+              }`}
+            >
+              <History className="h-3 w-3" />
+              History ({versions.length})
+            </button>
+          )}
+          <button
+            onClick={handleGenerateSummary}
+            disabled={isGenerating}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-purple-700 hover:text-purple-900 hover:bg-purple-100 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`h-3 w-3 ${isGenerating ? 'animate-spin' : ''}`} />
+            {isGenerating ? 'Generating...' : hasSummary ? 'Refresh' : 'Generate'}
+          </button>
+        </div>
       </div>
 
       {error && (
@@ -111,11 +291,14 @@ export const AISummary: React.FC<AISummaryProps> = ({ opportunity, onSummaryUpda
             )}
           </p>
           
-          {summaryDate && (
-            <div className="text-xs text-gray-500">
-              Generated {format(summaryDate, 'MMM d, h:mm a')}
-            </div>
-          )}
+          <div className="flex items-center justify-between gap-2">
+            {summaryDate && (
+              <div className="text-xs text-gray-500">
+                Generated {format(summaryDate, 'MMM d, h:mm a')}
+              </div>
+            )}
+            {currentVersion && <SummaryFeedback version={currentVersion} onRate={handleRate} />}
+          </div>
         </div>
       ) : (
         <div className="text-sm text-gray-600 italic">
@@ -125,6 +308,75 @@ export const AISummary: React.FC<AISummaryProps> = ({ opportunity, onSummaryUpda
           }
         </div>
       )}
+
+      {showHistory && (
+        <div className="mt-3 pt-3 border-t border-purple-200 space-y-3">
+          {compared.length === 2 && (
+            <div className="p-2 bg-white rounded-md border border-gray-200">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-1 text-xs font-medium text-gray-900">
+                  <Columns2 className="h-3 w-3" />
+                  Comparing summaries
+                </div>
+                <button onClick={() => setCompareIds([])} className="text-gray-400 hover:text-gray-600" title="Close comparison">
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {compared.map(version => (
+                  <div key={version.id} className="space-y-1">
+                    <div className="text-xs text-gray-500">
+                      {formatGeneratedAt(version.generatedAt)}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {version.model} · prompt {version.promptVersion}
+                    </div>
+                    <p className="text-sm text-gray-800 leading-relaxed">{version.text}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="mt-2 text-xs text-gray-500">
+                {compared[0].inputHash === compared[1].inputHash
+                  ? 'Both were generated from the same opportunity data.'
+                  : 'The opportunity data changed between these summaries.'}
+              </div>
+            </div>
+          )}
+
+          <div className="text-xs text-gray-500">
+            Select two summaries to compare them side by side.
+          </div>
+
+          <ul className="space-y-2 max-h-96 overflow-y-auto">
+            {versions.map(version => (
+              <li key={version.id} className="p-2 bg-white rounded-md border border-gray-200">
+                <div className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(version.id)}
+                    onChange={() => toggleCompare(version.id)}
+                    className="mt-0.5 h-3 w-3 text-purple-600 border-gray-300 rounded"
+                    title="Compare"
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                      <span>{formatGeneratedAt(version.generatedAt)}</span>
+                      <span>{version.trigger === 'nightly' ? 'Nightly run' : 'Manual refresh'}</span>
+                      <span>{version.model}</span>
+                      <span className="px-1.5 py-0.5 bg-gray-100 rounded">prompt {version.promptVersion}</span>
+                      {version.id === currentSummaryId && (
+                        <span className="px-1.5 py-0.5 bg-purple-100 text-purple-700 rounded">Current</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-800 leading-relaxed">{version.text}</p>
+                    <SummaryFeedback version={version} onRate={handleRate} />
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }; 
\ No newline at end of file
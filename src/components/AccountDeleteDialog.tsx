@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import {
+  AlertTriangle,
+  ArrowRightLeft,
+  Building2,
+  CheckSquare,
+  Package,
+  Target,
+  Trash2,
+  Users,
+  X
+} from 'lucide-react';
+import type { Account } from '../types';
+import type { AccountDeleteImpact } from '../hooks/useAccountsApi';
+
+interface AccountDeleteDialogProps {
+  impact: AccountDeleteImpact;
+  accounts: Account[];
+  onConfirm: (mode: 'reassign' | 'cascade', targetAccountId?: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const AccountDeleteDialog: React.FC<AccountDeleteDialogProps> = ({
+  impact,
+  accounts,
+  onConfirm,
+  onCancel
+}) => {
+  const [mode, setMode] = useState<'reassign' | 'cascade'>('reassign');
+  const [targetAccountId, setTargetAccountId] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const targetAccounts = accounts
+    .filter(account => account.id !== impact.account.id)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const sections = [
+    { label: 'Contacts', icon: Users, items: impact.contacts.map(c => ({ id: c.id, title: c.name, detail: c.email })) },
+    { label: 'Products', icon: Package, items: impact.products.map(p => ({ id: p.id, title: p.name, detail: undefined })) },
+    { label: 'Opportunities', icon: Target, items: impact.opportunities.map(o => ({ id: o.id, title: o.title, detail: o.stage })) },
+    { label: 'Tasks', icon: CheckSquare, items: impact.tasks.map(t => ({ id: t.id, title: t.title, detail: t.status })) }
+  ];
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onConfirm(mode, mode === 'reassign' ? targetAccountId : undefined);
+    } catch (err) {
+      console.error('Error resolving account dependents:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete account');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-red-50 to-orange-50 px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-red-100 rounded-full flex items-center justify-center">
+                <AlertTriangle className="h-5 w-5 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Delete {impact.account.name}</h2>
+                <p className="text-sm text-gray-600">
+                  {impact.totalDependents} related record{impact.totalDependents === 1 ? '' : 's'} must be handled first
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onCancel}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Impact preview */}
+          <div className="space-y-3">
+            {sections.filter(section => section.items.length > 0).map(({ label, icon: Icon, items }) => (
+              <div key={label} className="border border-gray-200 rounded-lg">
+                <div className="flex items-center gap-2 px-4 py-2 bg-gray-50 border-b border-gray-200 rounded-t-lg">
+                  <Icon className="h-4 w-4 text-gray-500" />
+                  <span className="text-sm font-medium text-gray-900">{label}</span>
+                  <span className="text-xs text-gray-500">({items.length})</span>
+                </div>
+                <ul className="divide-y divide-gray-100 max-h-40 overflow-y-auto">
+                  {items.map(item => (
+                    <li key={item.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                      <span className="text-gray-900 truncate">{item.title}</span>
+                      {item.detail && <span className="ml-3 text-xs text-gray-500 flex-shrink-0">{item.detail}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+
+          {/* Resolution options */}
+          <div className="space-y-3">
+            <label className={`flex items-start gap-3 p-4 border rounded-lg cursor-pointer ${mode === 'reassign' ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}>
+              <input
+                type="radio"
+                name="deleteMode"
+                checked={mode === 'reassign'}
+                onChange={() => setMode('reassign')}
+                className="mt-1 text-blue-600 focus:ring-blue-500"
+              />
+              <div className="flex-1">
+                <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                  <ArrowRightLeft className="h-4 w-4 text-blue-500" />
+                  Move related records to another account
+                </div>
+                <p className="text-xs text-gray-600 mt-1">
+                  Contacts, products and opportunities are re-linked; tasks follow their opportunities.
+                </p>
+                {mode === 'reassign' && (
+                  <div className="mt-3 flex items-center gap-2">
+                    <Building2 className="h-4 w-4 text-gray-400" />
+                    <select
+                      value={targetAccountId}
+                      onChange={(e) => setTargetAccountId(e.target.value)}
+                      className="flex-1 text-sm border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500"
+                    >
+                      <option value="">Select target account...</option>
+                      {targetAccounts.map(account => (
+                        <option key={account.id} value={account.id}>{account.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+            </label>
+
+            <label className={`flex items-start gap-3 p-4 border rounded-lg cursor-pointer ${mode === 'cascade' ? 'border-red-500 bg-red-50' : 'border-gray-200'}`}>
+              <input
+                type="radio"
+                name="deleteMode"
+                checked={mode === 'cascade'}
+                onChange={() => setMode('cascade')}
+                className="mt-1 text-red-600 focus:ring-red-500"
+              />
+              <div className="flex-1">
+                <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                  Delete everything
+                </div>
+                <p className="text-xs text-gray-600 mt-1">
+                  All related records are moved to the trash together with the account and can be restored from there.
+                </p>
+              </div>
+            </label>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer Actions */}
+        <div className="bg-gray-50 px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+
+          <button
+            onClick={handleConfirm}
+            disabled={isSubmitting || (mode === 'reassign' && !targetAccountId)}
+            className="px-6 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-lg transition-colors flex items-center gap-2"
+          >
+            {isSubmitting ? (
+              <>
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                Deleting...
+              </>
+            ) : (
+              <>
+                <Trash2 className="h-4 w-4" />
+                {mode === 'reassign' ? 'Move & Delete Account' : 'Delete Account & Related Records'}
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { Sparkles, RefreshCw, AlertCircle, Clock } from 'lucide-react';
+import { format } from 'date-fns';
+import type { AccountBrief } from '../types';
+import { useAISummariesApi } from '../hooks/useAISummariesApi';
+import { useAuth } from '../hooks/useAuth';
+
+interface AccountRelationshipBriefProps {
+  accountId: string;
+}
+
+// Timestamps returned by Cloud Functions arrive serialized
+const toDate = (value: unknown): Date => {
+  const timestamp = value as { toDate?: () => Date; _seconds?: number; seconds?: number };
+  if (typeof timestamp?.toDate === 'function') return timestamp.toDate();
+  if (typeof timestamp?._seconds === 'number') return new Date(timestamp._seconds * 1000);
+  if (typeof timestamp?.seconds === 'number') return new Date(timestamp.seconds * 1000);
+  return new Date(value as string);
+};
+
+/**
+ * Quarterly business review brief for an account: relationship health, commercial
+ * exposure and next steps across all of its opportunities. Refreshed nightly or on demand.
+ */
+export const AccountRelationshipBrief: React.FC<AccountRelationshipBriefProps> = ({ accountId }) => {
+  const { can } = useAuth();
+  const { fetchAccountBrief, generateAccountBrief } = useAISummariesApi();
+
+  const [brief, setBrief] = useState<AccountBrief | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchAccountBrief(accountId)
+      .then(result => {
+        if (!cancelled) setBrief(result);
+      })
+      .catch(err => {
+        console.error('Error loading account brief:', err);
+        if (!cancelled) setError('Failed to load the relationship brief');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [accountId, fetchAccountBrief]);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      setBrief(await generateAccountBrief(accountId));
+    } catch (err) {
+      console.error('Error generating account brief:', err);
+      setError((err as { message?: string })?.message || 'Failed to generate the brief. Please try again.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const metrics = brief?.metrics;
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Sparkles className="w-4 h-4 text-purple-500" />
+          <h2 className="text-base font-medium text-gray-900">Relationship Brief</h2>
+        </div>
+        {can('opportunities:generateSummary') && (
+          <button
+            type="button"
+            onClick={handleGenerate}
+            disabled={isGenerating || isLoading}
+            className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-purple-700 bg-purple-50 hover:bg-purple-100 disabled:opacity-50 disabled:cursor-not-allowed rounded-md transition-colors"
+          >
+            <RefreshCw className={`w-3 h-3 ${isGenerating ? 'animate-spin' : ''}`} />
+            {isGenerating ? 'Generating...' : brief ? 'Regenerate' : 'Generate'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 mb-3 p-2 text-xs text-red-700 border border-red-200 rounded bg-red-50">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-16">
+          <div className="w-5 h-5 border-b-2 rounded-full animate-spin border-primary-600"></div>
+        </div>
+      ) : !brief || !metrics ? (
+        <p className="text-sm text-gray-500">
+          No brief yet. Briefs are refreshed nightly for accounts with opportunities or contacts.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2 mb-3 md:grid-cols-4">
+            <div className="p-2 rounded bg-green-50">
+              <p className="text-xs text-green-600">Open pipeline</p>
+              <p className="text-sm font-semibold text-green-900">
+                ${metrics.openPipelineValue.toLocaleString()} <span className="font-normal">({metrics.openOpportunities})</span>
+              </p>
+            </div>
+            <div className="p-2 rounded bg-emerald-50">
+              <p className="text-xs text-emerald-600">Closed won</p>
+              <p className="text-sm font-semibold text-emerald-900">${metrics.wonValue.toLocaleString()}</p>
+            </div>
+            <div className="p-2 rounded bg-blue-50">
+              <p className="text-xs text-blue-600">Decision makers</p>
+              <p className="text-sm font-semibold text-blue-900">{metrics.decisionMakers} of {metrics.contacts} contacts</p>
+            </div>
+            <div className={`p-2 rounded ${metrics.openBlockers > 0 ? 'bg-red-50' : 'bg-gray-50'}`}>
+              <p className={`text-xs ${metrics.openBlockers > 0 ? 'text-red-600' : 'text-gray-500'}`}>Open blockers</p>
+              <p className={`text-sm font-semibold ${metrics.openBlockers > 0 ? 'text-red-900' : 'text-gray-900'}`}>{metrics.openBlockers}</p>
+            </div>
+          </div>
+
+          <div className="text-sm leading-relaxed text-gray-800 whitespace-pre-line">{brief.text}</div>
+
+          <div className="flex items-center gap-1 mt-3 text-xs text-gray-500">
+            <Clock className="w-3 h-3" />
+            {brief.trigger === 'nightly' ? 'Nightly brief' : 'Generated'} {format(toDate(brief.generatedAt), 'MMM d, yyyy h:mm a')} by {brief.model}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Wand2, X, Calendar, CheckSquare, Ban, UserCheck } from 'lucide-react';
+import type { Contact, ExtractedActions, ProposedActivity, ProposedChecklistItem } from '../types';
+import { useAISummariesApi } from '../hooks/useAISummariesApi';
+
+export interface AcceptedActions {
+  activities: ProposedActivity[];
+  checklist: ProposedChecklistItem[];
+  blockers: ProposedChecklistItem[];
+}
+
+interface ActionExtractionDialogProps {
+  opportunityId: string;
+  contacts: Contact[]; // Contacts on the opportunity
+  initialNotes?: string;
+  onAccept: (actions: AcceptedActions) => Promise<void>;
+  onClose: () => void;
+}
+
+type Selectable<T> = T & { selected: boolean };
+
+const ACTIVITY_TYPES: ProposedActivity['activityType'][] = ['Meeting', 'Email', 'Call', 'WhatsApp', 'Demo', 'Workshop'];
+
+const select = <T,>(items: T[]): Selectable<T>[] => items.map(item => ({ ...item, selected: true }));
+const selected = <T,>(items: Selectable<T>[]): T[] => items
+  .filter(item => item.selected)
+  .map(item => {
+    const accepted: Partial<Selectable<T>> = { ...item };
+    delete accepted.selected;
+    return accepted as T;
+  });
+
+/**
+ * Paste meeting notes, get proposed follow-ups, checklist items and blockers back, then
+ * edit and accept them in one go. Nothing is saved until the user accepts.
+ */
+export const ActionExtractionDialog: React.FC<ActionExtractionDialogProps> = ({
+  opportunityId,
+  contacts,
+  initialNotes = '',
+  onAccept,
+  onClose
+}) => {
+  const { extractActions } = useAISummariesApi();
+  const [notes, setNotes] = useState(initialNotes);
+  const [result, setResult] = useState<ExtractedActions | null>(null);
+  const [activities, setActivities] = useState<Selectable<ProposedActivity>[]>([]);
+  const [checklist, setChecklist] = useState<Selectable<ProposedChecklistItem>[]>([]);
+  const [blockers, setBlockers] = useState<Selectable<ProposedChecklistItem>[]>([]);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const contactName = (contactId: string) => contacts.find(c => c.id === contactId)?.name || 'Unknown contact';
+
+  const handleExtract = async () => {
+    setIsExtracting(true);
+    setError(null);
+    try {
+      const extracted = await extractActions(opportunityId, notes);
+      setResult(extracted);
+      setActivities(select(extracted.activities));
+      setChecklist(select(extracted.checklist));
+      setBlockers(select(extracted.blockers));
+    } catch (err) {
+      console.error('Error extracting actions:', err);
+      setError((err as { message?: string })?.message || 'Failed to extract actions. Please try again.');
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onAccept({
+        activities: selected(activities),
+        checklist: selected(checklist),
+        blockers: selected(blockers)
+      });
+    } catch (err) {
+      console.error('Error saving accepted actions:', err);
+      setError((err as { message?: string })?.message || 'Failed to save the accepted items');
+      setIsSubmitting(false);
+    }
+  };
+
+  const updateAt = <T,>(setter: React.Dispatch<React.SetStateAction<T[]>>, index: number, changes: Partial<T>) => {
+    setter(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  const toggleActivityContact = (index: number, contactId: string) => {
+    const current = activities[index].relatedContactIds;
+    updateAt(setActivities, index, {
+      relatedContactIds: current.includes(contactId) ? current.filter(id => id !== contactId) : [...current, contactId]
+    });
+  };
+
+  const selectedCount = [...activities, ...checklist, ...blockers].filter(item => item.selected).length;
+  const unmatched = result?.mentionedContacts.filter(mention => !mention.contactId) || [];
+  const inputClass = 'w-full text-sm border border-gray-300 rounded-md px-2 py-1 focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+  const renderChecklistSection = (
+    title: string,
+    icon: React.ReactNode,
+    items: Selectable<ProposedChecklistItem>[],
+    setter: React.Dispatch<React.SetStateAction<Selectable<ProposedChecklistItem>[]>>
+  ) => items.length > 0 && (
+    <div className="space-y-2">
+      <h3 className="flex items-center gap-2 text-sm font-medium text-gray-900">{icon}{title}</h3>
+      {items.map((item, index) => (
+        <div key={index} className={`flex items-center gap-2 p-2 border rounded-lg ${item.selected ? 'border-gray-200' : 'border-gray-100 opacity-60'}`}>
+          <input
+            type="checkbox"
+            checked={item.selected}
+            onChange={() => updateAt(setter, index, { selected: !item.selected })}
+            className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+          />
+          <input
+            type="text"
+            value={item.text}
+            onChange={e => updateAt(setter, index, { text: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="date"
+            value={item.dueDate || ''}
+            onChange={e => updateAt(setter, index, { dueDate: e.target.value || null })}
+            className="w-36 text-sm border border-gray-300 rounded-md px-2 py-1"
+            title="Due date"
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-purple-50 to-blue-50 px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-purple-100 rounded-full flex items-center justify-center">
+                <Wand2 className="h-5 w-5 text-purple-600" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Extract actions from notes</h2>
+                <p className="text-sm text-gray-600">
+                  Review the proposed items and accept the ones you want to add.
+                </p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Meeting notes</label>
+            <textarea
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              rows={result ? 4 : 10}
+              maxLength={20000}
+              placeholder="Paste the notes from your meeting or call..."
+              className="w-full text-sm border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+            <div className="flex justify-end mt-2">
+              <button
+                type="button"
+                onClick={handleExtract}
+                disabled={isExtracting || !notes.trim()}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-purple-700 bg-purple-100 hover:bg-purple-200 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+              >
+                <Wand2 className={`h-4 w-4 ${isExtracting ? 'animate-pulse' : ''}`} />
+                {isExtracting ? 'Extracting...' : result ? 'Extract again' : 'Extract actions'}
+              </button>
+            </div>
+          </div>
+
+          {result && (
+            <>
+              {activities.length + checklist.length + blockers.length === 0 && (
+                <p className="text-sm text-gray-600">No follow-ups, checklist items or blockers were found in these notes.</p>
+              )}
+
+              {activities.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                    <Calendar className="h-4 w-4 text-blue-600" />
+                    Follow-up activities
+                  </h3>
+                  {activities.map((activity, index) => (
+                    <div key={index} className={`p-2 border rounded-lg space-y-2 ${activity.selected ? 'border-gray-200' : 'border-gray-100 opacity-60'}`}>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={activity.selected}
+                          onChange={() => updateAt(setActivities, index, { selected: !activity.selected })}
+                          className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                        />
+                        <select
+                          value={activity.activityType}
+                          onChange={e => updateAt(setActivities, index, { activityType: e.target.value as ProposedActivity['activityType'] })}
+                          className="w-28 text-sm border border-gray-300 rounded-md px-2 py-1"
+                        >
+                          {ACTIVITY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                        <input
+                          type="text"
+                          value={activity.subject}
+                          onChange={e => updateAt(setActivities, index, { subject: e.target.value })}
+                          className={inputClass}
+                        />
+                        <input
+                          type="date"
+                          value={activity.date || ''}
+                          onChange={e => updateAt(setActivities, index, { date: e.target.value || null })}
+                          className="w-36 text-sm border border-gray-300 rounded-md px-2 py-1"
+                          title="Date"
+                        />
+                      </div>
+                      {contacts.length > 0 && (
+                        <div className="flex flex-wrap gap-1 pl-6">
+                          {contacts.map(contact => contact.id && (
+                            <button
+                              key={contact.id}
+                              type="button"
+                              onClick={() => toggleActivityContact(index, contact.id!)}
+                              className={`px-2 py-0.5 text-xs rounded-full border ${
+                                activity.relatedContactIds.includes(contact.id)
+                                  ? 'bg-blue-100 border-blue-300 text-blue-800'
+                                  : 'bg-white border-gray-200 text-gray-500 hover:border-gray-300'
+                              }`}
+                            >
+                              {contact.name}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {renderChecklistSection('Checklist items', <CheckSquare className="h-4 w-4 text-green-600" />, checklist, setChecklist)}
+              {renderChecklistSection('Blockers', <Ban className="h-4 w-4 text-red-600" />, blockers, setBlockers)}
+
+              {result.mentionedContacts.length > 0 && (
+                <div className="text-sm text-gray-600 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <UserCheck className="h-4 w-4 text-gray-500" />
+                    Mentioned: {result.mentionedContacts.map(mention =>
+                      mention.contactId ? contactName(mention.contactId) : mention.mention
+                    ).join(', ')}
+                  </div>
+                  {unmatched.length > 0 && (
+                    <div className="text-xs text-amber-700 pl-6">
+                      Not on this opportunity: {unmatched.map(mention => mention.mention).join(', ')}
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer Actions */}
+        <div className="bg-gray-50 px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          <span className="text-xs text-gray-500">
+            {result && `Proposed by ${result.model}. Check dates and wording before accepting.`}
+          </span>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleAccept}
+              disabled={isSubmitting || selectedCount === 0}
+              className="px-6 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-lg transition-colors"
+            >
+              {isSubmitting ? 'Saving...' : `Accept ${selectedCount} item${selectedCount === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Trophy, XCircle, X } from 'lucide-react';
+import type { CloseOutInput, CloseOutOutcome } from '../types';
+import { CLOSE_REASON_OPTIONS } from '../types/Opportunity';
+
+interface CloseOutDialogProps {
+  outcome: CloseOutOutcome;
+  opportunityTitle: string;
+  estimatedDealValue?: number;
+  onConfirm: (closeOut: CloseOutInput) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Required before an opportunity moves to Closed-Won or Closed-Lost: why it closed,
+ * who it was lost to and what we learned
+ */
+export const CloseOutDialog: React.FC<CloseOutDialogProps> = ({
+  outcome,
+  opportunityTitle,
+  estimatedDealValue,
+  onConfirm,
+  onCancel
+}) => {
+  const [reasonCode, setReasonCode] = useState('');
+  const [competitor, setCompetitor] = useState('');
+  const [notes, setNotes] = useState('');
+  const [finalDealValue, setFinalDealValue] = useState(estimatedDealValue ? String(estimatedDealValue) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  const won = outcome === 'won';
+
+  const handleConfirm = () => {
+    const value = Number(finalDealValue);
+    if (!reasonCode) {
+      setError('Pick a reason');
+      return;
+    }
+    if (reasonCode === 'lost_to_competitor' && !competitor.trim()) {
+      setError('Name the competitor the deal was lost to');
+      return;
+    }
+    if (finalDealValue === '' || Number.isNaN(value) || value < 0) {
+      setError('Enter the final deal value');
+      return;
+    }
+    if (!notes.trim()) {
+      setError('Add notes on what we learned');
+      return;
+    }
+    onConfirm({
+      outcome,
+      reasonCode,
+      ...(competitor.trim() ? { competitor: competitor.trim() } : {}),
+      notes: notes.trim(),
+      finalDealValue: value
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className={`px-6 py-4 border-b border-gray-200 ${won ? 'bg-gradient-to-r from-green-50 to-emerald-50' : 'bg-gradient-to-r from-red-50 to-rose-50'}`}>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className={`w-10 h-10 rounded-full flex items-center justify-center ${won ? 'bg-green-100' : 'bg-red-100'}`}>
+                {won ? <Trophy className="h-5 w-5 text-green-600" /> : <XCircle className="h-5 w-5 text-red-600" />}
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">{won ? 'Close as won' : 'Close as lost'}</h2>
+                <p className="text-sm text-gray-600">{opportunityTitle}</p>
+              </div>
+            </div>
+            <button
+              onClick={onCancel}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason *</label>
+            <select
+              value={reasonCode}
+              onChange={(e) => setReasonCode(e.target.value)}
+              className="w-full text-sm border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              <option value="">Select a reason</option>
+              {CLOSE_REASON_OPTIONS[outcome].map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Competitor{reasonCode === 'lost_to_competitor' ? ' *' : ''}
+            </label>
+            <input
+              type="text"
+              value={competitor}
+              onChange={(e) => setCompetitor(e.target.value)}
+              placeholder={won ? 'Who else was in the running?' : 'Who did we lose to?'}
+              className="w-full text-sm border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Final deal value *</label>
+            <input
+              type="number"
+              min={0}
+              value={finalDealValue}
+              onChange={(e) => setFinalDealValue(e.target.value)}
+              className="w-full text-sm border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes / lessons learned *</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={4}
+              className="w-full text-sm border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer Actions */}
+        <div className="bg-gray-50 px-6 py-4 border-t border-gray-200 flex items-center justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            className="px-6 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+          >
+            Close opportunity
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
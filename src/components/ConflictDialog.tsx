@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { AlertTriangle, GitMerge, RotateCcw, X } from 'lucide-react';
+import type { ConflictChoice, MergeOutcome } from '../utils/merge';
+import { humanizeField, describeValue } from '../utils/fieldDisplay';
+
+interface ConflictDialogProps<T> {
+  recordLabel: string; // e.g. "opportunity"
+  outcome: MergeOutcome<T>;
+  fieldLabels?: Record<string, string>;
+  onMerge: (choices: Record<string, ConflictChoice>) => Promise<void>;
+  onDiscard: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Shown when a save is rejected because the record changed since it was loaded.
+ * Non-conflicting changes are merged already; the user picks a side for the rest.
+ */
+export const ConflictDialog = <T,>({
+  recordLabel,
+  outcome,
+  fieldLabels = {},
+  onMerge,
+  onDiscard,
+  onCancel
+}: ConflictDialogProps<T>) => {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>(() =>
+    Object.fromEntries(outcome.conflicts.map(conflict => [conflict.field, 'mine' as ConflictChoice]))
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const labelFor = (field: string) => fieldLabels[field] || humanizeField(field);
+
+  const handleMerge = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onMerge(choices);
+    } catch (err) {
+      console.error('Error saving merged changes:', err);
+      setError(err instanceof Error ? err.message : (err as { message?: string })?.message || 'Failed to save merged changes');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-amber-50 to-orange-50 px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-amber-100 rounded-full flex items-center justify-center">
+                <AlertTriangle className="h-5 w-5 text-amber-600" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">This {recordLabel} changed</h2>
+                <p className="text-sm text-gray-600">
+                  Someone else saved it while you were editing. Review and merge before saving.
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onCancel}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {outcome.theirChanges.length > 0 && (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800">
+              Their changes to {outcome.theirChanges.map(labelFor).join(', ')} are kept together with yours.
+            </div>
+          )}
+
+          {outcome.conflicts.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              Your changes don't overlap with theirs and can be saved as they are.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm font-medium text-gray-900">
+                {outcome.conflicts.length} field{outcome.conflicts.length === 1 ? ' was' : 's were'} changed by both of you
+              </p>
+              {outcome.conflicts.map(conflict => (
+                <div key={conflict.field} className="border border-gray-200 rounded-lg">
+                  <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 rounded-t-lg text-sm font-medium text-gray-900">
+                    {labelFor(conflict.field)}
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2 p-3">
+                    {(['mine', 'theirs'] as ConflictChoice[]).map(side => (
+                      <label
+                        key={side}
+                        className={`flex items-start gap-2 p-3 border rounded-lg cursor-pointer ${choices[conflict.field] === side ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}
+                      >
+                        <input
+                          type="radio"
+                          name={`conflict-${conflict.field}`}
+                          checked={choices[conflict.field] === side}
+                          onChange={() => setChoices(prev => ({ ...prev, [conflict.field]: side }))}
+                          className="mt-1 text-blue-600 focus:ring-blue-500"
+                        />
+                        <div className="min-w-0">
+                          <div className="text-xs font-medium text-gray-500 uppercase">
+                            {side === 'mine' ? 'Your version' : 'Their version'}
+                          </div>
+                          <div className="text-sm text-gray-900 break-words">{describeValue(conflict[side])}</div>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer Actions */}
+        <div className="bg-gray-50 px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          <button
+            onClick={onDiscard}
+            disabled={isSubmitting}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+          >
+            <RotateCcw className="h-4 w-4" />
+            Discard mine & reload
+          </button>
+
+          <button
+            onClick={handleMerge}
+            disabled={isSubmitting}
+            className="px-6 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-lg transition-colors flex items-center gap-2"
+          >
+            {isSubmitting ? (
+              <>
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <GitMerge className="h-4 w-4" />
+                Save merged
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { FileText, History } from 'lucide-react';
+
+export type DetailTab = 'details' | 'history';
+
+interface DetailTabsProps {
+  activeTab: DetailTab;
+  onChange: (tab: DetailTab) => void;
+}
+
+const TABS: Array<{ id: DetailTab; label: string; icon: React.ComponentType<{ className?: string }> }> = [
+  { id: 'details', label: 'Details', icon: FileText },
+  { id: 'history', label: 'History', icon: History }
+];
+
+/**
+ * Switches a record page between its edit form and its change history
+ */
+export const DetailTabs: React.FC<DetailTabsProps> = ({ activeTab, onChange }) => (
+  <div className="flex gap-4 -mb-3 mt-2">
+    {TABS.map(({ id, label, icon: Icon }) => (
+      <button
+        key={id}
+        type="button"
+        onClick={() => onChange(id)}
+        className={`flex items-center gap-1.5 pb-2 text-sm font-medium border-b-2 transition-colors ${activeTab === id ? 'border-primary-600 text-primary-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+      >
+        <Icon className="h-3.5 w-3.5" />
+        {label}
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,444 @@
+import React, { useState } from 'react';
+import {
+  Upload,
+  X,
+  FileSpreadsheet,
+  ArrowRight,
+  ArrowLeft,
+  CheckCircle2,
+  AlertTriangle,
+  Download
+} from 'lucide-react';
+import * as XLSX from 'xlsx';
+import type { DuplicateStrategy, ImportEntity, ImportReport, ImportRowStatus } from '../types';
+import { useImportApi } from '../hooks/useImportApi';
+
+interface ImportWizardProps {
+  entity: ImportEntity;
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+}
+
+type WizardStep = 'upload' | 'map' | 'review' | 'done';
+
+// Must match MAX_IMPORT_ROWS in the import callable
+const MAX_IMPORT_ROWS = 2000;
+
+// Account can be given by name or ID - the server resolves names to IDs
+const ACCOUNT_REFERENCE_FIELDS: ImportField[] = [
+  { key: 'accountName', label: 'Account Name' },
+  { key: 'accountId', label: 'Account ID' }
+];
+
+const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  accounts: [
+    { key: 'name', label: 'Name', required: true },
+    { key: 'region', label: 'Region', required: true },
+    { key: 'website', label: 'Website' },
+    { key: 'headquarters', label: 'Headquarters' },
+    { key: 'description', label: 'Description' },
+    { key: 'primaryContact', label: 'Primary Contact' },
+    { key: 'tags', label: 'Tags' },
+    { key: 'notes', label: 'Notes' }
+  ],
+  contacts: [
+    { key: 'name', label: 'Name', required: true },
+    { key: 'email', label: 'Email', required: true },
+    ...ACCOUNT_REFERENCE_FIELDS,
+    { key: 'phone', label: 'Phone' },
+    { key: 'position', label: 'Position' },
+    { key: 'department', label: 'Department' },
+    { key: 'contactType', label: 'Contact Type' },
+    { key: 'linkedIn', label: 'LinkedIn' },
+    { key: 'timezone', label: 'Timezone' },
+    { key: 'preferredContactMethod', label: 'Preferred Contact Method' },
+    { key: 'isDecisionMaker', label: 'Decision Maker' },
+    { key: 'notes', label: 'Notes' }
+  ],
+  products: [
+    { key: 'name', label: 'Name', required: true },
+    ...ACCOUNT_REFERENCE_FIELDS,
+    { key: 'category', label: 'Category', required: true },
+    { key: 'subcategory', label: 'Subcategory' },
+    { key: 'description', label: 'Description' },
+    { key: 'version', label: 'Version' },
+    { key: 'status', label: 'Status' },
+    { key: 'website', label: 'Website' },
+    { key: 'targetMarket', label: 'Target Market' },
+    { key: 'pricing', label: 'Pricing' },
+    { key: 'tags', label: 'Tags' },
+    { key: 'notes', label: 'Notes' }
+  ],
+  opportunities: [
+    { key: 'title', label: 'Title', required: true },
+    ...ACCOUNT_REFERENCE_FIELDS,
+    { key: 'stage', label: 'Stage', required: true },
+    { key: 'priority', label: 'Priority' },
+    { key: 'summary', label: 'Summary' },
+    { key: 'useCase', label: 'Use Case' },
+    { key: 'iolProducts', label: 'iOL Products' },
+    { key: 'commercialModel', label: 'Commercial Model' },
+    { key: 'potentialVolume', label: 'Potential Volume' },
+    { key: 'estimatedDealValue', label: 'Deal Value' },
+    { key: 'expectedCloseDate', label: 'Expected Close Date' },
+    { key: 'contactEmails', label: 'Contact Emails' },
+    { key: 'tags', label: 'Tags' },
+    { key: 'notes', label: 'Notes' }
+  ]
+};
+
+const ENTITY_LABELS: Record<ImportEntity, string> = {
+  accounts: 'Accounts',
+  contacts: 'Contacts',
+  products: 'Products',
+  opportunities: 'Opportunities'
+};
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  valid: 'bg-green-100 text-green-800',
+  created: 'bg-green-100 text-green-800',
+  duplicate: 'bg-amber-100 text-amber-800',
+  skipped: 'bg-gray-100 text-gray-700',
+  invalid: 'bg-red-100 text-red-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Match spreadsheet headers to fields by key or label, e.g. "Deal Value" -> estimatedDealValue
+const autoMapColumns = (headers: string[], fields: ImportField[]): Record<string, string> => {
+  const mapping: Record<string, string> = {};
+  headers.forEach(header => {
+    const normalized = normalizeHeader(header);
+    const field = fields.find(f => normalizeHeader(f.key) === normalized || normalizeHeader(f.label) === normalized)
+      || (normalized === 'account' ? fields.find(f => f.key === 'accountName') : undefined);
+    if (field && !Object.values(mapping).includes(field.key)) {
+      mapping[header] = field.key;
+    }
+  });
+  return mapping;
+};
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ entity, onClose, onComplete }) => {
+  const { validateImport, commitImport, loading } = useImportApi();
+  const fields = IMPORT_FIELDS[entity];
+
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [sheetRows, setSheetRows] = useState<Array<Record<string, unknown>>>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>('skip');
+  const [error, setError] = useState<string | null>(null);
+
+  const mappedFields = Object.values(mapping).filter(Boolean);
+  const missingRequired = fields.filter(field => field.required && !mappedFields.includes(field.key));
+  const needsAccount = entity !== 'accounts' && !mappedFields.includes('accountName') && !mappedFields.includes('accountId');
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      const headerRow = (XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 })[0] || []).map(String);
+      const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' });
+
+      if (rows.length === 0) {
+        setError('The file has no data rows');
+        return;
+      }
+      if (rows.length > MAX_IMPORT_ROWS) {
+        setError(`The file has ${rows.length} rows - split it into files of at most ${MAX_IMPORT_ROWS} rows`);
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setSheetRows(rows);
+      setMapping(autoMapColumns(headerRow, fields));
+      setStep('map');
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError('Could not read the file. Upload a .csv or .xlsx file.');
+    }
+  };
+
+  // Rename columns to record fields and drop unmapped ones
+  const buildRows = () => sheetRows.map(row => {
+    const mapped: Record<string, unknown> = {};
+    Object.entries(mapping).forEach(([header, field]) => {
+      if (!field) return;
+      const value = row[header];
+      // Callable payloads can't carry Date objects
+      mapped[field] = value instanceof Date ? value.toISOString() : value;
+    });
+    return mapped;
+  });
+
+  const handleValidate = async () => {
+    setError(null);
+    try {
+      setReport(await validateImport(entity, buildRows()));
+      setStep('review');
+    } catch (err) {
+      console.error('Error validating import:', err);
+      setError(err instanceof Error ? err.message : 'Failed to validate import');
+    }
+  };
+
+  const handleImport = async () => {
+    setError(null);
+    try {
+      setReport(await commitImport(entity, buildRows(), duplicateStrategy));
+      setStep('done');
+      onComplete();
+    } catch (err) {
+      console.error('Error importing records:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import records');
+    }
+  };
+
+  const handleDownloadResults = () => {
+    if (!report) return;
+    const resultRows = report.results.map(result => ({
+      'Row': result.row,
+      'Status': result.status,
+      'Record ID': result.id || '',
+      'Duplicate Of': result.duplicateOf || '',
+      'Errors': (result.errors || []).map(e => (e.field ? `${e.field}: ${e.message}` : e.message)).join('; ')
+    }));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(resultRows), 'Import Results');
+    XLSX.writeFile(workbook, `${entity}_import_results_${new Date().toISOString().split('T')[0]}.xlsx`);
+  };
+
+  const importCount = report
+    ? (report.summary.valid || 0) + (duplicateStrategy === 'create' ? report.summary.duplicate || 0 : 0)
+    : 0;
+  const problemRows = report ? report.results.filter(result => result.status !== 'valid' && result.status !== 'created') : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-50 to-green-50 px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+                <Upload className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Import {ENTITY_LABELS[entity]}</h2>
+                <p className="text-sm text-gray-600">
+                  {step === 'upload' && 'Upload a CSV or Excel file'}
+                  {step === 'map' && `${fileName} · ${sheetRows.length} rows · Map columns to fields`}
+                  {step === 'review' && 'Review the validation report'}
+                  {step === 'done' && 'Import complete'}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center gap-3 border-2 border-dashed border-gray-300 rounded-lg py-12 cursor-pointer hover:bg-gray-50">
+              <FileSpreadsheet className="h-10 w-10 text-gray-400" />
+              <span className="text-sm text-gray-700">Choose a .csv or .xlsx file</span>
+              <span className="text-xs text-gray-500">The first row must contain column headers · up to {MAX_IMPORT_ROWS} rows</span>
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                className="hidden"
+                onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+              />
+            </label>
+          )}
+
+          {step === 'map' && (
+            <div className="space-y-3">
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                {headers.map(header => (
+                  <div key={header} className="flex items-center gap-3 px-4 py-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-gray-900 truncate">{header}</div>
+                      <div className="text-xs text-gray-500 truncate">e.g. {String(sheetRows[0]?.[header] ?? '')}</div>
+                    </div>
+                    <ArrowRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                    <select
+                      value={mapping[header] || ''}
+                      onChange={(e) => setMapping(prev => ({ ...prev, [header]: e.target.value }))}
+                      className="w-56 text-sm border border-gray-300 rounded px-2 py-1 focus:ring-1 focus:ring-blue-500"
+                    >
+                      <option value="">Don't import</option>
+                      {fields.map(field => (
+                        <option
+                          key={field.key}
+                          value={field.key}
+                          disabled={mappedFields.includes(field.key) && mapping[header] !== field.key}
+                        >
+                          {field.label}{field.required ? ' *' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {(missingRequired.length > 0 || needsAccount) && (
+                <p className="text-xs text-red-600">
+                  Map the required fields: {[...missingRequired.map(f => f.label), ...(needsAccount ? ['Account Name or Account ID'] : [])].join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
+          {(step === 'review' || step === 'done') && report && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(report.summary) as ImportRowStatus[]).map(status => (
+                  <span key={status} className={`px-3 py-1 text-xs font-medium rounded-full ${STATUS_STYLES[status]}`}>
+                    {report.summary[status]} {status}
+                  </span>
+                ))}
+              </div>
+
+              {step === 'review' && (report.summary.duplicate || 0) > 0 && (
+                <div className="flex items-center gap-4 text-sm text-gray-700">
+                  <span>Duplicates:</span>
+                  <label className="flex items-center gap-1.5">
+                    <input
+                      type="radio"
+                      checked={duplicateStrategy === 'skip'}
+                      onChange={() => setDuplicateStrategy('skip')}
+                      className="text-blue-600 focus:ring-blue-500"
+                    />
+                    Skip
+                  </label>
+                  <label className="flex items-center gap-1.5">
+                    <input
+                      type="radio"
+                      checked={duplicateStrategy === 'create'}
+                      onChange={() => setDuplicateStrategy('create')}
+                      className="text-blue-600 focus:ring-blue-500"
+                    />
+                    Import anyway
+                  </label>
+                </div>
+              )}
+
+              {problemRows.length > 0 && (
+                <div className="border border-gray-200 rounded-lg max-h-72 overflow-y-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Details</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {problemRows.map(result => (
+                        <tr key={result.row}>
+                          <td className="px-3 py-2 text-gray-700">{result.row}</td>
+                          <td className="px-3 py-2">
+                            <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[result.status]}`}>
+                              {result.status}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 text-xs text-gray-600">
+                            {result.duplicateOf && <div>Duplicate of {result.duplicateOf}</div>}
+                            {(result.errors || []).map((e, index) => (
+                              <div key={index}>{e.field ? `${e.field}: ` : ''}{e.message}</div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {step === 'done' && (
+                <div className="flex items-center gap-2 text-sm text-green-700">
+                  <CheckCircle2 className="h-4 w-4" />
+                  {report.summary.created || 0} {ENTITY_LABELS[entity].toLowerCase()} imported
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer Actions */}
+        <div className="bg-gray-50 px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          {step === 'map' || step === 'review' ? (
+            <button
+              onClick={() => setStep(step === 'map' ? 'upload' : 'map')}
+              disabled={loading}
+              className="inline-flex items-center gap-1 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </button>
+          ) : step === 'done' ? (
+            <button
+              onClick={handleDownloadResults}
+              className="inline-flex items-center gap-1 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Download className="h-4 w-4" />
+              Download results
+            </button>
+          ) : (
+            <span />
+          )}
+
+          {step === 'map' && (
+            <button
+              onClick={handleValidate}
+              disabled={loading || missingRequired.length > 0 || needsAccount}
+              className="px-6 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-lg transition-colors"
+            >
+              {loading ? 'Validating...' : 'Validate'}
+            </button>
+          )}
+          {step === 'review' && (
+            <button
+              onClick={handleImport}
+              disabled={loading || importCount === 0}
+              className="px-6 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-lg transition-colors"
+            >
+              {loading ? 'Importing...' : `Import ${importCount} ${importCount === 1 ? 'row' : 'rows'}`}
+            </button>
+          )}
+          {(step === 'upload' || step === 'done') && (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
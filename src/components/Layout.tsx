@@ -14,20 +14,35 @@ import {
   Settings,
   FileCheck,
   Menu,
-  Calendar
+  Calendar,
+  Gauge,
+  Trophy,
+  LineChart,
+  Trash2,
+  GitMerge,
+  Shield,
+  Globe,
+  ScrollText,
+  Sparkles,
+  Coins,
+  Workflow,
+  ShieldCheck,
+  ListChecks,
+  Crosshair
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { Timestamp, doc, getDoc } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import { AuthStatusIndicator } from './AuthStatusIndicator';
-import type { User } from '../types';
+import type { User, Permission } from '../types';
 import { QuickAccess } from './QuickAccess';
+import { NotificationBell } from './NotificationBell';
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
-const navigationItems = [
+const navigationItems: { name: string; href: string; icon: React.ComponentType<{ className?: string }>; permission?: Permission }[] = [
   { name: 'Dashboard', href: '/', icon: LayoutDashboard },
   { name: 'Accounts', href: '/accounts', icon: Building2 },
   { name: 'Products', href: '/products', icon: Package },
@@ -36,10 +51,12 @@ const navigationItems = [
   { name: 'Tasks', href: '/tasks', icon: CheckSquare },
   { name: 'Assignments', href: '/assignments', icon: FileCheck },
   { name: 'Planner', href: '/planner', icon: Calendar },
+  { name: 'Duplicates', href: '/duplicates', icon: GitMerge, permission: 'accounts:merge' },
+  { name: 'Trash', href: '/trash', icon: Trash2, permission: 'trash:read' },
 ];
 
 export const Layout: React.FC<LayoutProps> = ({ children }) => {
-  const { currentUser, logout } = useAuth();
+  const { currentUser, logout, role, can } = useAuth();
   const navigate = useNavigate();
   const [userProfile, setUserProfile] = useState<User | null>(null);
   const [showUserMenu, setShowUserMenu] = useState(false);
@@ -60,7 +77,7 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
               id: currentUser.uid,
               email: currentUser.email!,
               displayName: currentUser.displayName || undefined,
-              role: 'user',
+              role: 'rep',
               permissions: [],
               createdAt: Timestamp.now(),
               lastLoginAt: Timestamp.now()
@@ -73,7 +90,7 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
             id: currentUser.uid,
             email: currentUser.email!,
             displayName: currentUser.displayName || undefined,
-            role: 'user',
+            role: 'rep',
             permissions: [],
             createdAt: Timestamp.now(),
             lastLoginAt: Timestamp.now()
@@ -175,16 +192,19 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
                       : userProfile?.displayName || currentUser?.email}
                   </p>
                   <p className="text-xs text-gray-400">
-                    {formatRole(userProfile?.role)}
+                    {formatRole(role || userProfile?.role)}
                   </p>
                 </div>
               </div>
-              <button
-                onClick={() => setShowUserMenu(!showUserMenu)}
-                className="p-1 rounded hover:bg-gray-800 transition-colors"
-              >
-                <ChevronDown className={`h-4 w-4 text-gray-400 transition-transform ${showUserMenu ? 'rotate-180' : ''}`} />
-              </button>
+              <div className="flex items-center gap-1">
+                <NotificationBell />
+                <button
+                  onClick={() => setShowUserMenu(!showUserMenu)}
+                  className="p-1 rounded hover:bg-gray-800 transition-colors"
+                >
+                  <ChevronDown className={`h-4 w-4 text-gray-400 transition-transform ${showUserMenu ? 'rotate-180' : ''}`} />
+                </button>
+              </div>
             </div>
 
             {/* User dropdown menu */}
@@ -199,6 +219,96 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
                     <Settings className="h-4 w-4 mr-3" />
                     Profile Settings
                   </NavLink>
+                  {can('users:manageRoles') && (
+                    <NavLink
+                      to="/users"
+                      onClick={() => setShowUserMenu(false)}
+                      className="flex items-center px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+                    >
+                      <Shield className="h-4 w-4 mr-3" />
+                      User Roles
+                    </NavLink>
+                  )}
+                  {can('teams:manage') && (
+                    <NavLink
+                      to="/teams"
+                      onClick={() => setShowUserMenu(false)}
+                      className="flex items-center px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+                    >
+                      <Globe className="h-4 w-4 mr-3" />
+                      Teams & Territories
+                    </NavLink>
+                  )}
+                  {(can('approvals:decide') || can('approvals:manage')) && (
+                    <NavLink
+                      to="/approvals"
+                      onClick={() => setShowUserMenu(false)}
+                      className="flex items-center px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+                    >
+                      <ShieldCheck className="h-4 w-4 mr-3" />
+                      Approvals
+                    </NavLink>
+                  )}
+                  {can('stageGates:manage') && (
+                    <NavLink
+                      to="/stage-gates"
+                      onClick={() => setShowUserMenu(false)}
+                      className="flex items-center px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+                    >
+                      <ListChecks className="h-4 w-4 mr-3" />
+                      Stage Criteria
+                    </NavLink>
+                  )}
+                  {can('targets:manage') && (
+                    <NavLink
+                      to="/targets"
+                      onClick={() => setShowUserMenu(false)}
+                      className="flex items-center px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+                    >
+                      <Crosshair className="h-4 w-4 mr-3" />
+                      Targets
+                    </NavLink>
+                  )}
+                  {can('workflows:manage') && (
+                    <NavLink
+                      to="/workflows"
+                      onClick={() => setShowUserMenu(false)}
+                      className="flex items-center px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+                    >
+                      <Workflow className="h-4 w-4 mr-3" />
+                      Workflow Rules
+                    </NavLink>
+                  )}
+                  {can('audit:read') && (
+                    <NavLink
+                      to="/audit"
+                      onClick={() => setShowUserMenu(false)}
+                      className="flex items-center px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+                    >
+                      <ScrollText className="h-4 w-4 mr-3" />
+                      Audit Log
+                    </NavLink>
+                  )}
+                  {can('aiSummaries:stats') && (
+                    <NavLink
+                      to="/ai-feedback"
+                      onClick={() => setShowUserMenu(false)}
+                      className="flex items-center px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+                    >
+                      <Sparkles className="h-4 w-4 mr-3" />
+                      AI Summary Feedback
+                    </NavLink>
+                  )}
+                  {can('aiUsage:read') && (
+                    <NavLink
+                      to="/ai-usage"
+                      onClick={() => setShowUserMenu(false)}
+                      className="flex items-center px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+                    >
+                      <Coins className="h-4 w-4 mr-3" />
+                      AI Usage &amp; Budgets
+                    </NavLink>
+                  )}
                   <button
                     onClick={() => {
                       setShowUserMenu(false);
@@ -217,7 +327,7 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
           {/* Navigation */}
           <nav className="flex-1 py-6 bg-transparent overflow-y-auto scrollbar-hide">
             <div className="px-3 space-y-1">
-              {navigationItems.map((item) => (
+              {navigationItems.filter(item => !item.permission || can(item.permission)).map((item) => (
                 <NavLink
                   key={item.name}
                   to={item.href}
@@ -250,6 +360,39 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
                   <ClipboardList className="h-5 w-5 mr-3" />
                   Weekly Report
                 </NavLink>
+                <NavLink
+                  to="/pipeline-velocity"
+                  className={({ isActive }) =>
+                    `sidebar-item ${
+                      isActive ? 'sidebar-item-active-iol' : 'sidebar-item-inactive-iol'
+                    }`
+                  }
+                >
+                  <Gauge className="h-5 w-5 mr-3" />
+                  Pipeline Velocity
+                </NavLink>
+                <NavLink
+                  to="/win-loss"
+                  className={({ isActive }) =>
+                    `sidebar-item ${
+                      isActive ? 'sidebar-item-active-iol' : 'sidebar-item-inactive-iol'
+                    }`
+                  }
+                >
+                  <Trophy className="h-5 w-5 mr-3" />
+                  Win/Loss Analysis
+                </NavLink>
+                <NavLink
+                  to="/forecast"
+                  className={({ isActive }) =>
+                    `sidebar-item ${
+                      isActive ? 'sidebar-item-active-iol' : 'sidebar-item-inactive-iol'
+                    }`
+                  }
+                >
+                  <LineChart className="h-5 w-5 mr-3" />
+                  Forecast
+                </NavLink>
 
 
               </div>
@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, CheckCheck } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import type { AppNotification } from '../types';
+import { useNotificationsApi } from '../hooks/useNotificationsApi';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+// Helper function to convert Cloud Functions timestamps to Date objects
+const toDate = (value: unknown): Date => {
+  const timestamp = value as { toDate?: () => Date; _seconds?: number; seconds?: number };
+  if (typeof timestamp?.toDate === 'function') return timestamp.toDate();
+  if (typeof timestamp?._seconds === 'number') return new Date(timestamp._seconds * 1000);
+  if (typeof timestamp?.seconds === 'number') return new Date(timestamp.seconds * 1000);
+  return new Date(value as string);
+};
+
+/**
+ * Bell with the unread count; opens the latest notifications. Polls while the app is open.
+ */
+export const NotificationBell: React.FC = () => {
+  const navigate = useNavigate();
+  const { fetchNotifications, markNotificationsRead } = useNotificationsApi();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const page = await fetchNotifications({ limit: 20 });
+      setNotifications(page.notifications);
+      setUnreadCount(page.unreadCount);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  }, [fetchNotifications]);
+
+  useEffect(() => {
+    loadNotifications();
+    const interval = setInterval(loadNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadNotifications]);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      await markNotificationsRead(ids);
+      setNotifications(prev => prev.map(notification =>
+        !ids || ids.includes(notification.id) ? { ...notification, read: true } : notification));
+      setUnreadCount(prev => ids ? Math.max(0, prev - ids.length) : 0);
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    if (!notification.read) {
+      markRead([notification.id]);
+    }
+    setOpen(false);
+    navigate(notification.link);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => {
+          if (!open) loadNotifications();
+          setOpen(!open);
+        }}
+        className="relative p-1 rounded hover:bg-gray-800 transition-colors"
+        title="Notifications"
+      >
+        <Bell className="h-4 w-4 text-gray-400" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 bg-iol-red rounded-full text-[10px] leading-4 font-medium text-white text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full mt-2 w-80 bg-gray-800 rounded-md shadow-lg border border-gray-700 z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700">
+            <span className="text-sm font-medium text-white">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markRead()}
+                className="flex items-center text-xs text-gray-400 hover:text-white transition-colors"
+              >
+                <CheckCheck className="h-3 w-3 mr-1" />
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-400 text-center">You're all caught up</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto py-1">
+              {notifications.map(notification => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleOpenNotification(notification)}
+                    className="w-full flex items-start gap-2 px-4 py-2 text-left hover:bg-gray-700 transition-colors"
+                  >
+                    <span className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${notification.read ? 'bg-transparent' : 'bg-iol-red'}`} />
+                    <span className="min-w-0">
+                      <span className={`block text-sm truncate ${notification.read ? 'text-gray-400' : 'text-white font-medium'}`}>
+                        {notification.title}
+                      </span>
+                      <span className="block text-xs text-gray-400 line-clamp-2">{notification.body}</span>
+                      <span className="block text-xs text-gray-500 mt-0.5">
+                        {formatDistanceToNow(toDate(notification.createdAt), { addSuffix: true })}
+                      </span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
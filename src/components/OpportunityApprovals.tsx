@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { ShieldCheck } from 'lucide-react';
+import type { ApprovalRequest } from '../types';
+import { useApprovalsApi } from '../hooks/useApprovalsApi';
+
+const STATUS_LABELS: Record<ApprovalRequest['status'], { label: string; className: string }> = {
+  pending: { label: 'Waiting for approval', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+  applied: { label: 'Approved and moved', className: 'bg-gray-100 text-gray-700' }
+};
+
+// Helper function to convert Cloud Functions timestamps to Date objects
+const toDate = (value: unknown): Date => {
+  const timestamp = value as { toDate?: () => Date; _seconds?: number; seconds?: number };
+  if (typeof timestamp?.toDate === 'function') return timestamp.toDate();
+  if (typeof timestamp?._seconds === 'number') return new Date(timestamp._seconds * 1000);
+  if (typeof timestamp?.seconds === 'number') return new Date(timestamp.seconds * 1000);
+  return new Date(value as string);
+};
+
+interface OpportunityApprovalsProps {
+  opportunityId: string;
+  refreshKey?: number; // Bump to reload, e.g. after a save was held back for approval
+  getUserName: (userId: string) => string;
+}
+
+/**
+ * Approval requests raised for this opportunity's stage changes. Hidden until there is one.
+ */
+export const OpportunityApprovals: React.FC<OpportunityApprovalsProps> = ({ opportunityId, refreshKey = 0, getUserName }) => {
+  const { fetchOpportunityApprovals } = useApprovalsApi();
+  const [requests, setRequests] = useState<ApprovalRequest[]>([]);
+
+  useEffect(() => {
+    fetchOpportunityApprovals(opportunityId)
+      .then(setRequests)
+      .catch(error => console.error('Error loading approvals:', error));
+  }, [opportunityId, refreshKey, fetchOpportunityApprovals]);
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <ShieldCheck className="h-4 w-4 text-gray-500" />
+        <h2 className="text-base font-medium text-gray-900">Approvals</h2>
+      </div>
+      <div className="space-y-3">
+        {requests.map(request => (
+          <div key={request.id} className="text-xs border-b border-gray-100 pb-2 last:border-0 last:pb-0">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-gray-700">{request.fromStage} → {request.toStage}</span>
+              <span className={`px-2 py-0.5 rounded-full ${STATUS_LABELS[request.status].className}`}>
+                {STATUS_LABELS[request.status].label}
+              </span>
+            </div>
+            <div className="text-gray-500 mt-1">
+              {getUserName(request.requestedBy)} · {format(toDate(request.requestedAt), 'MMM d, yyyy')}
+            </div>
+            {request.reasons.map((reason, index) => (
+              <div key={index} className="text-gray-500">{reason}</div>
+            ))}
+            {request.decidedBy && (
+              <div className="text-gray-700 mt-1">
+                {request.status === 'rejected' ? 'Rejected' : 'Approved'} by {getUserName(request.decidedBy)}
+                {request.comment && `: “${request.comment}”`}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
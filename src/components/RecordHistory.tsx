@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react';
+import { History, RotateCcw, AlertTriangle, ArrowRight } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import type { HistoryCollection, HistoryAction, RecordHistoryEntry } from '../types';
+import { useHistoryApi } from '../hooks/useHistoryApi';
+import { isStaleWriteError } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import { useDataContext } from '../context/DataContext';
+import { humanizeField, describeValue } from '../utils/fieldDisplay';
+
+interface RecordHistoryProps<T> {
+  collection: HistoryCollection;
+  recordId: string;
+  revision?: number; // Revision the page loaded, sent as expectedRevision on revert
+  fieldLabels?: Record<string, string>;
+  onReverted: (record: T) => void;
+}
+
+const ACTION_LABELS: Record<HistoryAction, string | null> = {
+  update: null,
+  bulk_update: 'Bulk update',
+  merge: 'Duplicate merge',
+  revert: 'Revert',
+  workflow: 'Workflow rule'
+};
+
+// Helper function to convert Cloud Functions timestamps to Date objects
+const toDate = (value: unknown): Date => {
+  const timestamp = value as { toDate?: () => Date; _seconds?: number; seconds?: number };
+  if (typeof timestamp?.toDate === 'function') return timestamp.toDate();
+  if (typeof timestamp?._seconds === 'number') return new Date(timestamp._seconds * 1000);
+  if (typeof timestamp?.seconds === 'number') return new Date(timestamp.seconds * 1000);
+  return new Date(value as string);
+};
+
+/**
+ * Who changed which field from what to what. Every entry can be reverted, which restores
+ * the record as it was before that change.
+ */
+export const RecordHistory = <T,>({
+  collection,
+  recordId,
+  revision,
+  fieldLabels = {},
+  onReverted
+}: RecordHistoryProps<T>) => {
+  const { currentUser, can } = useAuth();
+  const { cache } = useDataContext();
+  const { entries, loading, fetchHistory, revertToEntry } = useHistoryApi();
+  const users = cache.users || [];
+
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the record is saved, so the newest change shows up
+  useEffect(() => {
+    fetchHistory(collection, recordId).catch(err => {
+      console.error('Error loading history:', err);
+      setError('Failed to load history');
+    });
+  }, [fetchHistory, collection, recordId, revision]);
+
+  const getUserName = (userId: string) => {
+    if (userId === currentUser?.uid) return 'You';
+    const user = users.find(u => u.id === userId);
+    return user?.displayName || user?.email || 'Unknown user';
+  };
+
+  const labelFor = (field: string) => fieldLabels[field] || humanizeField(field);
+
+  const handleRevert = async (entry: RecordHistoryEntry) => {
+    setRevertingId(entry.id);
+    setError(null);
+    try {
+      const result = await revertToEntry<T>(collection, recordId, entry.id, revision);
+      onReverted(result.record);
+    } catch (err) {
+      console.error('Error reverting change:', err);
+      setError(isStaleWriteError(err)
+        ? 'This record was changed since you opened it. Reload the page and try again.'
+        : (err as { message?: string })?.message || 'Failed to revert change');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow">
+      <div className="flex items-center gap-2 mb-3">
+        <History className="w-4 h-4 text-gray-500" />
+        <h2 className="text-base font-medium text-gray-900">History</h2>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 mb-3 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading && entries.length === 0 ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12">
+          <History className="mx-auto h-10 w-10 text-gray-300" />
+          <p className="mt-2 text-sm text-gray-500">No changes recorded yet</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {entries.map(entry => {
+            const changedAt = toDate(entry.changedAt);
+            const actionLabel = ACTION_LABELS[entry.action];
+            return (
+              <li key={entry.id} className="py-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-sm text-gray-900">
+                      <span className="font-medium">{getUserName(entry.changedBy)}</span>
+                      {' changed '}
+                      {entry.changes.length} field{entry.changes.length === 1 ? '' : 's'}
+                      {actionLabel && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">{actionLabel}</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500" title={format(changedAt, 'MMM d, yyyy HH:mm')}>
+                      {formatDistanceToNow(changedAt, { addSuffix: true })} · Revision {entry.revision}
+                    </div>
+                  </div>
+                  {can(`${collection}:update`) && (
+                    <button
+                      onClick={() => handleRevert(entry)}
+                      disabled={revertingId !== null}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 flex-shrink-0"
+                      title="Restore the record as it was before this change"
+                    >
+                      <RotateCcw className="h-3.5 w-3.5" />
+                      {revertingId === entry.id ? 'Reverting...' : 'Revert'}
+                    </button>
+                  )}
+                </div>
+
+                <div className="mt-2 space-y-1">
+                  {entry.changes.map(change => (
+                    <div key={change.field} className="grid grid-cols-[10rem_1fr] gap-2 text-xs">
+                      <div className="font-medium text-gray-600 truncate">{labelFor(change.field)}</div>
+                      <div className="flex items-start gap-1.5 min-w-0">
+                        <span className="text-gray-500 line-through break-words min-w-0">{describeValue(change.from)}</span>
+                        <ArrowRight className="h-3 w-3 mt-0.5 text-gray-400 flex-shrink-0" />
+                        <span className="text-gray-900 break-words min-w-0">{describeValue(change.to)}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { useDataContext } from '../context/DataContext';
+import { RECORD_SCOPES } from '../types/Teams';
+import type { RecordScope } from '../types';
+
+interface ScopeSelectProps {
+  className?: string;
+}
+
+// Narrows accounts, contacts and opportunities to the user's own book, team or territory
+export const ScopeSelect: React.FC<ScopeSelectProps> = ({ className = '' }) => {
+  const { scope, setScope } = useDataContext();
+
+  return (
+    <select
+      value={scope}
+      onChange={(e) => setScope(e.target.value as RecordScope).catch(error => console.error('Error changing scope:', error))}
+      className={`px-3 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm bg-white shadow-sm ${className}`}
+      title="Show records for"
+    >
+      {RECORD_SCOPES.map(option => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { Trophy } from 'lucide-react';
+import type { LeaderboardEntry, TargetMetric, TargetPeriodType } from '../types';
+import { TARGET_METRIC_OPTIONS, formatMetricValue, periodKeyFor } from '../types/Target';
+import { useTargetsApi } from '../hooks/useTargetsApi';
+import { useDataContext } from '../context/DataContext';
+
+const PERIOD_TYPE_LABELS: Record<TargetPeriodType, string> = {
+  month: 'This month',
+  quarter: 'This quarter',
+  year: 'This year'
+};
+
+/**
+ * Users ranked on one metric for the current period, with their attainment where they have a target
+ */
+export const TargetLeaderboard: React.FC = () => {
+  const { fetchAttainment } = useTargetsApi();
+  const { cache } = useDataContext();
+  const users = cache.users || [];
+
+  const [periodType, setPeriodType] = useState<TargetPeriodType>('quarter');
+  const [metric, setMetric] = useState<TargetMetric>('won_value');
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    fetchAttainment(periodKeyFor(new Date(), periodType))
+      .then(report => setEntries(report.leaderboard))
+      .catch(err => {
+        console.error('Error loading leaderboard:', err);
+        setError('Failed to load leaderboard');
+      })
+      .finally(() => setLoading(false));
+  }, [fetchAttainment, periodType]);
+
+  const getUserName = (userId: string) => {
+    const user = users.find(u => u.id === userId);
+    return user?.displayName || user?.email || 'Unknown user';
+  };
+
+  const ranked = [...entries].sort((a, b) => b.totals[metric] - a.totals[metric]);
+  const top = Math.max(1, ...ranked.map(entry => entry.totals[metric]));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+          <Trophy className="h-5 w-5 text-gray-400" />
+          Leaderboard
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as TargetMetric)}
+            className="text-xs border border-gray-300 rounded-md px-2 py-1 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            {TARGET_METRIC_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={periodType}
+            onChange={(e) => setPeriodType(e.target.value as TargetPeriodType)}
+            className="text-xs border border-gray-300 rounded-md px-2 py-1 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            {(Object.keys(PERIOD_TYPE_LABELS) as TargetPeriodType[]).map(option => (
+              <option key={option} value={option}>{PERIOD_TYPE_LABELS[option]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-24">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+        </div>
+      ) : ranked.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">No results yet this period</p>
+      ) : (
+        <div className="space-y-3">
+          {ranked.slice(0, 10).map((entry, index) => (
+            <div key={entry.userId}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="text-gray-700">
+                  <span className="inline-block w-6 text-gray-400">{index + 1}.</span>
+                  {getUserName(entry.userId)}
+                </span>
+                <span className="text-gray-500">
+                  <span className="font-medium text-gray-900">{formatMetricValue(metric, entry.totals[metric])}</span>
+                  {entry.attainment[metric] !== undefined && ` · ${entry.attainment[metric]}% of target`}
+                </span>
+              </div>
+              <div className="w-full bg-gray-100 rounded-full h-1.5">
+                <div
+                  className="h-1.5 rounded-full bg-primary-500"
+                  style={{ width: `${(entry.totals[metric] / top) * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { Target as TargetIcon, TrendingUp } from 'lucide-react';
+import type { AttainmentTrendPoint, TargetAttainment, TargetMetric, TargetPeriodType } from '../types';
+import { TARGET_METRIC_OPTIONS, formatMetricValue, periodKeyFor } from '../types/Target';
+import { useTargetsApi } from '../hooks/useTargetsApi';
+
+interface TargetProgressProps {
+  userId: string;
+  title?: string;
+}
+
+const PERIOD_TYPE_LABELS: Record<TargetPeriodType, string> = {
+  month: 'Month',
+  quarter: 'Quarter',
+  year: 'Year'
+};
+
+const barColor = (attainment: number) => {
+  if (attainment >= 100) return 'bg-green-500';
+  if (attainment >= 70) return 'bg-blue-500';
+  if (attainment >= 40) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+/**
+ * A user's targets for the current period, including those of their teams, with attainment
+ * and how the chosen metric has trended against target
+ */
+export const TargetProgress: React.FC<TargetProgressProps> = ({ userId, title = 'My Targets' }) => {
+  const { fetchAttainment, fetchTargetTrend } = useTargetsApi();
+
+  const [periodType, setPeriodType] = useState<TargetPeriodType>('quarter');
+  const [label, setLabel] = useState('');
+  const [targets, setTargets] = useState<TargetAttainment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [trendMetric, setTrendMetric] = useState<TargetMetric>('won_value');
+  const [trend, setTrend] = useState<AttainmentTrendPoint[]>([]);
+
+  useEffect(() => {
+    if (!userId) return;
+    setLoading(true);
+    setError(null);
+    fetchAttainment(periodKeyFor(new Date(), periodType))
+      .then(report => {
+        setLabel(report.label);
+        setTargets(report.targets.filter(target =>
+          target.subjectType === 'user' ? target.subjectId === userId : !!target.memberIds?.includes(userId)
+        ));
+      })
+      .catch(err => {
+        console.error('Error loading target attainment:', err);
+        setError('Failed to load targets');
+      })
+      .finally(() => setLoading(false));
+  }, [fetchAttainment, userId, periodType]);
+
+  useEffect(() => {
+    if (!userId) return;
+    fetchTargetTrend({ subjectId: userId, metric: trendMetric, periodType, periods: periodType === 'month' ? 6 : 4 })
+      .then(setTrend)
+      .catch(err => console.error('Error loading target trend:', err));
+  }, [fetchTargetTrend, userId, trendMetric, periodType]);
+
+  const metricLabel = (metric: TargetMetric) =>
+    TARGET_METRIC_OPTIONS.find(option => option.value === metric)?.label || metric;
+
+  const trendMax = Math.max(1, ...trend.map(point => Math.max(point.actual, point.target || 0)));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+          <TargetIcon className="h-5 w-5 text-gray-400" />
+          {title}
+          {label && <span className="text-sm font-normal text-gray-500">· {label}</span>}
+        </h3>
+        <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+          {(Object.keys(PERIOD_TYPE_LABELS) as TargetPeriodType[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setPeriodType(option)}
+              className={`px-2.5 py-1 text-xs ${periodType === option ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {PERIOD_TYPE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-24">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+        </div>
+      ) : targets.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">No targets set for this {PERIOD_TYPE_LABELS[periodType].toLowerCase()}</p>
+      ) : (
+        <div className="space-y-4">
+          {targets.map(target => (
+            <div key={target.id}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="text-gray-700">
+                  {metricLabel(target.metric)}
+                  {target.subjectType === 'team' && <span className="ml-1 text-xs text-gray-400">(team)</span>}
+                </span>
+                <span className="text-gray-500">
+                  {formatMetricValue(target.metric, target.actual)} of {formatMetricValue(target.metric, target.value)}
+                  {' · '}
+                  <span className="font-medium text-gray-900">{target.attainment}%</span>
+                </span>
+              </div>
+              <div className="w-full bg-gray-100 rounded-full h-2">
+                <div
+                  className={`h-2 rounded-full ${barColor(target.attainment)}`}
+                  style={{ width: `${Math.min(target.attainment, 100)}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Trend */}
+      <div className="mt-6 pt-4 border-t border-gray-100">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="flex items-center gap-2 text-sm font-medium text-gray-800">
+            <TrendingUp className="h-4 w-4 text-gray-400" />
+            Trend
+          </h4>
+          <select
+            value={trendMetric}
+            onChange={(e) => setTrendMetric(e.target.value as TargetMetric)}
+            className="text-xs border border-gray-300 rounded-md px-2 py-1 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            {TARGET_METRIC_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-end gap-3 h-32">
+          {trend.map(point => (
+            <div key={point.period} className="flex-1 flex flex-col items-center h-full">
+              <div className="relative flex-1 w-full flex items-end justify-center">
+                {point.target !== null && (
+                  <div
+                    className="absolute left-0 right-0 border-t-2 border-dashed border-gray-400"
+                    style={{ bottom: `${(point.target / trendMax) * 100}%` }}
+                    title={`Target ${formatMetricValue(trendMetric, point.target)}`}
+                  />
+                )}
+                <div
+                  className={`w-3/5 rounded-t ${point.target !== null && point.actual >= point.target ? 'bg-green-500' : 'bg-primary-500'}`}
+                  style={{ height: `${(point.actual / trendMax) * 100}%` }}
+                  title={formatMetricValue(trendMetric, point.actual)}
+                />
+              </div>
+              <span className="mt-1 text-xs text-gray-500 whitespace-nowrap">{point.label}</span>
+            </div>
+          ))}
+        </div>
+        <p className="mt-2 text-xs text-gray-400">Bars show the actual; the dashed line is the target where one was set.</p>
+      </div>
+    </div>
+  );
+};
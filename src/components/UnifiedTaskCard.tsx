@@ -149,7 +149,7 @@ export const UnifiedTaskCard: React.FC<UnifiedTaskCardProps> = ({ task }) => {
                 </span>
                 <span className="text-sm text-gray-400">•</span>
                 <span className="text-sm font-medium text-gray-500">
-                  {getTypeLabel(task.type)}
+                  {task.missingFollowUp ? 'Missing follow-up' : getTypeLabel(task.type)}
                 </span>
               </div>
               <h3 className={`text-lg font-semibold text-gray-900 ${
@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { Sparkles, RefreshCw, Copy, Save, AlertCircle, Check } from 'lucide-react';
+import { format } from 'date-fns';
+import type { WeeklyNarrative, WeeklyReportInput } from '../types';
+import { useReportsApi } from '../hooks/useReportsApi';
+import { useAuth } from '../hooks/useAuth';
+
+interface WeeklyReportNarrativeProps {
+  isoWeek: string; // e.g. 2026-W42
+  getReportInput: () => WeeklyReportInput | null; // Built on demand from what the page has computed
+}
+
+// Timestamps returned by Cloud Functions arrive serialized
+const toDate = (value: unknown): Date => {
+  const timestamp = value as { toDate?: () => Date; _seconds?: number; seconds?: number };
+  if (typeof timestamp?.toDate === 'function') return timestamp.toDate();
+  if (typeof timestamp?._seconds === 'number') return new Date(timestamp._seconds * 1000);
+  if (typeof timestamp?.seconds === 'number') return new Date(timestamp.seconds * 1000);
+  return new Date(value as string);
+};
+
+/**
+ * Management narrative for the selected week: generated from the report data, then
+ * edited, copied and saved per ISO week
+ */
+export const WeeklyReportNarrative: React.FC<WeeklyReportNarrativeProps> = ({ isoWeek, getReportInput }) => {
+  const { can } = useAuth();
+  const { getWeeklyNarrative, generateWeeklyNarrative, saveWeeklyNarrative } = useReportsApi();
+
+  const [stored, setStored] = useState<WeeklyNarrative | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canGenerate = can('opportunities:generateSummary');
+  const hasUnsavedChanges = !!stored && draft !== stored.narrative;
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    getWeeklyNarrative(isoWeek)
+      .then(narrative => {
+        if (cancelled) return;
+        setStored(narrative);
+        setDraft(narrative?.narrative || '');
+      })
+      .catch(err => {
+        console.error('Error loading weekly narrative:', err);
+        if (!cancelled) setError('Failed to load the narrative for this week');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [isoWeek, getWeeklyNarrative]);
+
+  const handleGenerate = async () => {
+    const input = getReportInput();
+    if (!input) return;
+    if ((stored?.edited || hasUnsavedChanges) &&
+      !window.confirm('Regenerating replaces your edits to this week\'s narrative. Continue?')) {
+      return;
+    }
+
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const narrative = await generateWeeklyNarrative(isoWeek, input);
+      setStored(narrative);
+      setDraft(narrative.narrative);
+    } catch (err) {
+      console.error('Error generating weekly narrative:', err);
+      setError((err as { message?: string })?.message || 'Failed to generate the narrative. Please try again.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const narrative = await saveWeeklyNarrative(isoWeek, draft);
+      setStored(narrative);
+      setDraft(narrative.narrative);
+    } catch (err) {
+      console.error('Error saving weekly narrative:', err);
+      setError((err as { message?: string })?.message || 'Failed to save the narrative');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(draft);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy narrative to clipboard:', err);
+      setError('Failed to copy to clipboard. Please try again.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-purple-100 rounded-lg">
+            <Sparkles className="h-5 w-5 text-purple-600" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Management Narrative</h2>
+            <p className="text-xs text-gray-500">
+              {stored
+                ? `Generated ${format(toDate(stored.generatedAt), 'MMM d, h:mm a')} by ${stored.model}${stored.edited ? ' · edited' : ''}`
+                : `Key wins, deals at risk, next week focus and account highlights for ${isoWeek}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {canGenerate && (
+            <button
+              onClick={handleGenerate}
+              disabled={isGenerating || isLoading}
+              className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-purple-700 bg-purple-100 hover:bg-purple-200 disabled:opacity-50 disabled:cursor-not-allowed rounded-md transition-colors"
+            >
+              <RefreshCw className={`h-4 w-4 ${isGenerating ? 'animate-spin' : ''}`} />
+              {isGenerating ? 'Generating...' : stored ? 'Regenerate' : 'Generate'}
+            </button>
+          )}
+          {stored && (
+            <>
+              <button
+                onClick={handleCopy}
+                disabled={!draft.trim()}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !hasUnsavedChanges || !draft.trim()}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-md"
+              >
+                <Save className="h-4 w-4" />
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3 mb-4">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-24">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+        </div>
+      ) : stored ? (
+        <textarea
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          rows={16}
+          maxLength={20000}
+          className="w-full text-sm font-mono border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+        />
+      ) : (
+        <p className="text-sm text-gray-500">No narrative has been generated for this week yet.</p>
+      )}
+    </div>
+  );
+};
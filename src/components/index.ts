@@ -8,4 +8,18 @@ export { AISummary } from './AISummary';
 export { UnifiedTaskCard } from './UnifiedTaskCard';
 export { PlannerFilters } from './PlannerFilters';
 export { PlannerStats } from './PlannerStats';
-export { PlannerCalendar } from './PlannerCalendar'; 
\ No newline at end of file
+export { PlannerCalendar } from './PlannerCalendar';
+export { AccountDeleteDialog } from './AccountDeleteDialog';
+export { ImportWizard } from './ImportWizard';
+export { ScopeSelect } from './ScopeSelect';
+export { ConflictDialog } from './ConflictDialog';
+export { DetailTabs } from './DetailTabs';
+export { RecordHistory } from './RecordHistory';
+export { ActionExtractionDialog } from './ActionExtractionDialog';
+export { WeeklyReportNarrative } from './WeeklyReportNarrative';
+export { AccountRelationshipBrief } from './AccountRelationshipBrief';
+export { NotificationBell } from './NotificationBell';
+export { OpportunityApprovals } from './OpportunityApprovals';
+export { CloseOutDialog } from './CloseOutDialog'; 
+export { TargetProgress } from './TargetProgress';
+export { TargetLeaderboard } from './TargetLeaderboard';
\ No newline at end of file
@@ -5,7 +5,8 @@ import type {
   Opportunity, 
   Product, 
   Task, 
-  User 
+  User,
+  RecordScope
 } from '../types';
 import { useApi } from '../hooks/useApi';
 import { measureDataLoadTime } from '../utils/performance';
@@ -60,6 +61,10 @@ interface DataContextType {
   clearCache: (dataType?: string) => void;
   refreshData: (dataType?: string) => Promise<void>;
   
+  // Record scope for accounts, contacts and opportunities
+  scope: RecordScope;
+  setScope: (scope: RecordScope) => Promise<void>;
+  
   // Loading states
   loading: {
     accounts: boolean;
@@ -105,6 +110,13 @@ export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
   // Loading states
   const [loadingStates, setLoadingStates] = useState<Record<string, boolean>>({});
   
+  // Record scope - kept in a ref as well so fetchers read the latest value without changing identity
+  const [scope, setScopeState] = useState<RecordScope>('all');
+  const scopeRef = useRef<RecordScope>('all');
+  const getScopeParams = useCallback(() => {
+    return scopeRef.current === 'all' ? {} : { scope: scopeRef.current };
+  }, []);
+  
   // State-based cache for reactive updates
   const [cacheState, setCacheState] = useState({
     accounts: [] as Account[],
@@ -259,19 +271,19 @@ export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
 
   // Specific data fetchers
   const getAccounts = useCallback(async (): Promise<Account[]> => {
-    const result = await fetchData('accounts', 'getAccounts', {});
+    const result = await fetchData('accounts', 'getAccounts', getScopeParams());
     return Array.isArray(result) ? result : result.accounts || [];
-  }, [fetchData]);
+  }, [fetchData, getScopeParams]);
 
   const getContacts = useCallback(async (): Promise<Contact[]> => {
-    const result = await fetchData('contacts', 'getContacts', {});
+    const result = await fetchData('contacts', 'getContacts', getScopeParams());
     return Array.isArray(result) ? result : result.contacts || [];
-  }, [fetchData]);
+  }, [fetchData, getScopeParams]);
 
   const getOpportunities = useCallback(async (): Promise<Opportunity[]> => {
-    const result = await fetchData('opportunities', 'getOpportunities', {});
+    const result = await fetchData('opportunities', 'getOpportunities', getScopeParams());
     return Array.isArray(result) ? result : result.opportunities || [];
-  }, [fetchData]);
+  }, [fetchData, getScopeParams]);
 
   const getProducts = useCallback(async (): Promise<Product[]> => {
     const result = await fetchData('products', 'getProducts', {});
@@ -293,9 +305,13 @@ export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
     console.log('Loading all data using batch endpoint...');
     const timer = measureDataLoadTime('Batch Data Load');
     
+    const scopeParams = getScopeParams();
+    const scopeKey = JSON.stringify(scopeParams);
+    
     try {
       // Use the new batch endpoint for better performance
       const response = await callFunction('batchLoadDashboardData', {
+        ...scopeParams,
         includeAccounts: true,
         includeContacts: true,
         includeOpportunities: true,
@@ -318,9 +334,9 @@ export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
       });
 
       // Cache each data type individually for future access
-      if (data.accounts) setCache('accounts_{}', data.accounts);
-      if (data.contacts) setCache('contacts_{}', data.contacts);
-      if (data.opportunities) setCache('opportunities_{}', data.opportunities);
+      if (data.accounts) setCache(`accounts_${scopeKey}`, data.accounts);
+      if (data.contacts) setCache(`contacts_${scopeKey}`, data.contacts);
+      if (data.opportunities) setCache(`opportunities_${scopeKey}`, data.opportunities);
       if (data.products) setCache('products_{}', data.products);
       if (data.tasks) setCache('tasks_{}', data.tasks);
       if (data.users) setCache('users_{"limit":100}', data.users);
@@ -360,7 +376,7 @@ export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
 
       return { accounts, contacts, opportunities, products, tasks, users };
     }
-  }, [callFunction, getAccounts, getContacts, getOpportunities, getProducts, getTasks, getUsers, setCache]);
+  }, [callFunction, getAccounts, getContacts, getOpportunities, getProducts, getTasks, getUsers, getScopeParams, setCache]);
 
   // Cache management
   const clearCache = useCallback((dataType?: string): void => {
@@ -409,6 +425,16 @@ export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
     }
   }, [clearCache, getAccounts, getContacts, getOpportunities, getProducts, getTasks, getUsers, loadAllData]);
 
+  // Switch the record scope and refetch the scoped data types
+  const setScope = useCallback(async (nextScope: RecordScope): Promise<void> => {
+    scopeRef.current = nextScope;
+    setScopeState(nextScope);
+    clearCache('accounts');
+    clearCache('contacts');
+    clearCache('opportunities');
+    await Promise.all([getAccounts(), getContacts(), getOpportunities()]);
+  }, [clearCache, getAccounts, getContacts, getOpportunities]);
+
   // Auto-load data when context mounts (aggressive non-blocking)
   useEffect(() => {
     const initializeData = async () => {
@@ -438,16 +464,16 @@ export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
 
   // Direct cached data access (synchronous)
   const getCachedAccounts = useCallback((): Account[] => {
-    return getCachedData('accounts_{}') || [];
-  }, [getCachedData]);
+    return getCachedData(`accounts_${JSON.stringify(getScopeParams())}`) || [];
+  }, [getCachedData, getScopeParams]);
 
   const getCachedContacts = useCallback((): Contact[] => {
-    return getCachedData('contacts_{}') || [];
-  }, [getCachedData]);
+    return getCachedData(`contacts_${JSON.stringify(getScopeParams())}`) || [];
+  }, [getCachedData, getScopeParams]);
 
   const getCachedOpportunities = useCallback((): Opportunity[] => {
-    return getCachedData('opportunities_{}') || [];
-  }, [getCachedData]);
+    return getCachedData(`opportunities_${JSON.stringify(getScopeParams())}`) || [];
+  }, [getCachedData, getScopeParams]);
 
   const getCachedProducts = useCallback((): Product[] => {
     return getCachedData('products_{}') || [];
@@ -483,6 +509,10 @@ export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
     clearCache,
     refreshData,
     
+    // Record scope
+    scope,
+    setScope,
+    
     // Loading states
     loading,
     
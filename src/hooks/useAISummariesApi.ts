@@ -0,0 +1,58 @@
+import { useCallback } from 'react';
+import { format } from 'date-fns';
+import { useApi } from './useApi';
+import type { AccountBrief, AISummaryRating, AISummaryRatingStats, AISummaryVersion, ExtractedActions, SummaryRatingValue } from '../types';
+
+export const useAISummariesApi = () => {
+  const { callFunction, loading, error, clearError } = useApi();
+
+  // Get the executive summaries generated for an opportunity, newest first
+  const fetchSummaryVersions = useCallback(async (opportunityId: string): Promise<AISummaryVersion[]> => {
+    const result = await callFunction<{ versions: AISummaryVersion[] }>('getAISummaryVersions', { opportunityId });
+    return result.versions;
+  }, [callFunction]);
+
+  // Rate a summary; rating it again replaces the earlier rating
+  const rateSummary = useCallback(async (summaryId: string, rating: SummaryRatingValue, comment?: string): Promise<AISummaryRating> => {
+    return callFunction<AISummaryRating>('rateAISummary', { summaryId, rating, ...(comment && { comment }) });
+  }, [callFunction]);
+
+  // Get ratings grouped by prompt version and model. Empty filters are left out.
+  const fetchRatingStats = useCallback(async (filters: { promptVersion?: string; from?: string; to?: string } = {}): Promise<AISummaryRatingStats> => {
+    const activeFilters = Object.fromEntries(
+      Object.entries(filters).filter(([, value]) => value !== undefined && value !== '')
+    );
+    return callFunction<AISummaryRatingStats>('getAISummaryRatingStats', activeFilters);
+  }, [callFunction]);
+
+  // Propose activities, checklist items and blockers from meeting notes; nothing is saved
+  const extractActions = useCallback(async (opportunityId: string, notes: string): Promise<ExtractedActions> => {
+    // Relative dates in the notes are resolved against the user's local day
+    const referenceDate = format(new Date(), 'yyyy-MM-dd');
+    return callFunction<ExtractedActions>('extractOpportunityActions', { opportunityId, notes, referenceDate });
+  }, [callFunction]);
+
+  // Get the account's current relationship brief, or null if none was generated
+  const fetchAccountBrief = useCallback(async (accountId: string): Promise<AccountBrief | null> => {
+    const result = await callFunction<{ brief: AccountBrief | null }>('getAccountBrief', { accountId });
+    return result.brief;
+  }, [callFunction]);
+
+  // Regenerate the account's relationship brief from its current records
+  const generateAccountBrief = useCallback(async (accountId: string): Promise<AccountBrief> => {
+    const result = await callFunction<{ brief: AccountBrief }>('generateAccountBrief', { accountId });
+    return result.brief;
+  }, [callFunction]);
+
+  return {
+    loading,
+    error,
+    clearError,
+    fetchSummaryVersions,
+    rateSummary,
+    fetchRatingStats,
+    extractActions,
+    fetchAccountBrief,
+    generateAccountBrief
+  };
+};
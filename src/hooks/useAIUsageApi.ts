@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { useApi } from './useApi';
+import type { AIBudget, AIUsageReport } from '../types';
+
+export const useAIUsageApi = () => {
+  const { callFunction, loading, error, clearError } = useApi();
+
+  // Get daily and monthly AI spend, budget status and the latest calls (admins only)
+  const fetchAIUsage = useCallback(async (): Promise<AIUsageReport> => {
+    return callFunction<AIUsageReport>('getAIUsage', {});
+  }, [callFunction]);
+
+  // Set the spend limits in USD; null removes a limit
+  const saveAIBudget = useCallback(async (budget: { dailyLimitUsd: number | null; monthlyLimitUsd: number | null }): Promise<AIBudget> => {
+    return callFunction<AIBudget>('saveAIBudget', budget);
+  }, [callFunction]);
+
+  return {
+    loading,
+    error,
+    clearError,
+    fetchAIUsage,
+    saveAIBudget
+  };
+};
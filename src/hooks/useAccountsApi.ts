@@ -25,6 +25,24 @@ export interface AccountStats {
   recent: Account[];
 }
 
+export interface AccountDeleteImpact {
+  account: { id: string; name: string };
+  contacts: Array<{ id: string; name: string; email?: string }>;
+  products: Array<{ id: string; name: string }>;
+  opportunities: Array<{ id: string; title: string; stage: string; estimatedDealValue?: number }>;
+  tasks: Array<{ id: string; title: string; opportunityId: string; status: string }>;
+  totalDependents: number;
+}
+
+export interface ResolveDependentsResult {
+  mode: 'reassign' | 'cascade';
+  targetAccountId?: string;
+  contacts: number;
+  products: number;
+  opportunities: number;
+  tasks: number;
+}
+
 export const useAccountsApi = () => {
   const { callFunction, loading, error, clearError } = useApi();
   const [accounts, setAccounts] = useState<Account[]>([]);
@@ -82,6 +100,26 @@ export const useAccountsApi = () => {
     setAccounts(prev => prev.filter(account => account.id !== accountId));
   }, [callFunction]);
 
+  // Preview what depends on an account before deleting it
+  const getAccountDeleteImpact = useCallback(async (accountId: string): Promise<AccountDeleteImpact> => {
+    return await callFunction<AccountDeleteImpact>('getAccountDeleteImpact', { accountId });
+  }, [callFunction]);
+
+  // Reassign or cascade-delete an account's dependents, then delete the account
+  const resolveAccountDependents = useCallback(async (
+    accountId: string,
+    mode: 'reassign' | 'cascade',
+    targetAccountId?: string
+  ): Promise<ResolveDependentsResult> => {
+    const result = await callFunction<ResolveDependentsResult>('resolveAccountDependents', {
+      accountId,
+      mode,
+      targetAccountId
+    });
+    setAccounts(prev => prev.filter(account => account.id !== accountId));
+    return result;
+  }, [callFunction]);
+
   // Get accounts statistics
   const getAccountsStats = useCallback(async (): Promise<AccountStats> => {
     return await callFunction<AccountStats>('getAccountsStats');
@@ -133,6 +171,8 @@ export const useAccountsApi = () => {
     createAccount,
     updateAccount,
     deleteAccount,
+    getAccountDeleteImpact,
+    resolveAccountDependents,
     getAccountsStats,
     bulkUpdateAccounts,
     searchAccounts,
@@ -51,8 +51,11 @@ export const useActivityManager = ({ opportunities, onDataRefresh, updateOpportu
 
       const now = Timestamp.now();
       const userId = currentUser?.uid || 'system';
+      const followUpId = followUpActivity && followUpActivity.subject?.trim()
+        ? followUpActivity.id || Math.random().toString(36).substr(2, 9)
+        : undefined;
 
-      // Update the existing activity
+      // Update the existing activity; linking it to the follow-up stops the server scheduling another
       const updatedActivities = opportunity.activities.map(activity => 
         activity.id === activityId 
           ? { 
@@ -61,15 +64,16 @@ export const useActivityManager = ({ opportunities, onDataRefresh, updateOpportu
               notes: updatedNotes,
               completedAt: now,
               updatedAt: now,
-              updatedBy: userId
+              updatedBy: userId,
+              ...(followUpId && { followUpActivityId: followUpId })
             }
           : activity
       );
 
       // Add follow-up activity if provided
-      if (followUpActivity && followUpActivity.subject?.trim()) {
+      if (followUpActivity && followUpId) {
         const newFollowUpActivity: Activity = {
-          id: followUpActivity.id || Math.random().toString(36).substr(2, 9),
+          id: followUpId,
           activityType: followUpActivity.activityType!,
           method: followUpActivity.method!,
           subject: followUpActivity.subject,
@@ -80,6 +84,7 @@ export const useActivityManager = ({ opportunities, onDataRefresh, updateOpportu
           assignedTo: followUpActivity.assignedTo || activeActivity.assignedTo,
           priority: followUpActivity.priority || 'Medium',
           followUpNeeded: false,
+          followUpOf: activityId,
           attachments: followUpActivity.attachments || [],
           createdAt: followUpActivity.createdAt || now,
           createdBy: followUpActivity.createdBy || userId,
@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
 import { httpsCallable } from 'firebase/functions';
 import { functions } from '../lib/firebase';
+import type { StageGateFailure } from '../types';
 
 export interface ApiError {
   code: string;
@@ -8,6 +9,35 @@ export interface ApiError {
   details?: any;
 }
 
+// Sent back when an update carried an expectedRevision older than the stored record
+export interface StaleWriteDetails<T = unknown> {
+  code: 'STALE_WRITE';
+  expectedRevision: number;
+  currentRevision: number;
+  current: T; // The record as it is stored now
+}
+
+export const isStaleWriteError = <T = unknown>(error: unknown): error is ApiError & { details: StaleWriteDetails<T> } =>
+  !!error && typeof error === 'object' && (error as ApiError).details?.code === 'STALE_WRITE';
+
+// Sent back when a stage change needs a manager's approval; the requests have already been raised
+export interface ApprovalRequiredDetails {
+  code: 'APPROVAL_REQUIRED';
+  approvals: { id: string; opportunityId: string; toStage: string; reasons: string[] }[];
+}
+
+export const isApprovalRequiredError = (error: unknown): error is ApiError & { details: ApprovalRequiredDetails } =>
+  !!error && typeof error === 'object' && (error as ApiError).details?.code === 'APPROVAL_REQUIRED';
+
+// Sent back when a stage change or new opportunity doesn't meet the entry criteria of its stage
+export interface StageGateDetails {
+  code: 'STAGE_GATE_UNMET';
+  failures: StageGateFailure[];
+}
+
+export const isStageGateError = (error: unknown): error is ApiError & { details: StageGateDetails } =>
+  !!error && typeof error === 'object' && (error as ApiError).details?.code === 'STAGE_GATE_UNMET';
+
 export const useApi = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<ApiError | null>(null);
@@ -0,0 +1,59 @@
+import { useState, useCallback } from 'react';
+import { useApi } from './useApi';
+import type { ApprovalPolicy, ApprovalPolicyInput, ApprovalRequest, ApprovalStatus } from '../types';
+
+export const useApprovalsApi = () => {
+  const { callFunction, loading, error, clearError } = useApi();
+  const [policies, setPolicies] = useState<ApprovalPolicy[]>([]);
+
+  // Get all approval policies, sorted by name
+  const fetchPolicies = useCallback(async (): Promise<ApprovalPolicy[]> => {
+    const result = await callFunction<{ policies: ApprovalPolicy[] }>('getApprovalPolicies');
+    setPolicies(result.policies);
+    return result.policies;
+  }, [callFunction]);
+
+  // Create or update a policy
+  const savePolicy = useCallback(async (policy: ApprovalPolicyInput & { id?: string }): Promise<ApprovalPolicy> => {
+    const saved = await callFunction<ApprovalPolicy>('saveApprovalPolicy', policy);
+    setPolicies(prev => {
+      const exists = prev.some(item => item.id === saved.id);
+      return exists ? prev.map(item => item.id === saved.id ? saved : item) : [...prev, saved].sort((a, b) => a.name.localeCompare(b.name));
+    });
+    return saved;
+  }, [callFunction]);
+
+  const deletePolicy = useCallback(async (id: string): Promise<void> => {
+    await callFunction('deleteApprovalPolicy', { id });
+    setPolicies(prev => prev.filter(item => item.id !== id));
+  }, [callFunction]);
+
+  // Approval queue, newest first; every status when none is given
+  const fetchRequests = useCallback(async (status?: ApprovalStatus, limit = 50): Promise<ApprovalRequest[]> => {
+    const result = await callFunction<{ requests: ApprovalRequest[] }>('getApprovalRequests', { ...(status ? { status } : {}), limit });
+    return result.requests;
+  }, [callFunction]);
+
+  const fetchOpportunityApprovals = useCallback(async (opportunityId: string): Promise<ApprovalRequest[]> => {
+    const result = await callFunction<{ requests: ApprovalRequest[] }>('getOpportunityApprovals', { opportunityId });
+    return result.requests;
+  }, [callFunction]);
+
+  // Approve or reject a pending request; rejections need a comment
+  const decideApproval = useCallback(async (requestId: string, decision: 'approved' | 'rejected', comment?: string): Promise<ApprovalRequest> => {
+    return callFunction<ApprovalRequest>('decideApproval', { requestId, decision, ...(comment ? { comment } : {}) });
+  }, [callFunction]);
+
+  return {
+    policies,
+    loading,
+    error,
+    clearError,
+    fetchPolicies,
+    savePolicy,
+    deletePolicy,
+    fetchRequests,
+    fetchOpportunityApprovals,
+    decideApproval
+  };
+};
@@ -0,0 +1,22 @@
+import { useCallback } from 'react';
+import { useApi } from './useApi';
+import type { AuditLogFilters, AuditLogPage } from '../types';
+
+export const useAuditApi = () => {
+  const { callFunction, loading, error, clearError } = useApi();
+
+  // Get one page of audit entries, newest first. Empty filters are left out.
+  const fetchAuditLogs = useCallback(async (filters: AuditLogFilters, cursor?: string, limit = 50): Promise<AuditLogPage> => {
+    const activeFilters = Object.fromEntries(
+      Object.entries(filters).filter(([, value]) => value !== undefined && value !== '')
+    );
+    return callFunction<AuditLogPage>('getAuditLogs', { ...activeFilters, limit, ...(cursor && { cursor }) });
+  }, [callFunction]);
+
+  return {
+    loading,
+    error,
+    clearError,
+    fetchAuditLogs
+  };
+};
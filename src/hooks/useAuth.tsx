@@ -1,12 +1,14 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import {
   signInWithEmailAndPassword,
   signOut,
   onAuthStateChanged
 } from 'firebase/auth';
 import { doc, getDoc, setDoc, Timestamp } from 'firebase/firestore';
-import { auth, db } from '../lib/firebase';
+import { httpsCallable } from 'firebase/functions';
+import { auth, db, functions } from '../lib/firebase';
 import { logAuthStatus } from '../utils/authDebug';
+import type { Role, Permission, MyPermissions } from '../types/Permissions';
 
 // Simple type for Firebase user
 type FirebaseUser = {
@@ -21,6 +23,9 @@ interface AuthContextType {
   logout: () => Promise<void>;
   loading: boolean;
   authError: string | null;
+  role: Role | null;
+  permissions: Permission[];
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -42,6 +47,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [loading, setLoading] = useState(true);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [authError, setAuthError] = useState<string | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
 
   const createOrUpdateUserDocument = async (user: FirebaseUser) => {
     try {
@@ -67,7 +74,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           location: '',
           bio: '',
           avatar: '',
-          role: 'user', // Default role
+          role: 'rep', // Default role - admins assign other roles
           permissions: [],
           timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
           notifications: {
@@ -93,6 +100,24 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const loadPermissions = async () => {
+    try {
+      const getMyPermissions = httpsCallable<void, { success: boolean; data: MyPermissions }>(functions, 'getMyPermissions');
+      const result = await getMyPermissions();
+      setRole(result.data.data.role);
+      setPermissions(result.data.data.permissions);
+    } catch (error) {
+      console.error('Error loading permissions:', error);
+      // Without permissions every guarded action stays hidden; the functions enforce access regardless
+      setRole(null);
+      setPermissions([]);
+    }
+  };
+
+  const can = useCallback((permission: Permission) => {
+    return role === 'admin' || permissions.includes(permission);
+  }, [role, permissions]);
+
   const login = async (email: string, password: string) => {
     try {
       const result = await signInWithEmailAndPassword(auth, email, password);
@@ -165,6 +190,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
             console.error('Error creating/updating user document:', error);
             // Don't clear auth state just because user doc creation failed
           }
+          
+          await loadPermissions();
         } catch (error: any) {
           logAuthStatus('Token refresh failed', {
             code: error.code,
@@ -239,6 +266,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       } else {
         console.log('User signed out or auth state cleared');
         setCurrentUser(null);
+        setRole(null);
+        setPermissions([]);
       }
       
       setLoading(false);
@@ -273,7 +302,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     login,
     logout,
     loading,
-    authError
+    authError,
+    role,
+    permissions,
+    can
   };
 
   return (
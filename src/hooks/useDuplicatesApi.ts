@@ -0,0 +1,63 @@
+import { useState, useCallback } from 'react';
+import { useApi } from './useApi';
+import type {
+  AccountDuplicateRecord,
+  ContactDuplicateRecord,
+  DuplicateGroup,
+  MergeableCollection,
+  MergeResult,
+  RecordRedirect
+} from '../types';
+
+export const useDuplicatesApi = () => {
+  const { callFunction, loading, error, clearError } = useApi();
+  const [accountGroups, setAccountGroups] = useState<DuplicateGroup<AccountDuplicateRecord>[]>([]);
+  const [contactGroups, setContactGroups] = useState<DuplicateGroup<ContactDuplicateRecord>[]>([]);
+
+  // Find accounts that look like the same company
+  const findDuplicateAccounts = useCallback(async (): Promise<DuplicateGroup<AccountDuplicateRecord>[]> => {
+    const result = await callFunction<{ groups: DuplicateGroup<AccountDuplicateRecord>[] }>('findDuplicateAccounts');
+    setAccountGroups(result.groups);
+    return result.groups;
+  }, [callFunction]);
+
+  // Find contacts that look like the same person
+  const findDuplicateContacts = useCallback(async (): Promise<DuplicateGroup<ContactDuplicateRecord>[]> => {
+    const result = await callFunction<{ groups: DuplicateGroup<ContactDuplicateRecord>[] }>('findDuplicateContacts');
+    setContactGroups(result.groups);
+    return result.groups;
+  }, [callFunction]);
+
+  // Merge accounts into the surviving account
+  const mergeAccounts = useCallback(async (winnerId: string, loserIds: string[]): Promise<MergeResult> => {
+    const result = await callFunction<MergeResult>('mergeAccounts', { winnerId, loserIds });
+    setAccountGroups(prev => prev.filter(group => !group.records.some(record => record.id === winnerId)));
+    return result;
+  }, [callFunction]);
+
+  // Merge contacts into the surviving contact
+  const mergeContacts = useCallback(async (winnerId: string, loserIds: string[]): Promise<MergeResult> => {
+    const result = await callFunction<MergeResult>('mergeContacts', { winnerId, loserIds });
+    setContactGroups(prev => prev.filter(group => !group.records.some(record => record.id === winnerId)));
+    return result;
+  }, [callFunction]);
+
+  // Look up where a merged record now lives
+  const getRecordRedirect = useCallback(async (collection: MergeableCollection, id: string): Promise<RecordRedirect | null> => {
+    const result = await callFunction<{ redirect: RecordRedirect | null }>('getRecordRedirect', { collection, id });
+    return result.redirect;
+  }, [callFunction]);
+
+  return {
+    accountGroups,
+    contactGroups,
+    loading,
+    error,
+    clearError,
+    findDuplicateAccounts,
+    findDuplicateContacts,
+    mergeAccounts,
+    mergeContacts,
+    getRecordRedirect
+  };
+};
@@ -0,0 +1,49 @@
+import { useCallback } from 'react';
+import { useApi } from './useApi';
+import type { OpportunityStage, ForecastComparison, ForecastPeriodType, ForecastReport, ForecastSettings, ForecastSnapshotSummary } from '../types';
+
+export interface ForecastOptions {
+  periodType?: ForecastPeriodType;
+  periods?: number;
+  ownerId?: string;
+}
+
+export const useForecastApi = () => {
+  const { callFunction, loading, error, clearError } = useApi();
+
+  // Forecast per month or quarter by expected close date
+  const fetchForecast = useCallback(async (options: ForecastOptions = {}): Promise<ForecastReport> => {
+    return callFunction<ForecastReport>('getForecast', options);
+  }, [callFunction]);
+
+  // Probability weight per stage
+  const fetchForecastSettings = useCallback(async (): Promise<ForecastSettings> => {
+    return callFunction<ForecastSettings>('getForecastSettings');
+  }, [callFunction]);
+
+  const saveForecastSettings = useCallback(async (stageWeights: Record<OpportunityStage, number>): Promise<ForecastSettings> => {
+    return callFunction<ForecastSettings>('saveForecastSettings', { stageWeights });
+  }, [callFunction]);
+
+  // Weekly snapshots, newest first
+  const fetchForecastSnapshots = useCallback(async (limit?: number): Promise<ForecastSnapshotSummary[]> => {
+    const result = await callFunction<{ snapshots: ForecastSnapshotSummary[] }>('getForecastSnapshots', limit ? { limit } : {});
+    return result.snapshots;
+  }, [callFunction]);
+
+  // The forecast as of a snapshot next to today's, and the deals that slipped since
+  const fetchForecastComparison = useCallback(async (snapshotId: string, options: ForecastOptions = {}): Promise<ForecastComparison> => {
+    return callFunction<ForecastComparison>('getForecastComparison', { snapshotId, ...options });
+  }, [callFunction]);
+
+  return {
+    loading,
+    error,
+    clearError,
+    fetchForecast,
+    fetchForecastSettings,
+    saveForecastSettings,
+    fetchForecastSnapshots,
+    fetchForecastComparison
+  };
+};
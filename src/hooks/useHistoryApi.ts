@@ -0,0 +1,34 @@
+import { useState, useCallback } from 'react';
+import { useApi } from './useApi';
+import type { HistoryCollection, RecordHistoryEntry, RevertResult } from '../types';
+
+export const useHistoryApi = () => {
+  const { callFunction, loading, error, clearError } = useApi();
+  const [entries, setEntries] = useState<RecordHistoryEntry[]>([]);
+
+  // Get the field-level change history of a record, newest first
+  const fetchHistory = useCallback(async (collection: HistoryCollection, recordId: string): Promise<RecordHistoryEntry[]> => {
+    const result = await callFunction<{ entries: RecordHistoryEntry[] }>('getRecordHistory', { collection, recordId });
+    setEntries(result.entries);
+    return result.entries;
+  }, [callFunction]);
+
+  // Restore a record to how it looked before the given change
+  const revertToEntry = useCallback(async <T = Record<string, unknown>>(
+    collection: HistoryCollection,
+    recordId: string,
+    entryId: string,
+    expectedRevision?: number
+  ): Promise<RevertResult<T>> => {
+    return callFunction<RevertResult<T>>('revertRecordHistory', { collection, recordId, entryId, expectedRevision });
+  }, [callFunction]);
+
+  return {
+    entries,
+    loading,
+    error,
+    clearError,
+    fetchHistory,
+    revertToEntry
+  };
+};
@@ -0,0 +1,32 @@
+import { useCallback } from 'react';
+import { useApi } from './useApi';
+import type { DuplicateStrategy, ImportEntity, ImportReport } from '../types';
+
+export const useImportApi = () => {
+  const { callFunction, loading, error, clearError } = useApi();
+
+  // Validate mapped rows without writing anything
+  const validateImport = useCallback(async (
+    entity: ImportEntity,
+    rows: Array<Record<string, unknown>>
+  ): Promise<ImportReport> => {
+    return await callFunction<ImportReport>('importRecords', { entity, rows, dryRun: true });
+  }, [callFunction]);
+
+  // Create the valid rows; duplicates are skipped unless asked otherwise
+  const commitImport = useCallback(async (
+    entity: ImportEntity,
+    rows: Array<Record<string, unknown>>,
+    duplicateStrategy: DuplicateStrategy
+  ): Promise<ImportReport> => {
+    return await callFunction<ImportReport>('importRecords', { entity, rows, dryRun: false, duplicateStrategy });
+  }, [callFunction]);
+
+  return {
+    loading,
+    error,
+    clearError,
+    validateImport,
+    commitImport
+  };
+};
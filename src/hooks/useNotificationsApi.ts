@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { useApi } from './useApi';
+import type { NotificationsPage } from '../types';
+
+export const useNotificationsApi = () => {
+  const { callFunction, loading, error, clearError } = useApi();
+
+  // Get the current user's in-app notifications, newest first, with the unread count
+  const fetchNotifications = useCallback(async (options: { limit?: number; unreadOnly?: boolean } = {}): Promise<NotificationsPage> => {
+    return callFunction<NotificationsPage>('getNotifications', options);
+  }, [callFunction]);
+
+  // Mark the given notifications read, or all of them when no ids are passed
+  const markNotificationsRead = useCallback(async (ids?: string[]): Promise<{ success: boolean; updated: number }> => {
+    return callFunction<{ success: boolean; updated: number }>('markNotificationsRead', ids ? { ids } : {});
+  }, [callFunction]);
+
+  return {
+    loading,
+    error,
+    clearError,
+    fetchNotifications,
+    markNotificationsRead
+  };
+};
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import type { Opportunity, OpportunityStage, OpportunityPriority } from '../types/Opportunity';
+import type { Opportunity, OpportunityStage, OpportunityPriority, OpportunityStageTransition, CloseOutOutcome } from '../types/Opportunity';
 import { useApi } from './useApi';
 
 export interface OpportunityFilters {
@@ -41,6 +41,82 @@ export interface OpportunityStats {
   closingThisMonth: number;
 }
 
+export interface PipelineVelocityFilters {
+  ownerId?: string;
+  iolProduct?: string;
+  createdAfter?: string; // ISO date string
+  createdBefore?: string; // ISO date string
+}
+
+export interface StageVelocity {
+  stage: OpportunityStage;
+  entered: number;
+  completedStays: number;
+  averageDaysInStage: number;
+  medianDaysInStage: number;
+  currentlyInStage: number;
+  averageDaysCurrentlyInStage: number;
+}
+
+export interface StageConversion {
+  fromStage: OpportunityStage;
+  toStage: OpportunityStage;
+  entered: number;
+  converted: number;
+  conversionRate: number;
+}
+
+export interface VelocityMetrics {
+  opportunities: number;
+  closed: number;
+  won: number;
+  winRate: number;
+  averageCycleDays: number;
+  stages: StageVelocity[];
+  conversions: StageConversion[];
+}
+
+export interface PipelineVelocityReport {
+  overall: VelocityMetrics;
+  byOwner: Array<VelocityMetrics & { ownerId: string }>;
+  byProduct: Array<VelocityMetrics & { product: string }>;
+  generatedAt: string;
+}
+
+export interface WinLossFilters {
+  ownerId?: string;
+  iolProduct?: string;
+  closedAfter?: string; // ISO date string
+  closedBefore?: string; // ISO date string
+}
+
+export interface ReasonCount {
+  outcome: CloseOutOutcome;
+  reasonCode: string; // 'not_recorded' for deals closed before close-outs were captured
+  count: number;
+  value: number;
+}
+
+export interface WinLossMetrics {
+  closed: number;
+  won: number;
+  lost: number;
+  winRate: number;
+  wonValue: number;
+  lostValue: number;
+  reasons: ReasonCount[];
+}
+
+export interface WinLossReport {
+  overall: WinLossMetrics;
+  byProduct: Array<WinLossMetrics & { product: string }>;
+  byRegion: Array<WinLossMetrics & { region: string }>;
+  byOwner: Array<WinLossMetrics & { ownerId: string }>;
+  byDealSize: Array<WinLossMetrics & { band: string; label: string }>;
+  competitors: Array<{ competitor: string; won: number; lost: number }>;
+  generatedAt: string;
+}
+
 export const useOpportunitiesApi = () => {
   const { callFunction, loading, error } = useApi();
   const [opportunities, setOpportunities] = useState<Opportunity[]>([]);
@@ -85,11 +161,12 @@ export const useOpportunitiesApi = () => {
   }, [callFunction]);
 
   // Update opportunity
-  const updateOpportunity = useCallback(async (opportunityId: string, updates: Partial<Opportunity>): Promise<Opportunity> => {
+  const updateOpportunity = useCallback(async (opportunityId: string, updates: Partial<Opportunity>, expectedRevision?: number): Promise<Opportunity> => {
     try {
       const response = await callFunction('updateOpportunity', {
         opportunityId,
-        updates
+        updates,
+        expectedRevision
       });
       const updatedOpportunity = response.data as Opportunity;
       
@@ -153,11 +230,12 @@ export const useOpportunitiesApi = () => {
   }, [callFunction]);
 
   // Generate AI summary manually
-  const generateAISummaryManual = useCallback(async (opportunityId: string): Promise<{ summary: string; generatedAt: string }> => {
+  const generateAISummaryManual = useCallback(async (opportunityId: string): Promise<{ summary: string; summaryId: string; generatedAt: string }> => {
     try {
       const response = await callFunction<{ 
         success: boolean; 
         summary: string; 
+        summaryId: string;
         generatedAt: string;
         metadata?: {
           opportunityId: string;
@@ -171,6 +249,7 @@ export const useOpportunitiesApi = () => {
       // Return just the summary and generatedAt for backward compatibility
       return {
         summary: response.summary,
+        summaryId: response.summaryId,
         generatedAt: response.generatedAt
       };
     } catch (err) {
@@ -179,6 +258,39 @@ export const useOpportunitiesApi = () => {
     }
   }, [callFunction]);
 
+  // Get stage transition history for an opportunity
+  const getOpportunityStageHistory = useCallback(async (opportunityId: string): Promise<OpportunityStageTransition[]> => {
+    try {
+      const response = await callFunction('getOpportunityStageHistory', { opportunityId });
+      return response.data as OpportunityStageTransition[];
+    } catch (err) {
+      console.error('Error getting opportunity stage history:', err);
+      throw err;
+    }
+  }, [callFunction]);
+
+  // Get pipeline velocity metrics
+  const getPipelineVelocity = useCallback(async (filters: PipelineVelocityFilters = {}): Promise<PipelineVelocityReport> => {
+    try {
+      const response = await callFunction('getPipelineVelocity', filters);
+      return response.data as PipelineVelocityReport;
+    } catch (err) {
+      console.error('Error getting pipeline velocity:', err);
+      throw err;
+    }
+  }, [callFunction]);
+
+  // Get close-out reasons of won and lost deals
+  const getWinLossAnalysis = useCallback(async (filters: WinLossFilters = {}): Promise<WinLossReport> => {
+    try {
+      const response = await callFunction('getWinLossAnalysis', filters);
+      return response.data as WinLossReport;
+    } catch (err) {
+      console.error('Error getting win/loss analysis:', err);
+      throw err;
+    }
+  }, [callFunction]);
+
   // Load initial opportunities
   const loadOpportunities = useCallback(async (options: OpportunitiesQueryOptions = {}) => {
     try {
@@ -217,6 +329,9 @@ export const useOpportunitiesApi = () => {
     getOpportunitiesStats,
     bulkUpdateOpportunities,
     generateAISummaryManual,
+    getOpportunityStageHistory,
+    getPipelineVelocity,
+    getWinLossAnalysis,
     
     // Utility methods
     loadOpportunities,
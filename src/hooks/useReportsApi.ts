@@ -0,0 +1,41 @@
+import { useCallback } from 'react';
+import { useApi } from './useApi';
+import type { WeeklyNarrative, WeeklyReportData, WeeklyReportInput, WeeklyReportParams } from '../types';
+
+export const useReportsApi = () => {
+  const { callFunction, loading, error, clearError } = useApi();
+
+  // Build the weekly report on the server for the week containing weekOf
+  const getWeeklyReport = useCallback(async (params: WeeklyReportParams): Promise<WeeklyReportData> => {
+    const result = await callFunction<{ report: WeeklyReportData }>('getWeeklyReport', params);
+    return result.report;
+  }, [callFunction]);
+
+  // Get the caller's stored narrative for an ISO week, or null if none was generated
+  const getWeeklyNarrative = useCallback(async (isoWeek: string): Promise<WeeklyNarrative | null> => {
+    const result = await callFunction<{ narrative: WeeklyNarrative | null }>('getWeeklyNarrative', { isoWeek });
+    return result.narrative;
+  }, [callFunction]);
+
+  // Write a new narrative from the week's report data; replaces the stored one
+  const generateWeeklyNarrative = useCallback(async (isoWeek: string, report: WeeklyReportInput): Promise<WeeklyNarrative> => {
+    const result = await callFunction<{ narrative: WeeklyNarrative }>('generateWeeklyNarrative', { isoWeek, report });
+    return result.narrative;
+  }, [callFunction]);
+
+  // Store edits to the week's narrative
+  const saveWeeklyNarrative = useCallback(async (isoWeek: string, narrative: string): Promise<WeeklyNarrative> => {
+    const result = await callFunction<{ narrative: WeeklyNarrative }>('saveWeeklyNarrative', { isoWeek, narrative });
+    return result.narrative;
+  }, [callFunction]);
+
+  return {
+    loading,
+    error,
+    clearError,
+    getWeeklyReport,
+    getWeeklyNarrative,
+    generateWeeklyNarrative,
+    saveWeeklyNarrative
+  };
+};
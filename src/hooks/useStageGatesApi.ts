@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { useApi } from './useApi';
+import type { StageGates } from '../types';
+
+export const useStageGatesApi = () => {
+  const { callFunction, loading, error, clearError } = useApi();
+
+  // Entry criteria per stage
+  const fetchStageGates = useCallback(async (): Promise<StageGates> => {
+    return callFunction<StageGates>('getStageGates');
+  }, [callFunction]);
+
+  // Replace the criteria of every stage
+  const saveStageGates = useCallback(async (stages: StageGates['stages']): Promise<StageGates> => {
+    return callFunction<StageGates>('saveStageGates', { stages });
+  }, [callFunction]);
+
+  return {
+    loading,
+    error,
+    clearError,
+    fetchStageGates,
+    saveStageGates
+  };
+};
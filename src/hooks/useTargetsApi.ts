@@ -0,0 +1,52 @@
+import { useCallback } from 'react';
+import { useApi } from './useApi';
+import type { AttainmentReport, AttainmentTrendPoint, Target, TargetInput, TargetMetric, TargetPeriodType, TargetSubjectType } from '../types';
+
+export interface TargetTrendOptions {
+  subjectType?: TargetSubjectType;
+  subjectId: string;
+  metric: TargetMetric;
+  periodType?: TargetPeriodType;
+  periods?: number;
+}
+
+export const useTargetsApi = () => {
+  const { callFunction, loading, error, clearError } = useApi();
+
+  // Targets set for a period such as 2026-Q4
+  const fetchTargets = useCallback(async (period: string): Promise<Target[]> => {
+    const result = await callFunction<{ targets: Target[] }>('getTargets', { period });
+    return result.targets;
+  }, [callFunction]);
+
+  // Create or replace the target of a subject, period and metric
+  const saveTarget = useCallback(async (target: TargetInput): Promise<Target> => {
+    return callFunction<Target>('saveTarget', target);
+  }, [callFunction]);
+
+  const deleteTarget = useCallback(async (id: string): Promise<void> => {
+    await callFunction('deleteTarget', { id });
+  }, [callFunction]);
+
+  // Attainment of every target in the period and the leaderboard
+  const fetchAttainment = useCallback(async (period: string): Promise<AttainmentReport> => {
+    return callFunction<AttainmentReport>('getTargetAttainment', { period });
+  }, [callFunction]);
+
+  // Target against actual over recent periods, oldest first
+  const fetchTargetTrend = useCallback(async (options: TargetTrendOptions): Promise<AttainmentTrendPoint[]> => {
+    const result = await callFunction<{ points: AttainmentTrendPoint[] }>('getTargetTrend', options);
+    return result.points;
+  }, [callFunction]);
+
+  return {
+    loading,
+    error,
+    clearError,
+    fetchTargets,
+    saveTarget,
+    deleteTarget,
+    fetchAttainment,
+    fetchTargetTrend
+  };
+};
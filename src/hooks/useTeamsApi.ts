@@ -0,0 +1,65 @@
+import { useState, useCallback } from 'react';
+import { useApi } from './useApi';
+import type { Team, Territory, TeamsResponse } from '../types';
+
+export type TeamInput = Pick<Team, 'name' | 'description' | 'managerIds' | 'memberIds' | 'territoryIds'> & { id?: string };
+export type TerritoryInput = Pick<Territory, 'name' | 'description' | 'regions'> & { id?: string };
+
+export const useTeamsApi = () => {
+  const { callFunction, loading, error, clearError } = useApi();
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [territories, setTerritories] = useState<Territory[]>([]);
+
+  // Get all teams and territories
+  const fetchTeams = useCallback(async (): Promise<TeamsResponse> => {
+    const result = await callFunction<TeamsResponse>('getTeams');
+    setTeams(result.teams);
+    setTerritories(result.territories);
+    return result;
+  }, [callFunction]);
+
+  // Create or update a team
+  const saveTeam = useCallback(async (team: TeamInput): Promise<Team> => {
+    const saved = await callFunction<Team>('saveTeam', team);
+    setTeams(prev => {
+      const exists = prev.some(item => item.id === saved.id);
+      return exists ? prev.map(item => item.id === saved.id ? saved : item) : [...prev, saved];
+    });
+    return saved;
+  }, [callFunction]);
+
+  const deleteTeam = useCallback(async (id: string): Promise<void> => {
+    await callFunction('deleteTeam', { id });
+    setTeams(prev => prev.filter(item => item.id !== id));
+  }, [callFunction]);
+
+  // Create or update a territory
+  const saveTerritory = useCallback(async (territory: TerritoryInput): Promise<Territory> => {
+    const saved = await callFunction<Territory>('saveTerritory', territory);
+    setTerritories(prev => {
+      const exists = prev.some(item => item.id === saved.id);
+      return exists ? prev.map(item => item.id === saved.id ? saved : item) : [...prev, saved];
+    });
+    return saved;
+  }, [callFunction]);
+
+  // Delete a territory; teams covering it are detached on the server
+  const deleteTerritory = useCallback(async (id: string): Promise<void> => {
+    await callFunction('deleteTerritory', { id });
+    setTerritories(prev => prev.filter(item => item.id !== id));
+    setTeams(prev => prev.map(team => ({ ...team, territoryIds: team.territoryIds.filter(territoryId => territoryId !== id) })));
+  }, [callFunction]);
+
+  return {
+    teams,
+    territories,
+    loading,
+    error,
+    clearError,
+    fetchTeams,
+    saveTeam,
+    deleteTeam,
+    saveTerritory,
+    deleteTerritory
+  };
+};
@@ -0,0 +1,45 @@
+import { useState, useCallback } from 'react';
+import { useApi } from './useApi';
+import type { TrashItem, TrashCollection } from '../types';
+
+export interface TrashResponse {
+  items: TrashItem[];
+  retentionDays: number;
+}
+
+export const useTrashApi = () => {
+  const { callFunction, loading, error, clearError } = useApi();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+
+  // Get soft-deleted items, optionally for a single collection
+  const fetchTrashItems = useCallback(async (collection?: TrashCollection): Promise<TrashResponse> => {
+    const result = await callFunction<TrashResponse>('getTrashItems', collection ? { collection } : {});
+    setItems(result.items);
+    setRetentionDays(result.retentionDays);
+    return result;
+  }, [callFunction]);
+
+  // Restore a soft-deleted item
+  const restoreItem = useCallback(async (collection: TrashCollection, id: string): Promise<void> => {
+    await callFunction('restoreTrashItem', { collection, id });
+    setItems(prev => prev.filter(item => !(item.collection === collection && item.id === id)));
+  }, [callFunction]);
+
+  // Permanently delete a soft-deleted item
+  const purgeItem = useCallback(async (collection: TrashCollection, id: string): Promise<void> => {
+    await callFunction('purgeTrashItem', { collection, id });
+    setItems(prev => prev.filter(item => !(item.collection === collection && item.id === id)));
+  }, [callFunction]);
+
+  return {
+    items,
+    retentionDays,
+    loading,
+    error,
+    clearError,
+    fetchTrashItems,
+    restoreItem,
+    purgeItem
+  };
+};
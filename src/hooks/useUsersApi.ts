@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useApi } from './useApi';
-import type { User } from '../types';
+import type { User, Role, Permission, Visibility } from '../types';
 
 // Types for API calls
 export interface UserFilters {
@@ -131,6 +131,29 @@ export const useUsersApi = () => {
     }
   }, [callFunction]);
 
+  // Assign a role, extra permissions and record visibility (admin only)
+  const updateUserRole = useCallback(async (userId: string, role: Role, permissions: Permission[], visibility?: Visibility): Promise<User> => {
+    try {
+      const response = await callFunction('updateUserRole', { userId, role, permissions, visibility });
+      const updatedUser = response.data as User;
+      
+      // Update local cache
+      const userIndex = usersCache.findIndex(u => u.id === userId);
+      if (userIndex !== -1) {
+        usersCache[userIndex] = updatedUser;
+      }
+      
+      setUsers(prev => prev.map(user => 
+        user.id === userId ? updatedUser : user
+      ));
+      
+      return updatedUser;
+    } catch (err) {
+      console.error('Error updating user role:', err);
+      throw err;
+    }
+  }, [callFunction]);
+
   // Get user statistics (admin only)
   const getUsersStats = useCallback(async (): Promise<UserStats> => {
     try {
@@ -226,6 +249,7 @@ export const useUsersApi = () => {
     getUser,
     getUserById,
     updateUser,
+    updateUserRole,
     getUsersStats,
     
     // Utility methods
@@ -0,0 +1,53 @@
+import { useState, useCallback } from 'react';
+import { useApi } from './useApi';
+import type { WorkflowRule, WorkflowRuleInput, WorkflowExecution, WorkflowTestResult } from '../types';
+
+export const useWorkflowsApi = () => {
+  const { callFunction, loading, error, clearError } = useApi();
+  const [rules, setRules] = useState<WorkflowRule[]>([]);
+
+  // Get all workflow rules, sorted by name
+  const fetchRules = useCallback(async (): Promise<WorkflowRule[]> => {
+    const result = await callFunction<{ rules: WorkflowRule[] }>('getWorkflowRules');
+    setRules(result.rules);
+    return result.rules;
+  }, [callFunction]);
+
+  // Create or update a rule
+  const saveRule = useCallback(async (rule: WorkflowRuleInput & { id?: string }): Promise<WorkflowRule> => {
+    const saved = await callFunction<WorkflowRule>('saveWorkflowRule', rule);
+    setRules(prev => {
+      const exists = prev.some(item => item.id === saved.id);
+      return exists ? prev.map(item => item.id === saved.id ? saved : item) : [...prev, saved].sort((a, b) => a.name.localeCompare(b.name));
+    });
+    return saved;
+  }, [callFunction]);
+
+  const deleteRule = useCallback(async (id: string): Promise<void> => {
+    await callFunction('deleteWorkflowRule', { id });
+    setRules(prev => prev.filter(item => item.id !== id));
+  }, [callFunction]);
+
+  // Dry run a rule, saved or not, against one record
+  const testRule = useCallback(async (rule: WorkflowRuleInput, recordId: string): Promise<WorkflowTestResult> => {
+    return callFunction<WorkflowTestResult>('testWorkflowRule', { rule, recordId });
+  }, [callFunction]);
+
+  // Latest executions, for one rule or all of them
+  const fetchExecutions = useCallback(async (options: { ruleId?: string; limit?: number } = {}): Promise<WorkflowExecution[]> => {
+    const result = await callFunction<{ executions: WorkflowExecution[] }>('getWorkflowExecutions', options);
+    return result.executions;
+  }, [callFunction]);
+
+  return {
+    rules,
+    loading,
+    error,
+    clearError,
+    fetchRules,
+    saveRule,
+    deleteRule,
+    testRule,
+    fetchExecutions
+  };
+};
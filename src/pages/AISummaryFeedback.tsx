@@ -0,0 +1,212 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { Sparkles, ThumbsUp, ThumbsDown, AlertTriangle, Filter } from 'lucide-react';
+import { format } from 'date-fns';
+import type { User, AISummaryRatingStats } from '../types';
+import { useAISummariesApi } from '../hooks/useAISummariesApi';
+import { useUsersApi } from '../hooks/useUsersApi';
+import { useAuth } from '../hooks/useAuth';
+
+interface FilterForm {
+  promptVersion: string;
+  from: string; // yyyy-MM-dd
+  to: string; // yyyy-MM-dd
+}
+
+const emptyFilters: FilterForm = { promptVersion: '', from: '', to: '' };
+
+// Helper function to convert Cloud Functions timestamps to Date objects
+const toDate = (value: unknown): Date => {
+  const timestamp = value as { toDate?: () => Date; _seconds?: number; seconds?: number };
+  if (typeof timestamp?.toDate === 'function') return timestamp.toDate();
+  if (typeof timestamp?._seconds === 'number') return new Date(timestamp._seconds * 1000);
+  if (typeof timestamp?.seconds === 'number') return new Date(timestamp.seconds * 1000);
+  return new Date(value as string);
+};
+
+// Date inputs are local days; the range covers the whole of both days
+const toApiFilters = (form: FilterForm) => ({
+  promptVersion: form.promptVersion.trim() || undefined,
+  from: form.from ? new Date(`${form.from}T00:00:00`).toISOString() : undefined,
+  to: form.to ? new Date(`${form.to}T23:59:59.999`).toISOString() : undefined
+});
+
+/**
+ * How users rated the executive summaries, per prompt version and model
+ */
+export const AISummaryFeedback: React.FC = () => {
+  const { can } = useAuth();
+  const { loading, fetchRatingStats } = useAISummariesApi();
+  const { getAllUsers, getUserDisplayName } = useUsersApi();
+
+  const [users, setUsers] = useState<User[]>([]);
+  const [form, setForm] = useState<FilterForm>(emptyFilters);
+  const [result, setResult] = useState<AISummaryRatingStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canReadStats = can('aiSummaries:stats');
+
+  const loadStats = useCallback(async (filters: FilterForm) => {
+    setError(null);
+    try {
+      setResult(await fetchRatingStats(toApiFilters(filters)));
+    } catch (err) {
+      console.error('Error loading summary ratings:', err);
+      setError((err as { message?: string })?.message || 'Failed to load summary ratings');
+    }
+  }, [fetchRatingStats]);
+
+  useEffect(() => {
+    if (!canReadStats) return;
+    loadStats(emptyFilters);
+    getAllUsers().then(setUsers);
+  }, [canReadStats, loadStats, getAllUsers]);
+
+  if (!canReadStats) {
+    return <Navigate to="/" replace />;
+  }
+
+  const getUserName = (userId: string) => {
+    const user = users.find(u => u.id === userId);
+    return user ? getUserDisplayName(user) : userId;
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadStats(form);
+  };
+
+  const handleReset = () => {
+    setForm(emptyFilters);
+    loadStats(emptyFilters);
+  };
+
+  const inputClass = 'w-full text-sm border border-gray-300 rounded-md px-2.5 py-1.5 focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">AI Summary Feedback</h1>
+        <p className="text-sm text-gray-500">Thumbs up and down on executive summaries, per prompt version and model.</p>
+      </div>
+
+      {/* Filters */}
+      <form onSubmit={handleApply} className="bg-white shadow rounded-lg p-4">
+        <div className="flex items-center gap-2 mb-3">
+          <Filter className="h-4 w-4 text-gray-500" />
+          <h2 className="text-base font-medium text-gray-900">Filters</h2>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Prompt version</label>
+            <input
+              type="text"
+              value={form.promptVersion}
+              onChange={e => setForm({ ...form, promptVersion: e.target.value })}
+              placeholder="e.g. executive-v1"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Rated from</label>
+            <input type="date" value={form.from} onChange={e => setForm({ ...form, from: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Rated to</label>
+            <input type="date" value={form.to} onChange={e => setForm({ ...form, to: e.target.value })} className={inputClass} />
+          </div>
+          <div className="flex items-end gap-2">
+            <button type="submit" className="btn-primary flex-1">Apply</button>
+            <button type="button" onClick={handleReset} className="btn-secondary flex-1">Reset</button>
+          </div>
+        </div>
+      </form>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {result?.truncated && (
+        <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 text-amber-700 text-sm rounded-lg p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          Only the most recent ratings were counted. Narrow the date range for exact figures.
+        </div>
+      )}
+
+      {/* Ratings per prompt version */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {loading && !result ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : !result || result.stats.length === 0 ? (
+          <div className="text-center py-12">
+            <Sparkles className="mx-auto h-10 w-10 text-gray-300" />
+            <p className="mt-2 text-sm text-gray-500">No summaries have been rated yet</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Prompt version</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Model</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ratings</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Approval</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rated between</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {result.stats.map(row => (
+                <tr key={`${row.promptVersion}|${row.provider}|${row.model}`}>
+                  <td className="px-4 py-2 text-sm font-mono text-gray-900">{row.promptVersion}</td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{row.provider} · {row.model}</td>
+                  <td className="px-4 py-2 text-sm text-right text-gray-700">
+                    <span className="inline-flex items-center gap-1 text-green-700 mr-3">
+                      <ThumbsUp className="h-3 w-3" />{row.up}
+                    </span>
+                    <span className="inline-flex items-center gap-1 text-red-700">
+                      <ThumbsDown className="h-3 w-3" />{row.down}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right font-medium text-gray-900">{Math.round(row.approvalRate * 100)}%</td>
+                  <td className="px-4 py-2 text-sm text-gray-500">
+                    {format(toDate(row.firstRatedAt), 'MMM d, yyyy')} – {format(toDate(row.lastRatedAt), 'MMM d, yyyy')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Recent comments */}
+      {result && result.recentComments.length > 0 && (
+        <div className="bg-white shadow rounded-lg p-4">
+          <h2 className="text-base font-medium text-gray-900 mb-3">Recent comments</h2>
+          <ul className="space-y-3">
+            {result.recentComments.map(rating => (
+              <li key={rating.id} className="flex items-start gap-2 text-sm">
+                {rating.rating === 'up'
+                  ? <ThumbsUp className="h-4 w-4 text-green-600 flex-shrink-0 mt-0.5" />
+                  : <ThumbsDown className="h-4 w-4 text-red-600 flex-shrink-0 mt-0.5" />}
+                <div className="min-w-0">
+                  <p className="text-gray-800">{rating.comment}</p>
+                  <p className="text-xs text-gray-500">
+                    {getUserName(rating.userId)} · {format(toDate(rating.createdAt), 'MMM d, yyyy')} · prompt {rating.promptVersion} ·{' '}
+                    <Link to={`/opportunities/${rating.opportunityId}`} className="text-primary-600 hover:text-primary-700">
+                      View opportunity
+                    </Link>
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,304 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Coins, AlertTriangle, Save } from 'lucide-react';
+import { format } from 'date-fns';
+import type { User, AIUsageReport, AIUsageTotals } from '../types';
+import { useAIUsageApi } from '../hooks/useAIUsageApi';
+import { useUsersApi } from '../hooks/useUsersApi';
+import { useAuth } from '../hooks/useAuth';
+
+interface BudgetForm {
+  dailyLimitUsd: string;
+  monthlyLimitUsd: string;
+}
+
+// Helper function to convert Cloud Functions timestamps to Date objects
+const toDate = (value: unknown): Date => {
+  const timestamp = value as { toDate?: () => Date; _seconds?: number; seconds?: number };
+  if (typeof timestamp?.toDate === 'function') return timestamp.toDate();
+  if (typeof timestamp?._seconds === 'number') return new Date(timestamp._seconds * 1000);
+  if (typeof timestamp?.seconds === 'number') return new Date(timestamp.seconds * 1000);
+  return new Date(value as string);
+};
+
+// Small calls cost fractions of a cent, so show four decimals below a dollar
+const formatUsd = (value: number) => `$${value.toFixed(value > 0 && value < 1 ? 4 : 2)}`;
+
+// An empty field means no limit
+const parseLimit = (value: string): number | null => value.trim() === '' ? null : Number(value);
+
+const toForm = (report: AIUsageReport): BudgetForm => ({
+  dailyLimitUsd: report.status.budget.dailyLimitUsd?.toString() ?? '',
+  monthlyLimitUsd: report.status.budget.monthlyLimitUsd?.toString() ?? ''
+});
+
+const SpendCard: React.FC<{ label: string; spent: number; limit: number | null; exceeded: boolean }> = ({ label, spent, limit, exceeded }) => {
+  const percent = limit ? Math.min(100, (spent / limit) * 100) : 0;
+  return (
+    <div className="bg-white shadow rounded-lg p-4">
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</p>
+      <p className={`mt-1 text-2xl font-semibold ${exceeded ? 'text-red-700' : 'text-gray-900'}`}>{formatUsd(spent)}</p>
+      {limit === null ? (
+        <p className="mt-1 text-xs text-gray-500">No limit set</p>
+      ) : (
+        <>
+          <div className="mt-2 h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className={`h-2 ${exceeded ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-green-500'}`} style={{ width: `${percent}%` }} />
+          </div>
+          <p className="mt-1 text-xs text-gray-500">of {formatUsd(limit)} limit</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+const SpendBars: React.FC<{ title: string; totals: AIUsageTotals[]; labelFormat: string }> = ({ title, totals, labelFormat }) => {
+  const max = Math.max(...totals.map(t => t.costUsd), 0);
+  return (
+    <div className="bg-white shadow rounded-lg p-4">
+      <h2 className="text-base font-medium text-gray-900 mb-3">{title}</h2>
+      <div className="flex items-end gap-0.5 h-32">
+        {totals.map(t => (
+          <div
+            key={t.period}
+            title={`${t.period}: ${formatUsd(t.costUsd)} · ${t.calls} calls · ${(t.inputTokens + t.outputTokens).toLocaleString()} tokens`}
+            className="flex-1 bg-primary-500 hover:bg-primary-600 rounded-t"
+            style={{ height: `${max > 0 ? Math.max((t.costUsd / max) * 100, t.costUsd > 0 ? 2 : 0) : 0}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between mt-1 text-xs text-gray-500">
+        <span>{totals.length > 0 && format(new Date(`${totals[0].period}${labelFormat === 'MMM yyyy' ? '-01' : ''}T00:00:00`), labelFormat)}</span>
+        <span>{formatUsd(totals.reduce((sum, t) => sum + t.costUsd, 0))} total</span>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * AI token usage and spend per day and month, with the budgets that pause AI generation
+ */
+export const AIUsage: React.FC = () => {
+  const { can } = useAuth();
+  const { loading, fetchAIUsage, saveAIBudget } = useAIUsageApi();
+  const { getAllUsers, getUserDisplayName } = useUsersApi();
+
+  const [users, setUsers] = useState<User[]>([]);
+  const [report, setReport] = useState<AIUsageReport | null>(null);
+  const [form, setForm] = useState<BudgetForm>({ dailyLimitUsd: '', monthlyLimitUsd: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canReadUsage = can('aiUsage:read');
+  const canManageBudgets = can('aiUsage:manageBudgets');
+
+  const loadUsage = useCallback(async () => {
+    setError(null);
+    try {
+      const result = await fetchAIUsage();
+      setReport(result);
+      setForm(toForm(result));
+    } catch (err) {
+      console.error('Error loading AI usage:', err);
+      setError((err as { message?: string })?.message || 'Failed to load AI usage');
+    }
+  }, [fetchAIUsage]);
+
+  useEffect(() => {
+    if (!canReadUsage) return;
+    loadUsage();
+    getAllUsers().then(setUsers);
+  }, [canReadUsage, loadUsage, getAllUsers]);
+
+  if (!canReadUsage) {
+    return <Navigate to="/" replace />;
+  }
+
+  const getUserName = (userId: string) => {
+    if (userId === 'system') return 'Scheduled job';
+    const user = users.find(u => u.id === userId);
+    return user ? getUserDisplayName(user) : userId;
+  };
+
+  const handleSaveBudget = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const budget = { dailyLimitUsd: parseLimit(form.dailyLimitUsd), monthlyLimitUsd: parseLimit(form.monthlyLimitUsd) };
+    if ([budget.dailyLimitUsd, budget.monthlyLimitUsd].some(limit => limit !== null && (isNaN(limit) || limit < 0))) {
+      setError('Budgets must be positive amounts in USD, or empty for no limit');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveAIBudget(budget);
+      await loadUsage();
+    } catch (err) {
+      console.error('Error saving AI budget:', err);
+      setError((err as { message?: string })?.message || 'Failed to save the budget');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const status = report?.status;
+  const thisMonth = report?.months[report.months.length - 1];
+  const inputClass = 'w-full text-sm border border-gray-300 rounded-md px-2.5 py-1.5 focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">AI Usage &amp; Budgets</h1>
+        <p className="text-sm text-gray-500">Tokens and estimated cost of every AI call. Days and months are in UTC.</p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {status?.exceeded && (
+        <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 text-amber-700 text-sm rounded-lg p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          The {status.exceeded} budget is used up. Manual generation is blocked and the nightly job only summarizes Critical and High priority opportunities.
+        </div>
+      )}
+
+      {loading && !report ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      ) : report && status && (
+        <>
+          {/* Spend against budget */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <SpendCard label="Today" spent={status.daySpendUsd} limit={status.budget.dailyLimitUsd} exceeded={status.exceeded === 'daily'} />
+            <SpendCard label="This month" spent={status.monthSpendUsd} limit={status.budget.monthlyLimitUsd} exceeded={status.exceeded === 'monthly'} />
+            <form onSubmit={handleSaveBudget} className="bg-white shadow rounded-lg p-4">
+              <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">Budgets (USD)</p>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Daily</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.dailyLimitUsd}
+                    onChange={e => setForm({ ...form, dailyLimitUsd: e.target.value })}
+                    placeholder="No limit"
+                    disabled={!canManageBudgets}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Monthly</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.monthlyLimitUsd}
+                    onChange={e => setForm({ ...form, monthlyLimitUsd: e.target.value })}
+                    placeholder="No limit"
+                    disabled={!canManageBudgets}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              {canManageBudgets && (
+                <button type="submit" disabled={isSaving} className="btn-primary w-full mt-3 inline-flex items-center justify-center gap-1">
+                  <Save className="h-4 w-4" />
+                  {isSaving ? 'Saving...' : 'Save budgets'}
+                </button>
+              )}
+              {status.budget.updatedAt && status.budget.updatedBy && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Last changed by {getUserName(status.budget.updatedBy)} on {format(toDate(status.budget.updatedAt), 'MMM d, yyyy')}
+                </p>
+              )}
+            </form>
+          </div>
+
+          {/* Spend over time */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <SpendBars title={`Daily spend, last ${report.days.length} days`} totals={report.days} labelFormat="MMM d" />
+            <SpendBars title={`Monthly spend, last ${report.months.length} months`} totals={report.months} labelFormat="MMM yyyy" />
+          </div>
+
+          {/* This month's breakdown */}
+          {thisMonth && thisMonth.calls > 0 && (
+            <div className="bg-white shadow rounded-lg p-4">
+              <h2 className="text-base font-medium text-gray-900 mb-3">This month</h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">Volume</p>
+                  <p className="text-gray-700">{thisMonth.calls.toLocaleString()} calls</p>
+                  <p className="text-gray-700">{thisMonth.inputTokens.toLocaleString()} prompt tokens</p>
+                  <p className="text-gray-700">{thisMonth.outputTokens.toLocaleString()} completion tokens</p>
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">By trigger</p>
+                  {Object.entries(thisMonth.byTrigger).map(([trigger, cost]) => (
+                    <p key={trigger} className="flex justify-between text-gray-700">
+                      <span className="capitalize">{trigger}</span><span>{formatUsd(cost ?? 0)}</span>
+                    </p>
+                  ))}
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">By task</p>
+                  {Object.entries(thisMonth.byTask).sort(([, a], [, b]) => b - a).map(([task, cost]) => (
+                    <p key={task} className="flex justify-between text-gray-700">
+                      <span className="font-mono">{task}</span><span>{formatUsd(cost)}</span>
+                    </p>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Recent calls */}
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            {report.recentCalls.length === 0 ? (
+              <div className="text-center py-12">
+                <Coins className="mx-auto h-10 w-10 text-gray-300" />
+                <p className="mt-2 text-sm text-gray-500">No AI calls have been recorded yet</p>
+              </div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Task</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Model</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Trigger</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Tokens (in / out)</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {report.recentCalls.map(call => (
+                    <tr key={call.id}>
+                      <td className="px-4 py-2 text-sm text-gray-500">{format(toDate(call.createdAt), 'MMM d, h:mm a')}</td>
+                      <td className="px-4 py-2 text-sm font-mono text-gray-900">{call.task}</td>
+                      <td className="px-4 py-2 text-sm text-gray-700">{call.provider} · {call.model}</td>
+                      <td className="px-4 py-2 text-sm text-gray-700">
+                        <span className="capitalize">{call.trigger}</span> · {getUserName(call.userId)}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-700">
+                        {call.inputTokens.toLocaleString()} / {call.outputTokens.toLocaleString()}
+                        {call.usageEstimated && <span className="ml-1 text-xs text-gray-400" title="Estimated from text length">est.</span>}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right font-medium text-gray-900">{formatUsd(call.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -18,15 +18,22 @@ import type { Account, Product, Contact, ContactType, Opportunity } from '../typ
 import { format } from 'date-fns';
 import { useAuth } from '../hooks/useAuth';
 import { OwnerSelect } from '../components/OwnerSelect';
+import { AccountDeleteDialog } from '../components/AccountDeleteDialog';
+import { DetailTabs } from '../components/DetailTabs';
+import type { DetailTab } from '../components/DetailTabs';
+import { RecordHistory } from '../components/RecordHistory';
+import { AccountRelationshipBrief } from '../components/AccountRelationshipBrief';
 import { useAccountsApi } from '../hooks/useAccountsApi';
+import type { AccountDeleteImpact } from '../hooks/useAccountsApi';
 import { useContactsApi } from '../hooks/useContactsApi';
 import { useProductsApi } from '../hooks/useProductsApi';
 import { useOpportunitiesApi } from '../hooks/useOpportunitiesApi';
+import { useDuplicatesApi } from '../hooks/useDuplicatesApi';
 
 export const AccountDetails: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { currentUser } = useAuth();
+  const { currentUser, can } = useAuth();
   const isNew = id === 'new' || !id;
   
   // API hooks
@@ -37,6 +44,8 @@ export const AccountDetails: React.FC = () => {
     createAccount, 
     updateAccount, 
     deleteAccount,
+    getAccountDeleteImpact,
+    resolveAccountDependents,
     loading: accountsLoading 
   } = useAccountsApi();
   
@@ -61,10 +70,12 @@ export const AccountDetails: React.FC = () => {
   } = useOpportunitiesApi();
   
   const [account, setAccount] = useState<Account | null>(null);
+  const [activeTab, setActiveTab] = useState<DetailTab>('details');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [newTag, setNewTag] = useState('');
   const [showCreateContact, setShowCreateContact] = useState(false);
+  const [deleteImpact, setDeleteImpact] = useState<AccountDeleteImpact | null>(null);
   const [newContact, setNewContact] = useState({
     name: '',
     email: '',
@@ -114,6 +125,18 @@ export const AccountDetails: React.FC = () => {
     fetchData();
   }, [id]);
 
+  const { getRecordRedirect } = useDuplicatesApi();
+
+  // Records that were merged away redirect to the account they were merged into
+  const followMergeRedirect = async (accountId: string): Promise<boolean> => {
+    const redirect = await getRecordRedirect('accounts', accountId).catch(() => null);
+    if (redirect) {
+      navigate(`/accounts/${redirect.toId}`, { replace: true });
+      return true;
+    }
+    return false;
+  };
+
   const fetchData = async () => {
     setLoading(true);
     try {
@@ -133,6 +156,7 @@ export const AccountDetails: React.FC = () => {
         }
       }
     } catch (error) {
+      if (id && !isNew && await followMergeRedirect(id)) return;
       console.error('Error fetching account data:', error);
     } finally {
       setLoading(false);
@@ -186,17 +210,33 @@ export const AccountDetails: React.FC = () => {
   };
 
   const handleDelete = async () => {
-    if (account && id && confirm('Are you sure you want to delete this account?')) {
-      try {
+    if (!account || !id) return;
+
+    try {
+      // Accounts with dependents need them reassigned or deleted first
+      const impact = await getAccountDeleteImpact(id);
+      if (impact.totalDependents > 0) {
+        setDeleteImpact(impact);
+        return;
+      }
+
+      if (confirm('Are you sure you want to delete this account?')) {
         await deleteAccount(id);
         navigate('/accounts');
-      } catch (error) {
-        console.error('Error deleting account:', error);
-        alert('Error deleting account. Please try again.');
       }
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      alert('Error deleting account. Please try again.');
     }
   };
 
+  const handleResolveDependents = async (mode: 'reassign' | 'cascade', targetAccountId?: string) => {
+    if (!id) return;
+    await resolveAccountDependents(id, mode, targetAccountId);
+    setDeleteImpact(null);
+    navigate('/accounts');
+  };
+
   const handleAddTag = () => {
     if (newTag.trim() && !formData.tags.includes(newTag.trim())) {
       setFormData({
@@ -280,7 +320,7 @@ export const AccountDetails: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center gap-2">
-            {!isNew && (
+            {!isNew && can('accounts:delete') && (
               <button
                 onClick={handleDelete}
                 className="btn-danger-sm flex items-center gap-1.5"
@@ -291,17 +331,29 @@ export const AccountDetails: React.FC = () => {
             )}
           </div>
         </div>
+        {!isNew && <DetailTabs activeTab={activeTab} onChange={setActiveTab} />}
       </div>
 
       {/* Main Content */}
       <div className="flex-1 pb-20 overflow-auto">
         <div className="p-4 mx-auto max-w-7xl">
-          <form id="account-form" onSubmit={handleSubmit}>
+          {activeTab === 'history' && id && (
+            <RecordHistory
+              collection="accounts"
+              recordId={id}
+              revision={account?.revision}
+              onReverted={() => fetchData()}
+            />
+          )}
+          <form id="account-form" onSubmit={handleSubmit} className={activeTab === 'history' ? 'hidden' : undefined}>
             <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
               
               {/* Left Column (2/3) - Core Information */}
               <div className="space-y-4 lg:col-span-2">
                 
+                {/* AI Relationship Brief */}
+                {!isNew && id && <AccountRelationshipBrief accountId={id} />}
+
                 {/* Basic Information */}
                 <div className="p-4 bg-white rounded-lg shadow">
                   <div className="flex items-center gap-2 mb-3">
@@ -699,19 +751,30 @@ export const AccountDetails: React.FC = () => {
       </div>
 
       {/* Floating Save Button */}
-      <button
-        type="submit"
-        form="account-form"
-        disabled={saving || !formData.name.trim()}
-        className="fixed z-50 p-3 text-white transition-all duration-200 rounded-full shadow-lg bottom-4 right-4 bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-4 focus:ring-primary-500 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed"
-        title={saving ? 'Saving...' : 'Save Account'}
-      >
-        {saving ? (
-          <div className="w-5 h-5 border-b-2 border-white rounded-full animate-spin"></div>
-        ) : (
-          <Save className="w-5 h-5" />
-        )}
-      </button>
+      {activeTab === 'details' && can(isNew ? 'accounts:create' : 'accounts:update') && (
+        <button
+          type="submit"
+          form="account-form"
+          disabled={saving || !formData.name.trim()}
+          className="fixed z-50 p-3 text-white transition-all duration-200 rounded-full shadow-lg bottom-4 right-4 bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-4 focus:ring-primary-500 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          title={saving ? 'Saving...' : 'Save Account'}
+        >
+          {saving ? (
+            <div className="w-5 h-5 border-b-2 border-white rounded-full animate-spin"></div>
+          ) : (
+            <Save className="w-5 h-5" />
+          )}
+        </button>
+      )}
+
+      {deleteImpact && (
+        <AccountDeleteDialog
+          impact={deleteImpact}
+          accounts={accounts}
+          onConfirm={handleResolveDependents}
+          onCancel={() => setDeleteImpact(null)}
+        />
+      )}
     </div>
   );
 }; 
\ No newline at end of file
@@ -19,6 +19,7 @@ import {
   DollarSign,
   Package,
   Download,
+  Upload,
   ExternalLink,
   Globe,
   Tag,
@@ -29,19 +30,24 @@ import type { Account, Contact, Product, Opportunity } from '../types';
 import { format, formatDistanceToNow, isAfter, isBefore, startOfDay } from 'date-fns';
 import { useUsersApi } from '../hooks/useUsersApi';
 import { useDataContext } from '../context/DataContext';
+import { useAuth } from '../hooks/useAuth';
+import { ImportWizard } from '../components/ImportWizard';
+import { ScopeSelect } from '../components/ScopeSelect';
 
 type SortField = 'name' | 'createdAt';
 type SortDirection = 'asc' | 'desc';
 
 export const Accounts: React.FC = () => {
   const navigate = useNavigate();
+  const { can } = useAuth();
   const {
     cache,
     loading,
     getAccounts,
     getContacts,
     getProducts,
-    getOpportunities
+    getOpportunities,
+    refreshData
   } = useDataContext();
   
   const { getUserById, getUserDisplayName } = useUsersApi();
@@ -53,6 +59,7 @@ export const Accounts: React.FC = () => {
   
   const [pageLoading, setPageLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [showImport, setShowImport] = useState(false);
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
 
@@ -316,13 +323,15 @@ export const Accounts: React.FC = () => {
                 {filteredAndSortedAccounts.length}
               </span>
             </button>
-            <button
-              onClick={handleAdd}
-              className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 transition-colors shadow-sm"
-            >
-              <Plus className="h-4 w-4" />
-              New Account
-            </button>
+            {can('accounts:create') && (
+              <button
+                onClick={handleAdd}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 transition-colors shadow-sm"
+              >
+                <Plus className="h-4 w-4" />
+                New Account
+              </button>
+            )}
           </div>
         </div>
         
@@ -338,6 +347,10 @@ export const Accounts: React.FC = () => {
               className="pl-10 pr-4 py-2.5 w-full border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent shadow-sm"
             />
           </div>
+          
+          <div className="flex flex-col sm:flex-row gap-3">
+            <ScopeSelect />
+          </div>
         </div>
       </div>
 
@@ -356,7 +369,7 @@ export const Accounts: React.FC = () => {
                 ? 'Try adjusting your search' 
                 : 'Get started by creating your first account'}
             </p>
-            {!searchTerm && (
+            {!searchTerm && can('accounts:create') && (
               <button
                 onClick={handleAdd}
                 className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 transition-colors"
@@ -645,17 +658,33 @@ export const Accounts: React.FC = () => {
           </span>
         </button>
 
+        {/* Import Button */}
+        {can('records:import') && can('accounts:create') && (
+          <button
+            onClick={() => setShowImport(true)}
+            className="group relative inline-flex items-center justify-center w-14 h-14 bg-blue-600 text-white rounded-full hover:bg-blue-700 focus:outline-none focus:ring-4 focus:ring-blue-500 focus:ring-opacity-50 transition-all duration-200 shadow-lg hover:shadow-xl"
+            title="Import accounts from CSV or Excel"
+          >
+            <Upload className="h-6 w-6" />
+            <span className="absolute right-16 top-1/2 transform -translate-y-1/2 bg-gray-900 text-white text-sm px-3 py-2 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
+              Import Accounts
+            </span>
+          </button>
+        )}
+
         {/* New Account Button */}
-        <button
-          onClick={handleAdd}
-          className="group relative inline-flex items-center justify-center w-14 h-14 bg-primary-600 text-white rounded-full hover:bg-primary-700 focus:outline-none focus:ring-4 focus:ring-primary-500 focus:ring-opacity-50 transition-all duration-200 shadow-lg hover:shadow-xl"
-          title="Create New Account"
-        >
-          <Plus className="h-6 w-6" />
-          <span className="absolute right-16 top-1/2 transform -translate-y-1/2 bg-gray-900 text-white text-sm px-3 py-2 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
-            New Account
-          </span>
-        </button>
+        {can('accounts:create') && (
+          <button
+            onClick={handleAdd}
+            className="group relative inline-flex items-center justify-center w-14 h-14 bg-primary-600 text-white rounded-full hover:bg-primary-700 focus:outline-none focus:ring-4 focus:ring-primary-500 focus:ring-opacity-50 transition-all duration-200 shadow-lg hover:shadow-xl"
+            title="Create New Account"
+          >
+            <Plus className="h-6 w-6" />
+            <span className="absolute right-16 top-1/2 transform -translate-y-1/2 bg-gray-900 text-white text-sm px-3 py-2 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
+              New Account
+            </span>
+          </button>
+        )}
       </div>
 
       {/* Mobile Floating Action Bar */}
@@ -668,14 +697,24 @@ export const Accounts: React.FC = () => {
           <Download className="h-5 w-5" />
           <span>Export ({filteredAndSortedAccounts.length})</span>
         </button>
-        <button
-          onClick={handleAdd}
-          className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 transition-colors shadow-sm"
-        >
-          <Plus className="h-5 w-5" />
-          <span>New</span>
-        </button>
+        {can('accounts:create') && (
+          <button
+            onClick={handleAdd}
+            className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 transition-colors shadow-sm"
+          >
+            <Plus className="h-5 w-5" />
+            <span>New</span>
+          </button>
+        )}
       </div>
+
+      {showImport && (
+        <ImportWizard
+          entity="accounts"
+          onClose={() => setShowImport(false)}
+          onComplete={() => refreshData('accounts')}
+        />
+      )}
     </div>
   );
 }; 
\ No newline at end of file
@@ -0,0 +1,409 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Navigate, Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ShieldCheck, Plus, Pencil, Trash2, Save, X, AlertTriangle, Check, Ban, Inbox } from 'lucide-react';
+import type { User, OpportunityStage, ApprovalPolicy, ApprovalPolicyInput, ApprovalRequest } from '../types';
+import { useApprovalsApi } from '../hooks/useApprovalsApi';
+import { useUsersApi } from '../hooks/useUsersApi';
+import { useAuth } from '../hooks/useAuth';
+
+const OPPORTUNITY_STAGES: OpportunityStage[] = ['Lead', 'Qualified', 'Proposal', 'Negotiation', 'Closed-Won', 'Closed-Lost'];
+
+const STATUS_STYLES: Record<ApprovalRequest['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  applied: 'bg-gray-100 text-gray-700'
+};
+
+type PolicyDraft = ApprovalPolicyInput & { id?: string };
+
+const emptyPolicy: PolicyDraft = {
+  name: '',
+  description: '',
+  stages: ['Closed-Won'],
+  minDealValue: null,
+  commercialModelKeywords: [],
+  enabled: true
+};
+
+// Helper function to convert Cloud Functions timestamps to Date objects
+const toDate = (value: unknown): Date => {
+  const timestamp = value as { toDate?: () => Date; _seconds?: number; seconds?: number };
+  if (typeof timestamp?.toDate === 'function') return timestamp.toDate();
+  if (typeof timestamp?._seconds === 'number') return new Date(timestamp._seconds * 1000);
+  if (typeof timestamp?.seconds === 'number') return new Date(timestamp.seconds * 1000);
+  return new Date(value as string);
+};
+
+const describePolicy = (policy: ApprovalPolicy): string => {
+  const thresholds = [
+    ...(policy.minDealValue !== null ? [`value ≥ $${policy.minDealValue.toLocaleString()}`] : []),
+    ...(policy.commercialModelKeywords.length > 0 ? [`model contains ${policy.commercialModelKeywords.map(keyword => `"${keyword}"`).join(' or ')}`] : [])
+  ];
+  return `Moves to ${policy.stages.join(', ')}${thresholds.length > 0 ? ` when ${thresholds.join(' or ')}` : ', always'}`;
+};
+
+export const Approvals: React.FC = () => {
+  const { can, currentUser } = useAuth();
+  const { policies, fetchPolicies, savePolicy, deletePolicy, fetchRequests, decideApproval } = useApprovalsApi();
+  const { getAllUsers, getUserDisplayName } = useUsersApi();
+
+  const [users, setUsers] = useState<User[]>([]);
+  const [requests, setRequests] = useState<ApprovalRequest[]>([]);
+  const [view, setView] = useState<'pending' | 'decided'>('pending');
+  const [loadingRequests, setLoadingRequests] = useState(false);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [policyDraft, setPolicyDraft] = useState<PolicyDraft | null>(null);
+  const [keywordsText, setKeywordsText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canDecide = can('approvals:decide');
+  const canManagePolicies = can('approvals:manage');
+
+  const loadRequests = useCallback(async () => {
+    setLoadingRequests(true);
+    try {
+      const loaded = view === 'pending'
+        ? await fetchRequests('pending', 100)
+        : (await fetchRequests(undefined, 100)).filter(request => request.status !== 'pending');
+      setRequests(loaded);
+    } catch (err) {
+      console.error('Error loading approval requests:', err);
+      setError('Failed to load approval requests');
+    } finally {
+      setLoadingRequests(false);
+    }
+  }, [view, fetchRequests]);
+
+  useEffect(() => {
+    if (!canDecide) return;
+    loadRequests();
+  }, [canDecide, loadRequests]);
+
+  useEffect(() => {
+    if (!canManagePolicies) return;
+    fetchPolicies().catch(err => {
+      console.error('Error loading approval policies:', err);
+      setError('Failed to load approval policies');
+    });
+  }, [canManagePolicies, fetchPolicies]);
+
+  useEffect(() => {
+    if (!canDecide && !canManagePolicies) return;
+    getAllUsers().then(setUsers);
+  }, [canDecide, canManagePolicies, getAllUsers]);
+
+  if (!canDecide && !canManagePolicies) {
+    return <Navigate to="/" replace />;
+  }
+
+  const userName = (userId: string) => {
+    const user = users.find(u => u.id === userId);
+    return user ? getUserDisplayName(user) : 'Unknown user';
+  };
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      console.error(failure, err);
+      setError(err instanceof Error ? err.message : (err as { message?: string })?.message || failure);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDecide = async (request: ApprovalRequest, decision: 'approved' | 'rejected') => {
+    const comment = comments[request.id]?.trim();
+    if (decision === 'rejected' && !comment) {
+      setError('Add a comment explaining the rejection');
+      return;
+    }
+    if (await run(() => decideApproval(request.id, decision, comment), 'Failed to record the decision')) {
+      setRequests(prev => prev.filter(item => item.id !== request.id));
+    }
+  };
+
+  const editPolicy = (policy?: ApprovalPolicy) => {
+    setPolicyDraft(policy
+      ? {
+        id: policy.id,
+        name: policy.name,
+        description: policy.description || '',
+        stages: policy.stages,
+        minDealValue: policy.minDealValue,
+        commercialModelKeywords: policy.commercialModelKeywords,
+        enabled: policy.enabled
+      }
+      : emptyPolicy);
+    setKeywordsText(policy ? policy.commercialModelKeywords.join(', ') : '');
+  };
+
+  const handleSavePolicy = async () => {
+    if (!policyDraft) return;
+    const commercialModelKeywords = keywordsText.split(',').map(keyword => keyword.trim()).filter(Boolean);
+    if (await run(() => savePolicy({ ...policyDraft, commercialModelKeywords }), 'Failed to save approval policy')) {
+      setPolicyDraft(null);
+    }
+  };
+
+  const handleDeletePolicy = async (policy: ApprovalPolicy) => {
+    if (!window.confirm(`Delete approval policy "${policy.name}"? Pending requests stay in the queue.`)) return;
+    await run(() => deletePolicy(policy.id), 'Failed to delete approval policy');
+  };
+
+  const toggleStage = (stage: OpportunityStage) => {
+    if (!policyDraft) return;
+    const stages = policyDraft.stages.includes(stage)
+      ? policyDraft.stages.filter(existing => existing !== stage)
+      : [...policyDraft.stages, stage];
+    setPolicyDraft({ ...policyDraft, stages });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">Approvals</h1>
+        <p className="text-sm text-gray-500">
+          Stage changes covered by a policy wait here for a manager. Once approved, the requester can move the deal.
+        </p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* Queue */}
+      {canDecide && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+              <Inbox className="h-4 w-4 text-gray-400" />
+              Requests
+            </h2>
+            <div className="flex rounded-md border border-gray-300 overflow-hidden text-xs">
+              {(['pending', 'decided'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-3 py-1.5 ${view === option ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {option === 'pending' ? 'Pending' : 'Decided'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {loadingRequests ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          ) : requests.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">
+              {view === 'pending' ? 'Nothing is waiting for approval.' : 'No decisions yet.'}
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {requests.map(request => {
+                const ownRequest = request.requestedBy === currentUser?.uid;
+                return (
+                  <li key={request.id} className="px-4 py-3 space-y-2">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <Link to={`/opportunities/${request.opportunityId}`} className="text-sm font-medium text-primary-600 hover:text-primary-700">
+                          {request.opportunityTitle}
+                        </Link>
+                        <div className="text-xs text-gray-500">
+                          {request.fromStage} → {request.toStage}
+                          {request.dealValue !== null && ` · $${request.dealValue.toLocaleString()}`}
+                          {request.commercialModel && ` · ${request.commercialModel}`}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          Requested by {userName(request.requestedBy)} on {format(toDate(request.requestedAt), 'MMM d, yyyy HH:mm')}
+                        </div>
+                      </div>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[request.status]}`}>{request.status}</span>
+                    </div>
+                    <ul className="list-disc list-inside text-xs text-gray-700">
+                      {request.reasons.map((reason, index) => <li key={index}>{reason}</li>)}
+                    </ul>
+
+                    {request.status === 'pending' ? (
+                      ownRequest ? (
+                        <p className="text-xs text-gray-500">Another approver has to decide on your own request.</p>
+                      ) : (
+                        <div className="flex items-start gap-2">
+                          <textarea
+                            rows={2}
+                            placeholder="Comment (required to reject)"
+                            value={comments[request.id] || ''}
+                            onChange={(e) => setComments({ ...comments, [request.id]: e.target.value })}
+                            className="flex-1 text-sm border border-gray-300 rounded-md px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                          />
+                          <button
+                            onClick={() => handleDecide(request, 'approved')}
+                            disabled={saving}
+                            className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+                          >
+                            <Check className="h-3.5 w-3.5" />
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => handleDecide(request, 'rejected')}
+                            disabled={saving}
+                            className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                          >
+                            <Ban className="h-3.5 w-3.5" />
+                            Reject
+                          </button>
+                        </div>
+                      )
+                    ) : (
+                      <div className="text-xs text-gray-500">
+                        {request.decidedBy && `${request.status === 'rejected' ? 'Rejected' : 'Approved'} by ${userName(request.decidedBy)}`}
+                        {request.decidedAt && ` on ${format(toDate(request.decidedAt), 'MMM d, yyyy HH:mm')}`}
+                        {request.comment && <span className="block text-gray-700">“{request.comment}”</span>}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Policies */}
+      {canManagePolicies && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+              <ShieldCheck className="h-4 w-4 text-gray-400" />
+              Policies
+            </h2>
+            <button
+              onClick={() => editPolicy()}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700"
+            >
+              <Plus className="h-3.5 w-3.5" />
+              New policy
+            </button>
+          </div>
+
+          {policyDraft && (
+            <div className="px-4 py-3 border-b border-gray-100 space-y-3 bg-gray-50">
+              <input
+                type="text"
+                placeholder="Policy name"
+                value={policyDraft.name}
+                onChange={(e) => setPolicyDraft({ ...policyDraft, name: e.target.value })}
+                className="w-full text-sm border border-gray-300 rounded-md px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <div>
+                <div className="text-xs font-medium text-gray-700 mb-1">Moving to</div>
+                <div className="flex flex-wrap gap-3">
+                  {OPPORTUNITY_STAGES.map(stage => (
+                    <label key={stage} className="flex items-center gap-1 text-xs text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={policyDraft.stages.includes(stage)}
+                        onChange={() => toggleStage(stage)}
+                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      {stage}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="text-xs font-medium text-gray-700">
+                  Minimum deal value
+                  <input
+                    type="number"
+                    min={0}
+                    placeholder="Any value"
+                    value={policyDraft.minDealValue ?? ''}
+                    onChange={(e) => setPolicyDraft({ ...policyDraft, minDealValue: e.target.value === '' ? null : Number(e.target.value) })}
+                    className="mt-1 w-full text-sm border border-gray-300 rounded-md px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                </label>
+                <label className="text-xs font-medium text-gray-700">
+                  Commercial model contains
+                  <input
+                    type="text"
+                    placeholder="Comma separated, e.g. rev share, custom"
+                    value={keywordsText}
+                    onChange={(e) => setKeywordsText(e.target.value)}
+                    className="mt-1 w-full text-sm border border-gray-300 rounded-md px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                </label>
+              </div>
+              <p className="text-xs text-gray-500">
+                Either threshold triggers the policy. With neither set, every move to the chosen stages needs approval.
+              </p>
+              <label className="flex items-center gap-2 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={policyDraft.enabled}
+                  onChange={(e) => setPolicyDraft({ ...policyDraft, enabled: e.target.checked })}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                Enabled
+              </label>
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setPolicyDraft(null)}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  <X className="h-3.5 w-3.5" />
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSavePolicy}
+                  disabled={saving || !policyDraft.name.trim() || policyDraft.stages.length === 0}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50"
+                >
+                  <Save className="h-3.5 w-3.5" />
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {policies.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">No approval policies yet; deals move freely.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {policies.map(policy => (
+                <li key={policy.id} className="flex items-start gap-3 px-4 py-3">
+                  <div className="flex-1 min-w-0">
+                    <div className={`text-sm font-medium ${policy.enabled ? 'text-gray-900' : 'text-gray-400'}`}>
+                      {policy.name}{!policy.enabled && ' (disabled)'}
+                    </div>
+                    <div className="text-xs text-gray-500">{describePolicy(policy)}</div>
+                  </div>
+                  <button onClick={() => editPolicy(policy)} className="text-gray-400 hover:text-gray-600" title="Edit">
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button onClick={() => handleDeletePolicy(policy)} disabled={saving} className="text-gray-400 hover:text-red-600" title="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
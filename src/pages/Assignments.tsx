@@ -38,8 +38,12 @@ import {
 } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import { useAssignmentsApi } from '../hooks/useAssignmentsApi';
+import { isStaleWriteError } from '../hooks/useApi';
 import { useAuth } from '../hooks/useAuth';
 import { useUsersApi } from '../hooks/useUsersApi';
+import { ConflictDialog } from '../components/ConflictDialog';
+import { mergeRecords, applyConflictChoices } from '../utils/merge';
+import type { ConflictChoice, MergeOutcome } from '../utils/merge';
 import { 
   ASSIGNMENT_STATUSES, 
   ASSIGNMENT_ACTIVITY_TYPES, 
@@ -83,6 +87,18 @@ const toDate = (dateValue: any): Date => {
   return isNaN(parsedDate.getTime()) ? new Date() : parsedDate;
 };
 
+type EditableAssignmentFields = Pick<Assignment, 'title' | 'details' | 'status' | 'oneDriveLink' | 'oneDriveTitle'> & { dueDate?: string };
+
+// Editable fields in the shape updateAssignment accepts, so merged values can be sent as-is
+const toEditableFields = (assignment: Assignment): EditableAssignmentFields => ({
+  title: assignment.title,
+  details: assignment.details,
+  status: assignment.status,
+  dueDate: assignment.dueDate ? format(toDate(assignment.dueDate), 'yyyy-MM-dd') : undefined,
+  oneDriveLink: assignment.oneDriveLink,
+  oneDriveTitle: assignment.oneDriveTitle
+});
+
 const Assignments: React.FC = () => {
   const navigate = useNavigate();
   const { currentUser } = useAuth();
@@ -149,6 +165,12 @@ const Assignments: React.FC = () => {
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [editStatus, setEditStatus] = useState<AssignmentStatus>('todo');
 
+  // --- Concurrent edit state ---
+  // Revision the edit fields are based on. Only our own writes advance it, so a save by
+  // someone else in between still surfaces as a conflict instead of being overwritten.
+  const [baseRevision, setBaseRevision] = useState(0);
+  const [conflict, setConflict] = useState<{ current: Assignment; outcome: MergeOutcome<EditableAssignmentFields> } | null>(null);
+
   // --- Activity management state ---
   const [showActivityForm, setShowActivityForm] = useState(false);
   const [editingActivity, setEditingActivity] = useState<AssignmentActivity | null>(null);
@@ -200,6 +222,14 @@ const Assignments: React.FC = () => {
     setEditOneDriveTitle(selectedAssignment?.oneDriveTitle || '');
   }, [selectedAssignment]);
 
+  useEffect(() => {
+    setBaseRevision(selectedAssignment?.revision ?? 0);
+  }, [selectedAssignment]);
+
+  const trackOwnWrite = (saved?: { revision?: number } | null) => {
+    setBaseRevision(prev => saved?.revision === prev + 1 ? saved.revision : prev);
+  };
+
   // Update editStatus when selectedAssignment changes
   useEffect(() => {
     setEditStatus(selectedAssignment?.status || 'todo');
@@ -259,11 +289,11 @@ const Assignments: React.FC = () => {
       const updated = editChecklist.map((item, i) => i === idx ? { ...item, completed: !item.completed } : item);
       setEditChecklist(updated);
       try {
-        await updateChecklistItem({
+        trackOwnWrite(await updateChecklistItem({
           taskId: selectedAssignment.taskId,
           itemId: item.id,
           completed: !item.completed
-        });
+        }));
       } catch (error) {
         console.error('Error updating checklist:', error);
         // Revert on error
@@ -278,11 +308,11 @@ const Assignments: React.FC = () => {
       const updated = editChecklist.map((item, i) => i === idx ? { ...item, text: value } : item);
       setEditChecklist(updated);
       try {
-        await updateChecklistItem({
+        trackOwnWrite(await updateChecklistItem({
           taskId: selectedAssignment.taskId,
           itemId: item.id,
           text: value
-        });
+        }));
       } catch (error) {
         console.error('Error updating checklist:', error);
         // Revert on error
@@ -297,10 +327,10 @@ const Assignments: React.FC = () => {
       const updated = editChecklist.filter((_, i) => i !== idx);
       setEditChecklist(updated);
       try {
-        await removeChecklistItem({
+        trackOwnWrite(await removeChecklistItem({
           taskId: selectedAssignment.taskId,
           itemId: item.id
-        });
+        }));
       } catch (error) {
         console.error('Error removing checklist item:', error);
         // Revert on error
@@ -322,12 +352,12 @@ const Assignments: React.FC = () => {
       setNewChecklistItem('');
       setNewChecklistDueDate('');
       try {
-        await addChecklistItem({
+        trackOwnWrite(await addChecklistItem({
           taskId: selectedAssignment.taskId,
           text: newChecklistItem.trim(),
           completed: false,
           dueDate: newChecklistDueDate || undefined
-        });
+        }));
       } catch (error) {
         console.error('Error adding checklist item:', error);
         // Revert on error
@@ -478,14 +508,7 @@ const Assignments: React.FC = () => {
           }
 
           if (Object.keys(updates).length > 0) {
-            await updateAssignment({
-              taskId: selectedAssignment.taskId,
-              ...updates
-            });
-            setHasUnsavedChanges(false);
-            
-            // Refresh the assignments list
-            await getAssignments();
+            await saveAssignmentChanges(selectedAssignment, updates, baseRevision);
           }
         }
       } catch (error) {
@@ -494,6 +517,55 @@ const Assignments: React.FC = () => {
     }
   };
 
+  /**
+   * Save the edited fields against the revision they were based on. A stale write opens
+   * the merge dialog instead of overwriting someone else's changes.
+   */
+  const saveAssignmentChanges = async (base: Assignment, updates: Partial<EditableAssignmentFields>, expectedRevision: number) => {
+    try {
+      const saved = await updateAssignment({
+        taskId: base.taskId,
+        ...updates,
+        expectedRevision
+      });
+      setSelectedAssignment(saved);
+      setHasUnsavedChanges(false);
+      setConflict(null);
+      
+      // Refresh the assignments list
+      await getAssignments();
+    } catch (error) {
+      if (isStaleWriteError<Assignment>(error)) {
+        const current = error.details.current;
+        setConflict({
+          current,
+          outcome: mergeRecords(toEditableFields(base), updates, toEditableFields(current))
+        });
+        return;
+      }
+      throw error;
+    }
+  };
+
+  const handleMergeConflict = async (choices: Record<string, ConflictChoice>) => {
+    if (!conflict) return;
+
+    // Their version is the new base - if it changed again the dialog reopens with the latest
+    await saveAssignmentChanges(
+      conflict.current,
+      applyConflictChoices(conflict.outcome, choices),
+      conflict.current.revision ?? 0
+    );
+  };
+
+  const handleDiscardConflict = async () => {
+    if (!conflict) return;
+
+    setSelectedAssignment(conflict.current);
+    setConflict(null);
+    await getAssignments();
+  };
+
   const handleSort = (field: SortField) => {
     if (sortField === field) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
@@ -904,7 +976,7 @@ const Assignments: React.FC = () => {
     }
 
     try {
-      await addActivityToAssignment(activityData);
+      trackOwnWrite(await addActivityToAssignment(activityData));
 
       // Reset form and close
       setActivityFormData({
@@ -952,12 +1024,12 @@ const Assignments: React.FC = () => {
     if (!selectedAssignment) return;
 
     try {
-      await updateActivityInAssignment({
+      trackOwnWrite(await updateActivityInAssignment({
         taskId: selectedAssignment.taskId,
         activityId,
         status: 'Completed',
         completedAt: new Date().toISOString()
-      });
+      }));
 
       // Refresh assignments
       await getAssignments();
@@ -1667,6 +1739,18 @@ const Assignments: React.FC = () => {
           </div>
         )}
       </div>
+
+      {conflict && (
+        <ConflictDialog
+          key={conflict.current.revision}
+          recordLabel="assignment"
+          outcome={conflict.outcome}
+          fieldLabels={{ details: 'Description', oneDriveLink: 'OneDrive Link', oneDriveTitle: 'OneDrive Title' }}
+          onMerge={handleMergeConflict}
+          onDiscard={handleDiscardConflict}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 };
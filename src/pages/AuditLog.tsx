@@ -0,0 +1,358 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { ScrollText, Download, Filter, AlertTriangle, CheckCircle, XCircle, ChevronRight } from 'lucide-react';
+import { format } from 'date-fns';
+import * as XLSX from 'xlsx';
+import type { User, AuditLogEntry, AuditLogFilters, AuditResult } from '../types';
+import { useAuditApi } from '../hooks/useAuditApi';
+import { useUsersApi } from '../hooks/useUsersApi';
+import { useAuth } from '../hooks/useAuth';
+
+const PAGE_SIZE = 50;
+const EXPORT_PAGE_SIZE = 500;
+// Keeps a careless export from paging through the whole collection
+const EXPORT_LIMIT = 5000;
+
+const RESOURCE_TYPES = ['account', 'contact', 'product', 'opportunity', 'task', 'assignment', 'checklist', 'user', 'team', 'territory', 'trash', 'auth', 'error'];
+
+// Resource types that have their own page
+const RESOURCE_LINKS: Record<string, (id: string) => string> = {
+  account: id => `/accounts/${id}`,
+  contact: id => `/contacts/${id}`,
+  product: id => `/products/${id}`,
+  opportunity: id => `/opportunities/${id}`,
+  task: id => `/tasks/${id}`
+};
+
+interface FilterForm {
+  userId: string;
+  action: string;
+  resourceType: string;
+  resourceId: string;
+  result: '' | AuditResult;
+  from: string; // yyyy-MM-dd
+  to: string; // yyyy-MM-dd
+}
+
+const emptyFilters: FilterForm = { userId: '', action: '', resourceType: '', resourceId: '', result: '', from: '', to: '' };
+
+// Helper function to convert Cloud Functions timestamps to Date objects
+const toDate = (value: unknown): Date => {
+  const timestamp = value as { toDate?: () => Date; _seconds?: number; seconds?: number };
+  if (typeof timestamp?.toDate === 'function') return timestamp.toDate();
+  if (typeof timestamp?._seconds === 'number') return new Date(timestamp._seconds * 1000);
+  if (typeof timestamp?.seconds === 'number') return new Date(timestamp.seconds * 1000);
+  return new Date(value as string);
+};
+
+// Date inputs are local days; the range covers the whole of both days
+const toApiFilters = (form: FilterForm): AuditLogFilters => ({
+  userId: form.userId || undefined,
+  action: form.action.trim() || undefined,
+  resourceType: form.resourceType || undefined,
+  resourceId: form.resourceId.trim() || undefined,
+  result: form.result || undefined,
+  from: form.from ? new Date(`${form.from}T00:00:00`).toISOString() : undefined,
+  to: form.to ? new Date(`${form.to}T23:59:59.999`).toISOString() : undefined
+});
+
+export const AuditLog: React.FC = () => {
+  const { can } = useAuth();
+  const { loading, fetchAuditLogs } = useAuditApi();
+  const { getAllUsers, getUserDisplayName } = useUsersApi();
+
+  const [users, setUsers] = useState<User[]>([]);
+  const [form, setForm] = useState<FilterForm>(emptyFilters);
+  const [appliedFilters, setAppliedFilters] = useState<AuditLogFilters>({});
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canReadAudit = can('audit:read');
+
+  const loadFirstPage = useCallback(async (filters: AuditLogFilters) => {
+    setError(null);
+    try {
+      const page = await fetchAuditLogs(filters, undefined, PAGE_SIZE);
+      setEntries(page.entries);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Error loading audit log:', err);
+      setError((err as { message?: string })?.message || 'Failed to load audit log');
+    }
+  }, [fetchAuditLogs]);
+
+  useEffect(() => {
+    if (!canReadAudit) return;
+    loadFirstPage({});
+    getAllUsers().then(setUsers);
+  }, [canReadAudit, loadFirstPage, getAllUsers]);
+
+  if (!canReadAudit) {
+    return <Navigate to="/" replace />;
+  }
+
+  const getUserName = (userId: string, email?: string) => {
+    if (userId === 'system') return 'System';
+    const user = users.find(u => u.id === userId);
+    return user ? getUserDisplayName(user) : email || userId;
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    const filters = toApiFilters(form);
+    setAppliedFilters(filters);
+    loadFirstPage(filters);
+  };
+
+  const handleReset = () => {
+    setForm(emptyFilters);
+    setAppliedFilters({});
+    loadFirstPage({});
+  };
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    try {
+      const page = await fetchAuditLogs(appliedFilters, nextCursor, PAGE_SIZE);
+      setEntries(prev => [...prev, ...page.entries]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Error loading audit log:', err);
+      setError((err as { message?: string })?.message || 'Failed to load more entries');
+    }
+  };
+
+  // Exports every entry matching the applied filters, not just the loaded pages
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const allEntries: AuditLogEntry[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await fetchAuditLogs(appliedFilters, cursor, EXPORT_PAGE_SIZE);
+        allEntries.push(...page.entries);
+        cursor = page.nextCursor || undefined;
+      } while (cursor && allEntries.length < EXPORT_LIMIT);
+
+      if (allEntries.length === 0) {
+        alert('No audit entries to export');
+        return;
+      }
+
+      const exportData = allEntries.slice(0, EXPORT_LIMIT).map(entry => ({
+        'Timestamp': entry.metadata?.timestamp ? format(toDate(entry.metadata.timestamp), 'yyyy-MM-dd HH:mm:ss') : '',
+        'User': getUserName(entry.userId, entry.userEmail),
+        'User ID': entry.userId,
+        'Action': entry.action,
+        'Resource Type': entry.resourceType,
+        'Resource ID': entry.resourceId,
+        'Result': entry.result,
+        'Error': entry.error || '',
+        'Data': entry.data ? JSON.stringify(entry.data) : ''
+      }));
+
+      const workbook = XLSX.utils.book_new();
+      const worksheet = XLSX.utils.json_to_sheet(exportData);
+      XLSX.utils.book_append_sheet(workbook, worksheet, 'Audit Log');
+      XLSX.writeFile(workbook, `audit_log_${format(new Date(), 'yyyy-MM-dd')}.csv`, { bookType: 'csv' });
+    } catch (err) {
+      console.error('Error exporting audit log:', err);
+      setError('Failed to export audit log');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Timeline groups entries by day, newest first
+  const groupedEntries = entries.reduce((groups, entry) => {
+    const day = entry.metadata?.timestamp ? format(toDate(entry.metadata.timestamp), 'EEEE, MMM d, yyyy') : 'Unknown date';
+    const group = groups.find(g => g.day === day);
+    if (group) {
+      group.entries.push(entry);
+    } else {
+      groups.push({ day, entries: [entry] });
+    }
+    return groups;
+  }, [] as { day: string; entries: AuditLogEntry[] }[]);
+
+  const inputClass = 'w-full text-sm border border-gray-300 rounded-md px-2.5 py-1.5 focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Audit Log</h1>
+          <p className="text-sm text-gray-500">Every change, merge, import and access recorded by the system.</p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={exporting}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          title={`Export up to ${EXPORT_LIMIT} entries matching the filters`}
+        >
+          <Download className="h-4 w-4" />
+          {exporting ? 'Exporting...' : 'Export CSV'}
+        </button>
+      </div>
+
+      {/* Filters */}
+      <form onSubmit={handleApply} className="bg-white shadow rounded-lg p-4">
+        <div className="flex items-center gap-2 mb-3">
+          <Filter className="h-4 w-4 text-gray-500" />
+          <h2 className="text-base font-medium text-gray-900">Filters</h2>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">User</label>
+            <select value={form.userId} onChange={e => setForm({ ...form, userId: e.target.value })} className={inputClass}>
+              <option value="">All users</option>
+              <option value="system">System</option>
+              {users.map(user => (
+                <option key={user.id} value={user.id}>{getUserDisplayName(user)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Action</label>
+            <input
+              type="text"
+              value={form.action}
+              onChange={e => setForm({ ...form, action: e.target.value })}
+              placeholder="e.g. ACCOUNT_UPDATE"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Resource type</label>
+            <select value={form.resourceType} onChange={e => setForm({ ...form, resourceType: e.target.value })} className={inputClass}>
+              <option value="">All resources</option>
+              {RESOURCE_TYPES.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Resource ID</label>
+            <input
+              type="text"
+              value={form.resourceId}
+              onChange={e => setForm({ ...form, resourceId: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Result</label>
+            <select value={form.result} onChange={e => setForm({ ...form, result: e.target.value as FilterForm['result'] })} className={inputClass}>
+              <option value="">Any result</option>
+              <option value="SUCCESS">Success</option>
+              <option value="FAILURE">Failure</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+            <input type="date" value={form.from} onChange={e => setForm({ ...form, from: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+            <input type="date" value={form.to} onChange={e => setForm({ ...form, to: e.target.value })} className={inputClass} />
+          </div>
+          <div className="flex items-end gap-2">
+            <button type="submit" className="btn-primary flex-1">Apply</button>
+            <button type="button" onClick={handleReset} className="btn-secondary flex-1">Reset</button>
+          </div>
+        </div>
+      </form>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* Timeline */}
+      <div className="bg-white shadow rounded-lg p-4">
+        {loading && entries.length === 0 ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12">
+            <ScrollText className="mx-auto h-10 w-10 text-gray-300" />
+            <p className="mt-2 text-sm text-gray-500">No audit entries match these filters</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {groupedEntries.map(group => (
+              <div key={group.day}>
+                <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">{group.day}</h3>
+                <ol className="relative border-l border-gray-200 ml-2">
+                  {group.entries.map(entry => {
+                    const link = RESOURCE_LINKS[entry.resourceType];
+                    const failed = entry.result === 'FAILURE';
+                    return (
+                      <li key={entry.id} className="relative pl-4 pb-4">
+                        <span className={`absolute -left-1.5 top-1.5 h-3 w-3 rounded-full border border-white ${failed ? 'bg-red-500' : 'bg-primary-500'}`} />
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <div className="text-sm text-gray-900">
+                              <span className="font-medium">{getUserName(entry.userId, entry.userEmail)}</span>
+                              {' · '}
+                              <span className="font-mono text-xs bg-gray-100 rounded px-1.5 py-0.5">{entry.action}</span>
+                              {' · '}
+                              {link && entry.resourceId !== 'unknown' ? (
+                                <Link to={link(entry.resourceId)} className="text-primary-600 hover:text-primary-700">
+                                  {entry.resourceType} {entry.resourceId}
+                                </Link>
+                              ) : (
+                                <span className="text-gray-600">{entry.resourceType} {entry.resourceId}</span>
+                              )}
+                            </div>
+                            {entry.error && (
+                              <div className="text-xs text-red-600 mt-0.5">{entry.error}</div>
+                            )}
+                            {entry.data && (
+                              <details className="mt-1">
+                                <summary className="text-xs text-gray-500 cursor-pointer flex items-center gap-1">
+                                  <ChevronRight className="h-3 w-3" />
+                                  Details
+                                </summary>
+                                <pre className="mt-1 text-xs text-gray-700 bg-gray-50 rounded p-2 overflow-x-auto">
+                                  {JSON.stringify(entry.data, null, 2)}
+                                </pre>
+                              </details>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2 flex-shrink-0 text-xs text-gray-500">
+                            {failed ? (
+                              <XCircle className="h-4 w-4 text-red-500" />
+                            ) : (
+                              <CheckCircle className="h-4 w-4 text-green-500" />
+                            )}
+                            {entry.metadata?.timestamp && format(toDate(entry.metadata.timestamp), 'HH:mm:ss')}
+                          </div>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+            ))}
+
+            {nextCursor && (
+              <div className="text-center">
+                <button onClick={handleLoadMore} disabled={loading} className="btn-secondary">
+                  {loading ? 'Loading...' : 'Load more'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
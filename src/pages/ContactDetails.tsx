@@ -26,10 +26,14 @@ import type { Contact, Account, Product, ContactType, Opportunity, Activity as A
 import { format, formatDistanceToNow } from 'date-fns';
 import { useAuth } from '../hooks/useAuth';
 import { OwnerSelect } from '../components/OwnerSelect';
+import { DetailTabs } from '../components/DetailTabs';
+import type { DetailTab } from '../components/DetailTabs';
+import { RecordHistory } from '../components/RecordHistory';
 import { useContactsApi } from '../hooks/useContactsApi';
 import { useAccountsApi } from '../hooks/useAccountsApi';
 import { useProductsApi } from '../hooks/useProductsApi';
 import { useOpportunitiesApi } from '../hooks/useOpportunitiesApi';
+import { useDuplicatesApi } from '../hooks/useDuplicatesApi';
 
 const contactTypes: ContactType[] = [
   'Primary',
@@ -45,7 +49,7 @@ const CONTACT_METHODS = ['Email', 'Phone', 'LinkedIn', 'Teams'] as const;
 export const ContactDetails: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { currentUser } = useAuth();
+  const { currentUser, can } = useAuth();
   const isNew = id === 'new' || !id;
   
   // API hooks
@@ -76,6 +80,7 @@ export const ContactDetails: React.FC = () => {
   } = useOpportunitiesApi();
   
   const [contact, setContact] = useState<Contact | null>(null);
+  const [activeTab, setActiveTab] = useState<DetailTab>('details');
   const [contactActivities, setContactActivities] = useState<ActivityType[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -128,6 +133,18 @@ export const ContactDetails: React.FC = () => {
     fetchData();
   }, [id]);
 
+  const { getRecordRedirect } = useDuplicatesApi();
+
+  // Records that were merged away redirect to the contact they were merged into
+  const followMergeRedirect = async (contactId: string): Promise<boolean> => {
+    const redirect = await getRecordRedirect('contacts', contactId).catch(() => null);
+    if (redirect) {
+      navigate(`/contacts/${redirect.toId}`, { replace: true });
+      return true;
+    }
+    return false;
+  };
+
   const fetchData = async () => {
     setLoading(true);
     try {
@@ -154,6 +171,7 @@ export const ContactDetails: React.FC = () => {
         }
       }
     } catch (error) {
+      if (id && !isNew && await followMergeRedirect(id)) return;
       console.error('Error fetching contact data:', error);
     } finally {
       setLoading(false);
@@ -332,7 +350,7 @@ export const ContactDetails: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center gap-2">
-            {!isNew && (
+            {!isNew && can('contacts:delete') && (
               <button
                 onClick={handleDelete}
                 className="btn-danger-sm flex items-center gap-1.5"
@@ -343,12 +361,21 @@ export const ContactDetails: React.FC = () => {
             )}
           </div>
         </div>
+        {!isNew && <DetailTabs activeTab={activeTab} onChange={setActiveTab} />}
       </div>
 
       {/* Content - Compact Layout */}
       <div className="flex-1 overflow-auto pb-20">
         <div className="max-w-6xl mx-auto p-4">
-          <form id="contact-form" onSubmit={handleSubmit} className="space-y-4">
+          {activeTab === 'history' && id && (
+            <RecordHistory
+              collection="contacts"
+              recordId={id}
+              revision={contact?.revision}
+              onReverted={() => fetchData()}
+            />
+          )}
+          <form id="contact-form" onSubmit={handleSubmit} className={activeTab === 'history' ? 'hidden' : 'space-y-4'}>
             
             {/* Main Information Grid */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
@@ -997,19 +1024,21 @@ export const ContactDetails: React.FC = () => {
       </div>
 
       {/* Floating Save Button */}
-      <button
-        type="submit"
-        form="contact-form"
-        disabled={saving || !formData.name?.trim() || !formData.accountId}
-        className="fixed bottom-4 right-4 bg-primary-600 text-white p-3 rounded-full shadow-lg hover:bg-primary-700 focus:outline-none focus:ring-4 focus:ring-primary-500 focus:ring-opacity-50 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed z-50"
-        title={saving ? 'Saving...' : 'Save Contact'}
-      >
-        {saving ? (
-          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-        ) : (
-          <Save className="h-5 w-5" />
-        )}
-      </button>
+      {activeTab === 'details' && can(isNew ? 'contacts:create' : 'contacts:update') && (
+        <button
+          type="submit"
+          form="contact-form"
+          disabled={saving || !formData.name?.trim() || !formData.accountId}
+          className="fixed bottom-4 right-4 bg-primary-600 text-white p-3 rounded-full shadow-lg hover:bg-primary-700 focus:outline-none focus:ring-4 focus:ring-primary-500 focus:ring-opacity-50 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed z-50"
+          title={saving ? 'Saving...' : 'Save Contact'}
+        >
+          {saving ? (
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+          ) : (
+            <Save className="h-5 w-5" />
+          )}
+        </button>
+      )}
     </div>
   );
 }; 
\ No newline at end of file
@@ -20,12 +20,16 @@ import {
   User,
   Package,
   Download,
+  Upload,
   ExternalLink,
   MessageSquare
 } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import type { Contact, ContactType, Account, Product, Opportunity, Activity as ActivityType } from '../types';
 import { useDataContext } from '../context/DataContext';
+import { useAuth } from '../hooks/useAuth';
+import { ImportWizard } from '../components/ImportWizard';
+import { ScopeSelect } from '../components/ScopeSelect';
 import { format, formatDistanceToNow, isAfter, isBefore, startOfDay } from 'date-fns';
 
 type SortField = 'name' | 'email' | 'position' | 'contactType' | 'lastContactDate' | 'createdAt';
@@ -79,13 +83,15 @@ const toMillis = (dateValue: any): number => {
 
 export const Contacts: React.FC = () => {
   const navigate = useNavigate();
+  const { can } = useAuth();
   const {
     cache,
     loading,
     getAccounts,
     getContacts,
     getProducts,
-    getOpportunities
+    getOpportunities,
+    refreshData
   } = useDataContext();
   
   const contacts = cache?.contacts || [];
@@ -94,6 +100,7 @@ export const Contacts: React.FC = () => {
   const opportunities = cache?.opportunities || [];
   const [pageLoading, setPageLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [showImport, setShowImport] = useState(false);
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
   const [contactTypeFilter, setContactTypeFilter] = useState<ContactType | 'All'>('All');
@@ -435,13 +442,15 @@ export const Contacts: React.FC = () => {
                 {filteredAndSortedContacts.length}
               </span>
             </button>
-            <button
-              onClick={handleAdd}
-              className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 transition-colors shadow-sm"
-            >
-              <Plus className="h-4 w-4" />
-              New Contact
-            </button>
+            {can('contacts:create') && (
+              <button
+                onClick={handleAdd}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 transition-colors shadow-sm"
+              >
+                <Plus className="h-4 w-4" />
+                New Contact
+              </button>
+            )}
           </div>
         </div>
         
@@ -459,6 +468,8 @@ export const Contacts: React.FC = () => {
           </div>
           
           <div className="flex flex-col sm:flex-row gap-3">
+            <ScopeSelect />
+            
             <select
               value={contactTypeFilter}
               onChange={(e) => setContactTypeFilter(e.target.value as ContactType | 'All')}
@@ -499,7 +510,7 @@ export const Contacts: React.FC = () => {
                 ? 'Try adjusting your search or filters' 
                 : 'Get started by creating your first contact'}
             </p>
-            {!searchTerm && contactTypeFilter === 'All' && accountFilter === 'All' && (
+            {!searchTerm && contactTypeFilter === 'All' && accountFilter === 'All' && can('contacts:create') && (
               <button
                 onClick={handleAdd}
                 className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 transition-colors"
@@ -865,17 +876,33 @@ export const Contacts: React.FC = () => {
           </span>
         </button>
 
+        {/* Import Button */}
+        {can('records:import') && can('contacts:create') && (
+          <button
+            onClick={() => setShowImport(true)}
+            className="group relative inline-flex items-center justify-center w-14 h-14 bg-blue-600 text-white rounded-full hover:bg-blue-700 focus:outline-none focus:ring-4 focus:ring-blue-500 focus:ring-opacity-50 transition-all duration-200 shadow-lg hover:shadow-xl"
+            title="Import contacts from CSV or Excel"
+          >
+            <Upload className="h-6 w-6" />
+            <span className="absolute right-16 top-1/2 transform -translate-y-1/2 bg-gray-900 text-white text-sm px-3 py-2 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
+              Import Contacts
+            </span>
+          </button>
+        )}
+
         {/* New Contact Button */}
-        <button
-          onClick={handleAdd}
-          className="group relative inline-flex items-center justify-center w-14 h-14 bg-primary-600 text-white rounded-full hover:bg-primary-700 focus:outline-none focus:ring-4 focus:ring-primary-500 focus:ring-opacity-50 transition-all duration-200 shadow-lg hover:shadow-xl"
-          title="Create New Contact"
-        >
-          <Plus className="h-6 w-6" />
-          <span className="absolute right-16 top-1/2 transform -translate-y-1/2 bg-gray-900 text-white text-sm px-3 py-2 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
-            New Contact
-          </span>
-        </button>
+        {can('contacts:create') && (
+          <button
+            onClick={handleAdd}
+            className="group relative inline-flex items-center justify-center w-14 h-14 bg-primary-600 text-white rounded-full hover:bg-primary-700 focus:outline-none focus:ring-4 focus:ring-primary-500 focus:ring-opacity-50 transition-all duration-200 shadow-lg hover:shadow-xl"
+            title="Create New Contact"
+          >
+            <Plus className="h-6 w-6" />
+            <span className="absolute right-16 top-1/2 transform -translate-y-1/2 bg-gray-900 text-white text-sm px-3 py-2 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
+              New Contact
+            </span>
+          </button>
+        )}
       </div>
 
       {/* Mobile Floating Action Bar */}
@@ -888,14 +915,24 @@ export const Contacts: React.FC = () => {
           <Download className="h-5 w-5" />
           <span>Export ({filteredAndSortedContacts.length})</span>
         </button>
-        <button
-          onClick={handleAdd}
-          className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 transition-colors shadow-sm"
-        >
-          <Plus className="h-5 w-5" />
-          <span>New</span>
-        </button>
+        {can('contacts:create') && (
+          <button
+            onClick={handleAdd}
+            className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 transition-colors shadow-sm"
+          >
+            <Plus className="h-5 w-5" />
+            <span>New</span>
+          </button>
+        )}
       </div>
+
+      {showImport && (
+        <ImportWizard
+          entity="contacts"
+          onClose={() => setShowImport(false)}
+          onComplete={() => refreshData('contacts')}
+        />
+      )}
     </div>
   );
 }; 
\ No newline at end of file
@@ -19,6 +19,10 @@ import {
 } from 'lucide-react';
 import type { Opportunity, Account, Task, User } from '../types';
 import { useDataContext } from '../context/DataContext';
+import { ScopeSelect } from '../components/ScopeSelect';
+import { TargetProgress } from '../components/TargetProgress';
+import { TargetLeaderboard } from '../components/TargetLeaderboard';
+import { useAuth } from '../hooks/useAuth';
 import { format, isAfter, isBefore, subDays, startOfWeek, endOfWeek, differenceInDays, addDays } from 'date-fns';
 
 // Helper function to safely parse any timestamp format
@@ -60,6 +64,7 @@ interface OpportunityHealth {
 export const Dashboard: React.FC = () => {
   // Data context
   const { cache, isLoading, loadAllData, loading } = useDataContext();
+  const { currentUser } = useAuth();
   
   // Use cached data directly instead of local state
   const opportunities = cache.opportunities || [];
@@ -327,9 +332,12 @@ export const Dashboard: React.FC = () => {
     <div className="min-h-screen bg-gray-50">
       <div className="p-6">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">Partner Solutions Dashboard</h1>
-          <p className="text-gray-600 mt-2">Hospitality Tech Partnerships - Business Unit Overview</p>
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Partner Solutions Dashboard</h1>
+            <p className="text-gray-600 mt-2">Hospitality Tech Partnerships - Business Unit Overview</p>
+          </div>
+          <ScopeSelect />
         </div>
 
         {/* Opportunity Health KPIs */}
@@ -704,6 +712,12 @@ export const Dashboard: React.FC = () => {
             </div>
           </div>
         </div>
+
+        {/* Targets and Leaderboard */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+          {currentUser && <TargetProgress userId={currentUser.uid} />}
+          <TargetLeaderboard />
+        </div>
       </div>
     </div>
   );
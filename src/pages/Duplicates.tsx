@@ -0,0 +1,272 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { GitMerge, Building2, Users, RefreshCw, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import type { AccountDuplicateRecord, ContactDuplicateRecord, DuplicateGroup, DuplicateReason } from '../types';
+import { useDuplicatesApi } from '../hooks/useDuplicatesApi';
+import { useDataContext } from '../context/DataContext';
+import { useAuth } from '../hooks/useAuth';
+
+type DuplicateTab = 'accounts' | 'contacts';
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  same_name: 'Same name',
+  similar_name: 'Similar name',
+  same_website: 'Same website',
+  same_email: 'Same email',
+  same_name_and_account: 'Same name & account'
+};
+
+interface MergeSelection {
+  winnerId: string;
+  excludedIds: string[];
+}
+
+// Default survivor is the record with the most related data
+const defaultWinner = (records: Array<AccountDuplicateRecord | ContactDuplicateRecord>): string => {
+  const weight = (record: AccountDuplicateRecord | ContactDuplicateRecord) =>
+    'contactCount' in record
+      ? record.contactCount + record.productCount + record.opportunityCount
+      : record.opportunityCount;
+  return [...records].sort((a, b) => weight(b) - weight(a))[0].id;
+};
+
+const groupKey = (group: DuplicateGroup<{ id: string }>) => group.records.map(record => record.id).join('|');
+
+export const Duplicates: React.FC = () => {
+  const { cache, refreshData } = useDataContext();
+  const { can } = useAuth();
+  const {
+    accountGroups,
+    contactGroups,
+    loading,
+    findDuplicateAccounts,
+    findDuplicateContacts,
+    mergeAccounts,
+    mergeContacts
+  } = useDuplicatesApi();
+  const accounts = cache.accounts || [];
+
+  const [tab, setTab] = useState<DuplicateTab>('accounts');
+  const [selections, setSelections] = useState<Record<string, MergeSelection>>({});
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const scan = useCallback(async (target: DuplicateTab) => {
+    setError(null);
+    try {
+      if (target === 'accounts') {
+        await findDuplicateAccounts();
+      } else {
+        await findDuplicateContacts();
+      }
+    } catch (err) {
+      console.error('Error finding duplicates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to find duplicates');
+    }
+  }, [findDuplicateAccounts, findDuplicateContacts]);
+
+  useEffect(() => {
+    scan(tab);
+  }, [scan, tab]);
+
+  const getSelection = (group: DuplicateGroup<AccountDuplicateRecord | ContactDuplicateRecord>): MergeSelection => {
+    return selections[groupKey(group)] || { winnerId: defaultWinner(group.records), excludedIds: [] };
+  };
+
+  const updateSelection = (key: string, selection: MergeSelection) => {
+    setSelections(prev => ({ ...prev, [key]: selection }));
+  };
+
+  const handleMerge = async (group: DuplicateGroup<AccountDuplicateRecord | ContactDuplicateRecord>) => {
+    const key = groupKey(group);
+    const { winnerId, excludedIds } = getSelection(group);
+    const loserIds = group.records
+      .map(record => record.id)
+      .filter(id => id !== winnerId && !excludedIds.includes(id));
+    const winner = group.records.find(record => record.id === winnerId);
+
+    if (loserIds.length === 0) return;
+    if (!confirm(`Merge ${loserIds.length} record${loserIds.length === 1 ? '' : 's'} into "${winner?.name}"? Merged records are moved to the trash.`)) {
+      return;
+    }
+
+    setMergingKey(key);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = tab === 'accounts'
+        ? await mergeAccounts(winnerId, loserIds)
+        : await mergeContacts(winnerId, loserIds);
+      setMessage(`Merged ${result.mergedIds.length} record${result.mergedIds.length === 1 ? '' : 's'} into "${winner?.name}" and updated ${result.updatedReferences} related record${result.updatedReferences === 1 ? '' : 's'}.`);
+      await refreshData(tab);
+      await scan(tab);
+    } catch (err) {
+      console.error('Error merging records:', err);
+      setError(err instanceof Error ? err.message : 'Failed to merge records');
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  const getAccountName = (accountId: string) => accounts.find(account => account.id === accountId)?.name || 'Unknown account';
+
+  const renderDetails = (record: AccountDuplicateRecord | ContactDuplicateRecord) => {
+    if ('contactCount' in record) {
+      return [
+        record.website,
+        record.region,
+        `${record.contactCount} contacts · ${record.productCount} products · ${record.opportunityCount} opportunities`
+      ].filter(Boolean).join(' · ');
+    }
+    return [
+      record.email,
+      getAccountName(record.accountId),
+      record.position,
+      `${record.opportunityCount} opportunities`
+    ].filter(Boolean).join(' · ');
+  };
+
+  const groups: DuplicateGroup<AccountDuplicateRecord | ContactDuplicateRecord>[] = tab === 'accounts' ? accountGroups : contactGroups;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Duplicates</h1>
+          <p className="text-sm text-gray-500">
+            Review likely duplicate records and merge them into a single record.
+          </p>
+        </div>
+        <button
+          onClick={() => scan(tab)}
+          disabled={loading}
+          className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Rescan
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="flex items-center gap-2 bg-green-50 border border-green-200 text-green-700 text-sm rounded-lg p-3">
+          <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+          {message}
+        </div>
+      )}
+
+      {/* Tabs */}
+      <div className="flex gap-2">
+        {([['accounts', 'Accounts', Building2], ['contacts', 'Contacts', Users]] as const).map(([value, label, Icon]) => (
+          <button
+            key={value}
+            onClick={() => setTab(value)}
+            className={`inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-full border ${tab === value ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+          >
+            <Icon className="h-4 w-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Groups */}
+      {loading && groups.length === 0 ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="bg-white shadow rounded-lg text-center py-12">
+          <GitMerge className="mx-auto h-10 w-10 text-gray-300" />
+          <p className="mt-2 text-sm text-gray-500">No likely duplicates found</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {groups.map(group => {
+            const key = groupKey(group);
+            const selection = getSelection(group);
+            const mergeCount = group.records.filter(record => record.id !== selection.winnerId && !selection.excludedIds.includes(record.id)).length;
+            return (
+              <div key={key} className="bg-white shadow rounded-lg">
+                <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {group.reasons.map(reason => (
+                      <span key={reason} className="px-2 py-0.5 text-xs font-medium text-amber-800 bg-amber-100 rounded-full">
+                        {REASON_LABELS[reason]}
+                      </span>
+                    ))}
+                    <span className="text-xs text-gray-500">{Math.round(group.score * 100)}% match</span>
+                  </div>
+                  {can(tab === 'accounts' ? 'accounts:merge' : 'contacts:merge') && (
+                    <button
+                      onClick={() => handleMerge(group)}
+                      disabled={mergingKey !== null || mergeCount === 0}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50"
+                    >
+                      <GitMerge className="h-3.5 w-3.5" />
+                      {mergingKey === key ? 'Merging...' : `Merge ${mergeCount}`}
+                    </button>
+                  )}
+                </div>
+                <ul className="divide-y divide-gray-100">
+                  {group.records.map(record => {
+                    const isWinner = record.id === selection.winnerId;
+                    const isExcluded = selection.excludedIds.includes(record.id);
+                    return (
+                      <li key={record.id} className="flex items-center gap-3 px-4 py-3">
+                        <input
+                          type="radio"
+                          name={`winner-${key}`}
+                          checked={isWinner}
+                          onChange={() => updateSelection(key, {
+                            winnerId: record.id,
+                            excludedIds: selection.excludedIds.filter(id => id !== record.id)
+                          })}
+                          title="Keep this record"
+                          className="text-primary-600 focus:ring-primary-500"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <Link
+                            to={`/${tab}/${record.id}`}
+                            className="text-sm font-medium text-gray-900 hover:text-primary-600 truncate"
+                          >
+                            {record.name}
+                          </Link>
+                          {isWinner && <span className="ml-2 text-xs font-medium text-green-700">Keep</span>}
+                          <div className="text-xs text-gray-500 truncate">{renderDetails(record)}</div>
+                        </div>
+                        {!isWinner && (
+                          <label className="flex items-center gap-1.5 text-xs text-gray-600 flex-shrink-0">
+                            <input
+                              type="checkbox"
+                              checked={!isExcluded}
+                              onChange={() => updateSelection(key, {
+                                winnerId: selection.winnerId,
+                                excludedIds: isExcluded
+                                  ? selection.excludedIds.filter(id => id !== record.id)
+                                  : [...selection.excludedIds, record.id]
+                              })}
+                              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                            />
+                            Merge
+                          </label>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
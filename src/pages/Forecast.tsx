@@ -0,0 +1,413 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  LineChart,
+  History,
+  Scale,
+  Save,
+  RefreshCw,
+  ArrowRight
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { useForecastApi } from '../hooks/useForecastApi';
+import { useDataContext } from '../context/DataContext';
+import { useAuth } from '../hooks/useAuth';
+import type { ForecastComparison, ForecastPeriodType, ForecastReport, ForecastSnapshotSummary, ForecastTotals, OpportunityStage } from '../types';
+import { FORECAST_CATEGORY_OPTIONS } from '../types/Forecast';
+
+const OPPORTUNITY_STAGES: OpportunityStage[] = ['Lead', 'Qualified', 'Proposal', 'Negotiation', 'Closed-Won', 'Closed-Lost'];
+
+const formatValue = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+// Snapshot ids and deal close dates are UTC days (yyyy-MM-dd)
+const formatDay = (day: string) => format(new Date(`${day}T00:00:00`), 'MMM d, yyyy');
+
+const categoryLabel = (category: string) =>
+  FORECAST_CATEGORY_OPTIONS.find(option => option.value === category)?.label || category;
+
+const formatChange = (then: number, now: number) => {
+  const change = now - then;
+  if (change === 0) return <span className="text-gray-400">—</span>;
+  return (
+    <span className={change > 0 ? 'text-green-600' : 'text-red-600'}>
+      {change > 0 ? '+' : '-'}{formatValue(Math.abs(change))}
+    </span>
+  );
+};
+
+export const Forecast: React.FC = () => {
+  const {
+    fetchForecast,
+    fetchForecastSettings,
+    saveForecastSettings,
+    fetchForecastSnapshots,
+    fetchForecastComparison
+  } = useForecastApi();
+  const { cache } = useDataContext();
+  const { can } = useAuth();
+  const users = cache.users || [];
+  const canManage = can('forecast:manage');
+
+  const [periodType, setPeriodType] = useState<ForecastPeriodType>('month');
+  const [ownerId, setOwnerId] = useState('');
+  const [report, setReport] = useState<ForecastReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [snapshots, setSnapshots] = useState<ForecastSnapshotSummary[]>([]);
+  const [snapshotId, setSnapshotId] = useState('');
+  const [comparison, setComparison] = useState<ForecastComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  const [weights, setWeights] = useState<Record<OpportunityStage, number> | null>(null);
+  const [savingWeights, setSavingWeights] = useState(false);
+  const [weightsMessage, setWeightsMessage] = useState<string | null>(null);
+
+  const periods = periodType === 'month' ? 6 : 4;
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await fetchForecast({ periodType, periods, ownerId: ownerId || undefined });
+      setReport(data);
+    } catch (err) {
+      console.error('Error loading forecast:', err);
+      setError('Failed to load forecast');
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchForecast, periodType, periods, ownerId]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  useEffect(() => {
+    fetchForecastSnapshots()
+      .then(setSnapshots)
+      .catch(err => console.error('Error loading forecast snapshots:', err));
+    fetchForecastSettings()
+      .then(settings => setWeights(settings.stageWeights))
+      .catch(err => console.error('Error loading forecast settings:', err));
+  }, [fetchForecastSnapshots, fetchForecastSettings]);
+
+  useEffect(() => {
+    if (!snapshotId) {
+      setComparison(null);
+      return;
+    }
+    setComparing(true);
+    fetchForecastComparison(snapshotId, { periodType, periods, ownerId: ownerId || undefined })
+      .then(setComparison)
+      .catch(err => {
+        console.error('Error comparing forecast:', err);
+        setError('Failed to load the forecast snapshot');
+      })
+      .finally(() => setComparing(false));
+  }, [fetchForecastComparison, snapshotId, periodType, periods, ownerId]);
+
+  const getUserName = (userId: string) => {
+    const user = users.find(u => u.id === userId);
+    return user?.displayName || user?.email || 'Unassigned';
+  };
+
+  const handleSaveWeights = async () => {
+    if (!weights) return;
+    setSavingWeights(true);
+    setWeightsMessage(null);
+    try {
+      const settings = await saveForecastSettings(weights);
+      setWeights(settings.stageWeights);
+      setWeightsMessage('Stage weights saved');
+      fetchReport();
+    } catch (err) {
+      console.error('Error saving stage weights:', err);
+      setWeightsMessage((err as { message?: string })?.message || 'Failed to save stage weights');
+    } finally {
+      setSavingWeights(false);
+    }
+  };
+
+  const renderTotalsRow = (label: React.ReactNode, totals: ForecastTotals, key: string, muted = false) => (
+    <tr key={key} className={`border-b border-gray-100 ${muted ? 'bg-gray-50' : ''}`}>
+      <td className="px-4 py-2 text-sm font-medium text-gray-900">{label}</td>
+      <td className="px-4 py-2 text-sm text-gray-700 text-right">{totals.opportunities}</td>
+      <td className="px-4 py-2 text-sm text-gray-700 text-right">{formatValue(totals.closedWon)}</td>
+      <td className="px-4 py-2 text-sm text-gray-700 text-right">{formatValue(totals.commit)}</td>
+      <td className="px-4 py-2 text-sm text-gray-700 text-right">{formatValue(totals.bestCase)}</td>
+      <td className="px-4 py-2 text-sm text-gray-700 text-right">{formatValue(totals.pipeline)}</td>
+      <td className="px-4 py-2 text-sm font-medium text-gray-900 text-right">{formatValue(totals.weighted)}</td>
+    </tr>
+  );
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">Forecast</h1>
+            <p className="text-sm text-gray-500">
+              Expected revenue by expected close date. Best case includes commit; pipeline is every open deal.
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+              {(['month', 'quarter'] as ForecastPeriodType[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setPeriodType(option)}
+                  className={`px-3 py-1.5 text-sm ${periodType === option ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {option === 'month' ? 'Monthly' : 'Quarterly'}
+                </button>
+              ))}
+            </div>
+            <select
+              value={ownerId}
+              onChange={(e) => setOwnerId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              <option value="">All owners</option>
+              {users.map(user => (
+                <option key={user.id} value={user.id}>{user.displayName || user.email}</option>
+              ))}
+            </select>
+            <button
+              onClick={fetchReport}
+              disabled={loading}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-auto p-6">
+        <div className="max-w-7xl mx-auto space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-4">
+              {error}
+            </div>
+          )}
+
+          {loading && !report && (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          )}
+
+          {report && (
+            <>
+              {/* Forecast by period */}
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="p-2 bg-primary-100 rounded-lg">
+                    <LineChart className="h-5 w-5 text-primary-600" />
+                  </div>
+                  <h2 className="text-xl font-semibold text-gray-900">By {periodType === 'month' ? 'Month' : 'Quarter'}</h2>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full">
+                    <thead>
+                      <tr className="border-b border-gray-200 text-xs text-gray-500 uppercase tracking-wider">
+                        <th className="px-4 py-2 text-left">Period</th>
+                        <th className="px-4 py-2 text-right">Open Deals</th>
+                        <th className="px-4 py-2 text-right">Closed Won</th>
+                        <th className="px-4 py-2 text-right">Commit</th>
+                        <th className="px-4 py-2 text-right">Best Case</th>
+                        <th className="px-4 py-2 text-right">Pipeline</th>
+                        <th className="px-4 py-2 text-right">Weighted</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.overdue.opportunities > 0 &&
+                        renderTotalsRow('Overdue', report.overdue, 'overdue', true)}
+                      {report.periods.map(period => renderTotalsRow(period.label, period, period.key))}
+                      {report.undated.opportunities > 0 &&
+                        renderTotalsRow('No close date', report.undated, 'undated', true)}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="mt-3 text-xs text-gray-500">
+                  Overdue deals are still open with a close date in the past. Weighted applies the stage weights to every open deal.
+                </p>
+              </div>
+
+              {/* Forecast as of a snapshot */}
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-primary-100 rounded-lg">
+                      <History className="h-5 w-5 text-primary-600" />
+                    </div>
+                    <h2 className="text-xl font-semibold text-gray-900">Forecast Changes</h2>
+                  </div>
+                  <select
+                    value={snapshotId}
+                    onChange={(e) => setSnapshotId(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  >
+                    <option value="">Compare with forecast as of...</option>
+                    {snapshots.map(snapshot => (
+                      <option key={snapshot.id} value={snapshot.id}>{formatDay(snapshot.id)}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {snapshots.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-6">
+                    The forecast is snapshotted every Monday; there are no snapshots to compare with yet
+                  </p>
+                )}
+
+                {snapshots.length > 0 && !snapshotId && (
+                  <p className="text-sm text-gray-500 text-center py-6">Pick a date to see how the forecast has moved since</p>
+                )}
+
+                {comparing && (
+                  <div className="flex items-center justify-center h-24">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+                  </div>
+                )}
+
+                {comparison && !comparing && (
+                  <div className="space-y-6">
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full">
+                        <thead>
+                          <tr className="border-b border-gray-200 text-xs text-gray-500 uppercase tracking-wider">
+                            <th className="px-4 py-2 text-left">Period</th>
+                            <th className="px-4 py-2 text-right">Commit Then</th>
+                            <th className="px-4 py-2 text-right">Commit Now</th>
+                            <th className="px-4 py-2 text-right">Change</th>
+                            <th className="px-4 py-2 text-right">Weighted Then</th>
+                            <th className="px-4 py-2 text-right">Weighted Now</th>
+                            <th className="px-4 py-2 text-right">Change</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {comparison.periods.map(period => (
+                            <tr key={period.key} className="border-b border-gray-100">
+                              <td className="px-4 py-2 text-sm font-medium text-gray-900">{period.label}</td>
+                              <td className="px-4 py-2 text-sm text-gray-700 text-right">{formatValue(period.then.commit)}</td>
+                              <td className="px-4 py-2 text-sm text-gray-700 text-right">{formatValue(period.now.commit)}</td>
+                              <td className="px-4 py-2 text-sm text-right">{formatChange(period.then.commit, period.now.commit)}</td>
+                              <td className="px-4 py-2 text-sm text-gray-700 text-right">{formatValue(period.then.weighted)}</td>
+                              <td className="px-4 py-2 text-sm text-gray-700 text-right">{formatValue(period.now.weighted)}</td>
+                              <td className="px-4 py-2 text-sm text-right">{formatChange(period.then.weighted, period.now.weighted)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+
+                    <div>
+                      <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                        Slipped Deals ({comparison.slipped.length})
+                      </h3>
+                      {comparison.slipped.length === 0 ? (
+                        <p className="text-sm text-gray-500 text-center py-4">No open deal has moved its close date out since {formatDay(snapshotId)}</p>
+                      ) : (
+                        <table className="min-w-full">
+                          <thead>
+                            <tr className="border-b border-gray-200 text-xs text-gray-500 uppercase tracking-wider">
+                              <th className="px-4 py-2 text-left">Opportunity</th>
+                              <th className="px-4 py-2 text-left">Owner</th>
+                              <th className="px-4 py-2 text-left">Stage</th>
+                              <th className="px-4 py-2 text-left">Category</th>
+                              <th className="px-4 py-2 text-right">Value</th>
+                              <th className="px-4 py-2 text-left">Close Date</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {comparison.slipped.map(deal => (
+                              <tr key={deal.id} className="border-b border-gray-100">
+                                <td className="px-4 py-2 text-sm font-medium">
+                                  <Link to={`/opportunities/${deal.id}`} className="text-primary-600 hover:text-primary-700">
+                                    {deal.title || 'Untitled'}
+                                  </Link>
+                                </td>
+                                <td className="px-4 py-2 text-sm text-gray-700">{getUserName(deal.ownerId)}</td>
+                                <td className="px-4 py-2 text-sm text-gray-700">{deal.stage}</td>
+                                <td className="px-4 py-2 text-sm text-gray-700">{categoryLabel(deal.category)}</td>
+                                <td className="px-4 py-2 text-sm text-gray-700 text-right">{formatValue(deal.value)}</td>
+                                <td className="px-4 py-2 text-sm text-gray-700">
+                                  <span className="inline-flex items-center gap-1">
+                                    {formatDay(deal.fromDate)}
+                                    <ArrowRight className="h-3 w-3 text-gray-400" />
+                                    {deal.toDate ? formatDay(deal.toDate) : 'No date'}
+                                  </span>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
+          {/* Stage weights */}
+          {weights && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 bg-primary-100 rounded-lg">
+                    <Scale className="h-5 w-5 text-primary-600" />
+                  </div>
+                  <h2 className="text-xl font-semibold text-gray-900">Stage Weights</h2>
+                </div>
+                {canManage && (
+                  <button
+                    onClick={handleSaveWeights}
+                    disabled={savingWeights}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    <Save className="h-4 w-4" />
+                    {savingWeights ? 'Saving...' : 'Save'}
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                {OPPORTUNITY_STAGES.map(stage => (
+                  <div key={stage}>
+                    <label className="block text-xs font-medium text-gray-500 mb-1">{stage}</label>
+                    {canManage ? (
+                      <div className="flex items-center gap-1">
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={weights[stage]}
+                          onChange={(e) => {
+                            setWeights({ ...weights, [stage]: Math.min(100, Math.max(0, Number(e.target.value) || 0)) });
+                            setWeightsMessage(null);
+                          }}
+                          className="w-full text-sm border border-gray-300 rounded-md px-2 py-1 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        />
+                        <span className="text-sm text-gray-500">%</span>
+                      </div>
+                    ) : (
+                      <div className="text-lg font-semibold text-gray-900">{weights[stage]}%</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {weightsMessage && (
+                <p className="mt-3 text-sm text-gray-600">{weightsMessage}</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -19,11 +19,16 @@ import {
   DollarSign,
   Package,
   Download,
+  Upload,
   Menu
 } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import type { Opportunity, OpportunityStage, OpportunityPriority, Account, Contact, Product } from '../types';
+import { closeReasonLabel } from '../types/Opportunity';
 import { useDataContext } from '../context/DataContext';
+import { useAuth } from '../hooks/useAuth';
+import { ImportWizard } from '../components/ImportWizard';
+import { ScopeSelect } from '../components/ScopeSelect';
 import { format, formatDistanceToNow, isAfter, isBefore, startOfDay } from 'date-fns';
 
 type SortField = 'title' | 'stage' | 'priority' | 'estimatedDealValue' | 'expectedCloseDate' | 'lastActivityDate' | 'createdAt' | 'accountName';
@@ -102,13 +107,15 @@ const toMillis = (dateValue: any): number => {
 
 export const Opportunities: React.FC = () => {
   const navigate = useNavigate();
+  const { can } = useAuth();
   const {
     cache,
     loading,
     getAccounts,
     getContacts,
     getProducts,
-    getOpportunities
+    getOpportunities,
+    refreshData
   } = useDataContext();
   
   const opportunities = cache?.opportunities || [];
@@ -117,6 +124,7 @@ export const Opportunities: React.FC = () => {
   const products = cache?.products || [];
   const [pageLoading, setPageLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [showImport, setShowImport] = useState(false);
   const [sortField, setSortField] = useState<SortField>('accountName');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
   const [stageFilter, setStageFilter] = useState<OpportunityStage | 'All'>('All');
@@ -391,6 +399,14 @@ export const Opportunities: React.FC = () => {
         'Primary Contact Email': opportunityContacts[0]?.email || '',
         'Primary Contact Position': opportunityContacts[0]?.position || '',
         'All Contacts': opportunityContacts.map(c => c.name).join(', '),
+        'Close Outcome': opportunity.closeOut ? (opportunity.closeOut.outcome === 'won' ? 'Won' : 'Lost') : '',
+        'Close Reason': opportunity.closeOut ? closeReasonLabel(opportunity.closeOut.outcome, opportunity.closeOut.reasonCode) : '',
+        'Competitor': opportunity.closeOut?.competitor || '',
+        'Final Deal Value': opportunity.closeOut ? opportunity.closeOut.finalDealValue : '',
+        'Close Notes': opportunity.closeOut?.notes || '',
+        'Closed Date': opportunity.closeOut?.closedAt
+          ? format(toDate(opportunity.closeOut.closedAt), 'yyyy-MM-dd')
+          : '',
         'Tags': opportunity.tags.join(', '),
         'Created Date': format(toDate(opportunity.createdAt), 'yyyy-MM-dd'),
         'Last Updated': opportunity.updatedAt 
@@ -477,6 +493,8 @@ export const Opportunities: React.FC = () => {
           
           {/* Filters - Desktop */}
           <div className="hidden lg:flex flex-row gap-3">
+            <ScopeSelect />
+            
             {/* Exclude Closed Checkbox */}
             <label className="flex items-center gap-2 px-3 py-2.5 border border-gray-300 rounded-lg bg-white shadow-sm hover:bg-gray-50 transition-colors cursor-pointer">
               <input
@@ -514,6 +532,8 @@ export const Opportunities: React.FC = () => {
           {/* Filters - Mobile (Collapsible) */}
           {showFilters && (
             <div className="lg:hidden bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+              <ScopeSelect className="w-full" />
+              
               {/* Exclude Closed Checkbox */}
               <label className="flex items-center gap-2">
                 <input
@@ -568,7 +588,7 @@ export const Opportunities: React.FC = () => {
                 ? 'Try adjusting your search or filters' 
                 : 'Get started by creating your first opportunity'}
             </p>
-            {!searchTerm && stageFilter === 'All' && priorityFilter === 'All' && (
+            {!searchTerm && stageFilter === 'All' && priorityFilter === 'All' && can('opportunities:create') && (
               <button
                 onClick={handleAdd}
                 className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 transition-colors"
@@ -939,17 +959,33 @@ export const Opportunities: React.FC = () => {
           </span>
         </button>
 
+        {/* Import Button */}
+        {can('records:import') && can('opportunities:create') && (
+          <button
+            onClick={() => setShowImport(true)}
+            className="group relative inline-flex items-center justify-center w-14 h-14 bg-blue-600 text-white rounded-full hover:bg-blue-700 focus:outline-none focus:ring-4 focus:ring-blue-500 focus:ring-opacity-50 transition-all duration-200 shadow-lg hover:shadow-xl"
+            title="Import opportunities from CSV or Excel"
+          >
+            <Upload className="h-6 w-6" />
+            <span className="absolute right-16 top-1/2 transform -translate-y-1/2 bg-gray-900 text-white text-sm px-3 py-2 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
+              Import Opportunities
+            </span>
+          </button>
+        )}
+
         {/* New Opportunity Button */}
-        <button
-          onClick={handleAdd}
-          className="group relative inline-flex items-center justify-center w-14 h-14 bg-primary-600 text-white rounded-full hover:bg-primary-700 focus:outline-none focus:ring-4 focus:ring-primary-500 focus:ring-opacity-50 transition-all duration-200 shadow-lg hover:shadow-xl"
-          title="Create New Opportunity"
-        >
-          <Plus className="h-6 w-6" />
-          <span className="absolute right-16 top-1/2 transform -translate-y-1/2 bg-gray-900 text-white text-sm px-3 py-2 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
-            New Opportunity
-          </span>
-        </button>
+        {can('opportunities:create') && (
+          <button
+            onClick={handleAdd}
+            className="group relative inline-flex items-center justify-center w-14 h-14 bg-primary-600 text-white rounded-full hover:bg-primary-700 focus:outline-none focus:ring-4 focus:ring-primary-500 focus:ring-opacity-50 transition-all duration-200 shadow-lg hover:shadow-xl"
+            title="Create New Opportunity"
+          >
+            <Plus className="h-6 w-6" />
+            <span className="absolute right-16 top-1/2 transform -translate-y-1/2 bg-gray-900 text-white text-sm px-3 py-2 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
+              New Opportunity
+            </span>
+          </button>
+        )}
       </div>
 
       {/* Mobile Floating Action Bar */}
@@ -962,14 +998,24 @@ export const Opportunities: React.FC = () => {
           <Download className="h-5 w-5" />
           <span>Export ({filteredAndSortedOpportunities.length})</span>
         </button>
-        <button
-          onClick={handleAdd}
-          className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 transition-colors shadow-sm"
-        >
-          <Plus className="h-5 w-5" />
-          <span>New</span>
-        </button>
+        {can('opportunities:create') && (
+          <button
+            onClick={handleAdd}
+            className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 transition-colors shadow-sm"
+          >
+            <Plus className="h-5 w-5" />
+            <span>New</span>
+          </button>
+        )}
       </div>
+
+      {showImport && (
+        <ImportWizard
+          entity="opportunities"
+          onClose={() => setShowImport(false)}
+          onComplete={() => refreshData('opportunities')}
+        />
+      )}
     </div>
   );
 }; 
\ No newline at end of file
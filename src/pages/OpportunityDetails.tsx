@@ -38,7 +38,10 @@ import {
   FileSpreadsheet,
   Presentation,
   Image,
-  File
+  File,
+  History,
+  Wand2,
+  Flag
 } from 'lucide-react';
 import type { 
   Opportunity, 
@@ -49,7 +52,12 @@ import type {
   Product,
   Activity as ActivityType,
   ActivityStatus,
-  ChecklistItem
+  ChecklistItem,
+  OpportunityStageTransition,
+  StageGateFailure,
+  CloseOutOutcome,
+  CloseOutInput,
+  ForecastCategory
 } from '../types';
 import { format, formatDistanceToNow } from 'date-fns';
 import { Timestamp } from 'firebase/firestore';
@@ -57,15 +65,34 @@ import { useAuth } from '../hooks/useAuth';
 import { OwnerSelect } from '../components/OwnerSelect';
 import { ActivityManager } from '../components/ActivityManager';
 import { AISummary } from '../components/AISummary';
+import { ConflictDialog } from '../components/ConflictDialog';
+import { ActionExtractionDialog } from '../components/ActionExtractionDialog';
+import type { AcceptedActions } from '../components/ActionExtractionDialog';
+import { DetailTabs } from '../components/DetailTabs';
+import type { DetailTab } from '../components/DetailTabs';
+import { RecordHistory } from '../components/RecordHistory';
+import { OpportunityApprovals } from '../components/OpportunityApprovals';
+import { CloseOutDialog } from '../components/CloseOutDialog';
+import { closeReasonLabel } from '../types/Opportunity';
+import { FORECAST_CATEGORY_OPTIONS } from '../types/Forecast';
 import { useActivityManager } from '../hooks/useActivityManager';
+import { isStaleWriteError, isApprovalRequiredError, isStageGateError } from '../hooks/useApi';
 import { useOpportunitiesApi } from '../hooks/useOpportunitiesApi';
 import { useContactsApi } from '../hooks/useContactsApi';
 import { useDataContext } from '../context/DataContext';
+import { mergeRecords, applyConflictChoices } from '../utils/merge';
+import type { ConflictChoice, MergeOutcome } from '../utils/merge';
 import * as XLSX from 'xlsx';
 
 const OPPORTUNITY_STAGES: OpportunityStage[] = ['Lead', 'Qualified', 'Proposal', 'Negotiation', 'Closed-Won', 'Closed-Lost'];
 const OPPORTUNITY_PRIORITIES: OpportunityPriority[] = ['Critical', 'High', 'Medium', 'Low'];
 
+// Stages that need a close-out on entry
+const CLOSE_OUTCOMES: Partial<Record<OpportunityStage, CloseOutOutcome>> = {
+  'Closed-Won': 'won',
+  'Closed-Lost': 'lost'
+};
+
 const IOL_PRODUCTS = [
   'iOL X Demand',
   'iOL X Supply',
@@ -81,6 +108,18 @@ const ACTIVITY_TYPES = ['Meeting', 'Email', 'Call', 'WhatsApp', 'Demo', 'Worksho
 const ACTIVITY_METHODS = ['In-person', 'Zoom', 'Phone', 'Teams', 'Email'];
 const ACTIVITY_PRIORITIES = ['High', 'Medium', 'Low'];
 
+const CONFLICT_FIELD_LABELS: Record<string, string> = {
+  iolProducts: 'IOL Products',
+  contactIds: 'Contacts',
+  contactsInvolved: 'Contacts',
+  accountId: 'Account',
+  productId: 'Product',
+  ownerId: 'Owner',
+  useCase: 'Use Case',
+  oneDriveLink: 'OneDrive Link',
+  oneDriveTitle: 'OneDrive Title'
+};
+
 const COMMERCIAL_MODELS = [
   'SaaS - Software as a Service',
   'License - One-time License',
@@ -95,7 +134,7 @@ const COMMERCIAL_MODELS = [
 export const OpportunityDetails: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { currentUser } = useAuth();
+  const { currentUser, can } = useAuth();
   const isNew = id === 'new' || !id;
   
   // DataContext for cached data
@@ -111,6 +150,7 @@ export const OpportunityDetails: React.FC = () => {
     createOpportunity, 
     updateOpportunity, 
     deleteOpportunity,
+    getOpportunityStageHistory,
     loading: opportunitiesLoading 
   } = useOpportunitiesApi();
   
@@ -123,11 +163,25 @@ export const OpportunityDetails: React.FC = () => {
   const accounts = cache?.accounts || [];
   const contacts = cache?.contacts || [];
   const products = cache?.products || [];
+  const users = cache?.users || [];
   
   const [opportunity, setOpportunity] = useState<Opportunity | null>(null);
+  const [activeTab, setActiveTab] = useState<DetailTab>('details');
   const [loading, setLoading] = useState(true);
   const [dataLoading, setDataLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  // A save rejected because someone else changed the opportunity since it was loaded
+  const [conflict, setConflict] = useState<{
+    current: Opportunity;
+    outcome: MergeOutcome<Opportunity>;
+    applyToForm: (saved: Opportunity) => void;
+  } | null>(null);
+  // Bumped when a save is held back for approval so the approvals panel shows the new request
+  const [approvalsRefreshKey, setApprovalsRefreshKey] = useState(0);
+  // Entry criteria the last save didn't meet, shown under the stage select
+  const [stageGateFailure, setStageGateFailure] = useState<StageGateFailure | null>(null);
+  // Set while the close-out form is open for a move to Closed-Won or Closed-Lost
+  const [closeOutPrompt, setCloseOutPrompt] = useState<CloseOutOutcome | null>(null);
   
   const [formData, setFormData] = useState({
     title: '',
@@ -137,6 +191,7 @@ export const OpportunityDetails: React.FC = () => {
     contactIds: [] as string[],
     stage: 'Lead' as OpportunityStage,
     priority: 'Medium' as OpportunityPriority,
+    forecastCategory: 'pipeline' as ForecastCategory,
     iolProducts: [] as string[],
     notes: '',
     tags: [] as string[],
@@ -191,6 +246,11 @@ export const OpportunityDetails: React.FC = () => {
 
   // AI Summary state
   const [localAiSummary, setLocalAiSummary] = useState<string>('');
+  // Notes the action extraction dialog opens with; null while it is closed
+  const [extractionNotes, setExtractionNotes] = useState<string | null>(null);
+
+  // Stage history state
+  const [stageHistory, setStageHistory] = useState<OpportunityStageTransition[]>([]);
 
   // Helper function to get activity type icon
   const getActivityIcon = (activityType: string) => {
@@ -294,13 +354,63 @@ export const OpportunityDetails: React.FC = () => {
           });
           return clean;
         });
-      await updateOpportunity(id, { activities: sanitized });
-      // Invalidate opportunities cache to ensure fresh data
-      await refreshData('opportunities');
+      const saved = await saveOpportunityChanges({ activities: sanitized }, merged => {
+        setFormData(prev => ({ ...prev, activities: merged.activities || [] }));
+      });
+      if (saved) {
+        // Invalidate opportunities cache to ensure fresh data
+        await refreshData('opportunities');
+      }
       // Don't fetch back from Firestore - trust the local state which is already updated
     }
   };
 
+  /**
+   * Save against the revision this page loaded. If someone else saved in the meantime the
+   * write is rejected and the merge dialog opens instead of overwriting their changes.
+   * Returns null while the conflict is waiting to be resolved.
+   */
+  const saveOpportunityChanges = async (
+    updates: Partial<Opportunity>,
+    applyToForm: (saved: Opportunity) => void,
+    base: Opportunity | null = opportunity
+  ): Promise<Opportunity | null> => {
+    if (!id) return null;
+
+    try {
+      // Records saved before revisions existed count as revision 0
+      const updatedOpportunity = await updateOpportunity(id, updates, base ? base.revision ?? 0 : undefined);
+      setOpportunity(updatedOpportunity);
+      return updatedOpportunity;
+    } catch (error) {
+      if (isStaleWriteError<Opportunity>(error) && base) {
+        const current = error.details.current;
+        setConflict({ current, outcome: mergeRecords(base, updates, current), applyToForm });
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  const handleMergeConflict = async (choices: Record<string, ConflictChoice>) => {
+    if (!conflict) return;
+
+    const resolved = applyConflictChoices(conflict.outcome, choices);
+    // Their version is the new base - if it changed again the dialog reopens with the latest
+    const saved = await saveOpportunityChanges(resolved, conflict.applyToForm, conflict.current);
+    if (saved) {
+      setConflict(null);
+      conflict.applyToForm(saved);
+      await refreshData('opportunities');
+    }
+  };
+
+  const handleDiscardConflict = async () => {
+    setConflict(null);
+    await fetchOpportunityData();
+    await refreshData('opportunities');
+  };
+
   const handleSaveActivity = async () => {
     if (!activityForm.subject.trim()) {
       alert('Subject is required');
@@ -358,6 +468,62 @@ export const OpportunityDetails: React.FC = () => {
     await autoSaveActivities(updatedActivities);
   };
 
+  // Accepted proposals are added in a single save, like any other edit to the opportunity
+  const handleAcceptExtractedActions = async ({ activities, checklist, blockers }: AcceptedActions) => {
+    const now = Timestamp.now();
+    const userId = currentUser?.uid || 'system';
+    const newId = (index: number) => `${Date.now().toString(36)}${index}${Math.random().toString(36).substr(2, 5)}`;
+    const toDueDate = (day: string | null) => day ? new Date(`${day}T00:00:00`) : undefined;
+
+    const newActivities: ActivityType[] = activities.map((activity, index) => ({
+      id: newId(index),
+      activityType: activity.activityType,
+      // Undated follow-ups land on today so they show up as due
+      dateTime: Timestamp.fromDate(activity.date ? new Date(`${activity.date}T09:00:00`) : new Date()),
+      relatedContactIds: activity.relatedContactIds,
+      method: activity.method,
+      subject: activity.subject,
+      notes: activity.notes,
+      assignedTo: userId,
+      attachments: [],
+      followUpNeeded: false,
+      status: 'Scheduled',
+      priority: 'Medium',
+      createdAt: now,
+      createdBy: userId,
+      updatedAt: now,
+      updatedBy: userId
+    }));
+    const toChecklistItems = (items: AcceptedActions['checklist'], offset: number): ChecklistItem[] => items.map((item, index) => ({
+      id: newId(offset + index),
+      text: item.text.trim(),
+      completed: false,
+      dueDate: toDueDate(item.dueDate),
+      createdAt: now
+    }));
+
+    const updates = {
+      activities: [...formData.activities, ...newActivities],
+      checklist: [...formData.checklist, ...toChecklistItems(checklist, activities.length)],
+      blockers: [...formData.blockers, ...toChecklistItems(blockers, activities.length + checklist.length)]
+    };
+    const saved = await saveOpportunityChanges(updates, merged => {
+      setFormData(prev => ({
+        ...prev,
+        activities: merged.activities || [],
+        checklist: merged.checklist || [],
+        blockers: merged.blockers || []
+      }));
+    });
+
+    // A conflict opens the merge dialog, which fills the form once resolved
+    setExtractionNotes(null);
+    if (saved) {
+      setFormData(prev => ({ ...prev, ...updates }));
+      await refreshData('opportunities');
+    }
+  };
+
   const handleCompleteActivity = (activityId: string) => {
     const activity = formData.activities.find(a => a.id === activityId);
     const account = accounts.find(a => a.id === formData.accountId);
@@ -452,6 +618,7 @@ export const OpportunityDetails: React.FC = () => {
             contactIds: opportunityTyped.contactIds || [],
             stage: opportunityTyped.stage,
             priority: opportunityTyped.priority,
+            forecastCategory: opportunityTyped.forecastCategory || 'pipeline',
             iolProducts: opportunityTyped.iolProducts || [],
             notes: opportunityTyped.notes,
             tags: opportunityTyped.tags || [],
@@ -508,7 +675,18 @@ export const OpportunityDetails: React.FC = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    // Closing asks for the reason first; the dialog continues the save
+    const closingAs = CLOSE_OUTCOMES[formData.stage];
+    if (closingAs && (isNew || opportunity?.stage !== formData.stage)) {
+      setCloseOutPrompt(closingAs);
+      return;
+    }
+    await saveOpportunity();
+  };
+
+  const saveOpportunity = async (closeOut?: CloseOutInput) => {
     setSaving(true);
+    setStageGateFailure(null);
     
     try {
       // Prepare submit data with all required fields
@@ -520,6 +698,7 @@ export const OpportunityDetails: React.FC = () => {
         contactIds: formData.contactIds,
         stage: formData.stage,
         priority: formData.priority,
+        forecastCategory: formData.forecastCategory,
         useCase: formData.iolProducts.join(', ') || '', // Legacy field mapped from iolProducts
         iolProducts: formData.iolProducts,
         notes: formData.notes,
@@ -551,6 +730,7 @@ export const OpportunityDetails: React.FC = () => {
           })[0].dateTime 
           : null,
         ...(isNew ? { createdAt: Timestamp.now() } : {}),
+        ...(closeOut ? { closeOut } : {}),
         updatedAt: Timestamp.now()
       };
 
@@ -561,13 +741,29 @@ export const OpportunityDetails: React.FC = () => {
         await refreshData('opportunities');
         navigate('/opportunities');
       } else {
-        const updatedOpportunity = await updateOpportunity(id, submitData);
+        // After a merge the form is reloaded from the saved record
+        const updatedOpportunity = await saveOpportunityChanges(submitData, () => {
+          fetchOpportunityData();
+          loadStageHistory();
+        });
+        if (!updatedOpportunity) return;
         console.log('Opportunity updated:', updatedOpportunity);
-        setOpportunity(updatedOpportunity);
+        if (opportunity && opportunity.stage !== updatedOpportunity.stage) {
+          loadStageHistory();
+        }
         // Invalidate opportunities cache to ensure fresh data
         await refreshData('opportunities');
       }
     } catch (error) {
+      if (isApprovalRequiredError(error)) {
+        alert(error.message);
+        setApprovalsRefreshKey(key => key + 1);
+        return;
+      }
+      if (isStageGateError(error)) {
+        setStageGateFailure(error.details.failures[0] || null);
+        return;
+      }
       console.error('Error saving opportunity:', error);
       alert('Error saving opportunity. Please try again.');
     } finally {
@@ -575,6 +771,25 @@ export const OpportunityDetails: React.FC = () => {
     }
   };
 
+  const loadStageHistory = useCallback(async () => {
+    if (!id || isNew) return;
+    try {
+      const history = await getOpportunityStageHistory(id);
+      setStageHistory(history);
+    } catch (error) {
+      console.error('Error fetching stage history:', error);
+    }
+  }, [id, isNew, getOpportunityStageHistory]);
+
+  useEffect(() => {
+    loadStageHistory();
+  }, [loadStageHistory]);
+
+  const getUserName = (userId: string) => {
+    const user = users.find(u => u.id === userId);
+    return user?.displayName || user?.email || 'Unknown user';
+  };
+
   const handleDelete = async () => {
     if (opportunity && id && confirm('Are you sure you want to delete this opportunity?')) {
       try {
@@ -984,7 +1199,7 @@ export const OpportunityDetails: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center gap-2">
-            {!isNew && (
+            {!isNew && can('opportunities:delete') && (
               <button
                 onClick={handleDelete}
                 className="btn-danger-sm flex items-center gap-1.5"
@@ -995,12 +1210,22 @@ export const OpportunityDetails: React.FC = () => {
             )}
           </div>
         </div>
+        {!isNew && <DetailTabs activeTab={activeTab} onChange={setActiveTab} />}
       </div>
 
       {/* Content */}
       <div className="flex-1 overflow-auto pb-20">
         <div className="max-w-7xl mx-auto p-4">
-          <form id="opportunity-form" onSubmit={handleSubmit}>
+          {activeTab === 'history' && id && (
+            <RecordHistory
+              collection="opportunities"
+              recordId={id}
+              revision={opportunity?.revision}
+              fieldLabels={CONFLICT_FIELD_LABELS}
+              onReverted={() => fetchOpportunityData()}
+            />
+          )}
+          <form id="opportunity-form" onSubmit={handleSubmit} className={activeTab === 'history' ? 'hidden' : undefined}>
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
               
               {/* Left Column (2/3) - Core Information */}
@@ -1095,6 +1320,22 @@ export const OpportunityDetails: React.FC = () => {
                           </option>
                         ))}
                       </select>
+                      {stageGateFailure && (
+                        <div className="mt-2 bg-red-50 border border-red-200 rounded-md p-2">
+                          <p className="flex items-center gap-1 text-xs font-medium text-red-700">
+                            <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+                            Can't move to {stageGateFailure.stage} yet:
+                          </p>
+                          <ul className="mt-1 ml-5 list-disc text-xs text-red-700 space-y-0.5">
+                            {stageGateFailure.unmet.map(item => (
+                              <li key={item.criterion}>
+                                {item.label}
+                                {item.detail && <span className="text-red-600"> ({item.detail})</span>}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
                     </div>
 
                     <div>
@@ -1113,6 +1354,21 @@ export const OpportunityDetails: React.FC = () => {
                       </select>
                     </div>
 
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Forecast Category</label>
+                      <select
+                        value={formData.forecastCategory}
+                        onChange={(e) => setFormData({ ...formData, forecastCategory: e.target.value as ForecastCategory })}
+                        className="w-full text-sm border border-gray-300 rounded-md px-2.5 py-1.5 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      >
+                        {FORECAST_CATEGORY_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
                     <div>
                       <OwnerSelect
                         value={formData.ownerId}
@@ -1162,6 +1418,17 @@ export const OpportunityDetails: React.FC = () => {
                       </div>
                     </div>
                     <div className="flex items-center gap-3">
+                      {!isNew && can('opportunities:generateSummary') && (
+                        <button
+                          type="button"
+                          onClick={() => setExtractionNotes('')}
+                          className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-purple-700 bg-purple-50 hover:bg-purple-100 rounded-lg transition-colors"
+                          title="Turn meeting notes into follow-ups, checklist items and blockers"
+                        >
+                          <Wand2 className="h-4 w-4" />
+                          Extract actions
+                        </button>
+                      )}
                       {editingActivityId && (
                         <button
                           type="button"
@@ -1549,6 +1816,16 @@ export const OpportunityDetails: React.FC = () => {
                                           <FileText className="h-3.5 w-3.5" />
                                           Edit
                                         </button>
+                                        {activity.notes?.trim() && can('opportunities:generateSummary') && (
+                                          <button
+                                            type="button"
+                                            onClick={() => setExtractionNotes(activity.notes)}
+                                            className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-purple-700 bg-purple-100 hover:bg-purple-200 rounded-md transition-colors"
+                                          >
+                                            <Wand2 className="h-3.5 w-3.5" />
+                                            Extract actions
+                                          </button>
+                                        )}
                                         {activity.status === 'Scheduled' && (
                                           <button
                                             type="button"
@@ -1780,6 +2057,91 @@ export const OpportunityDetails: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Stage History */}
+                {!isNew && stageHistory.length > 0 && (
+                  <div className="bg-white shadow rounded-lg p-4">
+                    <div className="flex items-center gap-2 mb-3">
+                      <History className="h-4 w-4 text-gray-500" />
+                      <h2 className="text-base font-medium text-gray-900">Stage History</h2>
+                    </div>
+                    <div className="space-y-3">
+                      {[...stageHistory].reverse().map((transition, index, ordered) => {
+                        const changedAt = safeDateConversion(transition.changedAt);
+                        // The next entry in chronological order is the previous one in this reversed list
+                        const exitedAt = index > 0 ? safeDateConversion(ordered[index - 1].changedAt) : new Date();
+                        const daysInStage = Math.max(0, Math.round((exitedAt.getTime() - changedAt.getTime()) / (1000 * 60 * 60 * 24)));
+                        return (
+                          <div key={transition.id} className="flex items-start justify-between text-xs border-b border-gray-100 pb-2 last:border-0 last:pb-0">
+                            <div>
+                              <div className="flex items-center gap-1">
+                                {transition.fromStage ? (
+                                  <>
+                                    <span className={`inline-flex px-2 py-0.5 rounded-full border ${getStageColor(transition.fromStage)}`}>
+                                      {transition.fromStage}
+                                    </span>
+                                    <span className="text-gray-400">→</span>
+                                  </>
+                                ) : (
+                                  <span className="text-gray-500">Created in</span>
+                                )}
+                                <span className={`inline-flex px-2 py-0.5 rounded-full border ${getStageColor(transition.toStage)}`}>
+                                  {transition.toStage}
+                                </span>
+                              </div>
+                              <div className="text-gray-500 mt-1">
+                                {getUserName(transition.changedBy)} · {format(changedAt, 'MMM d, yyyy')} · ${(transition.dealValue || 0).toLocaleString()}
+                              </div>
+                            </div>
+                            {!(index === 0 && transition.toStage.startsWith('Closed')) && (
+                              <span className="text-gray-500 whitespace-nowrap">
+                                {daysInStage}d{index === 0 ? ' so far' : ''}
+                              </span>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                {opportunity?.closeOut && opportunity.stage.startsWith('Closed') && (
+                  <div className="bg-white shadow rounded-lg p-4">
+                    <div className="flex items-center gap-2 mb-3">
+                      <Flag className="h-4 w-4 text-gray-500" />
+                      <h2 className="text-base font-medium text-gray-900">Close-out</h2>
+                    </div>
+                    <div className="space-y-2 text-xs">
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Reason</span>
+                        <span className="font-medium text-gray-900">{closeReasonLabel(opportunity.closeOut.outcome, opportunity.closeOut.reasonCode)}</span>
+                      </div>
+                      {opportunity.closeOut.competitor && (
+                        <div className="flex justify-between">
+                          <span className="text-gray-500">Competitor</span>
+                          <span className="text-gray-900">{opportunity.closeOut.competitor}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Final deal value</span>
+                        <span className="text-gray-900">${opportunity.closeOut.finalDealValue.toLocaleString()}</span>
+                      </div>
+                      {opportunity.closeOut.closedBy && opportunity.closeOut.closedAt && (
+                        <div className="flex justify-between">
+                          <span className="text-gray-500">Closed</span>
+                          <span className="text-gray-900">
+                            {getUserName(opportunity.closeOut.closedBy)} · {format(safeDateConversion(opportunity.closeOut.closedAt), 'MMM d, yyyy')}
+                          </span>
+                        </div>
+                      )}
+                      <p className="text-gray-700 whitespace-pre-wrap pt-1 border-t border-gray-100">{opportunity.closeOut.notes}</p>
+                    </div>
+                  </div>
+                )}
+
+                {!isNew && id && (
+                  <OpportunityApprovals opportunityId={id} refreshKey={approvalsRefreshKey} getUserName={getUserName} />
+                )}
+
                 {/* Commercial Information - Editable Section */}
                 <div className="bg-white shadow rounded-lg p-4">
                   <div className="flex items-center gap-2 mb-3">
@@ -2603,29 +2965,66 @@ export const OpportunityDetails: React.FC = () => {
       </div>
 
       {/* Floating Save Button */}
-      <button
-        type="submit"
-        form="opportunity-form"
-        disabled={saving || !formData.title.trim() || !formData.accountId}
-        onClick={() => {
-          console.log('🔥 Save button clicked!');
-          console.log('💾 Button disabled?', saving || !formData.title.trim() || !formData.accountId);
-          console.log('📊 Validation:', { 
-            saving, 
-            hasTitle: !!formData.title.trim(), 
-            hasAccount: !!formData.accountId 
-          });
-        }}
-        className="fixed bottom-4 right-4 bg-primary-600 text-white p-3 rounded-full shadow-lg hover:bg-primary-700 focus:outline-none focus:ring-4 focus:ring-primary-500 focus:ring-opacity-50 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed z-50"
-        title={saving ? 'Saving...' : 'Save Opportunity'}
-      >
-        {saving ? (
-          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-        ) : (
-          <Save className="h-5 w-5" />
-        )}
-      </button>
+      {activeTab === 'details' && can(isNew ? 'opportunities:create' : 'opportunities:update') && (
+        <button
+          type="submit"
+          form="opportunity-form"
+          disabled={saving || !formData.title.trim() || !formData.accountId}
+          onClick={() => {
+            console.log('🔥 Save button clicked!');
+            console.log('💾 Button disabled?', saving || !formData.title.trim() || !formData.accountId);
+            console.log('📊 Validation:', { 
+              saving, 
+              hasTitle: !!formData.title.trim(), 
+              hasAccount: !!formData.accountId 
+            });
+          }}
+          className="fixed bottom-4 right-4 bg-primary-600 text-white p-3 rounded-full shadow-lg hover:bg-primary-700 focus:outline-none focus:ring-4 focus:ring-primary-500 focus:ring-opacity-50 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed z-50"
+          title={saving ? 'Saving...' : 'Save Opportunity'}
+        >
+          {saving ? (
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+          ) : (
+            <Save className="h-5 w-5" />
+          )}
+        </button>
+      )}
       
+      {closeOutPrompt && (
+        <CloseOutDialog
+          outcome={closeOutPrompt}
+          opportunityTitle={formData.title}
+          estimatedDealValue={formData.estimatedDealValue}
+          onConfirm={(closeOut) => {
+            setCloseOutPrompt(null);
+            saveOpportunity(closeOut);
+          }}
+          onCancel={() => setCloseOutPrompt(null)}
+        />
+      )}
+
+      {conflict && (
+        <ConflictDialog
+          key={conflict.current.revision}
+          recordLabel="opportunity"
+          outcome={conflict.outcome}
+          fieldLabels={CONFLICT_FIELD_LABELS}
+          onMerge={handleMergeConflict}
+          onDiscard={handleDiscardConflict}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
+      {extractionNotes !== null && id && (
+        <ActionExtractionDialog
+          opportunityId={id}
+          contacts={contacts.filter(c => formData.contactIds.includes(c.id || ''))}
+          initialNotes={extractionNotes}
+          onAccept={handleAcceptExtractedActions}
+          onClose={() => setExtractionNotes(null)}
+        />
+      )}
+
       {/* Unified Activity Completion Modal */}
       {activityManager.activeActivity && activityManager.activityContext && (
         <ActivityManager
@@ -0,0 +1,330 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Gauge,
+  Clock,
+  TrendingUp,
+  Target,
+  Users,
+  Package,
+  RefreshCw
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { useOpportunitiesApi } from '../hooks/useOpportunitiesApi';
+import type { PipelineVelocityFilters, PipelineVelocityReport, VelocityMetrics } from '../hooks/useOpportunitiesApi';
+import { useDataContext } from '../context/DataContext';
+
+const IOL_PRODUCTS = [
+  'iOL X Demand',
+  'iOL X Supply',
+  'iOL X Exchange',
+  'iOL Pulse',
+  'iOL Pay Issuing',
+  'iOL Pay Acquiring',
+  'iOL Pay Payment Gateway',
+  'iOL Pay Automate'
+];
+
+type Breakdown = 'owner' | 'product';
+
+export const PipelineVelocity: React.FC = () => {
+  const { getPipelineVelocity } = useOpportunitiesApi();
+  const { cache } = useDataContext();
+  const users = cache.users || [];
+
+  const [report, setReport] = useState<PipelineVelocityReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<PipelineVelocityFilters>({});
+  const [breakdown, setBreakdown] = useState<Breakdown>('owner');
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await getPipelineVelocity(filters);
+      setReport(data);
+    } catch (err) {
+      console.error('Error loading pipeline velocity:', err);
+      setError('Failed to load pipeline velocity');
+    } finally {
+      setLoading(false);
+    }
+  }, [getPipelineVelocity, filters]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const getUserName = (userId: string) => {
+    const user = users.find(u => u.id === userId);
+    return user?.displayName || user?.email || 'Unassigned';
+  };
+
+  const formatDays = (days: number) => `${days.toFixed(1)}d`;
+
+  const renderBreakdownRow = (label: string, metrics: VelocityMetrics) => (
+    <tr key={label} className="border-b border-gray-100">
+      <td className="px-4 py-2 text-sm font-medium text-gray-900">{label}</td>
+      <td className="px-4 py-2 text-sm text-gray-700 text-right">{metrics.opportunities}</td>
+      <td className="px-4 py-2 text-sm text-gray-700 text-right">{metrics.won}/{metrics.closed}</td>
+      <td className="px-4 py-2 text-sm text-gray-700 text-right">{metrics.winRate}%</td>
+      <td className="px-4 py-2 text-sm text-gray-700 text-right">{formatDays(metrics.averageCycleDays)}</td>
+      {metrics.conversions.map(conversion => (
+        <td key={conversion.fromStage} className="px-4 py-2 text-sm text-gray-700 text-right">
+          {conversion.entered > 0 ? `${conversion.conversionRate}%` : '—'}
+        </td>
+      ))}
+    </tr>
+  );
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">Pipeline Velocity</h1>
+            <p className="text-sm text-gray-500">
+              Time in stage, stage conversion and sales cycle based on opportunity stage history
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              value={filters.ownerId || ''}
+              onChange={(e) => setFilters({ ...filters, ownerId: e.target.value || undefined })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              <option value="">All owners</option>
+              {users.map(user => (
+                <option key={user.id} value={user.id}>{user.displayName || user.email}</option>
+              ))}
+            </select>
+            <select
+              value={filters.iolProduct || ''}
+              onChange={(e) => setFilters({ ...filters, iolProduct: e.target.value || undefined })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              <option value="">All iOL products</option>
+              {IOL_PRODUCTS.map(product => (
+                <option key={product} value={product}>{product}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={filters.createdAfter || ''}
+              onChange={(e) => setFilters({ ...filters, createdAfter: e.target.value || undefined })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              title="Created after"
+            />
+            <input
+              type="date"
+              value={filters.createdBefore || ''}
+              onChange={(e) => setFilters({ ...filters, createdBefore: e.target.value || undefined })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              title="Created before"
+            />
+            <button
+              onClick={fetchReport}
+              disabled={loading}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-auto p-6">
+        <div className="max-w-7xl mx-auto space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-4">
+              {error}
+            </div>
+          )}
+
+          {loading && !report && (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          )}
+
+          {report && (
+            <>
+              {/* Headline metrics */}
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                  <div className="flex items-center gap-2 text-sm text-gray-500 mb-1">
+                    <Target className="h-4 w-4" />
+                    Opportunities
+                  </div>
+                  <div className="text-2xl font-bold text-gray-900">{report.overall.opportunities}</div>
+                </div>
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                  <div className="flex items-center gap-2 text-sm text-gray-500 mb-1">
+                    <Clock className="h-4 w-4" />
+                    Average Cycle Time
+                  </div>
+                  <div className="text-2xl font-bold text-gray-900">{formatDays(report.overall.averageCycleDays)}</div>
+                </div>
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                  <div className="flex items-center gap-2 text-sm text-gray-500 mb-1">
+                    <TrendingUp className="h-4 w-4" />
+                    Win Rate
+                  </div>
+                  <div className="text-2xl font-bold text-gray-900">{report.overall.winRate}%</div>
+                  <div className="text-xs text-gray-500">{report.overall.won} won of {report.overall.closed} closed</div>
+                </div>
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                  <div className="flex items-center gap-2 text-sm text-gray-500 mb-1">
+                    <Gauge className="h-4 w-4" />
+                    Lead → Won
+                  </div>
+                  <div className="text-2xl font-bold text-gray-900">
+                    {(() => {
+                      const leads = report.overall.conversions[0]?.entered || 0;
+                      return leads > 0 ? `${Math.round((report.overall.won / leads) * 1000) / 10}%` : '—';
+                    })()}
+                  </div>
+                </div>
+              </div>
+
+              {/* Time in stage */}
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="p-2 bg-primary-100 rounded-lg">
+                    <Clock className="h-5 w-5 text-primary-600" />
+                  </div>
+                  <h2 className="text-xl font-semibold text-gray-900">Time in Stage</h2>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full">
+                    <thead>
+                      <tr className="border-b border-gray-200 text-xs text-gray-500 uppercase tracking-wider">
+                        <th className="px-4 py-2 text-left">Stage</th>
+                        <th className="px-4 py-2 text-right">Entered</th>
+                        <th className="px-4 py-2 text-right">Avg Days</th>
+                        <th className="px-4 py-2 text-right">Median Days</th>
+                        <th className="px-4 py-2 text-right">Open Now</th>
+                        <th className="px-4 py-2 text-right">Avg Age (Open)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.overall.stages.map(stage => (
+                        <tr key={stage.stage} className="border-b border-gray-100">
+                          <td className="px-4 py-2 text-sm font-medium text-gray-900">{stage.stage}</td>
+                          <td className="px-4 py-2 text-sm text-gray-700 text-right">{stage.entered}</td>
+                          <td className="px-4 py-2 text-sm text-gray-700 text-right">
+                            {stage.completedStays > 0 ? formatDays(stage.averageDaysInStage) : '—'}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-700 text-right">
+                            {stage.completedStays > 0 ? formatDays(stage.medianDaysInStage) : '—'}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-700 text-right">{stage.currentlyInStage}</td>
+                          <td className="px-4 py-2 text-sm text-gray-700 text-right">
+                            {stage.currentlyInStage > 0 ? formatDays(stage.averageDaysCurrentlyInStage) : '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Stage conversion */}
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="p-2 bg-primary-100 rounded-lg">
+                    <TrendingUp className="h-5 w-5 text-primary-600" />
+                  </div>
+                  <h2 className="text-xl font-semibold text-gray-900">Stage Conversion</h2>
+                </div>
+                <div className="space-y-3">
+                  {report.overall.conversions.map(conversion => (
+                    <div key={conversion.fromStage}>
+                      <div className="flex items-center justify-between text-sm mb-1">
+                        <span className="text-gray-700">{conversion.fromStage} → {conversion.toStage}</span>
+                        <span className="text-gray-500">
+                          {conversion.converted}/{conversion.entered} · <span className="font-medium text-gray-900">{conversion.conversionRate}%</span>
+                        </span>
+                      </div>
+                      <div className="w-full bg-gray-100 rounded-full h-2">
+                        <div
+                          className="bg-primary-600 h-2 rounded-full"
+                          style={{ width: `${Math.min(conversion.conversionRate, 100)}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Breakdown by owner / product */}
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-primary-100 rounded-lg">
+                      {breakdown === 'owner' ? (
+                        <Users className="h-5 w-5 text-primary-600" />
+                      ) : (
+                        <Package className="h-5 w-5 text-primary-600" />
+                      )}
+                    </div>
+                    <h2 className="text-xl font-semibold text-gray-900">
+                      {breakdown === 'owner' ? 'By Owner' : 'By iOL Product'}
+                    </h2>
+                  </div>
+                  <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+                    <button
+                      onClick={() => setBreakdown('owner')}
+                      className={`px-3 py-1.5 text-sm ${breakdown === 'owner' ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                    >
+                      Owner
+                    </button>
+                    <button
+                      onClick={() => setBreakdown('product')}
+                      className={`px-3 py-1.5 text-sm ${breakdown === 'product' ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                    >
+                      iOL Product
+                    </button>
+                  </div>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full">
+                    <thead>
+                      <tr className="border-b border-gray-200 text-xs text-gray-500 uppercase tracking-wider">
+                        <th className="px-4 py-2 text-left">{breakdown === 'owner' ? 'Owner' : 'Product'}</th>
+                        <th className="px-4 py-2 text-right">Opps</th>
+                        <th className="px-4 py-2 text-right">Won/Closed</th>
+                        <th className="px-4 py-2 text-right">Win Rate</th>
+                        <th className="px-4 py-2 text-right">Avg Cycle</th>
+                        {report.overall.conversions.map(conversion => (
+                          <th key={conversion.fromStage} className="px-4 py-2 text-right">
+                            {conversion.fromStage} →
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {breakdown === 'owner'
+                        ? report.byOwner.map(row => renderBreakdownRow(getUserName(row.ownerId), row))
+                        : report.byProduct.map(row => renderBreakdownRow(row.product, row))}
+                    </tbody>
+                  </table>
+                  {(breakdown === 'owner' ? report.byOwner : report.byProduct).length === 0 && (
+                    <p className="text-sm text-gray-500 text-center py-6">No opportunities match the selected filters</p>
+                  )}
+                </div>
+              </div>
+
+              <p className="text-xs text-gray-400 text-right">
+                Generated {format(new Date(report.generatedAt), 'MMM d, yyyy HH:mm')}
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -21,6 +21,9 @@ import type { Product, Account, Contact, ContactType, Opportunity } from '../typ
 import { format } from 'date-fns';
 import { useAuth } from '../hooks/useAuth';
 import { OwnerSelect } from '../components/OwnerSelect';
+import { DetailTabs } from '../components/DetailTabs';
+import type { DetailTab } from '../components/DetailTabs';
+import { RecordHistory } from '../components/RecordHistory';
 import { useProductsApi } from '../hooks/useProductsApi';
 import { useAccountsApi } from '../hooks/useAccountsApi';
 import { useContactsApi } from '../hooks/useContactsApi';
@@ -56,7 +59,7 @@ const PRODUCT_SUBCATEGORIES = [
 export const ProductDetails: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { currentUser } = useAuth();
+  const { currentUser, can } = useAuth();
   const isNew = id === 'new' || !id;
   
   // API hooks
@@ -88,6 +91,7 @@ export const ProductDetails: React.FC = () => {
   } = useOpportunitiesApi();
   
   const [product, setProduct] = useState<Product | null>(null);
+  const [activeTab, setActiveTab] = useState<DetailTab>('details');
   const [account, setAccount] = useState<Account | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -356,7 +360,7 @@ export const ProductDetails: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center gap-2">
-            {!isNew && (
+            {!isNew && can('products:delete') && (
               <button
                 onClick={handleDelete}
                 className="btn-danger-sm flex items-center gap-1.5"
@@ -367,12 +371,21 @@ export const ProductDetails: React.FC = () => {
             )}
           </div>
         </div>
+        {!isNew && <DetailTabs activeTab={activeTab} onChange={setActiveTab} />}
       </div>
 
       {/* Content */}
       <div className="flex-1 overflow-auto pb-20">
         <div className="max-w-7xl mx-auto p-4">
-          <form id="product-form" onSubmit={handleSubmit}>
+          {activeTab === 'history' && id && (
+            <RecordHistory
+              collection="products"
+              recordId={id}
+              revision={product?.revision}
+              onReverted={() => fetchData()}
+            />
+          )}
+          <form id="product-form" onSubmit={handleSubmit} className={activeTab === 'history' ? 'hidden' : undefined}>
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
               
               {/* Left Column (2/3) - Core Information */}
@@ -842,19 +855,21 @@ export const ProductDetails: React.FC = () => {
       </div>
 
       {/* Floating Save Button */}
-      <button
-        type="submit"
-        form="product-form"
-        disabled={saving || !formData.name.trim() || !formData.accountId}
-        className="fixed bottom-4 right-4 bg-primary-600 text-white p-3 rounded-full shadow-lg hover:bg-primary-700 focus:outline-none focus:ring-4 focus:ring-primary-500 focus:ring-opacity-50 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed z-50"
-        title={saving ? 'Saving...' : 'Save Product'}
-      >
-        {saving ? (
-          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-        ) : (
-          <Save className="h-5 w-5" />
-        )}
-      </button>
+      {activeTab === 'details' && can(isNew ? 'products:create' : 'products:update') && (
+        <button
+          type="submit"
+          form="product-form"
+          disabled={saving || !formData.name.trim() || !formData.accountId}
+          className="fixed bottom-4 right-4 bg-primary-600 text-white p-3 rounded-full shadow-lg hover:bg-primary-700 focus:outline-none focus:ring-4 focus:ring-primary-500 focus:ring-opacity-50 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed z-50"
+          title={saving ? 'Saving...' : 'Save Product'}
+        >
+          {saving ? (
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+          ) : (
+            <Save className="h-5 w-5" />
+          )}
+        </button>
+      )}
     </div>
   );
 }; 
\ No newline at end of file
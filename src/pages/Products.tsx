@@ -19,6 +19,7 @@ import {
   DollarSign,
   Package,
   Download,
+  Upload,
   ExternalLink,
   Globe,
   Tag,
@@ -29,6 +30,8 @@ import {
 import * as XLSX from 'xlsx';
 import type { Product, ProductCategory, ProductSubcategory, Account, Contact, Opportunity } from '../types';
 import { useDataContext } from '../context/DataContext';
+import { useAuth } from '../hooks/useAuth';
+import { ImportWizard } from '../components/ImportWizard';
 import { format, formatDistanceToNow, isAfter, isBefore, startOfDay } from 'date-fns';
 
 type SortField = 'name' | 'category' | 'subcategory' | 'status' | 'version' | 'createdAt';
@@ -82,13 +85,15 @@ const toMillis = (dateValue: any): number => {
 
 export const Products: React.FC = () => {
   const navigate = useNavigate();
+  const { can } = useAuth();
   const {
     cache,
     loading,
     getAccounts,
     getContacts,
     getProducts,
-    getOpportunities
+    getOpportunities,
+    refreshData
   } = useDataContext();
   
   const products = cache?.products || [];
@@ -97,6 +102,7 @@ export const Products: React.FC = () => {
   const opportunities = cache?.opportunities || [];
   const [pageLoading, setPageLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [showImport, setShowImport] = useState(false);
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
   const [businessTypeFilter, setBusinessTypeFilter] = useState<string>('All');
@@ -410,13 +416,15 @@ export const Products: React.FC = () => {
                 {filteredAndSortedProducts.length}
               </span>
             </button>
-            <button
-              onClick={handleAdd}
-              className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 transition-colors shadow-sm"
-            >
-              <Plus className="h-4 w-4" />
-              New Product
-            </button>
+            {can('products:create') && (
+              <button
+                onClick={handleAdd}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 transition-colors shadow-sm"
+              >
+                <Plus className="h-4 w-4" />
+                New Product
+              </button>
+            )}
           </div>
         </div>
         
@@ -476,7 +484,7 @@ export const Products: React.FC = () => {
                 ? 'Try adjusting your search or filters' 
                 : 'Get started by creating your first product'}
             </p>
-            {!searchTerm && businessTypeFilter === 'All' && statusFilter === 'All' && accountFilter === 'All' && (
+            {!searchTerm && businessTypeFilter === 'All' && statusFilter === 'All' && accountFilter === 'All' && can('products:create') && (
               <button
                 onClick={handleAdd}
                 className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 transition-colors"
@@ -786,17 +794,33 @@ export const Products: React.FC = () => {
           </span>
         </button>
 
+        {/* Import Button */}
+        {can('records:import') && can('products:create') && (
+          <button
+            onClick={() => setShowImport(true)}
+            className="group relative inline-flex items-center justify-center w-14 h-14 bg-blue-600 text-white rounded-full hover:bg-blue-700 focus:outline-none focus:ring-4 focus:ring-blue-500 focus:ring-opacity-50 transition-all duration-200 shadow-lg hover:shadow-xl"
+            title="Import products from CSV or Excel"
+          >
+            <Upload className="h-6 w-6" />
+            <span className="absolute right-16 top-1/2 transform -translate-y-1/2 bg-gray-900 text-white text-sm px-3 py-2 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
+              Import Products
+            </span>
+          </button>
+        )}
+
         {/* New Product Button */}
-        <button
-          onClick={handleAdd}
-          className="group relative inline-flex items-center justify-center w-14 h-14 bg-primary-600 text-white rounded-full hover:bg-primary-700 focus:outline-none focus:ring-4 focus:ring-primary-500 focus:ring-opacity-50 transition-all duration-200 shadow-lg hover:shadow-xl"
-          title="Create New Product"
-        >
-          <Plus className="h-6 w-6" />
-          <span className="absolute right-16 top-1/2 transform -translate-y-1/2 bg-gray-900 text-white text-sm px-3 py-2 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
-            New Product
-          </span>
-        </button>
+        {can('products:create') && (
+          <button
+            onClick={handleAdd}
+            className="group relative inline-flex items-center justify-center w-14 h-14 bg-primary-600 text-white rounded-full hover:bg-primary-700 focus:outline-none focus:ring-4 focus:ring-primary-500 focus:ring-opacity-50 transition-all duration-200 shadow-lg hover:shadow-xl"
+            title="Create New Product"
+          >
+            <Plus className="h-6 w-6" />
+            <span className="absolute right-16 top-1/2 transform -translate-y-1/2 bg-gray-900 text-white text-sm px-3 py-2 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
+              New Product
+            </span>
+          </button>
+        )}
       </div>
 
       {/* Mobile Floating Action Bar */}
@@ -809,14 +833,24 @@ export const Products: React.FC = () => {
           <Download className="h-5 w-5" />
           <span>Export ({filteredAndSortedProducts.length})</span>
         </button>
-        <button
-          onClick={handleAdd}
-          className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 transition-colors shadow-sm"
-        >
-          <Plus className="h-5 w-5" />
-          <span>New</span>
-        </button>
+        {can('products:create') && (
+          <button
+            onClick={handleAdd}
+            className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 transition-colors shadow-sm"
+          >
+            <Plus className="h-5 w-5" />
+            <span>New</span>
+          </button>
+        )}
       </div>
+
+      {showImport && (
+        <ImportWizard
+          entity="products"
+          onClose={() => setShowImport(false)}
+          onComplete={() => refreshData('products')}
+        />
+      )}
     </div>
   );
 }; 
\ No newline at end of file
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { Navigate } from 'react-router-dom';
+import { ListChecks, Save, AlertTriangle, CheckCircle } from 'lucide-react';
+import type { OpportunityStage, StageGateCriterion, StageGates as StageGatesConfig } from '../types';
+import { STAGE_GATE_CRITERION_OPTIONS } from '../types/StageGate';
+import { useStageGatesApi } from '../hooks/useStageGatesApi';
+import { useAuth } from '../hooks/useAuth';
+
+const OPPORTUNITY_STAGES: OpportunityStage[] = ['Lead', 'Qualified', 'Proposal', 'Negotiation', 'Closed-Won', 'Closed-Lost'];
+const PIPELINE_STAGES: OpportunityStage[] = ['Lead', 'Qualified', 'Proposal', 'Negotiation', 'Closed-Won'];
+
+// A criterion set on an earlier pipeline stage already applies to this one
+const inheritedFrom = (stages: StageGatesConfig['stages'], stage: OpportunityStage, criterion: StageGateCriterion): OpportunityStage | null => {
+  if (stage === 'Closed-Lost') return null;
+  return PIPELINE_STAGES.slice(0, PIPELINE_STAGES.indexOf(stage)).find(earlier => stages[earlier]?.includes(criterion)) || null;
+};
+
+export const StageGates: React.FC = () => {
+  const { can } = useAuth();
+  const { fetchStageGates, saveStageGates } = useStageGatesApi();
+
+  const [stages, setStages] = useState<StageGatesConfig['stages']>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const canManage = can('stageGates:manage');
+
+  useEffect(() => {
+    if (!canManage) return;
+    fetchStageGates()
+      .then(gates => setStages(gates.stages || {}))
+      .catch(err => {
+        console.error('Error loading stage gates:', err);
+        setError('Failed to load stage criteria');
+      })
+      .finally(() => setLoading(false));
+  }, [canManage, fetchStageGates]);
+
+  if (!canManage) {
+    return <Navigate to="/" replace />;
+  }
+
+  const toggle = (stage: OpportunityStage, criterion: StageGateCriterion) => {
+    const current = stages[stage] || [];
+    setStages({
+      ...stages,
+      [stage]: current.includes(criterion) ? current.filter(existing => existing !== criterion) : [...current, criterion]
+    });
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await saveStageGates(stages);
+      setStages(result.stages);
+      setSaved(true);
+    } catch (err) {
+      console.error('Error saving stage gates:', err);
+      setError((err as { message?: string })?.message || 'Failed to save stage criteria');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="flex items-center gap-2 text-2xl font-semibold text-gray-900">
+            <ListChecks className="h-6 w-6 text-gray-400" />
+            Stage Criteria
+          </h1>
+          <p className="text-sm text-gray-500">
+            What an opportunity needs before it can enter each stage. Criteria carry forward: a deal entering
+            Negotiation also has to meet everything required for Lead, Qualified and Proposal. Closed-Lost only uses its own.
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving || loading}
+          className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50"
+        >
+          <Save className="h-4 w-4" />
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {saved && (
+        <div className="flex items-center gap-2 bg-green-50 border border-green-200 text-green-700 text-sm rounded-lg p-3">
+          <CheckCircle className="h-4 w-4 flex-shrink-0" />
+          Stage criteria saved. They apply to the next stage change.
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        {loading ? (
+          <div className="p-6 text-sm text-gray-500">Loading stage criteria...</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Criterion</th>
+                {OPPORTUNITY_STAGES.map(stage => (
+                  <th key={stage} className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">{stage}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {STAGE_GATE_CRITERION_OPTIONS.map(option => (
+                <tr key={option.value}>
+                  <td className="px-4 py-2 text-sm text-gray-900">{option.label}</td>
+                  {OPPORTUNITY_STAGES.map(stage => {
+                    const inherited = inheritedFrom(stages, stage, option.value);
+                    return (
+                      <td key={stage} className="px-4 py-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={!!inherited || !!stages[stage]?.includes(option.value)}
+                          disabled={!!inherited}
+                          onChange={() => toggle(stage, option.value)}
+                          title={inherited ? `Required from ${inherited}` : undefined}
+                          className="h-4 w-4 text-primary-600 border-gray-300 rounded disabled:opacity-50"
+                        />
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
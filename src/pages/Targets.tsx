@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Target as TargetIcon, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import type { AttainmentReport, TargetMetric, TargetPeriodType, TargetSubjectType } from '../types';
+import { TARGET_METRIC_OPTIONS, formatMetricValue, periodKeyFor } from '../types/Target';
+import { useTargetsApi } from '../hooks/useTargetsApi';
+import { useTeamsApi } from '../hooks/useTeamsApi';
+import { useDataContext } from '../context/DataContext';
+import { useAuth } from '../hooks/useAuth';
+
+// Periods offered: two back, the current one and four ahead
+const PERIOD_OFFSETS = [-2, -1, 0, 1, 2, 3, 4];
+
+const PERIOD_TYPE_LABELS: Record<TargetPeriodType, string> = {
+  month: 'Monthly',
+  quarter: 'Quarterly',
+  year: 'Yearly'
+};
+
+export const Targets: React.FC = () => {
+  const { can } = useAuth();
+  const { fetchAttainment, saveTarget, deleteTarget } = useTargetsApi();
+  const { teams, fetchTeams } = useTeamsApi();
+  const { cache } = useDataContext();
+  const users = cache.users || [];
+
+  const [periodType, setPeriodType] = useState<TargetPeriodType>('quarter');
+  const [period, setPeriod] = useState(periodKeyFor(new Date(), 'quarter'));
+  const [report, setReport] = useState<AttainmentReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [subjectType, setSubjectType] = useState<TargetSubjectType>('user');
+  const [subjectId, setSubjectId] = useState('');
+  const [metric, setMetric] = useState<TargetMetric>('won_value');
+  const [value, setValue] = useState('');
+
+  const canManage = can('targets:manage');
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setReport(await fetchAttainment(period));
+    } catch (err) {
+      console.error('Error loading targets:', err);
+      setError('Failed to load targets');
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchAttainment, period]);
+
+  useEffect(() => {
+    if (!canManage) return;
+    loadReport();
+  }, [canManage, loadReport]);
+
+  useEffect(() => {
+    if (!canManage) return;
+    fetchTeams().catch(err => console.error('Error loading teams:', err));
+  }, [canManage, fetchTeams]);
+
+  if (!canManage) {
+    return <Navigate to="/" replace />;
+  }
+
+  const subjectName = (type: TargetSubjectType, id: string) => {
+    if (type === 'team') {
+      return teams.find(team => team.id === id)?.name || 'Unknown team';
+    }
+    const user = users.find(u => u.id === id);
+    return user?.displayName || user?.email || 'Unknown user';
+  };
+
+  const changePeriodType = (type: TargetPeriodType) => {
+    setPeriodType(type);
+    setPeriod(periodKeyFor(new Date(), type));
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(value);
+    if (!subjectId || !value || Number.isNaN(amount) || amount <= 0) {
+      setError('Pick who the target is for and enter a value above zero');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await saveTarget({ subjectType, subjectId, period, metric, value: amount });
+      setValue('');
+      await loadReport();
+    } catch (err) {
+      console.error('Error saving target:', err);
+      setError((err as { message?: string })?.message || 'Failed to save target');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this target?')) return;
+    try {
+      await deleteTarget(id);
+      await loadReport();
+    } catch (err) {
+      console.error('Error deleting target:', err);
+      setError('Failed to delete target');
+    }
+  };
+
+  const periodOptions = PERIOD_OFFSETS.map(offset => periodKeyFor(new Date(), periodType, offset));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="flex items-center gap-2 text-2xl font-semibold text-gray-900">
+            <TargetIcon className="h-6 w-6 text-gray-400" />
+            Targets
+          </h1>
+          <p className="text-sm text-gray-500">
+            Quotas per user or team. Won deals count on their close date, activities when completed and accounts when created;
+            team results add up the team's current members.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={periodType}
+            onChange={(e) => changePeriodType(e.target.value as TargetPeriodType)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            {(Object.keys(PERIOD_TYPE_LABELS) as TargetPeriodType[]).map(option => (
+              <option key={option} value={option}>{PERIOD_TYPE_LABELS[option]}</option>
+            ))}
+          </select>
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            {periodOptions.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* New target */}
+      <form onSubmit={handleAdd} className="bg-white shadow rounded-lg p-4 flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">For</label>
+          <select
+            value={subjectType}
+            onChange={(e) => {
+              setSubjectType(e.target.value as TargetSubjectType);
+              setSubjectId('');
+            }}
+            className="text-sm border border-gray-300 rounded-md px-2.5 py-1.5 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            <option value="user">User</option>
+            <option value="team">Team</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">{subjectType === 'team' ? 'Team' : 'User'}</label>
+          <select
+            value={subjectId}
+            onChange={(e) => setSubjectId(e.target.value)}
+            className="text-sm border border-gray-300 rounded-md px-2.5 py-1.5 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            <option value="">Select...</option>
+            {subjectType === 'team'
+              ? teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)
+              : users.map(user => <option key={user.id} value={user.id}>{user.displayName || user.email}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Metric</label>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as TargetMetric)}
+            className="text-sm border border-gray-300 rounded-md px-2.5 py-1.5 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            {TARGET_METRIC_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Target for {period}</label>
+          <input
+            type="number"
+            min={0}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="w-36 text-sm border border-gray-300 rounded-md px-2.5 py-1.5 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={saving}
+          className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4" />
+          {saving ? 'Saving...' : 'Set target'}
+        </button>
+      </form>
+
+      {/* Targets of the period */}
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        {loading ? (
+          <div className="p-6 text-sm text-gray-500">Loading targets...</div>
+        ) : !report || report.targets.length === 0 ? (
+          <div className="p-6 text-sm text-gray-500">No targets set for {report?.label || period}</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">For</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Metric</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Target</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actual</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Attainment</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {report.targets.map(target => (
+                <tr key={target.id}>
+                  <td className="px-4 py-2 text-sm text-gray-900">
+                    {subjectName(target.subjectType, target.subjectId)}
+                    {target.subjectType === 'team' && <span className="ml-1 text-xs text-gray-400">(team)</span>}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700">
+                    {TARGET_METRIC_OPTIONS.find(option => option.value === target.metric)?.label || target.metric}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700 text-right">{formatMetricValue(target.metric, target.value)}</td>
+                  <td className="px-4 py-2 text-sm text-gray-700 text-right">{formatMetricValue(target.metric, target.actual)}</td>
+                  <td className="px-4 py-2 text-sm font-medium text-gray-900 text-right">{target.attainment}%</td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => handleDelete(target.id)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Delete target"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
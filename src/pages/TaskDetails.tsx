@@ -75,7 +75,7 @@ const TASK_BUCKETS = [
 export const TaskDetails: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { currentUser } = useAuth();
+  const { currentUser, can } = useAuth();
   const isNew = id === 'new';
   
   const [task, setTask] = useState<Task | null>(null);
@@ -218,7 +218,7 @@ export const TaskDetails: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center gap-2">
-            {!isNew && (
+            {!isNew && can('tasks:delete') && (
               <button
                 onClick={handleDelete}
                 className="btn-danger-sm flex items-center gap-1.5"
@@ -351,23 +351,25 @@ export const TaskDetails: React.FC = () => {
 
               {/* Save Button */}
               <div className="mt-6 flex justify-end">
-                <button
-                  type="submit"
-                  disabled={saving}
-                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-iol-red hover:bg-iol-red-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-iol-red disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {saving ? (
-                    <>
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                      Saving...
-                    </>
-                  ) : (
-                    <>
-                      <Save className="h-4 w-4 mr-2" />
-                      Save Task
-                    </>
-                  )}
-                </button>
+                {can(isNew ? 'tasks:create' : 'tasks:update') && (
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-iol-red hover:bg-iol-red-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-iol-red disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {saving ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                        Saving...
+                      </>
+                    ) : (
+                      <>
+                        <Save className="h-4 w-4 mr-2" />
+                        Save Task
+                      </>
+                    )}
+                  </button>
+                )}
               </div>
             </div>
           </form>
@@ -0,0 +1,320 @@
+import React, { useState, useEffect } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Users, Globe, Plus, Pencil, Trash2, Save, X, AlertTriangle } from 'lucide-react';
+import type { User, Team, Territory } from '../types';
+import { useTeamsApi } from '../hooks/useTeamsApi';
+import type { TeamInput, TerritoryInput } from '../hooks/useTeamsApi';
+import { useUsersApi } from '../hooks/useUsersApi';
+import { useAuth } from '../hooks/useAuth';
+
+const emptyTeam: TeamInput = { name: '', description: '', managerIds: [], memberIds: [], territoryIds: [] };
+const emptyTerritory: TerritoryInput = { name: '', description: '', regions: [] };
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+export const Teams: React.FC = () => {
+  const { can } = useAuth();
+  const { teams, territories, loading, fetchTeams, saveTeam, deleteTeam, saveTerritory, deleteTerritory } = useTeamsApi();
+  const { getAllUsers, getUserDisplayName } = useUsersApi();
+
+  const [users, setUsers] = useState<User[]>([]);
+  const [teamDraft, setTeamDraft] = useState<TeamInput | null>(null);
+  const [territoryDraft, setTerritoryDraft] = useState<TerritoryInput | null>(null);
+  const [regionsText, setRegionsText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canManageTeams = can('teams:manage');
+
+  useEffect(() => {
+    if (!canManageTeams) return;
+    fetchTeams().catch(err => {
+      console.error('Error loading teams:', err);
+      setError('Failed to load teams');
+    });
+    getAllUsers().then(setUsers);
+  }, [canManageTeams, fetchTeams, getAllUsers]);
+
+  if (!canManageTeams) {
+    return <Navigate to="/" replace />;
+  }
+
+  const userName = (userId: string) => {
+    const user = users.find(u => u.id === userId);
+    return user ? getUserDisplayName(user) : 'Unknown user';
+  };
+
+  const territoryName = (territoryId: string) =>
+    territories.find(territory => territory.id === territoryId)?.name || 'Unknown territory';
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      console.error(failure, err);
+      setError(err instanceof Error ? err.message : failure);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const editTeam = (team?: Team) => {
+    setTeamDraft(team
+      ? { id: team.id, name: team.name, description: team.description || '', managerIds: team.managerIds, memberIds: team.memberIds, territoryIds: team.territoryIds }
+      : emptyTeam);
+  };
+
+  const editTerritory = (territory?: Territory) => {
+    setTerritoryDraft(territory
+      ? { id: territory.id, name: territory.name, description: territory.description || '', regions: territory.regions }
+      : emptyTerritory);
+    setRegionsText(territory ? territory.regions.join(', ') : '');
+  };
+
+  const handleSaveTeam = async () => {
+    if (!teamDraft) return;
+    if (await run(() => saveTeam(teamDraft), 'Failed to save team')) {
+      setTeamDraft(null);
+    }
+  };
+
+  const handleSaveTerritory = async () => {
+    if (!territoryDraft) return;
+    const regions = regionsText.split(',').map(region => region.trim()).filter(Boolean);
+    if (await run(() => saveTerritory({ ...territoryDraft, regions }), 'Failed to save territory')) {
+      setTerritoryDraft(null);
+    }
+  };
+
+  const handleDeleteTeam = async (team: Team) => {
+    if (!window.confirm(`Delete team "${team.name}"?`)) return;
+    await run(() => deleteTeam(team.id), 'Failed to delete team');
+  };
+
+  const handleDeleteTerritory = async (territory: Territory) => {
+    if (!window.confirm(`Delete territory "${territory.name}"? Teams covering it will lose it.`)) return;
+    await run(() => deleteTerritory(territory.id), 'Failed to delete territory');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">Teams & Territories</h1>
+        <p className="text-sm text-gray-500">
+          Territories group headoffice countries. Managers see everything owned by their team members.
+        </p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading && teams.length === 0 && territories.length === 0 ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Territories */}
+          <div className="bg-white shadow rounded-lg">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+              <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+                <Globe className="h-4 w-4 text-gray-400" />
+                Territories
+              </h2>
+              <button
+                onClick={() => editTerritory()}
+                className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700"
+              >
+                <Plus className="h-3.5 w-3.5" />
+                New territory
+              </button>
+            </div>
+
+            {territoryDraft && (
+              <div className="px-4 py-3 border-b border-gray-100 space-y-2 bg-gray-50">
+                <input
+                  type="text"
+                  placeholder="Territory name"
+                  value={territoryDraft.name}
+                  onChange={(e) => setTerritoryDraft({ ...territoryDraft, name: e.target.value })}
+                  className="w-full text-sm border border-gray-300 rounded-md px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <input
+                  type="text"
+                  placeholder="Regions, comma separated (e.g. Spain, Portugal)"
+                  value={regionsText}
+                  onChange={(e) => setRegionsText(e.target.value)}
+                  className="w-full text-sm border border-gray-300 rounded-md px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setTerritoryDraft(null)}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSaveTerritory}
+                    disabled={saving || !territoryDraft.name.trim() || !regionsText.trim()}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    <Save className="h-3.5 w-3.5" />
+                    {saving ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {territories.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">No territories yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {territories.map(territory => (
+                  <li key={territory.id} className="flex items-start gap-3 px-4 py-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-gray-900">{territory.name}</div>
+                      <div className="text-xs text-gray-500">{territory.regions.join(', ')}</div>
+                    </div>
+                    <button onClick={() => editTerritory(territory)} className="text-gray-400 hover:text-gray-600" title="Edit">
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => handleDeleteTerritory(territory)} disabled={saving} className="text-gray-400 hover:text-red-600" title="Delete">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Teams */}
+          <div className="bg-white shadow rounded-lg">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+              <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+                <Users className="h-4 w-4 text-gray-400" />
+                Teams
+              </h2>
+              <button
+                onClick={() => editTeam()}
+                className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700"
+              >
+                <Plus className="h-3.5 w-3.5" />
+                New team
+              </button>
+            </div>
+
+            {teamDraft && (
+              <div className="px-4 py-3 border-b border-gray-100 space-y-3 bg-gray-50">
+                <input
+                  type="text"
+                  placeholder="Team name"
+                  value={teamDraft.name}
+                  onChange={(e) => setTeamDraft({ ...teamDraft, name: e.target.value })}
+                  className="w-full text-sm border border-gray-300 rounded-md px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <div>
+                  <div className="text-xs font-medium text-gray-700 mb-1">Members (M = manager)</div>
+                  <div className="max-h-48 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 gap-1">
+                    {users.map(user => {
+                      const isManager = teamDraft.managerIds.includes(user.id);
+                      return (
+                        <div key={user.id} className="flex items-center gap-2 text-xs text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={isManager || teamDraft.memberIds.includes(user.id)}
+                            disabled={isManager}
+                            onChange={() => setTeamDraft({ ...teamDraft, memberIds: toggle(teamDraft.memberIds, user.id) })}
+                            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                          />
+                          <span className="flex-1 truncate">{getUserDisplayName(user)}</span>
+                          <button
+                            onClick={() => setTeamDraft({ ...teamDraft, managerIds: toggle(teamDraft.managerIds, user.id) })}
+                            className={`px-1.5 rounded text-[10px] font-semibold ${isManager ? 'bg-primary-600 text-white' : 'bg-gray-200 text-gray-500'}`}
+                            title={isManager ? 'Remove as manager' : 'Make manager'}
+                          >
+                            M
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs font-medium text-gray-700 mb-1">Territories</div>
+                  <div className="flex flex-wrap gap-2">
+                    {territories.map(territory => (
+                      <label key={territory.id} className="flex items-center gap-1 text-xs text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={teamDraft.territoryIds.includes(territory.id)}
+                          onChange={() => setTeamDraft({ ...teamDraft, territoryIds: toggle(teamDraft.territoryIds, territory.id) })}
+                          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                        {territory.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setTeamDraft(null)}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSaveTeam}
+                    disabled={saving || !teamDraft.name.trim()}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    <Save className="h-3.5 w-3.5" />
+                    {saving ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {teams.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">No teams yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {teams.map(team => (
+                  <li key={team.id} className="flex items-start gap-3 px-4 py-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-gray-900">{team.name}</div>
+                      <div className="text-xs text-gray-500">
+                        Managers: {team.managerIds.length > 0 ? team.managerIds.map(userName).join(', ') : 'none'}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {team.memberIds.length} member{team.memberIds.length === 1 ? '' : 's'}
+                        {team.territoryIds.length > 0 && ` · ${team.territoryIds.map(territoryName).join(', ')}`}
+                      </div>
+                    </div>
+                    <button onClick={() => editTeam(team)} className="text-gray-400 hover:text-gray-600" title="Edit">
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => handleDeleteTeam(team)} disabled={saving} className="text-gray-400 hover:text-red-600" title="Delete">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
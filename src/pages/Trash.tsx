@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Trash2,
+  RotateCcw,
+  Building2,
+  Users,
+  Package,
+  Target,
+  CheckSquare,
+  FileCheck,
+  AlertTriangle
+} from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import type { TrashCollection, TrashItem } from '../types';
+import { useTrashApi } from '../hooks/useTrashApi';
+import { useAuth } from '../hooks/useAuth';
+import { useDataContext } from '../context/DataContext';
+
+const COLLECTION_CONFIG: Record<TrashCollection, { label: string; singular: string; icon: React.ComponentType<{ className?: string }> }> = {
+  accounts: { label: 'Accounts', singular: 'Account', icon: Building2 },
+  contacts: { label: 'Contacts', singular: 'Contact', icon: Users },
+  products: { label: 'Products', singular: 'Product', icon: Package },
+  opportunities: { label: 'Opportunities', singular: 'Opportunity', icon: Target },
+  tasks: { label: 'Tasks', singular: 'Task', icon: CheckSquare },
+  assignments: { label: 'Assignments', singular: 'Assignment', icon: FileCheck }
+};
+
+// Helper function to convert Cloud Functions timestamps to Date objects
+const toDate = (value: unknown): Date => {
+  const timestamp = value as { toDate?: () => Date; _seconds?: number; seconds?: number };
+  if (typeof timestamp?.toDate === 'function') return timestamp.toDate();
+  if (typeof timestamp?._seconds === 'number') return new Date(timestamp._seconds * 1000);
+  if (typeof timestamp?.seconds === 'number') return new Date(timestamp.seconds * 1000);
+  return new Date(value as string);
+};
+
+export const Trash: React.FC = () => {
+  const { currentUser, can } = useAuth();
+  const { cache, refreshData } = useDataContext();
+  const { items, retentionDays, loading, fetchTrashItems, restoreItem, purgeItem } = useTrashApi();
+  const users = cache.users || [];
+
+  const [filter, setFilter] = useState<TrashCollection | 'all'>('all');
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTrashItems().catch(err => {
+      console.error('Error loading trash:', err);
+      setError('Failed to load trash');
+    });
+  }, [fetchTrashItems]);
+
+  const getUserName = (userId: string) => {
+    if (userId === currentUser?.uid) return 'You';
+    const user = users.find(u => u.id === userId);
+    return user?.displayName || user?.email || 'Unknown user';
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyItemId(item.id);
+    setError(null);
+    try {
+      await restoreItem(item.collection, item.id);
+      await refreshData(item.collection);
+    } catch (err) {
+      console.error('Error restoring item:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore item');
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    if (!confirm(`Permanently delete "${item.title}"? This cannot be undone.`)) {
+      return;
+    }
+    setBusyItemId(item.id);
+    setError(null);
+    try {
+      await purgeItem(item.collection, item.id);
+    } catch (err) {
+      console.error('Error purging item:', err);
+      setError(err instanceof Error ? err.message : 'Failed to permanently delete item');
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const filteredItems = filter === 'all' ? items : items.filter(item => item.collection === filter);
+  const countFor = (collection: TrashCollection) => items.filter(item => item.collection === collection).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Trash</h1>
+          <p className="text-sm text-gray-500">
+            Deleted records can be restored until they are permanently purged
+            {retentionDays !== null && ` after ${retentionDays} days`}.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* Collection filter */}
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setFilter('all')}
+          className={`px-3 py-1.5 text-sm rounded-full border ${filter === 'all' ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+        >
+          All ({items.length})
+        </button>
+        {(Object.keys(COLLECTION_CONFIG) as TrashCollection[]).map(collection => (
+          <button
+            key={collection}
+            onClick={() => setFilter(collection)}
+            className={`px-3 py-1.5 text-sm rounded-full border ${filter === collection ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+          >
+            {COLLECTION_CONFIG[collection].label} ({countFor(collection)})
+          </button>
+        ))}
+      </div>
+
+      {/* Items */}
+      <div className="bg-white shadow rounded-lg">
+        {loading && items.length === 0 ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : filteredItems.length === 0 ? (
+          <div className="text-center py-12">
+            <Trash2 className="mx-auto h-10 w-10 text-gray-300" />
+            <p className="mt-2 text-sm text-gray-500">Trash is empty</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {filteredItems.map(item => {
+              const { icon: Icon, singular } = COLLECTION_CONFIG[item.collection];
+              const deletedAt = toDate(item.deletedAt);
+              const purgeAfter = toDate(item.purgeAfter);
+              const busy = busyItemId === item.id;
+              return (
+                <li key={`${item.collection}-${item.id}`} className="flex items-center justify-between px-4 py-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div className="p-2 bg-gray-100 rounded-lg">
+                      <Icon className="h-4 w-4 text-gray-500" />
+                    </div>
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-gray-900 truncate">{item.title}</div>
+                      <div className="text-xs text-gray-500">
+                        {singular} · Deleted by {getUserName(item.deletedBy)} {formatDistanceToNow(deletedAt, { addSuffix: true })}
+                        {' · '}Purged on {format(purgeAfter, 'MMM d, yyyy')}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {can('trash:restore') && (
+                      <button
+                        onClick={() => handleRestore(item)}
+                        disabled={busy}
+                        className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <RotateCcw className="h-3.5 w-3.5" />
+                        Restore
+                      </button>
+                    )}
+                    {can('trash:purge') && (
+                      <button
+                        onClick={() => handlePurge(item)}
+                        disabled={busy}
+                        className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-red-700 bg-white border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                        Delete forever
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -3,7 +3,9 @@ import { useAuth } from '../hooks/useAuth';
 import { doc, getDoc, updateDoc, Timestamp } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import { User, Bell, Save, Upload, MapPin, Briefcase, Phone, Mail, User as UserIcon, Clock } from 'lucide-react';
-import type { User as UserType } from '../types';
+import type { User as UserType, NotificationEvent, NotificationEventPreference, NotificationEventPreferences } from '../types';
+import { NOTIFICATION_EVENT_OPTIONS } from '../types/Notification';
+import { TargetProgress } from '../components/TargetProgress';
 
 export const UserProfile: React.FC = () => {
   const { currentUser } = useAuth();
@@ -27,6 +29,7 @@ export const UserProfile: React.FC = () => {
       email: true,
       push: true,
       weekly: true,
+      events: {} as NotificationEventPreferences,
     }
   });
 
@@ -54,10 +57,11 @@ export const UserProfile: React.FC = () => {
             location: data.location || '',
             bio: data.bio || '',
             timezone: data.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
-            notifications: data.notifications || {
-              email: true,
-              push: true,
-              weekly: true,
+            notifications: {
+              email: data.notifications?.email ?? true,
+              push: data.notifications?.push ?? true,
+              weekly: data.notifications?.weekly ?? true,
+              events: data.notifications?.events || {},
             }
           });
         }
@@ -80,7 +84,7 @@ export const UserProfile: React.FC = () => {
     }));
   };
 
-  const handleNotificationChange = (key: keyof typeof formData.notifications) => {
+  const handleNotificationChange = (key: 'email' | 'push' | 'weekly') => {
     setFormData(prev => ({
       ...prev,
       notifications: {
@@ -90,6 +94,24 @@ export const UserProfile: React.FC = () => {
     }));
   };
 
+  const getEventPreference = (event: NotificationEvent): NotificationEventPreference => {
+    const option = NOTIFICATION_EVENT_OPTIONS.find(o => o.value === event)!;
+    return formData.notifications.events[event] || option.defaults;
+  };
+
+  const handleEventPreferenceChange = (event: NotificationEvent, change: Partial<NotificationEventPreference>) => {
+    setFormData(prev => ({
+      ...prev,
+      notifications: {
+        ...prev.notifications,
+        events: {
+          ...prev.notifications.events,
+          [event]: { ...getEventPreference(event), ...change }
+        }
+      }
+    }));
+  };
+
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!currentUser) return;
@@ -411,6 +433,56 @@ export const UserProfile: React.FC = () => {
                     </button>
                   </div>
                 </div>
+
+                <div className="mt-6 pt-6 border-t border-gray-200">
+                  <h3 className="text-sm font-medium text-gray-900">Events</h3>
+                  <p className="text-sm text-gray-500 mb-4">
+                    Choose how each event reaches you. The switches above turn a channel off for every event.
+                  </p>
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead>
+                      <tr>
+                        <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
+                        <th className="py-2 px-4 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">In app</th>
+                        <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {NOTIFICATION_EVENT_OPTIONS.map(option => {
+                        const preference = getEventPreference(option.value);
+                        return (
+                          <tr key={option.value}>
+                            <td className="py-3 pr-4">
+                              <p className="text-sm font-medium text-gray-700">{option.label}</p>
+                              <p className="text-xs text-gray-500">{option.description}</p>
+                            </td>
+                            <td className="py-3 px-4 text-center">
+                              <input
+                                type="checkbox"
+                                checked={preference.inApp}
+                                disabled={!formData.notifications.push}
+                                onChange={(e) => handleEventPreferenceChange(option.value, { inApp: e.target.checked })}
+                                className="h-4 w-4 rounded border-gray-300 text-iol-red focus:ring-iol-red disabled:opacity-50"
+                              />
+                            </td>
+                            <td className="py-3">
+                              <select
+                                value={preference.email}
+                                disabled={!formData.notifications.email}
+                                onChange={(e) => handleEventPreferenceChange(option.value, { email: e.target.value as NotificationEventPreference['email'] })}
+                                className="block w-full px-3 py-1.5 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-iol-red focus:border-iol-red disabled:opacity-50"
+                              >
+                                <option value="off">Off</option>
+                                <option value="immediate">Immediately</option>
+                                <option value="digest">Daily digest</option>
+                              </select>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
               </div>
 
               {/* Save Button */}
@@ -436,6 +508,13 @@ export const UserProfile: React.FC = () => {
                 </div>
               </div>
             </form>
+
+            {/* Targets */}
+            {currentUser && (
+              <div className="mt-8">
+                <TargetProgress userId={currentUser.uid} />
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,218 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Shield, AlertTriangle, CheckCircle2, Save } from 'lucide-react';
+import type { User, Role, Permission, Visibility } from '../types';
+import { ROLES, GRANTABLE_PERMISSIONS, VISIBILITIES } from '../types/Permissions';
+import { useUsersApi } from '../hooks/useUsersApi';
+import { useAuth } from '../hooks/useAuth';
+
+interface RoleDraft {
+  role: Role;
+  permissions: Permission[];
+  visibility: Visibility;
+}
+
+// Profiles created before roles existed have role "user", which the functions treat as "rep"
+const toRole = (role?: string): Role => ROLES.some(option => option.value === role) ? role as Role : 'rep';
+
+const toVisibility = (visibility?: string): Visibility =>
+  VISIBILITIES.some(option => option.value === visibility) ? visibility as Visibility : 'all';
+
+const draftFor = (user: User): RoleDraft => ({
+  role: toRole(user.role),
+  visibility: toVisibility(user.visibility),
+  permissions: (user.permissions || []).filter((permission): permission is Permission =>
+    GRANTABLE_PERMISSIONS.includes(permission as Permission)
+  )
+});
+
+export const UserRoles: React.FC = () => {
+  const { currentUser, can } = useAuth();
+  const { getUsers, updateUserRole, clearUsersCache, getUserDisplayName } = useUsersApi();
+
+  const [users, setUsers] = useState<User[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, RoleDraft>>({});
+  const [expandedUserId, setExpandedUserId] = useState<string | null>(null);
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getUsers({ limit: 100, sortBy: 'displayName', sortOrder: 'asc' });
+      setUsers(result.users);
+      setDrafts(Object.fromEntries(result.users.map(user => [user.id, draftFor(user)])));
+    } catch (err) {
+      console.error('Error loading users:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  }, [getUsers]);
+
+  const canManageRoles = can('users:manageRoles');
+
+  useEffect(() => {
+    if (canManageRoles) {
+      loadUsers();
+    }
+  }, [canManageRoles, loadUsers]);
+
+  if (!canManageRoles) {
+    return <Navigate to="/" replace />;
+  }
+
+  const updateDraft = (userId: string, draft: Partial<RoleDraft>) => {
+    setDrafts(prev => ({ ...prev, [userId]: { ...prev[userId], ...draft } }));
+  };
+
+  const togglePermission = (userId: string, permission: Permission) => {
+    const current = drafts[userId].permissions;
+    updateDraft(userId, {
+      permissions: current.includes(permission)
+        ? current.filter(p => p !== permission)
+        : [...current, permission]
+    });
+  };
+
+  const isDirty = (user: User) => {
+    const original = draftFor(user);
+    const draft = drafts[user.id];
+    return !!draft && (
+      draft.role !== original.role ||
+      draft.visibility !== original.visibility ||
+      draft.permissions.length !== original.permissions.length ||
+      draft.permissions.some(permission => !original.permissions.includes(permission))
+    );
+  };
+
+  const handleSave = async (user: User) => {
+    const draft = drafts[user.id];
+    setSavingUserId(user.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const updated = await updateUserRole(user.id, draft.role, draft.permissions, draft.visibility);
+      setUsers(prev => prev.map(u => u.id === user.id ? updated : u));
+      setDrafts(prev => ({ ...prev, [user.id]: draftFor(updated) }));
+      clearUsersCache();
+      setMessage(`Updated role for ${getUserDisplayName(user)}.`);
+    } catch (err) {
+      console.error('Error updating user role:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update role');
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">User Roles</h1>
+        <p className="text-sm text-gray-500">
+          Assign roles, extra permissions and which records each user can see. Changes apply the next time the user loads the app.
+        </p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="flex items-center gap-2 bg-green-50 border border-green-200 text-green-700 text-sm rounded-lg p-3">
+          <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+          {message}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg">
+          <ul className="divide-y divide-gray-100">
+            {users.map(user => {
+              const draft = drafts[user.id];
+              if (!draft) return null;
+              const isSelf = user.id === currentUser?.uid;
+              const isExpanded = expandedUserId === user.id;
+              return (
+                <li key={user.id} className="px-4 py-3">
+                  <div className="flex items-center gap-3">
+                    <Shield className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-gray-900 truncate">
+                        {getUserDisplayName(user)}
+                        {isSelf && <span className="ml-2 text-xs font-medium text-gray-500">(you)</span>}
+                      </div>
+                      <div className="text-xs text-gray-500 truncate">{user.email}</div>
+                    </div>
+                    <select
+                      value={draft.role}
+                      onChange={(e) => updateDraft(user.id, { role: e.target.value as Role })}
+                      disabled={isSelf}
+                      title={isSelf ? 'You cannot change your own role' : ROLES.find(option => option.value === draft.role)?.description}
+                      className="text-sm border border-gray-300 rounded-md px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-50"
+                    >
+                      {ROLES.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={draft.visibility}
+                      onChange={(e) => updateDraft(user.id, { visibility: e.target.value as Visibility })}
+                      title={VISIBILITIES.find(option => option.value === draft.visibility)?.description}
+                      className="text-sm border border-gray-300 rounded-md px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    >
+                      {VISIBILITIES.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => setExpandedUserId(isExpanded ? null : user.id)}
+                      className="text-xs text-primary-600 hover:text-primary-700 whitespace-nowrap"
+                    >
+                      {draft.permissions.length > 0 ? `+${draft.permissions.length} extra` : 'Extra permissions'}
+                    </button>
+                    <button
+                      onClick={() => handleSave(user)}
+                      disabled={!isDirty(user) || savingUserId !== null}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50"
+                    >
+                      <Save className="h-3.5 w-3.5" />
+                      {savingUserId === user.id ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                  {isExpanded && (
+                    <div className="mt-3 ml-8 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                      {GRANTABLE_PERMISSIONS.map(permission => (
+                        <label key={permission} className="flex items-center gap-2 text-xs text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={draft.role === 'admin' || draft.permissions.includes(permission)}
+                            disabled={draft.role === 'admin'}
+                            onChange={() => togglePermission(user.id, permission)}
+                            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                          />
+                          <span className="font-mono">{permission}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -22,20 +22,20 @@ import {
   ChevronRight,
   FileText
 } from 'lucide-react';
-import { format, startOfWeek, endOfWeek, isWithinInterval, subWeeks, addWeeks, getISOWeek } from 'date-fns';
+import { format, startOfWeek, endOfWeek, getISOWeek } from 'date-fns';
 import * as XLSX from 'xlsx';
 import type { 
-  Opportunity, 
-  Account, 
-  Contact, 
-  Activity as ActivityType,
   OpportunityStage,
-  OpportunityPriority 
+  OpportunityPriority,
+  OpportunityProgress,
+  WeeklyReportActivity,
+  WeeklyReportData,
+  WeeklySummary,
+  WeeklyReportInput
 } from '../types';
 import { getDocuments } from '../lib/firestore';
-import { useAccountsApi } from '../hooks/useAccountsApi';
-import { useContactsApi } from '../hooks/useContactsApi';
-import { useOpportunitiesApi } from '../hooks/useOpportunitiesApi';
+import { useReportsApi } from '../hooks/useReportsApi';
+import { WeeklyReportNarrative } from '../components/WeeklyReportNarrative';
 
 // Helper function to convert various date formats to Date object
 const safeDateConversion = (dateValue: any): Date => {
@@ -77,56 +77,23 @@ const safeDateConversion = (dateValue: any): Date => {
   }
 };
 
-interface WeeklySummary {
-  totalDealValue: number;
-  totalOpportunities: number;
-  activeOpportunities: number;
-  closedWonOpportunities: number;
-  closedLostOpportunities: number;
-  activitiesThisWeek: number;
-  activitiesNextWeek: number;
-  overdueActivities: number;
-  totalBlockers: number;
-}
-
-
-
-interface OpportunityProgress {
-  opportunity: Opportunity;
-  account: Account | undefined;
-  lastActivity: ActivityType | undefined;
-  nextActivity: ActivityType | undefined;
-  weeklyChanges: string[];
-  riskFactors: string[];
-}
-
 export const WeeklyReport: React.FC = () => {
   // API hooks
-  const { getOpportunities } = useOpportunitiesApi();
-  const { fetchAccounts } = useAccountsApi();
-  const { getContacts } = useContactsApi();
+  const { getWeeklyReport } = useReportsApi();
   
   // State
-  const [opportunities, setOpportunities] = useState<Opportunity[]>([]);
-  const [accounts, setAccounts] = useState<Account[]>([]);
-  const [contacts, setContacts] = useState<Contact[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [summary, setSummary] = useState<WeeklySummary | null>(null);
   const [opportunityProgress, setOpportunityProgress] = useState<OpportunityProgress[]>([]);
-  const [weeklyActivities, setWeeklyActivities] = useState<(ActivityType & { opportunity: Opportunity; account: Account })[]>([]);
-  const [nextWeekActivities, setNextWeekActivities] = useState<(ActivityType & { opportunity: Opportunity; account: Account })[]>([]);
+  const [weeklyActivities, setWeeklyActivities] = useState<WeeklyReportActivity[]>([]);
+  const [nextWeekActivities, setNextWeekActivities] = useState<WeeklyReportActivity[]>([]);
+  const [wonThisWeek, setWonThisWeek] = useState<WeeklyReportData['wonThisWeek']>([]);
   const [expandedGroups, setExpandedGroups] = useState<Record<string, boolean>>({});
 
   useEffect(() => {
-    fetchData();
-  }, [getOpportunities, fetchAccounts, getContacts]);
-
-  useEffect(() => {
-    if (opportunities.length > 0 && accounts.length > 0) {
-      analyzeWeeklyData();
-    }
-  }, [opportunities, accounts, contacts, selectedDate]);
+    fetchReport();
+  }, [getWeeklyReport, selectedDate]);
 
   // Initialize all groups as expanded when opportunity progress changes
   useEffect(() => {
@@ -154,192 +121,27 @@ export const WeeklyReport: React.FC = () => {
     }));
   };
 
-  const fetchData = async () => {
+  // The report is built on the server, with week boundaries in the browser's timezone
+  const fetchReport = async () => {
     setLoading(true);
     try {
-      const [oppsResult, accountsResult, contactsResult] = await Promise.all([
-        getOpportunities(),
-        fetchAccounts(),
-        getContacts()
-      ]);
-      
-      setOpportunities(oppsResult.opportunities);
-      setAccounts(accountsResult.accounts);
-      setContacts(contactsResult.contacts);
+      const report = await getWeeklyReport({
+        weekOf: format(selectedDate, 'yyyy-MM-dd'),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+      });
+
+      setSummary(report.summary);
+      setOpportunityProgress(report.opportunityProgress);
+      setWeeklyActivities(report.thisWeekActivities);
+      setNextWeekActivities(report.nextWeekActivities);
+      setWonThisWeek(report.wonThisWeek);
     } catch (error) {
-      console.error('Error fetching data:', error);
+      console.error('Error fetching weekly report:', error);
     } finally {
       setLoading(false);
     }
   };
 
-  const analyzeWeeklyData = () => {
-    const weekStart = startOfWeek(selectedDate, { weekStartsOn: 1 }); // Monday start
-    const weekEnd = endOfWeek(selectedDate, { weekStartsOn: 1 });
-    const nextWeekStart = addWeeks(weekStart, 1);
-    const nextWeekEnd = addWeeks(weekEnd, 1);
-    const lastWeekStart = subWeeks(weekStart, 1);
-    const lastWeekEnd = subWeeks(weekEnd, 1);
-
-    // Calculate summary metrics
-    const activeOpps = opportunities.filter(opp => 
-      !['Closed-Won', 'Closed-Lost'].includes(opp.stage)
-    );
-    
-    const closedWonOpps = opportunities.filter(opp => opp.stage === 'Closed-Won');
-    const closedLostOpps = opportunities.filter(opp => opp.stage === 'Closed-Lost');
-
-    const totalDealValue = activeOpps.reduce((sum, opp) => sum + (opp.estimatedDealValue || 0), 0);
-
-
-
-    // Analyze activities
-    const allActivities: (ActivityType & { opportunity: Opportunity; account: Account })[] = [];
-    const thisWeekActivities: typeof allActivities = [];
-    const nextWeekActivities: typeof allActivities = [];
-    let overdueCount = 0;
-    let totalBlockersCount = 0;
-
-    opportunities.forEach(opp => {
-      const account = accounts.find(a => a.id === opp.accountId);
-      if (!account) return;
-
-      // Count unresolved blockers
-      if (opp.blockers && opp.blockers.length > 0) {
-        totalBlockersCount += opp.blockers.filter(blocker => !blocker.completed).length;
-      }
-
-      (opp.activities || []).forEach(activity => {
-        const activityDate = safeDateConversion(activity.dateTime);
-        const enhancedActivity = { ...activity, opportunity: opp, account };
-        allActivities.push(enhancedActivity);
-
-        // This week activities
-        if (isWithinInterval(activityDate, { start: new Date(weekStart), end: new Date(weekEnd) })) {
-          thisWeekActivities.push(enhancedActivity);
-        }
-
-        // Next week activities
-        if (isWithinInterval(activityDate, { start: new Date(nextWeekStart), end: new Date(nextWeekEnd) })) {
-          nextWeekActivities.push(enhancedActivity);
-        }
-
-        // Overdue activities
-        if (activity.status === 'Scheduled' && activityDate < new Date()) {
-          overdueCount++;
-        }
-      });
-    });
-
-    setWeeklyActivities(thisWeekActivities.sort((a, b) => {
-      try {
-        const timeA = (a.dateTime as any)?.toMillis ? (a.dateTime as any).toMillis() : safeDateConversion(a.dateTime).getTime();
-        const timeB = (b.dateTime as any)?.toMillis ? (b.dateTime as any).toMillis() : safeDateConversion(b.dateTime).getTime();
-        return timeB - timeA;
-      } catch (error) {
-        console.error('Date sorting error:', error);
-        return 0;
-      }
-    }));
-    setNextWeekActivities(nextWeekActivities.sort((a, b) => {
-      try {
-        const timeA = (a.dateTime as any)?.toMillis ? (a.dateTime as any).toMillis() : safeDateConversion(a.dateTime).getTime();
-        const timeB = (b.dateTime as any)?.toMillis ? (b.dateTime as any).toMillis() : safeDateConversion(b.dateTime).getTime();
-        return timeA - timeB;
-      } catch (error) {
-        console.error('Date sorting error:', error);
-        return 0;
-      }
-    }));
-
-    setSummary({
-      totalDealValue,
-      totalOpportunities: opportunities.length,
-      activeOpportunities: activeOpps.length,
-      closedWonOpportunities: closedWonOpps.length,
-      closedLostOpportunities: closedLostOpps.length,
-      activitiesThisWeek: thisWeekActivities.length,
-      activitiesNextWeek: nextWeekActivities.length,
-      overdueActivities: overdueCount,
-      totalBlockers: totalBlockersCount
-    });
-
-    // Analyze opportunity progress
-    const progress = activeOpps.map(opp => {
-      const account = accounts.find(a => a.id === opp.accountId);
-      const activities = (opp.activities || []).sort((a, b) => {
-        try {
-          const timeA = (a.dateTime as any)?.toMillis ? (a.dateTime as any).toMillis() : safeDateConversion(a.dateTime).getTime();
-          const timeB = (b.dateTime as any)?.toMillis ? (b.dateTime as any).toMillis() : safeDateConversion(b.dateTime).getTime();
-          return timeB - timeA;
-        } catch (error) {
-          console.error('Date sorting error:', error);
-          return 0;
-        }
-      });
-      const lastActivity = activities.find(a => a.status === 'Completed');
-      const nextActivity = activities.find(a => a.status === 'Scheduled');
-
-      // Detect weekly changes (simplified - would need proper change tracking)
-      const weeklyChanges: string[] = [];
-      const thisWeekActivityCount = activities.filter(a => 
-        isWithinInterval(safeDateConversion(a.dateTime), { start: new Date(weekStart), end: new Date(weekEnd) })
-      ).length;
-
-      if (thisWeekActivityCount > 0) {
-        weeklyChanges.push(`${thisWeekActivityCount} activities this week`);
-      }
-
-      // Risk factors
-      const riskFactors: string[] = [];
-      const daysSinceLastActivity = lastActivity ? 
-        Math.floor((new Date().getTime() - safeDateConversion(lastActivity.dateTime).getTime()) / (1000 * 60 * 60 * 24)) : 
-        999;
-
-      if (daysSinceLastActivity > 14) {
-        riskFactors.push(`${daysSinceLastActivity} days since last activity`);
-      }
-
-      const overdueActivities = activities.filter(a => 
-        a.status === 'Scheduled' && safeDateConversion(a.dateTime) < new Date()
-      );
-      if (overdueActivities.length > 0) {
-        riskFactors.push(`${overdueActivities.length} overdue activities`);
-      }
-
-      // Check for unresolved blockers and add their actual text
-      const unresolvedBlockers = opp.blockers ? opp.blockers.filter(blocker => !blocker.completed) : [];
-      unresolvedBlockers.forEach(blocker => {
-        riskFactors.push(`🚫 ${blocker.text}`);
-      });
-
-      if (opp.expectedCloseDate && safeDateConversion(opp.expectedCloseDate) < addWeeks(new Date(), 2) && opp.stage === 'Lead') {
-        riskFactors.push('Close date approaching but still in Lead stage');
-      }
-
-      return {
-        opportunity: opp,
-        account,
-        lastActivity,
-        nextActivity,
-        weeklyChanges,
-        riskFactors
-      };
-    });
-
-    // Sort by priority and risk factors
-    progress.sort((a, b) => {
-      const priorityOrder = { 'Critical': 0, 'High': 1, 'Medium': 2, 'Low': 3 };
-      const aPriority = priorityOrder[a.opportunity.priority || 'Medium'];
-      const bPriority = priorityOrder[b.opportunity.priority || 'Medium'];
-      
-      if (aPriority !== bPriority) return aPriority - bPriority;
-      return b.riskFactors.length - a.riskFactors.length;
-    });
-
-    setOpportunityProgress(progress);
-  };
-
   const getStageColor = (stage: OpportunityStage) => {
     const colors = {
       'Lead': 'bg-gray-100 text-gray-800',
@@ -531,7 +333,7 @@ export const WeeklyReport: React.FC = () => {
 
       // Each opportunity in clean format
       accountOpportunities.forEach((progress, index) => {
-        const opportunityContacts = contacts.filter(c => progress.opportunity.contactIds.includes(c.id || ''));
+        const opportunityContacts = progress.contacts;
         
         // Opportunity header
         report += `${progress.opportunity.title}\n`;
@@ -648,6 +450,61 @@ export const WeeklyReport: React.FC = () => {
     return emailContent;
   };
 
+  // The week's computed data for the AI narrative: active deals plus this week's wins
+  const buildNarrativeInput = (): WeeklyReportInput | null => {
+    if (!summary) return null;
+
+    const weekStart = startOfWeek(selectedDate, { weekStartsOn: 1 });
+    const weekEnd = endOfWeek(selectedDate, { weekStartsOn: 1 });
+    const toActivityInput = (activity: WeeklyReportActivity) => ({
+      date: format(safeDateConversion(activity.dateTime), 'yyyy-MM-dd'),
+      accountName: activity.account.name,
+      opportunityTitle: activity.opportunity.title,
+      activityType: activity.activityType,
+      subject: activity.subject,
+      status: activity.status
+    });
+
+    return {
+      weekStart: format(weekStart, 'yyyy-MM-dd'),
+      weekEnd: format(weekEnd, 'yyyy-MM-dd'),
+      summary,
+      opportunities: [
+        ...wonThisWeek.map(({ opportunity: opp, account }) => ({
+          id: opp.id,
+          title: opp.title,
+          accountName: account?.name || 'Unknown Account',
+          stage: opp.stage,
+          priority: opp.priority,
+          estimatedDealValue: opp.estimatedDealValue,
+          daysSinceLastActivity: null,
+          overdueActivities: 0,
+          unresolvedBlockers: [],
+          weeklyChanges: [],
+          nextActivity: null
+        })),
+        ...opportunityProgress.map(progress => ({
+          id: progress.opportunity.id,
+          title: progress.opportunity.title,
+          accountName: progress.account?.name || 'Unknown Account',
+          stage: progress.opportunity.stage,
+          priority: progress.opportunity.priority,
+          estimatedDealValue: progress.opportunity.estimatedDealValue,
+          daysSinceLastActivity: progress.daysSinceLastActivity,
+          overdueActivities: progress.overdueActivityCount,
+          unresolvedBlockers: progress.unresolvedBlockers,
+          weeklyChanges: progress.weeklyChanges,
+          nextActivity: progress.nextActivity ? {
+            subject: progress.nextActivity.subject,
+            date: format(safeDateConversion(progress.nextActivity.dateTime), 'yyyy-MM-dd')
+          } : null
+        }))
+      ],
+      thisWeekActivities: weeklyActivities.map(toActivityInput),
+      nextWeekActivities: nextWeekActivities.map(toActivityInput)
+    };
+  };
+
   const copyFormattedReportToClipboard = async () => {
     try {
       const formattedReport = generateFormattedReport();
@@ -792,7 +649,7 @@ export const WeeklyReport: React.FC = () => {
           }
 
           // Contacts
-          const opportunityContacts = contacts.filter(c => progress.opportunity.contactIds.includes(c.id || ''));
+          const opportunityContacts = progress.contacts;
           if (opportunityContacts.length > 0) {
             emailContent += `  👥 Contacts: ${opportunityContacts.map(c => c.name).join(', ')}\n`;
           }
@@ -1006,7 +863,8 @@ export const WeeklyReport: React.FC = () => {
             )}
           </div>
 
-
+          {/* AI Management Narrative */}
+          <WeeklyReportNarrative isoWeek={format(weekStart, "RRRR-'W'II")} getReportInput={buildNarrativeInput} />
 
           {/* Opportunity Progress */}
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -1085,7 +943,7 @@ export const WeeklyReport: React.FC = () => {
                           )}
                         </div>
                         {(() => {
-                          const opportunityContacts = contacts.filter(c => progress.opportunity.contactIds.includes(c.id || ''));
+                          const opportunityContacts = progress.contacts;
                           return opportunityContacts.length > 0 && (
                             <div className="flex items-center gap-1">
                               <Users className="h-4 w-4" />
@@ -0,0 +1,342 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Trophy,
+  XCircle,
+  TrendingUp,
+  Target,
+  Swords,
+  BarChart3,
+  RefreshCw
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { useOpportunitiesApi } from '../hooks/useOpportunitiesApi';
+import type { ReasonCount, WinLossFilters, WinLossMetrics, WinLossReport } from '../hooks/useOpportunitiesApi';
+import { useDataContext } from '../context/DataContext';
+import { closeReasonLabel } from '../types/Opportunity';
+
+const IOL_PRODUCTS = [
+  'iOL X Demand',
+  'iOL X Supply',
+  'iOL X Exchange',
+  'iOL Pulse',
+  'iOL Pay Issuing',
+  'iOL Pay Acquiring',
+  'iOL Pay Payment Gateway',
+  'iOL Pay Automate'
+];
+
+type Breakdown = 'product' | 'region' | 'owner' | 'dealSize';
+
+const BREAKDOWN_LABELS: Record<Breakdown, string> = {
+  product: 'iOL Product',
+  region: 'Region',
+  owner: 'Owner',
+  dealSize: 'Deal Size'
+};
+
+const formatValue = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+const topReason = (reasons: ReasonCount[], outcome: ReasonCount['outcome']) => {
+  const top = reasons.find(reason => reason.outcome === outcome);
+  return top ? `${closeReasonLabel(outcome, top.reasonCode)} (${top.count})` : '—';
+};
+
+export const WinLossAnalysis: React.FC = () => {
+  const { getWinLossAnalysis } = useOpportunitiesApi();
+  const { cache } = useDataContext();
+  const users = cache.users || [];
+
+  const [report, setReport] = useState<WinLossReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<WinLossFilters>({});
+  const [breakdown, setBreakdown] = useState<Breakdown>('product');
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await getWinLossAnalysis(filters);
+      setReport(data);
+    } catch (err) {
+      console.error('Error loading win/loss analysis:', err);
+      setError('Failed to load win/loss analysis');
+    } finally {
+      setLoading(false);
+    }
+  }, [getWinLossAnalysis, filters]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const getUserName = (userId: string) => {
+    const user = users.find(u => u.id === userId);
+    return user?.displayName || user?.email || 'Unassigned';
+  };
+
+  const breakdownRows = (data: WinLossReport): Array<{ label: string; metrics: WinLossMetrics }> => {
+    switch (breakdown) {
+      case 'product':
+        return data.byProduct.map(row => ({ label: row.product, metrics: row }));
+      case 'region':
+        return data.byRegion.map(row => ({ label: row.region, metrics: row }));
+      case 'owner':
+        return data.byOwner.map(row => ({ label: getUserName(row.ownerId), metrics: row }));
+      case 'dealSize':
+        return data.byDealSize.map(row => ({ label: row.label, metrics: row }));
+    }
+  };
+
+  const renderReasons = (outcome: ReasonCount['outcome']) => {
+    const reasons = report!.overall.reasons.filter(reason => reason.outcome === outcome);
+    const total = reasons.reduce((sum, reason) => sum + reason.count, 0);
+    const won = outcome === 'won';
+
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <div className={`p-2 rounded-lg ${won ? 'bg-green-100' : 'bg-red-100'}`}>
+            {won ? <Trophy className="h-5 w-5 text-green-600" /> : <XCircle className="h-5 w-5 text-red-600" />}
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900">{won ? 'Why We Win' : 'Why We Lose'}</h2>
+        </div>
+        {reasons.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No {won ? 'won' : 'lost'} deals match the selected filters</p>
+        ) : (
+          <div className="space-y-3">
+            {reasons.map(reason => {
+              const share = Math.round((reason.count / total) * 1000) / 10;
+              return (
+                <div key={reason.reasonCode}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="text-gray-700">{closeReasonLabel(outcome, reason.reasonCode)}</span>
+                    <span className="text-gray-500">
+                      {reason.count} · {formatValue(reason.value)} · <span className="font-medium text-gray-900">{share}%</span>
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-100 rounded-full h-2">
+                    <div
+                      className={`h-2 rounded-full ${won ? 'bg-green-500' : 'bg-red-500'}`}
+                      style={{ width: `${Math.min(share, 100)}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">Win/Loss Analysis</h1>
+            <p className="text-sm text-gray-500">
+              Why deals close won or lost, based on the close-out captured when they were closed
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              value={filters.ownerId || ''}
+              onChange={(e) => setFilters({ ...filters, ownerId: e.target.value || undefined })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              <option value="">All owners</option>
+              {users.map(user => (
+                <option key={user.id} value={user.id}>{user.displayName || user.email}</option>
+              ))}
+            </select>
+            <select
+              value={filters.iolProduct || ''}
+              onChange={(e) => setFilters({ ...filters, iolProduct: e.target.value || undefined })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              <option value="">All iOL products</option>
+              {IOL_PRODUCTS.map(product => (
+                <option key={product} value={product}>{product}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={filters.closedAfter || ''}
+              onChange={(e) => setFilters({ ...filters, closedAfter: e.target.value || undefined })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              title="Closed after"
+            />
+            <input
+              type="date"
+              value={filters.closedBefore || ''}
+              onChange={(e) => setFilters({ ...filters, closedBefore: e.target.value || undefined })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              title="Closed before"
+            />
+            <button
+              onClick={fetchReport}
+              disabled={loading}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-opacity-50 disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-auto p-6">
+        <div className="max-w-7xl mx-auto space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-4">
+              {error}
+            </div>
+          )}
+
+          {loading && !report && (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          )}
+
+          {report && (
+            <>
+              {/* Headline metrics */}
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                  <div className="flex items-center gap-2 text-sm text-gray-500 mb-1">
+                    <Target className="h-4 w-4" />
+                    Closed Deals
+                  </div>
+                  <div className="text-2xl font-bold text-gray-900">{report.overall.closed}</div>
+                  <div className="text-xs text-gray-500">{report.overall.won} won · {report.overall.lost} lost</div>
+                </div>
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                  <div className="flex items-center gap-2 text-sm text-gray-500 mb-1">
+                    <TrendingUp className="h-4 w-4" />
+                    Win Rate
+                  </div>
+                  <div className="text-2xl font-bold text-gray-900">{report.overall.winRate}%</div>
+                </div>
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                  <div className="flex items-center gap-2 text-sm text-gray-500 mb-1">
+                    <Trophy className="h-4 w-4" />
+                    Won Value
+                  </div>
+                  <div className="text-2xl font-bold text-gray-900">{formatValue(report.overall.wonValue)}</div>
+                </div>
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                  <div className="flex items-center gap-2 text-sm text-gray-500 mb-1">
+                    <XCircle className="h-4 w-4" />
+                    Lost Value
+                  </div>
+                  <div className="text-2xl font-bold text-gray-900">{formatValue(report.overall.lostValue)}</div>
+                </div>
+              </div>
+
+              {/* Reasons */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {renderReasons('won')}
+                {renderReasons('lost')}
+              </div>
+
+              {/* Breakdown */}
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-primary-100 rounded-lg">
+                      <BarChart3 className="h-5 w-5 text-primary-600" />
+                    </div>
+                    <h2 className="text-xl font-semibold text-gray-900">By {BREAKDOWN_LABELS[breakdown]}</h2>
+                  </div>
+                  <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+                    {(Object.keys(BREAKDOWN_LABELS) as Breakdown[]).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => setBreakdown(option)}
+                        className={`px-3 py-1.5 text-sm ${breakdown === option ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                      >
+                        {BREAKDOWN_LABELS[option]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full">
+                    <thead>
+                      <tr className="border-b border-gray-200 text-xs text-gray-500 uppercase tracking-wider">
+                        <th className="px-4 py-2 text-left">{BREAKDOWN_LABELS[breakdown]}</th>
+                        <th className="px-4 py-2 text-right">Closed</th>
+                        <th className="px-4 py-2 text-right">Won/Lost</th>
+                        <th className="px-4 py-2 text-right">Win Rate</th>
+                        <th className="px-4 py-2 text-right">Won Value</th>
+                        <th className="px-4 py-2 text-left">Top Win Reason</th>
+                        <th className="px-4 py-2 text-left">Top Loss Reason</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {breakdownRows(report).map(({ label, metrics }) => (
+                        <tr key={label} className="border-b border-gray-100">
+                          <td className="px-4 py-2 text-sm font-medium text-gray-900">{label}</td>
+                          <td className="px-4 py-2 text-sm text-gray-700 text-right">{metrics.closed}</td>
+                          <td className="px-4 py-2 text-sm text-gray-700 text-right">{metrics.won}/{metrics.lost}</td>
+                          <td className="px-4 py-2 text-sm text-gray-700 text-right">{metrics.closed > 0 ? `${metrics.winRate}%` : '—'}</td>
+                          <td className="px-4 py-2 text-sm text-gray-700 text-right">{formatValue(metrics.wonValue)}</td>
+                          <td className="px-4 py-2 text-sm text-gray-700">{topReason(metrics.reasons, 'won')}</td>
+                          <td className="px-4 py-2 text-sm text-gray-700">{topReason(metrics.reasons, 'lost')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {report.overall.closed === 0 && (
+                    <p className="text-sm text-gray-500 text-center py-6">No closed opportunities match the selected filters</p>
+                  )}
+                </div>
+              </div>
+
+              {/* Competitors */}
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center gap-3 mb-4">
+                  <div className="p-2 bg-primary-100 rounded-lg">
+                    <Swords className="h-5 w-5 text-primary-600" />
+                  </div>
+                  <h2 className="text-xl font-semibold text-gray-900">Competitors</h2>
+                </div>
+                {report.competitors.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-6">No competitors recorded on closed deals</p>
+                ) : (
+                  <table className="min-w-full">
+                    <thead>
+                      <tr className="border-b border-gray-200 text-xs text-gray-500 uppercase tracking-wider">
+                        <th className="px-4 py-2 text-left">Competitor</th>
+                        <th className="px-4 py-2 text-right">Won Against</th>
+                        <th className="px-4 py-2 text-right">Lost To</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.competitors.map(row => (
+                        <tr key={row.competitor} className="border-b border-gray-100">
+                          <td className="px-4 py-2 text-sm font-medium text-gray-900">{row.competitor}</td>
+                          <td className="px-4 py-2 text-sm text-gray-700 text-right">{row.won}</td>
+                          <td className="px-4 py-2 text-sm text-gray-700 text-right">{row.lost}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              <p className="text-xs text-gray-400 text-right">
+                Generated {format(new Date(report.generatedAt), 'MMM d, yyyy HH:mm')}
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,673 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Navigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Workflow, Plus, Pencil, Trash2, Save, X, AlertTriangle, FlaskConical, CheckCircle, XCircle, ScrollText } from 'lucide-react';
+import type {
+  User,
+  WorkflowRule,
+  WorkflowEntity,
+  WorkflowTrigger,
+  WorkflowCondition,
+  WorkflowConditionOperator,
+  WorkflowAction,
+  WorkflowActionType,
+  WorkflowValue,
+  WorkflowRuleInput,
+  WorkflowExecution,
+  WorkflowTestResult
+} from '../types';
+import { WORKFLOW_ENTITY_OPTIONS, CONDITION_OPERATOR_OPTIONS, WORKFLOW_ACTION_OPTIONS } from '../types/Workflow';
+import { useWorkflowsApi } from '../hooks/useWorkflowsApi';
+import { useUsersApi } from '../hooks/useUsersApi';
+import { useAuth } from '../hooks/useAuth';
+
+const ACTIVITY_TYPES = ['Meeting', 'Email', 'Call', 'WhatsApp', 'Demo', 'Workshop', 'Review', 'Update'];
+
+const STATUS_STYLES: Record<WorkflowExecution['status'], string> = {
+  succeeded: 'bg-green-100 text-green-800',
+  partial: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+// Condition and trigger values are edited as text and parsed on save
+interface ConditionDraft {
+  field: string;
+  operator: WorkflowConditionOperator;
+  value: string;
+}
+
+interface RuleDraft {
+  id?: string;
+  name: string;
+  description: string;
+  entity: WorkflowEntity;
+  enabled: boolean;
+  triggerType: WorkflowTrigger['type'];
+  triggerField: string;
+  triggerTo: string;
+  offsetDays: number;
+  conditions: ConditionDraft[];
+  actions: WorkflowAction[];
+}
+
+const emptyDraft: RuleDraft = {
+  name: '',
+  description: '',
+  entity: 'opportunity',
+  enabled: true,
+  triggerType: 'field_changed',
+  triggerField: 'stage',
+  triggerTo: '',
+  offsetDays: 0,
+  conditions: [],
+  actions: [{ type: 'notify_user', title: '{{name}} changed' }]
+};
+
+const newAction = (type: WorkflowActionType): WorkflowAction => {
+  switch (type) {
+    case 'add_checklist_item': return { type, list: 'checklist', text: '' };
+    case 'create_activity': return { type, activityType: 'Call', subject: '', dueInDays: 1 };
+    case 'set_field': return { type, field: '', value: '' };
+    case 'notify_user': return { type, title: '' };
+    case 'call_webhook': return { type, url: 'https://' };
+  }
+};
+
+// Helper function to convert Cloud Functions timestamps to Date objects
+const toDate = (value: unknown): Date => {
+  const timestamp = value as { toDate?: () => Date; _seconds?: number; seconds?: number };
+  if (typeof timestamp?.toDate === 'function') return timestamp.toDate();
+  if (typeof timestamp?._seconds === 'number') return new Date(timestamp._seconds * 1000);
+  if (typeof timestamp?.seconds === 'number') return new Date(timestamp.seconds * 1000);
+  return new Date(value as string);
+};
+
+const parseValue = (text: string): WorkflowValue => {
+  const trimmed = text.trim();
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  if (trimmed === 'null') return null;
+  if (trimmed !== '' && !isNaN(Number(trimmed))) return Number(trimmed);
+  return trimmed;
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  return String(value);
+};
+
+const toDraft = (rule: WorkflowRule): RuleDraft => ({
+  id: rule.id,
+  name: rule.name,
+  description: rule.description || '',
+  entity: rule.entity,
+  enabled: rule.enabled,
+  triggerType: rule.trigger.type,
+  triggerField: rule.trigger.type === 'created' ? '' : rule.trigger.field,
+  triggerTo: rule.trigger.type === 'field_changed' ? formatValue(rule.trigger.to) : '',
+  offsetDays: rule.trigger.type === 'date_reached' ? rule.trigger.offsetDays : 0,
+  conditions: rule.conditions.map(condition => ({ ...condition, value: formatValue(condition.value) })),
+  actions: rule.actions.map(action => action.type === 'set_field' ? { ...action, value: formatValue(action.value) } : action)
+});
+
+const toRuleInput = (draft: RuleDraft): WorkflowRuleInput => {
+  const trigger: WorkflowTrigger = draft.triggerType === 'created'
+    ? { type: 'created' }
+    : draft.triggerType === 'date_reached'
+      ? { type: 'date_reached', field: draft.triggerField.trim(), offsetDays: draft.offsetDays }
+      : { type: 'field_changed', field: draft.triggerField.trim(), ...(draft.triggerTo.trim() ? { to: parseValue(draft.triggerTo) } : {}) };
+
+  const conditions: WorkflowCondition[] = draft.conditions.map(({ field, operator, value }) => ({
+    field: field.trim(),
+    operator,
+    ...(operator === 'in' ? { value: value.split(',').map(parseValue) }
+      : operator === 'is_empty' || operator === 'is_not_empty' ? {}
+        : { value: parseValue(value) })
+  }));
+
+  return {
+    name: draft.name.trim(),
+    description: draft.description.trim(),
+    entity: draft.entity,
+    enabled: draft.enabled,
+    trigger,
+    conditions,
+    actions: draft.actions.map(action => action.type === 'set_field' ? { ...action, value: parseValue(formatValue(action.value)) } : action)
+  };
+};
+
+const describeTrigger = (trigger: WorkflowTrigger): string => {
+  switch (trigger.type) {
+    case 'created':
+      return 'When created';
+    case 'field_changed':
+      return trigger.to === undefined ? `When ${trigger.field} changes` : `When ${trigger.field} changes to ${formatValue(trigger.to)}`;
+    case 'date_reached':
+      if (trigger.offsetDays === 0) return `On the day of ${trigger.field}`;
+      return `${Math.abs(trigger.offsetDays)} days ${trigger.offsetDays < 0 ? 'before' : 'after'} ${trigger.field}`;
+  }
+};
+
+const inputClass = 'text-sm border border-gray-300 rounded-md px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+export const Workflows: React.FC = () => {
+  const { can } = useAuth();
+  const { rules, loading, fetchRules, saveRule, deleteRule, testRule, fetchExecutions } = useWorkflowsApi();
+  const { getAllUsers, getUserDisplayName } = useUsersApi();
+
+  const [users, setUsers] = useState<User[]>([]);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [testRecordId, setTestRecordId] = useState('');
+  const [testResult, setTestResult] = useState<WorkflowTestResult | null>(null);
+  const [executions, setExecutions] = useState<WorkflowExecution[]>([]);
+  const [logRuleId, setLogRuleId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canManageWorkflows = can('workflows:manage');
+
+  const loadExecutions = useCallback(async (ruleId: string) => {
+    try {
+      setExecutions(await fetchExecutions(ruleId ? { ruleId } : {}));
+    } catch (err) {
+      console.error('Error loading workflow executions:', err);
+      setError('Failed to load the execution log');
+    }
+  }, [fetchExecutions]);
+
+  useEffect(() => {
+    if (!canManageWorkflows) return;
+    fetchRules().catch(err => {
+      console.error('Error loading workflow rules:', err);
+      setError('Failed to load workflow rules');
+    });
+    getAllUsers().then(setUsers);
+  }, [canManageWorkflows, fetchRules, getAllUsers]);
+
+  useEffect(() => {
+    if (!canManageWorkflows) return;
+    loadExecutions(logRuleId);
+  }, [canManageWorkflows, logRuleId, loadExecutions]);
+
+  if (!canManageWorkflows) {
+    return <Navigate to="/" replace />;
+  }
+
+  const userName = (userId: string) => {
+    if (userId === 'system') return 'Schedule';
+    const user = users.find(u => u.id === userId);
+    return user ? getUserDisplayName(user) : 'Unknown user';
+  };
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      console.error(failure, err);
+      setError(err instanceof Error ? err.message : failure);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const editRule = (rule?: WorkflowRule) => {
+    setDraft(rule ? toDraft(rule) : emptyDraft);
+    setTestResult(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (await run(() => saveRule({ ...toRuleInput(draft), ...(draft.id ? { id: draft.id } : {}) }), 'Failed to save workflow rule')) {
+      setDraft(null);
+      setTestResult(null);
+    }
+  };
+
+  const handleToggle = async (rule: WorkflowRule) => {
+    await run(() => saveRule({ ...toRuleInput(toDraft(rule)), id: rule.id, enabled: !rule.enabled }), 'Failed to update workflow rule');
+  };
+
+  const handleDelete = async (rule: WorkflowRule) => {
+    if (!window.confirm(`Delete workflow rule "${rule.name}"? Its execution log is kept.`)) return;
+    await run(() => deleteRule(rule.id), 'Failed to delete workflow rule');
+  };
+
+  const handleTest = async () => {
+    if (!draft || !testRecordId.trim()) return;
+    setTestResult(null);
+    await run(async () => setTestResult(await testRule(toRuleInput(draft), testRecordId.trim())), 'Failed to test workflow rule');
+  };
+
+  const updateCondition = (index: number, changes: Partial<ConditionDraft>) => {
+    if (!draft) return;
+    setDraft({ ...draft, conditions: draft.conditions.map((condition, i) => i === index ? { ...condition, ...changes } : condition) });
+  };
+
+  const updateAction = (index: number, action: WorkflowAction) => {
+    if (!draft) return;
+    setDraft({ ...draft, actions: draft.actions.map((existing, i) => i === index ? action : existing) });
+  };
+
+  const renderActionFields = (action: WorkflowAction, index: number) => {
+    switch (action.type) {
+      case 'add_checklist_item':
+        return (
+          <>
+            <select value={action.list} onChange={(e) => updateAction(index, { ...action, list: e.target.value as 'checklist' | 'blockers' })} className={inputClass}>
+              <option value="checklist">Checklist</option>
+              <option value="blockers">Blockers</option>
+            </select>
+            <input type="text" placeholder="Item text" value={action.text} onChange={(e) => updateAction(index, { ...action, text: e.target.value })} className={`${inputClass} flex-1`} />
+            <input
+              type="number"
+              placeholder="Due in days"
+              value={action.dueInDays ?? ''}
+              onChange={(e) => updateAction(index, { ...action, dueInDays: e.target.value === '' ? undefined : Number(e.target.value) })}
+              className={`${inputClass} w-28`}
+            />
+          </>
+        );
+      case 'create_activity':
+        return (
+          <>
+            <select value={action.activityType} onChange={(e) => updateAction(index, { ...action, activityType: e.target.value })} className={inputClass}>
+              {ACTIVITY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+            <input type="text" placeholder="Subject" value={action.subject} onChange={(e) => updateAction(index, { ...action, subject: e.target.value })} className={`${inputClass} flex-1`} />
+            <input type="number" min={0} title="Due in days" value={action.dueInDays} onChange={(e) => updateAction(index, { ...action, dueInDays: Number(e.target.value) })} className={`${inputClass} w-20`} />
+            <select value={action.assignTo || ''} onChange={(e) => updateAction(index, { ...action, assignTo: e.target.value || undefined })} className={inputClass}>
+              <option value="">Record owner</option>
+              {users.map(user => <option key={user.id} value={user.id}>{getUserDisplayName(user)}</option>)}
+            </select>
+          </>
+        );
+      case 'set_field':
+        return (
+          <>
+            <input type="text" placeholder="Field" value={action.field} onChange={(e) => updateAction(index, { ...action, field: e.target.value })} className={`${inputClass} w-40`} />
+            <input type="text" placeholder="Value" value={formatValue(action.value)} onChange={(e) => updateAction(index, { ...action, value: e.target.value })} className={`${inputClass} flex-1`} />
+          </>
+        );
+      case 'notify_user':
+        return (
+          <>
+            <select value={action.userId || ''} onChange={(e) => updateAction(index, { ...action, userId: e.target.value || undefined })} className={inputClass}>
+              <option value="">Record owner</option>
+              {users.map(user => <option key={user.id} value={user.id}>{getUserDisplayName(user)}</option>)}
+            </select>
+            <input type="text" placeholder="Title" value={action.title} onChange={(e) => updateAction(index, { ...action, title: e.target.value })} className={`${inputClass} flex-1`} />
+            <input type="text" placeholder="Message (optional)" value={action.body || ''} onChange={(e) => updateAction(index, { ...action, body: e.target.value || undefined })} className={`${inputClass} flex-1`} />
+          </>
+        );
+      case 'call_webhook':
+        return (
+          <input type="url" placeholder="https://" value={action.url} onChange={(e) => updateAction(index, { ...action, url: e.target.value })} className={`${inputClass} flex-1`} />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Workflow Rules</h1>
+          <p className="text-sm text-gray-500">
+            Rules run on the server when records are saved, and daily at 05:00 UTC for date triggers. Use {'{{field}}'} in text to insert record values.
+          </p>
+        </div>
+        <button
+          onClick={() => editRule()}
+          className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700"
+        >
+          <Plus className="h-4 w-4" />
+          New rule
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* Editor */}
+      {draft && (
+        <div className="bg-white shadow rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              placeholder="Rule name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className={inputClass}
+            />
+            <select value={draft.entity} onChange={(e) => setDraft({ ...draft, entity: e.target.value as WorkflowEntity })} className={inputClass}>
+              {WORKFLOW_ENTITY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              Enabled
+            </label>
+          </div>
+          <input
+            type="text"
+            placeholder="Description (optional)"
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            className={`${inputClass} w-full`}
+          />
+
+          {/* Trigger */}
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-1">Trigger</div>
+            <div className="flex flex-wrap items-center gap-2">
+              <select value={draft.triggerType} onChange={(e) => setDraft({ ...draft, triggerType: e.target.value as WorkflowTrigger['type'] })} className={inputClass}>
+                <option value="created">Record created</option>
+                <option value="field_changed">Field changed</option>
+                <option value="date_reached">Date reached</option>
+              </select>
+              {draft.triggerType !== 'created' && (
+                <input
+                  type="text"
+                  placeholder={draft.triggerType === 'date_reached' ? 'Date field, e.g. expectedCloseDate' : 'Field, e.g. stage'}
+                  value={draft.triggerField}
+                  onChange={(e) => setDraft({ ...draft, triggerField: e.target.value })}
+                  className={`${inputClass} w-64`}
+                />
+              )}
+              {draft.triggerType === 'field_changed' && (
+                <input
+                  type="text"
+                  placeholder="To value (any change when empty)"
+                  value={draft.triggerTo}
+                  onChange={(e) => setDraft({ ...draft, triggerTo: e.target.value })}
+                  className={`${inputClass} w-64`}
+                />
+              )}
+              {draft.triggerType === 'date_reached' && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  Offset
+                  <input
+                    type="number"
+                    value={draft.offsetDays}
+                    onChange={(e) => setDraft({ ...draft, offsetDays: Number(e.target.value) })}
+                    className={`${inputClass} w-20`}
+                  />
+                  days (negative = before)
+                </label>
+              )}
+            </div>
+          </div>
+
+          {/* Conditions */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-medium text-gray-700">Conditions (all must match)</span>
+              <button
+                onClick={() => setDraft({ ...draft, conditions: [...draft.conditions, { field: '', operator: 'equals', value: '' }] })}
+                className="inline-flex items-center gap-1 text-xs text-primary-600 hover:text-primary-700"
+              >
+                <Plus className="h-3.5 w-3.5" />
+                Add condition
+              </button>
+            </div>
+            {draft.conditions.length === 0 ? (
+              <p className="text-xs text-gray-500">No conditions; the rule runs on every trigger.</p>
+            ) : (
+              <div className="space-y-2">
+                {draft.conditions.map((condition, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input type="text" placeholder="Field" value={condition.field} onChange={(e) => updateCondition(index, { field: e.target.value })} className={`${inputClass} w-48`} />
+                    <select value={condition.operator} onChange={(e) => updateCondition(index, { operator: e.target.value as WorkflowConditionOperator })} className={inputClass}>
+                      {CONDITION_OPERATOR_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </select>
+                    {condition.operator !== 'is_empty' && condition.operator !== 'is_not_empty' && (
+                      <input
+                        type="text"
+                        placeholder={condition.operator === 'in' ? 'Values, comma separated' : 'Value'}
+                        value={condition.value}
+                        onChange={(e) => updateCondition(index, { value: e.target.value })}
+                        className={`${inputClass} flex-1`}
+                      />
+                    )}
+                    <button
+                      onClick={() => setDraft({ ...draft, conditions: draft.conditions.filter((_, i) => i !== index) })}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-medium text-gray-700">Actions (run in order)</span>
+              <button
+                onClick={() => setDraft({ ...draft, actions: [...draft.actions, newAction('notify_user')] })}
+                className="inline-flex items-center gap-1 text-xs text-primary-600 hover:text-primary-700"
+              >
+                <Plus className="h-3.5 w-3.5" />
+                Add action
+              </button>
+            </div>
+            <div className="space-y-2">
+              {draft.actions.map((action, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <select value={action.type} onChange={(e) => updateAction(index, newAction(e.target.value as WorkflowActionType))} className={inputClass}>
+                    {WORKFLOW_ACTION_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                  </select>
+                  {renderActionFields(action, index)}
+                  <button
+                    onClick={() => setDraft({ ...draft, actions: draft.actions.filter((_, i) => i !== index) })}
+                    disabled={draft.actions.length === 1}
+                    className="text-gray-400 hover:text-red-600 disabled:opacity-30"
+                    title="Remove"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Test */}
+          <div className="border-t border-gray-100 pt-3">
+            <div className="text-xs font-medium text-gray-700 mb-1">Test against a record (nothing is changed)</div>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                placeholder={`${WORKFLOW_ENTITY_OPTIONS.find(option => option.value === draft.entity)?.label} ID`}
+                value={testRecordId}
+                onChange={(e) => setTestRecordId(e.target.value)}
+                className={`${inputClass} w-72`}
+              />
+              <button
+                onClick={handleTest}
+                disabled={saving || !testRecordId.trim()}
+                className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                <FlaskConical className="h-3.5 w-3.5" />
+                Test
+              </button>
+            </div>
+            {testResult && (
+              <div className="mt-3 text-sm space-y-2">
+                {!testResult.recordFound ? (
+                  <p className="text-red-700">No record with that ID.</p>
+                ) : (
+                  <>
+                    <p className="text-gray-700">
+                      {testResult.trigger.description}
+                      {testResult.trigger.firesOn && ` — fires on ${testResult.trigger.firesOn}`}
+                    </p>
+                    {testResult.conditions.length > 0 && (
+                      <ul className="space-y-1">
+                        {testResult.conditions.map((condition, index) => (
+                          <li key={index} className="flex items-center gap-2 text-xs text-gray-700">
+                            {condition.matched
+                              ? <CheckCircle className="h-3.5 w-3.5 text-green-600" />
+                              : <XCircle className="h-3.5 w-3.5 text-red-600" />}
+                            {condition.field} {CONDITION_OPERATOR_OPTIONS.find(option => option.value === condition.operator)?.label} {formatValue(condition.value)}
+                            <span className="text-gray-400">(is {JSON.stringify(condition.actual)})</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <p className={testResult.matched ? 'text-green-700 font-medium' : 'text-gray-500'}>
+                      {testResult.matched ? 'Conditions match. The rule would:' : 'Conditions do not match; no actions would run.'}
+                    </p>
+                    {testResult.matched && (
+                      <ul className="list-disc list-inside text-xs text-gray-700">
+                        {testResult.actions.map((action, index) => <li key={index}>{action}</li>)}
+                      </ul>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => {
+                setDraft(null);
+                setTestResult(null);
+              }}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              <X className="h-3.5 w-3.5" />
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !draft.name.trim() || draft.actions.length === 0}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50"
+            >
+              <Save className="h-3.5 w-3.5" />
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Rules */}
+      <div className="bg-white shadow rounded-lg">
+        <div className="flex items-center px-4 py-3 border-b border-gray-100">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+            <Workflow className="h-4 w-4 text-gray-400" />
+            Rules
+          </h2>
+        </div>
+        {loading && rules.length === 0 ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-gray-500 text-center">No workflow rules yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {rules.map(rule => (
+              <li key={rule.id} className="flex items-start gap-3 px-4 py-3">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={() => handleToggle(rule)}
+                  disabled={saving}
+                  title={rule.enabled ? 'Disable' : 'Enable'}
+                  className="mt-1 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className={`text-sm font-medium ${rule.enabled ? 'text-gray-900' : 'text-gray-400'}`}>{rule.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {WORKFLOW_ENTITY_OPTIONS.find(option => option.value === rule.entity)?.label} · {describeTrigger(rule.trigger)}
+                    {rule.conditions.length > 0 && ` · ${rule.conditions.length} condition${rule.conditions.length === 1 ? '' : 's'}`}
+                    {' · '}{rule.actions.map(action => WORKFLOW_ACTION_OPTIONS.find(option => option.value === action.type)?.label).join(', ')}
+                  </div>
+                  {rule.description && <div className="text-xs text-gray-400">{rule.description}</div>}
+                </div>
+                <button onClick={() => setLogRuleId(rule.id)} className="text-gray-400 hover:text-gray-600" title="Show executions">
+                  <ScrollText className="h-4 w-4" />
+                </button>
+                <button onClick={() => editRule(rule)} className="text-gray-400 hover:text-gray-600" title="Edit">
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button onClick={() => handleDelete(rule)} disabled={saving} className="text-gray-400 hover:text-red-600" title="Delete">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Execution log */}
+      <div className="bg-white shadow rounded-lg">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+            <ScrollText className="h-4 w-4 text-gray-400" />
+            Execution log
+          </h2>
+          <select value={logRuleId} onChange={(e) => setLogRuleId(e.target.value)} className={inputClass}>
+            <option value="">All rules</option>
+            {rules.map(rule => <option key={rule.id} value={rule.id}>{rule.name}</option>)}
+          </select>
+        </div>
+        {executions.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-gray-500 text-center">No executions yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Record</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Triggered by</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {executions.map(execution => (
+                  <tr key={execution.id}>
+                    <td className="px-4 py-2 text-sm text-gray-500 whitespace-nowrap">{format(toDate(execution.executedAt), 'MMM d, HH:mm')}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{execution.ruleName}</td>
+                    <td className="px-4 py-2 text-xs text-gray-500 font-mono">{execution.entity}/{execution.recordId}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{userName(execution.triggeredBy)}</td>
+                    <td className="px-4 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[execution.status]}`}>{execution.status}</span>
+                    </td>
+                    <td className="px-4 py-2 text-xs text-gray-600">
+                      {execution.actions.map((action, index) => (
+                        <div key={index} className={action.status === 'failed' ? 'text-red-600' : undefined}>
+                          {WORKFLOW_ACTION_OPTIONS.find(option => option.value === action.type)?.label}: {action.detail || action.status}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type SummaryTrigger = 'manual' | 'nightly';
+
+export type SummaryRatingValue = 'up' | 'down';
+
+export interface AISummaryRating {
+  id: string;
+  summaryId: string;
+  opportunityId: string;
+  userId: string;
+  rating: SummaryRatingValue;
+  comment: string | null;
+  promptVersion: string;
+  provider: string;
+  model: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface AISummaryVersion {
+  id: string;
+  opportunityId: string;
+  text: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  inputHash: string; // Same hash means the model was given the same opportunity data
+  usage?: { inputTokens: number; outputTokens: number };
+  trigger: SummaryTrigger;
+  generatedBy: string; // 'system' for the nightly run
+  generatedAt: Timestamp;
+  ratingCounts: { up: number; down: number };
+  myRating: AISummaryRating | null;
+}
+
+export interface PromptRatingStats {
+  promptVersion: string;
+  provider: string;
+  model: string;
+  up: number;
+  down: number;
+  total: number;
+  approvalRate: number; // Share of thumbs up, 0-1
+  firstRatedAt: Timestamp;
+  lastRatedAt: Timestamp;
+}
+
+export interface AISummaryRatingStats {
+  stats: PromptRatingStats[];
+  recentComments: AISummaryRating[];
+  truncated: boolean; // Only the newest ratings were counted
+}
+
+export interface ProposedActivity {
+  subject: string;
+  activityType: 'Meeting' | 'Email' | 'Call' | 'WhatsApp' | 'Demo' | 'Workshop';
+  method: 'In-person' | 'Zoom' | 'Phone' | 'Teams' | 'Email';
+  date: string | null; // yyyy-MM-dd
+  notes: string;
+  relatedContactIds: string[];
+}
+
+export interface ProposedChecklistItem {
+  text: string;
+  dueDate: string | null; // yyyy-MM-dd
+}
+
+export interface MentionedContact {
+  mention: string;
+  contactId: string | null; // null when nobody on the opportunity matches
+}
+
+// Proposals from meeting notes; nothing is saved until the user accepts them
+export interface ExtractedActions {
+  activities: ProposedActivity[];
+  checklist: ProposedChecklistItem[];
+  blockers: ProposedChecklistItem[];
+  mentionedContacts: MentionedContact[];
+  provider: string;
+  model: string;
+  promptVersion: string;
+}
+
+// Figures computed from the account's records, not by the model
+export interface AccountBriefMetrics {
+  openOpportunities: number;
+  openPipelineValue: number; // Sum of estimatedDealValue on open opportunities
+  wonValue: number; // Sum of estimatedDealValue on Closed-Won opportunities
+  lostOpportunities: number;
+  contacts: number;
+  decisionMakers: number;
+  products: number;
+  openBlockers: number;
+  recentActivities: number; // Activities in the last 90 days
+  daysSinceLastActivity: number | null; // null when nothing has been completed yet
+}
+
+// Current relationship brief for an account, replaced on every generation
+export interface AccountBrief {
+  id: string; // Same as accountId
+  accountId: string;
+  text: string;
+  metrics: AccountBriefMetrics;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  inputHash: string;
+  usage?: { inputTokens: number; outputTokens: number };
+  trigger: SummaryTrigger;
+  generatedBy: string; // User ID, or 'system' for the nightly run
+  generatedAt: Timestamp;
+}
@@ -0,0 +1,51 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type AITrigger = 'manual' | 'nightly';
+
+export interface AIUsageEntry {
+  id: string;
+  task: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  usageEstimated: boolean; // The provider reported no usage, so tokens were estimated from text length
+  trigger: AITrigger;
+  userId: string; // 'system' for scheduled runs
+  day: string; // yyyy-MM-dd, UTC
+  createdAt: Timestamp;
+}
+
+// Totals for one UTC day (yyyy-MM-dd) or month (yyyy-MM)
+export interface AIUsageTotals {
+  period: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  byTrigger: Partial<Record<AITrigger, number>>; // Cost per trigger
+  byTask: Record<string, number>; // Cost per task
+}
+
+// Spend limits in USD; null means no limit
+export interface AIBudget {
+  dailyLimitUsd: number | null;
+  monthlyLimitUsd: number | null;
+  updatedBy?: string;
+  updatedAt?: Timestamp;
+}
+
+export interface AIBudgetStatus {
+  budget: AIBudget;
+  daySpendUsd: number;
+  monthSpendUsd: number;
+  exceeded: 'daily' | 'monthly' | null;
+}
+
+export interface AIUsageReport {
+  status: AIBudgetStatus;
+  days: AIUsageTotals[]; // Oldest first
+  months: AIUsageTotals[]; // Oldest first
+  recentCalls: AIUsageEntry[];
+}
@@ -0,0 +1,43 @@
+import { Timestamp } from 'firebase/firestore';
+import type { OpportunityStage } from './Opportunity';
+
+// Stage changes matching an enabled policy need a manager's approval before they go through
+export interface ApprovalPolicy {
+  id: string;
+  name: string;
+  description?: string;
+  stages: OpportunityStage[]; // Target stages the policy guards
+  minDealValue: number | null; // Deals worth at least this much need approval
+  commercialModelKeywords: string[]; // Commercial models containing any of these need approval, case-insensitive
+  enabled: boolean;
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedBy: string;
+  updatedAt: Timestamp;
+}
+
+export type ApprovalPolicyInput = Pick<ApprovalPolicy, 'name' | 'description' | 'stages' | 'minDealValue' | 'commercialModelKeywords' | 'enabled'>;
+
+// applied: the approved stage change has been made
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'applied';
+
+export interface ApprovalRequest {
+  id: string;
+  opportunityId: string;
+  opportunityTitle: string;
+  accountId: string;
+  ownerId: string;
+  fromStage: OpportunityStage;
+  toStage: OpportunityStage;
+  dealValue: number | null; // As requested; the approval doesn't cover a bigger deal or another model
+  commercialModel: string;
+  policyIds: string[];
+  reasons: string[];
+  status: ApprovalStatus;
+  requestedBy: string;
+  requestedAt: Timestamp;
+  decidedBy?: string;
+  decidedAt?: Timestamp;
+  comment?: string;
+  appliedAt?: Timestamp;
+}
@@ -34,6 +34,8 @@ export interface AssignmentActivity {
   completedAt?: Timestamp;
   followUpDate?: Timestamp;
   followUpSubject?: string;
+  followUpOf?: string; // Set on a follow-up: the completed activity it continues
+  followUpActivityId?: string; // Set on a completed activity once its follow-up exists
   priority?: 'High' | 'Medium' | 'Low';
   createdAt: Timestamp;
   createdBy: string;
@@ -56,6 +58,10 @@ export interface Assignment {
   lastActivityDate?: Timestamp; // Track when last activity was added
   createdAt: Timestamp;
   updatedAt: Timestamp;
+  revision?: number; // Incremented on every write, sent back as expectedRevision on update
+  // Soft delete fields - set when the record is moved to the trash
+  deletedAt?: Timestamp;
+  deletedBy?: string;
 }
 
 export interface CreateAssignmentRequest {
@@ -79,6 +85,7 @@ export interface UpdateAssignmentRequest {
   ownerId?: string;
   oneDriveLink?: string;
   oneDriveTitle?: string;
+  expectedRevision?: number; // Revision the edit was based on - stale writes are rejected
 }
 
 export interface AddChecklistItemRequest {
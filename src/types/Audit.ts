@@ -0,0 +1,36 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type AuditResult = 'SUCCESS' | 'FAILURE';
+
+export interface AuditLogEntry {
+  id: string;
+  action: string; // e.g. ACCOUNT_UPDATE, revert, bulk_update
+  userId: string; // 'system' for scheduled jobs
+  userEmail?: string;
+  resourceType: string;
+  resourceId: string;
+  data?: Record<string, unknown> | null; // Sanitized: sensitive fields are redacted
+  metadata?: {
+    timestamp: Timestamp;
+    functionName?: string;
+    ipAddress?: string;
+    userAgent?: string;
+  };
+  result: AuditResult;
+  error?: string;
+}
+
+export interface AuditLogFilters {
+  userId?: string;
+  action?: string;
+  resourceType?: string;
+  resourceId?: string;
+  result?: AuditResult;
+  from?: string; // ISO date-time
+  to?: string; // ISO date-time
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  nextCursor: string | null; // Pass back to load the next page
+}
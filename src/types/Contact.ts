@@ -21,4 +21,9 @@ export interface Contact {
   ownerId: string; // User ID of the contact owner
   createdAt: Timestamp;
   updatedAt?: Timestamp;
+  revision?: number; // Incremented on every write, sent back as expectedRevision on update
+  // Soft delete fields - set when the record is moved to the trash
+  deletedAt?: Timestamp;
+  deletedBy?: string;
+  mergedInto?: string; // Set when merged away into another contact
 } 
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type MergeableCollection = 'accounts' | 'contacts';
+
+export type DuplicateReason = 'same_name' | 'similar_name' | 'same_website' | 'same_email' | 'same_name_and_account';
+
+export interface AccountDuplicateRecord {
+  id: string;
+  name: string;
+  website?: string;
+  region?: string;
+  ownerId?: string;
+  tags: string[];
+  contactCount: number;
+  productCount: number;
+  opportunityCount: number;
+  createdAt?: Timestamp;
+}
+
+export interface ContactDuplicateRecord {
+  id: string;
+  name: string;
+  email: string;
+  accountId: string;
+  position?: string;
+  ownerId?: string;
+  productIds: string[];
+  opportunityCount: number;
+  createdAt?: Timestamp;
+}
+
+export interface DuplicateGroup<T> {
+  records: T[];
+  reasons: DuplicateReason[];
+  score: number; // highest pairwise match score within the group, 0-1
+}
+
+export interface RecordRedirect {
+  collection: MergeableCollection;
+  fromId: string;
+  toId: string;
+  mergedAt: Timestamp;
+  mergedBy: string;
+}
+
+export interface MergeResult {
+  winnerId: string;
+  mergedIds: string[];
+  updatedReferences: number;
+}
@@ -0,0 +1,69 @@
+import { Timestamp } from 'firebase/firestore';
+import type { OpportunityStage } from './Opportunity';
+
+export type ForecastCategory = 'commit' | 'best_case' | 'pipeline';
+export type ForecastPeriodType = 'month' | 'quarter';
+
+export const FORECAST_CATEGORY_OPTIONS: { value: ForecastCategory; label: string }[] = [
+  { value: 'commit', label: 'Commit' },
+  { value: 'best_case', label: 'Best case' },
+  { value: 'pipeline', label: 'Pipeline' }
+];
+
+// Probability weight per stage, 0-100
+export interface ForecastSettings {
+  stageWeights: Record<OpportunityStage, number>;
+  updatedBy?: string;
+  updatedAt?: Timestamp;
+}
+
+export interface ForecastTotals {
+  opportunities: number; // Open deals
+  closedWon: number;
+  commit: number;
+  bestCase: number; // Commit plus best case
+  pipeline: number; // Every open deal
+  weighted: number;
+}
+
+export interface ForecastPeriod extends ForecastTotals {
+  key: string; // 2026-10 or 2026-Q4
+  label: string;
+  start: string;
+  end: string; // Exclusive
+}
+
+export interface ForecastReport {
+  periodType: ForecastPeriodType;
+  periods: ForecastPeriod[];
+  overdue: ForecastTotals; // Open deals whose close date is before the first period
+  undated: ForecastTotals; // Open deals without a close date
+  stageWeights: Record<OpportunityStage, number>;
+  generatedAt: string;
+}
+
+// Snapshot ids are the day they were taken, yyyy-MM-dd
+export interface ForecastSnapshotSummary {
+  id: string;
+  takenAt: Timestamp;
+}
+
+export interface SlippedDeal {
+  id: string;
+  title: string;
+  ownerId: string;
+  stage: OpportunityStage;
+  category: ForecastCategory;
+  value: number;
+  fromDate: string;
+  toDate: string | null; // null when the close date was cleared
+  fromPeriod: string;
+  toPeriod: string | null;
+}
+
+export interface ForecastComparison {
+  asOf: Timestamp;
+  periods: Array<{ key: string; label: string; then: ForecastTotals; now: ForecastTotals }>;
+  slipped: SlippedDeal[];
+  generatedAt: string;
+}
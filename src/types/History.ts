@@ -0,0 +1,30 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type HistoryCollection = 'accounts' | 'contacts' | 'products' | 'opportunities';
+
+export type HistoryAction = 'update' | 'bulk_update' | 'merge' | 'revert' | 'workflow';
+
+export interface FieldChange {
+  field: string;
+  from: unknown; // null when the field was not set
+  to: unknown; // null when the field was cleared
+}
+
+export interface RecordHistoryEntry {
+  id: string;
+  collection: HistoryCollection;
+  recordId: string;
+  revision: number; // Revision this change produced
+  action: HistoryAction;
+  changes: FieldChange[];
+  snapshot: Record<string, unknown>; // The record as it was before this change
+  changedBy: string;
+  changedAt: Timestamp;
+  revertedEntryId?: string; // Set on reverts: the entry whose snapshot was restored
+}
+
+export interface RevertResult<T = Record<string, unknown>> {
+  record: T;
+  revision: number;
+  fields: string[];
+}
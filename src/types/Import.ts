@@ -0,0 +1,22 @@
+export type ImportEntity = 'accounts' | 'contacts' | 'products' | 'opportunities';
+
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate' | 'created' | 'skipped' | 'failed';
+
+export type DuplicateStrategy = 'skip' | 'create';
+
+export interface ImportRowResult {
+  row: number; // spreadsheet row number - the header is row 1
+  status: ImportRowStatus;
+  errors?: Array<{ field: string; message: string }>;
+  duplicateOf?: string; // ID of the existing record, or "row N" for an earlier row in the same file
+  resolvedAccountId?: string;
+  id?: string; // ID of the created record
+}
+
+export interface ImportReport {
+  entity: ImportEntity;
+  dryRun: boolean;
+  total: number;
+  summary: Partial<Record<ImportRowStatus, number>>;
+  results: ImportRowResult[];
+}
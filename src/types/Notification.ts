@@ -0,0 +1,48 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type NotificationEvent = 'activity_assigned' | 'follow_up_due' | 'blocker_added' | 'stage_changed' | 'assignment_overdue' | 'workflow_rule' | 'approval_requested' | 'approval_decided';
+
+// How an event reaches the user's inbox: right away, in the daily digest, or not at all
+export type NotificationEmailDelivery = 'off' | 'immediate' | 'digest';
+
+export interface NotificationEventPreference {
+  inApp: boolean;
+  email: NotificationEmailDelivery;
+}
+
+export type NotificationEventPreferences = Partial<Record<NotificationEvent, NotificationEventPreference>>;
+
+// Same defaults the server applies to events without a saved preference
+export const NOTIFICATION_EVENT_OPTIONS: { value: NotificationEvent; label: string; description: string; defaults: NotificationEventPreference }[] = [
+  { value: 'activity_assigned', label: 'Activity assigned to you', description: 'Someone assigns you an activity on an opportunity', defaults: { inApp: true, email: 'immediate' } },
+  { value: 'follow_up_due', label: 'Follow-up due today', description: 'A follow-up on one of your activities is due', defaults: { inApp: true, email: 'digest' } },
+  { value: 'blocker_added', label: 'Blocker added', description: 'Someone adds a blocker to an opportunity you own', defaults: { inApp: true, email: 'immediate' } },
+  { value: 'stage_changed', label: 'Stage changed', description: 'Someone moves an opportunity you own to another stage', defaults: { inApp: true, email: 'digest' } },
+  { value: 'assignment_overdue', label: 'Assignment overdue', description: 'One of your assignments is past its due date', defaults: { inApp: true, email: 'digest' } },
+  { value: 'workflow_rule', label: 'Workflow rules', description: 'An automation rule notifies you about a record', defaults: { inApp: true, email: 'immediate' } },
+  { value: 'approval_requested', label: 'Approval requested', description: 'A deal on your team needs your approval to change stage', defaults: { inApp: true, email: 'immediate' } },
+  { value: 'approval_decided', label: 'Approval decided', description: 'A manager approves or rejects a stage change you asked for', defaults: { inApp: true, email: 'immediate' } }
+];
+
+export interface AppNotification {
+  id: string;
+  userId: string;
+  event: NotificationEvent;
+  title: string;
+  body: string;
+  link: string; // App path to open
+  resourceType: 'opportunity' | 'assignment' | 'contact' | 'account';
+  resourceId: string;
+  actorId: string | null;
+  inApp: boolean;
+  email: 'immediate' | 'digest' | null;
+  emailStatus: 'pending' | 'sent' | 'failed' | null;
+  read: boolean;
+  readAt?: Timestamp;
+  createdAt: Timestamp;
+}
+
+export interface NotificationsPage {
+  notifications: AppNotification[];
+  unreadCount: number;
+}
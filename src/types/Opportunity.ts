@@ -1,4 +1,5 @@
 import { Timestamp } from 'firebase/firestore';
+import type { ForecastCategory } from './Forecast';
 
 export type OpportunityStage = 'Lead' | 'Qualified' | 'Proposal' | 'Negotiation' | 'Closed-Won' | 'Closed-Lost';
 export type OpportunityPriority = 'Critical' | 'High' | 'Medium' | 'Low';
@@ -28,6 +29,8 @@ export interface Activity {
   completedAt?: Timestamp; // When the activity was completed
   followUpDate?: Timestamp; // When follow-up is scheduled
   followUpSubject?: string; // Subject for follow-up activity
+  followUpOf?: string; // Set on a follow-up: the completed activity it continues
+  followUpActivityId?: string; // Set on a completed activity once its follow-up exists
   priority?: 'High' | 'Medium' | 'Low'; // Priority for scheduled activities
   createdAt: Timestamp;
   createdBy: string; // user ID who created this activity
@@ -44,6 +47,46 @@ export interface ChecklistItem {
   completedAt?: Timestamp;
 }
 
+export type CloseOutOutcome = 'won' | 'lost';
+
+export const CLOSE_REASON_OPTIONS: Record<CloseOutOutcome, { value: string; label: string }[]> = {
+  won: [
+    { value: 'product_fit', label: 'Product fit' },
+    { value: 'price', label: 'Price' },
+    { value: 'relationship', label: 'Relationship' },
+    { value: 'integration', label: 'Ease of integration' },
+    { value: 'time_to_market', label: 'Time to market' },
+    { value: 'other', label: 'Other' }
+  ],
+  lost: [
+    { value: 'price', label: 'Price' },
+    { value: 'lost_to_competitor', label: 'Lost to competitor' },
+    { value: 'product_gap', label: 'Product gap' },
+    { value: 'no_budget', label: 'No budget' },
+    { value: 'no_decision', label: 'No decision' },
+    { value: 'timing', label: 'Timing' },
+    { value: 'other', label: 'Other' }
+  ]
+};
+
+export const closeReasonLabel = (outcome: CloseOutOutcome, reasonCode: string): string =>
+  CLOSE_REASON_OPTIONS[outcome].find(option => option.value === reasonCode)?.label
+    || (reasonCode === 'not_recorded' ? 'Not recorded' : reasonCode);
+
+// Captured when the opportunity moves to Closed-Won or Closed-Lost
+export interface OpportunityCloseOut {
+  outcome: CloseOutOutcome;
+  reasonCode: string;
+  competitor?: string;
+  notes: string; // Lessons learned
+  finalDealValue: number;
+  // Set by the server when the close-out is saved
+  closedAt?: Timestamp;
+  closedBy?: string; // user ID who closed the opportunity
+}
+
+export type CloseOutInput = Omit<OpportunityCloseOut, 'closedAt' | 'closedBy'>;
+
 export interface Opportunity {
   id: string;
   title: string;
@@ -73,6 +116,8 @@ export interface Opportunity {
   tags: string[];
   checklist?: ChecklistItem[]; // Optional for backward compatibility
   blockers?: ChecklistItem[]; // Blockers checklist - same structure as regular checklist
+  closeOut?: OpportunityCloseOut; // Reason, competitor and lessons learned once closed
+  forecastCategory?: ForecastCategory; // Rep's call on the deal; unset counts as pipeline
   
   // Timeline fields
   expectedCloseDate?: Timestamp;
@@ -84,10 +129,27 @@ export interface Opportunity {
   
   // AI Summary fields
   aiSummary?: string;
+  aiSummaryId?: string; // Version in ai_summaries the current text came from
   aiSummaryGeneratedAt?: Timestamp;
   aiSummaryManuallyRequested?: boolean; // Skip next auto-run if true
   
   ownerId: string; // User ID of the opportunity owner
   createdAt: Timestamp;
   updatedAt?: Timestamp;
+  revision?: number; // Incremented on every write, sent back as expectedRevision on update
+  // Soft delete fields - set when the record is moved to the trash
+  deletedAt?: Timestamp;
+  deletedBy?: string;
+}
+
+export interface OpportunityStageTransition {
+  id: string;
+  opportunityId: string;
+  fromStage: OpportunityStage | null; // null for the initial stage set on creation
+  toStage: OpportunityStage;
+  changedBy: string; // user ID who moved the opportunity
+  changedAt: Timestamp;
+  dealValue: number; // estimatedDealValue at the time of the transition
+  ownerId: string;
+  iolProducts: string[];
 } 
\ No newline at end of file
@@ -0,0 +1,82 @@
+// Mirrors functions/src/shared/permissions.ts - the functions enforce these, the UI only hides actions
+export type Role = 'admin' | 'manager' | 'rep' | 'read-only';
+
+export const ROLES: { value: Role; label: string; description: string }[] = [
+  { value: 'admin', label: 'Admin', description: 'Full access, including user roles, the audit log and AI budgets' },
+  { value: 'manager', label: 'Manager', description: 'Full access to records, trash and imports; approves held-back deals' },
+  { value: 'rep', label: 'Rep', description: 'Create and edit records, no deletes or bulk changes' },
+  { value: 'read-only', label: 'Read-only', description: 'View records only' }
+];
+
+type RecordResource = 'accounts' | 'contacts' | 'products' | 'opportunities' | 'tasks' | 'assignments';
+
+export type Permission =
+  | `${RecordResource}:${'read' | 'create' | 'update' | 'delete'}`
+  | 'accounts:bulkUpdate'
+  | 'contacts:bulkUpdate'
+  | 'products:bulkUpdate'
+  | 'opportunities:bulkUpdate'
+  | 'accounts:merge'
+  | 'contacts:merge'
+  | 'opportunities:generateSummary'
+  | 'aiSummaries:stats'
+  | 'dashboard:read'
+  | 'records:import'
+  | 'trash:read'
+  | 'trash:restore'
+  | 'trash:purge'
+  | 'users:read'
+  | 'users:update'
+  | 'users:stats'
+  | 'users:manageRoles'
+  | 'teams:read'
+  | 'teams:manage'
+  | 'audit:read'
+  | 'aiUsage:read'
+  | 'aiUsage:manageBudgets'
+  | 'workflows:manage'
+  | 'approvals:decide'
+  | 'approvals:manage'
+  | 'stageGates:manage'
+  | 'forecast:manage'
+  | 'targets:manage';
+
+// Extra permissions an admin can grant on top of a role
+export const GRANTABLE_PERMISSIONS: Permission[] = [
+  'accounts:delete',
+  'contacts:delete',
+  'products:delete',
+  'opportunities:delete',
+  'accounts:bulkUpdate',
+  'contacts:bulkUpdate',
+  'products:bulkUpdate',
+  'opportunities:bulkUpdate',
+  'accounts:merge',
+  'contacts:merge',
+  'records:import',
+  'trash:purge',
+  'users:stats',
+  'teams:manage',
+  'workflows:manage',
+  'approvals:decide',
+  'approvals:manage',
+  'stageGates:manage',
+  'forecast:manage',
+  'targets:manage'
+];
+
+// The widest slice of records a user may see; scopes in list views can only narrow it
+export type Visibility = 'all' | 'territory' | 'team' | 'mine';
+
+export const VISIBILITIES: { value: Visibility; label: string; description: string }[] = [
+  { value: 'all', label: 'Everything', description: 'All records' },
+  { value: 'territory', label: 'Territory', description: 'Accounts in their teams\' territories' },
+  { value: 'team', label: 'Team', description: 'Records owned by their teams' },
+  { value: 'mine', label: 'Own book', description: 'Records they own' }
+];
+
+export interface MyPermissions {
+  role: Role;
+  permissions: Permission[];
+  visibility: Visibility;
+}
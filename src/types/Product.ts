@@ -47,4 +47,8 @@ export interface Product {
   ownerId: string;
   createdAt: FirebaseTimestamp;
   updatedAt?: FirebaseTimestamp;
+  revision?: number; // Incremented on every write, sent back as expectedRevision on update
+  // Soft delete fields - set when the record is moved to the trash
+  deletedAt?: FirebaseTimestamp;
+  deletedBy?: string;
 }
\ No newline at end of file
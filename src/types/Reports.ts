@@ -0,0 +1,105 @@
+import { Timestamp } from 'firebase/firestore';
+import type { Account } from './Account';
+import type { Activity, Opportunity } from './Opportunity';
+
+export interface WeeklySummaryInput {
+  totalDealValue: number;
+  totalOpportunities: number;
+  activeOpportunities: number;
+  closedWonOpportunities: number;
+  closedLostOpportunities: number;
+  activitiesThisWeek: number;
+  activitiesNextWeek: number;
+  overdueActivities: number;
+  totalBlockers: number;
+}
+
+export interface WeeklyOpportunityInput {
+  id: string;
+  title: string;
+  accountName: string;
+  stage: string;
+  priority?: string;
+  estimatedDealValue?: number;
+  daysSinceLastActivity: number | null; // null when nothing has been completed yet
+  overdueActivities: number;
+  unresolvedBlockers: string[];
+  weeklyChanges: string[];
+  nextActivity?: { subject: string; date: string } | null;
+}
+
+export interface WeeklyActivityInput {
+  date: string; // yyyy-MM-dd
+  accountName: string;
+  opportunityTitle: string;
+  activityType: string;
+  subject: string;
+  status: string;
+}
+
+// What the weekly report page computed; the narrative is written from this alone
+export interface WeeklyReportInput {
+  weekStart: string; // yyyy-MM-dd, Monday
+  weekEnd: string; // yyyy-MM-dd, Sunday
+  summary: WeeklySummaryInput;
+  opportunities: WeeklyOpportunityInput[];
+  thisWeekActivities: WeeklyActivityInput[];
+  nextWeekActivities: WeeklyActivityInput[];
+}
+
+// Figures for the report's Executive Summary
+export type WeeklySummary = WeeklySummaryInput;
+
+export interface WeeklyReportActivity extends Activity {
+  opportunity: { id: string; title: string };
+  account: { id: string; name: string };
+}
+
+export interface OpportunityProgress {
+  opportunity: Opportunity;
+  account?: Account;
+  contacts: { id: string; name: string }[];
+  lastActivity?: Activity;
+  nextActivity?: Activity;
+  weeklyChanges: string[];
+  riskFactors: string[];
+  daysSinceLastActivity: number | null; // null when nothing has been completed yet
+  overdueActivityCount: number;
+  unresolvedBlockers: string[];
+}
+
+// The weekly report as built by the server for one week, timezone and optional owner
+export interface WeeklyReportData {
+  isoWeek: string; // e.g. 2026-W42
+  weekStart: string; // yyyy-MM-dd, Monday
+  weekEnd: string; // yyyy-MM-dd, Sunday
+  timeZone: string;
+  ownerId: string | null;
+  summary: WeeklySummary;
+  opportunityProgress: OpportunityProgress[]; // Open opportunities, by priority then number of risks
+  thisWeekActivities: WeeklyReportActivity[]; // Newest first
+  nextWeekActivities: WeeklyReportActivity[]; // Oldest first
+  wonThisWeek: { opportunity: Opportunity; account?: Account }[];
+  generatedAt: Timestamp;
+}
+
+export interface WeeklyReportParams {
+  weekOf: string; // yyyy-MM-dd, any day in the week
+  timeZone?: string; // IANA zone; defaults to UTC
+  ownerId?: string;
+  scope?: 'all' | 'territory' | 'team' | 'mine';
+}
+
+export interface WeeklyNarrative {
+  id: string;
+  isoWeek: string; // e.g. 2026-W42
+  userId: string;
+  narrative: string; // Current text, including the author's edits
+  generatedNarrative: string; // Text as the model wrote it
+  provider: string;
+  model: string;
+  promptVersion: string;
+  generatedAt: Timestamp;
+  updatedAt: Timestamp;
+  edited: boolean;
+}
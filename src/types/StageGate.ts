@@ -0,0 +1,43 @@
+import { Timestamp } from 'firebase/firestore';
+import type { OpportunityStage } from './Opportunity';
+
+export type StageGateCriterion =
+  | 'contact'
+  | 'decision_maker'
+  | 'commercial_model'
+  | 'deal_value'
+  | 'expected_close_date'
+  | 'products'
+  | 'no_open_blockers'
+  | 'checklist_complete';
+
+export const STAGE_GATE_CRITERION_OPTIONS: { value: StageGateCriterion; label: string }[] = [
+  { value: 'contact', label: 'At least one contact is linked' },
+  { value: 'decision_maker', label: 'A linked contact is a decision maker' },
+  { value: 'commercial_model', label: 'Commercial model is set' },
+  { value: 'deal_value', label: 'Estimated deal value is set' },
+  { value: 'expected_close_date', label: 'Expected close date is set' },
+  { value: 'products', label: 'At least one iOL product is selected' },
+  { value: 'no_open_blockers', label: 'No unresolved blockers' },
+  { value: 'checklist_complete', label: 'Every checklist item is done' }
+];
+
+// Entering a pipeline stage also needs the criteria of every stage before it; Closed-Lost only has its own
+export interface StageGates {
+  stages: Partial<Record<OpportunityStage, StageGateCriterion[]>>;
+  updatedBy?: string;
+  updatedAt?: Timestamp;
+}
+
+export interface UnmetCriterion {
+  criterion: StageGateCriterion;
+  label: string;
+  detail?: string; // e.g. the open blockers
+}
+
+export interface StageGateFailure {
+  opportunityId: string | null; // null for an opportunity being created
+  title: string;
+  stage: OpportunityStage;
+  unmet: UnmetCriterion[];
+}
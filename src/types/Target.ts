@@ -0,0 +1,75 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type TargetMetric = 'won_value' | 'won_count' | 'activities_completed' | 'new_accounts';
+export type TargetPeriodType = 'month' | 'quarter' | 'year';
+export type TargetSubjectType = 'user' | 'team';
+
+export const TARGET_METRIC_OPTIONS: { value: TargetMetric; label: string; currency: boolean }[] = [
+  { value: 'won_value', label: 'Won deal value', currency: true },
+  { value: 'won_count', label: 'Closed-Won deals', currency: false },
+  { value: 'activities_completed', label: 'Activities completed', currency: false },
+  { value: 'new_accounts', label: 'New accounts', currency: false }
+];
+
+export const formatMetricValue = (metric: TargetMetric, value: number): string =>
+  TARGET_METRIC_OPTIONS.find(option => option.value === metric)?.currency
+    ? `$${Math.round(value).toLocaleString()}`
+    : value.toLocaleString();
+
+// Period keys: 2026-10, 2026-Q4 or 2026, in UTC; offset moves that many periods back or forward
+export const periodKeyFor = (date: Date, type: TargetPeriodType, offset = 0): string => {
+  const monthsPer = type === 'year' ? 12 : type === 'quarter' ? 3 : 1;
+  const first = type === 'year' ? 0 : Math.floor(date.getUTCMonth() / monthsPer) * monthsPer;
+  const start = new Date(Date.UTC(date.getUTCFullYear(), first + offset * monthsPer, 1));
+  if (type === 'year') return `${start.getUTCFullYear()}`;
+  if (type === 'quarter') return `${start.getUTCFullYear()}-Q${Math.floor(start.getUTCMonth() / 3) + 1}`;
+  return start.toISOString().slice(0, 7);
+};
+
+// Unique per subject, period and metric
+export interface Target {
+  id: string;
+  subjectType: TargetSubjectType;
+  subjectId: string;
+  period: string;
+  periodType: TargetPeriodType;
+  metric: TargetMetric;
+  value: number;
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedBy: string;
+  updatedAt: Timestamp;
+}
+
+export type TargetInput = Pick<Target, 'subjectType' | 'subjectId' | 'period' | 'metric' | 'value'>;
+
+export type MetricTotals = Record<TargetMetric, number>;
+
+export interface TargetAttainment extends Target {
+  memberIds?: string[]; // Team targets: who the actual is summed over
+  actual: number;
+  attainment: number; // Percentage of the target reached
+}
+
+export interface LeaderboardEntry {
+  userId: string;
+  totals: MetricTotals;
+  attainment: Partial<Record<TargetMetric, number>>; // Only for metrics the user has a target on
+}
+
+export interface AttainmentReport {
+  period: string;
+  label: string;
+  start: string;
+  end: string; // Exclusive
+  targets: TargetAttainment[];
+  leaderboard: LeaderboardEntry[];
+  generatedAt: string;
+}
+
+export interface AttainmentTrendPoint {
+  period: string;
+  label: string;
+  target: number | null;
+  actual: number;
+}
@@ -0,0 +1,38 @@
+import { Timestamp } from 'firebase/firestore';
+
+// Slice of records a list is narrowed to
+export type RecordScope = 'all' | 'mine' | 'team' | 'territory';
+
+export const RECORD_SCOPES: { value: RecordScope; label: string }[] = [
+  { value: 'all', label: 'Everything' },
+  { value: 'mine', label: 'Mine' },
+  { value: 'team', label: 'My team' },
+  { value: 'territory', label: 'My territory' }
+];
+
+export interface Territory {
+  id: string;
+  name: string;
+  description?: string;
+  regions: string[]; // Matched against Account.region (headoffice country)
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  description?: string;
+  managerIds: string[];
+  memberIds: string[];
+  territoryIds: string[];
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface TeamsResponse {
+  teams: Team[];
+  territories: Territory[];
+}
@@ -0,0 +1,14 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type TrashCollection = 'accounts' | 'contacts' | 'products' | 'opportunities' | 'tasks' | 'assignments';
+
+export interface TrashItem {
+  id: string;
+  collection: TrashCollection;
+  resourceType: string;
+  title: string;
+  accountId?: string;
+  deletedAt: Timestamp;
+  deletedBy: string;
+  purgeAfter: Timestamp; // when the scheduled purge will permanently delete the item
+}
@@ -22,6 +22,7 @@ export interface UnifiedTask {
   assignedToName?: string; // Display name of the assigned user
   createdAt: Timestamp; // When the item was created
   completedAt?: Timestamp; // When the item was completed
+  missingFollowUp?: boolean; // A completed activity whose follow-up was never scheduled
 }
 
 /**
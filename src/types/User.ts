@@ -1,4 +1,5 @@
 import { Timestamp } from 'firebase/firestore';
+import type { NotificationEventPreferences } from './Notification';
 
 export interface User {
   id: string;
@@ -14,11 +15,13 @@ export interface User {
   avatar?: string;
   role?: string;
   permissions?: string[];
+  visibility?: string;
   timezone?: string;
   notifications?: {
     email: boolean;
     push: boolean;
     weekly: boolean;
+    events?: NotificationEventPreferences; // Defaults apply to events not listed
   };
   
   createdAt: Timestamp;
@@ -0,0 +1,107 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type WorkflowEntity = 'opportunity' | 'assignment' | 'contact' | 'account';
+
+export const WORKFLOW_ENTITY_OPTIONS: { value: WorkflowEntity; label: string }[] = [
+  { value: 'opportunity', label: 'Opportunity' },
+  { value: 'assignment', label: 'Assignment' },
+  { value: 'contact', label: 'Contact' },
+  { value: 'account', label: 'Account' }
+];
+
+export type WorkflowValue = string | number | boolean | null;
+
+export type WorkflowTrigger =
+  | { type: 'created' }
+  | { type: 'field_changed'; field: string; to?: WorkflowValue } // Any change when `to` is not set
+  | { type: 'date_reached'; field: string; offsetDays: number }; // Negative offsets fire before the date
+
+export type WorkflowConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'greater_than'
+  | 'less_than'
+  | 'contains'
+  | 'in'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export const CONDITION_OPERATOR_OPTIONS: { value: WorkflowConditionOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'greater_than', label: 'is greater than' },
+  { value: 'less_than', label: 'is less than' },
+  { value: 'contains', label: 'contains' },
+  { value: 'in', label: 'is one of' },
+  { value: 'is_empty', label: 'is empty' },
+  { value: 'is_not_empty', label: 'is not empty' }
+];
+
+export interface WorkflowCondition {
+  field: string; // Dot path into the record, e.g. stage or address.country
+  operator: WorkflowConditionOperator;
+  value?: WorkflowValue | WorkflowValue[]; // A list for `in`; unused by the emptiness checks
+}
+
+// Text fields in actions may use {{field}} placeholders, filled from the record
+export type WorkflowAction =
+  | { type: 'add_checklist_item'; list: 'checklist' | 'blockers'; text: string; dueInDays?: number }
+  | { type: 'create_activity'; activityType: string; subject: string; dueInDays: number; assignTo?: string } // Record owner when assignTo is not set
+  | { type: 'set_field'; field: string; value: WorkflowValue }
+  | { type: 'notify_user'; userId?: string; title: string; body?: string } // Record owner when userId is not set
+  | { type: 'call_webhook'; url: string };
+
+export type WorkflowActionType = WorkflowAction['type'];
+
+export const WORKFLOW_ACTION_OPTIONS: { value: WorkflowActionType; label: string }[] = [
+  { value: 'add_checklist_item', label: 'Add checklist item' },
+  { value: 'create_activity', label: 'Create activity' },
+  { value: 'set_field', label: 'Set field' },
+  { value: 'notify_user', label: 'Notify user' },
+  { value: 'call_webhook', label: 'Call webhook' }
+];
+
+export interface WorkflowRule {
+  id: string;
+  name: string;
+  description?: string;
+  entity: WorkflowEntity;
+  trigger: WorkflowTrigger;
+  conditions: WorkflowCondition[]; // All must match
+  actions: WorkflowAction[]; // Run in order; a failed action doesn't stop the rest
+  enabled: boolean;
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedBy: string;
+  updatedAt: Timestamp;
+}
+
+export type WorkflowRuleInput = Pick<WorkflowRule, 'name' | 'description' | 'entity' | 'trigger' | 'conditions' | 'actions' | 'enabled'>;
+
+export interface WorkflowActionResult {
+  type: WorkflowActionType;
+  status: 'succeeded' | 'failed' | 'skipped';
+  detail?: string;
+}
+
+export interface WorkflowExecution {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  entity: WorkflowEntity;
+  recordId: string;
+  trigger: WorkflowTrigger['type'];
+  status: 'succeeded' | 'partial' | 'failed';
+  actions: WorkflowActionResult[];
+  triggeredBy: string; // User whose write fired the rule; 'system' for date triggers
+  executedAt: Timestamp;
+}
+
+// Dry run of a rule against one stored record; nothing is written
+export interface WorkflowTestResult {
+  recordFound: boolean;
+  trigger: { description: string; firesOn?: string }; // firesOn: UTC day a date trigger fires for this record
+  conditions: (WorkflowCondition & { actual: unknown; matched: boolean })[];
+  matched: boolean;
+  actions: string[];
+}
@@ -4,9 +4,35 @@ export type { ContactType } from './Contact';
 export type { Contact } from './Contact';
 export type { ProductCategory, ProductSubcategory } from './Product';
 export type { Product } from './Product';
-export type { Opportunity, OpportunityStage, OpportunityPriority, MeetingHistory, Activity, ActivityStatus, ChecklistItem } from './Opportunity';
+export type { Opportunity, OpportunityStage, OpportunityPriority, MeetingHistory, Activity, ActivityStatus, ChecklistItem, OpportunityStageTransition, CloseOutOutcome, OpportunityCloseOut, CloseOutInput } from './Opportunity';
 export type { Task, TaskStatus } from './Task';
 export type { User } from './User';
+export type { Role, Permission, Visibility, MyPermissions } from './Permissions';
+export type { Team, Territory, RecordScope, TeamsResponse } from './Teams';
+export type { TrashItem, TrashCollection } from './Trash';
+export type { HistoryCollection, HistoryAction, FieldChange, RecordHistoryEntry, RevertResult } from './History';
+export type { AuditResult, AuditLogEntry, AuditLogFilters, AuditLogPage } from './Audit';
+export type { AITrigger, AIUsageEntry, AIUsageTotals, AIBudget, AIBudgetStatus, AIUsageReport } from './AIUsage';
+export type { NotificationEvent, NotificationEmailDelivery, NotificationEventPreference, NotificationEventPreferences, AppNotification, NotificationsPage } from './Notification';
+export type { WorkflowEntity, WorkflowValue, WorkflowTrigger, WorkflowConditionOperator, WorkflowCondition, WorkflowAction, WorkflowActionType, WorkflowRule, WorkflowRuleInput, WorkflowActionResult, WorkflowExecution, WorkflowTestResult } from './Workflow';
+export type { ApprovalPolicy, ApprovalPolicyInput, ApprovalStatus, ApprovalRequest } from './Approval';
+export type { StageGateCriterion, StageGates, UnmetCriterion, StageGateFailure } from './StageGate';
+export type { ForecastCategory, ForecastPeriodType, ForecastSettings, ForecastTotals, ForecastPeriod, ForecastReport, ForecastSnapshotSummary, SlippedDeal, ForecastComparison } from './Forecast';
+export type { TargetMetric, TargetPeriodType, TargetSubjectType, Target, TargetInput, MetricTotals, TargetAttainment, LeaderboardEntry, AttainmentReport, AttainmentTrendPoint } from './Target';
+export type { SummaryTrigger, SummaryRatingValue, AISummaryRating, AISummaryVersion, PromptRatingStats, AISummaryRatingStats } from './AISummary';
+export type { ProposedActivity, ProposedChecklistItem, MentionedContact, ExtractedActions } from './AISummary';
+export type { AccountBriefMetrics, AccountBrief } from './AISummary';
+export type { WeeklySummaryInput, WeeklyOpportunityInput, WeeklyActivityInput, WeeklyReportInput, WeeklyNarrative, WeeklySummary, WeeklyReportActivity, OpportunityProgress, WeeklyReportData, WeeklyReportParams } from './Reports';
+export type {
+  MergeableCollection,
+  DuplicateReason,
+  AccountDuplicateRecord,
+  ContactDuplicateRecord,
+  DuplicateGroup,
+  RecordRedirect,
+  MergeResult
+} from './Duplicates';
+export type { ImportEntity, ImportRowStatus, DuplicateStrategy, ImportRowResult, ImportReport } from './Import';
 export type { 
   Assignment, 
   AssignmentStatus, 
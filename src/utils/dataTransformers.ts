@@ -23,6 +23,8 @@ type Activity = {
   completedAt?: Timestamp;
   followUpDate?: Timestamp;
   followUpSubject?: string;
+  followUpOf?: string;
+  followUpActivityId?: string;
   priority?: 'High' | 'Medium' | 'Low';
   createdAt: Timestamp;
   createdBy: string;
@@ -57,6 +59,26 @@ function getTaskStatus(dueDate: Date, isCompleted: boolean): UnifiedTask['status
   }
 }
 
+/**
+ * @function getMissingFollowUp
+ * @description Finds a completed activity whose follow-up should exist by now but was never scheduled.
+ * The server schedules follow-ups on completion, so this only catches older or failed saves.
+ * @param {Activity | AssignmentActivity} activity - The activity to check.
+ * @returns {{ title: string; dueDate: Date } | undefined} The missing follow-up, if its date has passed.
+ */
+function getMissingFollowUp(activity: Activity | AssignmentActivity): { title: string; dueDate: Date } | undefined {
+  if (activity.status !== 'Completed' || !activity.followUpNeeded || activity.followUpActivityId) {
+    return undefined;
+  }
+
+  const dueDate = convertTimestampToDate(activity.followUpDate);
+  if (!dueDate || getTaskStatus(dueDate, false) !== 'Overdue') {
+    return undefined;
+  }
+
+  return { title: activity.followUpSubject || `Follow-up: ${activity.subject}`, dueDate };
+}
+
 /**
  * @function getAssignmentPriority
  * @description Infers a priority for an assignment-related task based on the assignment's status.
@@ -174,8 +196,27 @@ export function transformDataForDashboard(opportunities: Opportunity[], assignme
   opportunities.forEach(opportunity => {
     // 1. Process Opportunity Activities (using followUpDate as primary, dateTime as fallback for scheduled items)
     opportunity.activities?.forEach(activity => {
-      // Skip completed activities
+      // Completed activities only show up when their follow-up is missing
       if (activity.status === 'Completed') {
+        const missing = getMissingFollowUp(activity);
+        if (missing) {
+          unifiedTasks.push({
+            id: `${activity.id}_follow_up`,
+            title: missing.title,
+            type: 'OpportunityActivity',
+            parentId: opportunity.id,
+            parentTitle: opportunity.title,
+            dueDate: missing.dueDate,
+            status: 'Overdue',
+            priority: activity.priority,
+            isComplete: false,
+            linkedUrl: `/opportunities/${opportunity.id}`,
+            parentType: 'Opportunity',
+            assignedTo: activity.assignedTo,
+            createdAt: activity.completedAt || activity.createdAt,
+            missingFollowUp: true
+          });
+        }
         return;
       }
 
@@ -303,8 +344,27 @@ export function transformDataForDashboard(opportunities: Opportunity[], assignme
     // 2. Process Assignment Activities (using followUpDate)
     if (assignment.activities) {
       assignment.activities.forEach(activity => {
-        // Skip completed activities
+        // Completed activities only show up when their follow-up is missing
         if (activity.status === 'Completed') {
+          const missing = getMissingFollowUp(activity);
+          if (missing) {
+            unifiedTasks.push({
+              id: `${activity.id}_follow_up`,
+              title: missing.title,
+              type: 'AssignmentActivity',
+              parentId: assignment.taskId,
+              parentTitle: assignment.title,
+              dueDate: missing.dueDate,
+              status: 'Overdue',
+              priority: activity.priority || getAssignmentPriority(assignment.status),
+              isComplete: false,
+              linkedUrl: `/assignments/${assignment.taskId}`,
+              parentType: 'Assignment',
+              assignedTo: activity.assignedTo,
+              createdAt: activity.completedAt || activity.createdAt,
+              missingFollowUp: true
+            });
+          }
           return;
         }
 
@@ -0,0 +1,28 @@
+/**
+ * Display helpers for raw record field values, shared by the merge dialog and record history
+ */
+
+export const humanizeField = (field: string) =>
+  field.replace(/([A-Z])/g, ' $1').replace(/^./, char => char.toUpperCase());
+
+const describeItem = (item: unknown): string => {
+  if (item && typeof item === 'object') {
+    const { subject, text, title, name, message, id } = item as Record<string, unknown>;
+    return String(subject || text || title || name || message || id || '');
+  }
+  return String(item);
+};
+
+export const describeValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (Array.isArray(value)) {
+    return value.length === 0 ? '(empty)' : value.map(describeItem).join(', ');
+  }
+  if (value instanceof Date) return value.toLocaleString();
+  if (typeof value === 'object') {
+    const seconds = (value as { seconds?: number; _seconds?: number }).seconds ?? (value as { _seconds?: number })._seconds;
+    if (typeof seconds === 'number') return new Date(seconds * 1000).toLocaleString();
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
@@ -0,0 +1,171 @@
+/**
+ * Three-way merge for saves rejected because someone else changed the record first.
+ *
+ * - base: the record as the user loaded it
+ * - mine: the fields the user is saving
+ * - theirs: the record as it is stored now
+ *
+ * Fields only one side changed merge automatically. Lists of items with an id (activities,
+ * checklist, blockers) and lists of plain values (tags, contact ids) merge item by item, so
+ * two people adding different items both keep theirs. Anything both sides changed differently
+ * is returned as a conflict for the user to decide.
+ */
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+export interface FieldConflict {
+  field: string;
+  mine: unknown;
+  theirs: unknown;
+}
+
+export interface MergeOutcome<T> {
+  merged: Partial<T>; // The fields to save again; conflicting fields hold my value until resolved
+  conflicts: FieldConflict[];
+  theirChanges: string[]; // Fields where their change was kept or combined with mine
+}
+
+// Fields stamped by the server on every write - never a user edit
+const IGNORED_FIELDS = ['id', 'createdAt', 'updatedAt', 'revision'];
+
+type Identified = { id: string };
+
+const isTimestampLike = (value: object): value is { seconds?: number; _seconds?: number; nanoseconds?: number; _nanoseconds?: number } =>
+  typeof (value as { seconds?: unknown }).seconds === 'number' || typeof (value as { _seconds?: unknown })._seconds === 'number';
+
+/**
+ * Normalise a value for comparison: timestamps arrive as Firestore Timestamps, Dates or
+ * serialized {_seconds} objects, and empty values are written as '', [] or left out.
+ */
+const toComparable = (value: unknown): unknown => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.getTime();
+  if (Array.isArray(value)) return value.length === 0 ? null : value.map(toComparable);
+  if (typeof value === 'object') {
+    if (isTimestampLike(value)) {
+      const seconds = value.seconds ?? value._seconds ?? 0;
+      const nanoseconds = value.nanoseconds ?? value._nanoseconds ?? 0;
+      return seconds * 1000 + Math.floor(nanoseconds / 1e6);
+    }
+    return Object.keys(value)
+      .sort()
+      .reduce((acc, key) => {
+        const normalised = toComparable((value as Record<string, unknown>)[key]);
+        if (normalised !== null) acc[key] = normalised;
+        return acc;
+      }, {} as Record<string, unknown>);
+  }
+  return value;
+};
+
+export const isSameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(toComparable(a)) === JSON.stringify(toComparable(b));
+
+const isIdentified = (item: unknown): item is Identified =>
+  !!item && typeof item === 'object' && typeof (item as Identified).id === 'string';
+
+const isMergeableList = (value: unknown): value is unknown[] =>
+  value === undefined || value === null ||
+  (Array.isArray(value) && (value.every(isIdentified) || value.every(item => typeof item !== 'object')));
+
+const itemKey = (item: unknown): string => isIdentified(item) ? item.id : JSON.stringify(item);
+
+/**
+ * Merge two edited copies of a list item by item. Returns the result preferring my version
+ * and the result preferring theirs for items both sides changed - equal when nothing conflicts.
+ */
+const mergeLists = (base: unknown[], mine: unknown[], theirs: unknown[]): { preferMine: unknown[]; preferTheirs: unknown[] } => {
+  const index = (items: unknown[]) => new Map(items.map(item => [itemKey(item), item]));
+  const baseItems = index(base);
+  const mineItems = index(mine);
+  const theirItems = index(theirs);
+
+  // Keep their ordering, then append what only I added
+  const keys = Array.from(new Set([...theirs.map(itemKey), ...mine.map(itemKey)]));
+  const preferMine: unknown[] = [];
+  const preferTheirs: unknown[] = [];
+
+  keys.forEach(key => {
+    const original = baseItems.get(key);
+    const mineItem = mineItems.get(key);
+    const theirItem = theirItems.get(key);
+
+    if (isSameValue(mineItem, original)) {
+      if (theirItem !== undefined) {
+        preferMine.push(theirItem);
+        preferTheirs.push(theirItem);
+      }
+    } else if (isSameValue(theirItem, original) || isSameValue(mineItem, theirItem)) {
+      if (mineItem !== undefined) {
+        preferMine.push(mineItem);
+        preferTheirs.push(mineItem);
+      }
+    } else {
+      if (mineItem !== undefined) preferMine.push(mineItem);
+      if (theirItem !== undefined) preferTheirs.push(theirItem);
+    }
+  });
+
+  return { preferMine, preferTheirs };
+};
+
+export const mergeRecords = <T extends object>(
+  base: Partial<T>,
+  mine: Partial<T>,
+  theirs: Partial<T>
+): MergeOutcome<T> => {
+  const baseValues = base as Record<string, unknown>;
+  const mineValues = mine as Record<string, unknown>;
+  const theirValues = theirs as Record<string, unknown>;
+
+  const merged: Record<string, unknown> = {};
+  const conflicts: FieldConflict[] = [];
+  const theirChanges: string[] = [];
+
+  Object.keys(mineValues)
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .forEach(field => {
+      const original = baseValues[field];
+      const mineValue = mineValues[field];
+      const theirValue = theirValues[field];
+      const theyChanged = !isSameValue(theirValue, original);
+
+      if (isSameValue(mineValue, original)) {
+        merged[field] = theirValue;
+        if (theyChanged) theirChanges.push(field);
+        return;
+      }
+
+      if (!theyChanged || isSameValue(mineValue, theirValue)) {
+        merged[field] = mineValue;
+        return;
+      }
+
+      if (isMergeableList(original) && isMergeableList(mineValue) && isMergeableList(theirValue)) {
+        const { preferMine, preferTheirs } = mergeLists(original || [], mineValue || [], theirValue || []);
+        merged[field] = preferMine;
+        if (isSameValue(preferMine, preferTheirs)) {
+          theirChanges.push(field);
+        } else {
+          conflicts.push({ field, mine: preferMine, theirs: preferTheirs });
+        }
+        return;
+      }
+
+      merged[field] = mineValue;
+      conflicts.push({ field, mine: mineValue, theirs: theirValue });
+    });
+
+  return { merged: merged as Partial<T>, conflicts, theirChanges };
+};
+
+/**
+ * The fields to save once the user has picked a side for every conflict
+ */
+export const applyConflictChoices = <T>(outcome: MergeOutcome<T>, choices: Record<string, ConflictChoice>): Partial<T> => {
+  const resolved: Record<string, unknown> = { ...outcome.merged };
+  outcome.conflicts.forEach(conflict => {
+    resolved[conflict.field] = choices[conflict.field] === 'theirs' ? conflict.theirs : conflict.mine;
+  });
+  return resolved as Partial<T>;
+};